@@ -0,0 +1,653 @@
+// Alerts Middleware - Risk alert rules, evaluation against score changes, and delivery
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { eq, and, or, ilike, isNull, inArray, asc, desc } from 'drizzle-orm';
+import {
+  alertRules,
+  alertEvents,
+  riskChanges,
+  supplierRiskScores,
+  suppliers,
+  userPortfolios,
+  users,
+} from '../../src/db/schema.js';
+import type { AlertRule, DbRiskChange, RiskFactorScore } from '../../src/db/schema.js';
+import {
+  ALERT_FREQUENCIES,
+  ALERT_TRIGGER_TYPES,
+  type AlertFrequency,
+  type AlertRuleInput,
+  type AlertRuleWithSupplier,
+  type RiskScoreChange,
+} from '../../src/types/alerts.js';
+import { getRiskLevelFromScore } from '../../src/types/supplier.js';
+import { sendMail, getAppUrl } from './mail.js';
+import { createNotification } from './notifications.js';
+import { appendRiskScoreHistory } from './riskHistory.js';
+
+const getDb = () => {
+  const client = neon(process.env.DATABASE_URL!);
+  return drizzle(client);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DIGEST_INTERVAL_MS: Record<Exclude<AlertFrequency, 'immediate'>, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+// Matches the 9 points the seed data keeps
+const SCORE_HISTORY_LENGTH = 9;
+
+const MAX_RECIPIENTS = 10;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ══════════════════════════════════════════════════════════════════
+// Rule evaluation
+// ══════════════════════════════════════════════════════════════════
+
+type RuleTrigger = Pick<AlertRule, 'triggerType' | 'thresholdValue' | 'thresholdDirection' | 'changePercent'>;
+
+/**
+ * Whether a score change fires a rule. Thresholds fire on the crossing only,
+ * so a supplier sitting above the line does not alert on every update.
+ */
+export function evaluateAlertRule(rule: RuleTrigger, change: RiskScoreChange): boolean {
+  const { previousScore, currentScore } = change;
+  if (previousScore === currentScore) {
+    return false;
+  }
+
+  switch (rule.triggerType) {
+    case 'threshold': {
+      if (rule.thresholdValue === null) return false;
+      const threshold = rule.thresholdValue;
+      return rule.thresholdDirection === 'below'
+        ? previousScore >= threshold && currentScore < threshold
+        : previousScore <= threshold && currentScore > threshold;
+    }
+    case 'change': {
+      if (rule.changePercent === null) return false;
+      const percent = (Math.abs(currentScore - previousScore) / Math.max(previousScore, 1)) * 100;
+      return percent >= rule.changePercent;
+    }
+    case 'any_change':
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * One-line summary of why a rule fired
+ */
+export function describeAlertTrigger(rule: RuleTrigger, change: RiskScoreChange, supplierName: string): string {
+  const { previousScore, currentScore } = change;
+  const movement = `${previousScore} → ${currentScore}`;
+
+  if (rule.triggerType === 'threshold') {
+    const verb = rule.thresholdDirection === 'below' ? 'fell below' : 'rose above';
+    return `${supplierName} risk score ${verb} ${rule.thresholdValue} (${movement})`;
+  }
+  if (rule.triggerType === 'change') {
+    const percent = Math.round((Math.abs(currentScore - previousScore) / Math.max(previousScore, 1)) * 100);
+    return `${supplierName} risk score changed ${percent}% (${movement})`;
+  }
+  return `${supplierName} risk score changed (${movement})`;
+}
+
+/**
+ * Daily and weekly rules deliver at most once per interval
+ */
+export function isDigestDue(frequency: AlertFrequency, lastDigestAt: Date | null, now: Date = new Date()): boolean {
+  if (frequency === 'immediate') {
+    return false;
+  }
+  if (!lastDigestAt) {
+    return true;
+  }
+  return now.getTime() - lastDigestAt.getTime() >= DIGEST_INTERVAL_MS[frequency];
+}
+
+function alertSeverity(change: RiskScoreChange): 'info' | 'warning' | 'critical' {
+  if (change.currentScore >= 75 && change.currentScore > change.previousScore) {
+    return 'critical';
+  }
+  return change.currentScore > change.previousScore ? 'warning' : 'info';
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Validation
+// ══════════════════════════════════════════════════════════════════
+
+function isScore(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 100;
+}
+
+/**
+ * Validate a create/update body. Returns the normalized rule or an error message.
+ * Fields that do not apply to the trigger type are cleared.
+ */
+export function validateAlertRuleInput(body: unknown): { rule: AlertRuleInput } | { error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Request body is required' };
+  }
+  const input = body as Record<string, unknown>;
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name || name.length > 120) {
+    return { error: 'name is required (max 120 characters)' };
+  }
+
+  if (!ALERT_TRIGGER_TYPES.includes(input.triggerType as AlertRuleInput['triggerType'])) {
+    return { error: `triggerType must be one of: ${ALERT_TRIGGER_TYPES.join(', ')}` };
+  }
+  const triggerType = input.triggerType as AlertRuleInput['triggerType'];
+
+  const frequency = (input.frequency ?? 'immediate') as AlertFrequency;
+  if (!ALERT_FREQUENCIES.includes(frequency)) {
+    return { error: `frequency must be one of: ${ALERT_FREQUENCIES.join(', ')}` };
+  }
+
+  if (input.supplierId !== undefined && input.supplierId !== null && typeof input.supplierId !== 'string') {
+    return { error: 'supplierId must be a string or null' };
+  }
+  if (input.supplierName !== undefined && input.supplierName !== null && typeof input.supplierName !== 'string') {
+    return { error: 'supplierName must be a string' };
+  }
+
+  let thresholdValue: number | null = null;
+  let thresholdDirection: AlertRuleInput['thresholdDirection'] = null;
+  let changePercent: number | null = null;
+
+  if (triggerType === 'threshold') {
+    if (!isScore(input.thresholdValue)) {
+      return { error: 'thresholdValue must be a whole number between 0 and 100' };
+    }
+    const direction = input.thresholdDirection ?? 'above';
+    if (direction !== 'above' && direction !== 'below') {
+      return { error: "thresholdDirection must be 'above' or 'below'" };
+    }
+    thresholdValue = input.thresholdValue;
+    thresholdDirection = direction;
+  } else if (triggerType === 'change') {
+    if (!isScore(input.changePercent) || input.changePercent < 1) {
+      return { error: 'changePercent must be a whole number between 1 and 100' };
+    }
+    changePercent = input.changePercent;
+  }
+
+  const channels = (input.channels ?? {}) as Record<string, unknown>;
+  const normalizedChannels = {
+    email: channels.email === true,
+    push: channels.push === true,
+    inApp: channels.inApp !== false,
+  };
+  if (!normalizedChannels.email && !normalizedChannels.push && !normalizedChannels.inApp) {
+    return { error: 'At least one delivery channel is required' };
+  }
+
+  const recipients = input.recipients ?? [];
+  if (!Array.isArray(recipients) || recipients.length > MAX_RECIPIENTS) {
+    return { error: `recipients must be a list of up to ${MAX_RECIPIENTS} emails` };
+  }
+  const normalizedRecipients = recipients.map((r) => (typeof r === 'string' ? r.trim().toLowerCase() : ''));
+  if (normalizedRecipients.some((r) => !EMAIL_PATTERN.test(r))) {
+    return { error: 'recipients must be valid email addresses' };
+  }
+
+  return {
+    rule: {
+      supplierId: (input.supplierId as string | null | undefined) ?? null,
+      supplierName: (input.supplierName as string | null | undefined)?.trim() || undefined,
+      name,
+      triggerType,
+      thresholdValue,
+      thresholdDirection,
+      changePercent,
+      frequency,
+      channels: normalizedChannels,
+      recipients: Array.from(new Set(normalizedRecipients)),
+      isActive: input.isActive !== false,
+    },
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Rule CRUD
+// ══════════════════════════════════════════════════════════════════
+
+const ruleWithSupplierColumns = {
+  rule: alertRules,
+  supplierName: suppliers.name,
+};
+
+export async function listAlertRules(userId: string, supplierId?: string): Promise<AlertRuleWithSupplier[]> {
+  const db = getDb();
+
+  const rows = await db
+    .select(ruleWithSupplierColumns)
+    .from(alertRules)
+    .leftJoin(suppliers, eq(alertRules.supplierId, suppliers.id))
+    .where(supplierId
+      ? and(eq(alertRules.userId, userId), eq(alertRules.supplierId, supplierId))
+      : eq(alertRules.userId, userId))
+    .orderBy(desc(alertRules.createdAt));
+
+  return rows.map((row) => ({ ...row.rule, supplierName: row.supplierName }));
+}
+
+export async function getAlertRule(userId: string, ruleId: string): Promise<AlertRuleWithSupplier | null> {
+  const db = getDb();
+
+  const [row] = await db
+    .select(ruleWithSupplierColumns)
+    .from(alertRules)
+    .leftJoin(suppliers, eq(alertRules.supplierId, suppliers.id))
+    .where(and(eq(alertRules.id, ruleId), eq(alertRules.userId, userId)))
+    .limit(1);
+
+  return row ? { ...row.rule, supplierName: row.supplierName } : null;
+}
+
+/**
+ * Resolve the rule's supplier to a row id. Chat and demo data only know
+ * supplier names (and non-UUID mock ids), so fall back to an exact name match.
+ * Throws when a supplier was given but cannot be found.
+ */
+async function resolveSupplierId(input: AlertRuleInput): Promise<string | null> {
+  if (!input.supplierId && !input.supplierName) {
+    return null;
+  }
+  const db = getDb();
+
+  const [supplier] = input.supplierId && UUID_PATTERN.test(input.supplierId)
+    ? await db.select({ id: suppliers.id }).from(suppliers).where(eq(suppliers.id, input.supplierId)).limit(1)
+    : input.supplierName
+      ? await db.select({ id: suppliers.id }).from(suppliers).where(ilike(suppliers.name, input.supplierName.replace(/[%_\\]/g, '\\$&'))).limit(1)
+      : [];
+
+  if (!supplier) {
+    throw new Error('Supplier not found');
+  }
+  return supplier.id;
+}
+
+export async function createAlertRule(userId: string, input: AlertRuleInput): Promise<AlertRule> {
+  const supplierId = await resolveSupplierId(input);
+  const db = getDb();
+
+  const [rule] = await db
+    .insert(alertRules)
+    .values({
+      userId,
+      supplierId,
+      name: input.name,
+      triggerType: input.triggerType,
+      thresholdValue: input.thresholdValue ?? null,
+      thresholdDirection: input.thresholdDirection ?? null,
+      changePercent: input.changePercent ?? null,
+      frequency: input.frequency,
+      channels: input.channels,
+      recipients: input.recipients ?? [],
+      isActive: input.isActive ?? true,
+    })
+    .returning();
+
+  return rule;
+}
+
+/**
+ * Replace a rule's settings. Returns null if the rule is not the user's.
+ */
+export async function updateAlertRule(userId: string, ruleId: string, input: AlertRuleInput): Promise<AlertRule | null> {
+  const supplierId = await resolveSupplierId(input);
+  const db = getDb();
+
+  const [rule] = await db
+    .update(alertRules)
+    .set({
+      supplierId,
+      name: input.name,
+      triggerType: input.triggerType,
+      thresholdValue: input.thresholdValue ?? null,
+      thresholdDirection: input.thresholdDirection ?? null,
+      changePercent: input.changePercent ?? null,
+      frequency: input.frequency,
+      channels: input.channels,
+      recipients: input.recipients ?? [],
+      isActive: input.isActive ?? true,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(alertRules.id, ruleId), eq(alertRules.userId, userId)))
+    .returning();
+
+  return rule ?? null;
+}
+
+export async function deleteAlertRule(userId: string, ruleId: string): Promise<boolean> {
+  const db = getDb();
+
+  const deleted = await db
+    .delete(alertRules)
+    .where(and(eq(alertRules.id, ruleId), eq(alertRules.userId, userId)))
+    .returning({ id: alertRules.id });
+
+  return deleted.length > 0;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Delivery
+// ══════════════════════════════════════════════════════════════════
+
+interface AlertDelivery {
+  rule: AlertRule;
+  userEmail: string | null;
+  title: string;
+  lines: string[];
+  supplierId: string | null;
+  severity: 'info' | 'warning' | 'critical';
+}
+
+/**
+ * Send an alert over the rule's channels. Push has no transport yet, so
+ * push-only rules still land in the notification center.
+ */
+async function deliverAlert(delivery: AlertDelivery): Promise<void> {
+  const { rule } = delivery;
+  const description = delivery.lines.join('\n');
+
+  if (rule.channels.inApp || rule.channels.push) {
+    await createNotification({
+      userId: rule.userId,
+      type: 'alert_triggered',
+      title: delivery.title,
+      description,
+      metadata: {
+        alertSeverity: delivery.severity,
+        ruleId: rule.id,
+        ...(delivery.supplierId ? { supplierId: delivery.supplierId } : {}),
+      },
+      action: delivery.supplierId ? { label: 'View Supplier', onClick: 'view_supplier' } : undefined,
+    });
+  }
+
+  if (rule.channels.email) {
+    const to = Array.from(new Set([delivery.userEmail, ...rule.recipients].filter((r): r is string => !!r)));
+    const link = `${getAppUrl()}/?alert=${encodeURIComponent(rule.id)}`;
+    for (const recipient of to) {
+      try {
+        await sendMail({
+          to: recipient,
+          subject: delivery.title,
+          text: `${description}\n\nManage this alert: ${link}`,
+        });
+      } catch (err) {
+        // One bad address should not block the others or the in-app copy
+        console.error(`Failed to email alert ${rule.id} to ${recipient}:`, err);
+      }
+    }
+  }
+}
+
+async function getUserEmails(userIds: string[]): Promise<Map<string, string>> {
+  if (userIds.length === 0) return new Map();
+  const db = getDb();
+  const rows = await db
+    .select({ id: users.id, email: users.email })
+    .from(users)
+    .where(inArray(users.id, userIds));
+  return new Map(rows.map((row) => [row.id, row.email]));
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Engine
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Match a risk change against active rules and record an event for each hit.
+ * Supplier rules apply unless the user muted that supplier in their portfolio
+ * (alertsEnabled = false); portfolio-wide rules only cover followed suppliers.
+ * Immediate rules deliver now; daily/weekly events wait for processAlertDigests.
+ * Returns the number of rules that fired.
+ */
+export async function evaluateRiskChange(change: DbRiskChange): Promise<number> {
+  const db = getDb();
+
+  const rules = await db
+    .select()
+    .from(alertRules)
+    .where(and(
+      eq(alertRules.isActive, true),
+      or(eq(alertRules.supplierId, change.supplierId), isNull(alertRules.supplierId))
+    ));
+
+  const followers = await db
+    .select({ userId: userPortfolios.userId, alertsEnabled: userPortfolios.alertsEnabled })
+    .from(userPortfolios)
+    .where(eq(userPortfolios.supplierId, change.supplierId));
+  const alertsEnabledByUser = new Map(followers.map((f) => [f.userId, f.alertsEnabled]));
+
+  const matching = rules.filter((rule) => {
+    const following = alertsEnabledByUser.get(rule.userId);
+    const applies = rule.supplierId ? following !== false : following === true;
+    return applies && evaluateAlertRule(rule, change);
+  });
+
+  let fired = 0;
+  if (matching.length > 0) {
+    const [supplier] = await db
+      .select({ name: suppliers.name })
+      .from(suppliers)
+      .where(eq(suppliers.id, change.supplierId))
+      .limit(1);
+    const supplierName = supplier?.name ?? 'Supplier';
+    const emails = await getUserEmails(Array.from(new Set(matching.map((r) => r.userId))));
+    const now = new Date();
+
+    for (const rule of matching) {
+      const message = describeAlertTrigger(rule, change, supplierName);
+      const immediate = rule.frequency === 'immediate';
+
+      // The unique (rule, change) constraint makes re-evaluation a no-op
+      const [event] = await db
+        .insert(alertEvents)
+        .values({
+          ruleId: rule.id,
+          userId: rule.userId,
+          supplierId: change.supplierId,
+          riskChangeId: change.id,
+          previousScore: change.previousScore,
+          currentScore: change.currentScore,
+          message,
+          notifiedAt: immediate ? now : null,
+        })
+        .onConflictDoNothing()
+        .returning();
+      if (!event) continue;
+
+      fired++;
+      await db.update(alertRules).set({ lastTriggeredAt: now }).where(eq(alertRules.id, rule.id));
+
+      if (immediate) {
+        await deliverAlert({
+          rule,
+          userEmail: emails.get(rule.userId) ?? null,
+          title: rule.name,
+          lines: [message],
+          supplierId: change.supplierId,
+          severity: alertSeverity(change),
+        });
+      }
+    }
+  }
+
+  await db
+    .update(riskChanges)
+    .set({ alertsEvaluatedAt: new Date() })
+    .where(eq(riskChanges.id, change.id));
+
+  return fired;
+}
+
+/**
+ * Update a supplier's current score, append it to the dated score history,
+ * log a risk_changes row when it moved, and evaluate alert rules against that
+ * change. `recordUnchanged` logs a 'stable' row too, for analyst assessments
+ * that confirm the existing score.
+ */
+export async function recordRiskScore(
+  supplierId: string,
+  update: { score: number; level?: string; reason?: string; factors?: RiskFactorScore[]; recordUnchanged?: boolean }
+): Promise<{ change: DbRiskChange | null; alertsFired: number }> {
+  const db = getDb();
+  const level = update.level ?? getRiskLevelFromScore(update.score);
+  const now = new Date();
+
+  const [current] = await db
+    .select()
+    .from(supplierRiskScores)
+    .where(eq(supplierRiskScores.supplierId, supplierId))
+    .limit(1);
+
+  const unchanged = current?.score === update.score;
+
+  if (!current) {
+    await db.insert(supplierRiskScores).values({
+      supplierId,
+      score: update.score,
+      level,
+      factors: update.factors ?? [],
+      scoreHistory: [update.score],
+      lastUpdated: now,
+    });
+  } else if (unchanged) {
+    await db
+      .update(supplierRiskScores)
+      .set({ level, lastUpdated: now, ...(update.factors && { factors: update.factors }) })
+      .where(eq(supplierRiskScores.id, current.id));
+  } else {
+    await db
+      .update(supplierRiskScores)
+      .set({
+        score: update.score,
+        level,
+        previousScore: current.score,
+        trend: update.score > current.score ? 'worsening' : 'improving',
+        scoreHistory: [...(current.scoreHistory ?? []), update.score].slice(-SCORE_HISTORY_LENGTH),
+        lastUpdated: now,
+        ...(update.factors && { factors: update.factors }),
+      })
+      .where(eq(supplierRiskScores.id, current.id));
+  }
+
+  await appendRiskScoreHistory(supplierId, {
+    score: update.score,
+    level,
+    factors: update.factors ?? current?.factors,
+    recordedAt: now,
+  });
+
+  if ((!current || unchanged) && !update.recordUnchanged) {
+    return { change: null, alertsFired: 0 };
+  }
+
+  // A supplier with no score row yet is treated as unrated at 0
+  const previous = current ?? { score: 0, level: 'unrated' };
+
+  const [change] = await db
+    .insert(riskChanges)
+    .values({
+      supplierId,
+      previousScore: previous.score,
+      previousLevel: previous.level,
+      currentScore: update.score,
+      currentLevel: level,
+      direction: update.score > previous.score ? 'worsened' : update.score < previous.score ? 'improved' : 'stable',
+      changeReason: update.reason ?? null,
+      changeDate: now,
+    })
+    .returning();
+
+  return { change, alertsFired: await evaluateRiskChange(change) };
+}
+
+/**
+ * Evaluate risk_changes rows written outside recordRiskScore (imports, seeds)
+ */
+export async function sweepUnevaluatedRiskChanges(limit = 200): Promise<number> {
+  const db = getDb();
+
+  const pending = await db
+    .select()
+    .from(riskChanges)
+    .where(isNull(riskChanges.alertsEvaluatedAt))
+    .orderBy(asc(riskChanges.changeDate))
+    .limit(limit);
+
+  for (const change of pending) {
+    await evaluateRiskChange(change);
+  }
+  return pending.length;
+}
+
+/**
+ * Deliver pending daily/weekly events as one digest per rule.
+ */
+export async function processAlertDigests(now: Date = new Date()): Promise<{ delivered: string[]; failed: string[] }> {
+  const db = getDb();
+  const delivered: string[] = [];
+  const failed: string[] = [];
+
+  const rules = await db
+    .select()
+    .from(alertRules)
+    .where(and(eq(alertRules.isActive, true), inArray(alertRules.frequency, ['daily', 'weekly'])));
+
+  const dueRules = rules.filter((rule) => isDigestDue(rule.frequency as AlertFrequency, rule.lastDigestAt, now));
+  if (dueRules.length === 0) {
+    return { delivered, failed };
+  }
+
+  const emails = await getUserEmails(Array.from(new Set(dueRules.map((r) => r.userId))));
+
+  for (const rule of dueRules) {
+    try {
+      const pending = await db
+        .select()
+        .from(alertEvents)
+        .where(and(eq(alertEvents.ruleId, rule.id), isNull(alertEvents.notifiedAt)))
+        .orderBy(asc(alertEvents.createdAt));
+
+      if (pending.length > 0) {
+        const period = rule.frequency === 'weekly' ? 'Weekly' : 'Daily';
+        const worst = pending.reduce((a, b) => (b.currentScore > a.currentScore ? b : a));
+        await deliverAlert({
+          rule,
+          userEmail: emails.get(rule.userId) ?? null,
+          title: `${period} digest: ${rule.name} (${pending.length} change${pending.length === 1 ? '' : 's'})`,
+          lines: pending.map((event) => event.message),
+          supplierId: rule.supplierId,
+          severity: alertSeverity(worst),
+        });
+        await db
+          .update(alertEvents)
+          .set({ notifiedAt: now })
+          .where(inArray(alertEvents.id, pending.map((event) => event.id)));
+        delivered.push(rule.id);
+      }
+
+      // Start the next window even when nothing fired
+      await db.update(alertRules).set({ lastDigestAt: now }).where(eq(alertRules.id, rule.id));
+    } catch (err) {
+      console.error(`Failed to deliver digest for alert rule ${rule.id}:`, err);
+      failed.push(rule.id);
+    }
+  }
+
+  return { delivered, failed };
+}
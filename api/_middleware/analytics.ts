@@ -0,0 +1,314 @@
+// Credit Usage Analytics Middleware - Spend breakdowns and burn-rate forecasting
+import { eq, and, sql, gte, lt, inArray } from 'drizzle-orm';
+import {
+  ledgerEntries,
+  approvalRequests,
+  teams,
+  users,
+  profiles,
+} from '../../src/db/schema.js';
+import type { CreditAccount, LedgerTransactionType } from '../../src/db/schema.js';
+import { getDb, getAccountBalance } from './credits.js';
+
+// ══════════════════════════════════════════════════════════════════
+// Types
+// ══════════════════════════════════════════════════════════════════
+
+export type UsageGranularity = 'day' | 'week' | 'month';
+
+export const USAGE_GRANULARITIES: UsageGranularity[] = ['day', 'week', 'month'];
+
+/** One grouped row from the ledger query */
+export interface UsageRow {
+  period: string;            // YYYY-MM-DD start of bucket
+  teamId: string | null;
+  teamName: string | null;
+  requesterId: string | null;
+  requesterName: string | null;
+  requestType: string | null;
+  category: string | null;
+  credits: number;           // Net of refunds
+  transactions: number;
+}
+
+export interface UsageBucket {
+  key: string;
+  label: string;
+  credits: number;
+  transactions: number;
+}
+
+export interface UsageBreakdown {
+  totalCredits: number;
+  byPeriod: UsageBucket[];
+  byTeam: UsageBucket[];
+  byRequester: UsageBucket[];
+  byRequestType: UsageBucket[];
+  byCategory: UsageBucket[];
+}
+
+export interface BurnForecast {
+  windowDays: number;                   // Trailing window the rate is based on
+  dailyBurnRate: number;
+  availableCredits: number;
+  daysUntilPeriodEnd: number;
+  projectedUsageToPeriodEnd: number;
+  projectedBalanceAtPeriodEnd: number;
+  exhaustionDate: string | null;        // null when nothing is being spent
+  exhaustsBeforePeriodEnd: boolean;
+}
+
+export interface CreditUsageAnalytics extends UsageBreakdown {
+  accountId: string;
+  startDate: string;
+  endDate: string;
+  granularity: UsageGranularity;
+  periodEnd: string;
+  forecast: BurnForecast;
+}
+
+export interface GetUsageAnalyticsParams {
+  startDate?: Date;
+  endDate?: Date;
+  granularity?: UsageGranularity;
+}
+
+// Ledger activity that counts as usage; refunds are netted out
+const USAGE_TRANSACTION_TYPES: LedgerTransactionType[] = ['spend', 'hold_conversion', 'refund'];
+
+// Burn rate is measured over at most this many trailing days
+const BURN_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const UNATTRIBUTED = 'unattributed';
+
+// ══════════════════════════════════════════════════════════════════
+// Aggregation
+// ══════════════════════════════════════════════════════════════════
+
+function addToBucket(
+  buckets: Map<string, UsageBucket>,
+  key: string | null,
+  label: string | null,
+  row: UsageRow
+) {
+  const bucketKey = key ?? UNATTRIBUTED;
+  const existing = buckets.get(bucketKey);
+  if (existing) {
+    existing.credits += row.credits;
+    existing.transactions += row.transactions;
+  } else {
+    buckets.set(bucketKey, {
+      key: bucketKey,
+      label: label ?? key ?? 'Unattributed',
+      credits: row.credits,
+      transactions: row.transactions,
+    });
+  }
+}
+
+function byCreditsDesc(buckets: Map<string, UsageBucket>): UsageBucket[] {
+  return Array.from(buckets.values()).sort((a, b) => b.credits - a.credits);
+}
+
+/**
+ * Roll grouped ledger rows up into one breakdown per dimension
+ */
+export function aggregateUsage(rows: UsageRow[]): UsageBreakdown {
+  const periods = new Map<string, UsageBucket>();
+  const teamBuckets = new Map<string, UsageBucket>();
+  const requesters = new Map<string, UsageBucket>();
+  const requestTypes = new Map<string, UsageBucket>();
+  const categories = new Map<string, UsageBucket>();
+  let totalCredits = 0;
+
+  for (const row of rows) {
+    totalCredits += row.credits;
+    addToBucket(periods, row.period, row.period, row);
+    addToBucket(teamBuckets, row.teamId, row.teamName, row);
+    addToBucket(requesters, row.requesterId, row.requesterName, row);
+    addToBucket(requestTypes, row.requestType, row.requestType, row);
+    addToBucket(categories, row.category, row.category, row);
+  }
+
+  return {
+    totalCredits,
+    byPeriod: Array.from(periods.values()).sort((a, b) => a.key.localeCompare(b.key)),
+    byTeam: byCreditsDesc(teamBuckets),
+    byRequester: byCreditsDesc(requesters),
+    byRequestType: byCreditsDesc(requestTypes),
+    byCategory: byCreditsDesc(categories),
+  };
+}
+
+/**
+ * Project the trailing burn rate forward to the period end
+ */
+export function forecastBurn(
+  availableCredits: number,
+  recentUsage: number,
+  windowDays: number,
+  now: Date,
+  periodEnd: Date
+): BurnForecast {
+  const dailyBurnRate = windowDays > 0 ? Math.max(0, recentUsage) / windowDays : 0;
+  const daysUntilPeriodEnd = Math.max(0, (periodEnd.getTime() - now.getTime()) / DAY_MS);
+  const projectedUsageToPeriodEnd = Math.round(dailyBurnRate * daysUntilPeriodEnd);
+
+  let exhaustionDate: string | null = null;
+  if (availableCredits <= 0) {
+    exhaustionDate = now.toISOString();
+  } else if (dailyBurnRate > 0) {
+    exhaustionDate = new Date(now.getTime() + (availableCredits / dailyBurnRate) * DAY_MS).toISOString();
+  }
+
+  return {
+    windowDays,
+    dailyBurnRate: Math.round(dailyBurnRate * 100) / 100,
+    availableCredits,
+    daysUntilPeriodEnd: Math.ceil(daysUntilPeriodEnd),
+    projectedUsageToPeriodEnd,
+    projectedBalanceAtPeriodEnd: availableCredits - projectedUsageToPeriodEnd,
+    exhaustionDate,
+    exhaustsBeforePeriodEnd: exhaustionDate !== null && new Date(exhaustionDate) < periodEnd,
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Queries
+// ══════════════════════════════════════════════════════════════════
+
+// Net usage: debits count up, refunds count down
+const netCredits = sql<number>`COALESCE(SUM(CASE WHEN ${ledgerEntries.entryType} = 'debit' THEN ${ledgerEntries.amount} ELSE -${ledgerEntries.amount} END), 0)`;
+
+function usageFilter(accountId: string, startDate: Date, endDate: Date) {
+  return and(
+    eq(ledgerEntries.accountId, accountId),
+    inArray(ledgerEntries.transactionType, USAGE_TRANSACTION_TYPES),
+    gte(ledgerEntries.createdAt, startDate),
+    lt(ledgerEntries.createdAt, endDate)
+  );
+}
+
+async function getUsageRows(
+  accountId: string,
+  startDate: Date,
+  endDate: Date,
+  granularity: UsageGranularity
+): Promise<UsageRow[]> {
+  const db = getDb();
+
+  // Granularity is validated against USAGE_GRANULARITIES, so it is safe to inline
+  const period = sql<string>`to_char(date_trunc(${sql.raw(`'${granularity}'`)}, ${ledgerEntries.createdAt}), 'YYYY-MM-DD')`;
+  const teamId = sql<string | null>`COALESCE(${ledgerEntries.teamId}, ${approvalRequests.teamId})`;
+  const requesterId = sql<string | null>`COALESCE(${approvalRequests.requesterId}, ${ledgerEntries.performedBy})`;
+  const category = sql<string | null>`${approvalRequests.context}->>'category'`;
+
+  const rows = await db
+    .select({
+      period,
+      teamId,
+      teamName: teams.name,
+      requesterId,
+      requesterEmail: users.email,
+      requesterDisplayName: profiles.displayName,
+      requestType: approvalRequests.requestType,
+      category,
+      credits: netCredits,
+      transactions: sql<number>`COUNT(*)`,
+    })
+    .from(ledgerEntries)
+    .leftJoin(
+      approvalRequests,
+      and(
+        eq(ledgerEntries.referenceType, 'request'),
+        eq(approvalRequests.id, ledgerEntries.referenceId)
+      )
+    )
+    .leftJoin(teams, sql`${teams.id} = ${teamId}`)
+    .leftJoin(users, sql`${users.id} = ${requesterId}`)
+    .leftJoin(profiles, eq(profiles.userId, users.id))
+    .where(usageFilter(accountId, startDate, endDate))
+    .groupBy(
+      period,
+      teamId,
+      teams.name,
+      requesterId,
+      users.email,
+      profiles.displayName,
+      approvalRequests.requestType,
+      category
+    );
+
+  return rows.map((row) => ({
+    period: row.period,
+    teamId: row.teamId,
+    teamName: row.teamName,
+    requesterId: row.requesterId,
+    requesterName: row.requesterDisplayName || row.requesterEmail,
+    requestType: row.requestType,
+    category: row.category,
+    credits: Number(row.credits),
+    transactions: Number(row.transactions),
+  }));
+}
+
+async function getNetUsage(accountId: string, startDate: Date, endDate: Date): Promise<number> {
+  const db = getDb();
+
+  const [result] = await db
+    .select({ credits: netCredits })
+    .from(ledgerEntries)
+    .where(usageFilter(accountId, startDate, endDate));
+
+  return Number(result?.credits ?? 0);
+}
+
+/**
+ * Usage breakdown for an account plus a burn-rate forecast to period end.
+ * Defaults to the current subscription period.
+ */
+export async function getUsageAnalytics(
+  account: CreditAccount,
+  params: GetUsageAnalyticsParams = {}
+): Promise<CreditUsageAnalytics> {
+  const now = new Date();
+  const startDate = params.startDate ?? account.subscriptionStart;
+  const endDate = params.endDate ?? now;
+  const granularity = params.granularity ?? 'week';
+
+  if (endDate <= startDate) {
+    throw new Error('Invalid range: endDate must be after startDate');
+  }
+
+  const balance = await getAccountBalance(account.id);
+  if (!balance) {
+    throw new Error('Account not found');
+  }
+
+  const rows = await getUsageRows(account.id, startDate, endDate, granularity);
+
+  // Burn rate uses the trailing window within the current period
+  const windowStart = new Date(
+    Math.max(account.subscriptionStart.getTime(), now.getTime() - BURN_WINDOW_DAYS * DAY_MS)
+  );
+  const windowDays = Math.max(1, (now.getTime() - windowStart.getTime()) / DAY_MS);
+  const recentUsage = await getNetUsage(account.id, windowStart, now);
+
+  return {
+    accountId: account.id,
+    startDate: startDate.toISOString(),
+    endDate: endDate.toISOString(),
+    granularity,
+    periodEnd: account.subscriptionEnd.toISOString(),
+    ...aggregateUsage(rows),
+    forecast: forecastBurn(
+      balance.availableCredits,
+      recentUsage,
+      windowDays,
+      now,
+      account.subscriptionEnd
+    ),
+  };
+}
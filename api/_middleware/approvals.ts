@@ -1,11 +1,13 @@
 // Approval Workflow Middleware - State machine, routing rules, credit integration
 import { neon } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-http';
-import { eq, and, sql, desc, lte, isNull, or } from 'drizzle-orm';
+import { eq, and, sql, desc, lte, gt, lt, isNull, or, inArray, notInArray, ne } from 'drizzle-orm';
 import {
   approvalRequests,
   approvalEvents,
   approvalRules,
+  approvalSteps,
+  approvalDelegations,
   teamMemberships,
   users,
   profiles,
@@ -16,13 +18,21 @@ import {
 import type {
   ApprovalRequest,
   ApprovalEvent,
+  NewApprovalEvent,
   ApprovalRule,
+  NewApprovalRule,
+  ApprovalStep,
+  ApprovalDelegation,
+  ApprovalStepRole,
+  ApprovalStepDefinition,
   ApprovalRequestType,
   ApprovalRequestStatus,
   ApprovalLevel,
   ApprovalEventType,
   ApprovalRequestContext,
 } from '../../src/db/schema.js';
+import type { SupplierAssessmentOutcome, SupplierAssessmentResult } from '../../src/types/assessments.js';
+import { recordSupplierAssessment } from './assessments.js';
 import {
   createHold,
   releaseHold,
@@ -31,7 +41,11 @@ import {
   getAccountForUser,
   withTransaction,
   getPoolDb,
+  type TransactionDb,
 } from './credits.js';
+import { notifyUser } from './notifications.js';
+import type { OrgRole } from './organization.js';
+import type { ApprovalStatus } from '../../src/types/notifications.js';
 
 // ══════════════════════════════════════════════════════════════════
 // Types
@@ -46,6 +60,8 @@ export interface SubmitRequestParams {
   description?: string;
   context?: ApprovalRequestContext;
   estimatedCredits: number;
+  /** Credits the caller already holds for this work (deep research jobs); no spend or hold is taken */
+  holdId?: string;
 }
 
 export interface SubmitRequestResult {
@@ -59,6 +75,26 @@ export interface SubmitRequestResult {
 export interface RequestWithEvents {
   request: ApprovalRequest;
   events: ApprovalEvent[];
+  steps: ApprovalStep[];
+}
+
+/** Request attributes that approval rules can match on */
+export interface ApprovalRouting {
+  requestType: ApprovalRequestType;
+  teamId: string;
+  category?: string | null;
+  estimatedCredits: number;
+}
+
+export interface PlannedApprovalStep {
+  approverRole: ApprovalStepRole;
+  escalationHours: number | null;
+}
+
+export interface ApprovalChain {
+  ruleId: string | null;
+  autoApproved: boolean;
+  steps: PlannedApprovalStep[];
 }
 
 export interface ApprovalQueueItem {
@@ -66,8 +102,33 @@ export interface ApprovalQueueItem {
   requesterName: string;
   requesterEmail: string;
   hoursUntilEscalation?: number;
+  onBehalfOf?: string; // Delegator whose queue this item belongs to
 }
 
+/** Effective approver after following out-of-office delegations */
+export interface DelegatedApprover {
+  approverId: string;
+  delegation: ApprovalDelegation | null; // First delegation followed, if any
+}
+
+export interface CreateDelegationParams {
+  companyId: string;
+  delegatorId: string;
+  delegateId: string;
+  startsAt: Date;
+  endsAt: Date;
+  reason?: string;
+}
+
+/** Who is fulfilling a request from the API; system fulfillment (research jobs) passes none */
+export interface Fulfiller {
+  companyId: string;
+  role: OrgRole;
+}
+
+// Assessment scores are written to the shared supplier risk data, so only admins may record them
+const ASSESSMENT_FULFILLER_ROLES: OrgRole[] = ['admin', 'owner'];
+
 export interface ApprovalQueue {
   pending: ApprovalQueueItem[];
   totalPending: number;
@@ -117,14 +178,84 @@ function canTransition(from: ApprovalRequestStatus, to: ApprovalRequestStatus):
 // Routing Rules
 // ══════════════════════════════════════════════════════════════════
 
+/** Fields of an approval rule that take part in routing */
+export type RoutingRule = Pick<
+  ApprovalRule,
+  | 'minCredits'
+  | 'maxCredits'
+  | 'requestType'
+  | 'teamId'
+  | 'category'
+  | 'approverRole'
+  | 'escalationHours'
+  | 'steps'
+  | 'priority'
+> & { id: string | null };
+
 /**
- * Get the approval rule that applies to a given credit amount for a company
+ * Select the rule that applies to a request
+ * Rules match on credit band plus optional requestType/team/category filters.
+ * Lowest priority wins; ties go to the rule with the most filters set.
  */
-export async function getApplicableRule(
+export function selectApprovalRule<T extends RoutingRule>(
+  rules: T[],
+  routing: ApprovalRouting
+): T | null {
+  const category = routing.category?.toLowerCase() ?? null;
+
+  const matching = rules.filter((rule) =>
+    routing.estimatedCredits >= rule.minCredits &&
+    (rule.maxCredits === null || routing.estimatedCredits <= rule.maxCredits) &&
+    (rule.requestType === null || rule.requestType === routing.requestType) &&
+    (rule.teamId === null || rule.teamId === routing.teamId) &&
+    (rule.category === null || rule.category.toLowerCase() === category)
+  );
+
+  const specificity = (rule: RoutingRule) =>
+    [rule.requestType, rule.teamId, rule.category].filter((f) => f !== null).length;
+
+  matching.sort((a, b) => a.priority - b.priority || specificity(b) - specificity(a));
+
+  return matching[0] ?? null;
+}
+
+/**
+ * Expand a rule into the ordered steps a request must pass
+ * Steps gated by minCredits are dropped, and consecutive steps for the same
+ * role are collapsed. A chain with no remaining steps is auto-approved.
+ */
+export function buildApprovalChain(rule: RoutingRule, credits: number): ApprovalChain {
+  if (rule.approverRole === 'auto') {
+    return { ruleId: rule.id, autoApproved: true, steps: [] };
+  }
+
+  const definitions: ApprovalStepDefinition[] = rule.steps?.length
+    ? rule.steps
+    : [{ approverRole: rule.approverRole, escalationHours: rule.escalationHours }];
+
+  const steps: PlannedApprovalStep[] = [];
+  for (const definition of definitions) {
+    if (definition.minCredits !== undefined && credits < definition.minCredits) continue;
+    if (steps[steps.length - 1]?.approverRole === definition.approverRole) continue;
+
+    steps.push({
+      approverRole: definition.approverRole,
+      escalationHours: definition.escalationHours ?? null,
+    });
+  }
+
+  return { ruleId: rule.id, autoApproved: steps.length === 0, steps };
+}
+
+/**
+ * Get the approval chain that applies to a request for a company
+ */
+export async function getApprovalChain(
   companyId: string,
-  credits: number
-): Promise<{ approverRole: ApprovalLevel; escalationHours: number | null }> {
+  routing: ApprovalRouting
+): Promise<ApprovalChain> {
   const db = getDb();
+  const credits = routing.estimatedCredits;
 
   // Try company-specific rules first
   const rules = await db
@@ -141,14 +272,11 @@ export async function getApplicableRule(
         )
       )
     )
-    .orderBy(approvalRules.priority)
-    .limit(1);
+    .orderBy(approvalRules.priority);
 
-  if (rules.length > 0) {
-    return {
-      approverRole: rules[0].approverRole,
-      escalationHours: rules[0].escalationHours,
-    };
+  const rule = selectApprovalRule(rules, routing);
+  if (rule) {
+    return buildApprovalChain(rule, credits);
   }
 
   // Fall back to default rules
@@ -156,80 +284,582 @@ export async function getApplicableRule(
     (r) => credits >= r.minCredits && (r.maxCredits === null || credits < r.maxCredits)
   );
 
-  return defaultRule ?? { approverRole: 'admin', escalationHours: 24 };
+  return buildApprovalChain(
+    {
+      id: null,
+      requestType: null,
+      teamId: null,
+      category: null,
+      steps: null,
+      priority: 0,
+      ...(defaultRule ?? { minCredits: 0, maxCredits: null, approverRole: 'admin', escalationHours: 24 }),
+    },
+    credits
+  );
 }
 
+// Membership roles that can sign off each step, in order of preference
+const STEP_CANDIDATE_ROLES: Record<ApprovalStepRole, string[][]> = {
+  approver: [['approver'], ['admin', 'owner']],
+  admin: [['admin', 'owner']],
+  owner: [['owner']],
+};
+
 /**
  * Find an approver for a request based on the approval level
- * - 'approver' level: look for team members with 'approver' role, fallback to admin/owner
- * - 'admin' level: look for team members with 'admin' or 'owner' role
+ * - 'approver' level: look for team members with 'approver' role, fallback to the team's
+ *   admin/owner, then to any admin/owner in the company
+ * - 'admin' level: look for team admins/owners, fallback to any admin/owner in the company
+ * - 'owner' level: look for the team owner, fallback to any owner in the company
+ * The requester and anyone in excludeUserIds (earlier signers) are never picked.
  */
 async function findApprover(
   companyId: string,
   teamId: string,
   requesterId: string,
-  approverRole: ApprovalLevel
+  approverRole: ApprovalLevel,
+  excludeUserIds: string[] = []
 ): Promise<string | null> {
   if (approverRole === 'auto') {
     return null; // No approver needed
   }
 
   const db = getDb();
+  const excluded = [requesterId, ...excludeUserIds];
 
-  if (approverRole === 'approver') {
-    // First try to find someone with 'approver' role
-    const approvers = await db
+  const findMember = async (roles: string[], scope: 'team' | 'company') => {
+    const members = await db
       .select({
         userId: teamMemberships.userId,
       })
       .from(teamMemberships)
+      .innerJoin(teams, eq(teamMemberships.teamId, teams.id))
       .where(
         and(
-          eq(teamMemberships.teamId, teamId),
-          eq(teamMemberships.role, 'approver'),
-          sql`${teamMemberships.userId} != ${requesterId}::uuid` // Can't approve own request
+          scope === 'team'
+            ? eq(teamMemberships.teamId, teamId)
+            : eq(teams.companyId, companyId),
+          inArray(teamMemberships.role, roles),
+          notInArray(teamMemberships.userId, excluded) // Can't approve own request
         )
       )
       .limit(1);
 
-    if (approvers.length > 0) {
-      return approvers[0].userId;
+    return members.length > 0 ? members[0].userId : null;
+  };
+
+  for (const roles of STEP_CANDIDATE_ROLES[approverRole]) {
+    const userId = await findMember(roles, 'team');
+    if (userId) return userId;
+  }
+
+  // Admin and owner sign-off are company-level: look outside the team. A team
+  // with no one left to sign an approver step falls back to the company's admins.
+  const companyRoles = STEP_CANDIDATE_ROLES[approverRole === 'approver' ? 'admin' : approverRole];
+  for (const roles of companyRoles) {
+    const userId = await findMember(roles, 'company');
+    if (userId) return userId;
+  }
+
+  return null;
+}
+
+/** Editable fields of an approval rule */
+export type ApprovalRuleInput = Pick<
+  NewApprovalRule,
+  | 'minCredits'
+  | 'maxCredits'
+  | 'requestType'
+  | 'teamId'
+  | 'category'
+  | 'approverRole'
+  | 'escalationHours'
+  | 'steps'
+  | 'priority'
+  | 'isActive'
+>;
+
+const RULE_REQUEST_TYPES: ApprovalRequestType[] = [
+  'report_upgrade',
+  'analyst_qa',
+  'analyst_call',
+  'expert_consult',
+  'expert_deepdive',
+  'bespoke_project',
+  'supplier_assessment',
+  'deep_research',
+];
+
+const RULE_STEP_ROLES: ApprovalStepRole[] = ['approver', 'admin', 'owner'];
+const RULE_APPROVER_ROLES: ApprovalLevel[] = ['auto', ...RULE_STEP_ROLES];
+
+function isOptionalHours(value: unknown): boolean {
+  return value === undefined || value === null || (Number.isInteger(value) && (value as number) > 0);
+}
+
+/**
+ * Validate an approval rule before it is stored
+ */
+export function validateApprovalRuleInput(input: Record<string, unknown>): {
+  valid: boolean;
+  error?: string;
+  rule?: ApprovalRuleInput;
+} {
+  const {
+    minCredits,
+    maxCredits = null,
+    requestType = null,
+    teamId = null,
+    category = null,
+    approverRole,
+    escalationHours = null,
+    steps = null,
+    priority = 0,
+    isActive = true,
+  } = input;
+
+  if (!Number.isInteger(minCredits) || (minCredits as number) < 0) {
+    return { valid: false, error: 'minCredits must be a non-negative integer' };
+  }
+  if (maxCredits !== null && (!Number.isInteger(maxCredits) || (maxCredits as number) < (minCredits as number))) {
+    return { valid: false, error: 'maxCredits must be an integer no lower than minCredits' };
+  }
+  if (requestType !== null && !RULE_REQUEST_TYPES.includes(requestType as ApprovalRequestType)) {
+    return { valid: false, error: `Invalid requestType. Must be one of: ${RULE_REQUEST_TYPES.join(', ')}` };
+  }
+  if (teamId !== null && typeof teamId !== 'string') {
+    return { valid: false, error: 'teamId must be a string' };
+  }
+  if (category !== null && (typeof category !== 'string' || category.trim().length === 0)) {
+    return { valid: false, error: 'category must be a non-empty string' };
+  }
+  if (!RULE_APPROVER_ROLES.includes(approverRole as ApprovalLevel)) {
+    return { valid: false, error: `Invalid approverRole. Must be one of: ${RULE_APPROVER_ROLES.join(', ')}` };
+  }
+  if (!isOptionalHours(escalationHours)) {
+    return { valid: false, error: 'escalationHours must be a positive integer' };
+  }
+  if (!Number.isInteger(priority)) {
+    return { valid: false, error: 'priority must be an integer' };
+  }
+  if (typeof isActive !== 'boolean') {
+    return { valid: false, error: 'isActive must be a boolean' };
+  }
+
+  if (steps !== null) {
+    if (!Array.isArray(steps) || steps.length === 0) {
+      return { valid: false, error: 'steps must be a non-empty array' };
     }
+    if (approverRole === 'auto') {
+      return { valid: false, error: 'Auto-approve rules cannot define approval steps' };
+    }
+    for (const [index, step] of steps.entries()) {
+      const definition = step as { approverRole?: unknown; escalationHours?: unknown; minCredits?: unknown } | null;
+      if (!definition || !RULE_STEP_ROLES.includes(definition.approverRole as ApprovalStepRole)) {
+        return { valid: false, error: `steps[${index}].approverRole must be approver, admin or owner` };
+      }
+      if (!isOptionalHours(definition.escalationHours)) {
+        return { valid: false, error: `steps[${index}].escalationHours must be a positive integer` };
+      }
+      if (definition.minCredits !== undefined && (!Number.isInteger(definition.minCredits) || (definition.minCredits as number) < 0)) {
+        return { valid: false, error: `steps[${index}].minCredits must be a non-negative integer` };
+      }
+    }
+  }
 
-    // Fallback to admin/owner if no approver found
-    const admins = await db
-      .select({
-        userId: teamMemberships.userId,
-      })
-      .from(teamMemberships)
-      .where(
-        and(
-          eq(teamMemberships.teamId, teamId),
-          sql`${teamMemberships.role} IN ('admin', 'owner')`,
-          sql`${teamMemberships.userId} != ${requesterId}::uuid`
-        )
-      )
+  return {
+    valid: true,
+    rule: {
+      minCredits: minCredits as number,
+      maxCredits: maxCredits as number | null,
+      requestType: requestType as ApprovalRequestType | null,
+      teamId: teamId as string | null,
+      category: category === null ? null : (category as string).trim(),
+      approverRole: approverRole as ApprovalLevel,
+      escalationHours: escalationHours as number | null,
+      steps: steps as ApprovalStepDefinition[] | null,
+      priority: priority as number,
+      isActive,
+    },
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Delegation
+// ══════════════════════════════════════════════════════════════════
+
+// Longest delegation chain followed (A → B → C ...) before giving up
+const MAX_DELEGATION_HOPS = 3;
+
+// Membership roles allowed to cover someone else's queue
+const DELEGATE_ROLES = ['approver', 'admin', 'owner'];
+
+function activeDelegationAt(at: Date) {
+  return and(
+    isNull(approvalDelegations.revokedAt),
+    lte(approvalDelegations.startsAt, at),
+    gt(approvalDelegations.endsAt, at)
+  );
+}
+
+async function getUserDisplayName(userId: string): Promise<string> {
+  const db = getDb();
+
+  const [user] = await db
+    .select({ email: users.email, displayName: profiles.displayName })
+    .from(users)
+    .leftJoin(profiles, eq(users.id, profiles.userId))
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  return user?.displayName || user?.email || 'Unknown user';
+}
+
+/**
+ * Follow active delegations from an assigned approver to whoever is covering
+ * Stops at cycles, after MAX_DELEGATION_HOPS, or when the next delegate is
+ * excluded (the requester or an earlier signer in the chain).
+ */
+export async function resolveDelegate(
+  approverId: string,
+  excludeUserIds: string[] = [],
+  at: Date = new Date()
+): Promise<DelegatedApprover> {
+  const db = getDb();
+  const visited = new Set([approverId]);
+  let current = approverId;
+  let first: ApprovalDelegation | null = null;
+
+  for (let hop = 0; hop < MAX_DELEGATION_HOPS; hop++) {
+    const [delegation] = await db
+      .select()
+      .from(approvalDelegations)
+      .where(and(eq(approvalDelegations.delegatorId, current), activeDelegationAt(at)))
+      .orderBy(desc(approvalDelegations.createdAt))
       .limit(1);
 
-    return admins.length > 0 ? admins[0].userId : null;
+    if (
+      !delegation ||
+      visited.has(delegation.delegateId) ||
+      excludeUserIds.includes(delegation.delegateId)
+    ) {
+      break;
+    }
+
+    visited.add(delegation.delegateId);
+    current = delegation.delegateId;
+    first ??= delegation;
   }
 
-  // admin level: look for admin or owner
-  const approvers = await db
-    .select({
-      userId: teamMemberships.userId,
+  return { approverId: current, delegation: first };
+}
+
+/**
+ * Build the 'reassigned' event recorded when a delegation redirects a request
+ */
+async function buildReassignmentEvent(
+  requestId: string,
+  fromApproverId: string,
+  resolved: DelegatedApprover,
+  status: ApprovalRequestStatus
+): Promise<NewApprovalEvent> {
+  const [fromName, toName] = await Promise.all([
+    getUserDisplayName(fromApproverId),
+    getUserDisplayName(resolved.approverId),
+  ]);
+  const note = resolved.delegation?.reason ? ` (${resolved.delegation.reason})` : '';
+
+  return {
+    requestId,
+    eventType: 'reassigned',
+    performedBySystem: true,
+    fromStatus: status,
+    toStatus: status,
+    reason: `Reassigned from ${fromName} to ${toName}${note}`,
+    metadata: {
+      fromApproverId,
+      fromApproverName: fromName,
+      toApproverId: resolved.approverId,
+      toApproverName: toName,
+      delegationId: resolved.delegation?.id,
+    },
+  };
+}
+
+/**
+ * Route an assignment through any active delegation
+ * Returns the effective approver and, when redirected, the event to record.
+ */
+async function applyDelegation(
+  requestId: string,
+  approverId: string | null,
+  excludeUserIds: string[],
+  status: ApprovalRequestStatus
+): Promise<{ approverId: string | null; event: NewApprovalEvent | null }> {
+  if (!approverId) {
+    return { approverId, event: null };
+  }
+
+  const resolved = await resolveDelegate(approverId, excludeUserIds);
+  if (!resolved.delegation) {
+    return { approverId, event: null };
+  }
+
+  return {
+    approverId: resolved.approverId,
+    event: await buildReassignmentEvent(requestId, approverId, resolved, status),
+  };
+}
+
+/**
+ * Users whose queue is currently delegated to this user
+ */
+export async function getDelegatorIds(delegateId: string, at: Date = new Date()): Promise<string[]> {
+  const db = getDb();
+
+  const rows = await db
+    .select({ delegatorId: approvalDelegations.delegatorId })
+    .from(approvalDelegations)
+    .where(and(eq(approvalDelegations.delegateId, delegateId), activeDelegationAt(at)));
+
+  return [...new Set(rows.map((r) => r.delegatorId))];
+}
+
+/**
+ * Metadata linking a decision to the approver it was made for, when the
+ * decider is covering someone else's queue
+ */
+async function getOnBehalfOf(
+  request: ApprovalRequest,
+  deciderId: string
+): Promise<{ onBehalfOf: string; onBehalfOfName: string } | null> {
+  const assignee = request.currentApproverId;
+  if (!assignee || assignee === deciderId) {
+    return null;
+  }
+
+  const delegators = await getDelegatorIds(deciderId);
+  if (!delegators.includes(assignee)) {
+    return null;
+  }
+
+  return { onBehalfOf: assignee, onBehalfOfName: await getUserDisplayName(assignee) };
+}
+
+/**
+ * Whether a user may decide a request's active step: its assigned approver or
+ * someone covering that approver's queue, but never the requester
+ */
+function isAssignedDecider(request: ApprovalRequest, userId: string, delegatorIds: string[]): boolean {
+  const assignee = request.currentApproverId;
+  if (!assignee || request.requesterId === userId) {
+    return false;
+  }
+  return assignee === userId || delegatorIds.includes(assignee);
+}
+
+/**
+ * List a user's current and upcoming delegations, both given and received
+ */
+export async function getDelegations(userId: string): Promise<{
+  outgoing: ApprovalDelegation[];
+  incoming: ApprovalDelegation[];
+}> {
+  const db = getDb();
+  const now = new Date();
+
+  const rows = await db
+    .select()
+    .from(approvalDelegations)
+    .where(
+      and(
+        or(eq(approvalDelegations.delegatorId, userId), eq(approvalDelegations.delegateId, userId)),
+        isNull(approvalDelegations.revokedAt),
+        gt(approvalDelegations.endsAt, now)
+      )
+    )
+    .orderBy(approvalDelegations.startsAt);
+
+  return {
+    outgoing: rows.filter((d) => d.delegatorId === userId),
+    incoming: rows.filter((d) => d.delegateId === userId),
+  };
+}
+
+/**
+ * Company members who can cover a user's queue
+ */
+export async function getDelegationCandidates(
+  companyId: string,
+  userId: string
+): Promise<Array<{ userId: string; displayName: string; email: string }>> {
+  const db = getDb();
+
+  const rows = await db
+    .selectDistinct({
+      userId: users.id,
+      email: users.email,
+      displayName: profiles.displayName,
     })
     .from(teamMemberships)
+    .innerJoin(teams, eq(teamMemberships.teamId, teams.id))
+    .innerJoin(users, eq(teamMemberships.userId, users.id))
+    .leftJoin(profiles, eq(users.id, profiles.userId))
     .where(
       and(
-        eq(teamMemberships.teamId, teamId),
-        sql`${teamMemberships.role} IN ('admin', 'owner')`,
-        sql`${teamMemberships.userId} != ${requesterId}::uuid`
+        eq(teams.companyId, companyId),
+        inArray(teamMemberships.role, DELEGATE_ROLES),
+        notInArray(teamMemberships.userId, [userId])
+      )
+    );
+
+  return rows.map((r) => ({
+    userId: r.userId,
+    email: r.email,
+    displayName: r.displayName || r.email.split('@')[0],
+  }));
+}
+
+/**
+ * Delegate an approver's queue to another approver or admin for a date range
+ */
+export async function createDelegation(params: CreateDelegationParams): Promise<ApprovalDelegation> {
+  const db = getDb();
+  const { companyId, delegatorId, delegateId, startsAt, endsAt } = params;
+
+  if (delegatorId === delegateId) {
+    throw new Error('Invalid delegation: cannot delegate to yourself');
+  }
+  if (endsAt <= startsAt) {
+    throw new Error('Invalid delegation: end date must be after start date');
+  }
+  if (endsAt <= new Date()) {
+    throw new Error('Invalid delegation: end date must be in the future');
+  }
+
+  // Delegate must be able to approve in the same company
+  const [membership] = await db
+    .select({ userId: teamMemberships.userId })
+    .from(teamMemberships)
+    .innerJoin(teams, eq(teamMemberships.teamId, teams.id))
+    .where(
+      and(
+        eq(teams.companyId, companyId),
+        eq(teamMemberships.userId, delegateId),
+        inArray(teamMemberships.role, DELEGATE_ROLES)
       )
     )
     .limit(1);
 
-  return approvers.length > 0 ? approvers[0].userId : null;
+  if (!membership) {
+    throw new Error('Invalid delegation: delegate must be an approver or admin in this organization');
+  }
+
+  // One delegation per person at a time keeps routing unambiguous
+  const [overlapping] = await db
+    .select({ id: approvalDelegations.id })
+    .from(approvalDelegations)
+    .where(
+      and(
+        eq(approvalDelegations.delegatorId, delegatorId),
+        isNull(approvalDelegations.revokedAt),
+        lt(approvalDelegations.startsAt, endsAt),
+        gt(approvalDelegations.endsAt, startsAt)
+      )
+    )
+    .limit(1);
+
+  if (overlapping) {
+    throw new Error('Delegation overlaps an existing delegation');
+  }
+
+  const [delegation] = await db
+    .insert(approvalDelegations)
+    .values({
+      companyId,
+      delegatorId,
+      delegateId,
+      startsAt,
+      endsAt,
+      reason: params.reason,
+    })
+    .returning();
+
+  return delegation;
+}
+
+/**
+ * Revoke a delegation (by the delegator)
+ */
+export async function revokeDelegation(
+  delegationId: string,
+  userId: string
+): Promise<ApprovalDelegation> {
+  const db = getDb();
+
+  const [revoked] = await db
+    .update(approvalDelegations)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(approvalDelegations.id, delegationId),
+        eq(approvalDelegations.delegatorId, userId),
+        isNull(approvalDelegations.revokedAt)
+      )
+    )
+    .returning();
+
+  if (!revoked) {
+    throw new Error('Delegation not found');
+  }
+
+  return revoked;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Approval Steps
+// ══════════════════════════════════════════════════════════════════
+
+function getStepDeadline(escalationHours: number | null, from: Date): Date | null {
+  return escalationHours ? new Date(from.getTime() + escalationHours * 60 * 60 * 1000) : null;
+}
+
+/**
+ * Get the approval chain recorded for a request, in order
+ */
+export async function getApprovalSteps(requestId: string): Promise<ApprovalStep[]> {
+  const db = getDb();
+
+  return db
+    .select()
+    .from(approvalSteps)
+    .where(eq(approvalSteps.requestId, requestId))
+    .orderBy(approvalSteps.stepOrder);
+}
+
+/**
+ * Check whether approving the active step completes the chain
+ * Requests created before approval chains existed have no steps and are single-step.
+ */
+export function isFinalStep(steps: ApprovalStep[]): boolean {
+  const active = steps.find((s) => s.status === 'active');
+  if (!active) return true;
+  return !steps.some((s) => s.stepOrder > active.stepOrder && s.status === 'waiting');
+}
+
+/**
+ * Close any steps that were never decided (request denied, cancelled or expired)
+ */
+async function skipOpenSteps(db: TransactionDb, requestId: string): Promise<void> {
+  await db
+    .update(approvalSteps)
+    .set({ status: 'skipped' })
+    .where(
+      and(
+        eq(approvalSteps.requestId, requestId),
+        inArray(approvalSteps.status, ['waiting', 'active'])
+      )
+    );
 }
 
 // ══════════════════════════════════════════════════════════════════
@@ -267,42 +897,104 @@ async function recordEvent(
   return event;
 }
 
+// ══════════════════════════════════════════════════════════════════
+// Notifications
+// ══════════════════════════════════════════════════════════════════
+
+const REQUESTER_TITLES: Record<ApprovalStatus, string> = {
+  pending: 'Request Moved to Next Approver',
+  approved: 'Request Approved',
+  denied: 'Request Denied',
+  escalated: 'Request Escalated',
+  expired: 'Request Expired',
+  fulfilled: 'Request Fulfilled',
+};
+
+/**
+ * Tell the requester their request changed state. Called after the change
+ * has committed; failures are logged, never thrown.
+ */
+async function notifyRequester(request: ApprovalRequest, status: ApprovalStatus, description: string): Promise<void> {
+  await notifyUser({
+    userId: request.requesterId,
+    type: 'approval_update',
+    title: REQUESTER_TITLES[status],
+    description,
+    metadata: { requestId: request.id, approvalStatus: status },
+    action: { label: 'View Request', onClick: 'view_request' },
+  });
+}
+
+/**
+ * Tell the current approver a request is waiting on them
+ */
+async function notifyApprover(request: ApprovalRequest): Promise<void> {
+  if (!request.currentApproverId) return;
+  await notifyUser({
+    userId: request.currentApproverId,
+    type: 'approval_update',
+    title: 'Approval Needed',
+    description: `"${request.title}" (${request.estimatedCredits} credits) is waiting for your approval.`,
+    metadata: { requestId: request.id, approvalStatus: 'pending' },
+    action: { label: 'Review Request', onClick: 'review_request' },
+  });
+}
+
 // ══════════════════════════════════════════════════════════════════
 // Core Operations
 // ══════════════════════════════════════════════════════════════════
 
 /**
  * Submit a new approval request
- * - Determines approval level based on credit amount
- * - Auto-approves if under threshold
+ * - Resolves the approval chain from routing rules
+ * - Auto-approves if no sign-off is needed
+ * - Records the chain in approval_steps and activates the first step
+ * - Routes to the delegate if the approver is out of office
  * - Creates credit hold if approval needed
+ * - Refuses a chain whose first step no one but the requester could sign
  */
 export async function submitRequest(
   params: SubmitRequestParams
 ): Promise<SubmitRequestResult> {
   const db = getDb();
 
-  // Get applicable routing rule
-  const rule = await getApplicableRule(params.companyId, params.estimatedCredits);
-  const isAutoApproved = rule.approverRole === 'auto';
+  // Resolve the approval chain from routing rules
+  const chain = await getApprovalChain(params.companyId, {
+    requestType: params.requestType,
+    teamId: params.teamId,
+    category: params.context?.category,
+    estimatedCredits: params.estimatedCredits,
+  });
+  const isAutoApproved = chain.autoApproved;
+  const firstStep = chain.steps[0];
+  const approvalLevel: ApprovalLevel = firstStep?.approverRole ?? 'auto';
 
-  // Find approver if needed
-  const approverId = isAutoApproved
+  // Find approver for the first step if needed
+  const assignedApproverId = isAutoApproved
     ? null
     : await findApprover(
         params.companyId,
         params.teamId,
         params.requesterId,
-        rule.approverRole
+        firstStep.approverRole
       );
 
-  // Calculate expiration time
-  const expiresAt = rule.escalationHours
-    ? new Date(Date.now() + rule.escalationHours * 60 * 60 * 1000)
+  // A pending request nobody can sign would hold its credits until it expired
+  if (!isAutoApproved && !assignedApproverId) {
+    throw new Error(`Cannot submit: no one else in the company can sign the ${firstStep.approverRole} step`);
+  }
+
+  // Out-of-office approvers hand new requests to their delegate
+  const delegated = assignedApproverId
+    ? await resolveDelegate(assignedApproverId, [params.requesterId])
     : null;
+  const approverId = delegated?.approverId ?? assignedApproverId;
 
   const now = new Date();
 
+  // Calculate expiration time for the first step
+  const expiresAt = isAutoApproved ? null : getStepDeadline(firstStep.escalationHours, now);
+
   // Create the request
   const [request] = await db
     .insert(approvalRequests)
@@ -316,7 +1008,7 @@ export async function submitRequest(
       context: params.context,
       estimatedCredits: params.estimatedCredits,
       status: isAutoApproved ? 'approved' : 'pending',
-      approvalLevel: rule.approverRole,
+      approvalLevel,
       currentApproverId: approverId,
       submittedAt: now,
       decidedAt: isAutoApproved ? now : null,
@@ -324,6 +1016,22 @@ export async function submitRequest(
     })
     .returning();
 
+  // Record the chain: first step is active, the rest wait their turn
+  if (!isAutoApproved) {
+    await db.insert(approvalSteps).values(
+      chain.steps.map((step, index) => ({
+        requestId: request.id,
+        ruleId: chain.ruleId,
+        stepOrder: index,
+        approverRole: step.approverRole,
+        status: index === 0 ? ('active' as const) : ('waiting' as const),
+        approverId: index === 0 ? approverId : null,
+        escalationHours: step.escalationHours,
+        activatedAt: index === 0 ? now : null,
+      }))
+    );
+  }
+
   // Record submission event (single event captures creation + submission)
   // Note: request is created directly in target status (no intermediate 'draft' state)
   if (isAutoApproved) {
@@ -334,8 +1042,9 @@ export async function submitRequest(
       toStatus: 'approved',
       reason: 'Auto-approved (under threshold)',
       metadata: {
-        approvalLevel: rule.approverRole,
+        approvalLevel,
         estimatedCredits: params.estimatedCredits,
+        ruleId: chain.ruleId,
       },
     });
   } else {
@@ -344,16 +1053,26 @@ export async function submitRequest(
       performedBy: params.requesterId,
       toStatus: 'pending',
       metadata: {
-        approvalLevel: rule.approverRole,
+        approvalLevel,
         estimatedCredits: params.estimatedCredits,
         approverId: approverId,
+        ruleId: chain.ruleId,
+        steps: chain.steps.map((step) => step.approverRole),
       },
     });
+
+    if (assignedApproverId && delegated?.delegation) {
+      await db
+        .insert(approvalEvents)
+        .values(await buildReassignmentEvent(request.id, assignedApproverId, delegated, 'pending'));
+    }
   }
 
-  let holdId: string | undefined;
+  let holdId = params.holdId;
 
-  if (isAutoApproved) {
+  if (holdId) {
+    // The caller settles its own hold when the work finishes
+  } else if (isAutoApproved) {
     // Auto-approved: do direct spend
 
     // Get user's credit account and do direct spend
@@ -368,6 +1087,7 @@ export async function submitRequest(
         description: `Auto-approved: ${params.title}`,
         idempotencyKey: `request_${request.id}`,
         userId: params.requesterId,
+        teamId: params.teamId,
       });
     }
   } else {
@@ -377,16 +1097,21 @@ export async function submitRequest(
       const holdResult = await createHold(
         account.id,
         request.id,
-        params.estimatedCredits
+        params.estimatedCredits,
+        params.teamId
       );
       holdId = holdResult.holdId;
     }
   }
 
+  if (!isAutoApproved) {
+    await notifyApprover(request);
+  }
+
   return {
     request,
     status: request.status,
-    approvalLevel: rule.approverRole,
+    approvalLevel,
     holdId,
     autoApproved: isAutoApproved,
   };
@@ -394,22 +1119,23 @@ export async function submitRequest(
 
 /**
  * Approve a pending request
- * Runs status update and hold conversion in a single transaction
+ * Signs off the active step of the approval chain. If later steps remain, the
+ * next one is activated and the request stays pending; the last step moves the
+ * request to 'approved' and converts the hold, all in a single transaction.
+ * Only the active step's approver or their delegate may sign, once per request.
  */
 export async function approveRequest(
   requestId: string,
   approverId: string,
   reason?: string
 ): Promise<ApprovalRequest> {
-  return withTransaction(async (tx) => {
+  const decided = await withTransaction(async (tx) => {
     // Lock the request row to prevent concurrent status changes
-    const requestResult = await tx.execute(sql`
-      SELECT *
-      FROM approval_requests
-      WHERE id = ${requestId}
-      FOR UPDATE
-    `);
-    const request = requestResult.rows[0] as ApprovalRequest | undefined;
+    const [request]: Array<ApprovalRequest | undefined> = await tx
+      .select()
+      .from(approvalRequests)
+      .where(eq(approvalRequests.id, requestId))
+      .for('update');
 
     if (!request) {
       throw new Error('Request not found');
@@ -420,6 +1146,124 @@ export async function approveRequest(
     }
 
     const now = new Date();
+    if (!isAssignedDecider(request, approverId, await getDelegatorIds(approverId, now))) {
+      throw new Error('Not authorized to approve this request');
+    }
+    const onBehalf = await getOnBehalfOf(request, approverId);
+
+    // Sign off the active step (requests created before chains have none)
+    const steps: ApprovalStep[] = await tx
+      .select()
+      .from(approvalSteps)
+      .where(eq(approvalSteps.requestId, requestId))
+      .orderBy(approvalSteps.stepOrder)
+      .for('update');
+
+    // Each step needs a different signer, even when one person covers several queues
+    if (steps.some((s) => s.status === 'approved' && s.decidedBy === approverId)) {
+      throw new Error('Not authorized to sign more than one step of this request');
+    }
+
+    const activeStep = steps.find((s) => s.status === 'active');
+    const nextStep = activeStep
+      ? steps.find((s) => s.stepOrder > activeStep.stepOrder && s.status === 'waiting')
+      : undefined;
+
+    if (activeStep) {
+      await tx
+        .update(approvalSteps)
+        .set({
+          status: 'approved',
+          decidedBy: approverId,
+          decidedAt: now,
+          decisionReason: reason,
+        })
+        .where(eq(approvalSteps.id, activeStep.id));
+    }
+
+    const stepMetadata = activeStep
+      ? { stepId: activeStep.id, stepOrder: activeStep.stepOrder, totalSteps: steps.length }
+      : undefined;
+
+    if (activeStep && nextStep) {
+      // Earlier signers can't sign again further up the chain
+      const signers = steps
+        .map((s) => s.decidedBy)
+        .filter((id): id is string => id !== null)
+        .concat(approverId);
+
+      const foundApproverId = await findApprover(
+        request.companyId,
+        request.teamId,
+        request.requesterId,
+        nextStep.approverRole,
+        signers
+      );
+      // Without a signer the request would wait on no one; keep the current step open instead
+      if (!foundApproverId) {
+        throw new Error(`Cannot approve: no one else in the company can sign the ${nextStep.approverRole} step`);
+      }
+      const routed = await applyDelegation(
+        requestId,
+        foundApproverId,
+        [request.requesterId, ...signers],
+        'pending'
+      );
+      const nextApproverId = routed.approverId;
+
+      await tx
+        .update(approvalSteps)
+        .set({
+          status: 'active',
+          approverId: nextApproverId,
+          activatedAt: now,
+        })
+        .where(eq(approvalSteps.id, nextStep.id));
+
+      const [updated] = await tx
+        .update(approvalRequests)
+        .set({
+          approvalLevel: nextStep.approverRole,
+          currentApproverId: nextApproverId,
+          expiresAt: getStepDeadline(nextStep.escalationHours, now),
+          updatedAt: now,
+        })
+        .where(eq(approvalRequests.id, requestId))
+        .returning();
+
+      // Record the step sign-off and the hand-over to the next step
+      await tx
+        .insert(approvalEvents)
+        .values([
+          {
+            requestId,
+            eventType: 'approved',
+            performedBy: approverId,
+            performedBySystem: false,
+            fromStatus: request.status,
+            toStatus: 'pending',
+            reason,
+            metadata: { ...stepMetadata, ...onBehalf, finalStep: false },
+          },
+          {
+            requestId,
+            eventType: 'assigned',
+            performedBySystem: true,
+            fromStatus: 'pending',
+            toStatus: 'pending',
+            reason: `Awaiting ${nextStep.approverRole} approval (step ${nextStep.stepOrder + 1} of ${steps.length})`,
+            metadata: {
+              stepId: nextStep.id,
+              stepOrder: nextStep.stepOrder,
+              approverRole: nextStep.approverRole,
+              approverId: foundApproverId,
+            },
+          },
+          ...(routed.event ? [routed.event] : []),
+        ]);
+
+      return updated;
+    }
 
     // Update request status
     const [updated] = await tx
@@ -445,11 +1289,15 @@ export async function approveRequest(
         fromStatus: request.status,
         toStatus: 'approved',
         reason,
+        metadata: stepMetadata || onBehalf
+          ? { ...stepMetadata, ...onBehalf, ...(stepMetadata && { finalStep: true }) }
+          : undefined,
       });
 
-    // Find and convert hold to spend within same transaction
+    // Find and convert hold to spend within same transaction. Deep research holds
+    // are keyed by the job instead, and converted when the report is ready.
     const holdResult = await tx.execute(sql`
-      SELECT id, account_id as "accountId", amount
+      SELECT id, account_id as "accountId", team_id as "teamId", amount
       FROM credit_holds
       WHERE request_id = ${requestId} AND status = 'active'
       FOR UPDATE
@@ -457,7 +1305,12 @@ export async function approveRequest(
     `);
 
     if (holdResult.rows.length > 0) {
-      const hold = holdResult.rows[0] as { id: string; accountId: string; amount: number };
+      const hold = holdResult.rows[0] as {
+        id: string;
+        accountId: string;
+        teamId: string | null;
+        amount: number;
+      };
 
       // Update hold status to converted
       await tx
@@ -480,12 +1333,25 @@ export async function approveRequest(
           referenceId: requestId,
           description: `Approved: ${request.title}`,
           performedBy: approverId,
+          teamId: hold.teamId,
           idempotencyKey: `hold_convert_${hold.id}`,
         });
     }
 
     return updated;
   });
+
+  if (decided.status === 'approved' && decided.requestType === 'deep_research') {
+    await notifyRequester(decided, 'approved', `"${decided.title}" was approved. The research will start shortly, and credits are charged when the report is ready.`);
+  } else if (decided.status === 'approved') {
+    await notifyRequester(decided, 'approved', `"${decided.title}" was approved. ${decided.estimatedCredits} credits were deducted.`);
+  } else {
+    // Signed off one step of a multi-step chain
+    await notifyRequester(decided, 'pending', `"${decided.title}" passed an approval step and is now waiting on the next approver.`);
+    await notifyApprover(decided);
+  }
+
+  return decided;
 }
 
 /**
@@ -497,15 +1363,13 @@ export async function denyRequest(
   approverId: string,
   reason: string
 ): Promise<ApprovalRequest> {
-  return withTransaction(async (tx) => {
+  const decided = await withTransaction(async (tx) => {
     // Lock the request row to prevent concurrent status changes
-    const requestResult = await tx.execute(sql`
-      SELECT *
-      FROM approval_requests
-      WHERE id = ${requestId}
-      FOR UPDATE
-    `);
-    const request = requestResult.rows[0] as ApprovalRequest | undefined;
+    const [request]: Array<ApprovalRequest | undefined> = await tx
+      .select()
+      .from(approvalRequests)
+      .where(eq(approvalRequests.id, requestId))
+      .for('update');
 
     if (!request) {
       throw new Error('Request not found');
@@ -516,6 +1380,10 @@ export async function denyRequest(
     }
 
     const now = new Date();
+    if (!isAssignedDecider(request, approverId, await getDelegatorIds(approverId, now))) {
+      throw new Error('Not authorized to deny this request');
+    }
+    const onBehalf = await getOnBehalfOf(request, approverId);
 
     // Update request status
     const [updated] = await tx
@@ -541,8 +1409,26 @@ export async function denyRequest(
         fromStatus: request.status,
         toStatus: 'denied',
         reason,
+        metadata: onBehalf ?? undefined,
       });
 
+    // Close the chain: the active step is denied, later steps never run
+    await tx
+      .update(approvalSteps)
+      .set({
+        status: 'denied',
+        decidedBy: approverId,
+        decidedAt: now,
+        decisionReason: reason,
+      })
+      .where(
+        and(
+          eq(approvalSteps.requestId, requestId),
+          eq(approvalSteps.status, 'active')
+        )
+      );
+    await skipOpenSteps(tx, requestId);
+
     // Find and release hold within same transaction
     const holdResult = await tx.execute(sql`
       SELECT id
@@ -567,6 +1453,10 @@ export async function denyRequest(
 
     return updated;
   });
+
+  await notifyRequester(decided, 'denied', `"${decided.title}" was denied: ${reason}. The held credits were released.`);
+
+  return decided;
 }
 
 /**
@@ -627,6 +1517,8 @@ export async function cancelRequest(
         reason,
       });
 
+    await skipOpenSteps(tx, requestId);
+
     // Find and release hold within same transaction
     const holdResult = await tx.execute(sql`
       SELECT id
@@ -654,12 +1546,15 @@ export async function cancelRequest(
 }
 
 /**
- * Mark a request as fulfilled
+ * Mark a request as fulfilled. A fulfiller from the API must be in the request's
+ * company and can't be its requester.
  */
 export async function fulfillRequest(
   requestId: string,
   userId: string,
-  actualCredits?: number
+  actualCredits?: number,
+  assessment?: SupplierAssessmentResult,
+  fulfiller?: Fulfiller
 ): Promise<ApprovalRequest> {
   const db = getDb();
 
@@ -670,14 +1565,32 @@ export async function fulfillRequest(
     .where(eq(approvalRequests.id, requestId))
     .limit(1);
 
-  if (!request) {
+  if (!request || (fulfiller && request.companyId !== fulfiller.companyId)) {
     throw new Error('Request not found');
   }
 
+  if (fulfiller) {
+    if (request.requesterId === userId) {
+      throw new Error('Not authorized to fulfill your own request');
+    }
+    if (request.requestType === 'supplier_assessment' && !ASSESSMENT_FULFILLER_ROLES.includes(fulfiller.role)) {
+      throw new Error('Not authorized to record supplier assessments');
+    }
+  }
+
   if (!canTransition(request.status, 'fulfilled')) {
     throw new Error(`Cannot fulfill request with status: ${request.status}`);
   }
 
+  // Supplier assessments are delivered as a fresh risk score
+  let outcome: SupplierAssessmentOutcome | undefined;
+  if (request.requestType === 'supplier_assessment') {
+    if (!assessment) {
+      throw new Error('Assessment result is required to fulfill a supplier assessment');
+    }
+    outcome = await recordSupplierAssessment(request, assessment);
+  }
+
   // Update request
   const [updated] = await db
     .update(approvalRequests)
@@ -685,6 +1598,7 @@ export async function fulfillRequest(
       status: 'fulfilled',
       fulfilledAt: new Date(),
       actualCredits: actualCredits ?? request.estimatedCredits,
+      ...(outcome && { context: { ...request.context, assessment: outcome } }),
       updatedAt: new Date(),
     })
     .where(eq(approvalRequests.id, requestId))
@@ -697,9 +1611,12 @@ export async function fulfillRequest(
     toStatus: 'fulfilled',
     metadata: {
       actualCredits: actualCredits ?? request.estimatedCredits,
+      ...(outcome && { assessment: outcome }),
     },
   });
 
+  await notifyRequester(updated, 'fulfilled', `"${updated.title}" has been fulfilled.`);
+
   return updated;
 }
 
@@ -708,7 +1625,7 @@ export async function fulfillRequest(
 // ══════════════════════════════════════════════════════════════════
 
 /**
- * Get a request with its events
+ * Get a request with its events and approval chain
  */
 export async function getRequestWithEvents(
   requestId: string
@@ -731,7 +1648,9 @@ export async function getRequestWithEvents(
     .where(eq(approvalEvents.requestId, requestId))
     .orderBy(desc(approvalEvents.createdAt));
 
-  return { request, events };
+  const steps = await getApprovalSteps(requestId);
+
+  return { request, events, steps };
 }
 
 // UI-ready request DTO with requester/team info
@@ -754,6 +1673,7 @@ export interface RequestWithDetails {
   requiresApproval: boolean;
   approvalLevel: ApprovalLevel | null;
   approverId: string | null;
+  onBehalfOf: string | null; // Delegator whose queue the request sits in
   decisionReason: string | null;
   // UI aliases for compatibility
   denialReason: string | null;
@@ -785,11 +1705,21 @@ export async function getRequests(options: {
   if (role === 'requester') {
     conditions.push(eq(approvalRequests.requesterId, userId));
   } else {
-    // For approvers, show all requests in pending status that they can approve
-    // or requests they've already decided on
+    // For approvers, show requests assigned to them, pending requests in queues
+    // delegated to them (same rules as getApprovalQueue), or requests they've decided on
+    const delegatorIds = await getDelegatorIds(userId);
+    const assigned = [eq(approvalRequests.currentApproverId, userId)];
+    if (delegatorIds.length > 0) {
+      assigned.push(
+        and(
+          inArray(approvalRequests.currentApproverId, delegatorIds),
+          eq(approvalRequests.status, 'pending')
+        )!
+      );
+    }
     conditions.push(
       or(
-        eq(approvalRequests.currentApproverId, userId),
+        and(or(...assigned), ne(approvalRequests.requesterId, userId)),
         eq(approvalRequests.decidedBy, userId)
       )
     );
@@ -844,6 +1774,9 @@ export async function getRequests(options: {
     requiresApproval: row.request.approvalLevel !== 'auto',
     approvalLevel: row.request.approvalLevel,
     approverId: row.request.currentApproverId,
+    onBehalfOf: role === 'approver' && row.request.currentApproverId !== userId && row.request.status === 'pending'
+      ? row.request.currentApproverId
+      : null,
     decisionReason: row.request.decisionReason,
     // UI aliases: denialReason for denied, approvalNote for approved
     denialReason: row.request.status === 'denied' ? row.request.decisionReason : null,
@@ -870,7 +1803,8 @@ export async function getApprovalQueue(approverId: string): Promise<ApprovalQueu
   const now = new Date();
   const fourHoursFromNow = new Date(now.getTime() + 4 * 60 * 60 * 1000);
 
-  // Get pending requests assigned to this approver
+  // Get pending requests assigned to this approver or to anyone they are covering for
+  const delegatorIds = await getDelegatorIds(approverId, now);
   const pendingRequests = await db
     .select({
       request: approvalRequests,
@@ -880,7 +1814,9 @@ export async function getApprovalQueue(approverId: string): Promise<ApprovalQueu
     .innerJoin(users, eq(approvalRequests.requesterId, users.id))
     .where(
       and(
-        eq(approvalRequests.currentApproverId, approverId),
+        inArray(approvalRequests.currentApproverId, [approverId, ...delegatorIds]),
+        // Covering for an approver never extends to one's own requests
+        ne(approvalRequests.requesterId, approverId),
         eq(approvalRequests.status, 'pending')
       )
     )
@@ -893,6 +1829,9 @@ export async function getApprovalQueue(approverId: string): Promise<ApprovalQueu
     hoursUntilEscalation: r.request.expiresAt
       ? Math.max(0, (r.request.expiresAt.getTime() - now.getTime()) / (60 * 60 * 1000))
       : undefined,
+    onBehalfOf: r.request.currentApproverId !== approverId
+      ? r.request.currentApproverId ?? undefined
+      : undefined,
   }));
 
   // Filter for those nearing escalation (within 4 hours)
@@ -918,6 +1857,7 @@ export async function canUserApprove(
   requestId: string
 ): Promise<boolean> {
   const db = getDb();
+  const delegatorIds = await getDelegatorIds(userId);
 
   const [request] = await db
     .select()
@@ -925,7 +1865,8 @@ export async function canUserApprove(
     .where(
       and(
         eq(approvalRequests.id, requestId),
-        eq(approvalRequests.currentApproverId, userId),
+        inArray(approvalRequests.currentApproverId, [userId, ...delegatorIds]),
+        ne(approvalRequests.requesterId, userId),
         eq(approvalRequests.status, 'pending')
       )
     )
@@ -1030,22 +1971,31 @@ export async function processEscalations(): Promise<{ escalatedCount: number; es
   const escalatedIds: string[] = [];
 
   for (const request of toEscalate) {
-    // Find an admin to escalate to
-    const admins = await db
-      .select({ userId: teamMemberships.userId })
-      .from(teamMemberships)
-      .where(
-        and(
-          eq(teamMemberships.teamId, request.teamId),
-          eq(teamMemberships.role, 'admin'),
-          sql`${teamMemberships.userId} != ${request.requesterId}::uuid`
-        )
-      )
-      .limit(1);
+    const steps = await getApprovalSteps(request.id);
+    const activeStep = steps.find((s) => s.status === 'active');
+    const signers = steps
+      .map((s) => s.decidedBy)
+      .filter((id): id is string => id !== null);
+
+    // Find an admin to escalate to, honouring their out-of-office delegation
+    const adminId = await findApprover(
+      request.companyId,
+      request.teamId,
+      request.requesterId,
+      'admin',
+      signers
+    );
 
-    if (admins.length === 0) continue;
+    if (!adminId) continue;
+
+    const routed = await applyDelegation(
+      request.id,
+      adminId,
+      [request.requesterId, ...signers],
+      'pending'
+    );
+    const newApproverId = routed.approverId;
 
-    const newApproverId = admins[0].userId;
     const newExpiresAt = new Date(now.getTime() + 24 * 60 * 60 * 1000); // 24h for admin
 
     // Update request
@@ -1054,11 +2004,23 @@ export async function processEscalations(): Promise<{ escalatedCount: number; es
       .set({
         approvalLevel: 'admin',
         currentApproverId: newApproverId,
+        escalationCount: request.escalationCount + 1,
         expiresAt: newExpiresAt,
         updatedAt: now,
       })
       .where(eq(approvalRequests.id, request.id));
 
+    // The active step now waits on the admin instead
+    if (activeStep) {
+      await db
+        .update(approvalSteps)
+        .set({
+          approverRole: 'admin',
+          approverId: newApproverId,
+        })
+        .where(eq(approvalSteps.id, activeStep.id));
+    }
+
     // Record event
     await recordEvent(request.id, 'escalated', {
       performedBySystem: true,
@@ -1068,9 +2030,18 @@ export async function processEscalations(): Promise<{ escalatedCount: number; es
         previousApprover: request.currentApproverId,
         newApprover: newApproverId,
         reason: 'Escalated due to approaching SLA deadline',
+        stepId: activeStep?.id,
+        stepOrder: activeStep?.stepOrder,
       },
     });
 
+    if (routed.event) {
+      await db.insert(approvalEvents).values(routed.event);
+    }
+
+    await notifyRequester(request, 'escalated', `"${request.title}" was escalated to an admin because it was close to its approval deadline.`);
+    await notifyApprover({ ...request, currentApproverId: newApproverId });
+
     escalatedIds.push(request.id);
   }
 
@@ -1116,6 +2087,8 @@ export async function processExpirations(): Promise<{ expiredCount: number; expi
       reason: 'Request expired due to SLA deadline',
     });
 
+    await skipOpenSteps(db, request.id);
+
     // Release credit hold
     const holdResult = await db.execute(
       sql`SELECT id FROM credit_holds WHERE request_id = ${request.id} AND status = 'active' LIMIT 1`
@@ -1124,6 +2097,8 @@ export async function processExpirations(): Promise<{ expiredCount: number; expi
       await releaseHold(holdResult.rows[0].id as string);
     }
 
+    await notifyRequester(request, 'expired', `"${request.title}" expired before it was approved. The held credits were released.`);
+
     expiredIds.push(request.id);
   }
 
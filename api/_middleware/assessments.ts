@@ -0,0 +1,169 @@
+// Assessments Middleware - Analyst assessments of unrated or stale suppliers, requested through the approval workflow
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { eq, and, inArray, sql } from 'drizzle-orm';
+import {
+  approvalRequests,
+  suppliers,
+  supplierRiskScores,
+  type ApprovalRequest,
+} from '../../src/db/schema.js';
+import {
+  MAX_CHANGE_REASON_LENGTH,
+  getAssessmentEligibility,
+  type SupplierAssessmentContext,
+  type SupplierAssessmentOutcome,
+  type SupplierAssessmentResult,
+} from '../../src/types/assessments.js';
+import { getRiskLevelFromScore, type RiskLevel } from '../../src/types/supplier.js';
+import { recordRiskScore } from './alerts.js';
+import { UUID_PATTERN, resolveSupplierTarget } from './watchlists.js';
+
+const getDb = () => {
+  const client = neon(process.env.DATABASE_URL!);
+  return drizzle(client);
+};
+
+// ══════════════════════════════════════════════════════════════════
+// Requesting
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Resolve the supplier named in a request context. Chat and mock data carry
+ * names rather than ids, so a name is accepted when the id isn't a UUID.
+ */
+async function resolveAssessmentSupplier(context: Record<string, unknown>): Promise<string | null> {
+  const supplierId = typeof context.supplierId === 'string' ? context.supplierId : '';
+  const supplierName = typeof context.supplierName === 'string' ? context.supplierName.trim() : '';
+
+  if (UUID_PATTERN.test(supplierId)) {
+    return supplierId;
+  }
+  if (!supplierName) {
+    return null;
+  }
+  const { suppliers: matched } = await resolveSupplierTarget({ supplierNames: [supplierName] });
+  return matched[0]?.id ?? null;
+}
+
+/**
+ * Build the stored context for a new assessment request. Throws
+ * 'Supplier not found', 'Supplier was assessed recently' or
+ * 'An assessment for this supplier is already in progress'.
+ */
+export async function prepareAssessmentRequest(
+  companyId: string,
+  context: Record<string, unknown>
+): Promise<{ title: string; context: SupplierAssessmentContext }> {
+  const supplierId = await resolveAssessmentSupplier(context);
+  if (!supplierId) {
+    throw new Error('Supplier not found');
+  }
+  const db = getDb();
+
+  const [supplier] = await db
+    .select({
+      id: suppliers.id,
+      name: suppliers.name,
+      score: supplierRiskScores.score,
+      level: supplierRiskScores.level,
+      lastUpdated: supplierRiskScores.lastUpdated,
+    })
+    .from(suppliers)
+    .leftJoin(supplierRiskScores, eq(supplierRiskScores.supplierId, suppliers.id))
+    .where(eq(suppliers.id, supplierId))
+    .limit(1);
+
+  if (!supplier) {
+    throw new Error('Supplier not found');
+  }
+
+  const level = (supplier.level as RiskLevel | null) ?? 'unrated';
+  const eligibility = getAssessmentEligibility(level, supplier.lastUpdated);
+  if (eligibility === 'current') {
+    throw new Error('Supplier was assessed recently');
+  }
+
+  const [open] = await db
+    .select({ id: approvalRequests.id })
+    .from(approvalRequests)
+    .where(and(
+      eq(approvalRequests.companyId, companyId),
+      eq(approvalRequests.requestType, 'supplier_assessment'),
+      inArray(approvalRequests.status, ['pending', 'approved']),
+      sql`${approvalRequests.context}->>'supplierId' = ${supplier.id}`
+    ))
+    .limit(1);
+
+  if (open) {
+    throw new Error('An assessment for this supplier is already in progress');
+  }
+
+  const reason = typeof context.reason === 'string' ? context.reason.trim().slice(0, MAX_CHANGE_REASON_LENGTH) : '';
+
+  return {
+    title: `Risk assessment: ${supplier.name}`,
+    context: {
+      supplierId: supplier.id,
+      supplierName: supplier.name,
+      previousScore: level === 'unrated' ? null : supplier.score,
+      previousLevel: level,
+      lastAssessedAt: level === 'unrated' ? null : supplier.lastUpdated?.toISOString() ?? null,
+      eligibility,
+      ...(reason && { reason }),
+    },
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Fulfilling
+// ══════════════════════════════════════════════════════════════════
+
+export function validateAssessmentResult(value: unknown): { result: SupplierAssessmentResult } | { error: string } {
+  if (!value || typeof value !== 'object') {
+    return { error: 'assessment is required to fulfill a supplier assessment' };
+  }
+  const { score, changeReason } = value as Record<string, unknown>;
+
+  if (typeof score !== 'number' || !Number.isInteger(score) || score < 0 || score > 100) {
+    return { error: 'assessment.score must be an integer from 0 to 100' };
+  }
+  if (typeof changeReason !== 'string' || !changeReason.trim()) {
+    return { error: 'assessment.changeReason is required' };
+  }
+  if (changeReason.length > MAX_CHANGE_REASON_LENGTH) {
+    return { error: `assessment.changeReason must be at most ${MAX_CHANGE_REASON_LENGTH} characters` };
+  }
+
+  return { result: { score, changeReason: changeReason.trim() } };
+}
+
+/**
+ * Write the analyst's score to supplier_risk_scores and log a risk_changes
+ * row with their reason - even when the score is confirmed unchanged.
+ */
+export async function recordSupplierAssessment(
+  request: ApprovalRequest,
+  result: SupplierAssessmentResult
+): Promise<SupplierAssessmentOutcome> {
+  const context = request.context as unknown as SupplierAssessmentContext | null;
+  if (!context?.supplierId) {
+    throw new Error('Assessment request has no supplier');
+  }
+
+  const level = getRiskLevelFromScore(result.score);
+  await recordRiskScore(context.supplierId, {
+    score: result.score,
+    level,
+    reason: result.changeReason,
+    recordUnchanged: true,
+  });
+
+  return {
+    score: result.score,
+    level,
+    previousScore: context.previousScore,
+    changeReason: result.changeReason,
+    assessedAt: new Date().toISOString(),
+  };
+}
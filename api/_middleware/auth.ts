@@ -10,9 +10,12 @@ import {
   validateCsrfToken,
   requiresCsrf,
   verifySignedVisitorId,
+  serializeCookie,
 } from '../../src/services/security.js';
 import { getPermissions } from '../../src/services/auth.js';
 import type { UserPermissions } from '../../src/types/auth.js';
+import { SESSION_DURATION_SECONDS } from '../../src/types/auth.js';
+import { refreshSession } from './sessions.js';
 
 // ══════════════════════════════════════════════════════════════════
 // Types
@@ -30,6 +33,7 @@ export interface AuthContext {
   user: AuthenticatedUser | null;
   visitorId: string | null;
   permissions: UserPermissions;
+  sessionId?: string; // Set for authenticated requests
 }
 
 export interface AuthRequest extends VercelRequest {
@@ -156,9 +160,29 @@ export function validateCsrf(req: VercelRequest): boolean {
 // ══════════════════════════════════════════════════════════════════
 
 /**
- * Build auth context from request
+ * Reissue the session cookie after a refresh, keeping any cookies already set
  */
-export async function getAuthContext(req: VercelRequest): Promise<AuthContext> {
+function setSessionCookie(res: VercelResponse, token: string): void {
+  const existing = res.getHeader?.('Set-Cookie');
+  const cookies = Array.isArray(existing) ? existing : existing ? [String(existing)] : [];
+
+  res.setHeader('Set-Cookie', [
+    ...cookies,
+    serializeCookie(COOKIE_NAMES.session, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'Lax',
+      path: '/',
+      maxAge: SESSION_DURATION_SECONDS,
+    }),
+  ]);
+}
+
+/**
+ * Build auth context from request.
+ * When a response is given, sliding expiry and pending token rotation are applied.
+ */
+export async function getAuthContext(req: VercelRequest, res?: VercelResponse): Promise<AuthContext> {
   const sessionToken = extractSessionToken(req);
   const visitorId = extractVisitorId(req);
 
@@ -185,7 +209,17 @@ export async function getAuthContext(req: VercelRequest): Promise<AuthContext> {
     };
   }
 
-  const { user, profile } = sessionData;
+  const { session, user, profile } = sessionData;
+
+  if (res) {
+    const refreshed = await refreshSession(session).catch((error) => {
+      console.error('Session refresh error:', error);
+      return null;
+    });
+    if (refreshed) {
+      setSessionCookie(res, refreshed.token);
+    }
+  }
 
   return {
     isAuthenticated: true,
@@ -197,6 +231,7 @@ export async function getAuthContext(req: VercelRequest): Promise<AuthContext> {
     },
     visitorId, // May still be set for linking purposes
     permissions: getPermissions(user, profile),
+    sessionId: session.id,
   };
 }
 
@@ -214,7 +249,7 @@ export function withAuth(handler: Handler): (req: VercelRequest, res: VercelResp
       return res.status(403).json({ error: 'Invalid CSRF token' });
     }
 
-    const auth = await getAuthContext(req);
+    const auth = await getAuthContext(req, res);
     (req as AuthRequest).auth = auth;
 
     return handler(req as AuthRequest, res);
@@ -231,7 +266,7 @@ export function withAuthenticated(handler: Handler): (req: VercelRequest, res: V
       return res.status(403).json({ error: 'Invalid CSRF token' });
     }
 
-    const auth = await getAuthContext(req);
+    const auth = await getAuthContext(req, res);
 
     if (!auth.isAuthenticated) {
       return res.status(401).json({ error: 'Authentication required' });
@@ -252,7 +287,7 @@ export function withVerified(handler: Handler): (req: VercelRequest, res: Vercel
       return res.status(403).json({ error: 'Invalid CSRF token' });
     }
 
-    const auth = await getAuthContext(req);
+    const auth = await getAuthContext(req, res);
 
     if (!auth.isAuthenticated) {
       return res.status(401).json({ error: 'Authentication required' });
@@ -0,0 +1,114 @@
+// Conversation Ownership Middleware - Scopes chat history to a user or signed visitor
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { eq, and, isNull, type SQL } from 'drizzle-orm';
+import { conversations, visitorClaims } from '../../src/db/schema.js';
+import type { Conversation } from '../../src/db/schema.js';
+import type { AuthContext } from './auth.js';
+
+const getDb = () => {
+  const client = neon(process.env.DATABASE_URL!);
+  return drizzle(client);
+};
+
+// ══════════════════════════════════════════════════════════════════
+// Ownership
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Who a conversation belongs to. Signed-in users own by users.id;
+ * anonymous visitors own by the id in their signed visitor cookie.
+ */
+export type ConversationOwner =
+  | { kind: 'user'; userId: string; visitorId: string | null }
+  | { kind: 'visitor'; visitorId: string };
+
+/**
+ * Resolve the owner from auth context. Never trusts client-supplied ids.
+ */
+export function getConversationOwner(auth: AuthContext): ConversationOwner | null {
+  if (auth.isAuthenticated && auth.user) {
+    return { kind: 'user', userId: auth.user.id, visitorId: auth.visitorId };
+  }
+  if (auth.visitorId) {
+    return { kind: 'visitor', visitorId: auth.visitorId };
+  }
+  return null;
+}
+
+/**
+ * Filter matching conversations the owner may read and modify.
+ * Visitors only see conversations that have not been claimed by a user.
+ */
+export function ownerCondition(owner: ConversationOwner): SQL {
+  if (owner.kind === 'user') {
+    return eq(conversations.userId, owner.userId);
+  }
+  return and(eq(conversations.visitorId, owner.visitorId), isNull(conversations.userId))!;
+}
+
+/**
+ * Column values for a new conversation. visitor_id is required, so
+ * signed-in users without a visitor cookie fall back to their user id.
+ */
+export function ownerValues(owner: ConversationOwner): { visitorId: string; userId: string | null } {
+  if (owner.kind === 'user') {
+    return { visitorId: owner.visitorId ?? owner.userId, userId: owner.userId };
+  }
+  return { visitorId: owner.visitorId, userId: null };
+}
+
+/**
+ * Fetch a conversation only if it belongs to the owner
+ */
+export async function findOwnedConversation(
+  id: string,
+  owner: ConversationOwner
+): Promise<Conversation | null> {
+  const db = getDb();
+
+  const [conversation] = await db
+    .select()
+    .from(conversations)
+    .where(and(eq(conversations.id, id), ownerCondition(owner)))
+    .limit(1);
+
+  return conversation ?? null;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Visitor Claims
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Move a visitor's anonymous conversations to the user who just signed in.
+ * A visitor id can only ever be claimed by one user, so a shared browser
+ * cannot leak one account's anonymous history into another.
+ * Returns the number of conversations migrated.
+ */
+export async function claimVisitorConversations(visitorId: string, userId: string): Promise<number> {
+  const db = getDb();
+
+  await db
+    .insert(visitorClaims)
+    .values({ visitorId, userId })
+    .onConflictDoNothing({ target: visitorClaims.visitorId });
+
+  const [claim] = await db
+    .select()
+    .from(visitorClaims)
+    .where(eq(visitorClaims.visitorId, visitorId))
+    .limit(1);
+
+  if (!claim || claim.userId !== userId) {
+    return 0;
+  }
+
+  const migrated = await db
+    .update(conversations)
+    .set({ userId })
+    .where(and(eq(conversations.visitorId, visitorId), isNull(conversations.userId)))
+    .returning({ id: conversations.id });
+
+  return migrated.length;
+}
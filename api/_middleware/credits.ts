@@ -2,19 +2,24 @@
 import { neon, Pool } from '@neondatabase/serverless';
 import { drizzle as drizzleHttp } from 'drizzle-orm/neon-http';
 import { drizzle as drizzleServerless } from 'drizzle-orm/neon-serverless';
-import { eq, and, sql, desc } from 'drizzle-orm';
+import { eq, and, sql, desc, gte, lte, gt, lt, isNull } from 'drizzle-orm';
 import {
   creditAccounts,
   ledgerEntries,
   creditHolds,
+  creditAllocations,
   companies,
+  teams,
   teamMemberships,
 } from '../../src/db/schema.js';
 import type {
   CreditAccount,
   LedgerEntry,
   CreditHold,
+  CreditAllocation,
 } from '../../src/db/schema.js';
+import { CREDIT_ROLLOVER_POLICIES } from '../../src/types/subscription.js';
+import type { SubscriptionTier } from '../../src/types/subscription.js';
 
 // ══════════════════════════════════════════════════════════════════
 // Types
@@ -35,6 +40,18 @@ export interface AccountBalance {
   daysRemaining: number;
 }
 
+export interface TeamBalance {
+  allocationId: string;
+  teamId: string;
+  teamName: string;
+  allocatedCredits: number;  // Team allocation for the current period
+  usedCredits: number;       // Team debits in the period, net of refunds
+  reservedCredits: number;   // Active holds counted against the team
+  availableCredits: number;  // allocated - used - reserved
+  periodStart: string;
+  periodEnd: string;
+}
+
 export interface CreateHoldResult {
   holdId: string;
   amount: number;
@@ -279,6 +296,372 @@ export async function getAccountBalance(accountId: string): Promise<AccountBalan
   };
 }
 
+// ══════════════════════════════════════════════════════════════════
+// Team Budgets
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Get the open allocation covering a point in time for a team
+ */
+async function getCurrentAllocation(
+  db: TransactionDb,
+  accountId: string,
+  teamId: string,
+  at: Date = new Date()
+): Promise<CreditAllocation | null> {
+  const result: CreditAllocation[] = await db
+    .select()
+    .from(creditAllocations)
+    .where(
+      and(
+        eq(creditAllocations.accountId, accountId),
+        eq(creditAllocations.teamId, teamId),
+        isNull(creditAllocations.closedAt),
+        lte(creditAllocations.periodStart, at),
+        gt(creditAllocations.periodEnd, at)
+      )
+    )
+    .orderBy(desc(creditAllocations.periodStart))
+    .limit(1);
+
+  return result[0] ?? null;
+}
+
+/**
+ * Calculate a team's usage against an allocation
+ * Debits and refunds count when booked within the allocation period;
+ * active holds count until they are released or converted.
+ */
+async function getAllocationBalance(
+  db: TransactionDb,
+  allocation: CreditAllocation
+): Promise<TeamBalance> {
+  const periodCondition = and(
+    eq(ledgerEntries.accountId, allocation.accountId),
+    eq(ledgerEntries.teamId, allocation.teamId),
+    gte(ledgerEntries.createdAt, allocation.periodStart),
+    lt(ledgerEntries.createdAt, allocation.periodEnd)
+  );
+
+  const [usage] = await db
+    .select({
+      debits: sql<number>`COALESCE(SUM(CASE WHEN ${ledgerEntries.entryType} = 'debit' THEN ${ledgerEntries.amount} ELSE 0 END), 0)`,
+      refunds: sql<number>`COALESCE(SUM(CASE WHEN ${ledgerEntries.transactionType} = 'refund' THEN ${ledgerEntries.amount} ELSE 0 END), 0)`,
+    })
+    .from(ledgerEntries)
+    .where(periodCondition);
+
+  const [holds] = await db
+    .select({
+      total: sql<number>`COALESCE(SUM(${creditHolds.amount}), 0)`,
+    })
+    .from(creditHolds)
+    .where(
+      and(
+        eq(creditHolds.accountId, allocation.accountId),
+        eq(creditHolds.teamId, allocation.teamId),
+        eq(creditHolds.status, 'active')
+      )
+    );
+
+  const [team] = await db
+    .select({ name: teams.name })
+    .from(teams)
+    .where(eq(teams.id, allocation.teamId))
+    .limit(1);
+
+  const usedCredits = Math.max(0, Number(usage?.debits ?? 0) - Number(usage?.refunds ?? 0));
+  const reservedCredits = Number(holds?.total ?? 0);
+
+  return {
+    allocationId: allocation.id,
+    teamId: allocation.teamId,
+    teamName: team?.name ?? 'Unknown Team',
+    allocatedCredits: allocation.allocatedCredits,
+    usedCredits,
+    reservedCredits,
+    availableCredits: allocation.allocatedCredits - usedCredits - reservedCredits,
+    periodStart: allocation.periodStart.toISOString(),
+    periodEnd: allocation.periodEnd.toISOString(),
+  };
+}
+
+/**
+ * Get a team's remaining budget for the current period
+ * Returns null when the team has no open allocation (only the company pool applies)
+ */
+export async function getTeamBalance(
+  accountId: string,
+  teamId: string
+): Promise<TeamBalance | null> {
+  const db = getDb();
+  const allocation = await getCurrentAllocation(db, accountId, teamId);
+  return allocation ? getAllocationBalance(db, allocation) : null;
+}
+
+/**
+ * Reject spend that would take a team past its allocation
+ * Must run inside the account lock so concurrent spends can't both pass.
+ */
+async function assertTeamBudgetInTx(
+  tx: TransactionDb,
+  accountId: string,
+  teamId: string | null | undefined,
+  amount: number
+): Promise<void> {
+  if (!teamId) return;
+
+  const allocation = await getCurrentAllocation(tx, accountId, teamId);
+  if (!allocation) return;
+
+  const teamBalance = await getAllocationBalance(tx, allocation);
+  if (teamBalance.availableCredits < amount) {
+    throw new Error(
+      `Insufficient team budget. Team: ${teamBalance.teamName}, ` +
+      `Available: ${Math.max(0, teamBalance.availableCredits)}, Required: ${amount}`
+    );
+  }
+}
+
+/**
+ * Resolve the team a user spends for: the requested team if they belong
+ * to it, otherwise their primary (first) team
+ */
+export async function getSpendingTeamForUser(
+  userId: string,
+  requestedTeamId?: string
+): Promise<string | null> {
+  const db = getDb();
+
+  const memberships = await db
+    .select({ teamId: teamMemberships.teamId })
+    .from(teamMemberships)
+    .where(eq(teamMemberships.userId, userId))
+    .orderBy(teamMemberships.createdAt);
+
+  if (requestedTeamId) {
+    return memberships.some((m) => m.teamId === requestedTeamId) ? requestedTeamId : null;
+  }
+
+  return memberships[0]?.teamId ?? null;
+}
+
+/**
+ * List an account's allocations, newest period first, with usage
+ */
+export async function getAllocations(accountId: string): Promise<Array<{
+  allocation: CreditAllocation;
+  balance: TeamBalance;
+}>> {
+  const db = getDb();
+
+  const allocations = await db
+    .select()
+    .from(creditAllocations)
+    .where(eq(creditAllocations.accountId, accountId))
+    .orderBy(desc(creditAllocations.periodStart));
+
+  return Promise.all(
+    allocations.map(async (allocation) => ({
+      allocation,
+      balance: await getAllocationBalance(db, allocation),
+    }))
+  );
+}
+
+export interface CreateAllocationParams {
+  accountId: string;
+  teamId: string;
+  allocatedCredits: number;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+/**
+ * Allocate part of the company pool to a team for a period
+ * A team can only have one open allocation covering any point in time.
+ */
+export async function createAllocation(params: CreateAllocationParams): Promise<CreditAllocation> {
+  const { accountId, teamId, allocatedCredits, periodStart, periodEnd } = params;
+
+  if (!Number.isInteger(allocatedCredits) || allocatedCredits < 0) {
+    throw new Error('Invalid allocation: allocatedCredits must be a non-negative integer');
+  }
+  if (periodEnd <= periodStart) {
+    throw new Error('Invalid allocation: periodEnd must be after periodStart');
+  }
+
+  return withTransaction(async (tx) => {
+    await tx.execute(
+      sql`SELECT id FROM credit_accounts WHERE id = ${accountId} FOR UPDATE`
+    );
+
+    const overlapping = await tx
+      .select({ id: creditAllocations.id })
+      .from(creditAllocations)
+      .where(
+        and(
+          eq(creditAllocations.accountId, accountId),
+          eq(creditAllocations.teamId, teamId),
+          isNull(creditAllocations.closedAt),
+          lt(creditAllocations.periodStart, periodEnd),
+          gt(creditAllocations.periodEnd, periodStart)
+        )
+      )
+      .limit(1);
+
+    if (overlapping.length > 0) {
+      throw new Error('Allocation overlaps an existing allocation for this team');
+    }
+
+    const [allocation] = await tx
+      .insert(creditAllocations)
+      .values({ accountId, teamId, allocatedCredits, periodStart, periodEnd })
+      .returning();
+
+    return allocation;
+  });
+}
+
+/**
+ * Lock an open allocation belonging to an account
+ */
+async function lockOpenAllocation(
+  tx: TransactionDb,
+  accountId: string,
+  allocationId: string
+): Promise<CreditAllocation> {
+  const [allocation]: CreditAllocation[] = await tx
+    .select()
+    .from(creditAllocations)
+    .where(
+      and(
+        eq(creditAllocations.id, allocationId),
+        eq(creditAllocations.accountId, accountId)
+      )
+    )
+    .for('update');
+
+  if (!allocation) {
+    throw new Error('Allocation not found');
+  }
+  if (allocation.closedAt) {
+    throw new Error('Invalid allocation: allocation is closed');
+  }
+
+  return allocation;
+}
+
+/**
+ * Change a team's allocation; it can't drop below what is already spent or held
+ */
+export async function resizeAllocation(
+  accountId: string,
+  allocationId: string,
+  allocatedCredits: number
+): Promise<CreditAllocation> {
+  if (!Number.isInteger(allocatedCredits) || allocatedCredits < 0) {
+    throw new Error('Invalid allocation: allocatedCredits must be a non-negative integer');
+  }
+
+  return withTransaction(async (tx) => {
+    await tx.execute(
+      sql`SELECT id FROM credit_accounts WHERE id = ${accountId} FOR UPDATE`
+    );
+
+    const allocation = await lockOpenAllocation(tx, accountId, allocationId);
+    const balance = await getAllocationBalance(tx, allocation);
+    const committed = balance.usedCredits + balance.reservedCredits;
+
+    if (allocatedCredits < committed) {
+      throw new Error(
+        `Invalid allocation: cannot reduce below committed credits (${committed})`
+      );
+    }
+
+    const [updated] = await tx
+      .update(creditAllocations)
+      .set({ allocatedCredits, updatedAt: new Date() })
+      .where(eq(creditAllocations.id, allocationId))
+      .returning();
+
+    return updated;
+  });
+}
+
+/**
+ * Move unspent credits from one team's allocation to another's
+ */
+export async function rebalanceAllocations(
+  accountId: string,
+  fromAllocationId: string,
+  toAllocationId: string,
+  amount: number
+): Promise<{ from: CreditAllocation; to: CreditAllocation }> {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new Error('Invalid allocation: amount must be a positive integer');
+  }
+  if (fromAllocationId === toAllocationId) {
+    throw new Error('Invalid allocation: cannot rebalance an allocation with itself');
+  }
+
+  return withTransaction(async (tx) => {
+    await tx.execute(
+      sql`SELECT id FROM credit_accounts WHERE id = ${accountId} FOR UPDATE`
+    );
+
+    const source = await lockOpenAllocation(tx, accountId, fromAllocationId);
+    const target = await lockOpenAllocation(tx, accountId, toAllocationId);
+
+    const sourceBalance = await getAllocationBalance(tx, source);
+    if (sourceBalance.availableCredits < amount) {
+      throw new Error(
+        `Insufficient team budget. Team: ${sourceBalance.teamName}, ` +
+        `Available: ${Math.max(0, sourceBalance.availableCredits)}, Required: ${amount}`
+      );
+    }
+
+    const now = new Date();
+    const [from] = await tx
+      .update(creditAllocations)
+      .set({ allocatedCredits: source.allocatedCredits - amount, updatedAt: now })
+      .where(eq(creditAllocations.id, source.id))
+      .returning();
+    const [to] = await tx
+      .update(creditAllocations)
+      .set({ allocatedCredits: target.allocatedCredits + amount, updatedAt: now })
+      .where(eq(creditAllocations.id, target.id))
+      .returning();
+
+    return { from, to };
+  });
+}
+
+/**
+ * Close an allocation early; the team falls back to the company pool
+ */
+export async function closeAllocation(
+  accountId: string,
+  allocationId: string
+): Promise<CreditAllocation> {
+  return withTransaction(async (tx) => {
+    const allocation = await lockOpenAllocation(tx, accountId, allocationId);
+    const now = new Date();
+
+    const [closed] = await tx
+      .update(creditAllocations)
+      .set({
+        closedAt: now,
+        periodEnd: allocation.periodEnd > now ? now : allocation.periodEnd,
+        updatedAt: now,
+      })
+      .where(eq(creditAllocations.id, allocation.id))
+      .returning();
+
+    return closed;
+  });
+}
+
 // ══════════════════════════════════════════════════════════════════
 // Credit Hold Operations
 // ══════════════════════════════════════════════════════════════════
@@ -287,11 +670,13 @@ export async function getAccountBalance(accountId: string): Promise<AccountBalan
  * Create a credit hold for a pending request
  * Uses transaction with row-level locking to prevent race conditions
  * Supports idempotency - returns existing hold if one exists for this requestId
+ * When teamId is given, the hold also counts against the team's allocation
  */
 export async function createHold(
   accountId: string,
   requestId: string,
-  amount: number
+  amount: number,
+  teamId?: string | null
 ): Promise<CreateHoldResult> {
   return withTransaction(async (tx) => {
     // Lock the account row to prevent concurrent balance modifications
@@ -337,6 +722,8 @@ export async function createHold(
       );
     }
 
+    await assertTeamBudgetInTx(tx, accountId, teamId, amount);
+
     // Create the hold
     const [hold] = await tx
       .insert(creditHolds)
@@ -344,6 +731,7 @@ export async function createHold(
         accountId,
         requestId,
         amount,
+        teamId,
         status: 'active',
       })
       .returning();
@@ -362,7 +750,7 @@ export async function createHold(
  * Calculate balance within a transaction context
  * Used for atomic balance checks in write operations
  */
-async function getAccountBalanceInTx(
+export async function getAccountBalanceInTx(
   tx: Parameters<Parameters<typeof withTransaction>[0]>[0],
   accountId: string
 ): Promise<AccountBalance | null> {
@@ -515,6 +903,13 @@ export async function releaseHold(holdId: string): Promise<ReleaseHoldResult> {
   });
 }
 
+export interface ConvertHoldOptions {
+  amount?: number;  // Charge less than was held; the rest is freed with the hold
+  referenceType?: LedgerEntry['referenceType'];
+  referenceId?: string;
+  description?: string;
+}
+
 /**
  * Convert a hold to spend (approved request)
  * Creates a ledger entry and marks the hold as converted
@@ -522,7 +917,8 @@ export async function releaseHold(holdId: string): Promise<ReleaseHoldResult> {
  */
 export async function convertHold(
   holdId: string,
-  userId: string
+  userId: string,
+  options: ConvertHoldOptions = {}
 ): Promise<ConvertHoldResult> {
   return withTransaction(async (tx) => {
     // Lock the hold row to prevent concurrent modifications
@@ -531,6 +927,7 @@ export async function convertHold(
         id,
         account_id as "accountId",
         request_id as "requestId",
+        team_id as "teamId",
         amount,
         status
       FROM credit_holds
@@ -541,6 +938,7 @@ export async function convertHold(
       id: string;
       accountId: string;
       requestId: string;
+      teamId: string | null;
       amount: number;
       status: CreditHold['status'];
     } | undefined;
@@ -553,6 +951,8 @@ export async function convertHold(
       throw new Error(`Cannot convert hold with status: ${hold.status}`);
     }
 
+    const amount = Math.min(options.amount ?? hold.amount, hold.amount);
+
     // Update hold status first (within same transaction)
     await tx
       .update(creditHolds)
@@ -568,12 +968,13 @@ export async function convertHold(
       .values({
         accountId: hold.accountId,
         entryType: 'debit',
-        amount: hold.amount,
+        amount,
         transactionType: 'hold_conversion',
-        referenceType: 'request',
-        referenceId: hold.requestId,
-        description: `Approved request - converted from hold ${holdId}`,
+        referenceType: options.referenceType ?? 'request',
+        referenceId: options.referenceId ?? hold.requestId,
+        description: options.description ?? `Approved request - converted from hold ${holdId}`,
         performedBy: userId,
+        teamId: hold.teamId,
         idempotencyKey: `hold_convert_${holdId}`,
       })
       .returning();
@@ -583,7 +984,7 @@ export async function convertHold(
 
     return {
       holdId: hold.id,
-      amount: hold.amount,
+      amount,
       status: 'converted' as const,
       ledgerEntryId: ledgerEntry.id,
       availableCredits: balance?.availableCredits ?? 0,
@@ -610,6 +1011,7 @@ export interface DirectSpendParams {
   description: string;
   idempotencyKey: string;
   userId: string;
+  teamId?: string | null; // Team budget to charge, if any
 }
 
 /**
@@ -667,6 +1069,8 @@ export async function directSpend(params: DirectSpendParams): Promise<DirectSpen
       );
     }
 
+    await assertTeamBudgetInTx(tx, params.accountId, params.teamId, params.amount);
+
     // Create ledger entry
     const [ledgerEntry] = await tx
       .insert(ledgerEntries)
@@ -679,6 +1083,7 @@ export async function directSpend(params: DirectSpendParams): Promise<DirectSpen
         referenceId: params.referenceId,
         description: params.description,
         performedBy: params.userId,
+        teamId: params.teamId,
         idempotencyKey: params.idempotencyKey,
       })
       .returning();
@@ -794,3 +1199,190 @@ export async function getHoldById(holdId: string): Promise<CreditHold | null> {
 
   return result.length > 0 ? result[0] : null;
 }
+
+// ══════════════════════════════════════════════════════════════════
+// Period Rollover
+// ══════════════════════════════════════════════════════════════════
+
+// Upper bound on periods closed per account in a single run (catch-up after downtime)
+const MAX_PERIODS_PER_RUN = 12;
+
+export interface PeriodCloseResult {
+  accountId: string;
+  periodEnd: Date;
+  nextPeriodEnd: Date;
+  expiredCredits: number;
+  rolledOverCredits: number;
+  renewedCredits: number;
+}
+
+export interface RolloverRunResult {
+  closed: PeriodCloseResult[];
+  failed: Array<{ accountId: string; error: string }>;
+}
+
+/**
+ * Split unused credits into the portion that expires and the portion that
+ * carries forward, per the tier's rollover policy
+ */
+export function calculateRollover(
+  tier: string,
+  periodGrant: number,
+  unusedCredits: number
+): { expiredCredits: number; rolledOverCredits: number } {
+  const policy =
+    CREDIT_ROLLOVER_POLICIES[tier.toLowerCase() as SubscriptionTier] ??
+    CREDIT_ROLLOVER_POLICIES.custom;
+
+  const unused = Math.max(0, unusedCredits);
+  let allowed = Math.floor((periodGrant * policy.maxRolloverPercent) / 100);
+  if (policy.maxRolloverCredits !== null) {
+    allowed = Math.min(allowed, policy.maxRolloverCredits);
+  }
+
+  const rolledOverCredits = Math.min(unused, allowed);
+  return { expiredCredits: unused, rolledOverCredits };
+}
+
+/**
+ * Close the account's current period if it has ended.
+ *
+ * All unused credits are written off as an `expiry` debit, the permitted
+ * portion is credited back as a `rollover`, and the tier grant is renewed
+ * as an `allocation` for the next period. Active holds stay reserved and
+ * are not expired. Entries are keyed by period end so reruns are no-ops.
+ */
+export async function closeCreditPeriod(
+  accountId: string,
+  now: Date = new Date()
+): Promise<PeriodCloseResult | null> {
+  return withTransaction(async (tx) => {
+    const [account] = await tx
+      .select()
+      .from(creditAccounts)
+      .where(eq(creditAccounts.id, accountId))
+      .for('update');
+
+    if (!account) {
+      throw new Error('Account not found');
+    }
+
+    // Another run already advanced this account
+    if (account.subscriptionEnd > now) {
+      return null;
+    }
+
+    const balance = await getAccountBalanceInTx(tx, accountId);
+    if (!balance) {
+      throw new Error('Account not found');
+    }
+
+    const periodEnd: Date = account.subscriptionEnd;
+    const periodGrant = account.totalCredits + account.bonusCredits;
+    const { expiredCredits, rolledOverCredits } = calculateRollover(
+      account.subscriptionTier,
+      periodGrant,
+      balance.availableCredits
+    );
+    const keyPrefix = `period-close:${periodEnd.toISOString()}`;
+    const periodLabel = periodEnd.toISOString().slice(0, 10);
+
+    const entries = [
+      {
+        entryType: 'debit' as const,
+        amount: expiredCredits,
+        transactionType: 'expiry' as const,
+        description: `Unused credits expired at period end ${periodLabel}`,
+        idempotencyKey: `${keyPrefix}:expiry`,
+      },
+      {
+        entryType: 'credit' as const,
+        amount: rolledOverCredits,
+        transactionType: 'rollover' as const,
+        description: `Credits rolled over from period ending ${periodLabel}`,
+        idempotencyKey: `${keyPrefix}:rollover`,
+      },
+      {
+        entryType: 'credit' as const,
+        amount: periodGrant,
+        transactionType: 'allocation' as const,
+        description: `Subscription renewal (${account.subscriptionTier})`,
+        idempotencyKey: `${keyPrefix}:allocation`,
+      },
+    ].filter((entry) => entry.amount > 0);
+
+    if (entries.length > 0) {
+      await tx
+        .insert(ledgerEntries)
+        .values(
+          entries.map((entry) => ({
+            ...entry,
+            accountId,
+            referenceType: 'subscription' as const,
+            referenceId: accountId,
+            performedBy: null,
+          }))
+        )
+        .onConflictDoNothing({
+          target: [ledgerEntries.accountId, ledgerEntries.idempotencyKey],
+        });
+    }
+
+    // Next period keeps the same length as the one just closed
+    const closedLength = periodEnd.getTime() - account.subscriptionStart.getTime();
+    const periodLength = closedLength > 0 ? closedLength : 365 * 24 * 60 * 60 * 1000;
+    const nextPeriodEnd = new Date(periodEnd.getTime() + periodLength);
+
+    await tx
+      .update(creditAccounts)
+      .set({
+        subscriptionStart: periodEnd,
+        subscriptionEnd: nextPeriodEnd,
+        updatedAt: now,
+      })
+      .where(eq(creditAccounts.id, accountId));
+
+    return {
+      accountId,
+      periodEnd,
+      nextPeriodEnd,
+      expiredCredits,
+      rolledOverCredits,
+      renewedCredits: periodGrant,
+    };
+  });
+}
+
+/**
+ * Close every account period that has ended (cron entry point)
+ */
+export async function processPeriodRollovers(now: Date = new Date()): Promise<RolloverRunResult> {
+  const db = getDb();
+
+  const due = await db
+    .select({ id: creditAccounts.id })
+    .from(creditAccounts)
+    .where(lte(creditAccounts.subscriptionEnd, now));
+
+  const closed: PeriodCloseResult[] = [];
+  const failed: RolloverRunResult['failed'] = [];
+
+  for (const { id } of due) {
+    try {
+      // Close one period at a time until the account is current
+      for (let i = 0; i < MAX_PERIODS_PER_RUN; i++) {
+        const result = await closeCreditPeriod(id, now);
+        if (!result) break;
+        closed.push(result);
+      }
+    } catch (error) {
+      console.error(`Failed to close credit period for account ${id}:`, error);
+      failed.push({
+        accountId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return { closed, failed };
+}
@@ -0,0 +1,598 @@
+// Exports Middleware - Supplier, portfolio and comparison exports as CSV, XLSX or PDF,
+// recorded as export jobs so a file can be downloaded again until it expires
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { eq, and, desc, gte, inArray } from 'drizzle-orm';
+import { exportJobs, riskChanges, type DbExportJob, type RiskFactorScore } from '../../src/db/schema.js';
+import {
+  getPortfolioSuppliers,
+  getSuppliersByIds,
+  type Supplier,
+} from '../../src/services/supplierService.js';
+import { getRiskScoreHistory } from './riskHistory.js';
+import { getDataEntitlements, redactSuppliers } from './redaction.js';
+import { writeCsv, writeXlsx, type SpreadsheetCell } from './spreadsheet.js';
+import { writePdf } from './pdf.js';
+import { UUID_PATTERN } from './watchlists.js';
+import { MAX_HISTORY_POINTS } from '../../src/types/riskHistory.js';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_CONTEXTS,
+  EXPORT_DATE_RANGES,
+  EXPORT_FORMATS,
+  EXPORT_RETENTION_DAYS,
+  EXPORT_SECTIONS,
+  MAX_COMPARISON_SUPPLIERS,
+  MAX_EXPORT_FILENAME_LENGTH,
+  MAX_EXPORT_SUPPLIERS,
+  type ExportDateRange,
+  type ExportFormat,
+  type ExportJob,
+  type ExportRequest,
+  type ExportSectionId,
+} from '../../src/types/exports.js';
+
+const getDb = () => {
+  const client = neon(process.env.DATABASE_URL!);
+  return drizzle(client);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGE_DAYS: Record<Exclude<ExportDateRange, 'all'>, number> = { '30d': 30, '90d': 90, '1y': 365 };
+// Trend sections summarise the range in this many points unless raw data is requested
+const TREND_POINTS = 24;
+const RESTRICTED_NOTE = 'Restricted risk factors are not included in exports.';
+
+export interface ExportTable {
+  title: string;
+  columns: string[];
+  rows: SpreadsheetCell[][];
+  note?: string;
+}
+
+export interface ExportDocument {
+  title: string;
+  subtitle: string;
+  tables: ExportTable[];
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Validation
+// ══════════════════════════════════════════════════════════════════
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === 'string' && (values as readonly string[]).includes(value);
+}
+
+/**
+ * Validate an export request body. Sections are returned in document order.
+ */
+export function validateExportRequest(body: Record<string, unknown>): { request: ExportRequest } | { error: string } {
+  const { context, format, filename, entityIds = [], sections, dateRange = '90d', includeRawData = false } = body;
+
+  if (!isOneOf(EXPORT_CONTEXTS, context)) {
+    return { error: `context must be one of: ${EXPORT_CONTEXTS.join(', ')}` };
+  }
+  if (!isOneOf(EXPORT_FORMATS, format)) {
+    return { error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` };
+  }
+  if (!isOneOf(EXPORT_DATE_RANGES, dateRange)) {
+    return { error: `dateRange must be one of: ${EXPORT_DATE_RANGES.join(', ')}` };
+  }
+  if (typeof includeRawData !== 'boolean') {
+    return { error: 'includeRawData must be a boolean' };
+  }
+
+  // Keep filenames safe for Content-Disposition and every OS
+  const name = typeof filename === 'string'
+    ? filename.trim().replace(/\.(pdf|xlsx|csv)$/i, '').replace(/[^\w\- .]+/g, '_').slice(0, MAX_EXPORT_FILENAME_LENGTH).trim()
+    : '';
+  if (!name) {
+    return { error: 'filename is required' };
+  }
+
+  if (!Array.isArray(entityIds) || !entityIds.every((id) => typeof id === 'string' && UUID_PATTERN.test(id))) {
+    return { error: 'entityIds must be an array of supplier IDs' };
+  }
+  const ids = Array.from(new Set(entityIds as string[]));
+  if (ids.length > MAX_EXPORT_SUPPLIERS) {
+    return { error: `At most ${MAX_EXPORT_SUPPLIERS} suppliers can be exported at once` };
+  }
+  if (context === 'supplier' && ids.length !== 1) {
+    return { error: 'A supplier export needs exactly one supplier' };
+  }
+  if (context === 'comparison' && (ids.length < 2 || ids.length > MAX_COMPARISON_SUPPLIERS)) {
+    return { error: `A comparison export needs 2 to ${MAX_COMPARISON_SUPPLIERS} suppliers` };
+  }
+
+  const available = EXPORT_SECTIONS[context];
+  if (!Array.isArray(sections) || sections.length === 0) {
+    return { error: 'Select at least one section' };
+  }
+  const invalid = sections.find((section) => !isOneOf(available, section));
+  if (invalid !== undefined) {
+    return { error: `Invalid section for a ${context} export: ${String(invalid)}` };
+  }
+
+  return {
+    request: {
+      context,
+      format,
+      filename: name,
+      entityIds: ids,
+      sections: available.filter((section) => sections.includes(section)),
+      dateRange,
+      includeRawData,
+    },
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Document building
+// ══════════════════════════════════════════════════════════════════
+
+const formatDate = (iso: string) => iso.slice(0, 10);
+
+const formatSpend = (supplier: Supplier) => supplier.spendFormatted ?? `$${supplier.spend.toLocaleString('en-US')}`;
+
+const formatLevel = (level: string) => level.replace(/(^|-)(\w)/g, (_, dash: string, c: string) => `${dash}${c.toUpperCase()}`);
+
+function rangeStart(range: ExportDateRange, now: Date): Date {
+  return range === 'all' ? new Date(0) : new Date(now.getTime() - RANGE_DAYS[range] * DAY_MS);
+}
+
+const RANGE_LABELS: Record<ExportDateRange, string> = {
+  all: 'all time',
+  '30d': 'the last 30 days',
+  '90d': 'the last 90 days',
+  '1y': 'the last year',
+};
+
+/**
+ * Factors that may appear in an export. Restricted factors are dropped
+ * entirely - not even their names leave the platform.
+ */
+export function splitFactors(factors: RiskFactorScore[]): { visible: RiskFactorScore[]; omitted: number } {
+  const visible = factors.filter((factor) => factor.tier !== 'restricted');
+  return { visible, omitted: factors.length - visible.length };
+}
+
+function scoreTable(title: string, list: Supplier[]): ExportTable {
+  return {
+    title,
+    columns: ['Supplier', 'Score', 'Previous', 'Level', 'Trend', 'Last updated'],
+    rows: list.map((s) => [
+      s.name,
+      s.srs.level === 'unrated' ? null : s.srs.score,
+      s.srs.previousScore ?? null,
+      formatLevel(s.srs.level),
+      s.srs.trend,
+      formatDate(s.srs.lastUpdated),
+    ]),
+  };
+}
+
+async function historyTable(list: Supplier[], request: ExportRequest, from: Date, to: Date): Promise<ExportTable> {
+  const maxPoints = request.includeRawData ? MAX_HISTORY_POINTS : TREND_POINTS;
+  const histories = await Promise.all(list.map((s) => getRiskScoreHistory(s.id, { from, to, maxPoints })));
+  const multiple = list.length > 1;
+
+  return {
+    title: 'Score History',
+    columns: [...(multiple ? ['Supplier'] : []), 'Date', 'Score', 'Min', 'Max', 'Level', 'Samples'],
+    rows: histories.flatMap((history, i) => history.points.map((point) => [
+      ...(multiple ? [list[i].name] : []),
+      formatDate(point.date),
+      point.score,
+      point.min,
+      point.max,
+      formatLevel(point.level),
+      point.samples,
+    ])),
+    note: histories.some((history) => history.downsampled)
+      ? 'Rows average the scores recorded in each period.'
+      : undefined,
+  };
+}
+
+async function changesTable(list: Supplier[], from: Date, title: string): Promise<ExportTable> {
+  const db = getDb();
+  const names = new Map(list.map((s) => [s.id, s.name]));
+  const changes = list.length === 0 ? [] : await db
+    .select()
+    .from(riskChanges)
+    .where(and(inArray(riskChanges.supplierId, list.map((s) => s.id)), gte(riskChanges.changeDate, from)))
+    .orderBy(desc(riskChanges.changeDate))
+    .limit(MAX_HISTORY_POINTS);
+  const multiple = list.length > 1;
+
+  return {
+    title,
+    columns: ['Date', ...(multiple ? ['Supplier'] : []), 'Previous', 'Current', 'Level', 'Direction', 'Reason'],
+    rows: changes.map((change) => [
+      formatDate(change.changeDate.toISOString()),
+      ...(multiple ? [names.get(change.supplierId) ?? ''] : []),
+      change.previousScore,
+      change.currentScore,
+      formatLevel(change.currentLevel),
+      change.direction,
+      change.changeReason ?? '',
+    ]),
+  };
+}
+
+function factorCell(factor: RiskFactorScore | undefined): SpreadsheetCell {
+  if (!factor) return null;
+  return factor.score ?? factor.rating ?? null;
+}
+
+async function buildSupplierTables(supplier: Supplier, request: ExportRequest, from: Date, now: Date) {
+  const tables: ExportTable[] = [];
+  const { visible, omitted } = splitFactors(supplier.srs.factors);
+
+  for (const section of request.sections) {
+    if (section === 'summary') {
+      tables.push({
+        title: 'Summary',
+        columns: ['Field', 'Value'],
+        rows: [
+          ['Supplier', supplier.name],
+          ['DUNS', supplier.duns ?? ''],
+          ['Category', supplier.category],
+          ['Industry', supplier.industry ?? ''],
+          ['Location', [supplier.location.city, supplier.location.country].filter(Boolean).join(', ')],
+          ['Region', supplier.location.region],
+          ['Spend', formatSpend(supplier)],
+          ['Criticality', supplier.criticality],
+          ['Risk score', supplier.srs.level === 'unrated' ? 'Unrated' : supplier.srs.score],
+          ['Risk level', formatLevel(supplier.srs.level)],
+          ['Trend', supplier.srs.trend],
+          ['Last updated', formatDate(supplier.srs.lastUpdated)],
+        ],
+      });
+    } else if (section === 'risk_scores') {
+      tables.push(scoreTable('Risk Score', [supplier]));
+    } else if (section === 'trends') {
+      tables.push(await historyTable([supplier], request, from, now));
+    } else if (section === 'factors') {
+      tables.push({
+        title: 'Risk Factors',
+        columns: ['Factor', 'Tier', 'Weight', 'Score', 'Rating'],
+        rows: visible.map((factor) => [factor.name, factor.tier, factor.weight, factor.score ?? null, factor.rating ?? '']),
+        note: omitted > 0 ? RESTRICTED_NOTE : undefined,
+      });
+    } else if (section === 'events') {
+      tables.push(await changesTable([supplier], from, 'Recent Events'));
+    }
+  }
+
+  return { tables, omittedFactorCount: request.sections.includes('factors') ? omitted : 0 };
+}
+
+async function buildPortfolioTables(list: Supplier[], request: ExportRequest, from: Date) {
+  const tables: ExportTable[] = [];
+  const totalSpend = list.reduce((sum, s) => sum + s.spend, 0);
+  const rated = list.filter((s) => s.srs.level !== 'unrated');
+  const levels = ['high', 'medium-high', 'medium', 'low', 'unrated'];
+
+  for (const section of request.sections) {
+    if (section === 'summary') {
+      tables.push({
+        title: 'Summary',
+        columns: ['Metric', 'Value'],
+        rows: [
+          ['Suppliers', list.length],
+          ['Total spend', `$${totalSpend.toLocaleString('en-US')}`],
+          ['Rated suppliers', rated.length],
+          ['Average risk score', rated.length ? Math.round(rated.reduce((sum, s) => sum + s.srs.score, 0) / rated.length) : null],
+          ['High or medium-high risk', list.filter((s) => s.srs.level === 'high' || s.srs.level === 'medium-high').length],
+        ],
+      });
+    } else if (section === 'risk_scores') {
+      tables.push(scoreTable('Risk Scores', [...list].sort((a, b) => b.srs.score - a.srs.score)));
+    } else if (section === 'trends') {
+      tables.push(await changesTable(list, from, 'Risk Changes'));
+    } else if (section === 'distribution') {
+      tables.push({
+        title: 'Risk Distribution',
+        columns: ['Risk level', 'Suppliers', 'Spend', 'Share of spend'],
+        rows: levels.map((level) => {
+          const inLevel = list.filter((s) => s.srs.level === level);
+          const spend = inLevel.reduce((sum, s) => sum + s.spend, 0);
+          return [
+            formatLevel(level),
+            inLevel.length,
+            spend,
+            totalSpend > 0 ? `${Math.round((spend / totalSpend) * 100)}%` : '0%',
+          ];
+        }),
+      });
+    } else if (section === 'supplier_list') {
+      tables.push({
+        title: 'Supplier List',
+        columns: ['Supplier', 'DUNS', 'Category', 'Country', 'Region', 'Spend', 'Criticality', 'Score', 'Level'],
+        rows: list.map((s) => [
+          s.name,
+          s.duns ?? '',
+          s.category,
+          s.location.country,
+          s.location.region,
+          s.spend,
+          s.criticality,
+          s.srs.level === 'unrated' ? null : s.srs.score,
+          formatLevel(s.srs.level),
+        ]),
+      });
+    }
+  }
+
+  // Portfolio exports never list individual factors
+  return { tables, omittedFactorCount: 0 };
+}
+
+async function buildComparisonTables(list: Supplier[], request: ExportRequest, from: Date, now: Date) {
+  const tables: ExportTable[] = [];
+  const split = list.map((s) => splitFactors(s.srs.factors));
+
+  for (const section of request.sections) {
+    if (section === 'summary') {
+      tables.push({
+        title: 'Summary',
+        columns: ['Field', ...list.map((s) => s.name)],
+        rows: [
+          ['Category', ...list.map((s) => s.category)],
+          ['Country', ...list.map((s) => s.location.country)],
+          ['Spend', ...list.map(formatSpend)],
+          ['Criticality', ...list.map((s) => s.criticality)],
+          ['Risk level', ...list.map((s) => formatLevel(s.srs.level))],
+        ],
+      });
+    } else if (section === 'risk_scores') {
+      tables.push(scoreTable('Risk Scores', list));
+    } else if (section === 'trends') {
+      tables.push(await historyTable(list, request, from, now));
+    } else if (section === 'factors') {
+      // One row per visible factor any supplier has, in first-seen order
+      const factorIds = Array.from(new Set(split.flatMap(({ visible }) => visible.map((factor) => factor.id))));
+      tables.push({
+        title: 'Risk Factors',
+        columns: ['Factor', ...list.map((s) => s.name)],
+        rows: factorIds.map((id) => {
+          const factors = split.map(({ visible }) => visible.find((factor) => factor.id === id));
+          return [factors.find(Boolean)?.name ?? id, ...factors.map(factorCell)];
+        }),
+        note: split.some(({ omitted }) => omitted > 0) ? RESTRICTED_NOTE : undefined,
+      });
+    }
+  }
+
+  return {
+    tables,
+    omittedFactorCount: request.sections.includes('factors')
+      ? split.reduce((sum, { omitted }) => sum + omitted, 0)
+      : 0,
+  };
+}
+
+/**
+ * Load the suppliers behind a request and lay its sections out as tables.
+ * Throws 'Supplier not found' or 'No suppliers to export' for bad input.
+ */
+export async function buildExportDocument(
+  userId: string,
+  request: ExportRequest,
+  now: Date = new Date()
+): Promise<{ document: ExportDocument; omittedFactorCount: number }> {
+  const db = getDb();
+  const from = rangeStart(request.dateRange, now);
+
+  const [found, entitlements] = await Promise.all([
+    request.context === 'portfolio' && request.entityIds.length === 0
+      ? getPortfolioSuppliers(db, userId)
+      : getSuppliersByIds(db, request.entityIds),
+    getDataEntitlements(userId),
+  ]);
+  const list = redactSuppliers(found, entitlements);
+
+  if (request.context !== 'portfolio' && list.length !== request.entityIds.length) {
+    throw new Error('Supplier not found');
+  }
+  if (list.length === 0) {
+    throw new Error('No suppliers to export');
+  }
+
+  const built = request.context === 'supplier'
+    ? await buildSupplierTables(list[0], request, from, now)
+    : request.context === 'comparison'
+      ? await buildComparisonTables(list, request, from, now)
+      : await buildPortfolioTables(list, request, from);
+
+  const title = request.context === 'supplier'
+    ? `${list[0].name} - Supplier Risk Report`
+    : request.context === 'comparison'
+      ? `Supplier Comparison: ${list.map((s) => s.name).join(' vs ')}`
+      : `Portfolio Risk Report (${list.length} suppliers)`;
+
+  return {
+    document: {
+      title,
+      subtitle: `Generated ${formatDate(now.toISOString())} - covering ${RANGE_LABELS[request.dateRange]}`,
+      tables: built.tables,
+    },
+    omittedFactorCount: built.omittedFactorCount,
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Rendering
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * CSV stacks the tables with a title row each; XLSX puts each on its own sheet
+ */
+export function renderExport(document: ExportDocument, format: ExportFormat): Buffer {
+  if (format === 'pdf') {
+    return writePdf(document);
+  }
+
+  if (format === 'xlsx') {
+    return writeXlsx(document.tables.map((table) => ({
+      name: table.title,
+      rows: [table.columns, ...table.rows, ...(table.note ? [[], [table.note]] : [])],
+    })));
+  }
+
+  const rows: SpreadsheetCell[][] = [[document.title], [document.subtitle]];
+  for (const table of document.tables) {
+    rows.push([], [table.title], table.columns, ...table.rows);
+    if (table.note) rows.push([table.note]);
+  }
+  return writeCsv(rows);
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Jobs
+// ══════════════════════════════════════════════════════════════════
+
+// Input problems the caller can fix; these are not recorded as failed jobs
+const EXPORT_INPUT_ERRORS = ['Supplier not found', 'No suppliers to export'];
+
+type ExportJobRow = Omit<DbExportJob, 'content' | 'userId'>;
+
+const jobColumns = {
+  id: exportJobs.id,
+  context: exportJobs.context,
+  format: exportJobs.format,
+  filename: exportJobs.filename,
+  request: exportJobs.request,
+  status: exportJobs.status,
+  error: exportJobs.error,
+  byteSize: exportJobs.byteSize,
+  rowCount: exportJobs.rowCount,
+  omittedFactorCount: exportJobs.omittedFactorCount,
+  createdAt: exportJobs.createdAt,
+  expiresAt: exportJobs.expiresAt,
+};
+
+export function toExportJob(row: ExportJobRow, now: Date = new Date()): ExportJob {
+  const available = row.status === 'completed' && row.expiresAt > now;
+  return {
+    id: row.id,
+    context: row.request.context,
+    format: row.request.format,
+    filename: row.filename,
+    entityIds: row.request.entityIds,
+    sections: row.request.sections as ExportSectionId[],
+    dateRange: row.request.dateRange,
+    status: row.status as ExportJob['status'],
+    error: row.error,
+    byteSize: row.byteSize,
+    rowCount: row.rowCount,
+    omittedFactorCount: row.omittedFactorCount,
+    createdAt: row.createdAt.toISOString(),
+    expiresAt: row.expiresAt.toISOString(),
+    downloadUrl: available ? `/api/exports/${row.id}` : null,
+  };
+}
+
+/**
+ * Render an export and record it. Rendering failures are recorded as failed
+ * jobs before being rethrown, so they show up in the export history.
+ */
+export async function createExportJob(userId: string, request: ExportRequest): Promise<ExportJob> {
+  const db = getDb();
+  const now = new Date();
+  const base = {
+    userId,
+    context: request.context,
+    format: request.format,
+    filename: `${request.filename}.${request.format}`,
+    request,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + EXPORT_RETENTION_DAYS * DAY_MS),
+  };
+
+  let values: typeof exportJobs.$inferInsert;
+  let failure: unknown = null;
+
+  try {
+    const { document, omittedFactorCount } = await buildExportDocument(userId, request, now);
+    const file = renderExport(document, request.format);
+    values = {
+      ...base,
+      status: 'completed',
+      content: file.toString('base64'),
+      byteSize: file.length,
+      rowCount: document.tables.reduce((sum, table) => sum + table.rows.length, 0),
+      omittedFactorCount,
+    };
+  } catch (error) {
+    if (error instanceof Error && EXPORT_INPUT_ERRORS.includes(error.message)) {
+      throw error;
+    }
+    failure = error;
+    values = {
+      ...base,
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+
+  const [row] = await db.insert(exportJobs).values(values).returning(jobColumns);
+
+  if (failure) {
+    throw failure;
+  }
+  return toExportJob(row, now);
+}
+
+export async function listExportJobs(userId: string, limit = 20): Promise<ExportJob[]> {
+  const db = getDb();
+  const rows = await db
+    .select(jobColumns)
+    .from(exportJobs)
+    .where(eq(exportJobs.userId, userId))
+    .orderBy(desc(exportJobs.createdAt))
+    .limit(limit);
+
+  const now = new Date();
+  return rows.map((row) => toExportJob(row, now));
+}
+
+/**
+ * The stored file for one of the user's jobs. Returns null when the job
+ * doesn't exist; throws 'Export has expired' or 'Export failed'.
+ */
+export async function getExportFile(
+  userId: string,
+  jobId: string
+): Promise<{ filename: string; contentType: string; body: Buffer } | null> {
+  const db = getDb();
+  const [job] = await db
+    .select({
+      filename: exportJobs.filename,
+      format: exportJobs.format,
+      status: exportJobs.status,
+      content: exportJobs.content,
+      expiresAt: exportJobs.expiresAt,
+    })
+    .from(exportJobs)
+    .where(and(eq(exportJobs.id, jobId), eq(exportJobs.userId, userId)))
+    .limit(1);
+
+  if (!job) {
+    return null;
+  }
+  if (job.status !== 'completed' || !job.content) {
+    throw new Error('Export failed');
+  }
+  if (job.expiresAt <= new Date()) {
+    throw new Error('Export has expired');
+  }
+
+  return {
+    filename: job.filename,
+    contentType: EXPORT_CONTENT_TYPES[job.format as ExportFormat],
+    body: Buffer.from(job.content, 'base64'),
+  };
+}
@@ -0,0 +1,430 @@
+// LLM Middleware - Provider adapters, token quotas and usage logging for the /api/llm gateway
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { and, eq, gte, or, sql } from 'drizzle-orm';
+import { llmUsage } from '../../src/db/schema.js';
+
+const getDb = () => {
+  const client = neon(process.env.DATABASE_URL!);
+  return drizzle(client);
+};
+
+// ══════════════════════════════════════════════════════════════════
+// Types
+// ══════════════════════════════════════════════════════════════════
+
+export type LlmProviderName = 'gemini' | 'perplexity' | 'deepseek';
+
+export const LLM_PROVIDERS: LlmProviderName[] = ['gemini', 'perplexity', 'deepseek'];
+
+export interface LlmCall {
+  model: string;
+  payload: Record<string, unknown>;
+  stream: boolean;
+  signal?: AbortSignal;
+}
+
+export interface LlmTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * A provider takes the provider-native request body and returns the
+ * provider-native response, so client parsing code stays unchanged.
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  isConfigured(): boolean;
+  send(call: LlmCall): Promise<Response>;
+  /** Token usage from a JSON response body or a single SSE event */
+  extractUsage(body: unknown): LlmTokenUsage | null;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Usage Parsing
+// ══════════════════════════════════════════════════════════════════
+
+interface OpenAiStyleUsage {
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+interface GeminiStyleUsage {
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+}
+
+function extractOpenAiUsage(body: unknown): LlmTokenUsage | null {
+  const usage = (body as OpenAiStyleUsage | null)?.usage;
+  if (!usage) return null;
+
+  const promptTokens = usage.prompt_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? 0;
+  return { promptTokens, completionTokens, totalTokens: usage.total_tokens ?? promptTokens + completionTokens };
+}
+
+function extractGeminiUsage(body: unknown): LlmTokenUsage | null {
+  const usage = (body as GeminiStyleUsage | null)?.usageMetadata;
+  if (!usage) return null;
+
+  const promptTokens = usage.promptTokenCount ?? 0;
+  const completionTokens = usage.candidatesTokenCount ?? 0;
+  return { promptTokens, completionTokens, totalTokens: usage.totalTokenCount ?? promptTokens + completionTokens };
+}
+
+/**
+ * Rough count (~4 characters per token) for calls where the provider reported nothing,
+ * e.g. a stream the client abandoned. Keeps aborted calls from bypassing quotas.
+ */
+export function estimateTokenUsage(promptChars: number, completionChars: number): LlmTokenUsage {
+  const promptTokens = Math.ceil(promptChars / 4);
+  const completionTokens = Math.ceil(completionChars / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+/**
+ * Scans server-sent events as they pass through the gateway and keeps the
+ * latest usage report. Providers send cumulative usage, so the last one wins.
+ */
+export class SseUsageTracker {
+  private buffer = '';
+  private latest: LlmTokenUsage | null = null;
+  chars = 0;
+
+  constructor(private readonly provider: LlmProvider) {}
+
+  push(text: string): void {
+    this.chars += text.length;
+    this.buffer += text;
+
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      this.readLine(line);
+    }
+  }
+
+  finish(): LlmTokenUsage | null {
+    if (this.buffer) {
+      this.readLine(this.buffer);
+      this.buffer = '';
+    }
+    return this.latest;
+  }
+
+  private readLine(line: string): void {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) return;
+
+    const data = trimmed.slice(5).trim();
+    if (!data || data === '[DONE]') return;
+
+    try {
+      const usage = this.provider.extractUsage(JSON.parse(data));
+      if (usage) {
+        this.latest = usage;
+      }
+    } catch {
+      // Not JSON - nothing to count
+    }
+  }
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Providers
+// ══════════════════════════════════════════════════════════════════
+
+export class GeminiProvider implements LlmProvider {
+  readonly name = 'gemini' as const;
+
+  isConfigured(): boolean {
+    return Boolean(process.env.GOOGLE_AI_API_KEY);
+  }
+
+  send({ model, payload, stream, signal }: LlmCall): Promise<Response> {
+    const method = stream ? 'streamGenerateContent?alt=sse' : 'generateContent';
+    return fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': process.env.GOOGLE_AI_API_KEY!,
+      },
+      body: JSON.stringify(payload),
+      signal,
+    });
+  }
+
+  extractUsage(body: unknown): LlmTokenUsage | null {
+    return extractGeminiUsage(body);
+  }
+}
+
+/**
+ * Perplexity and DeepSeek both expose OpenAI-style chat completions
+ */
+export class ChatCompletionsProvider implements LlmProvider {
+  constructor(
+    readonly name: 'perplexity' | 'deepseek',
+    private readonly url: string,
+    private readonly apiKeyEnv: string
+  ) {}
+
+  isConfigured(): boolean {
+    return Boolean(process.env[this.apiKeyEnv]);
+  }
+
+  send({ model, payload, stream, signal }: LlmCall): Promise<Response> {
+    return fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env[this.apiKeyEnv]}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        ...payload,
+        model,
+        stream,
+        // Ask for a final usage chunk so streamed calls are metered accurately
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+      }),
+      signal,
+    });
+  }
+
+  extractUsage(body: unknown): LlmTokenUsage | null {
+    return extractOpenAiUsage(body);
+  }
+}
+
+/**
+ * Offline provider for tests and local development (LLM_PROVIDER=mock).
+ * Answers in the shape of the provider it stands in for.
+ */
+export class MockLlmProvider implements LlmProvider {
+  constructor(
+    readonly name: LlmProviderName,
+    private readonly respond: (call: LlmCall) => string = (call) => `Mock ${this.name} response (${call.model})`
+  ) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(call: LlmCall): Promise<Response> {
+    const text = this.respond(call);
+    const usage = estimateTokenUsage(JSON.stringify(call.payload).length, text.length);
+
+    if (!call.stream) {
+      return new Response(JSON.stringify(this.buildBody(text, usage, false)), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // One event per word, usage on the last event
+    const words = text.split(/(?<=\s)/);
+    const events = words.map((word, i) =>
+      `data: ${JSON.stringify(this.buildBody(word, i === words.length - 1 ? usage : null, true))}\n\n`
+    );
+    if (this.name !== 'gemini') {
+      events.push('data: [DONE]\n\n');
+    }
+
+    return new Response(events.join(''), {
+      status: 200,
+      headers: { 'Content-Type': 'text/event-stream' },
+    });
+  }
+
+  extractUsage(body: unknown): LlmTokenUsage | null {
+    return this.name === 'gemini' ? extractGeminiUsage(body) : extractOpenAiUsage(body);
+  }
+
+  private buildBody(text: string, usage: LlmTokenUsage | null, delta: boolean): Record<string, unknown> {
+    if (this.name === 'gemini') {
+      return {
+        candidates: [{ content: { role: 'model', parts: [{ text }] } }],
+        ...(usage ? {
+          usageMetadata: {
+            promptTokenCount: usage.promptTokens,
+            candidatesTokenCount: usage.completionTokens,
+            totalTokenCount: usage.totalTokens,
+          },
+        } : {}),
+      };
+    }
+
+    return {
+      choices: [delta
+        ? { index: 0, delta: { content: text } }
+        : { index: 0, message: { role: 'assistant', content: text } }],
+      ...(usage ? {
+        usage: {
+          prompt_tokens: usage.promptTokens,
+          completion_tokens: usage.completionTokens,
+          total_tokens: usage.totalTokens,
+        },
+      } : {}),
+    };
+  }
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Provider Selection
+// ══════════════════════════════════════════════════════════════════
+
+const overrides: Partial<Record<LlmProviderName, LlmProvider>> = {};
+
+function createProvider(name: LlmProviderName): LlmProvider {
+  if (process.env.LLM_PROVIDER === 'mock') {
+    return new MockLlmProvider(name);
+  }
+
+  switch (name) {
+    case 'gemini':
+      return new GeminiProvider();
+    case 'perplexity':
+      return new ChatCompletionsProvider('perplexity', 'https://api.perplexity.ai/chat/completions', 'PERPLEXITY_API_KEY');
+    case 'deepseek':
+      return new ChatCompletionsProvider('deepseek', 'https://api.deepseek.com/chat/completions', 'DEEPSEEK_API_KEY');
+  }
+}
+
+/**
+ * Real provider, or the mock for every provider when LLM_PROVIDER=mock
+ */
+export function getLlmProvider(name: LlmProviderName): LlmProvider {
+  return overrides[name] ?? createProvider(name);
+}
+
+/**
+ * Override a provider (tests, scripts); pass null to restore the default
+ */
+export function setLlmProvider(name: LlmProviderName, provider: LlmProvider | null): void {
+  if (provider) {
+    overrides[name] = provider;
+  } else {
+    delete overrides[name];
+  }
+}
+
+export function isLlmProviderName(value: unknown): value is LlmProviderName {
+  return typeof value === 'string' && (LLM_PROVIDERS as string[]).includes(value);
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Quotas
+// ══════════════════════════════════════════════════════════════════
+
+export interface LlmQuotaLimits {
+  userDailyTokens: number;
+  companyDailyTokens: number;
+}
+
+export interface LlmUsageTotals {
+  user: number;
+  company: number | null; // null when the user has no organization
+}
+
+export interface LlmQuotaResult {
+  allowed: boolean;
+  scope?: 'user' | 'company';
+  used?: number;
+  limit?: number;
+  resetAt: Date;
+}
+
+export function getLlmQuotaLimits(): LlmQuotaLimits {
+  return {
+    userDailyTokens: Number(process.env.LLM_USER_DAILY_TOKENS) || 200_000,
+    companyDailyTokens: Number(process.env.LLM_COMPANY_DAILY_TOKENS) || 2_000_000,
+  };
+}
+
+/**
+ * Quotas reset at midnight UTC
+ */
+export function getQuotaWindowStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+/**
+ * A call is allowed while both the user and their company are under today's limit.
+ * The call that crosses a limit completes; the next one is refused.
+ */
+export function evaluateLlmQuota(
+  totals: LlmUsageTotals,
+  limits: LlmQuotaLimits,
+  now: Date = new Date()
+): LlmQuotaResult {
+  const resetAt = new Date(getQuotaWindowStart(now).getTime() + 24 * 60 * 60 * 1000);
+
+  if (totals.user >= limits.userDailyTokens) {
+    return { allowed: false, scope: 'user', used: totals.user, limit: limits.userDailyTokens, resetAt };
+  }
+  if (totals.company !== null && totals.company >= limits.companyDailyTokens) {
+    return { allowed: false, scope: 'company', used: totals.company, limit: limits.companyDailyTokens, resetAt };
+  }
+  return { allowed: true, resetAt };
+}
+
+/**
+ * Tokens used today by the user and by their whole company
+ */
+export async function getLlmUsageTotals(userId: string, companyId: string | null): Promise<LlmUsageTotals> {
+  const db = getDb();
+  const since = getQuotaWindowStart();
+
+  const [row] = await db
+    .select({
+      user: sql<string>`coalesce(sum(${llmUsage.totalTokens}) filter (where ${llmUsage.userId} = ${userId}), 0)`,
+      company: companyId
+        ? sql<string>`coalesce(sum(${llmUsage.totalTokens}) filter (where ${llmUsage.companyId} = ${companyId}), 0)`
+        : sql<null>`null`,
+    })
+    .from(llmUsage)
+    .where(and(
+      gte(llmUsage.createdAt, since),
+      companyId ? or(eq(llmUsage.userId, userId), eq(llmUsage.companyId, companyId)) : eq(llmUsage.userId, userId)
+    ));
+
+  return {
+    user: Number(row?.user ?? 0),
+    company: companyId ? Number(row?.company ?? 0) : null,
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Usage Logging
+// ══════════════════════════════════════════════════════════════════
+
+export interface LlmUsageRecord {
+  userId: string;
+  companyId: string | null;
+  provider: LlmProviderName;
+  model: string;
+  stream: boolean;
+  status: 'success' | 'error';
+  usage: LlmTokenUsage;
+  estimated: boolean;
+  latencyMs: number;
+}
+
+export async function recordLlmUsage(record: LlmUsageRecord): Promise<void> {
+  const db = getDb();
+
+  await db.insert(llmUsage).values({
+    userId: record.userId,
+    companyId: record.companyId,
+    provider: record.provider,
+    model: record.model,
+    stream: record.stream,
+    status: record.status,
+    promptTokens: record.usage.promptTokens,
+    completionTokens: record.usage.completionTokens,
+    totalTokens: record.usage.totalTokens,
+    estimated: record.estimated,
+    latencyMs: record.latencyMs,
+  });
+}
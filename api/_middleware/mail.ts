@@ -0,0 +1,149 @@
+// Mail Middleware - Pluggable transport for transactional email
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// ══════════════════════════════════════════════════════════════════
+// Types
+// ══════════════════════════════════════════════════════════════════
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export type MailTransportName = 'console' | 'file' | 'resend';
+
+const DEFAULT_FROM = 'Beroe <no-reply@beroe.app>';
+
+// ══════════════════════════════════════════════════════════════════
+// Transports
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Development transport - prints the message, including any links, to the server log
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Development transport - writes one JSON file per message to a local outbox
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-z0-9@._-]/gi, '_');
+    const file = path.join(this.directory, `${Date.now()}-${safeRecipient}.json`);
+    await fs.writeFile(file, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+  }
+}
+
+/**
+ * Production transport - Resend HTTP API
+ */
+export class ResendMailTransport implements MailTransport {
+  constructor(
+    private readonly apiKey: string,
+    private readonly from: string = DEFAULT_FROM
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mail delivery failed: ${response.status}`);
+    }
+  }
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Transport Selection
+// ══════════════════════════════════════════════════════════════════
+
+let transport: MailTransport | null = null;
+
+/**
+ * Transport from MAIL_TRANSPORT (console | file | resend); console by default
+ */
+export function getMailTransport(): MailTransport {
+  if (transport) {
+    return transport;
+  }
+
+  const name = (process.env.MAIL_TRANSPORT || 'console') as MailTransportName;
+
+  if (name === 'resend') {
+    if (!process.env.RESEND_API_KEY) {
+      throw new Error('RESEND_API_KEY is required for the resend mail transport');
+    }
+    transport = new ResendMailTransport(process.env.RESEND_API_KEY, process.env.MAIL_FROM || DEFAULT_FROM);
+  } else if (name === 'file') {
+    transport = new FileMailTransport(process.env.MAIL_OUTBOX_DIR || '.mail-outbox');
+  } else {
+    transport = new ConsoleMailTransport();
+  }
+
+  return transport;
+}
+
+/**
+ * Override the transport (tests, scripts)
+ */
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Templates
+// ══════════════════════════════════════════════════════════════════
+
+export function getAppUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:5173').replace(/\/$/, '');
+}
+
+export function buildVerificationEmail(to: string, token: string): MailMessage {
+  const link = `${getAppUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+  return {
+    to,
+    subject: 'Verify your email address',
+    text: `Confirm your email address to finish setting up your account:\n\n${link}\n\nThis link expires in 24 hours.`,
+    html: `<p>Confirm your email address to finish setting up your account:</p><p><a href="${link}">Verify email</a></p><p>This link expires in 24 hours.</p>`,
+  };
+}
+
+export function buildPasswordResetEmail(to: string, token: string): MailMessage {
+  const link = `${getAppUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+  return {
+    to,
+    subject: 'Reset your password',
+    text: `Someone asked to reset the password for this account. If it was you, choose a new password here:\n\n${link}\n\nThis link expires in 1 hour. If you did not ask for this, you can ignore this email.`,
+    html: `<p>Someone asked to reset the password for this account. If it was you, choose a new password here:</p><p><a href="${link}">Reset password</a></p><p>This link expires in 1 hour. If you did not ask for this, you can ignore this email.</p>`,
+  };
+}
@@ -0,0 +1,201 @@
+// Notifications Middleware - In-app notification center storage and producers
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { eq, and, isNull, lt, desc, count, max } from 'drizzle-orm';
+import { notifications } from '../../src/db/schema.js';
+import type { Notification } from '../../src/db/schema.js';
+import type {
+  AppNotification,
+  NotificationAction,
+  NotificationMetadata,
+  NotificationType,
+  NotificationUnreadStatus,
+} from '../../src/types/notifications.js';
+
+const getDb = () => {
+  const client = neon(process.env.DATABASE_URL!);
+  return drizzle(client);
+};
+
+export const NOTIFICATION_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+
+export interface NewNotificationInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  description: string;
+  metadata?: NotificationMetadata;
+  action?: NotificationAction;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Producers
+// ══════════════════════════════════════════════════════════════════
+
+export async function createNotification(input: NewNotificationInput): Promise<Notification> {
+  const db = getDb();
+
+  const [notification] = await db
+    .insert(notifications)
+    .values({
+      userId: input.userId,
+      type: input.type,
+      title: input.title,
+      description: input.description,
+      metadata: input.metadata ?? {},
+      action: input.action ?? null,
+    })
+    .returning();
+
+  return notification;
+}
+
+/**
+ * Best-effort variant for side effects of other operations - a failed
+ * notification must never fail the approval, alert or answer that caused it.
+ */
+export async function notifyUser(input: NewNotificationInput): Promise<void> {
+  try {
+    await createNotification(input);
+  } catch (err) {
+    console.error(`Failed to create ${input.type} notification for ${input.userId}:`, err);
+  }
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Queries
+// ══════════════════════════════════════════════════════════════════
+
+export function toAppNotification(row: Notification): AppNotification {
+  return {
+    id: row.id,
+    type: row.type as NotificationType,
+    title: row.title,
+    description: row.description,
+    timestamp: row.createdAt.toISOString(),
+    isRead: row.readAt !== null,
+    metadata: row.metadata && Object.keys(row.metadata).length > 0 ? row.metadata : undefined,
+    action: row.action ?? undefined,
+  };
+}
+
+/**
+ * Newest first, excluding dismissed. Page with `before` (createdAt of the last item).
+ */
+export async function listNotifications(
+  userId: string,
+  options: { limit?: number; before?: Date; unreadOnly?: boolean } = {}
+): Promise<AppNotification[]> {
+  const db = getDb();
+  const limit = Math.min(Math.max(options.limit ?? NOTIFICATION_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const conditions = [eq(notifications.userId, userId), isNull(notifications.dismissedAt)];
+  if (options.before) {
+    conditions.push(lt(notifications.createdAt, options.before));
+  }
+  if (options.unreadOnly) {
+    conditions.push(isNull(notifications.readAt));
+  }
+
+  const rows = await db
+    .select()
+    .from(notifications)
+    .where(and(...conditions))
+    .orderBy(desc(notifications.createdAt))
+    .limit(limit);
+
+  return rows.map(toAppNotification);
+}
+
+/**
+ * Cheap status for the header bell to poll
+ */
+export async function getUnreadStatus(userId: string): Promise<NotificationUnreadStatus> {
+  const db = getDb();
+  const visible = and(eq(notifications.userId, userId), isNull(notifications.dismissedAt));
+
+  const [unread] = await db
+    .select({ total: count() })
+    .from(notifications)
+    .where(and(visible, isNull(notifications.readAt)));
+
+  const [latest] = await db
+    .select({ latestAt: max(notifications.createdAt) })
+    .from(notifications)
+    .where(visible);
+
+  return {
+    unreadCount: Number(unread?.total ?? 0),
+    latestAt: latest?.latestAt ? new Date(latest.latestAt).toISOString() : null,
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Updates
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Returns false if the notification is not the user's (or was dismissed)
+ */
+export async function setNotificationRead(userId: string, notificationId: string, isRead: boolean): Promise<boolean> {
+  const db = getDb();
+
+  const updated = await db
+    .update(notifications)
+    .set({ readAt: isRead ? new Date() : null })
+    .where(and(
+      eq(notifications.id, notificationId),
+      eq(notifications.userId, userId),
+      isNull(notifications.dismissedAt)
+    ))
+    .returning({ id: notifications.id });
+
+  return updated.length > 0;
+}
+
+export async function markAllNotificationsRead(userId: string): Promise<number> {
+  const db = getDb();
+
+  const updated = await db
+    .update(notifications)
+    .set({ readAt: new Date() })
+    .where(and(
+      eq(notifications.userId, userId),
+      isNull(notifications.readAt),
+      isNull(notifications.dismissedAt)
+    ))
+    .returning({ id: notifications.id });
+
+  return updated.length;
+}
+
+/**
+ * Hide a notification from the drawer. Dismissing also marks it read so it
+ * stops counting towards the bell.
+ */
+export async function dismissNotification(userId: string, notificationId: string): Promise<boolean> {
+  const db = getDb();
+  const now = new Date();
+
+  const [existing] = await db
+    .select({ readAt: notifications.readAt })
+    .from(notifications)
+    .where(and(
+      eq(notifications.id, notificationId),
+      eq(notifications.userId, userId),
+      isNull(notifications.dismissedAt)
+    ))
+    .limit(1);
+
+  if (!existing) {
+    return false;
+  }
+
+  await db
+    .update(notifications)
+    .set({ dismissedAt: now, readAt: existing.readAt ?? now })
+    .where(eq(notifications.id, notificationId));
+
+  return true;
+}
@@ -17,6 +17,7 @@ import type {
 } from '../../src/db/schema.js';
 import type { AuthContext, AuthRequest } from './auth.js';
 import { withAuthenticated, getAuthContext, validateCsrf } from './auth.js';
+import { requestSessionRotation } from './sessions.js';
 
 // ══════════════════════════════════════════════════════════════════
 // Types
@@ -225,3 +226,29 @@ export async function getCompanyTeams(companyId: string): Promise<Team[]> {
 
   return result;
 }
+
+/**
+ * Change a member's role on a team. Role changes alter privileges, so the
+ * member's session tokens are reissued on their next request.
+ * Returns null when the user is not on the team.
+ */
+export async function updateTeamMemberRole(
+  teamId: string,
+  userId: string,
+  role: OrgRole
+): Promise<TeamMembership | null> {
+  const db = getDb();
+
+  const [updated] = await db
+    .update(teamMemberships)
+    .set({ role })
+    .where(and(eq(teamMemberships.teamId, teamId), eq(teamMemberships.userId, userId)))
+    .returning();
+
+  if (!updated) {
+    return null;
+  }
+
+  await requestSessionRotation(userId);
+  return updated;
+}
@@ -0,0 +1,254 @@
+// PDF Middleware - Writing simple paginated table documents with the standard Helvetica fonts
+import { deflateSync } from 'zlib';
+
+export type PdfCell = string | number | null;
+
+export interface PdfTable {
+  title: string;
+  columns: string[];
+  rows: PdfCell[][];
+  note?: string;
+}
+
+export interface PdfDocument {
+  title: string;
+  subtitle?: string;
+  tables: PdfTable[];
+}
+
+// A4 landscape, in points
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const TITLE_SIZE = 18;
+const HEADING_SIZE = 12;
+const TEXT_SIZE = 8;
+const ROW_HEIGHT = 14;
+const CELL_PADDING = 4;
+// Average Helvetica glyph width as a fraction of the font size; good enough for truncation
+const CHAR_WIDTH = 0.52;
+
+// ══════════════════════════════════════════════════════════════════
+// Text
+// ══════════════════════════════════════════════════════════════════
+
+const WIN_ANSI_REPLACEMENTS: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"',
+  '–': '-', '—': '-', '…': '...', '→': '->', '•': '-',
+};
+
+/**
+ * The standard fonts only cover Latin-1; map common punctuation and drop the rest
+ */
+function toLatin1(value: string): string {
+  return Array.from(value)
+    .map((char) => WIN_ANSI_REPLACEMENTS[char] ?? (char.charCodeAt(0) <= 0xff ? char : '?'))
+    .join('')
+    .replace(/[\r\n\t]+/g, ' ');
+}
+
+function escapePdfString(value: string): string {
+  return value.replace(/[\\()]/g, '\\$&');
+}
+
+function fitText(value: string, width: number, size: number): string {
+  const maxChars = Math.floor(width / (size * CHAR_WIDTH));
+  if (value.length <= maxChars) return value;
+  return maxChars > 3 ? `${value.slice(0, maxChars - 3)}...` : value.slice(0, Math.max(0, maxChars));
+}
+
+function cellText(cell: PdfCell): string {
+  if (cell === null) return '';
+  return typeof cell === 'number' ? cell.toLocaleString('en-US') : toLatin1(cell);
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Layout
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Share the content width between columns by their longest value, so a
+ * name column gets more room than a score column
+ */
+function columnWidths(table: PdfTable): number[] {
+  const lengths = table.columns.map((column, i) => Math.min(40, Math.max(
+    column.length,
+    ...table.rows.map((row) => cellText(row[i] ?? null).length),
+    4
+  )));
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  return lengths.map((length) => (length / total) * CONTENT_WIDTH);
+}
+
+class PageWriter {
+  pages: string[] = [];
+  private ops: string[] = [];
+  private y = PAGE_HEIGHT - MARGIN;
+
+  constructor() {
+    this.newPage();
+  }
+
+  newPage() {
+    if (this.ops.length > 0) this.pages.push(this.ops.join('\n'));
+    this.ops = [];
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  // Start a new page unless `height` more points fit on this one
+  ensureSpace(height: number): boolean {
+    if (this.y - height < MARGIN) {
+      this.newPage();
+      return true;
+    }
+    return false;
+  }
+
+  text(value: string, x: number, size: number, bold = false, gray = false) {
+    const font = bold ? 'F2' : 'F1';
+    const color = gray ? '0.45 g' : '0 g';
+    this.ops.push(`BT ${color} /${font} ${size} Tf ${x.toFixed(2)} ${this.y.toFixed(2)} Td (${escapePdfString(value)}) Tj ET`);
+  }
+
+  rule(gray: number) {
+    const y = (this.y - 4).toFixed(2);
+    this.ops.push(`${gray} G 0.5 w ${MARGIN} ${y} m ${PAGE_WIDTH - MARGIN} ${y} l S`);
+  }
+
+  advance(height: number) {
+    this.y -= height;
+  }
+
+  finish(): string[] {
+    this.newPage();
+    return this.pages;
+  }
+}
+
+function writeTableHeader(writer: PageWriter, table: PdfTable, widths: number[]) {
+  let x = MARGIN;
+  table.columns.forEach((column, i) => {
+    writer.text(fitText(toLatin1(column), widths[i] - CELL_PADDING, TEXT_SIZE), x, TEXT_SIZE, true);
+    x += widths[i];
+  });
+  writer.rule(0.6);
+  writer.advance(ROW_HEIGHT);
+}
+
+function writeTable(writer: PageWriter, table: PdfTable) {
+  const widths = columnWidths(table);
+
+  // Keep the heading with its header row and first line
+  writer.ensureSpace(HEADING_SIZE + ROW_HEIGHT * 3);
+  writer.text(toLatin1(table.title), MARGIN, HEADING_SIZE, true);
+  writer.advance(HEADING_SIZE + 8);
+  writeTableHeader(writer, table, widths);
+
+  if (table.rows.length === 0) {
+    writer.text('No data for this period', MARGIN, TEXT_SIZE, false, true);
+    writer.advance(ROW_HEIGHT);
+  }
+
+  for (const row of table.rows) {
+    if (writer.ensureSpace(ROW_HEIGHT)) {
+      writeTableHeader(writer, table, widths);
+    }
+    let x = MARGIN;
+    row.forEach((cell, i) => {
+      writer.text(fitText(cellText(cell), widths[i] - CELL_PADDING, TEXT_SIZE), x, TEXT_SIZE);
+      x += widths[i];
+    });
+    writer.rule(0.9);
+    writer.advance(ROW_HEIGHT);
+  }
+
+  if (table.note) {
+    writer.ensureSpace(ROW_HEIGHT);
+    writer.text(fitText(toLatin1(table.note), CONTENT_WIDTH, TEXT_SIZE), MARGIN, TEXT_SIZE, false, true);
+    writer.advance(ROW_HEIGHT);
+  }
+
+  writer.advance(ROW_HEIGHT);
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Document
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Serialize objects 1..n with a cross-reference table. Object 1 is the catalog.
+ */
+function serialize(objects: Buffer[]): Buffer {
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  const offsets: number[] = [];
+  let length = parts[0].length;
+
+  objects.forEach((object, i) => {
+    offsets.push(length);
+    const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`, 'latin1'), object, Buffer.from('\nendobj\n', 'latin1')]);
+    parts.push(chunk);
+    length += chunk.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    'startxref',
+    String(length),
+    '%%EOF',
+  ].join('\n');
+
+  return Buffer.concat([...parts, Buffer.from(`${xref}\n`, 'latin1')]);
+}
+
+/**
+ * Render the document's tables one after another, repeating a table's
+ * header row when it breaks across pages
+ */
+export function writePdf(document: PdfDocument): Buffer {
+  const writer = new PageWriter();
+  writer.text(toLatin1(document.title), MARGIN, TITLE_SIZE, true);
+  writer.advance(TITLE_SIZE + 6);
+  if (document.subtitle) {
+    writer.text(toLatin1(document.subtitle), MARGIN, TEXT_SIZE + 1, false, true);
+    writer.advance(ROW_HEIGHT * 2);
+  }
+  for (const table of document.tables) {
+    writeTable(writer, table);
+  }
+  const pages = writer.finish();
+
+  // 1 catalog, 2 page tree, 3-4 fonts, then a page and content stream per page
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  const objects: Buffer[] = [
+    Buffer.from('<< /Type /Catalog /Pages 2 0 R >>', 'latin1'),
+    Buffer.from(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`, 'latin1'),
+    Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>', 'latin1'),
+    Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>', 'latin1'),
+  ];
+
+  pages.forEach((content, i) => {
+    const footer = `BT 0.45 g /F1 ${TEXT_SIZE} Tf ${PAGE_WIDTH - MARGIN - 40} ${MARGIN / 2} Td (Page ${i + 1} of ${pages.length}) Tj ET`;
+    const stream = deflateSync(Buffer.from(`${content}\n${footer}`, 'latin1'));
+    objects.push(
+      Buffer.from(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+        'latin1'
+      ),
+      Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+        stream,
+        Buffer.from('\nendstream', 'latin1'),
+      ])
+    );
+  });
+
+  return serialize(objects);
+}
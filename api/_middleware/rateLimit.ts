@@ -0,0 +1,150 @@
+// Rate Limit Middleware - Shared sliding-window limits backed by Postgres
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { sql } from 'drizzle-orm';
+import { rateLimitBuckets } from '../../src/db/schema.js';
+import {
+  checkRateLimit,
+  getRateLimitHeaders,
+  MemoryRateLimitStore,
+  RATE_LIMITS,
+  type RateLimitConfig,
+  type RateLimitResult,
+  type RateLimitStore,
+  type RateLimitWindowCounts,
+} from '../../src/services/security.js';
+import type { AuthRequest } from './auth.js';
+
+const getDb = () => {
+  const client = neon(process.env.DATABASE_URL!);
+  return drizzle(client);
+};
+
+// Fraction of requests that also prune expired buckets
+const PRUNE_PROBABILITY = 0.01;
+
+// Buckets older than this can no longer affect any configured window
+const PRUNE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+// ══════════════════════════════════════════════════════════════════
+// Stores
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Counters live in rate_limit_buckets, one row per key per fixed window,
+ * so limits survive cold starts and are shared across instances.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  async increment(key: string, windowStart: number, windowMs: number): Promise<RateLimitWindowCounts> {
+    const db = getDb();
+    const current = new Date(windowStart);
+    const previous = new Date(windowStart - windowMs);
+
+    // Single statement so concurrent hits on the same key never lose an increment
+    const result = await db.execute(sql`
+      WITH hit AS (
+        INSERT INTO ${rateLimitBuckets} (key, window_start, count)
+        VALUES (${key}, ${current.toISOString()}, 1)
+        ON CONFLICT (key, window_start)
+        DO UPDATE SET count = ${rateLimitBuckets}.count + 1
+        RETURNING count
+      )
+      SELECT
+        (SELECT count FROM hit) AS current,
+        COALESCE((
+          SELECT count FROM ${rateLimitBuckets}
+          WHERE key = ${key} AND window_start = ${previous.toISOString()}
+        ), 0) AS previous
+    `);
+
+    if (Math.random() < PRUNE_PROBABILITY) {
+      const cutoff = new Date(Date.now() - PRUNE_AFTER_MS);
+      await db.execute(sql`
+        DELETE FROM ${rateLimitBuckets} WHERE window_start < ${cutoff.toISOString()}
+      `);
+    }
+
+    const row = result.rows[0] as { current: number | string; previous: number | string } | undefined;
+    return {
+      current: Number(row?.current ?? 1),
+      previous: Number(row?.previous ?? 0),
+    };
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Postgres when a database is configured, otherwise process-local memory
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = process.env.DATABASE_URL ? new PostgresRateLimitStore() : new MemoryRateLimitStore();
+  }
+  return store;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Enforcement
+// ══════════════════════════════════════════════════════════════════
+
+export function getClientIp(req: VercelRequest): string {
+  return (req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() || 'unknown';
+}
+
+/**
+ * Count a hit against `key` and set RateLimit-* headers on the response.
+ * Fails open if the store is unavailable so an outage does not block traffic.
+ */
+export async function consumeRateLimit(
+  res: VercelResponse,
+  key: string,
+  config: RateLimitConfig
+): Promise<RateLimitResult> {
+  let result: RateLimitResult;
+  try {
+    result = await checkRateLimit(key, config, getRateLimitStore());
+  } catch (error) {
+    console.error('Rate limit store error:', error);
+    return {
+      allowed: true,
+      limit: config.maxRequests,
+      remaining: config.maxRequests,
+      resetAt: Date.now() + config.windowMs,
+    };
+  }
+
+  for (const [name, value] of Object.entries(getRateLimitHeaders(result, config))) {
+    res.setHeader(name, value);
+  }
+  return result;
+}
+
+/**
+ * Wrap a handler with a named limit from RATE_LIMITS.
+ * Reads are not limited; writes are keyed by user when authenticated, else by IP.
+ */
+export function withRateLimit<T extends VercelRequest>(
+  limit: keyof typeof RATE_LIMITS,
+  handler: (req: T, res: VercelResponse) => Promise<void | VercelResponse>
+): (req: T, res: VercelResponse) => Promise<void | VercelResponse> {
+  return async (req: T, res: VercelResponse) => {
+    if (req.method === 'GET' || req.method === 'HEAD' || req.method === 'OPTIONS') {
+      return handler(req, res);
+    }
+
+    const userId = (req as unknown as Partial<AuthRequest>).auth?.user?.id;
+    const subject = userId ? `user:${userId}` : `ip:${getClientIp(req)}`;
+    const result = await consumeRateLimit(res, `${limit}:${subject}`, RATE_LIMITS[limit]);
+
+    if (!result.allowed) {
+      return res.status(429).json({
+        error: 'Too many requests. Please try again later.',
+        retryAfter: Math.max(0, Math.ceil((result.resetAt - Date.now()) / 1000)),
+      });
+    }
+
+    return handler(req, res);
+  };
+}
@@ -0,0 +1,493 @@
+// Ledger Reconciliation Middleware - Integrity audit and repair for credit accounts
+import { eq, and, or, sql, like, desc } from 'drizzle-orm';
+import {
+  creditAccounts,
+  ledgerEntries,
+  creditHolds,
+  approvalRequests,
+  researchJobs,
+} from '../../src/db/schema.js';
+import type { CreditHold, ApprovalRequestStatus } from '../../src/db/schema.js';
+import type { ResearchJobStatus } from '../../src/types/deepResearch.js';
+import {
+  getDb,
+  withTransaction,
+  getAccountBalance,
+  getAccountBalanceInTx,
+  releaseHold,
+  convertHold,
+  type AccountBalance,
+  type TransactionDb,
+} from './credits.js';
+
+// ══════════════════════════════════════════════════════════════════
+// Types
+// ══════════════════════════════════════════════════════════════════
+
+export type ReconciliationIssueType =
+  | 'balance_mismatch'       // getAccountBalance disagrees with raw ledger sums
+  | 'negative_balance'       // Available credits below zero
+  | 'orphaned_hold'          // Active hold whose request is no longer pending
+  | 'missing_request'        // Hold whose requestId has no approval_requests row
+  | 'missing_conversion'     // Converted hold with no hold_conversion entry
+  | 'duplicate_conversion'   // Hold with more than one hold_conversion entry
+  | 'unexpected_conversion'; // hold_conversion entry for a hold that was never converted
+
+export type ReconciliationRepair =
+  | 'release_hold'
+  | 'convert_hold'
+  | 'debit_adjustment'
+  | 'credit_adjustment';
+
+export interface ReconciliationIssue {
+  id: string;                // Stable across runs: `${type}:${holdId | accountId}`
+  type: ReconciliationIssueType;
+  severity: 'error' | 'warning';
+  description: string;
+  holdId?: string;
+  requestId?: string;
+  amount?: number;           // Credits the repair would move
+  repair: ReconciliationRepair | null;
+}
+
+export interface ReconciliationReport {
+  accountId: string;
+  generatedAt: string;
+  balance: {
+    derivedAvailable: number;   // From getAccountBalance
+    ledgerAvailable: number;    // Base + signed ledger sum - active holds
+    ledgerCredits: number;
+    ledgerDebits: number;
+    reservedCredits: number;
+  };
+  holdsChecked: number;
+  issues: ReconciliationIssue[];
+  summary: {
+    total: number;
+    repairable: number;
+    byType: Partial<Record<ReconciliationIssueType, number>>;
+  };
+}
+
+export interface RepairResult {
+  issueId: string;
+  repair: ReconciliationRepair;
+  ledgerEntryId: string | null;
+  holdId: string | null;
+}
+
+// Requests in these states may legitimately keep an active hold
+const OPEN_REQUEST_STATUSES: ApprovalRequestStatus[] = ['draft', 'pending'];
+
+// Requests in these states should have had their hold converted
+const SPENT_REQUEST_STATUSES: ApprovalRequestStatus[] = ['approved', 'fulfilled'];
+
+// Ledger adjustments written by a repair carry `${REPAIR_KEY_PREFIX}${issue.id}` as their idempotency key
+const REPAIR_KEY_PREFIX = 'reconcile:';
+
+// Hold issues fixed by an adjustment entry; the hold itself is left as it was
+const ADJUSTED_HOLD_ISSUES: ReconciliationIssueType[] = [
+  'missing_conversion',
+  'duplicate_conversion',
+  'unexpected_conversion',
+];
+
+// Deep research holds are keyed by the job; its status stands in for the request's
+const RESEARCH_JOB_REQUEST_STATUS: Record<ResearchJobStatus, ApprovalRequestStatus> = {
+  intake: 'pending',
+  awaiting_approval: 'pending',
+  queued: 'pending',
+  processing: 'pending',
+  complete: 'fulfilled',
+  error: 'cancelled',
+  cancelled: 'cancelled',
+};
+
+// ══════════════════════════════════════════════════════════════════
+// Audit
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Recompute the balance directly from ledger rows, independently of getAccountBalance
+ */
+async function getLedgerTotals(db: TransactionDb, accountId: string) {
+  const [account] = await db
+    .select({
+      totalCredits: creditAccounts.totalCredits,
+      bonusCredits: creditAccounts.bonusCredits,
+    })
+    .from(creditAccounts)
+    .where(eq(creditAccounts.id, accountId))
+    .limit(1);
+
+  if (!account) {
+    throw new Error('Account not found');
+  }
+
+  const [totals] = await db
+    .select({
+      credits: sql<number>`COALESCE(SUM(CASE WHEN ${ledgerEntries.entryType} = 'credit' THEN ${ledgerEntries.amount} ELSE 0 END), 0)`,
+      debits: sql<number>`COALESCE(SUM(CASE WHEN ${ledgerEntries.entryType} = 'debit' THEN ${ledgerEntries.amount} ELSE 0 END), 0)`,
+    })
+    .from(ledgerEntries)
+    .where(eq(ledgerEntries.accountId, accountId));
+
+  const [holds] = await db
+    .select({
+      reserved: sql<number>`COALESCE(SUM(${creditHolds.amount}), 0)`,
+    })
+    .from(creditHolds)
+    .where(and(eq(creditHolds.accountId, accountId), eq(creditHolds.status, 'active')));
+
+  const ledgerCredits = Number(totals?.credits ?? 0);
+  const ledgerDebits = Number(totals?.debits ?? 0);
+  const reservedCredits = Number(holds?.reserved ?? 0);
+
+  return {
+    ledgerCredits,
+    ledgerDebits,
+    reservedCredits,
+    ledgerAvailable:
+      account.totalCredits + account.bonusCredits + ledgerCredits - ledgerDebits - reservedCredits,
+  };
+}
+
+export type AuditedHold = Pick<CreditHold, 'id' | 'requestId' | 'amount' | 'status'> & {
+  requestStatus: ApprovalRequestStatus | null;  // null when the request row is missing
+};
+
+export interface ConversionTotals {
+  count: number;
+  total: number;
+}
+
+/**
+ * Run every integrity check over already-loaded account data. Hold issues
+ * listed in `repaired` already have their reconciliation adjustment and are
+ * not reported again.
+ */
+export function detectIssues(
+  accountId: string,
+  derived: Pick<AccountBalance, 'availableCredits'>,
+  ledgerAvailable: number,
+  holds: AuditedHold[],
+  conversions: Map<string | null, ConversionTotals>,
+  repaired: Set<string> = new Set()
+): ReconciliationIssue[] {
+  const issues: ReconciliationIssue[] = [];
+
+  if (ledgerAvailable !== derived.availableCredits) {
+    issues.push({
+      id: `balance_mismatch:${accountId}`,
+      type: 'balance_mismatch',
+      severity: 'error',
+      description:
+        `Derived balance ${derived.availableCredits} does not match ledger balance ${ledgerAvailable}`,
+      amount: Math.abs(ledgerAvailable - derived.availableCredits),
+      repair: null,
+    });
+  }
+
+  if (derived.availableCredits < 0) {
+    issues.push({
+      id: `negative_balance:${accountId}`,
+      type: 'negative_balance',
+      severity: 'warning',
+      description: `Available balance is ${derived.availableCredits}`,
+      amount: -derived.availableCredits,
+      repair: 'credit_adjustment',
+    });
+  }
+
+  for (const hold of holds) {
+    const conversion = conversions.get(hold.requestId) ?? { count: 0, total: 0 };
+
+    if (hold.requestStatus === null) {
+      issues.push({
+        id: `missing_request:${hold.id}`,
+        type: 'missing_request',
+        severity: 'error',
+        description: `Hold references request ${hold.requestId}, which does not exist`,
+        holdId: hold.id,
+        requestId: hold.requestId,
+        amount: hold.amount,
+        repair: hold.status === 'active' ? 'release_hold' : null,
+      });
+    } else if (hold.status === 'active' && !OPEN_REQUEST_STATUSES.includes(hold.requestStatus)) {
+      const shouldConvert = SPENT_REQUEST_STATUSES.includes(hold.requestStatus);
+      issues.push({
+        id: `orphaned_hold:${hold.id}`,
+        type: 'orphaned_hold',
+        severity: 'error',
+        description: `Hold is still active but its request is ${hold.requestStatus}`,
+        holdId: hold.id,
+        requestId: hold.requestId,
+        amount: hold.amount,
+        repair: shouldConvert ? 'convert_hold' : 'release_hold',
+      });
+    }
+
+    if (hold.status === 'converted' && conversion.count === 0) {
+      issues.push({
+        id: `missing_conversion:${hold.id}`,
+        type: 'missing_conversion',
+        severity: 'error',
+        description: 'Hold is marked converted but no hold_conversion entry was written',
+        holdId: hold.id,
+        requestId: hold.requestId,
+        amount: hold.amount,
+        repair: 'debit_adjustment',
+      });
+    } else if (hold.status === 'converted' && conversion.count > 1) {
+      issues.push({
+        id: `duplicate_conversion:${hold.id}`,
+        type: 'duplicate_conversion',
+        severity: 'error',
+        description: `Hold has ${conversion.count} hold_conversion entries`,
+        holdId: hold.id,
+        requestId: hold.requestId,
+        amount: conversion.total - hold.amount,
+        repair: 'credit_adjustment',
+      });
+    } else if (hold.status !== 'converted' && conversion.count > 0) {
+      issues.push({
+        id: `unexpected_conversion:${hold.id}`,
+        type: 'unexpected_conversion',
+        severity: 'error',
+        description: `Hold is ${hold.status} but has ${conversion.count} hold_conversion entries`,
+        holdId: hold.id,
+        requestId: hold.requestId,
+        amount: conversion.total,
+        repair: 'credit_adjustment',
+      });
+    }
+  }
+
+  return issues.filter((issue) => !(ADJUSTED_HOLD_ISSUES.includes(issue.type) && repaired.has(issue.id)));
+}
+
+/**
+ * Load account data and run the integrity checks
+ */
+async function buildReport(
+  db: TransactionDb,
+  accountId: string,
+  derived: AccountBalance
+): Promise<ReconciliationReport> {
+  const totals = await getLedgerTotals(db, accountId);
+
+  // Holds with their request status (null when the request is missing)
+  const holdRows: Array<AuditedHold & { jobStatus: string | null }> = await db
+    .select({
+      id: creditHolds.id,
+      requestId: creditHolds.requestId,
+      amount: creditHolds.amount,
+      status: creditHolds.status,
+      requestStatus: approvalRequests.status,
+      jobStatus: researchJobs.status,
+    })
+    .from(creditHolds)
+    .leftJoin(approvalRequests, eq(approvalRequests.id, creditHolds.requestId))
+    .leftJoin(researchJobs, eq(researchJobs.id, creditHolds.requestId))
+    .where(eq(creditHolds.accountId, accountId));
+
+  const holds: AuditedHold[] = holdRows.map(({ jobStatus, ...hold }) => ({
+    ...hold,
+    requestStatus: hold.requestStatus
+      ?? (jobStatus ? RESEARCH_JOB_REQUEST_STATUS[jobStatus as ResearchJobStatus] ?? null : null),
+  }));
+
+  // hold_conversion entries grouped by request (each hold owns exactly one request)
+  const conversionRows: Array<{ requestId: string | null; count: number; total: number }> = await db
+    .select({
+      requestId: ledgerEntries.referenceId,
+      count: sql<number>`COUNT(*)`,
+      total: sql<number>`COALESCE(SUM(${ledgerEntries.amount}), 0)`,
+    })
+    .from(ledgerEntries)
+    .where(
+      and(
+        eq(ledgerEntries.accountId, accountId),
+        eq(ledgerEntries.transactionType, 'hold_conversion')
+      )
+    )
+    .groupBy(ledgerEntries.referenceId);
+
+  const conversions = new Map(
+    conversionRows.map((row) => [
+      row.requestId,
+      { count: Number(row.count), total: Number(row.total) },
+    ])
+  );
+
+  // Issues already corrected by a reconciliation adjustment
+  const repairRows: Array<{ key: string | null }> = await db
+    .select({ key: ledgerEntries.idempotencyKey })
+    .from(ledgerEntries)
+    .where(
+      and(
+        eq(ledgerEntries.accountId, accountId),
+        eq(ledgerEntries.transactionType, 'adjustment'),
+        like(ledgerEntries.idempotencyKey, `${REPAIR_KEY_PREFIX}%`)
+      )
+    );
+  const repaired = new Set(
+    repairRows.map((row) => row.key!.slice(REPAIR_KEY_PREFIX.length))
+  );
+
+  const issues = detectIssues(accountId, derived, totals.ledgerAvailable, holds, conversions, repaired);
+
+  const byType: ReconciliationReport['summary']['byType'] = {};
+  for (const issue of issues) {
+    byType[issue.type] = (byType[issue.type] ?? 0) + 1;
+  }
+
+  return {
+    accountId,
+    generatedAt: new Date().toISOString(),
+    balance: {
+      derivedAvailable: derived.availableCredits,
+      ledgerAvailable: totals.ledgerAvailable,
+      ledgerCredits: totals.ledgerCredits,
+      ledgerDebits: totals.ledgerDebits,
+      reservedCredits: totals.reservedCredits,
+    },
+    holdsChecked: holds.length,
+    issues,
+    summary: {
+      total: issues.length,
+      repairable: issues.filter((issue) => issue.repair !== null).length,
+      byType,
+    },
+  };
+}
+
+/**
+ * Audit a credit account's ledger and holds
+ */
+export async function reconcileAccount(accountId: string): Promise<ReconciliationReport> {
+  const derived = await getAccountBalance(accountId);
+  if (!derived) {
+    throw new Error('Account not found');
+  }
+
+  return buildReport(getDb(), accountId, derived);
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Repair
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * The adjustment an earlier run wrote for this issue, if any
+ */
+async function findAdjustment(db: TransactionDb, accountId: string, issueId: string) {
+  const key = `${REPAIR_KEY_PREFIX}${issueId}`;
+  const [entry] = await db
+    .select({ id: ledgerEntries.id, entryType: ledgerEntries.entryType })
+    .from(ledgerEntries)
+    .where(
+      and(
+        eq(ledgerEntries.accountId, accountId),
+        eq(ledgerEntries.transactionType, 'adjustment'),
+        or(eq(ledgerEntries.idempotencyKey, key), like(ledgerEntries.idempotencyKey, `${key}:%`))
+      )
+    )
+    .orderBy(desc(ledgerEntries.createdAt))
+    .limit(1);
+
+  return entry;
+}
+
+/**
+ * Apply the suggested repair for one issue.
+ *
+ * The issue is re-detected under the account lock. Repeating an adjustment
+ * repair returns the entry the first run wrote; any other repair that has
+ * already been applied (or a problem that resolved itself) is rejected.
+ * Ledger corrections are written as `adjustment` entries; hold problems
+ * are fixed by releasing or converting the hold.
+ */
+export async function repairIssue(
+  accountId: string,
+  issueId: string,
+  userId: string
+): Promise<RepairResult> {
+  const issue = await withTransaction(async (tx) => {
+    await tx.execute(
+      sql`SELECT id FROM credit_accounts WHERE id = ${accountId} FOR UPDATE`
+    );
+
+    const derived = await getAccountBalanceInTx(tx, accountId);
+    if (!derived) {
+      throw new Error('Account not found');
+    }
+
+    const report = await buildReport(tx, accountId, derived);
+    const found = report.issues.find((candidate) => candidate.id === issueId);
+    if (!found) {
+      const previous = await findAdjustment(tx, accountId, issueId);
+      if (!previous) {
+        throw new Error('Issue not found or already resolved');
+      }
+      const [type, subjectId] = issueId.split(':');
+      const repair: ReconciliationRepair =
+        previous.entryType === 'debit' ? 'debit_adjustment' : 'credit_adjustment';
+      return {
+        id: issueId,
+        repair,
+        holdId: type === 'negative_balance' ? undefined : subjectId,
+        ledgerEntryId: previous.id as string,
+      };
+    }
+    if (!found.repair) {
+      throw new Error('Issue has no automatic repair');
+    }
+
+    if (found.repair === 'debit_adjustment' || found.repair === 'credit_adjustment') {
+      // Hold issues are one-off. A negative balance may legitimately recur, so
+      // its key also records how many entries the ledger had when it was fixed
+      let idempotencyKey = `${REPAIR_KEY_PREFIX}${found.id}`;
+      if (!found.holdId) {
+        const [ledger] = await tx
+          .select({ entries: sql<number>`COUNT(*)` })
+          .from(ledgerEntries)
+          .where(eq(ledgerEntries.accountId, accountId));
+        idempotencyKey += `:${Number(ledger?.entries ?? 0)}`;
+      }
+
+      const [entry] = await tx
+        .insert(ledgerEntries)
+        .values({
+          accountId,
+          entryType: found.repair === 'debit_adjustment' ? 'debit' : 'credit',
+          amount: found.amount ?? 0,
+          transactionType: 'adjustment',
+          referenceType: 'admin',
+          referenceId: found.requestId ?? null,
+          description: `Reconciliation: ${found.description}`,
+          performedBy: userId,
+          idempotencyKey,
+        })
+        .returning();
+
+      return { ...found, ledgerEntryId: entry.id as string };
+    }
+
+    return { ...found, ledgerEntryId: null };
+  });
+
+  // Hold repairs reuse the normal hold lifecycle, which takes its own lock
+  if (issue.repair === 'release_hold' && issue.holdId) {
+    await releaseHold(issue.holdId);
+  } else if (issue.repair === 'convert_hold' && issue.holdId) {
+    await convertHold(issue.holdId, userId);
+  }
+
+  return {
+    issueId: issue.id,
+    repair: issue.repair!,
+    ledgerEntryId: issue.ledgerEntryId,
+    holdId: issue.holdId ?? null,
+  };
+}
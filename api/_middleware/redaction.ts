@@ -0,0 +1,117 @@
+// Redaction Middleware - Applying partner data display tiers to supplier data before it leaves the server
+//
+// Tier rules:
+// - freely-displayable: always shown
+// - conditionally-displayable: score shown to business-and-above plans, or when the
+//   supplier's category is activated for the caller's company; otherwise only the rating
+// - restricted: never shown - the factor keeps its name and weight so the UI can
+//   point to the dashboard, but score and rating are removed
+//
+// The portfolio API is also the source of the supplier context the client puts into
+// AI prompts, so redacting its responses keeps restricted scores out of prompts too.
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { eq } from 'drizzle-orm';
+import { activatedCategories, managedCategories, type RiskFactorScore } from '../../src/db/schema.js';
+import type { Supplier } from '../../src/services/supplierService.js';
+import type { SubscriptionTier } from '../../src/types/subscription.js';
+import { getOrgContext } from './organization.js';
+
+const getDb = () => {
+  const client = neon(process.env.DATABASE_URL!);
+  return drizzle(client);
+};
+
+// ══════════════════════════════════════════════════════════════════
+// Entitlements
+// ══════════════════════════════════════════════════════════════════
+
+export interface DataEntitlements {
+  subscriptionTier: SubscriptionTier | null;
+  activatedCategories: string[]; // Managed category names, lowercased
+}
+
+export const ANONYMOUS_ENTITLEMENTS: DataEntitlements = {
+  subscriptionTier: null,
+  activatedCategories: [],
+};
+
+// Plans that include conditionally-displayable scores for every category
+const CONDITIONAL_DATA_TIERS: SubscriptionTier[] = ['business', 'enterprise', 'custom'];
+
+/**
+ * Resolve what the caller may see from their company's plan and activated
+ * categories. Callers without a company get the anonymous entitlements.
+ */
+export async function getDataEntitlements(userId: string | null): Promise<DataEntitlements> {
+  if (!userId) {
+    return ANONYMOUS_ENTITLEMENTS;
+  }
+
+  const org = await getOrgContext(userId);
+  if (!org) {
+    return ANONYMOUS_ENTITLEMENTS;
+  }
+
+  const db = getDb();
+  const categories = await db
+    .select({ name: managedCategories.name })
+    .from(activatedCategories)
+    .innerJoin(managedCategories, eq(activatedCategories.categoryId, managedCategories.id))
+    .where(eq(activatedCategories.companyId, org.company.id));
+
+  const tier = org.creditAccount?.subscriptionTier.toLowerCase() as SubscriptionTier | undefined;
+
+  return {
+    subscriptionTier: tier ?? null,
+    activatedCategories: categories.map((c) => c.name.toLowerCase()),
+  };
+}
+
+export function canViewConditionalData(entitlements: DataEntitlements, category: string): boolean {
+  return (
+    (entitlements.subscriptionTier !== null && CONDITIONAL_DATA_TIERS.includes(entitlements.subscriptionTier)) ||
+    entitlements.activatedCategories.includes(category.toLowerCase())
+  );
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Redaction
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Copy factors with anything the caller may not see removed. Fields are
+ * dropped rather than nulled so they can't be recovered from the JSON.
+ */
+export function redactFactors(
+  factors: RiskFactorScore[],
+  category: string,
+  entitlements: DataEntitlements
+): RiskFactorScore[] {
+  const conditionalVisible = canViewConditionalData(entitlements, category);
+
+  return factors.map((factor) => {
+    const { id, name, tier, weight } = factor;
+    if (tier === 'restricted') {
+      return { id, name, tier, weight };
+    }
+    if (tier === 'conditionally-displayable' && !conditionalVisible) {
+      return factor.rating === undefined ? { id, name, tier, weight } : { id, name, tier, weight, rating: factor.rating };
+    }
+    return { ...factor };
+  });
+}
+
+export function redactSupplier(supplier: Supplier, entitlements: DataEntitlements): Supplier {
+  return {
+    ...supplier,
+    srs: {
+      ...supplier.srs,
+      factors: redactFactors(supplier.srs.factors, supplier.category, entitlements),
+    },
+  };
+}
+
+export function redactSuppliers(list: Supplier[], entitlements: DataEntitlements): Supplier[] {
+  return list.map((supplier) => redactSupplier(supplier, entitlements));
+}
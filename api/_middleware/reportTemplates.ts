@@ -0,0 +1,304 @@
+// Report Templates Middleware - Company report templates: validation, CRUD, and the
+// intake question that lets a custom study use one
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { and, asc, count, eq, ilike, ne, type SQL } from 'drizzle-orm';
+import { reportTemplates, type ReportTemplateRow, type ResearchJob } from '../../src/db/schema.js';
+import {
+  DEFAULT_TEMPLATE_OPTION,
+  MAX_TEMPLATE_DEPTH,
+  TEMPLATE_QUESTION_ID,
+  validateReportTemplate,
+  type CompanyReportTemplate,
+  type ReportTemplate,
+  type ReportTemplateInput,
+} from '../../src/services/reportTemplates.js';
+import type { ClarifyingQuestion } from '../../src/types/deepResearch.js';
+import { UUID_PATTERN, escapeLike } from './watchlists.js';
+
+const getDb = () => {
+  const client = neon(process.env.DATABASE_URL!);
+  return drizzle(client);
+};
+
+const MAX_NAME_LENGTH = 120;
+const MAX_DESCRIPTION_LENGTH = 1000;
+export const MAX_TEMPLATES_PER_COMPANY = 50;
+
+// ══════════════════════════════════════════════════════════════════
+// Validation
+// ══════════════════════════════════════════════════════════════════
+
+const isObjectList = (value: unknown): value is Record<string, unknown>[] =>
+  Array.isArray(value) && value.every((item) => !!item && typeof item === 'object' && !Array.isArray(item));
+
+/**
+ * Check the shape of a section tree from a request body, so the template checks
+ * below can walk it safely. Returns the first problem, or null.
+ */
+function findSectionShapeError(sections: unknown, depth = 1): string | null {
+  if (!isObjectList(sections)) {
+    return depth === 1 ? 'sections must be a list of sections' : 'Section children must be a list of sections';
+  }
+  if (depth > MAX_TEMPLATE_DEPTH && sections.length > 0) {
+    return `Sections can be nested at most ${MAX_TEMPLATE_DEPTH} levels deep`;
+  }
+
+  for (const section of sections) {
+    const label = typeof section.id === 'string' ? `Section "${section.id}"` : 'Every section';
+    if (typeof section.required !== 'boolean') {
+      return `${label} required must be true or false`;
+    }
+    if (section.visualizationSlots !== undefined && !isObjectList(section.visualizationSlots)) {
+      return `${label} visualizationSlots must be a list of slots`;
+    }
+    if (section.children !== undefined) {
+      const error = findSectionShapeError(section.children, depth + 1);
+      if (error) {
+        return error;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate a create/update body. The section tree goes through the same
+ * validateReportTemplate check the editor runs, and the first problem is returned.
+ */
+export function validateReportTemplateInput(body: unknown): { template: ReportTemplateInput } | { error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Request body is required' };
+  }
+  const input = body as Record<string, unknown>;
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return { error: `name is required (max ${MAX_NAME_LENGTH} characters)` };
+  }
+
+  const description = input.description ?? '';
+  if (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH) {
+    return { error: `description must be a string of up to ${MAX_DESCRIPTION_LENGTH} characters` };
+  }
+
+  const shapeError = findSectionShapeError(input.sections);
+  if (shapeError) {
+    return { error: shapeError };
+  }
+
+  const template: ReportTemplateInput = {
+    name,
+    description: description.trim(),
+    sections: input.sections as ReportTemplate['sections'],
+    minTotalCitations: (input.minTotalCitations ?? 0) as number,
+    requiredSourceTypes: (input.requiredSourceTypes ?? []) as ReportTemplate['requiredSourceTypes'],
+  };
+
+  const [error] = validateReportTemplate({ id: 'new', ...template });
+  if (error) {
+    return { error };
+  }
+
+  return { template: { ...template, requiredSourceTypes: Array.from(new Set(template.requiredSourceTypes)) } };
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Snapshots
+// ══════════════════════════════════════════════════════════════════
+
+export function toCompanyReportTemplate(row: ReportTemplateRow): CompanyReportTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    sections: row.sections,
+    minTotalCitations: row.minTotalCitations,
+    requiredSourceTypes: row.requiredSourceTypes,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Template CRUD
+// ══════════════════════════════════════════════════════════════════
+
+export async function listReportTemplates(companyId: string): Promise<CompanyReportTemplate[]> {
+  const db = getDb();
+
+  const rows = await db
+    .select()
+    .from(reportTemplates)
+    .where(eq(reportTemplates.companyId, companyId))
+    .orderBy(asc(reportTemplates.name));
+
+  return rows.map(toCompanyReportTemplate);
+}
+
+export async function getReportTemplate(companyId: string, templateId: string): Promise<CompanyReportTemplate | null> {
+  const db = getDb();
+
+  const [row] = await db
+    .select()
+    .from(reportTemplates)
+    .where(and(eq(reportTemplates.id, templateId), eq(reportTemplates.companyId, companyId)))
+    .limit(1);
+
+  return row ? toCompanyReportTemplate(row) : null;
+}
+
+async function isNameTaken(companyId: string, name: string, excludeId?: string): Promise<boolean> {
+  const db = getDb();
+  const conditions: SQL[] = [
+    eq(reportTemplates.companyId, companyId),
+    ilike(reportTemplates.name, escapeLike(name)),
+  ];
+  if (excludeId) {
+    conditions.push(ne(reportTemplates.id, excludeId));
+  }
+
+  const [row] = await db
+    .select({ id: reportTemplates.id })
+    .from(reportTemplates)
+    .where(and(...conditions))
+    .limit(1);
+
+  return Boolean(row);
+}
+
+// The company/lower(name) unique index catches a duplicate that lands between
+// the isNameTaken check and the write. Drizzle wraps the driver error in `cause`.
+function isDuplicateName(err: unknown): boolean {
+  const error = err && typeof err === 'object' && 'cause' in err && err.cause ? err.cause : err;
+  return !!error && typeof error === 'object' && 'code' in error && error.code === '23505';
+}
+
+/**
+ * Throws 'Template name already exists' for a case-insensitive duplicate,
+ * and 'Template limit reached' at MAX_TEMPLATES_PER_COMPANY
+ */
+export async function createReportTemplate(
+  companyId: string,
+  userId: string,
+  input: ReportTemplateInput
+): Promise<CompanyReportTemplate> {
+  if (await isNameTaken(companyId, input.name)) {
+    throw new Error('Template name already exists');
+  }
+  const db = getDb();
+
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(reportTemplates)
+    .where(eq(reportTemplates.companyId, companyId));
+  if (total >= MAX_TEMPLATES_PER_COMPANY) {
+    throw new Error('Template limit reached');
+  }
+
+  try {
+    const [row] = await db
+      .insert(reportTemplates)
+      .values({ companyId, createdBy: userId, ...input })
+      .returning();
+
+    return toCompanyReportTemplate(row);
+  } catch (err) {
+    if (isDuplicateName(err)) {
+      throw new Error('Template name already exists');
+    }
+    throw err;
+  }
+}
+
+/**
+ * Replace a template. Returns null if it isn't the company's.
+ * Throws 'Template name already exists' when renamed onto another template.
+ */
+export async function updateReportTemplate(
+  companyId: string,
+  templateId: string,
+  input: ReportTemplateInput
+): Promise<CompanyReportTemplate | null> {
+  if (await isNameTaken(companyId, input.name, templateId)) {
+    throw new Error('Template name already exists');
+  }
+  const db = getDb();
+
+  try {
+    const [row] = await db
+      .update(reportTemplates)
+      .set({ ...input, updatedAt: new Date() })
+      .where(and(eq(reportTemplates.id, templateId), eq(reportTemplates.companyId, companyId)))
+      .returning();
+
+    return row ? toCompanyReportTemplate(row) : null;
+  } catch (err) {
+    if (isDuplicateName(err)) {
+      throw new Error('Template name already exists');
+    }
+    throw err;
+  }
+}
+
+/**
+ * Delete a template. Reports written with it keep their sections.
+ */
+export async function deleteReportTemplate(companyId: string, templateId: string): Promise<boolean> {
+  const db = getDb();
+
+  const deleted = await db
+    .delete(reportTemplates)
+    .where(and(eq(reportTemplates.id, templateId), eq(reportTemplates.companyId, companyId)))
+    .returning({ id: reportTemplates.id });
+
+  return deleted.length > 0;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Custom studies
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Intake question for a custom study: which of the company's templates to
+ * write the report with. Null when the company has none.
+ */
+export async function getTemplateIntakeQuestion(companyId: string): Promise<ClarifyingQuestion | null> {
+  const templates = await listReportTemplates(companyId);
+  if (templates.length === 0) {
+    return null;
+  }
+
+  return {
+    id: TEMPLATE_QUESTION_ID,
+    question: 'Which report template should this study use?',
+    type: 'select',
+    options: [
+      { label: 'Standard market analysis', value: DEFAULT_TEMPLATE_OPTION },
+      ...templates.map((template) => ({ label: template.name, value: template.id })),
+    ],
+    required: false,
+    defaultValue: DEFAULT_TEMPLATE_OPTION,
+    helpText: 'Templates set the report sections, charts and citation minimums',
+  };
+}
+
+/**
+ * The company template a custom job picked during intake, if any. A template
+ * deleted or broken since then falls back to the standard template.
+ */
+export async function resolveJobTemplate(
+  job: Pick<ResearchJob, 'studyType' | 'companyId' | 'intakeAnswers'>
+): Promise<ReportTemplate | null> {
+  const answer = job.intakeAnswers?.[TEMPLATE_QUESTION_ID];
+  const templateId = Array.isArray(answer) ? answer[0] : answer;
+  if (job.studyType !== 'custom' || !job.companyId || !templateId || !UUID_PATTERN.test(templateId)) {
+    return null;
+  }
+
+  const template = await getReportTemplate(job.companyId, templateId);
+  if (!template || validateReportTemplate(template).length > 0) {
+    return null;
+  }
+  return template;
+}
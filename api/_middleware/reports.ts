@@ -0,0 +1,325 @@
+// Reports Middleware - The company report library: completed deep research reports,
+// kept as numbered versions so a refreshed study can be compared with earlier runs,
+// and delivery notices for versions added by a research schedule
+import type { VercelRequest } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { and, desc, eq, gte, ilike, inArray, isNull, lte, max, or, sql, type SQL } from 'drizzle-orm';
+import {
+  researchJobs,
+  researchReports,
+  type ResearchJob,
+  type ResearchReport,
+} from '../../src/db/schema.js';
+import {
+  STUDY_TYPES,
+  type DeepResearchReport,
+  type LibraryReport,
+  type ReportLibraryFilters,
+  type ResearchReportSummary,
+  type StudyType,
+} from '../../src/types/deepResearch.js';
+import { diffReports, summarizeReportDiff } from '../../src/utils/reportDiff.js';
+import { notifyUser } from './notifications.js';
+import { getOrgContext } from './organization.js';
+import { escapeLike } from './watchlists.js';
+
+const getDb = () => {
+  const client = neon(process.env.DATABASE_URL!);
+  return drizzle(client);
+};
+
+export const MAX_LIBRARY_RESULTS = 50;
+const MAX_SEARCH_LENGTH = 200;
+
+// Attempts at claiming the next version when refreshes of one lineage finish together
+const MAX_VERSION_ATTEMPTS = 5;
+
+// ══════════════════════════════════════════════════════════════════
+// Validation
+// ══════════════════════════════════════════════════════════════════
+
+function firstValue(value: string | string[] | undefined): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return first?.trim() || undefined;
+}
+
+function isDate(value: string): boolean {
+  return !Number.isNaN(new Date(value).getTime());
+}
+
+/**
+ * Validate library filters from the query string
+ */
+export function parseLibraryFilters(
+  query: VercelRequest['query']
+): { filters: ReportLibraryFilters } | { error: string } {
+  const studyType = firstValue(query.studyType);
+  const category = firstValue(query.category);
+  const from = firstValue(query.from);
+  const to = firstValue(query.to);
+  const search = firstValue(query.search);
+
+  if (studyType && !(STUDY_TYPES as string[]).includes(studyType)) {
+    return { error: `studyType must be one of: ${STUDY_TYPES.join(', ')}` };
+  }
+  if (from && !isDate(from)) {
+    return { error: 'from must be an ISO date' };
+  }
+  if (to && !isDate(to)) {
+    return { error: 'to must be an ISO date' };
+  }
+  if (search && search.length > MAX_SEARCH_LENGTH) {
+    return { error: `search must be ${MAX_SEARCH_LENGTH} characters or fewer` };
+  }
+
+  return { filters: { studyType: studyType as StudyType | undefined, category, from, to, search } };
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Snapshots
+// ══════════════════════════════════════════════════════════════════
+
+type ReportSummaryRow = Omit<ResearchReport, 'report' | 'userId' | 'companyId'> & { keyFinding: string | null };
+
+export function toResearchReportSummary(row: ReportSummaryRow): ResearchReportSummary {
+  return {
+    id: row.id,
+    lineageId: row.lineageId,
+    version: row.version,
+    title: row.title,
+    query: row.query,
+    studyType: row.studyType as StudyType,
+    category: row.category,
+    reportNumber: row.reportNumber,
+    keyFinding: row.keyFinding,
+    jobId: row.jobId,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export function toLibraryReport(row: ResearchReport): LibraryReport {
+  return {
+    ...toResearchReportSummary({ ...row, keyFinding: row.report.keyFinding ?? null }),
+    report: row.report,
+  };
+}
+
+// List queries leave out the report body
+const summaryColumns = {
+  id: researchReports.id,
+  lineageId: researchReports.lineageId,
+  version: researchReports.version,
+  jobId: researchReports.jobId,
+  title: researchReports.title,
+  query: researchReports.query,
+  studyType: researchReports.studyType,
+  category: researchReports.category,
+  reportNumber: researchReports.reportNumber,
+  keyFinding: sql<string | null>`${researchReports.report}->>'keyFinding'`,
+  createdAt: researchReports.createdAt,
+};
+
+// ══════════════════════════════════════════════════════════════════
+// Library
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Reports the user can see: their company's library, or their own reports
+ * when they aren't in an organization
+ */
+async function getLibraryScope(userId: string): Promise<SQL> {
+  const org = await getOrgContext(userId);
+  return org
+    ? eq(researchReports.companyId, org.company.id)
+    : and(isNull(researchReports.companyId), eq(researchReports.userId, userId))!;
+}
+
+function getCategoryAnswer(job: ResearchJob): string | null {
+  const answer = job.intakeAnswers?.category;
+  const category = Array.isArray(answer) ? answer[0] : answer;
+  return category?.trim() || null;
+}
+
+/**
+ * Save a completed job's report to the library. A refresh job adds the next
+ * version of its lineage; any other job starts a new lineage at version 1.
+ * Two refreshes finishing together can read the same latest version, so a
+ * version taken by the other save is re-read and retried.
+ */
+export async function saveResearchReport(job: ResearchJob, report: DeepResearchReport): Promise<ResearchReport> {
+  const db = getDb();
+
+  for (let attempt = 0; attempt < MAX_VERSION_ATTEMPTS; attempt++) {
+    let version = 1;
+    if (job.reportLineageId) {
+      const [latest] = await db
+        .select({ version: max(researchReports.version) })
+        .from(researchReports)
+        .where(eq(researchReports.lineageId, job.reportLineageId));
+      version = (latest?.version ?? 0) + 1;
+    }
+
+    const [saved] = await db.insert(researchReports).values({
+      ...(job.reportLineageId ? { lineageId: job.reportLineageId } : {}),
+      version,
+      userId: job.userId,
+      companyId: job.companyId,
+      jobId: job.id,
+      title: report.title,
+      query: job.query,
+      studyType: job.studyType,
+      category: getCategoryAnswer(job),
+      reportNumber: report.reportNumber ?? null,
+      report: { ...report, metadata: { ...report.metadata, version: String(version) } },
+    })
+      .onConflictDoNothing({ target: [researchReports.lineageId, researchReports.version] })
+      .returning();
+
+    if (saved) {
+      return saved;
+    }
+  }
+
+  throw new Error('Could not save the report - too many versions were saved at once');
+}
+
+/**
+ * Latest version of each report in the user's library, newest first
+ */
+export async function listLibraryReports(
+  userId: string,
+  filters: ReportLibraryFilters = {},
+  limit = MAX_LIBRARY_RESULTS
+): Promise<ResearchReportSummary[]> {
+  const db = getDb();
+  const conditions: SQL[] = [
+    await getLibraryScope(userId),
+    sql`${researchReports.version} = (select max(r.version) from research_reports r where r.lineage_id = ${researchReports.lineageId})`,
+  ];
+
+  if (filters.studyType) {
+    conditions.push(eq(researchReports.studyType, filters.studyType));
+  }
+  if (filters.category) {
+    conditions.push(ilike(researchReports.category, escapeLike(filters.category)));
+  }
+  if (filters.from) {
+    conditions.push(gte(researchReports.createdAt, new Date(filters.from)));
+  }
+  if (filters.to) {
+    // A bare date includes the whole day
+    const to = new Date(filters.to);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(filters.to)) to.setUTCHours(23, 59, 59, 999);
+    conditions.push(lte(researchReports.createdAt, to));
+  }
+  if (filters.search) {
+    const term = `%${escapeLike(filters.search)}%`;
+    conditions.push(or(ilike(researchReports.title, term), ilike(researchReports.query, term))!);
+  }
+
+  const rows = await db
+    .select(summaryColumns)
+    .from(researchReports)
+    .where(and(...conditions))
+    .orderBy(desc(researchReports.createdAt))
+    .limit(limit);
+
+  return rows.map(toResearchReportSummary);
+}
+
+export async function getLibraryReport(userId: string, reportId: string): Promise<ResearchReport | null> {
+  const db = getDb();
+
+  const [row] = await db
+    .select()
+    .from(researchReports)
+    .where(and(eq(researchReports.id, reportId), await getLibraryScope(userId)))
+    .limit(1);
+
+  return row ?? null;
+}
+
+/**
+ * Every version of a report, newest first
+ */
+export async function listReportVersions(lineageId: string): Promise<ResearchReportSummary[]> {
+  const db = getDb();
+
+  const rows = await db
+    .select(summaryColumns)
+    .from(researchReports)
+    .where(eq(researchReports.lineageId, lineageId))
+    .orderBy(desc(researchReports.version));
+
+  return rows.map(toResearchReportSummary);
+}
+
+/**
+ * A refresh of this report that hasn't finished yet, if any
+ */
+export async function getActiveRefresh(lineageId: string): Promise<ResearchJob | null> {
+  const db = getDb();
+
+  const [job] = await db
+    .select()
+    .from(researchJobs)
+    .where(and(
+      eq(researchJobs.reportLineageId, lineageId),
+      inArray(researchJobs.status, ['awaiting_approval', 'queued', 'processing'])
+    ))
+    .limit(1);
+
+  return job ?? null;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Scheduled delivery
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Tell the owner of a scheduled study that a run finished: what changed against
+ * the previous version, or that the run failed and nothing was charged.
+ * Jobs that aren't from a schedule are ignored.
+ */
+export async function notifyScheduledRun(job: ResearchJob, saved: ResearchReport | null): Promise<void> {
+  if (!job.scheduleId) {
+    return;
+  }
+
+  if (!saved) {
+    await notifyUser({
+      userId: job.userId,
+      type: 'report_ready',
+      title: 'Scheduled research failed',
+      description: 'The latest run did not produce a report, so no credits were charged. It will run again at its next scheduled time.',
+      metadata: { scheduleId: job.scheduleId },
+    });
+    return;
+  }
+
+  let description = 'The first report from this schedule is in the library.';
+  if (saved.version > 1) {
+    const db = getDb();
+    const [previous] = await db
+      .select()
+      .from(researchReports)
+      .where(and(eq(researchReports.lineageId, saved.lineageId), eq(researchReports.version, saved.version - 1)))
+      .limit(1);
+    if (previous) {
+      description = summarizeReportDiff(diffReports(
+        { version: previous.version, report: previous.report },
+        { version: saved.version, report: saved.report }
+      ));
+    }
+  }
+
+  await notifyUser({
+    userId: job.userId,
+    type: 'report_ready',
+    title: `Scheduled report ready: ${saved.title}`,
+    description,
+    metadata: { scheduleId: job.scheduleId, reportId: saved.id },
+    action: { label: 'View Report', onClick: 'view_report' },
+  });
+}
@@ -0,0 +1,793 @@
+// Research Middleware - Deep research jobs: intake, the worker that runs the pipeline
+// on the server, and the snapshots streamed back to the chat over SSE
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { and, asc, desc, eq, inArray, lt, or, sql } from 'drizzle-orm';
+import {
+  approvalRequests,
+  researchJobs,
+  researchReports,
+  type ResearchJob,
+  type ResearchReport,
+} from '../../src/db/schema.js';
+import { executeDeepResearch } from '../../src/services/ai.js';
+import { generateDynamicIntake } from '../../src/services/deepResearchIntake.js';
+import { setLlmTransport, type LlmTransport } from '../../src/services/llmGateway.js';
+import type { ChatMessage } from '../../src/types/chat.js';
+import {
+  STUDY_TYPES,
+  createInitialProgress,
+  getCreditsRequiredForStudy,
+  type DeepResearchEvent,
+  type DeepResearchEventType,
+  type DeepResearchPhase,
+  type DeepResearchResponse,
+  type IntakeAnswers,
+  type ResearchJobStatus,
+  type ResearchJobSummary,
+  type StartDeepResearchRequest,
+  type StudyType,
+} from '../../src/types/deepResearch.js';
+import { getOrgContext } from './organization.js';
+import { notifyScheduledRun, saveResearchReport } from './reports.js';
+import { getTemplateIntakeQuestion, resolveJobTemplate } from './reportTemplates.js';
+import {
+  cancelResearchReservation,
+  chargeResearchJob,
+  refundResearchJob,
+  reserveResearchCredits,
+  type ResearchCreditReservation,
+} from './researchCredits.js';
+import {
+  SseUsageTracker,
+  estimateTokenUsage,
+  evaluateLlmQuota,
+  getLlmProvider,
+  getLlmQuotaLimits,
+  getLlmUsageTotals,
+  recordLlmUsage,
+  type LlmProviderName,
+  type LlmTokenUsage,
+} from './llm.js';
+
+const getDb = () => {
+  const client = neon(process.env.DATABASE_URL!);
+  return drizzle(client);
+};
+
+export const MAX_QUERY_LENGTH = 2000;
+const MAX_HISTORY_MESSAGES = 10;
+const MAX_HISTORY_CHARS = 2000;
+
+// The worker holds a job for LEASE_MS and renews it while the pipeline runs.
+// A job whose lease lapsed was abandoned (crash, timeout) and is retried.
+export const LEASE_MS = 60_000;
+const HEARTBEAT_MS = 20_000;
+export const MAX_ATTEMPTS = 2;
+// Progress callbacks fire every few hundred ms; persist at most this often
+const PROGRESS_WRITE_MS = 1000;
+
+export const TERMINAL_STATUSES: ResearchJobStatus[] = ['complete', 'error', 'cancelled'];
+const ACTIVE_STATUSES: ResearchJobStatus[] = ['intake', 'awaiting_approval', 'queued', 'processing'];
+
+const JOB_PHASES: Record<ResearchJobStatus, DeepResearchPhase> = {
+  intake: 'intake',
+  awaiting_approval: 'intake_confirmed',
+  queued: 'processing',
+  processing: 'processing',
+  complete: 'complete',
+  error: 'error',
+  cancelled: 'error',
+};
+
+const CANCELLED_ERROR = { message: 'Research was cancelled.', code: 'CANCELLED', canRetry: true };
+const INTERRUPTED_ERROR = {
+  message: 'Research was interrupted before it finished. Please try again.',
+  code: 'INTERRUPTED',
+  canRetry: true,
+};
+const NOT_APPROVED_ERROR = {
+  message: 'The research request was not approved, so it did not run. The held credits were released.',
+  code: 'NOT_APPROVED',
+  canRetry: false,
+};
+
+// ══════════════════════════════════════════════════════════════════
+// Validation
+// ══════════════════════════════════════════════════════════════════
+
+function isStudyType(value: unknown): value is StudyType {
+  return typeof value === 'string' && (STUDY_TYPES as string[]).includes(value);
+}
+
+export function isIntakeAnswers(value: unknown): value is IntakeAnswers {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.values(value).every((answer) =>
+    typeof answer === 'string' ||
+    (Array.isArray(answer) && answer.every((item) => typeof item === 'string'))
+  );
+}
+
+/**
+ * Validate a start request body. History is trimmed to the last few messages.
+ */
+export function validateStartRequest(
+  body: Record<string, unknown>
+): { request: StartDeepResearchRequest } | { error: string } {
+  const { query, studyType = 'market_analysis', category, intakeAnswers, skipIntake = false, conversationHistory = [] } = body;
+
+  if (typeof query !== 'string' || !query.trim()) {
+    return { error: 'query is required' };
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    return { error: `query must be ${MAX_QUERY_LENGTH} characters or fewer` };
+  }
+  if (!isStudyType(studyType)) {
+    return { error: `studyType must be one of: ${STUDY_TYPES.join(', ')}` };
+  }
+  if (category !== undefined && typeof category !== 'string') {
+    return { error: 'category must be a string' };
+  }
+  if (intakeAnswers !== undefined && !isIntakeAnswers(intakeAnswers)) {
+    return { error: 'intakeAnswers must map question IDs to strings or string arrays' };
+  }
+  if (typeof skipIntake !== 'boolean') {
+    return { error: 'skipIntake must be a boolean' };
+  }
+  if (!Array.isArray(conversationHistory)) {
+    return { error: 'conversationHistory must be an array' };
+  }
+
+  const history = conversationHistory
+    .filter((m): m is { role: 'user' | 'assistant'; content: string } =>
+      Boolean(m) && (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string'
+    )
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map((m) => ({ role: m.role, content: m.content.slice(0, MAX_HISTORY_CHARS) }));
+
+  return {
+    request: {
+      query: query.trim(),
+      studyType,
+      category: category?.trim() || undefined,
+      intakeAnswers,
+      skipIntake,
+      conversationHistory: history,
+    },
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Snapshots
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * The chat's view of a job. creditsAvailable is filled in by the client.
+ */
+export function toDeepResearchResponse(job: ResearchJob): DeepResearchResponse {
+  const status = job.status as ResearchJobStatus;
+  const phase = JOB_PHASES[status];
+
+  return {
+    type: 'deep_research',
+    jobId: job.id,
+    query: job.query,
+    studyType: job.studyType as StudyType,
+    phase,
+    creditsAvailable: 0,
+    creditsRequired: job.creditsRequired,
+    intake: phase === 'intake' ? job.intake ?? undefined : undefined,
+    commandCenterProgress: phase === 'intake' ? undefined : job.progress ?? undefined,
+    report: job.report ?? undefined,
+    error: job.error ?? (status === 'cancelled' ? CANCELLED_ERROR : undefined),
+    libraryReportId: job.reportId ?? undefined,
+    approvalRequestId: status === 'awaiting_approval' ? job.approvalRequestId ?? undefined : undefined,
+  };
+}
+
+export function toResearchJobSummary(job: ResearchJob): ResearchJobSummary {
+  return {
+    jobId: job.id,
+    query: job.query,
+    studyType: job.studyType as StudyType,
+    status: job.status as ResearchJobStatus,
+    creditsRequired: job.creditsRequired,
+    createdAt: job.createdAt.toISOString(),
+    completedAt: job.completedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * SSE event for a job snapshot. previousPhase is the phase last sent on this
+ * stream (null for the first event), so a new phase is reported as phase_change.
+ */
+export function toResearchEvent(job: ResearchJob, previousPhase: DeepResearchPhase | null): DeepResearchEvent {
+  const data = toDeepResearchResponse(job);
+  let type: DeepResearchEventType = 'step_update';
+  if (data.phase === 'complete') {
+    type = 'report_ready';
+  } else if (data.phase === 'error') {
+    type = 'error';
+  } else if (data.phase !== previousPhase) {
+    type = 'phase_change';
+  }
+
+  return { type, jobId: job.id, timestamp: job.updatedAt.getTime(), data };
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Job Lifecycle
+// ══════════════════════════════════════════════════════════════════
+
+const nextSequence = sql`${researchJobs.sequence} + 1`;
+
+/** Where a job goes once its credits are reserved */
+function getQueuedStatus(reservation: ResearchCreditReservation): ResearchJobStatus {
+  return reservation.approvalRequestId ? 'awaiting_approval' : 'queued';
+}
+
+/**
+ * Release a job's credits after it failed or was cancelled. Errors are logged,
+ * not thrown - the job has already ended.
+ */
+async function releaseJobCredits(job: ResearchJob): Promise<void> {
+  try {
+    await refundResearchJob(job);
+  } catch (error) {
+    console.error(`[Research] Failed to release credits for job ${job.id}:`, error);
+  }
+}
+
+/**
+ * Create a job. It waits for intake answers unless the request already has
+ * them or skips intake, in which case its credits are reserved and it is queued
+ * for the worker straight away (or waits for approval).
+ * A job with reportLineageId refreshes that library report; scheduleId marks a
+ * scheduled run, whose owner is notified when it ends.
+ */
+export async function createResearchJob(
+  userId: string,
+  request: StartDeepResearchRequest,
+  options: { reportLineageId?: string; scheduleId?: string } = {}
+): Promise<ResearchJob> {
+  const db = getDb();
+  const org = await getOrgContext(userId);
+  const companyId = org?.company.id ?? null;
+  const studyType = request.studyType ?? 'market_analysis';
+  const categoryAnswer: IntakeAnswers = request.category ? { category: request.category } : {};
+  const startNow = request.skipIntake || Boolean(request.intakeAnswers);
+
+  let intake = null;
+  if (!startNow) {
+    const history: ChatMessage[] = (request.conversationHistory ?? []).map((message, index) => ({
+      id: `history-${index}`,
+      role: message.role,
+      content: message.content,
+      timestamp: new Date(),
+    }));
+    intake = await withResearchLlm({ userId, companyId }, () =>
+      generateDynamicIntake(request.query, studyType, history, { useLLM: getLlmProvider('gemini').isConfigured() })
+    );
+    intake.prefilledAnswers = { ...intake.prefilledAnswers, ...categoryAnswer };
+
+    // A custom study can be written with one of the company's own templates
+    const templateQuestion = studyType === 'custom' && companyId ? await getTemplateIntakeQuestion(companyId) : null;
+    if (templateQuestion) {
+      intake.questions = [...intake.questions, templateQuestion];
+    }
+  }
+
+  // The hold is keyed by the job, so the ID is needed before the row exists
+  const id = randomUUID();
+  const creditsRequired = getCreditsRequiredForStudy(studyType);
+  const reservation = startNow
+    ? await reserveResearchCredits({ id, userId, query: request.query, studyType, creditsRequired }, request.category)
+    : null;
+
+  try {
+    const [job] = await db.insert(researchJobs).values({
+      id,
+      userId,
+      companyId,
+      query: request.query,
+      studyType,
+      status: reservation ? getQueuedStatus(reservation) : 'intake',
+      intake,
+      intakeAnswers: startNow ? { ...categoryAnswer, ...request.intakeAnswers } : null,
+      progress: startNow ? createInitialProgress() : null,
+      creditsRequired,
+      reportLineageId: options.reportLineageId ?? null,
+      scheduleId: options.scheduleId ?? null,
+      holdId: reservation?.holdId ?? null,
+      approvalRequestId: reservation?.approvalRequestId ?? null,
+    }).returning();
+
+    return job;
+  } catch (error) {
+    if (reservation) {
+      await cancelResearchReservation(userId, reservation);
+    }
+    throw error;
+  }
+}
+
+export async function getResearchJob(userId: string, jobId: string): Promise<ResearchJob | null> {
+  const db = getDb();
+
+  const [job] = await db
+    .select()
+    .from(researchJobs)
+    .where(and(eq(researchJobs.id, jobId), eq(researchJobs.userId, userId)))
+    .limit(1);
+
+  return job ?? null;
+}
+
+export async function listResearchJobs(userId: string, limit = 20): Promise<ResearchJobSummary[]> {
+  const db = getDb();
+
+  const jobs = await db
+    .select()
+    .from(researchJobs)
+    .where(eq(researchJobs.userId, userId))
+    .orderBy(desc(researchJobs.createdAt))
+    .limit(limit);
+
+  return jobs.map(toResearchJobSummary);
+}
+
+/**
+ * Store the intake answers, reserve the job's credits and queue it for the
+ * worker, or for approval when the cost is over the auto-approval threshold
+ */
+export async function confirmResearchIntake(userId: string, jobId: string, answers: IntakeAnswers): Promise<ResearchJob> {
+  const db = getDb();
+
+  const existing = await getResearchJob(userId, jobId);
+  if (!existing) {
+    throw new Error('Research job not found');
+  }
+  if (existing.status !== 'intake') {
+    throw new Error('Research job is not awaiting intake');
+  }
+
+  const category = typeof answers.category === 'string' ? answers.category : undefined;
+  const reservation = await reserveResearchCredits(existing, category);
+
+  const [job] = await db
+    .update(researchJobs)
+    .set({
+      status: getQueuedStatus(reservation),
+      intakeAnswers: answers,
+      progress: createInitialProgress(),
+      holdId: reservation.holdId,
+      approvalRequestId: reservation.approvalRequestId,
+      sequence: nextSequence,
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(researchJobs.id, jobId),
+      eq(researchJobs.userId, userId),
+      eq(researchJobs.status, 'intake')
+    ))
+    .returning();
+
+  // Confirmed or cancelled concurrently - only the reservation made here is undone
+  if (!job) {
+    await cancelResearchReservation(userId, reservation);
+    throw new Error('Research job is not awaiting intake');
+  }
+  return job;
+}
+
+/**
+ * Cancel a job that hasn't finished and release its credits. A pending approval
+ * request is withdrawn. A running worker notices on its next write.
+ */
+export async function cancelResearchJob(userId: string, jobId: string): Promise<ResearchJob> {
+  const db = getDb();
+  const now = new Date();
+
+  const [job] = await db
+    .update(researchJobs)
+    .set({
+      status: 'cancelled',
+      error: CANCELLED_ERROR,
+      lockedUntil: null,
+      completedAt: now,
+      sequence: nextSequence,
+      updatedAt: now,
+    })
+    .where(and(
+      eq(researchJobs.id, jobId),
+      eq(researchJobs.userId, userId),
+      inArray(researchJobs.status, ACTIVE_STATUSES)
+    ))
+    .returning();
+
+  if (!job) {
+    const existing = await getResearchJob(userId, jobId);
+    throw new Error(existing ? 'Research job has already finished' : 'Research job not found');
+  }
+
+  try {
+    await cancelResearchReservation(userId, { holdId: job.holdId, approvalRequestId: job.approvalRequestId, created: true });
+  } catch (error) {
+    console.error(`[Research] Failed to release credits for job ${job.id}:`, error);
+  }
+  return job;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Worker LLM Transport
+// ══════════════════════════════════════════════════════════════════
+
+interface ResearchLlmContext {
+  userId: string;
+  companyId: string | null;
+  cancelled?: boolean;
+  pendingUsage?: Promise<void>[];
+}
+
+// Which user a provider call is billed to; the pipeline can't pass it through
+const llmContext = new AsyncLocalStorage<ResearchLlmContext>();
+
+function recordUsage(
+  context: ResearchLlmContext,
+  call: { provider: LlmProviderName; model: string; stream: boolean; payloadChars: number; startedAt: number },
+  ok: boolean,
+  usage: LlmTokenUsage | null,
+  completionChars: number
+) {
+  const pending = recordLlmUsage({
+    userId: context.userId,
+    companyId: context.companyId,
+    provider: call.provider,
+    model: call.model,
+    stream: call.stream,
+    status: ok ? 'success' : 'error',
+    usage: usage ?? estimateTokenUsage(ok ? call.payloadChars : 0, completionChars),
+    estimated: ok && !usage,
+    latencyMs: Date.now() - call.startedAt,
+  }).catch((err) => console.error('Failed to record LLM usage:', err));
+  context.pendingUsage?.push(pending);
+}
+
+/**
+ * Calls providers directly instead of through /api/llm, logging usage against
+ * the job's user the same way the gateway does.
+ */
+export const researchLlmTransport: LlmTransport = {
+  isAvailable(provider) {
+    return getLlmProvider(provider).isConfigured();
+  },
+
+  async send(providerName, { model, payload, stream = false, signal }) {
+    const context = llmContext.getStore();
+    if (context?.cancelled) {
+      throw new Error('Research job was cancelled');
+    }
+
+    const provider = getLlmProvider(providerName);
+    const call = { provider: providerName, model, stream, payloadChars: JSON.stringify(payload).length, startedAt: Date.now() };
+    const response = await provider.send({ model, payload, stream, signal });
+
+    if (!context) {
+      return response;
+    }
+    if (!response.ok) {
+      recordUsage(context, call, false, null, 0);
+      return response;
+    }
+
+    if (stream && response.body) {
+      const tracker = new SseUsageTracker(provider);
+      const decoder = new TextDecoder();
+      const body = response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          tracker.push(decoder.decode(chunk, { stream: true }));
+          controller.enqueue(chunk);
+        },
+        flush() {
+          recordUsage(context, call, true, tracker.finish(), tracker.chars);
+        },
+      }));
+      return new Response(body, { status: response.status, headers: response.headers });
+    }
+
+    const text = await response.text();
+    let usage: LlmTokenUsage | null = null;
+    try {
+      usage = provider.extractUsage(JSON.parse(text));
+    } catch {
+      // Not JSON - estimated from length
+    }
+    recordUsage(context, call, true, usage, text.length);
+    return new Response(text, { status: response.status, headers: response.headers });
+  },
+};
+
+/**
+ * Run the pipeline code in fn with provider calls billed to the given user
+ */
+export async function withResearchLlm<T>(context: ResearchLlmContext, fn: () => Promise<T>): Promise<T> {
+  setLlmTransport(researchLlmTransport);
+  // Same object, so the worker can flag a cancellation mid-run
+  const pendingUsage: Promise<void>[] = [];
+  context.pendingUsage = pendingUsage;
+  try {
+    return await llmContext.run(context, fn);
+  } finally {
+    await Promise.all(pendingUsage);
+  }
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Worker
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Move jobs whose approval request was decided: approved jobs are queued, and
+ * denied, cancelled or expired ones fail with their held credits released
+ */
+export async function resolveResearchApprovals(now: Date = new Date()): Promise<void> {
+  const db = getDb();
+
+  const decided = await db
+    .select({ job: researchJobs, approvalStatus: approvalRequests.status })
+    .from(researchJobs)
+    .innerJoin(approvalRequests, eq(approvalRequests.id, researchJobs.approvalRequestId))
+    .where(and(
+      eq(researchJobs.status, 'awaiting_approval'),
+      inArray(approvalRequests.status, ['approved', 'denied', 'cancelled', 'expired'])
+    ));
+
+  for (const { job, approvalStatus } of decided) {
+    const waiting = and(eq(researchJobs.id, job.id), eq(researchJobs.status, 'awaiting_approval'));
+
+    if (approvalStatus === 'approved') {
+      await db
+        .update(researchJobs)
+        .set({ status: 'queued', sequence: nextSequence, updatedAt: now })
+        .where(waiting);
+      continue;
+    }
+
+    const [failed] = await db
+      .update(researchJobs)
+      .set({
+        status: 'error',
+        error: NOT_APPROVED_ERROR,
+        completedAt: now,
+        sequence: nextSequence,
+        updatedAt: now,
+      })
+      .where(waiting)
+      .returning();
+    if (failed) {
+      await releaseJobCredits(failed);
+    }
+  }
+}
+
+/**
+ * Claim the oldest queued job, or a processing job whose lease lapsed.
+ * The attempts check makes the claim safe against a concurrent worker.
+ * Jobs abandoned MAX_ATTEMPTS times are failed instead of retried, and
+ * their credits released.
+ */
+export async function claimResearchJob(now: Date = new Date()): Promise<ResearchJob | null> {
+  const db = getDb();
+
+  await resolveResearchApprovals(now);
+
+  const candidates = await db
+    .select()
+    .from(researchJobs)
+    .where(or(
+      eq(researchJobs.status, 'queued'),
+      and(eq(researchJobs.status, 'processing'), lt(researchJobs.lockedUntil, now))
+    ))
+    .orderBy(asc(researchJobs.createdAt))
+    .limit(5);
+
+  for (const candidate of candidates) {
+    const claimable = and(
+      eq(researchJobs.id, candidate.id),
+      eq(researchJobs.status, candidate.status),
+      eq(researchJobs.attempts, candidate.attempts)
+    );
+
+    if (candidate.attempts >= MAX_ATTEMPTS) {
+      const [failed] = await db
+        .update(researchJobs)
+        .set({
+          status: 'error',
+          error: INTERRUPTED_ERROR,
+          lockedUntil: null,
+          completedAt: now,
+          sequence: nextSequence,
+          updatedAt: now,
+        })
+        .where(claimable)
+        .returning();
+      if (failed) {
+        await releaseJobCredits(failed);
+      }
+      continue;
+    }
+
+    const [claimed] = await db
+      .update(researchJobs)
+      .set({
+        status: 'processing',
+        attempts: candidate.attempts + 1,
+        lockedUntil: new Date(now.getTime() + LEASE_MS),
+        startedAt: candidate.startedAt ?? now,
+        sequence: nextSequence,
+        updatedAt: now,
+      })
+      .where(claimable)
+      .returning();
+
+    if (claimed) {
+      return claimed;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Run a claimed job to completion, persisting progress as it goes, save the
+ * report to the library and charge the credits it used. A failed run releases
+ * the held credits.
+ * A retried job starts the pipeline over; a cancelled job stops making provider calls.
+ */
+export async function runResearchJob(job: ResearchJob): Promise<ResearchJob | null> {
+  const db = getDb();
+  const studyType = job.studyType as StudyType;
+  const context: ResearchLlmContext = { userId: job.userId, companyId: job.companyId };
+
+  // Only this attempt's worker may write to the job
+  const ownsJob = and(
+    eq(researchJobs.id, job.id),
+    eq(researchJobs.status, 'processing'),
+    eq(researchJobs.attempts, job.attempts)
+  );
+
+  const write = async (values: Partial<ResearchJob>, bumpSequence = true): Promise<ResearchJob | null> => {
+    const [row] = await db
+      .update(researchJobs)
+      .set({
+        ...values,
+        ...(bumpSequence ? { sequence: nextSequence } : {}),
+        updatedAt: new Date(),
+      })
+      .where(ownsJob)
+      .returning();
+    if (!row) {
+      context.cancelled = true;
+    }
+    return row ?? null;
+  };
+
+  const lease = () => new Date(Date.now() + LEASE_MS);
+
+  const quota = evaluateLlmQuota(await getLlmUsageTotals(job.userId, job.companyId), getLlmQuotaLimits());
+  if (!quota.allowed) {
+    const failed = await write({
+      status: 'error',
+      error: { message: 'Your daily AI token quota is used up. Research can run again after it resets.', code: 'QUOTA_EXCEEDED', canRetry: true },
+      lockedUntil: null,
+      completedAt: new Date(),
+    });
+    if (failed) {
+      await releaseJobCredits(failed);
+    }
+    return failed;
+  }
+
+  let companyTemplate = null;
+  try {
+    companyTemplate = await resolveJobTemplate(job);
+  } catch (error) {
+    console.error('[Research] Failed to load the report template, using the default:', error);
+  }
+
+  let latest: DeepResearchResponse | null = null;
+  let lastWriteAt = 0;
+  let pendingWrite: Promise<unknown> = Promise.resolve();
+
+  const flushProgress = () => {
+    if (!latest?.commandCenterProgress || context.cancelled) return;
+    const progress = latest.commandCenterProgress;
+    latest = null;
+    lastWriteAt = Date.now();
+    pendingWrite = pendingWrite
+      .then(() => write({ progress, lockedUntil: lease() }))
+      .catch((err) => console.error('[Research] Failed to save progress:', err));
+  };
+
+  const heartbeat = setInterval(() => {
+    pendingWrite = pendingWrite
+      .then(() => write({ lockedUntil: lease() }, false))
+      .catch((err) => console.error('[Research] Failed to renew lease:', err));
+  }, HEARTBEAT_MS);
+
+  let result: DeepResearchResponse;
+  try {
+    result = await withResearchLlm(context, () =>
+      executeDeepResearch(job.id, job.query, job.intakeAnswers ?? {}, studyType, (update) => {
+        latest = update;
+        if (Date.now() - lastWriteAt >= PROGRESS_WRITE_MS) {
+          flushProgress();
+        }
+      }, companyTemplate)
+    );
+  } catch (error) {
+    console.error('[Research] Pipeline failed:', error);
+    result = {
+      ...toDeepResearchResponse(job),
+      phase: 'error',
+      error: { message: 'Research failed unexpectedly. Please try again.', canRetry: true },
+    };
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  await pendingWrite;
+  if (context.cancelled) {
+    return null;
+  }
+
+  const complete = result.phase === 'complete' && Boolean(result.report);
+
+  // Saved before the final write so the report_ready event carries the library ID
+  let saved: ResearchReport | null = null;
+  if (complete) {
+    try {
+      saved = await saveResearchReport(job, result.report!);
+    } catch (error) {
+      console.error('[Research] Failed to save report to the library:', error);
+    }
+  }
+
+  const finished = await write({
+    status: complete ? 'complete' : 'error',
+    progress: result.commandCenterProgress ?? job.progress,
+    report: complete ? result.report : null,
+    error: complete ? null : result.error ?? { message: 'Research did not produce a report.', canRetry: true },
+    reportId: saved?.id ?? null,
+    lockedUntil: null,
+    completedAt: new Date(),
+  });
+
+  // Cancelled while saving - the report doesn't belong in the library
+  if (!finished && saved) {
+    await db.delete(researchReports).where(eq(researchReports.id, saved.id));
+  }
+  if (!finished) {
+    return null;
+  }
+
+  if (complete) {
+    try {
+      await chargeResearchJob(finished, result.report!.creditsUsed ?? finished.creditsRequired);
+    } catch (error) {
+      // The hold stays active; reconciliation flags it for conversion
+      console.error(`[Research] Failed to charge credits for job ${finished.id}:`, error);
+    }
+  } else {
+    await releaseJobCredits(finished);
+  }
+  // notifyUser is best-effort, but the previous-version lookup can still throw
+  try {
+    await notifyScheduledRun(finished, saved);
+  } catch (error) {
+    console.error(`[Research] Failed to notify about scheduled job ${finished.id}:`, error);
+  }
+  return finished;
+}
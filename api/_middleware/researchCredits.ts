@@ -0,0 +1,144 @@
+// Research Credits Middleware - Deep research billing: a credit hold taken when the
+// job is queued, approval routing above the auto threshold, and settling the hold
+// once the job ends (converted for a finished report, released otherwise)
+import type { ResearchJob } from '../../src/db/schema.js';
+import { getStudyTypeLabel } from '../../src/services/deepResearchScoring.js';
+import type { StudyType } from '../../src/types/deepResearch.js';
+import {
+  convertHold,
+  createHold,
+  getAccountForUser,
+  getSpendingTeamForUser,
+  releaseHold,
+} from './credits.js';
+import {
+  cancelRequest,
+  fulfillRequest,
+  getApprovalChain,
+  submitRequest,
+} from './approvals.js';
+
+const MAX_TITLE_QUERY_LENGTH = 80;
+
+export interface ResearchCreditReservation {
+  holdId: string | null;             // null when the user has no credit account
+  approvalRequestId: string | null;  // Set when the cost needed approval
+  created: boolean;                  // False when the hold already existed
+}
+
+type BillableJob = Pick<ResearchJob, 'id' | 'userId' | 'query' | 'studyType' | 'creditsRequired'>;
+
+const NO_RESERVATION: ResearchCreditReservation = { holdId: null, approvalRequestId: null, created: false };
+
+function getRequestTitle(job: BillableJob): string {
+  const query = job.query.length > MAX_TITLE_QUERY_LENGTH
+    ? `${job.query.slice(0, MAX_TITLE_QUERY_LENGTH - 1)}…`
+    : job.query;
+  return `${getStudyTypeLabel(job.studyType as StudyType)}: ${query}`;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Reservation
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Hold the job's credits. The hold is keyed by the job, so the ledger entry it
+ * becomes references the job. Costs over the company's auto-approval threshold
+ * are also submitted for approval; the job waits until the request is decided.
+ * Throws "Insufficient credits" or "Insufficient team budget" when the hold can't be taken.
+ */
+export async function reserveResearchCredits(
+  job: BillableJob,
+  category?: string
+): Promise<ResearchCreditReservation> {
+  const account = await getAccountForUser(job.userId);
+  const teamId = account ? await getSpendingTeamForUser(job.userId) : null;
+  if (!account || !teamId) {
+    // No company credit account - research isn't metered
+    return NO_RESERVATION;
+  }
+
+  const hold = await createHold(account.id, job.id, job.creditsRequired, teamId);
+  const reservation = { holdId: hold.holdId, approvalRequestId: null, created: hold.created };
+
+  const chain = await getApprovalChain(account.companyId, {
+    requestType: 'deep_research',
+    teamId,
+    category,
+    estimatedCredits: job.creditsRequired,
+  });
+  if (chain.autoApproved) {
+    return reservation;
+  }
+
+  try {
+    const submitted = await submitRequest({
+      companyId: account.companyId,
+      teamId,
+      requesterId: job.userId,
+      requestType: 'deep_research',
+      title: getRequestTitle(job),
+      context: { researchJobId: job.id, queryText: job.query, category },
+      estimatedCredits: job.creditsRequired,
+      holdId: hold.holdId,
+    });
+    return { ...reservation, approvalRequestId: submitted.autoApproved ? null : submitted.request.id };
+  } catch (error) {
+    if (hold.created) {
+      await releaseHold(hold.holdId);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Undo a reservation for a job that was cancelled or could not be queued after all.
+ * The approval request is withdrawn if it is still open.
+ */
+export async function cancelResearchReservation(
+  userId: string,
+  reservation: ResearchCreditReservation
+): Promise<void> {
+  if (reservation.approvalRequestId) {
+    try {
+      await cancelRequest(reservation.approvalRequestId, userId, 'Research was cancelled');
+    } catch (error) {
+      // Already denied or expired - nothing left to withdraw
+      console.warn(`[Research] Could not cancel approval request ${reservation.approvalRequestId}:`, error);
+    }
+  }
+  if (reservation.holdId && reservation.created) {
+    await releaseHold(reservation.holdId);
+  }
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Settlement
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Charge a finished job: the hold becomes a ledger entry for the credits the
+ * report used (never more than was held), and an approved request is fulfilled.
+ */
+export async function chargeResearchJob(job: ResearchJob, creditsUsed: number): Promise<void> {
+  if (job.holdId) {
+    await convertHold(job.holdId, job.userId, {
+      amount: creditsUsed,
+      referenceType: 'research_job',
+      referenceId: job.id,
+      description: `Report ready: ${getRequestTitle(job)}`,
+    });
+  }
+  if (job.approvalRequestId) {
+    await fulfillRequest(job.approvalRequestId, job.userId, Math.min(creditsUsed, job.creditsRequired));
+  }
+}
+
+/**
+ * Give back the credits held for a job that failed, timed out or was cancelled
+ */
+export async function refundResearchJob(job: Pick<ResearchJob, 'holdId'>): Promise<void> {
+  if (job.holdId) {
+    await releaseHold(job.holdId);
+  }
+}
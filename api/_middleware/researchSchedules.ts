@@ -0,0 +1,322 @@
+// Research Schedules Middleware - Saved deep research studies that re-run on a cron
+// cadence. Every run is a job charged like any other, saved as the next version of
+// the schedule's library report.
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { and, asc, count, desc, eq, lte } from 'drizzle-orm';
+import { researchSchedules, type ResearchSchedule as ResearchScheduleRow } from '../../src/db/schema.js';
+import {
+  STUDY_TYPES,
+  getCreditsRequiredForStudy,
+  type IntakeAnswers,
+  type ResearchSchedule,
+  type ResearchScheduleInput,
+  type StudyType,
+} from '../../src/types/deepResearch.js';
+import { getNextCronRun, parseCron } from '../../src/utils/cron.js';
+import { notifyUser } from './notifications.js';
+import { getOrgContext } from './organization.js';
+import { getActiveRefresh } from './reports.js';
+import { MAX_QUERY_LENGTH, createResearchJob, isIntakeAnswers } from './research.js';
+
+const getDb = () => {
+  const client = neon(process.env.DATABASE_URL!);
+  return drizzle(client);
+};
+
+const MAX_NAME_LENGTH = 120;
+export const MAX_SCHEDULES_PER_USER = 20;
+// Due schedules started per cron run; the rest wait for the next run
+const MAX_DUE_PER_RUN = 25;
+
+export type ValidScheduleInput = Required<ResearchScheduleInput>;
+
+export interface ScheduleRunResult {
+  started: { scheduleId: string; jobId: string }[];
+  skipped: { scheduleId: string; reason: string }[];
+  failed: string[];
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Validation
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Validate a create/update body. Cadences may run at most once a day, since
+ * every run is charged in full.
+ */
+export function validateResearchScheduleInput(body: unknown): { schedule: ValidScheduleInput } | { error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Request body is required' };
+  }
+  const input = body as Record<string, unknown>;
+
+  const query = typeof input.query === 'string' ? input.query.trim() : '';
+  if (!query || query.length > MAX_QUERY_LENGTH) {
+    return { error: `query is required (max ${MAX_QUERY_LENGTH} characters)` };
+  }
+
+  if (input.name !== undefined && typeof input.name !== 'string') {
+    return { error: 'name must be a string' };
+  }
+  const name = (input.name as string | undefined)?.trim() || query.slice(0, MAX_NAME_LENGTH);
+  if (name.length > MAX_NAME_LENGTH) {
+    return { error: `name must be ${MAX_NAME_LENGTH} characters or fewer` };
+  }
+
+  if (!(STUDY_TYPES as unknown[]).includes(input.studyType)) {
+    return { error: `studyType must be one of: ${STUDY_TYPES.join(', ')}` };
+  }
+
+  const intakeAnswers = input.intakeAnswers ?? {};
+  if (!isIntakeAnswers(intakeAnswers)) {
+    return { error: 'intakeAnswers must map question IDs to strings or string arrays' };
+  }
+
+  if (typeof input.cadence !== 'string') {
+    return { error: 'cadence is required' };
+  }
+  const parsed = parseCron(input.cadence);
+  if ('error' in parsed) {
+    return { error: `cadence is invalid: ${parsed.error}` };
+  }
+  if (parsed.schedule.minutes.length > 1 || parsed.schedule.hours.length > 1) {
+    return { error: 'cadence can run at most once a day' };
+  }
+  if (!getNextCronRun(parsed.schedule, new Date())) {
+    return { error: 'cadence never runs' };
+  }
+
+  if (input.isActive !== undefined && typeof input.isActive !== 'boolean') {
+    return { error: 'isActive must be a boolean' };
+  }
+
+  return {
+    schedule: {
+      name,
+      query,
+      studyType: input.studyType as StudyType,
+      intakeAnswers,
+      cadence: input.cadence.trim(),
+      isActive: input.isActive !== false,
+    },
+  };
+}
+
+/**
+ * Next run after `after`. Cadences are validated on save, so null only
+ * happens for a row edited by hand.
+ */
+export function getNextScheduleRun(cadence: string, after: Date): Date | null {
+  const parsed = parseCron(cadence);
+  return 'error' in parsed ? null : getNextCronRun(parsed.schedule, after);
+}
+
+function getCategory(answers: IntakeAnswers): string | undefined {
+  const answer = answers.category;
+  return (Array.isArray(answer) ? answer[0] : answer)?.trim() || undefined;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Snapshots
+// ══════════════════════════════════════════════════════════════════
+
+export function toResearchSchedule(row: ResearchScheduleRow): ResearchSchedule {
+  const studyType = row.studyType as StudyType;
+  return {
+    id: row.id,
+    name: row.name,
+    query: row.query,
+    studyType,
+    intakeAnswers: row.intakeAnswers,
+    cadence: row.cadence,
+    isActive: row.isActive,
+    creditsPerRun: getCreditsRequiredForStudy(studyType),
+    nextRunAt: row.nextRunAt.toISOString(),
+    lastRunAt: row.lastRunAt?.toISOString() ?? null,
+    lastJobId: row.lastJobId,
+    reportLineageId: row.reportLineageId,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Schedule CRUD
+// ══════════════════════════════════════════════════════════════════
+
+export async function listResearchSchedules(userId: string): Promise<ResearchSchedule[]> {
+  const db = getDb();
+
+  const rows = await db
+    .select()
+    .from(researchSchedules)
+    .where(eq(researchSchedules.userId, userId))
+    .orderBy(desc(researchSchedules.createdAt));
+
+  return rows.map(toResearchSchedule);
+}
+
+export async function getResearchSchedule(userId: string, scheduleId: string): Promise<ResearchSchedule | null> {
+  const db = getDb();
+
+  const [row] = await db
+    .select()
+    .from(researchSchedules)
+    .where(and(eq(researchSchedules.id, scheduleId), eq(researchSchedules.userId, userId)))
+    .limit(1);
+
+  return row ? toResearchSchedule(row) : null;
+}
+
+/**
+ * Save a schedule. The first run is the cadence's next time, not now.
+ * Throws "Schedule limit reached" at MAX_SCHEDULES_PER_USER.
+ */
+export async function createResearchSchedule(
+  userId: string,
+  input: ValidScheduleInput,
+  now: Date = new Date()
+): Promise<ResearchSchedule> {
+  const db = getDb();
+
+  const [existing] = await db
+    .select({ total: count() })
+    .from(researchSchedules)
+    .where(eq(researchSchedules.userId, userId));
+  if ((existing?.total ?? 0) >= MAX_SCHEDULES_PER_USER) {
+    throw new Error('Schedule limit reached');
+  }
+
+  const org = await getOrgContext(userId);
+  const [row] = await db
+    .insert(researchSchedules)
+    .values({
+      userId,
+      companyId: org?.company.id ?? null,
+      ...input,
+      nextRunAt: getNextScheduleRun(input.cadence, now)!,
+    })
+    .returning();
+
+  return toResearchSchedule(row);
+}
+
+/**
+ * Replace a schedule's settings; the next run is recomputed from now.
+ * Returns null if the schedule is not the user's.
+ */
+export async function updateResearchSchedule(
+  userId: string,
+  scheduleId: string,
+  input: ValidScheduleInput,
+  now: Date = new Date()
+): Promise<ResearchSchedule | null> {
+  const db = getDb();
+
+  const [row] = await db
+    .update(researchSchedules)
+    .set({
+      ...input,
+      nextRunAt: getNextScheduleRun(input.cadence, now)!,
+      updatedAt: now,
+    })
+    .where(and(eq(researchSchedules.id, scheduleId), eq(researchSchedules.userId, userId)))
+    .returning();
+
+  return row ? toResearchSchedule(row) : null;
+}
+
+/**
+ * Delete a schedule. Its reports stay in the library.
+ */
+export async function deleteResearchSchedule(userId: string, scheduleId: string): Promise<boolean> {
+  const db = getDb();
+
+  const deleted = await db
+    .delete(researchSchedules)
+    .where(and(eq(researchSchedules.id, scheduleId), eq(researchSchedules.userId, userId)))
+    .returning({ id: researchSchedules.id });
+
+  return deleted.length > 0;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Runs
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Start a job for every active schedule that is due. Each schedule is claimed by
+ * moving its next run forward first, so overlapping cron runs can't start it twice.
+ * A schedule whose previous run hasn't finished skips this run, and a run the
+ * user can't pay for is skipped with a notification.
+ */
+export async function processDueSchedules(now: Date = new Date()): Promise<ScheduleRunResult> {
+  const db = getDb();
+  const result: ScheduleRunResult = { started: [], skipped: [], failed: [] };
+
+  const due = await db
+    .select()
+    .from(researchSchedules)
+    .where(and(eq(researchSchedules.isActive, true), lte(researchSchedules.nextRunAt, now)))
+    .orderBy(asc(researchSchedules.nextRunAt))
+    .limit(MAX_DUE_PER_RUN);
+
+  for (const schedule of due) {
+    const nextRunAt = getNextScheduleRun(schedule.cadence, now);
+    const [claimed] = await db
+      .update(researchSchedules)
+      .set(nextRunAt
+        ? { nextRunAt, lastRunAt: now, updatedAt: now }
+        : { isActive: false, lastRunAt: now, updatedAt: now })
+      .where(and(eq(researchSchedules.id, schedule.id), eq(researchSchedules.nextRunAt, schedule.nextRunAt)))
+      .returning({ id: researchSchedules.id });
+    if (!claimed) {
+      continue;
+    }
+
+    try {
+      if (await getActiveRefresh(schedule.reportLineageId)) {
+        result.skipped.push({ scheduleId: schedule.id, reason: 'previous_run_active' });
+        continue;
+      }
+
+      const job = await createResearchJob(
+        schedule.userId,
+        {
+          query: schedule.query,
+          studyType: schedule.studyType as StudyType,
+          category: getCategory(schedule.intakeAnswers),
+          intakeAnswers: schedule.intakeAnswers,
+          skipIntake: true,
+        },
+        { reportLineageId: schedule.reportLineageId, scheduleId: schedule.id }
+      );
+      await db
+        .update(researchSchedules)
+        .set({ lastJobId: job.id })
+        .where(eq(researchSchedules.id, schedule.id));
+      result.started.push({ scheduleId: schedule.id, jobId: job.id });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      // The credit errors carry the balance after the prefix, e.g. 'Insufficient credits. Available: …'
+      const creditShortfall = message.startsWith('Insufficient credits');
+      if (creditShortfall || message.startsWith('Insufficient team budget')) {
+        result.skipped.push({ scheduleId: schedule.id, reason: 'insufficient_credits' });
+        await notifyUser({
+          userId: schedule.userId,
+          type: 'report_ready',
+          title: `Scheduled research skipped: ${schedule.name}`,
+          description: creditShortfall
+            ? 'There were not enough credits for this run. It will try again at its next scheduled time.'
+            : "This run would exceed your team's budget. It will try again at its next scheduled time.",
+          metadata: { scheduleId: schedule.id },
+        });
+      } else {
+        console.error(`[Research] Failed to start scheduled run for ${schedule.id}:`, error);
+        result.failed.push(schedule.id);
+      }
+    }
+  }
+
+  return result;
+}
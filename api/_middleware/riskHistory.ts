@@ -0,0 +1,187 @@
+// Risk History Middleware - Dated supplier score series with downsampling for charts
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { eq, and, gte, lte, asc } from 'drizzle-orm';
+import { supplierRiskScoreHistory, suppliers, type RiskFactorScore } from '../../src/db/schema.js';
+import { getRiskLevelFromScore, type RiskLevel } from '../../src/types/supplier.js';
+import type {
+  RiskFactorHistoryValue,
+  RiskScoreHistory,
+  RiskScoreHistoryPoint,
+} from '../../src/types/riskHistory.js';
+import { canViewConditionalData, type DataEntitlements } from './redaction.js';
+
+const getDb = () => {
+  const client = neon(process.env.DATABASE_URL!);
+  return drizzle(client);
+};
+
+export interface HistoryRow {
+  score: number;
+  level: string;
+  factors: RiskFactorScore[] | null;
+  recordedAt: Date;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Recording
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Append one dated observation. Called for every recorded score, unchanged
+ * ones included, so a range query always has the points the feed delivered.
+ */
+export async function appendRiskScoreHistory(
+  supplierId: string,
+  entry: { score: number; level: string; factors?: RiskFactorScore[] | null; recordedAt?: Date }
+): Promise<void> {
+  const db = getDb();
+  await db.insert(supplierRiskScoreHistory).values({
+    supplierId,
+    score: entry.score,
+    level: entry.level,
+    factors: entry.factors ?? [],
+    recordedAt: entry.recordedAt ?? new Date(),
+  });
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Downsampling
+// ══════════════════════════════════════════════════════════════════
+
+// Same tier rules as redactFactors: conditional scores need the caller's entitlement
+function toFactorValues(factors: RiskFactorScore[] | null, showConditional: boolean): RiskFactorHistoryValue[] {
+  return (factors ?? []).map((factor) => {
+    const restricted = factor.tier === 'restricted';
+    const hidden = restricted || (factor.tier === 'conditionally-displayable' && !showConditional);
+    return {
+      id: factor.id,
+      name: factor.name,
+      score: hidden ? null : factor.score ?? null,
+      restricted,
+    };
+  });
+}
+
+function toPoint(rows: HistoryRow[], includeFactors: boolean, showConditional: boolean): RiskScoreHistoryPoint {
+  const scores = rows.map((row) => row.score);
+  const score = Math.round(scores.reduce((sum, value) => sum + value, 0) / rows.length);
+  const last = rows[rows.length - 1];
+
+  const point: RiskScoreHistoryPoint = {
+    date: last.recordedAt.toISOString(),
+    score,
+    min: Math.min(...scores),
+    max: Math.max(...scores),
+    level: rows.length === 1 ? (last.level as RiskLevel) : getRiskLevelFromScore(score),
+    samples: rows.length,
+  };
+
+  if (includeFactors) {
+    // Average each factor across the bucket, keeping the order of the latest row
+    const byFactor = new Map<string, { total: number; count: number }>();
+    for (const row of rows) {
+      for (const factor of toFactorValues(row.factors, showConditional)) {
+        if (factor.score === null) continue;
+        const entry = byFactor.get(factor.id) ?? { total: 0, count: 0 };
+        entry.total += factor.score;
+        entry.count += 1;
+        byFactor.set(factor.id, entry);
+      }
+    }
+    point.factors = toFactorValues(last.factors, showConditional).map((factor) => {
+      const entry = byFactor.get(factor.id);
+      return {
+        ...factor,
+        score: !entry?.count ? null : Math.round(entry.total / entry.count),
+      };
+    });
+  }
+
+  return point;
+}
+
+/**
+ * Reduce rows (oldest first) to at most `maxPoints` by averaging equal-width
+ * time buckets between `from` and `to`. Empty buckets are skipped rather than
+ * interpolated, so gaps in the feed stay visible. Conditionally-displayable
+ * factor scores are hidden unless `showConditional` is set.
+ */
+export function downsampleHistory(
+  rows: HistoryRow[],
+  options: { from: Date; to: Date; maxPoints: number; includeFactors?: boolean; showConditional?: boolean }
+): { points: RiskScoreHistoryPoint[]; downsampled: boolean } {
+  const includeFactors = options.includeFactors ?? false;
+  const showConditional = options.showConditional ?? false;
+
+  if (rows.length <= options.maxPoints) {
+    return { points: rows.map((row) => toPoint([row], includeFactors, showConditional)), downsampled: false };
+  }
+
+  // Start at the first row so ranges reaching back past the data don't leave most buckets empty
+  const start = Math.max(options.from.getTime(), rows[0].recordedAt.getTime());
+  const span = Math.max(1, options.to.getTime() - start);
+  const buckets: HistoryRow[][] = Array.from({ length: options.maxPoints }, () => []);
+
+  for (const row of rows) {
+    const offset = row.recordedAt.getTime() - start;
+    const index = Math.min(options.maxPoints - 1, Math.max(0, Math.floor((offset / span) * options.maxPoints)));
+    buckets[index].push(row);
+  }
+
+  return {
+    points: buckets.filter((bucket) => bucket.length > 0).map((bucket) => toPoint(bucket, includeFactors, showConditional)),
+    downsampled: true,
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Queries
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Load the series for a supplier. Factor scores are redacted for the caller's
+ * entitlements the same way the supplier detail redacts its current factors;
+ * without entitlements, conditional scores stay hidden.
+ */
+export async function getRiskScoreHistory(
+  supplierId: string,
+  options: { from: Date; to: Date; maxPoints: number; includeFactors?: boolean; entitlements?: DataEntitlements }
+): Promise<RiskScoreHistory> {
+  const db = getDb();
+
+  let showConditional = false;
+  if (options.includeFactors && options.entitlements) {
+    const [supplier] = await db
+      .select({ category: suppliers.category })
+      .from(suppliers)
+      .where(eq(suppliers.id, supplierId))
+      .limit(1);
+    showConditional = supplier ? canViewConditionalData(options.entitlements, supplier.category) : false;
+  }
+
+  const rows = await db
+    .select({
+      score: supplierRiskScoreHistory.score,
+      level: supplierRiskScoreHistory.level,
+      factors: supplierRiskScoreHistory.factors,
+      recordedAt: supplierRiskScoreHistory.recordedAt,
+    })
+    .from(supplierRiskScoreHistory)
+    .where(and(
+      eq(supplierRiskScoreHistory.supplierId, supplierId),
+      gte(supplierRiskScoreHistory.recordedAt, options.from),
+      lte(supplierRiskScoreHistory.recordedAt, options.to)
+    ))
+    .orderBy(asc(supplierRiskScoreHistory.recordedAt));
+
+  const { points, downsampled } = downsampleHistory(rows, { ...options, showConditional });
+
+  return {
+    supplierId,
+    from: options.from.toISOString(),
+    to: options.to.toISOString(),
+    downsampled,
+    points,
+  };
+}
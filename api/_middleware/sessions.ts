@@ -0,0 +1,238 @@
+// Session Middleware - Session lifecycle: creation, sliding expiry, rotation, revocation
+import type { VercelRequest } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { eq, and, ne, gt, desc } from 'drizzle-orm';
+import { sessions } from '../../src/db/schema.js';
+import type { Session } from '../../src/db/schema.js';
+import { generateSessionToken } from '../../src/services/auth.js';
+import { SESSION_DURATION_SECONDS } from '../../src/types/auth.js';
+
+const getDb = () => {
+  const client = neon(process.env.DATABASE_URL!);
+  return drizzle(client);
+};
+
+// Write last-seen/expiry at most this often per session
+export const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+const MAX_USER_AGENT_LENGTH = 512;
+
+// ══════════════════════════════════════════════════════════════════
+// Types
+// ══════════════════════════════════════════════════════════════════
+
+export interface SessionClientInfo {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+export interface SessionSummary {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+/** What to do with a session when it is used */
+export type SessionRefreshAction = 'rotate' | 'touch' | null;
+
+export interface RefreshedSession {
+  token: string;
+  expiresAt: Date;
+  rotated: boolean;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Helpers
+// ══════════════════════════════════════════════════════════════════
+
+export function getSessionClientInfo(req: VercelRequest): SessionClientInfo {
+  const userAgent = req.headers['user-agent'];
+  const forwarded = (req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim();
+
+  return {
+    userAgent: typeof userAgent === 'string' ? userAgent.slice(0, MAX_USER_AGENT_LENGTH) : null,
+    ipAddress: forwarded || null,
+  };
+}
+
+/**
+ * Short human label for a user agent, e.g. "Chrome on macOS"
+ */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\/|Opera/.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : null;
+
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X|Macintosh/.test(userAgent) ? 'macOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+}
+
+/**
+ * Rotation wins over touching; otherwise touch once per interval
+ */
+export function planSessionRefresh(
+  session: Pick<Session, 'lastSeenAt' | 'rotateRequestedAt'>,
+  now: Date
+): SessionRefreshAction {
+  if (session.rotateRequestedAt) {
+    return 'rotate';
+  }
+  if (now.getTime() - session.lastSeenAt.getTime() >= SESSION_TOUCH_INTERVAL_MS) {
+    return 'touch';
+  }
+  return null;
+}
+
+function nextExpiry(now: Date): Date {
+  return new Date(now.getTime() + SESSION_DURATION_SECONDS * 1000);
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Lifecycle
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Start a session for a user, recording the device it came from
+ */
+export async function createSession(
+  userId: string,
+  req: VercelRequest
+): Promise<{ token: string; expiresAt: Date }> {
+  const db = getDb();
+  const token = generateSessionToken();
+  const expiresAt = nextExpiry(new Date());
+
+  await db.insert(sessions).values({
+    userId,
+    token,
+    expiresAt,
+    ...getSessionClientInfo(req),
+  });
+
+  return { token, expiresAt };
+}
+
+/**
+ * Slide expiry forward and rotate the token if a privilege change asked for it.
+ * Returns the token/expiry to send back in the cookie, or null when nothing changed.
+ */
+export async function refreshSession(session: Session, now: Date = new Date()): Promise<RefreshedSession | null> {
+  const action = planSessionRefresh(session, now);
+  if (!action) {
+    return null;
+  }
+
+  const db = getDb();
+  const expiresAt = nextExpiry(now);
+
+  if (action === 'rotate') {
+    const token = generateSessionToken();
+
+    // Guard on the old token so concurrent requests rotate only once
+    const [rotated] = await db
+      .update(sessions)
+      .set({ token, expiresAt, lastSeenAt: now, rotateRequestedAt: null })
+      .where(and(eq(sessions.id, session.id), eq(sessions.token, session.token)))
+      .returning({ id: sessions.id });
+
+    return rotated ? { token, expiresAt, rotated: true } : null;
+  }
+
+  await db
+    .update(sessions)
+    .set({ expiresAt, lastSeenAt: now })
+    .where(eq(sessions.id, session.id));
+
+  return { token: session.token, expiresAt, rotated: false };
+}
+
+/**
+ * Reissue tokens for all of a user's sessions on their next request
+ */
+export async function requestSessionRotation(userId: string): Promise<void> {
+  const db = getDb();
+
+  await db
+    .update(sessions)
+    .set({ rotateRequestedAt: new Date() })
+    .where(eq(sessions.userId, userId));
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Listing and Revocation
+// ══════════════════════════════════════════════════════════════════
+
+export async function listUserSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+  const db = getDb();
+
+  const rows = await db
+    .select()
+    .from(sessions)
+    .where(and(eq(sessions.userId, userId), gt(sessions.expiresAt, new Date())))
+    .orderBy(desc(sessions.lastSeenAt));
+
+  return rows.map((row) => ({
+    id: row.id,
+    device: describeUserAgent(row.userAgent),
+    userAgent: row.userAgent,
+    ipAddress: row.ipAddress,
+    createdAt: row.createdAt,
+    lastSeenAt: row.lastSeenAt,
+    expiresAt: row.expiresAt,
+    current: row.id === currentSessionId,
+  }));
+}
+
+/**
+ * Revoke one of the user's sessions. Returns false if it is not theirs.
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const db = getDb();
+
+  const [revoked] = await db
+    .delete(sessions)
+    .where(and(eq(sessions.id, sessionId), eq(sessions.userId, userId)))
+    .returning({ id: sessions.id });
+
+  return !!revoked;
+}
+
+/**
+ * Sign the user out everywhere, optionally keeping the current session
+ */
+export async function revokeUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+  const db = getDb();
+
+  const revoked = await db
+    .delete(sessions)
+    .where(
+      exceptSessionId
+        ? and(eq(sessions.userId, userId), ne(sessions.id, exceptSessionId))
+        : eq(sessions.userId, userId)
+    )
+    .returning({ id: sessions.id });
+
+  return revoked.length;
+}
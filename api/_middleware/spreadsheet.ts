@@ -0,0 +1,500 @@
+// Spreadsheet Middleware - Reading uploaded CSV and XLSX files into rows of cells,
+// and writing exported tables back out in the same formats
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+export type SpreadsheetRows = string[][];
+
+// A cell being written - numbers stay numeric in XLSX
+export type SpreadsheetCell = string | number | null;
+
+export interface SpreadsheetSheet {
+  name: string;
+  rows: SpreadsheetCell[][];
+}
+
+// ══════════════════════════════════════════════════════════════════
+// CSV
+// ══════════════════════════════════════════════════════════════════
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Pick the delimiter that splits the first line into the most cells.
+ * Exports from European Excel locales use ';'.
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain delimiters, newlines and "" escapes
+ */
+export function parseCsv(text: string): SpreadsheetRows {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const rows: SpreadsheetRows = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+}
+
+// ══════════════════════════════════════════════════════════════════
+// XLSX (zip container)
+// ══════════════════════════════════════════════════════════════════
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+// Total unzipped size read from one workbook; a small upload can inflate to gigabytes
+export const MAX_XLSX_UNZIPPED_BYTES = 50 * 1024 * 1024;
+
+const WORKBOOK_TOO_LARGE = `Workbook is too large - it must unzip to at most ${MAX_XLSX_UNZIPPED_BYTES / (1024 * 1024)}MB`;
+
+/**
+ * Read the named entries out of a zip archive. Only stored and deflated
+ * entries are supported, which covers every XLSX writer in practice.
+ */
+function readZipEntries(buffer: Buffer, wanted: (name: string) => boolean): Map<string, string> {
+  // The end-of-central-directory record sits in the last 64KB (+22 bytes)
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('File is not a valid XLSX workbook');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries = new Map<string, string>();
+  let remaining = MAX_XLSX_UNZIPPED_BYTES;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('File is not a valid XLSX workbook');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!wanted(name)) {
+      continue;
+    }
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error('File is not a valid XLSX workbook');
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      if (data.length > remaining) {
+        throw new Error(WORKBOOK_TOO_LARGE);
+      }
+      remaining -= data.length;
+      entries.set(name, data.toString('utf8'));
+    } else if (method === 8) {
+      let inflated: Buffer;
+      try {
+        inflated = inflateRawSync(data, { maxOutputLength: Math.max(1, remaining) });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw new Error(WORKBOOK_TOO_LARGE);
+        }
+        throw new Error('File is not a valid XLSX workbook');
+      }
+      if (inflated.length > remaining) {
+        throw new Error(WORKBOOK_TOO_LARGE);
+      }
+      remaining -= inflated.length;
+      entries.set(name, inflated.toString('utf8'));
+    } else {
+      throw new Error('Unsupported XLSX compression');
+    }
+  }
+
+  return entries;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return XML_ENTITIES[entity.toLowerCase()];
+  });
+}
+
+// Text of every <t> inside a fragment - rich text splits a string over several runs
+function readText(fragment: string): string {
+  return Array.from(fragment.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g))
+    .map((m) => decodeXml(m[1]))
+    .join('');
+}
+
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? 'A';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Path of the first worksheet, following workbook.xml and its relationships
+ */
+function firstSheetPath(entries: Map<string, string>): string {
+  const workbook = entries.get('xl/workbook.xml') ?? '';
+  const rels = entries.get('xl/_rels/workbook.xml.rels') ?? '';
+  const relId = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+
+  if (relId) {
+    const relationship = Array.from(rels.matchAll(/<Relationship\b[^>]*>/g))
+      .map((m) => m[0])
+      .find((tag) => tag.includes(`Id="${relId}"`));
+    const target = relationship?.match(/Target="([^"]+)"/)?.[1];
+    if (target) {
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  return 'xl/worksheets/sheet1.xml';
+}
+
+/**
+ * Cell values of the first worksheet. Formulas come through as their cached result.
+ */
+export function parseXlsx(buffer: Buffer): SpreadsheetRows {
+  const entries = readZipEntries(buffer, (name) =>
+    name === 'xl/workbook.xml' ||
+    name === 'xl/_rels/workbook.xml.rels' ||
+    name === 'xl/sharedStrings.xml' ||
+    name.startsWith('xl/worksheets/')
+  );
+
+  const sheet = entries.get(firstSheetPath(entries));
+  if (!sheet) {
+    throw new Error('Workbook has no worksheets');
+  }
+
+  const sharedStrings = Array.from((entries.get('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g))
+    .map((m) => readText(m[1]));
+
+  const rows: SpreadsheetRows = [];
+  for (const rowMatch of sheet.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = [];
+
+    for (const cellMatch of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cellMatch[1];
+      const body = cellMatch[2] ?? '';
+      const ref = attrs.match(/\br="([^"]+)"/)?.[1];
+      const type = attrs.match(/\bt="([^"]+)"/)?.[1];
+      const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (type === 's' && rawValue !== undefined) {
+        value = sharedStrings[Number(rawValue)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = readText(body);
+      } else if (rawValue !== undefined) {
+        value = decodeXml(rawValue);
+      }
+
+      const index = ref ? columnIndex(ref) : row.length;
+      while (row.length < index) {
+        row.push('');
+      }
+      row[index] = value;
+    }
+
+    if (row.some((cell) => cell.trim() !== '')) {
+      rows.push(row);
+    }
+  }
+
+  return rows;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Writing
+// ══════════════════════════════════════════════════════════════════
+
+// Text starting with one of these is run as a formula by Excel and Sheets
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+/**
+ * Quote a cell for CSV. Text that could be read as a formula gets a leading
+ * apostrophe so a supplier name like =HYPERLINK(...) is shown, not run.
+ * Numbers are written as-is, so negative values stay numeric.
+ */
+function escapeCsvField(cell: SpreadsheetCell): string {
+  let value = cell === null ? '' : String(cell);
+  if (typeof cell === 'string' && FORMULA_PREFIXES.includes(value[0])) {
+    value = `'${value}`;
+  }
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * RFC 4180 CSV with CRLF line endings and a BOM so Excel reads it as UTF-8
+ */
+export function writeCsv(rows: SpreadsheetCell[][]): Buffer {
+  const body = rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n');
+  return Buffer.from(`\uFEFF${body}\r\n`, 'utf8');
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Deflated zip archive of the given entries, in order
+ */
+function writeZip(files: { name: string; content: string }[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8');
+    const data = Buffer.from(file.content, 'utf8');
+    const compressed = deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    localParts.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(EOCD_SIGNATURE, 0);
+  eocd.writeUInt16LE(files.length, 8);
+  eocd.writeUInt16LE(files.length, 10);
+  eocd.writeUInt32LE(centralDirectory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, eocd]);
+}
+
+// XML 1.0 has no way to encode control characters other than tab and newlines
+const isXmlChar = (char: string) => char >= ' ' || char === '\t' || char === '\n' || char === '\r';
+
+function encodeXml(value: string): string {
+  return Array.from(value).filter(isXmlChar).join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnRef(index: number): string {
+  let ref = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    ref = String.fromCharCode(65 + ((n - 1) % 26)) + ref;
+  }
+  return ref;
+}
+
+function sheetXml(rows: SpreadsheetCell[][]): string {
+  const body = rows.map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${columnRef(c)}${r + 1}`;
+      if (cell === null || cell === '') return '';
+      if (typeof cell === 'number' && Number.isFinite(cell)) {
+        return `<c r="${ref}"><v>${cell}</v></c>`;
+      }
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${encodeXml(String(cell))}</t></is></c>`;
+    }).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${body}</sheetData></worksheet>`;
+}
+
+// Excel rejects sheet names over 31 characters, with []:*?/\ or duplicated
+function sheetNames(sheets: SpreadsheetSheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((sheet, i) => {
+    const base = sheet.name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || `Sheet${i + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+/**
+ * Minimal XLSX workbook, one worksheet per sheet, with inline strings
+ */
+export function writeXlsx(sheets: SpreadsheetSheet[]): Buffer {
+  const names = sheetNames(sheets);
+  const sheetEntries = sheets.map((sheet, i) => ({
+    name: `xl/worksheets/sheet${i + 1}.xml`,
+    content: sheetXml(sheet.rows),
+  }));
+
+  return writeZip([
+    {
+      name: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        sheetEntries.map((entry) =>
+          `<Override PartName="/${entry.name}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        ).join('') +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+        names.map((name, i) => `<sheet name="${encodeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+        '</sheets></workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheetEntries.map((entry, i) =>
+          `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+        ).join('') +
+        '</Relationships>',
+    },
+    ...sheetEntries,
+  ]);
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Entry point
+// ══════════════════════════════════════════════════════════════════
+
+export const SPREADSHEET_EXTENSIONS = ['.csv', '.xlsx'];
+
+/**
+ * Parse an upload by extension. Throws a user-facing Error for unsupported or corrupt files.
+ */
+export function parseSpreadsheet(fileName: string, content: Buffer): SpreadsheetRows {
+  const lower = fileName.toLowerCase();
+
+  if (lower.endsWith('.csv')) {
+    return parseCsv(content.toString('utf8'));
+  }
+  if (lower.endsWith('.xlsx')) {
+    try {
+      return parseXlsx(content);
+    } catch (error) {
+      if (error instanceof RangeError) {
+        throw new Error('File is not a valid XLSX workbook');
+      }
+      throw error;
+    }
+  }
+
+  throw new Error(`Unsupported file type - upload a ${SPREADSHEET_EXTENSIONS.join(' or ')} file`);
+}
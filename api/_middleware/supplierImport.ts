@@ -0,0 +1,598 @@
+// Supplier Import Middleware - Matching an uploaded supplier list against suppliers and following the results
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { eq, and, sql } from 'drizzle-orm';
+import {
+  suppliers,
+  supplierRiskScores,
+  supplierImports,
+  userPortfolios,
+  type DbSupplierImport,
+} from '../../src/db/schema.js';
+import {
+  IMPORT_MATCH_CONFIDENCE,
+  IMPORT_REVIEW_CONFIDENCE,
+  type SupplierImportDecisionUpdate,
+  type SupplierImportMatch,
+  type SupplierImportPreview,
+  type SupplierImportResult,
+  type SupplierImportRow,
+  type SupplierImportStatus,
+  type SupplierImportSummary,
+} from '../../src/types/supplierImport.js';
+import { withTransaction, type TransactionDb } from './credits.js';
+import type { SpreadsheetRows } from './spreadsheet.js';
+import { UUID_PATTERN } from './watchlists.js';
+
+const getDb = () => {
+  const client = neon(process.env.DATABASE_URL!);
+  return drizzle(client);
+};
+
+export const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 2000;
+
+// Largest value the integer spend columns hold
+const MAX_SPEND = 2_147_483_647;
+
+// A supplier row from the file before matching
+export interface ParsedImportRow {
+  rowNumber: number;
+  name: string;
+  duns: string | null;
+  country: string | null;
+  category: string | null;
+  spend: number | null;
+  issues: string[];
+}
+
+// An existing supplier a row can match
+export interface ImportCandidate {
+  id: string;
+  name: string;
+  duns: string | null;
+  country: string;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Reading the file
+// ══════════════════════════════════════════════════════════════════
+
+type ImportColumn = 'name' | 'duns' | 'country' | 'category' | 'spend';
+
+// Header spellings seen in ERP and P2P exports, compared with punctuation and spaces removed
+const HEADER_ALIASES: Record<ImportColumn, string[]> = {
+  name: ['supplier', 'suppliername', 'vendor', 'vendorname', 'name', 'company', 'companyname', 'legalname'],
+  duns: ['duns', 'dunsnumber', 'dunsno', 'dnb', 'dunsid'],
+  country: ['country', 'countryname', 'suppliercountry', 'hqcountry', 'countryofregistration'],
+  category: ['category', 'suppliercategory', 'spendcategory', 'commodity'],
+  spend: ['spend', 'annualspend', 'totalspend', 'spendusd', 'amount', 'spendamount'],
+};
+
+const normaliseHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function mapColumns(header: string[]): Partial<Record<ImportColumn, number>> {
+  const columns: Partial<Record<ImportColumn, number>> = {};
+  header.forEach((cell, index) => {
+    const key = normaliseHeader(cell);
+    for (const [column, aliases] of Object.entries(HEADER_ALIASES) as Array<[ImportColumn, string[]]>) {
+      if (columns[column] === undefined && aliases.includes(key)) {
+        columns[column] = index;
+      }
+    }
+  });
+  return columns;
+}
+
+/**
+ * Parse a spend cell: "$1,250,000", "1.2M", "850k". Returns null for blanks,
+ * undefined for values that are not amounts.
+ */
+export function parseSpend(value: string): number | null | undefined {
+  const cleaned = value.replace(/[\s,$€£¥]|USD|EUR|GBP/gi, '');
+  if (!cleaned) {
+    return null;
+  }
+  const match = cleaned.match(/^(\d+(?:\.\d+)?)([kmb])?$/i);
+  if (!match) {
+    return undefined;
+  }
+  const multiplier = { k: 1e3, m: 1e6, b: 1e9 }[match[2]?.toLowerCase() as 'k' | 'm' | 'b'] ?? 1;
+  return Math.round(parseFloat(match[1]) * multiplier);
+}
+
+/**
+ * Find the header row (within the first few rows, to allow a title above it)
+ * and turn the rows below it into import rows. Throws for files with no
+ * supplier name column or too many rows.
+ */
+export function readImportRows(table: SpreadsheetRows): ParsedImportRow[] {
+  const headerIndex = table.slice(0, 10).findIndex((row) => mapColumns(row).name !== undefined);
+  if (headerIndex < 0) {
+    throw new Error('Could not find a supplier name column - add a header row with "Supplier Name"');
+  }
+
+  const columns = mapColumns(table[headerIndex]);
+  const cell = (row: string[], column: ImportColumn) => {
+    const index = columns[column];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+
+  const rows: ParsedImportRow[] = [];
+  table.slice(headerIndex + 1).forEach((row, offset) => {
+    const name = cell(row, 'name').replace(/\s+/g, ' ');
+    if (!name) {
+      return;
+    }
+
+    const issues: string[] = [];
+
+    let duns: string | null = cell(row, 'duns').replace(/\D/g, '') || null;
+    if (duns && duns.length !== 9) {
+      issues.push('DUNS should be 9 digits - ignored');
+      duns = null;
+    }
+
+    let spend = parseSpend(cell(row, 'spend'));
+    if (spend === undefined) {
+      issues.push(`Spend "${cell(row, 'spend')}" is not an amount - ignored`);
+      spend = null;
+    } else if (spend !== null && spend > MAX_SPEND) {
+      issues.push('Spend is too large - ignored');
+      spend = null;
+    }
+
+    rows.push({
+      rowNumber: headerIndex + offset + 2,
+      name,
+      duns,
+      country: canonicalCountry(cell(row, 'country')),
+      category: cell(row, 'category') || null,
+      spend,
+      issues,
+    });
+  });
+
+  if (rows.length === 0) {
+    throw new Error('No supplier rows found below the header');
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`At most ${MAX_IMPORT_ROWS} suppliers can be imported at once`);
+  }
+
+  return rows;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Normalisation
+// ══════════════════════════════════════════════════════════════════
+
+const LEGAL_SUFFIXES = new Set([
+  'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'ltd', 'limited', 'llc', 'llp',
+  'plc', 'gmbh', 'ag', 'sa', 'sas', 'srl', 'spa', 'bv', 'nv', 'ab', 'as', 'oy', 'pty', 'kk', 'group', 'holdings',
+]);
+
+/**
+ * "Apex Manufacturing Co." and "APEX MANUFACTURING" compare equal
+ */
+export function normaliseSupplierName(name: string): string {
+  const words = name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, '')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  while (words.length > 1 && LEGAL_SUFFIXES.has(words[words.length - 1])) {
+    words.pop();
+  }
+  return words.join(' ');
+}
+
+// Spellings mapped to the names suppliers.country uses
+const COUNTRY_ALIASES: Record<string, string> = {
+  us: 'USA',
+  usa: 'USA',
+  'united states': 'USA',
+  'united states of america': 'USA',
+  uk: 'UK',
+  gb: 'UK',
+  'great britain': 'UK',
+  'united kingdom': 'UK',
+  england: 'UK',
+  cn: 'China',
+  prc: 'China',
+  de: 'Germany',
+  deutschland: 'Germany',
+  jp: 'Japan',
+  in: 'India',
+  kr: 'South Korea',
+  korea: 'South Korea',
+  'republic of korea': 'South Korea',
+  tw: 'Taiwan',
+  mx: 'Mexico',
+  ca: 'Canada',
+  fr: 'France',
+  nl: 'Netherlands',
+  'the netherlands': 'Netherlands',
+  holland: 'Netherlands',
+  ch: 'Switzerland',
+  vn: 'Vietnam',
+  'viet nam': 'Vietnam',
+};
+
+const COUNTRY_REGIONS: Record<string, string> = {
+  USA: 'North America', Canada: 'North America',
+  Mexico: 'Latin America', Brazil: 'Latin America', Argentina: 'Latin America', Chile: 'Latin America', Colombia: 'Latin America', Peru: 'Latin America',
+  UK: 'Europe', Germany: 'Europe', France: 'Europe', Netherlands: 'Europe', Belgium: 'Europe', Switzerland: 'Europe', Sweden: 'Europe',
+  Norway: 'Europe', Denmark: 'Europe', Ireland: 'Europe', Italy: 'Europe', Spain: 'Europe', Poland: 'Europe', Finland: 'Europe', Austria: 'Europe',
+  China: 'Asia Pacific', Japan: 'Asia Pacific', India: 'Asia Pacific', 'South Korea': 'Asia Pacific', Taiwan: 'Asia Pacific', Vietnam: 'Asia Pacific',
+  Singapore: 'Asia Pacific', Malaysia: 'Asia Pacific', Indonesia: 'Asia Pacific', Philippines: 'Asia Pacific', Thailand: 'Asia Pacific',
+  Bangladesh: 'Asia Pacific', Australia: 'Asia Pacific', 'New Zealand': 'Asia Pacific',
+  Israel: 'Middle East', 'United Arab Emirates': 'Middle East', 'Saudi Arabia': 'Middle East', Turkey: 'Middle East',
+  Egypt: 'Africa', Kenya: 'Africa', Morocco: 'Africa', Nigeria: 'Africa', 'South Africa': 'Africa',
+};
+
+export function canonicalCountry(value: string): string | null {
+  const trimmed = value.trim().replace(/\.$/, '');
+  if (!trimmed) {
+    return null;
+  }
+  const key = trimmed.toLowerCase().replace(/\./g, '');
+  const known = COUNTRY_ALIASES[key] ?? Object.keys(COUNTRY_REGIONS).find((c) => c.toLowerCase() === key);
+  return known ?? trimmed;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Matching
+// ══════════════════════════════════════════════════════════════════
+
+function bigrams(value: string): Map<string, number> {
+  const compact = value.replace(/\s+/g, ' ');
+  const counts = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const pair = compact.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Sørensen–Dice similarity of character bigrams, 0-1
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  const left = bigrams(a);
+  const right = bigrams(b);
+  const total = a.length - 1 + b.length - 1;
+  if (total <= 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const [pair, count] of left) {
+    shared += Math.min(count, right.get(pair) ?? 0);
+  }
+  return (2 * shared) / total;
+}
+
+const sameCountry = (a: string | null, b: string) =>
+  !!a && canonicalCountry(b)?.toLowerCase() === a.toLowerCase();
+
+/**
+ * Best existing supplier for a row: DUNS first, then normalised name weighted
+ * by whether the countries agree. Suppliers with a different DUNS never match.
+ */
+function findBestMatch(row: ParsedImportRow, candidates: ImportCandidate[]): SupplierImportMatch | null {
+  if (row.duns) {
+    const byDuns = candidates.find((c) => c.duns === row.duns);
+    if (byDuns) {
+      return { supplierId: byDuns.id, supplierName: byDuns.name, country: byDuns.country, matchType: 'duns', confidence: 1 };
+    }
+  }
+
+  const name = normaliseSupplierName(row.name);
+  let best: SupplierImportMatch | null = null;
+
+  for (const candidate of candidates) {
+    if (row.duns && candidate.duns && candidate.duns !== row.duns) {
+      continue;
+    }
+    const similarity = nameSimilarity(name, normaliseSupplierName(candidate.name));
+    const countryMatches = sameCountry(row.country, candidate.country);
+    // Without a country in the file we can't confirm or rule one out
+    const weight = countryMatches ? 0.95 : row.country ? 0.7 : 0.9;
+    const confidence = Math.round(similarity * weight * 100) / 100;
+
+    if (!best || confidence > best.confidence) {
+      best = {
+        supplierId: candidate.id,
+        supplierName: candidate.name,
+        country: candidate.country,
+        matchType: countryMatches ? 'name_country' : 'name',
+        confidence,
+      };
+    }
+  }
+
+  return best && best.confidence >= IMPORT_MATCH_CONFIDENCE ? best : null;
+}
+
+/**
+ * Suggest a match and a decision for every row. Repeats of a supplier earlier
+ * in the file are skipped so confirming never creates it twice. Rows matching
+ * the same supplier add their spend together on confirm, so a row that would
+ * push the total past MAX_SPEND has its spend ignored.
+ */
+export function matchImportRows(rows: ParsedImportRow[], candidates: ImportCandidate[]): SupplierImportRow[] {
+  const seen = new Map<string, number>();
+  const spendBySupplier = new Map<string, number>();
+
+  return rows.map((row) => {
+    const key = row.duns ?? `${normaliseSupplierName(row.name)}|${row.country?.toLowerCase() ?? ''}`;
+    const firstRow = seen.get(key);
+    const match = findBestMatch(row, candidates);
+    const issues = [...row.issues];
+    let spend = row.spend;
+
+    // Skipped rows count too - review can switch them to the match
+    if (match && spend !== null) {
+      const total = (spendBySupplier.get(match.supplierId) ?? 0) + spend;
+      if (total > MAX_SPEND) {
+        issues.push(`Combined spend for ${match.supplierName} is too large - ignored`);
+        spend = null;
+      } else {
+        spendBySupplier.set(match.supplierId, total);
+      }
+    }
+
+    if (firstRow !== undefined) {
+      issues.push(`Duplicate of row ${firstRow}`);
+      return { ...row, spend, match, decision: 'skip', issues };
+    }
+    seen.set(key, row.rowNumber);
+
+    if (match && match.confidence < IMPORT_REVIEW_CONFIDENCE) {
+      issues.push('Low-confidence match - check before confirming');
+    }
+    return { ...row, spend, match, decision: match ? 'match' : 'create', issues };
+  });
+}
+
+export function summarizeImport(rows: SupplierImportRow[]): SupplierImportSummary {
+  return {
+    total: rows.length,
+    matched: rows.filter((r) => r.decision === 'match').length,
+    toCreate: rows.filter((r) => r.decision === 'create').length,
+    skipped: rows.filter((r) => r.decision === 'skip').length,
+    needsReview: rows.filter((r) => r.decision === 'match' && r.match && r.match.confidence < IMPORT_REVIEW_CONFIDENCE).length,
+  };
+}
+
+/**
+ * Apply review edits. Throws when an edit names an unknown row or a decision
+ * the row can't take.
+ */
+export function applyDecisionUpdates(
+  rows: SupplierImportRow[],
+  updates: SupplierImportDecisionUpdate[]
+): SupplierImportRow[] {
+  const byRowNumber = new Map(updates.map((u) => [u.rowNumber, u.decision]));
+
+  for (const rowNumber of byRowNumber.keys()) {
+    if (!rows.some((r) => r.rowNumber === rowNumber)) {
+      throw new Error(`Row ${rowNumber} not found`);
+    }
+  }
+
+  return rows.map((row) => {
+    const decision = byRowNumber.get(row.rowNumber);
+    if (!decision) {
+      return row;
+    }
+    if (decision === 'match' && !row.match) {
+      throw new Error(`Row ${row.rowNumber} has no suggested match`);
+    }
+    if (decision === 'create' && row.match?.matchType === 'duns') {
+      throw new Error(`Row ${row.rowNumber} matches an existing supplier by DUNS`);
+    }
+    return { ...row, decision };
+  });
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Persistence
+// ══════════════════════════════════════════════════════════════════
+
+function toPreview(record: DbSupplierImport): SupplierImportPreview {
+  return {
+    id: record.id,
+    fileName: record.fileName,
+    status: record.status as SupplierImportStatus,
+    rows: record.rows,
+    summary: summarizeImport(record.rows),
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+async function getImportRecord(userId: string, importId: string): Promise<DbSupplierImport | null> {
+  if (!UUID_PATTERN.test(importId)) {
+    return null;
+  }
+  const db = getDb();
+
+  const [record] = await db
+    .select()
+    .from(supplierImports)
+    .where(and(eq(supplierImports.id, importId), eq(supplierImports.userId, userId)))
+    .limit(1);
+
+  return record ?? null;
+}
+
+/**
+ * Match the file's rows and hold them for review
+ */
+export async function createSupplierImport(
+  userId: string,
+  fileName: string,
+  table: SpreadsheetRows
+): Promise<SupplierImportPreview> {
+  const parsed = readImportRows(table);
+  const db = getDb();
+
+  // The catalogue is small enough to fuzzy-match in memory
+  const candidates = await db
+    .select({ id: suppliers.id, name: suppliers.name, duns: suppliers.duns, country: suppliers.country })
+    .from(suppliers);
+
+  const [record] = await db
+    .insert(supplierImports)
+    .values({ userId, fileName, rows: matchImportRows(parsed, candidates) })
+    .returning();
+
+  return toPreview(record);
+}
+
+export async function getSupplierImport(userId: string, importId: string): Promise<SupplierImportPreview | null> {
+  const record = await getImportRecord(userId, importId);
+  return record ? toPreview(record) : null;
+}
+
+/**
+ * Throws 'Import is no longer pending review' once confirmed or cancelled
+ */
+export async function updateImportDecisions(
+  userId: string,
+  importId: string,
+  updates: SupplierImportDecisionUpdate[]
+): Promise<SupplierImportPreview | null> {
+  const record = await getImportRecord(userId, importId);
+  if (!record) {
+    return null;
+  }
+  if (record.status !== 'pending_review') {
+    throw new Error('Import is no longer pending review');
+  }
+  const db = getDb();
+
+  const [updated] = await db
+    .update(supplierImports)
+    .set({ rows: applyDecisionUpdates(record.rows, updates) })
+    .where(eq(supplierImports.id, importId))
+    .returning();
+
+  return toPreview(updated);
+}
+
+export async function cancelSupplierImport(userId: string, importId: string): Promise<boolean> {
+  const record = await getImportRecord(userId, importId);
+  if (!record) {
+    return false;
+  }
+  if (record.status !== 'pending_review') {
+    throw new Error('Import is no longer pending review');
+  }
+  const db = getDb();
+
+  await db
+    .update(supplierImports)
+    .set({ status: 'cancelled' })
+    .where(eq(supplierImports.id, importId));
+
+  return true;
+}
+
+/**
+ * Create new suppliers as unrated - they have no score until someone researches them
+ */
+async function createImportedSuppliers(
+  db: TransactionDb,
+  rows: SupplierImportRow[]
+): Promise<Array<{ id: string; spend: number | null }>> {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const created: Array<{ id: string }> = await db
+    .insert(suppliers)
+    .values(rows.map((row) => ({
+      name: row.name,
+      duns: row.duns,
+      category: row.category ?? 'Uncategorized',
+      country: row.country ?? 'Unknown',
+      region: (row.country && COUNTRY_REGIONS[row.country]) || 'Other',
+      spend: row.spend ?? 0,
+    })))
+    .returning({ id: suppliers.id });
+
+  await db
+    .insert(supplierRiskScores)
+    .values(created.map(({ id }) => ({ supplierId: id, score: 0, level: 'unrated' })));
+
+  return created.map(({ id }, index) => ({ id, spend: rows[index].spend }));
+}
+
+/**
+ * Follow matched suppliers, create and follow the rest, and record the spend
+ * figures on the user's portfolio. Returns null when the import doesn't exist;
+ * throws 'Import is no longer pending review' when it was already confirmed
+ * or cancelled. Everything runs in one transaction, so a failure part way
+ * leaves no suppliers behind and the import still pending review.
+ */
+export async function confirmSupplierImport(userId: string, importId: string): Promise<SupplierImportResult | null> {
+  const record = await getImportRecord(userId, importId);
+  if (!record) {
+    return null;
+  }
+
+  return withTransaction(async (tx) => {
+    // Claim the import first so a double submit can't create suppliers twice
+    const claimed = await tx
+      .update(supplierImports)
+      .set({ status: 'confirmed', confirmedAt: new Date() })
+      .where(and(eq(supplierImports.id, importId), eq(supplierImports.status, 'pending_review')))
+      .returning({ id: supplierImports.id });
+
+    if (claimed.length === 0) {
+      throw new Error('Import is no longer pending review');
+    }
+
+    const created = await createImportedSuppliers(tx, record.rows.filter((r) => r.decision === 'create'));
+
+    // Several rows can resolve to the same supplier - their spend adds up
+    const spendBySupplier = new Map<string, number | null>();
+    const follows = [
+      ...record.rows.filter((r) => r.decision === 'match' && r.match).map((r) => ({ id: r.match!.supplierId, spend: r.spend })),
+      ...created,
+    ];
+    for (const { id, spend } of follows) {
+      const existing = spendBySupplier.get(id) ?? null;
+      spendBySupplier.set(id, spend === null ? existing : Math.min((existing ?? 0) + spend, MAX_SPEND));
+    }
+
+    if (spendBySupplier.size > 0) {
+      await tx
+        .insert(userPortfolios)
+        .values(Array.from(spendBySupplier, ([supplierId, spend]) => ({ userId, supplierId, spend })))
+        .onConflictDoUpdate({
+          target: [userPortfolios.userId, userPortfolios.supplierId],
+          set: { spend: sql`coalesce(excluded.spend, ${userPortfolios.spend})` },
+        });
+    }
+
+    const result: SupplierImportResult = {
+      followed: spendBySupplier.size,
+      created: created.length,
+      skipped: record.rows.filter((r) => r.decision === 'skip').length,
+    };
+
+    await tx
+      .update(supplierImports)
+      .set({ result })
+      .where(eq(supplierImports.id, importId));
+
+    return result;
+  });
+}
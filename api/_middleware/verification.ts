@@ -0,0 +1,151 @@
+// Verification Middleware - Email verification and password reset tokens
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { eq, and, isNull } from 'drizzle-orm';
+import { users, verificationTokens } from '../../src/db/schema.js';
+import type { User } from '../../src/db/schema.js';
+import {
+  generateVerificationToken,
+  hashToken,
+  hashPassword,
+} from '../../src/services/auth.js';
+import type { VerificationTokenType } from '../../src/types/auth.js';
+import {
+  VERIFICATION_TOKEN_EXPIRY_SECONDS,
+  PASSWORD_RESET_EXPIRY_SECONDS,
+} from '../../src/types/auth.js';
+import { sendMail, buildVerificationEmail, buildPasswordResetEmail } from './mail.js';
+import { revokeUserSessions, requestSessionRotation } from './sessions.js';
+
+const getDb = () => {
+  const client = neon(process.env.DATABASE_URL!);
+  return drizzle(client);
+};
+
+const TOKEN_EXPIRY_SECONDS: Record<VerificationTokenType, number> = {
+  email_verify: VERIFICATION_TOKEN_EXPIRY_SECONDS,
+  password_reset: PASSWORD_RESET_EXPIRY_SECONDS,
+};
+
+// ══════════════════════════════════════════════════════════════════
+// Tokens
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Issue a token for an email. Only the hash is stored, and issuing a new
+ * token invalidates any earlier one of the same type.
+ * Returns the raw token for the email link.
+ */
+export async function issueToken(identifier: string, type: VerificationTokenType): Promise<string> {
+  const db = getDb();
+  const token = generateVerificationToken();
+
+  await db
+    .delete(verificationTokens)
+    .where(and(eq(verificationTokens.identifier, identifier), eq(verificationTokens.type, type)));
+
+  await db.insert(verificationTokens).values({
+    identifier,
+    tokenHash: hashToken(token),
+    type,
+    expiresAt: new Date(Date.now() + TOKEN_EXPIRY_SECONDS[type] * 1000),
+  });
+
+  return token;
+}
+
+/**
+ * Redeem a token. The row is deleted in the same statement that finds it,
+ * so a token can be used at most once even under concurrent requests.
+ * Returns the identifier (email), or null if the token is unknown or expired.
+ */
+export async function consumeToken(token: string, type: VerificationTokenType): Promise<string | null> {
+  const db = getDb();
+
+  const [row] = await db
+    .delete(verificationTokens)
+    .where(and(eq(verificationTokens.tokenHash, hashToken(token)), eq(verificationTokens.type, type)))
+    .returning();
+
+  if (!row || row.expiresAt <= new Date()) {
+    return null;
+  }
+
+  return row.identifier;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Flows
+// ══════════════════════════════════════════════════════════════════
+
+export async function sendVerificationEmail(email: string): Promise<void> {
+  const token = await issueToken(email, 'email_verify');
+  await sendMail(buildVerificationEmail(email, token));
+}
+
+export async function sendPasswordResetEmail(email: string): Promise<void> {
+  const token = await issueToken(email, 'password_reset');
+  await sendMail(buildPasswordResetEmail(email, token));
+}
+
+/**
+ * Mark the token's email as verified. Returns the user, or null for a bad token.
+ */
+export async function verifyEmailToken(token: string): Promise<User | null> {
+  const email = await consumeToken(token, 'email_verify');
+  if (!email) {
+    return null;
+  }
+
+  const db = getDb();
+  const now = new Date();
+
+  const [updated] = await db
+    .update(users)
+    .set({ emailVerifiedAt: now, updatedAt: now })
+    .where(and(eq(users.email, email), isNull(users.emailVerifiedAt)))
+    .returning();
+
+  if (updated) {
+    // Verification unlocks withVerified routes - reissue session tokens
+    await requestSessionRotation(updated.id);
+    return updated;
+  }
+
+  // Already verified - still a successful outcome for the link
+  const [user] = await db.select().from(users).where(eq(users.email, email)).limit(1);
+  return user ?? null;
+}
+
+/**
+ * Set a new password from a reset token and revoke every existing session.
+ * Completing a reset also proves control of the email address.
+ * Returns the user, or null for a bad token.
+ */
+export async function resetPasswordWithToken(token: string, newPassword: string): Promise<User | null> {
+  const email = await consumeToken(token, 'password_reset');
+  if (!email) {
+    return null;
+  }
+
+  const db = getDb();
+  const [user] = await db.select().from(users).where(eq(users.email, email)).limit(1);
+  if (!user) {
+    return null;
+  }
+
+  const now = new Date();
+  const [updated] = await db
+    .update(users)
+    .set({
+      passwordHash: await hashPassword(newPassword),
+      emailVerifiedAt: user.emailVerifiedAt ?? now,
+      updatedAt: now,
+    })
+    .where(eq(users.id, user.id))
+    .returning();
+
+  await revokeUserSessions(user.id);
+
+  return updated;
+}
@@ -0,0 +1,501 @@
+// Watchlists Middleware - Following suppliers (user_portfolios) and named watchlists
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { eq, and, ne, ilike, inArray, asc, count } from 'drizzle-orm';
+import {
+  suppliers,
+  supplierRiskScores,
+  userPortfolios,
+  watchlists,
+  watchlistEntries,
+} from '../../src/db/schema.js';
+import { searchSuppliers } from '../../src/services/supplierService.js';
+import type { RiskLevel } from '../../src/types/supplier.js';
+import type {
+  PortfolioBulkAction,
+  PortfolioBulkResult,
+  PortfolioEntry,
+  SupplierSearchResult,
+  SupplierTarget,
+  Watchlist,
+} from '../../src/types/watchlists.js';
+
+const getDb = () => {
+  const client = neon(process.env.DATABASE_URL!);
+  return drizzle(client);
+};
+
+export const MAX_BULK_SUPPLIERS = 100;
+export const MAX_WATCHLIST_NAME_LENGTH = 60;
+export const MAX_NOTES_LENGTH = 2000;
+
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface SupplierRef {
+  id: string;
+  name: string;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Validation
+// ══════════════════════════════════════════════════════════════════
+
+export function validateWatchlistName(name: unknown): { name: string } | { error: string } {
+  if (typeof name !== 'string' || !name.trim()) {
+    return { error: 'name is required' };
+  }
+  const trimmed = name.trim();
+  if (trimmed.length > MAX_WATCHLIST_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_WATCHLIST_NAME_LENGTH} characters` };
+  }
+  return { name: trimmed };
+}
+
+/**
+ * Normalise the supplierIds/supplierNames part of a request body
+ */
+export function parseSupplierTarget(body: Record<string, unknown>): { target: SupplierTarget } | { error: string } {
+  const { supplierIds, supplierNames } = body;
+
+  const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every((v) => typeof v === 'string');
+
+  if (supplierIds !== undefined && !isStringList(supplierIds)) {
+    return { error: 'supplierIds must be an array of strings' };
+  }
+  if (supplierNames !== undefined && !isStringList(supplierNames)) {
+    return { error: 'supplierNames must be an array of strings' };
+  }
+
+  const ids = Array.from(new Set(supplierIds ?? []));
+  const names = Array.from(new Set((supplierNames ?? []).map((n) => n.trim()).filter(Boolean)));
+
+  if (ids.length + names.length === 0) {
+    return { error: 'supplierIds or supplierNames is required' };
+  }
+  if (ids.length + names.length > MAX_BULK_SUPPLIERS) {
+    return { error: `At most ${MAX_BULK_SUPPLIERS} suppliers can be updated at once` };
+  }
+
+  return { target: { supplierIds: ids, supplierNames: names } };
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Supplier resolution
+// ══════════════════════════════════════════════════════════════════
+
+export const escapeLike = (value: string) => value.replace(/[%_\\]/g, '\\$&');
+
+/**
+ * Ids are matched exactly. Names match case-insensitively, falling back to a
+ * partial match when it is unambiguous ("TechCore" -> "TechCore Industries").
+ */
+export async function resolveSupplierTarget(
+  target: SupplierTarget
+): Promise<{ suppliers: SupplierRef[]; notFound: string[] }> {
+  const db = getDb();
+  const resolved = new Map<string, SupplierRef>();
+  const notFound: string[] = [];
+
+  const ids = (target.supplierIds ?? []).filter((id) => UUID_PATTERN.test(id));
+  notFound.push(...(target.supplierIds ?? []).filter((id) => !UUID_PATTERN.test(id)));
+
+  if (ids.length > 0) {
+    const rows = await db
+      .select({ id: suppliers.id, name: suppliers.name })
+      .from(suppliers)
+      .where(inArray(suppliers.id, ids));
+    rows.forEach((row) => resolved.set(row.id, row));
+    notFound.push(...ids.filter((id) => !resolved.has(id)));
+  }
+
+  for (const name of target.supplierNames ?? []) {
+    const [exact] = await db
+      .select({ id: suppliers.id, name: suppliers.name })
+      .from(suppliers)
+      .where(ilike(suppliers.name, escapeLike(name)))
+      .limit(1);
+
+    const partial = exact
+      ? [exact]
+      : await db
+        .select({ id: suppliers.id, name: suppliers.name })
+        .from(suppliers)
+        .where(ilike(suppliers.name, `%${escapeLike(name)}%`))
+        .limit(2);
+
+    if (partial.length === 1) {
+      resolved.set(partial[0].id, partial[0]);
+    } else {
+      notFound.push(name);
+    }
+  }
+
+  return { suppliers: Array.from(resolved.values()), notFound };
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Portfolio queries
+// ══════════════════════════════════════════════════════════════════
+
+export async function listPortfolio(userId: string, watchlistId?: string): Promise<PortfolioEntry[]> {
+  const db = getDb();
+
+  const rows = await db
+    .select({
+      entryId: userPortfolios.id,
+      supplierId: suppliers.id,
+      supplierName: suppliers.name,
+      category: suppliers.category,
+      country: suppliers.country,
+      score: supplierRiskScores.score,
+      level: supplierRiskScores.level,
+      notes: userPortfolios.notes,
+      alertsEnabled: userPortfolios.alertsEnabled,
+      spend: userPortfolios.spend,
+      addedAt: userPortfolios.addedAt,
+    })
+    .from(userPortfolios)
+    .innerJoin(suppliers, eq(suppliers.id, userPortfolios.supplierId))
+    .leftJoin(supplierRiskScores, eq(supplierRiskScores.supplierId, suppliers.id))
+    .where(eq(userPortfolios.userId, userId))
+    .orderBy(asc(suppliers.name));
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const memberships = await db
+    .select({ portfolioEntryId: watchlistEntries.portfolioEntryId, watchlistId: watchlistEntries.watchlistId })
+    .from(watchlistEntries)
+    .where(inArray(watchlistEntries.portfolioEntryId, rows.map((r) => r.entryId)));
+
+  const watchlistIdsByEntry = new Map<string, string[]>();
+  for (const m of memberships) {
+    watchlistIdsByEntry.set(m.portfolioEntryId, [...(watchlistIdsByEntry.get(m.portfolioEntryId) ?? []), m.watchlistId]);
+  }
+
+  return rows
+    .map((row) => ({
+      supplierId: row.supplierId,
+      supplierName: row.supplierName,
+      category: row.category,
+      country: row.country,
+      score: row.score,
+      level: (row.level as RiskLevel | null) ?? 'unrated',
+      notes: row.notes,
+      alertsEnabled: row.alertsEnabled,
+      spend: row.spend,
+      addedAt: row.addedAt.toISOString(),
+      watchlistIds: watchlistIdsByEntry.get(row.entryId) ?? [],
+    }))
+    .filter((entry) => !watchlistId || entry.watchlistIds.includes(watchlistId));
+}
+
+/**
+ * Supplier search for the watchlist artifact, flagged with the caller's follow state
+ */
+export async function searchSuppliersForUser(
+  userId: string,
+  query: string,
+  limit = 10
+): Promise<SupplierSearchResult[]> {
+  const db = getDb();
+  const results = await searchSuppliers(db, escapeLike(query), limit);
+
+  if (results.length === 0) {
+    return [];
+  }
+
+  const followed = await db
+    .select({ supplierId: userPortfolios.supplierId })
+    .from(userPortfolios)
+    .where(and(
+      eq(userPortfolios.userId, userId),
+      inArray(userPortfolios.supplierId, results.map((s) => s.id))
+    ));
+  const followedIds = new Set(followed.map((f) => f.supplierId));
+
+  return results.map((s) => ({
+    id: s.id,
+    name: s.name,
+    category: s.category,
+    country: s.location.country,
+    score: s.srs.level === 'unrated' ? null : s.srs.score,
+    level: s.srs.level,
+    isFollowed: followedIds.has(s.id),
+  }));
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Portfolio mutations
+// ══════════════════════════════════════════════════════════════════
+
+/**
+ * Update notes and/or alertsEnabled on a followed supplier.
+ * Returns false if the user does not follow it.
+ */
+export async function updatePortfolioEntry(
+  userId: string,
+  supplierId: string,
+  changes: { notes?: string | null; alertsEnabled?: boolean }
+): Promise<boolean> {
+  if (!UUID_PATTERN.test(supplierId)) {
+    return false;
+  }
+  const db = getDb();
+
+  const updated = await db
+    .update(userPortfolios)
+    .set(changes)
+    .where(and(eq(userPortfolios.userId, userId), eq(userPortfolios.supplierId, supplierId)))
+    .returning({ id: userPortfolios.id });
+
+  return updated.length > 0;
+}
+
+async function followSuppliers(userId: string, supplierIds: string[]): Promise<Set<string>> {
+  const db = getDb();
+
+  const inserted = await db
+    .insert(userPortfolios)
+    .values(supplierIds.map((supplierId) => ({ userId, supplierId })))
+    .onConflictDoNothing()
+    .returning({ supplierId: userPortfolios.supplierId });
+
+  return new Set(inserted.map((r) => r.supplierId));
+}
+
+async function unfollowSuppliers(userId: string, supplierIds: string[]): Promise<Set<string>> {
+  const db = getDb();
+
+  // Watchlist entries cascade with the portfolio row
+  const deleted = await db
+    .delete(userPortfolios)
+    .where(and(eq(userPortfolios.userId, userId), inArray(userPortfolios.supplierId, supplierIds)))
+    .returning({ supplierId: userPortfolios.supplierId });
+
+  return new Set(deleted.map((r) => r.supplierId));
+}
+
+async function setAlertsEnabled(userId: string, supplierIds: string[], enabled: boolean): Promise<Set<string>> {
+  const db = getDb();
+
+  const updated = await db
+    .update(userPortfolios)
+    .set({ alertsEnabled: enabled })
+    .where(and(
+      eq(userPortfolios.userId, userId),
+      inArray(userPortfolios.supplierId, supplierIds),
+      ne(userPortfolios.alertsEnabled, enabled)
+    ))
+    .returning({ supplierId: userPortfolios.supplierId });
+
+  return new Set(updated.map((r) => r.supplierId));
+}
+
+async function getPortfolioEntryIds(userId: string, supplierIds: string[]): Promise<Map<string, string>> {
+  const db = getDb();
+
+  const rows = await db
+    .select({ id: userPortfolios.id, supplierId: userPortfolios.supplierId })
+    .from(userPortfolios)
+    .where(and(eq(userPortfolios.userId, userId), inArray(userPortfolios.supplierId, supplierIds)));
+
+  return new Map(rows.map((r) => [r.id, r.supplierId]));
+}
+
+/**
+ * Adding to a watchlist follows the supplier first if needed
+ */
+async function addToWatchlist(userId: string, watchlistId: string, supplierIds: string[]): Promise<Set<string>> {
+  const db = getDb();
+  await followSuppliers(userId, supplierIds);
+  const supplierByEntry = await getPortfolioEntryIds(userId, supplierIds);
+
+  const inserted = await db
+    .insert(watchlistEntries)
+    .values(Array.from(supplierByEntry.keys()).map((portfolioEntryId) => ({ watchlistId, portfolioEntryId })))
+    .onConflictDoNothing()
+    .returning({ portfolioEntryId: watchlistEntries.portfolioEntryId });
+
+  return new Set(inserted.map((r) => supplierByEntry.get(r.portfolioEntryId)!));
+}
+
+async function removeFromWatchlist(userId: string, watchlistId: string, supplierIds: string[]): Promise<Set<string>> {
+  const db = getDb();
+  const supplierByEntry = await getPortfolioEntryIds(userId, supplierIds);
+
+  if (supplierByEntry.size === 0) {
+    return new Set();
+  }
+
+  const deleted = await db
+    .delete(watchlistEntries)
+    .where(and(
+      eq(watchlistEntries.watchlistId, watchlistId),
+      inArray(watchlistEntries.portfolioEntryId, Array.from(supplierByEntry.keys()))
+    ))
+    .returning({ portfolioEntryId: watchlistEntries.portfolioEntryId });
+
+  return new Set(deleted.map((r) => supplierByEntry.get(r.portfolioEntryId)!));
+}
+
+/**
+ * Apply one action to many suppliers. Throws 'Watchlist not found' when a
+ * watchlist action targets a list the user does not own.
+ */
+export async function applyBulkAction(
+  userId: string,
+  action: PortfolioBulkAction,
+  target: SupplierTarget,
+  watchlistId?: string
+): Promise<PortfolioBulkResult> {
+  if ((action === 'add_to_watchlist' || action === 'remove_from_watchlist') && !(await getWatchlist(userId, watchlistId))) {
+    throw new Error('Watchlist not found');
+  }
+
+  const { suppliers: matched, notFound } = await resolveSupplierTarget(target);
+  if (matched.length === 0) {
+    return { updated: [], unchanged: [], notFound };
+  }
+
+  const ids = matched.map((s) => s.id);
+  let changed: Set<string>;
+
+  switch (action) {
+    case 'follow':
+      changed = await followSuppliers(userId, ids);
+      break;
+    case 'unfollow':
+      changed = await unfollowSuppliers(userId, ids);
+      break;
+    case 'enable_alerts':
+    case 'disable_alerts':
+      changed = await setAlertsEnabled(userId, ids, action === 'enable_alerts');
+      break;
+    case 'add_to_watchlist':
+      changed = await addToWatchlist(userId, watchlistId!, ids);
+      break;
+    case 'remove_from_watchlist':
+      changed = await removeFromWatchlist(userId, watchlistId!, ids);
+      break;
+  }
+
+  return {
+    updated: matched.filter((s) => changed.has(s.id)),
+    unchanged: matched.filter((s) => !changed.has(s.id)),
+    notFound,
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Named watchlists
+// ══════════════════════════════════════════════════════════════════
+
+async function getWatchlist(userId: string, watchlistId: string | undefined) {
+  if (!watchlistId || !UUID_PATTERN.test(watchlistId)) {
+    return null;
+  }
+  const db = getDb();
+
+  const [watchlist] = await db
+    .select()
+    .from(watchlists)
+    .where(and(eq(watchlists.id, watchlistId), eq(watchlists.userId, userId)))
+    .limit(1);
+
+  return watchlist ?? null;
+}
+
+async function isNameTaken(userId: string, name: string, exceptId?: string): Promise<boolean> {
+  const db = getDb();
+
+  const conditions = [eq(watchlists.userId, userId), ilike(watchlists.name, escapeLike(name))];
+  if (exceptId) {
+    conditions.push(ne(watchlists.id, exceptId));
+  }
+
+  const [existing] = await db.select({ id: watchlists.id }).from(watchlists).where(and(...conditions)).limit(1);
+  return !!existing;
+}
+
+export async function listWatchlists(userId: string): Promise<Watchlist[]> {
+  const db = getDb();
+
+  const rows = await db
+    .select({
+      id: watchlists.id,
+      name: watchlists.name,
+      createdAt: watchlists.createdAt,
+      supplierCount: count(watchlistEntries.id),
+    })
+    .from(watchlists)
+    .leftJoin(watchlistEntries, eq(watchlistEntries.watchlistId, watchlists.id))
+    .where(eq(watchlists.userId, userId))
+    .groupBy(watchlists.id)
+    .orderBy(asc(watchlists.name));
+
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    supplierCount: Number(row.supplierCount),
+    createdAt: row.createdAt.toISOString(),
+  }));
+}
+
+/**
+ * Throws 'Watchlist name already exists' for a case-insensitive duplicate
+ */
+export async function createWatchlist(userId: string, name: string): Promise<Watchlist> {
+  if (await isNameTaken(userId, name)) {
+    throw new Error('Watchlist name already exists');
+  }
+  const db = getDb();
+
+  const [watchlist] = await db
+    .insert(watchlists)
+    .values({ userId, name })
+    .returning();
+
+  return {
+    id: watchlist.id,
+    name: watchlist.name,
+    supplierCount: 0,
+    createdAt: watchlist.createdAt.toISOString(),
+  };
+}
+
+export async function renameWatchlist(userId: string, watchlistId: string, name: string): Promise<boolean> {
+  if (!(await getWatchlist(userId, watchlistId))) {
+    return false;
+  }
+  if (await isNameTaken(userId, name, watchlistId)) {
+    throw new Error('Watchlist name already exists');
+  }
+  const db = getDb();
+
+  await db
+    .update(watchlists)
+    .set({ name, updatedAt: new Date() })
+    .where(eq(watchlists.id, watchlistId));
+
+  return true;
+}
+
+/**
+ * Deleting a watchlist leaves its suppliers followed
+ */
+export async function deleteWatchlist(userId: string, watchlistId: string): Promise<boolean> {
+  if (!UUID_PATTERN.test(watchlistId)) {
+    return false;
+  }
+  const db = getDb();
+
+  const deleted = await db
+    .delete(watchlists)
+    .where(and(eq(watchlists.id, watchlistId), eq(watchlists.userId, userId)))
+    .returning({ id: watchlists.id });
+
+  return deleted.length > 0;
+}
@@ -0,0 +1,77 @@
+// GET /api/alerts/[id] - Get one of the current user's alert rules
+// PATCH /api/alerts/[id] - Update an alert rule (partial body merged over the saved rule)
+// DELETE /api/alerts/[id] - Delete an alert rule
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../_middleware/auth.js';
+import {
+  deleteAlertRule,
+  getAlertRule,
+  updateAlertRule,
+  validateAlertRuleInput,
+} from '../_middleware/alerts.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PATCH, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'PATCH' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Alert rule ID is required' });
+  }
+
+  const userId = req.auth.user!.id;
+
+  try {
+    if (req.method === 'DELETE') {
+      const deleted = await deleteAlertRule(userId, id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+      return res.status(200).json({ success: true });
+    }
+
+    const existing = await getAlertRule(userId, id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ rule: existing });
+    }
+
+    // The joined supplierName is display-only; only a name in the body re-targets the rule
+    const result = validateAlertRuleInput({ ...existing, supplierName: undefined, ...(req.body || {}) });
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    const rule = await updateAlertRule(userId, id, result.rule);
+    if (!rule) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+    return res.status(200).json({ rule });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Supplier not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Alert rule error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
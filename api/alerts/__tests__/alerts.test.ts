@@ -0,0 +1,305 @@
+// Tests for risk alert rules - trigger evaluation, digest timing and CRUD endpoints
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthRequest } from '../../_middleware/auth';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+vi.mock('@neondatabase/serverless', () => ({
+  neon: vi.fn(() => vi.fn()),
+}));
+
+vi.mock('drizzle-orm/neon-http', () => ({
+  drizzle: vi.fn(() => ({})),
+}));
+
+vi.mock('../../_middleware/auth', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/auth')>();
+  return {
+    ...original,
+    withAuthenticated: (handler: unknown) => handler,
+  };
+});
+
+vi.mock('../../_middleware/alerts', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/alerts')>();
+  return {
+    ...original,
+    listAlertRules: vi.fn(),
+    getAlertRule: vi.fn(),
+    createAlertRule: vi.fn(),
+    updateAlertRule: vi.fn(),
+    deleteAlertRule: vi.fn(),
+  };
+});
+
+import {
+  createAlertRule,
+  deleteAlertRule,
+  evaluateAlertRule,
+  getAlertRule,
+  isDigestDue,
+  listAlertRules,
+  updateAlertRule,
+  validateAlertRuleInput,
+} from '../../_middleware/alerts';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+function createMockResponse(): VercelResponse {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as VercelResponse;
+}
+
+function createMockRequest(
+  method: string,
+  body: Record<string, unknown> = {},
+  query: Record<string, string> = {}
+): AuthRequest {
+  return {
+    method,
+    query,
+    body,
+    headers: {},
+    auth: {
+      isAuthenticated: true,
+      user: { id: 'user-1', email: 'a@example.com' },
+    },
+  } as unknown as AuthRequest;
+}
+
+const threshold = (value: number, direction: 'above' | 'below') => ({
+  triggerType: 'threshold',
+  thresholdValue: value,
+  thresholdDirection: direction,
+  changePercent: null,
+});
+
+const change = (previousScore: number, currentScore: number) => ({
+  supplierId: 'supplier-1',
+  previousScore,
+  currentScore,
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Evaluation
+// ══════════════════════════════════════════════════════════════════
+
+describe('evaluateAlertRule', () => {
+  it('fires a threshold rule only when the score crosses it', () => {
+    expect(evaluateAlertRule(threshold(70, 'above'), change(65, 72))).toBe(true);
+    expect(evaluateAlertRule(threshold(70, 'above'), change(72, 80))).toBe(false);
+    expect(evaluateAlertRule(threshold(70, 'above'), change(80, 60))).toBe(false);
+  });
+
+  it('fires a below threshold when the score drops under it', () => {
+    expect(evaluateAlertRule(threshold(40, 'below'), change(45, 38))).toBe(true);
+    expect(evaluateAlertRule(threshold(40, 'below'), change(38, 30))).toBe(false);
+  });
+
+  it('compares percentage changes in either direction', () => {
+    const rule = { triggerType: 'change', thresholdValue: null, thresholdDirection: null, changePercent: 10 };
+    expect(evaluateAlertRule(rule, change(50, 55))).toBe(true);
+    expect(evaluateAlertRule(rule, change(50, 45))).toBe(true);
+    expect(evaluateAlertRule(rule, change(50, 54))).toBe(false);
+  });
+
+  it('fires any-change rules on every movement but not on a repeat score', () => {
+    const rule = { triggerType: 'any_change', thresholdValue: null, thresholdDirection: null, changePercent: null };
+    expect(evaluateAlertRule(rule, change(50, 51))).toBe(true);
+    expect(evaluateAlertRule(rule, change(50, 50))).toBe(false);
+  });
+});
+
+describe('isDigestDue', () => {
+  const now = new Date('2026-03-08T09:00:00Z');
+
+  it('sends the first digest straight away', () => {
+    expect(isDigestDue('daily', null, now)).toBe(true);
+  });
+
+  it('waits a full day or week between digests', () => {
+    expect(isDigestDue('daily', new Date('2026-03-07T10:00:00Z'), now)).toBe(false);
+    expect(isDigestDue('daily', new Date('2026-03-07T09:00:00Z'), now)).toBe(true);
+    expect(isDigestDue('weekly', new Date('2026-03-02T09:00:00Z'), now)).toBe(false);
+    expect(isDigestDue('weekly', new Date('2026-03-01T09:00:00Z'), now)).toBe(true);
+  });
+
+  it('never batches immediate rules', () => {
+    expect(isDigestDue('immediate', null, now)).toBe(false);
+  });
+});
+
+describe('validateAlertRuleInput', () => {
+  it('clears fields that do not apply to the trigger', () => {
+    const result = validateAlertRuleInput({
+      name: ' Apple alert ',
+      triggerType: 'change',
+      changePercent: 15,
+      thresholdValue: 70,
+      frequency: 'daily',
+      channels: { email: true },
+    });
+
+    expect(result).toEqual({
+      rule: expect.objectContaining({
+        name: 'Apple alert',
+        triggerType: 'change',
+        changePercent: 15,
+        thresholdValue: null,
+        frequency: 'daily',
+        channels: { email: true, push: false, inApp: true },
+      }),
+    });
+  });
+
+  it('rejects incomplete triggers and unusable channels', () => {
+    expect(validateAlertRuleInput({ name: 'x', triggerType: 'threshold' })).toHaveProperty('error');
+    expect(validateAlertRuleInput({ name: 'x', triggerType: 'change', changePercent: 0 })).toHaveProperty('error');
+    expect(validateAlertRuleInput({
+      name: 'x',
+      triggerType: 'any_change',
+      channels: { email: false, push: false, inApp: false },
+    })).toHaveProperty('error');
+    expect(validateAlertRuleInput({
+      name: 'x',
+      triggerType: 'any_change',
+      recipients: ['not-an-email'],
+    })).toHaveProperty('error');
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Endpoints
+// ══════════════════════════════════════════════════════════════════
+
+describe('/api/alerts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('creates a rule for the current user', async () => {
+    const { default: handler } = await import('../index');
+    (createAlertRule as Mock).mockResolvedValue({ id: 'rule-1' });
+
+    const res = createMockResponse();
+    await handler(createMockRequest('POST', {
+      name: 'Apple above 70',
+      supplierId: 'supplier-1',
+      triggerType: 'threshold',
+      thresholdValue: 70,
+    }), res);
+
+    expect(createAlertRule).toHaveBeenCalledWith('user-1', expect.objectContaining({
+      supplierId: 'supplier-1',
+      thresholdDirection: 'above',
+      frequency: 'immediate',
+    }));
+    expect(res.status).toHaveBeenCalledWith(201);
+  });
+
+  it('returns 400 for an invalid rule without saving it', async () => {
+    const { default: handler } = await import('../index');
+
+    const res = createMockResponse();
+    await handler(createMockRequest('POST', { name: 'Bad', triggerType: 'sometimes' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(createAlertRule).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when the supplier does not exist', async () => {
+    const { default: handler } = await import('../index');
+    (createAlertRule as Mock).mockRejectedValue(new Error('Supplier not found'));
+
+    const res = createMockResponse();
+    await handler(createMockRequest('POST', {
+      name: 'Unknown',
+      supplierName: 'Nobody Ltd',
+      triggerType: 'any_change',
+    }), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  it('lists rules filtered by supplier', async () => {
+    const { default: handler } = await import('../index');
+    (listAlertRules as Mock).mockResolvedValue([{ id: 'rule-1' }]);
+
+    const res = createMockResponse();
+    await handler(createMockRequest('GET', {}, { supplierId: 'supplier-1' }), res);
+
+    expect(listAlertRules).toHaveBeenCalledWith('user-1', 'supplier-1');
+    expect(res.json).toHaveBeenCalledWith({ rules: [{ id: 'rule-1' }], total: 1 });
+  });
+});
+
+describe('/api/alerts/[id]', () => {
+  const savedRule = {
+    id: 'rule-1',
+    userId: 'user-1',
+    supplierId: 'supplier-1',
+    supplierName: 'Apple Inc.',
+    name: 'Apple above 70',
+    triggerType: 'threshold',
+    thresholdValue: 70,
+    thresholdDirection: 'above',
+    changePercent: null,
+    frequency: 'immediate',
+    channels: { email: false, push: false, inApp: true },
+    recipients: [],
+    isActive: true,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('merges a partial update over the saved rule', async () => {
+    const { default: handler } = await import('../[id]');
+    (getAlertRule as Mock).mockResolvedValue(savedRule);
+    (updateAlertRule as Mock).mockResolvedValue({ ...savedRule, frequency: 'weekly' });
+
+    const res = createMockResponse();
+    await handler(createMockRequest('PATCH', { frequency: 'weekly' }, { id: 'rule-1' }), res);
+
+    expect(updateAlertRule).toHaveBeenCalledWith('user-1', 'rule-1', expect.objectContaining({
+      supplierId: 'supplier-1',
+      supplierName: undefined,
+      thresholdValue: 70,
+      frequency: 'weekly',
+    }));
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it("returns 404 for another user's rule", async () => {
+    const { default: handler } = await import('../[id]');
+    (getAlertRule as Mock).mockResolvedValue(null);
+
+    const res = createMockResponse();
+    await handler(createMockRequest('PATCH', { isActive: false }, { id: 'rule-2' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(updateAlertRule).not.toHaveBeenCalled();
+  });
+
+  it('deletes a rule', async () => {
+    const { default: handler } = await import('../[id]');
+    (deleteAlertRule as Mock).mockResolvedValue(true);
+
+    const res = createMockResponse();
+    await handler(createMockRequest('DELETE', {}, { id: 'rule-1' }), res);
+
+    expect(deleteAlertRule).toHaveBeenCalledWith('user-1', 'rule-1');
+    expect(res.json).toHaveBeenCalledWith({ success: true });
+  });
+});
@@ -0,0 +1,54 @@
+// GET /api/alerts - List the current user's risk alert rules (?supplierId= to filter)
+// POST /api/alerts - Create a risk alert rule
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../_middleware/auth.js';
+import {
+  createAlertRule,
+  listAlertRules,
+  validateAlertRuleInput,
+} from '../_middleware/alerts.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const userId = req.auth.user!.id;
+
+  try {
+    if (req.method === 'GET') {
+      const { supplierId } = req.query;
+      const rules = await listAlertRules(userId, typeof supplierId === 'string' ? supplierId : undefined);
+      return res.status(200).json({ rules, total: rules.length });
+    }
+
+    if (req.method === 'POST') {
+      const result = validateAlertRuleInput(req.body);
+      if ('error' in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      const rule = await createAlertRule(userId, result.rule);
+      return res.status(201).json({ rule });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Supplier not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Alert rules error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
@@ -0,0 +1,200 @@
+// Tests for session management - refresh planning, device labels and endpoints
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthRequest } from '../../_middleware/auth';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+vi.mock('@neondatabase/serverless', () => ({
+  neon: vi.fn(() => vi.fn()),
+}));
+
+vi.mock('drizzle-orm/neon-http', () => ({
+  drizzle: vi.fn(() => ({})),
+}));
+
+vi.mock('../../_middleware/auth', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/auth')>();
+  return {
+    ...original,
+    withAuthenticated: (handler: unknown) => handler,
+  };
+});
+
+vi.mock('../../_middleware/sessions', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/sessions')>();
+  return {
+    ...original,
+    listUserSessions: vi.fn(),
+    revokeSession: vi.fn(),
+    revokeUserSessions: vi.fn(),
+  };
+});
+
+import {
+  describeUserAgent,
+  listUserSessions,
+  planSessionRefresh,
+  revokeSession,
+  revokeUserSessions,
+  SESSION_TOUCH_INTERVAL_MS,
+} from '../../_middleware/sessions';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+function createMockResponse(): VercelResponse {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as VercelResponse;
+}
+
+function createMockRequest(
+  method: string,
+  query: Record<string, string> = {},
+  sessionId: string | null = 'session-current'
+): AuthRequest {
+  return {
+    method,
+    query,
+    body: {},
+    headers: {},
+    auth: {
+      isAuthenticated: true,
+      user: { id: 'user-1', email: 'a@example.com' },
+      sessionId: sessionId ?? undefined,
+    },
+  } as unknown as AuthRequest;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Helpers
+// ══════════════════════════════════════════════════════════════════
+
+describe('planSessionRefresh', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  it('does nothing for a recently used session', () => {
+    const lastSeenAt = new Date(now.getTime() - 60_000);
+    expect(planSessionRefresh({ lastSeenAt, rotateRequestedAt: null }, now)).toBeNull();
+  });
+
+  it('touches once the interval has passed', () => {
+    const lastSeenAt = new Date(now.getTime() - SESSION_TOUCH_INTERVAL_MS);
+    expect(planSessionRefresh({ lastSeenAt, rotateRequestedAt: null }, now)).toBe('touch');
+  });
+
+  it('rotates when a privilege change requested it', () => {
+    expect(planSessionRefresh({ lastSeenAt: now, rotateRequestedAt: now }, now)).toBe('rotate');
+  });
+});
+
+describe('describeUserAgent', () => {
+  it('labels common browsers and platforms', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36'
+    )).toBe('Chrome on macOS');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+    )).toBe('Safari on iOS');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36 Edg/120.0'
+    )).toBe('Edge on Windows');
+  });
+
+  it('falls back for missing or unknown agents', () => {
+    expect(describeUserAgent(null)).toBe('Unknown device');
+    expect(describeUserAgent('curl/8.0')).toBe('Unknown device');
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Endpoints
+// ══════════════════════════════════════════════════════════════════
+
+describe('/api/auth/sessions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists sessions flagged against the current one', async () => {
+    const { default: handler } = await import('../sessions/index');
+    (listUserSessions as Mock).mockResolvedValue([{ id: 'session-current', current: true }]);
+
+    const res = createMockResponse();
+    await handler(createMockRequest('GET'), res);
+
+    expect(listUserSessions).toHaveBeenCalledWith('user-1', 'session-current');
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ total: 1 }));
+  });
+
+  it('signs out every other session', async () => {
+    const { default: handler } = await import('../sessions/index');
+    (revokeUserSessions as Mock).mockResolvedValue(2);
+
+    const res = createMockResponse();
+    await handler(createMockRequest('DELETE'), res);
+
+    expect(revokeUserSessions).toHaveBeenCalledWith('user-1', 'session-current');
+    expect(res.json).toHaveBeenCalledWith({ success: true, revoked: 2 });
+  });
+
+  it('refuses to revoke others without a known current session', async () => {
+    const { default: handler } = await import('../sessions/index');
+
+    const res = createMockResponse();
+    await handler(createMockRequest('DELETE', {}, null), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(revokeUserSessions).not.toHaveBeenCalled();
+  });
+});
+
+describe('DELETE /api/auth/sessions/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns 404 for a session owned by someone else', async () => {
+    const { default: handler } = await import('../sessions/[id]');
+    (revokeSession as Mock).mockResolvedValue(false);
+
+    const res = createMockResponse();
+    await handler(createMockRequest('DELETE', { id: 'session-other' }), res);
+
+    expect(revokeSession).toHaveBeenCalledWith('user-1', 'session-other');
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  it('revokes another device without touching cookies', async () => {
+    const { default: handler } = await import('../sessions/[id]');
+    (revokeSession as Mock).mockResolvedValue(true);
+
+    const res = createMockResponse();
+    await handler(createMockRequest('DELETE', { id: 'session-laptop' }), res);
+
+    expect(res.json).toHaveBeenCalledWith({ success: true, signedOut: false });
+    expect(res.setHeader).not.toHaveBeenCalledWith('Set-Cookie', expect.anything());
+  });
+
+  it('clears cookies when revoking the current session', async () => {
+    const { default: handler } = await import('../sessions/[id]');
+    (revokeSession as Mock).mockResolvedValue(true);
+
+    const res = createMockResponse();
+    await handler(createMockRequest('DELETE', { id: 'session-current' }), res);
+
+    expect(res.json).toHaveBeenCalledWith({ success: true, signedOut: true });
+    expect(res.setHeader).toHaveBeenCalledWith('Set-Cookie', expect.arrayContaining([
+      expect.stringContaining('Max-Age=0'),
+    ]));
+  });
+});
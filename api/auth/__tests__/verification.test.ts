@@ -0,0 +1,247 @@
+// Tests for email verification and password reset - tokens, mail and endpoints
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+const mockDeleteReturning = vi.fn();
+const mockSelectLimit = vi.fn();
+
+vi.mock('@neondatabase/serverless', () => ({
+  neon: vi.fn(() => vi.fn()),
+}));
+
+vi.mock('drizzle-orm/neon-http', () => ({
+  drizzle: vi.fn(() => ({
+    delete: vi.fn(() => ({ where: vi.fn(() => ({ returning: mockDeleteReturning })) })),
+    select: vi.fn(() => ({
+      from: vi.fn(() => ({ where: vi.fn(() => ({ limit: mockSelectLimit })) })),
+    })),
+  })),
+}));
+
+vi.mock('../../_middleware/verification', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/verification')>();
+  return {
+    ...original,
+    verifyEmailToken: vi.fn(),
+    resetPasswordWithToken: vi.fn(),
+    sendPasswordResetEmail: vi.fn(async () => undefined),
+    sendVerificationEmail: vi.fn(),
+  };
+});
+
+import {
+  consumeToken,
+  resetPasswordWithToken,
+  sendPasswordResetEmail,
+  verifyEmailToken,
+} from '../../_middleware/verification';
+import {
+  buildPasswordResetEmail,
+  buildVerificationEmail,
+  FileMailTransport,
+} from '../../_middleware/mail';
+import { hashToken } from '../../../src/services/auth';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+function createMockResponse(): VercelResponse {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as VercelResponse;
+}
+
+function createMockRequest(body: Record<string, unknown>): VercelRequest {
+  return {
+    method: 'POST',
+    query: {},
+    body,
+    headers: { 'x-forwarded-for': `192.0.2.${Math.floor(Math.random() * 250)}` },
+  } as unknown as VercelRequest;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Tokens
+// ══════════════════════════════════════════════════════════════════
+
+describe('consumeToken', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the email for a valid token', async () => {
+    mockDeleteReturning.mockResolvedValue([{
+      identifier: 'a@example.com',
+      tokenHash: hashToken('raw-token'),
+      expiresAt: new Date(Date.now() + 60_000),
+    }]);
+
+    expect(await consumeToken('raw-token', 'email_verify')).toBe('a@example.com');
+  });
+
+  it('rejects a token that was already used', async () => {
+    mockDeleteReturning.mockResolvedValue([]);
+
+    expect(await consumeToken('raw-token', 'password_reset')).toBeNull();
+  });
+
+  it('rejects an expired token', async () => {
+    mockDeleteReturning.mockResolvedValue([{
+      identifier: 'a@example.com',
+      expiresAt: new Date(Date.now() - 1000),
+    }]);
+
+    expect(await consumeToken('raw-token', 'password_reset')).toBeNull();
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Mail
+// ══════════════════════════════════════════════════════════════════
+
+describe('mail', () => {
+  let outbox: string;
+
+  beforeEach(async () => {
+    outbox = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(outbox, { recursive: true, force: true });
+  });
+
+  it('links to the app with the raw token', () => {
+    expect(buildVerificationEmail('a@example.com', 'abc').text).toContain('/verify-email?token=abc');
+    expect(buildPasswordResetEmail('a@example.com', 'xyz').text).toContain('/reset-password?token=xyz');
+  });
+
+  it('writes messages to the file outbox', async () => {
+    await new FileMailTransport(outbox).send(buildVerificationEmail('a@example.com', 'abc'));
+
+    const files = await fs.readdir(outbox);
+    expect(files).toHaveLength(1);
+    const saved = JSON.parse(await fs.readFile(path.join(outbox, files[0]), 'utf8'));
+    expect(saved).toMatchObject({ to: 'a@example.com', subject: 'Verify your email address' });
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Endpoints
+// ══════════════════════════════════════════════════════════════════
+
+describe('POST /api/auth/verify-email', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('verifies the email for a valid token', async () => {
+    const { default: handler } = await import('../verify-email');
+    (verifyEmailToken as Mock).mockResolvedValue({
+      id: 'user-1',
+      email: 'a@example.com',
+      emailVerifiedAt: new Date(),
+    });
+
+    const res = createMockResponse();
+    await handler(createMockRequest({ token: 'raw-token' }), res);
+
+    expect(verifyEmailToken).toHaveBeenCalledWith('raw-token');
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it('returns 400 for an invalid token', async () => {
+    const { default: handler } = await import('../verify-email');
+    (verifyEmailToken as Mock).mockResolvedValue(null);
+
+    const res = createMockResponse();
+    await handler(createMockRequest({ token: 'bad' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+});
+
+describe('POST /api/auth/request-password-reset', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('does not reveal whether the account exists', async () => {
+    const { default: handler } = await import('../request-password-reset');
+
+    mockSelectLimit.mockResolvedValueOnce([]);
+    const missing = createMockResponse();
+    await handler(createMockRequest({ email: 'nobody@example.com' }), missing);
+
+    mockSelectLimit.mockResolvedValueOnce([{ id: 'user-1', email: 'a@example.com' }]);
+    const existing = createMockResponse();
+    await handler(createMockRequest({ email: 'a@example.com' }), existing);
+
+    expect(sendPasswordResetEmail).toHaveBeenCalledTimes(1);
+    expect(sendPasswordResetEmail).toHaveBeenCalledWith('a@example.com');
+    expect((missing.json as Mock).mock.calls[0][0]).toEqual((existing.json as Mock).mock.calls[0][0]);
+  });
+
+  it('answers the same way when the email fails to send', async () => {
+    const { default: handler } = await import('../request-password-reset');
+
+    mockSelectLimit.mockResolvedValueOnce([{ id: 'user-1', email: 'a@example.com' }]);
+    (sendPasswordResetEmail as Mock).mockRejectedValueOnce(new Error('Mail provider unavailable'));
+    const res = createMockResponse();
+    await handler(createMockRequest({ email: 'a@example.com' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect((res.json as Mock).mock.calls[0][0]).toMatchObject({ success: true });
+  });
+});
+
+describe('POST /api/auth/reset-password', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('changes the password and clears session cookies', async () => {
+    const { default: handler } = await import('../reset-password');
+    (resetPasswordWithToken as Mock).mockResolvedValue({ id: 'user-1' });
+
+    const res = createMockResponse();
+    await handler(createMockRequest({ token: 'raw-token', password: 'Correct-Horse-42' }), res);
+
+    expect(resetPasswordWithToken).toHaveBeenCalledWith('raw-token', 'Correct-Horse-42');
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.setHeader).toHaveBeenCalledWith('Set-Cookie', expect.arrayContaining([
+      expect.stringContaining('Max-Age=0'),
+    ]));
+  });
+
+  it('rejects weak passwords before redeeming the token', async () => {
+    const { default: handler } = await import('../reset-password');
+
+    const res = createMockResponse();
+    await handler(createMockRequest({ token: 'raw-token', password: 'short' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(resetPasswordWithToken).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for an invalid or used token', async () => {
+    const { default: handler } = await import('../reset-password');
+    (resetPasswordWithToken as Mock).mockResolvedValue(null);
+
+    const res = createMockResponse();
+    await handler(createMockRequest({ token: 'used', password: 'Correct-Horse-42' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+});
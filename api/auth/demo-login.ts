@@ -3,8 +3,7 @@ import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { neon } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-http';
 import { eq } from 'drizzle-orm';
-import { users, profiles, sessions, teamMemberships } from '../../src/db/schema.js';
-import { generateSessionToken } from '../../src/services/auth.js';
+import { users, profiles, teamMemberships } from '../../src/db/schema.js';
 import {
   serializeCookie,
   generateCsrfToken,
@@ -14,6 +13,8 @@ import {
   verifySignedVisitorId,
 } from '../../src/services/security.js';
 import { COOKIE_NAMES } from '../_middleware/auth.js';
+import { createSession } from '../_middleware/sessions.js';
+import { claimVisitorConversations } from '../_middleware/conversations.js';
 import { SESSION_DURATION_SECONDS } from '../../src/types/auth.js';
 
 // ══════════════════════════════════════════════════════════════════
@@ -114,15 +115,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       .where(eq(teamMemberships.userId, user.id))
       .limit(1);
 
-    // Create session
-    const sessionToken = generateSessionToken();
-    const expiresAt = new Date(Date.now() + SESSION_DURATION_SECONDS * 1000);
-
-    await db.insert(sessions).values({
-      userId: user.id,
-      token: sessionToken,
-      expiresAt,
-    });
+    // Create session (records device and IP for the sessions list)
+    const { token: sessionToken } = await createSession(user.id, req);
 
     // Generate CSRF token
     const csrfToken = generateCsrfToken();
@@ -130,7 +124,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Check for existing visitor cookie, or generate new one
     const cookies = parseCookies(req.headers.cookie);
     let visitorId = verifySignedVisitorId(cookies[COOKIE_NAMES.visitor]);
-    if (!visitorId) {
+    if (visitorId) {
+      // Anonymous chat history follows the visitor into their account
+      await claimVisitorConversations(visitorId, user.id).catch((error) => {
+        console.error('Visitor claim error:', error);
+      });
+    } else {
       visitorId = generateVisitorId();
     }
     const signedVisitorId = signVisitorId(visitorId);
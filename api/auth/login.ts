@@ -3,16 +3,14 @@ import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { neon } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-http';
 import { eq } from 'drizzle-orm';
-import { users, profiles, sessions } from '../../src/db/schema.js';
+import { users, profiles } from '../../src/db/schema.js';
 import {
   verifyPassword,
-  generateSessionToken,
   validateEmail,
 } from '../../src/services/auth.js';
 import {
   serializeCookie,
   generateCsrfToken,
-  checkRateLimit,
   getRateLimitKey,
   RATE_LIMITS,
   addTimingNoise,
@@ -21,7 +19,10 @@ import {
   parseCookies,
   verifySignedVisitorId,
 } from '../../src/services/security.js';
+import { consumeRateLimit } from '../_middleware/rateLimit.js';
 import { COOKIE_NAMES } from '../_middleware/auth.js';
+import { createSession } from '../_middleware/sessions.js';
+import { claimVisitorConversations } from '../_middleware/conversations.js';
 import { SESSION_DURATION_SECONDS } from '../../src/types/auth.js';
 
 const getDb = () => {
@@ -46,7 +47,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   // Rate limiting
   const ip = (req.headers['x-forwarded-for'] as string)?.split(',')[0] || 'unknown';
-  const rateLimitResult = checkRateLimit(
+  const rateLimitResult = await consumeRateLimit(
+    res,
     getRateLimitKey(ip, '/api/auth/login'),
     RATE_LIMITS.login
   );
@@ -112,15 +114,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       .where(eq(profiles.userId, user.id))
       .limit(1);
 
-    // Create session
-    const sessionToken = generateSessionToken();
-    const expiresAt = new Date(Date.now() + SESSION_DURATION_SECONDS * 1000);
-
-    await db.insert(sessions).values({
-      userId: user.id,
-      token: sessionToken,
-      expiresAt,
-    });
+    // Create session (records device and IP for the sessions list)
+    const { token: sessionToken } = await createSession(user.id, req);
 
     // Generate CSRF token
     const csrfToken = generateCsrfToken();
@@ -128,7 +123,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Check for existing visitor cookie, or generate new one
     const cookies = parseCookies(req.headers.cookie);
     let visitorId = verifySignedVisitorId(cookies[COOKIE_NAMES.visitor]);
-    if (!visitorId) {
+    if (visitorId) {
+      // Anonymous chat history follows the visitor into their account
+      await claimVisitorConversations(visitorId, user.id).catch((error) => {
+        console.error('Visitor claim error:', error);
+      });
+    } else {
       visitorId = generateVisitorId();
     }
     const signedVisitorId = signVisitorId(visitorId);
@@ -3,10 +3,9 @@ import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { neon } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-http';
 import { eq } from 'drizzle-orm';
-import { users, profiles, sessions, invites } from '../../src/db/schema.js';
+import { users, profiles, invites } from '../../src/db/schema.js';
 import {
   hashPassword,
-  generateSessionToken,
   validateEmail,
   validatePassword,
 } from '../../src/services/auth.js';
@@ -19,14 +18,19 @@ import {
 import {
   serializeCookie,
   generateCsrfToken,
-  checkRateLimit,
   getRateLimitKey,
   RATE_LIMITS,
   addTimingNoise,
   signVisitorId,
   generateVisitorId,
+  parseCookies,
+  verifySignedVisitorId,
 } from '../../src/services/security.js';
+import { consumeRateLimit } from '../_middleware/rateLimit.js';
 import { COOKIE_NAMES } from '../_middleware/auth.js';
+import { createSession } from '../_middleware/sessions.js';
+import { claimVisitorConversations } from '../_middleware/conversations.js';
+import { sendVerificationEmail } from '../_middleware/verification.js';
 import { SESSION_DURATION_SECONDS } from '../../src/types/auth.js';
 
 const getDb = () => {
@@ -51,7 +55,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   // Rate limiting
   const ip = (req.headers['x-forwarded-for'] as string)?.split(',')[0] || 'unknown';
-  const rateLimitResult = checkRateLimit(
+  const rateLimitResult = await consumeRateLimit(
+    res,
     getRateLimitKey(ip, '/api/auth/register'),
     RATE_LIMITS.register
   );
@@ -157,21 +162,30 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: 'Invite code is no longer valid' });
     }
 
-    // Create session
-    const sessionToken = generateSessionToken();
-    const expiresAt = new Date(Date.now() + SESSION_DURATION_SECONDS * 1000);
+    // Create session (records device and IP for the sessions list)
+    const { token: sessionToken } = await createSession(newUser.id, req);
 
-    await db.insert(sessions).values({
-      userId: newUser.id,
-      token: sessionToken,
-      expiresAt,
-    });
+    // Email a verification link; the account works unverified until it is used
+    const verificationSent = await sendVerificationEmail(newUser.email)
+      .then(() => true)
+      .catch((error) => {
+        console.error('Verification email error:', error);
+        return false;
+      });
 
     // Generate CSRF token
     const csrfToken = generateCsrfToken();
 
-    // Generate visitor ID for future conversation linking
-    const visitorId = generateVisitorId();
+    // Keep the existing visitor so anonymous chat history moves to the new account
+    const cookies = parseCookies(req.headers.cookie);
+    let visitorId = verifySignedVisitorId(cookies[COOKIE_NAMES.visitor]);
+    if (visitorId) {
+      await claimVisitorConversations(visitorId, newUser.id).catch((error) => {
+        console.error('Visitor claim error:', error);
+      });
+    } else {
+      visitorId = generateVisitorId();
+    }
     const signedVisitorId = signVisitorId(visitorId);
 
     // Set cookies
@@ -207,6 +221,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         email: newUser.email,
         emailVerified: false,
       },
+      verificationSent,
       csrfToken,
     });
   } catch (error) {
@@ -0,0 +1,91 @@
+// POST /api/auth/request-password-reset - Email a password reset link
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { eq } from 'drizzle-orm';
+import { users } from '../../src/db/schema.js';
+import { validateEmail } from '../../src/services/auth.js';
+import {
+  getRateLimitKey,
+  RATE_LIMITS,
+  addTimingNoise,
+} from '../../src/services/security.js';
+import { consumeRateLimit } from '../_middleware/rateLimit.js';
+import { sendPasswordResetEmail } from '../_middleware/verification.js';
+
+const getDb = () => {
+  const sql = neon(process.env.DATABASE_URL!);
+  return drizzle(sql);
+};
+
+// Same response whether or not the account exists, so emails cannot be enumerated
+const GENERIC_RESPONSE = {
+  success: true,
+  message: 'If an account exists for that email, a reset link is on its way.',
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting
+  const ip = (req.headers['x-forwarded-for'] as string)?.split(',')[0] || 'unknown';
+  const rateLimitResult = await consumeRateLimit(
+    res,
+    getRateLimitKey(ip, '/api/auth/request-password-reset'),
+    RATE_LIMITS.passwordReset
+  );
+
+  if (!rateLimitResult.allowed) {
+    return res.status(429).json({
+      error: 'Too many reset requests. Please try again later.',
+      retryAfter: Math.ceil((rateLimitResult.resetAt - Date.now()) / 1000),
+    });
+  }
+
+  try {
+    const { email } = (req.body || {}) as { email?: unknown };
+
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({ error: 'Email is required' });
+    }
+
+    const emailValidation = validateEmail(email);
+    if (!emailValidation.valid) {
+      return res.status(400).json({ error: emailValidation.error });
+    }
+
+    const db = getDb();
+    const [user] = await db
+      .select({ id: users.id, email: users.email })
+      .from(users)
+      .where(eq(users.email, emailValidation.normalized!))
+      .limit(1);
+
+    if (!user) {
+      await addTimingNoise();
+      return res.status(200).json(GENERIC_RESPONSE);
+    }
+
+    // A failed send must look like any other request, or the error would reveal the account
+    await sendPasswordResetEmail(user.email).catch((error) => {
+      console.error('Password reset email error:', error);
+    });
+
+    return res.status(200).json(GENERIC_RESPONSE);
+  } catch (error) {
+    console.error('Password reset request error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
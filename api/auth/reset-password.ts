@@ -0,0 +1,89 @@
+// POST /api/auth/reset-password - Set a new password from a reset token
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { validatePassword } from '../../src/services/auth.js';
+import {
+  getRateLimitKey,
+  RATE_LIMITS,
+  serializeCookie,
+} from '../../src/services/security.js';
+import { COOKIE_NAMES } from '../_middleware/auth.js';
+import { consumeRateLimit } from '../_middleware/rateLimit.js';
+import { resetPasswordWithToken } from '../_middleware/verification.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting
+  const ip = (req.headers['x-forwarded-for'] as string)?.split(',')[0] || 'unknown';
+  const rateLimitResult = await consumeRateLimit(
+    res,
+    getRateLimitKey(ip, '/api/auth/reset-password'),
+    RATE_LIMITS.passwordReset
+  );
+
+  if (!rateLimitResult.allowed) {
+    return res.status(429).json({
+      error: 'Too many reset attempts. Please try again later.',
+      retryAfter: Math.ceil((rateLimitResult.resetAt - Date.now()) / 1000),
+    });
+  }
+
+  try {
+    const { token, password } = (req.body || {}) as { token?: unknown; password?: unknown };
+
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({ error: 'token is required' });
+    }
+
+    if (!password || typeof password !== 'string') {
+      return res.status(400).json({ error: 'Password is required' });
+    }
+
+    const passwordValidation = validatePassword(password);
+    if (!passwordValidation.valid) {
+      return res.status(400).json({ error: passwordValidation.errors[0] });
+    }
+
+    // Revokes every session for the user, including any on this device
+    const user = await resetPasswordWithToken(token, password);
+    if (!user) {
+      return res.status(400).json({ error: 'Invalid or expired reset link' });
+    }
+
+    // Clear this browser's session cookies so it signs in fresh
+    const isProduction = process.env.NODE_ENV === 'production';
+    res.setHeader('Set-Cookie', [
+      serializeCookie(COOKIE_NAMES.session, '', {
+        httpOnly: true,
+        secure: isProduction,
+        sameSite: 'Lax',
+        path: '/',
+        maxAge: 0,
+      }),
+      serializeCookie(COOKIE_NAMES.csrf, '', {
+        httpOnly: false,
+        secure: isProduction,
+        sameSite: 'Lax',
+        path: '/',
+        maxAge: 0,
+      }),
+    ]);
+
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
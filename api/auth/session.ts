@@ -52,23 +52,23 @@ async function handler(req: AuthRequest, res: VercelResponse) {
     ]);
   }
 
-  if (auth.isAuthenticated && auth.user) {
-    // Generate fresh CSRF token if needed
-    let csrfToken = cookies[COOKIE_NAMES.csrf];
-    if (!csrfToken) {
-      csrfToken = generateCsrfToken();
-      res.setHeader('Set-Cookie', [
-        ...(res.getHeader('Set-Cookie') as string[] || []),
-        serializeCookie(COOKIE_NAMES.csrf, csrfToken, {
-          httpOnly: false,
-          secure: isProduction,
-          sameSite: 'Lax',
-          path: '/',
-          maxAge: SESSION_DURATION_SECONDS,
-        }),
-      ]);
-    }
+  // Generate fresh CSRF token if needed (anonymous visitors also write chat history)
+  let csrfToken = cookies[COOKIE_NAMES.csrf];
+  if (!csrfToken) {
+    csrfToken = generateCsrfToken();
+    res.setHeader('Set-Cookie', [
+      ...(res.getHeader('Set-Cookie') as string[] || []),
+      serializeCookie(COOKIE_NAMES.csrf, csrfToken, {
+        httpOnly: false,
+        secure: isProduction,
+        sameSite: 'Lax',
+        path: '/',
+        maxAge: SESSION_DURATION_SECONDS,
+      }),
+    ]);
+  }
 
+  if (auth.isAuthenticated && auth.user) {
     return res.status(200).json({
       status: auth.user.emailVerifiedAt ? 'verified' : 'authenticated',
       user: {
@@ -88,6 +88,7 @@ async function handler(req: AuthRequest, res: VercelResponse) {
     user: null,
     visitorId,
     permissions: auth.permissions,
+    csrfToken,
   });
 }
 
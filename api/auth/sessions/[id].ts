@@ -0,0 +1,68 @@
+// DELETE /api/auth/sessions/[id] - Revoke one of the current user's sessions
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  COOKIE_NAMES,
+  type AuthRequest,
+} from '../../_middleware/auth.js';
+import { revokeSession } from '../../_middleware/sessions.js';
+import { serializeCookie } from '../../../src/services/security.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Session ID is required' });
+  }
+
+  try {
+    const revoked = await revokeSession(req.auth.user!.id, id);
+
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    // Revoking the session in use is a sign-out for this browser
+    const isCurrent = id === req.auth.sessionId;
+    if (isCurrent) {
+      const isProduction = process.env.NODE_ENV === 'production';
+      res.setHeader('Set-Cookie', [
+        serializeCookie(COOKIE_NAMES.session, '', {
+          httpOnly: true,
+          secure: isProduction,
+          sameSite: 'Lax',
+          path: '/',
+          maxAge: 0,
+        }),
+        serializeCookie(COOKIE_NAMES.csrf, '', {
+          httpOnly: false,
+          secure: isProduction,
+          sameSite: 'Lax',
+          path: '/',
+          maxAge: 0,
+        }),
+      ]);
+    }
+
+    return res.status(200).json({ success: true, signedOut: isCurrent });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
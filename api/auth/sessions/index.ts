@@ -0,0 +1,49 @@
+// GET /api/auth/sessions - List the current user's active sessions
+// DELETE /api/auth/sessions - Sign out every other session
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../../_middleware/auth.js';
+import {
+  listUserSessions,
+  revokeUserSessions,
+} from '../../_middleware/sessions.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const userId = req.auth.user!.id;
+  const currentSessionId = req.auth.sessionId;
+
+  try {
+    if (req.method === 'GET') {
+      const sessions = await listUserSessions(userId, currentSessionId);
+      return res.status(200).json({ sessions, total: sessions.length });
+    }
+
+    if (req.method === 'DELETE') {
+      if (!currentSessionId) {
+        return res.status(400).json({ error: 'Current session could not be determined' });
+      }
+
+      const revoked = await revokeUserSessions(userId, currentSessionId);
+      return res.status(200).json({ success: true, revoked });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('Sessions API error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
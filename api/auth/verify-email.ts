@@ -0,0 +1,82 @@
+// POST /api/auth/verify-email - Redeem an email verification token, or resend one
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  getRateLimitKey,
+  RATE_LIMITS,
+} from '../../src/services/security.js';
+import { consumeRateLimit } from '../_middleware/rateLimit.js';
+import { getAuthContext } from '../_middleware/auth.js';
+import {
+  verifyEmailToken,
+  sendVerificationEmail,
+} from '../_middleware/verification.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting
+  const ip = (req.headers['x-forwarded-for'] as string)?.split(',')[0] || 'unknown';
+  const rateLimitResult = await consumeRateLimit(
+    res,
+    getRateLimitKey(ip, '/api/auth/verify-email'),
+    RATE_LIMITS.verifyEmail
+  );
+
+  if (!rateLimitResult.allowed) {
+    return res.status(429).json({
+      error: 'Too many verification attempts. Please try again later.',
+      retryAfter: Math.ceil((rateLimitResult.resetAt - Date.now()) / 1000),
+    });
+  }
+
+  try {
+    const { token } = (req.body || {}) as { token?: unknown };
+
+    // No token - resend the link to the signed-in user
+    if (token === undefined) {
+      const auth = await getAuthContext(req);
+      if (!auth.isAuthenticated || !auth.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+      if (auth.user.emailVerifiedAt) {
+        return res.status(200).json({ success: true, alreadyVerified: true });
+      }
+
+      await sendVerificationEmail(auth.user.email);
+      return res.status(200).json({ success: true, sent: true });
+    }
+
+    if (typeof token !== 'string' || !token) {
+      return res.status(400).json({ error: 'token must be a string' });
+    }
+
+    const user = await verifyEmailToken(token);
+    if (!user) {
+      return res.status(400).json({ error: 'Invalid or expired verification link' });
+    }
+
+    return res.status(200).json({
+      success: true,
+      user: {
+        id: user.id,
+        email: user.email,
+        emailVerified: !!user.emailVerifiedAt,
+      },
+    });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
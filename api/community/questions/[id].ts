@@ -3,6 +3,7 @@ import type { VercelResponse } from '@vercel/node';
 import { neon } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-http';
 import { withAuth, type AuthRequest } from '../../_middleware/auth.js';
+import { withRateLimit } from '../../_middleware/rateLimit.js';
 import {
   getQuestionById,
   getAnswersForQuestion,
@@ -114,4 +115,4 @@ async function handler(req: AuthRequest, res: VercelResponse) {
   }
 }
 
-export default withAuth(handler);
+export default withAuth(withRateLimit('communityWrite', handler));
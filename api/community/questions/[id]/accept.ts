@@ -3,6 +3,7 @@ import type { VercelResponse } from '@vercel/node';
 import { neon } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-http';
 import { withAuthenticated, type AuthRequest } from '../../../_middleware/auth.js';
+import { withRateLimit } from '../../../_middleware/rateLimit.js';
 import { acceptAnswer } from '../../../../src/services/communityService.js';
 import { checkAndAwardBadges } from '../../../../src/services/badgeService.js';
 import { updateStreak } from '../../../../src/services/streakService.js';
@@ -65,4 +66,4 @@ async function handler(req: AuthRequest, res: VercelResponse) {
   }
 }
 
-export default withAuthenticated(handler);
+export default withAuthenticated(withRateLimit('communityWrite', handler));
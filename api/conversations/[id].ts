@@ -1,17 +1,24 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { VercelResponse } from '@vercel/node';
 import { neon } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-http';
-import { eq } from 'drizzle-orm';
+import { eq, and } from 'drizzle-orm';
 import { conversations, messages } from '../../src/db/schema.js';
+import { withAuth, type AuthRequest } from '../_middleware/auth.js';
+import {
+  getConversationOwner,
+  ownerCondition,
+  findOwnedConversation,
+} from '../_middleware/conversations.js';
 
 const sql = neon(process.env.DATABASE_URL!);
 const db = drizzle(sql);
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
+async function handler(req: AuthRequest, res: VercelResponse) {
   // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, PATCH, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
@@ -23,13 +30,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(400).json({ error: 'Invalid conversation ID' });
   }
 
+  const owner = getConversationOwner(req.auth);
+  if (!owner) {
+    return res.status(401).json({ error: 'Session required' });
+  }
+
   try {
     // GET - Get single conversation with messages
     if (req.method === 'GET') {
-      const [conversation] = await db
-        .select()
-        .from(conversations)
-        .where(eq(conversations.id, id));
+      // Other owners' conversations are reported as missing, not forbidden
+      const conversation = await findOwnedConversation(id, owner);
 
       if (!conversation) {
         return res.status(404).json({ error: 'Conversation not found' });
@@ -62,7 +72,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       const [updated] = await db
         .update(conversations)
         .set(updates)
-        .where(eq(conversations.id, id))
+        .where(and(eq(conversations.id, id), ownerCondition(owner)))
         .returning();
 
       if (!updated) {
@@ -76,7 +86,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (req.method === 'DELETE') {
       const [deleted] = await db
         .delete(conversations)
-        .where(eq(conversations.id, id))
+        .where(and(eq(conversations.id, id), ownerCondition(owner)))
         .returning();
 
       if (!deleted) {
@@ -92,3 +102,5 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(500).json({ error: 'Internal server error' });
   }
 }
+
+export default withAuth(handler);
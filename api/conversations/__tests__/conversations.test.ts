@@ -0,0 +1,215 @@
+// Tests for conversation ownership - conversations and messages API scoping
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthRequest, AuthContext } from '../../_middleware/auth';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+const mockReturning = vi.fn();
+const mockValues = vi.fn(() => ({ returning: mockReturning }));
+
+vi.mock('@neondatabase/serverless', () => ({
+  neon: vi.fn(() => vi.fn()),
+}));
+
+vi.mock('drizzle-orm/neon-http', () => ({
+  drizzle: vi.fn(() => ({
+    insert: vi.fn(() => ({ values: mockValues })),
+    update: vi.fn(() => ({ set: vi.fn(() => ({ where: vi.fn() })) })),
+  })),
+}));
+
+vi.mock('../../_middleware/auth', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/auth')>();
+  return {
+    ...original,
+    withAuth: (handler: unknown) => handler,
+    validateCsrf: () => true,
+  };
+});
+
+vi.mock('../../_middleware/conversations', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/conversations')>();
+  return {
+    ...original,
+    findOwnedConversation: vi.fn(),
+  };
+});
+
+import {
+  getConversationOwner,
+  ownerValues,
+  findOwnedConversation,
+} from '../../_middleware/conversations';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+function createMockResponse(): VercelResponse {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as VercelResponse;
+}
+
+function createAuth(overrides: Partial<AuthContext> = {}): AuthContext {
+  return {
+    isAuthenticated: false,
+    user: null,
+    visitorId: null,
+    permissions: {} as AuthContext['permissions'],
+    ...overrides,
+  };
+}
+
+function signedInAuth(): AuthContext {
+  return createAuth({
+    isAuthenticated: true,
+    user: { id: 'user-1', email: 'a@example.com', emailVerifiedAt: null, profile: null },
+    visitorId: 'visitor-1',
+  });
+}
+
+function createMockRequest(auth: AuthContext, overrides: Partial<AuthRequest> = {}): AuthRequest {
+  return {
+    method: 'GET',
+    query: {},
+    body: {},
+    headers: { 'x-forwarded-for': `198.51.100.${Math.floor(Math.random() * 200)}` },
+    auth,
+    ...overrides,
+  } as unknown as AuthRequest;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Ownership
+// ══════════════════════════════════════════════════════════════════
+
+describe('getConversationOwner', () => {
+  it('uses the user id for signed-in users', () => {
+    expect(getConversationOwner(signedInAuth())).toEqual({
+      kind: 'user',
+      userId: 'user-1',
+      visitorId: 'visitor-1',
+    });
+  });
+
+  it('uses the signed visitor cookie for anonymous users', () => {
+    expect(getConversationOwner(createAuth({ visitorId: 'visitor-2' }))).toEqual({
+      kind: 'visitor',
+      visitorId: 'visitor-2',
+    });
+  });
+
+  it('returns null without a session or visitor cookie', () => {
+    expect(getConversationOwner(createAuth())).toBeNull();
+  });
+});
+
+describe('ownerValues', () => {
+  it('falls back to the user id when there is no visitor cookie', () => {
+    expect(ownerValues({ kind: 'user', userId: 'user-1', visitorId: null })).toEqual({
+      visitorId: 'user-1',
+      userId: 'user-1',
+    });
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Endpoints
+// ══════════════════════════════════════════════════════════════════
+
+describe('POST /api/conversations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('ignores a client-supplied visitorId', async () => {
+    const { default: handler } = await import('../index');
+    mockReturning.mockResolvedValue([{ id: 'conv-1' }]);
+
+    const req = createMockRequest(createAuth({ visitorId: 'visitor-2' }), {
+      method: 'POST',
+      body: { visitorId: 'someone-else', title: 'Hello' },
+    });
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(mockValues).toHaveBeenCalledWith(expect.objectContaining({
+      visitorId: 'visitor-2',
+      userId: null,
+    }));
+    expect(res.status).toHaveBeenCalledWith(201);
+  });
+
+  it('returns 401 without a session or visitor cookie', async () => {
+    const { default: handler } = await import('../index');
+
+    const req = createMockRequest(createAuth(), { method: 'POST', body: { title: 'Hello' } });
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
+
+describe('GET /api/conversations/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('hides conversations owned by someone else', async () => {
+    const { default: handler } = await import('../[id]');
+    (findOwnedConversation as Mock).mockResolvedValue(null);
+
+    const req = createMockRequest(signedInAuth(), { query: { id: 'conv-other' } });
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(findOwnedConversation).toHaveBeenCalledWith('conv-other', expect.objectContaining({ userId: 'user-1' }));
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
+
+describe('POST /api/messages', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('rejects appends to conversations the caller does not own', async () => {
+    const { default: handler } = await import('../../messages/index');
+    (findOwnedConversation as Mock).mockResolvedValue(null);
+
+    const req = createMockRequest(signedInAuth(), {
+      method: 'POST',
+      body: { conversationId: 'conv-other', role: 'user', content: 'hi' },
+    });
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(mockValues).not.toHaveBeenCalled();
+  });
+
+  it('appends for the owner', async () => {
+    const { default: handler } = await import('../../messages/index');
+    (findOwnedConversation as Mock).mockResolvedValue({ id: 'conv-1' });
+    mockReturning.mockResolvedValue([{ id: 'msg-1' }]);
+
+    const req = createMockRequest(signedInAuth(), {
+      method: 'POST',
+      body: { conversationId: 'conv-1', role: 'user', content: 'hi' },
+    });
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(mockValues).toHaveBeenCalledWith(expect.objectContaining({ conversationId: 'conv-1' }));
+    expect(res.status).toHaveBeenCalledWith(201);
+  });
+});
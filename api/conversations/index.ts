@@ -1,30 +1,39 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { VercelResponse } from '@vercel/node';
 import { neon } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-http';
 import { eq, desc, and, or, ilike } from 'drizzle-orm';
 import { conversations, messages } from '../../src/db/schema.js';
+import { withAuth, type AuthRequest } from '../_middleware/auth.js';
+import {
+  getConversationOwner,
+  ownerCondition,
+  ownerValues,
+} from '../_middleware/conversations.js';
 
 const sql = neon(process.env.DATABASE_URL!);
 const db = drizzle(sql);
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
+async function handler(req: AuthRequest, res: VercelResponse) {
   // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  // Owner comes from the session or signed visitor cookie, never the request
+  const owner = getConversationOwner(req.auth);
+  if (!owner) {
+    return res.status(401).json({ error: 'Session required' });
+  }
+
   try {
     // GET - List conversations
     if (req.method === 'GET') {
-      const { visitorId, includeArchived, search } = req.query;
-
-      if (!visitorId) {
-        return res.status(400).json({ error: 'visitorId is required' });
-      }
+      const { includeArchived, search } = req.query;
 
       // If search query is provided, search both title and message content
       if (search && typeof search === 'string' && search.trim()) {
@@ -35,6 +44,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           .selectDistinct({
             id: conversations.id,
             visitorId: conversations.visitorId,
+            userId: conversations.userId,
             title: conversations.title,
             category: conversations.category,
             createdAt: conversations.createdAt,
@@ -46,7 +56,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           .leftJoin(messages, eq(messages.conversationId, conversations.id))
           .where(
             and(
-              eq(conversations.visitorId, visitorId as string),
+              ownerCondition(owner),
               includeArchived !== 'true' ? eq(conversations.isArchived, false) : undefined,
               or(
                 ilike(conversations.title, searchTerm),
@@ -60,7 +70,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
 
       // No search - return all conversations
-      const conditions = [eq(conversations.visitorId, visitorId as string)];
+      const conditions = [ownerCondition(owner)];
 
       if (includeArchived !== 'true') {
         conditions.push(eq(conversations.isArchived, false));
@@ -77,16 +87,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     // POST - Create conversation
     if (req.method === 'POST') {
-      const { visitorId, title, category = 'general' } = req.body;
+      const { title, category = 'general' } = req.body;
 
-      if (!visitorId || !title) {
-        return res.status(400).json({ error: 'visitorId and title are required' });
+      if (!title) {
+        return res.status(400).json({ error: 'title is required' });
       }
 
       const [newConversation] = await db
         .insert(conversations)
         .values({
-          visitorId,
+          ...ownerValues(owner),
           title,
           category,
         })
@@ -101,3 +111,5 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(500).json({ error: 'Internal server error' });
   }
 }
+
+export default withAuth(handler);
@@ -0,0 +1,282 @@
+// Tests for Team Budget Allocation API endpoints
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { VercelResponse } from '@vercel/node';
+import type { OrgRequest } from '../../_middleware/organization';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+vi.mock('../../_middleware/credits', () => ({
+  getAllocations: vi.fn(),
+  createAllocation: vi.fn(),
+  resizeAllocation: vi.fn(),
+  rebalanceAllocations: vi.fn(),
+  closeAllocation: vi.fn(),
+}));
+
+// Bypass org resolution; tests attach req.org directly
+vi.mock('../../_middleware/organization', () => ({
+  withOrgRole: (_roles: unknown, handler: unknown) => handler,
+  getCompanyTeams: vi.fn(),
+}));
+
+import {
+  getAllocations,
+  createAllocation,
+  resizeAllocation,
+  rebalanceAllocations,
+  closeAllocation,
+} from '../../_middleware/credits';
+import { getCompanyTeams } from '../../_middleware/organization';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCK REQUEST/RESPONSE HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+function createMockResponse(): VercelResponse {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as VercelResponse;
+}
+
+function createMockRequest(overrides: Partial<OrgRequest> = {}): OrgRequest {
+  return {
+    method: 'GET',
+    query: {},
+    body: {},
+    headers: {},
+    org: {
+      company: { id: 'company-1' },
+      teams: [],
+      primaryTeam: null,
+      userRole: 'admin',
+      creditAccount: { id: 'account-1' },
+    },
+    ...overrides,
+  } as unknown as OrgRequest;
+}
+
+const ALLOCATION = {
+  id: 'alloc-1',
+  accountId: 'account-1',
+  teamId: 'team-1',
+  allocatedCredits: 1000,
+  periodStart: new Date('2026-01-01'),
+  periodEnd: new Date('2026-02-01'),
+  closedAt: null,
+};
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - /api/credits/allocations
+// ══════════════════════════════════════════════════════════════════
+
+describe('/api/credits/allocations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists allocations for the company account', async () => {
+    const { default: handler } = await import('../allocations/index');
+    (getAllocations as Mock).mockResolvedValue([{ allocation: ALLOCATION, balance: null }]);
+
+    const req = createMockRequest();
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(getAllocations).toHaveBeenCalledWith('account-1');
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ total: 1 }));
+  });
+
+  it('returns 404 when the company has no credit account', async () => {
+    const { default: handler } = await import('../allocations/index');
+    const req = createMockRequest();
+    req.org.creditAccount = null;
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  it('creates an allocation for a team in the organization', async () => {
+    const { default: handler } = await import('../allocations/index');
+    (getCompanyTeams as Mock).mockResolvedValue([{ id: 'team-1' }]);
+    (createAllocation as Mock).mockResolvedValue(ALLOCATION);
+
+    const req = createMockRequest({
+      method: 'POST',
+      body: {
+        teamId: 'team-1',
+        allocatedCredits: 1000,
+        periodStart: '2026-01-01',
+        periodEnd: '2026-02-01',
+      },
+    });
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(createAllocation).toHaveBeenCalledWith(expect.objectContaining({
+      accountId: 'account-1',
+      teamId: 'team-1',
+      allocatedCredits: 1000,
+    }));
+    expect(res.status).toHaveBeenCalledWith(201);
+  });
+
+  it('rejects teams outside the organization', async () => {
+    const { default: handler } = await import('../allocations/index');
+    (getCompanyTeams as Mock).mockResolvedValue([{ id: 'team-1' }]);
+
+    const req = createMockRequest({
+      method: 'POST',
+      body: {
+        teamId: 'team-other',
+        allocatedCredits: 1000,
+        periodStart: '2026-01-01',
+        periodEnd: '2026-02-01',
+      },
+    });
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(createAllocation).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 for overlapping allocations', async () => {
+    const { default: handler } = await import('../allocations/index');
+    (getCompanyTeams as Mock).mockResolvedValue([{ id: 'team-1' }]);
+    (createAllocation as Mock).mockRejectedValue(
+      new Error('Allocation overlaps an existing allocation for this team')
+    );
+
+    const req = createMockRequest({
+      method: 'POST',
+      body: {
+        teamId: 'team-1',
+        allocatedCredits: 1000,
+        periodStart: '2026-01-01',
+        periodEnd: '2026-02-01',
+      },
+    });
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Resize, rebalance and close
+// ══════════════════════════════════════════════════════════════════
+
+describe('PATCH /api/credits/allocations/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('resizes an allocation', async () => {
+    const { default: handler } = await import('../allocations/[id]');
+    (resizeAllocation as Mock).mockResolvedValue({ ...ALLOCATION, allocatedCredits: 1500 });
+
+    const req = createMockRequest({
+      method: 'PATCH',
+      query: { id: 'alloc-1' },
+      body: { allocatedCredits: 1500 },
+    });
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(resizeAllocation).toHaveBeenCalledWith('account-1', 'alloc-1', 1500);
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it('returns 400 when shrinking below committed usage', async () => {
+    const { default: handler } = await import('../allocations/[id]');
+    (resizeAllocation as Mock).mockRejectedValue(
+      new Error('Invalid allocation: cannot reduce below committed credits (800)')
+    );
+
+    const req = createMockRequest({
+      method: 'PATCH',
+      query: { id: 'alloc-1' },
+      body: { allocatedCredits: 500 },
+    });
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+});
+
+describe('POST /api/credits/allocations/rebalance', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('moves credits between allocations', async () => {
+    const { default: handler } = await import('../allocations/rebalance');
+    (rebalanceAllocations as Mock).mockResolvedValue({ from: ALLOCATION, to: ALLOCATION });
+
+    const req = createMockRequest({
+      method: 'POST',
+      body: { fromAllocationId: 'alloc-1', toAllocationId: 'alloc-2', amount: 200 },
+    });
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(rebalanceAllocations).toHaveBeenCalledWith('account-1', 'alloc-1', 'alloc-2', 200);
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it('returns 400 when the source team lacks budget', async () => {
+    const { default: handler } = await import('../allocations/rebalance');
+    (rebalanceAllocations as Mock).mockRejectedValue(
+      new Error('Insufficient team budget. Team: Ops, Available: 100, Required: 200')
+    );
+
+    const req = createMockRequest({
+      method: 'POST',
+      body: { fromAllocationId: 'alloc-1', toAllocationId: 'alloc-2', amount: 200 },
+    });
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ error: 'Team budget exceeded' }));
+  });
+});
+
+describe('POST /api/credits/allocations/[id]/close', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('closes an allocation', async () => {
+    const { default: handler } = await import('../allocations/[id]/close');
+    (closeAllocation as Mock).mockResolvedValue({ ...ALLOCATION, closedAt: new Date() });
+
+    const req = createMockRequest({ method: 'POST', query: { id: 'alloc-1' } });
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(closeAllocation).toHaveBeenCalledWith('account-1', 'alloc-1');
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it('returns 404 for unknown allocations', async () => {
+    const { default: handler } = await import('../allocations/[id]/close');
+    (closeAllocation as Mock).mockRejectedValue(new Error('Allocation not found'));
+
+    const req = createMockRequest({ method: 'POST', query: { id: 'missing' } });
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
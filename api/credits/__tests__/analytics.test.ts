@@ -0,0 +1,201 @@
+// Tests for Credit Usage Analytics - aggregation, forecasting and endpoint validation
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { VercelResponse } from '@vercel/node';
+import type { OrgRequest } from '../../_middleware/organization';
+import {
+  aggregateUsage,
+  forecastBurn,
+  type UsageRow,
+} from '../../_middleware/analytics';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+vi.mock('../../_middleware/organization', () => ({
+  withOrgRole: (_roles: unknown, handler: unknown) => handler,
+}));
+
+vi.mock('../../_middleware/analytics', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/analytics')>();
+  return {
+    ...original,
+    getUsageAnalytics: vi.fn(),
+  };
+});
+
+import { getUsageAnalytics } from '../../_middleware/analytics';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+function createRow(overrides: Partial<UsageRow> = {}): UsageRow {
+  return {
+    period: '2026-01-05',
+    teamId: 'team-1',
+    teamName: 'Procurement',
+    requesterId: 'user-1',
+    requesterName: 'Alex',
+    requestType: 'analyst_call',
+    category: 'Steel',
+    credits: 500,
+    transactions: 1,
+    ...overrides,
+  };
+}
+
+function createMockResponse(): VercelResponse {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as VercelResponse;
+}
+
+function createMockRequest(overrides: Partial<OrgRequest> = {}): OrgRequest {
+  return {
+    method: 'GET',
+    query: {},
+    body: {},
+    headers: {},
+    org: {
+      company: { id: 'company-1' },
+      userRole: 'admin',
+      creditAccount: { id: 'account-1' },
+    },
+    ...overrides,
+  } as unknown as OrgRequest;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - aggregateUsage
+// ══════════════════════════════════════════════════════════════════
+
+describe('aggregateUsage', () => {
+  it('rolls rows up by each dimension', () => {
+    const result = aggregateUsage([
+      createRow(),
+      createRow({ period: '2026-01-12', requesterId: 'user-2', requesterName: 'Sam', credits: 1500 }),
+      createRow({ teamId: 'team-2', teamName: 'Legal', requestType: 'report_upgrade', category: 'Aluminum', credits: 2000 }),
+    ]);
+
+    expect(result.totalCredits).toBe(4000);
+    expect(result.byPeriod.map((b) => [b.key, b.credits])).toEqual([
+      ['2026-01-05', 2500],
+      ['2026-01-12', 1500],
+    ]);
+    expect(result.byTeam[0]).toMatchObject({ key: 'team-1', label: 'Procurement', credits: 2000, transactions: 2 });
+    expect(result.byRequester[0]).toMatchObject({ key: 'user-1', credits: 2500 });
+    expect(result.byRequestType.map((b) => b.key)).toEqual(['analyst_call', 'report_upgrade']);
+    expect(result.byCategory.map((b) => b.key)).toEqual(['Steel', 'Aluminum']);
+  });
+
+  it('groups entries without a request as unattributed', () => {
+    const result = aggregateUsage([
+      createRow({ requestType: null, category: null, teamId: null, teamName: null }),
+    ]);
+
+    expect(result.byRequestType[0]).toMatchObject({ key: 'unattributed', label: 'Unattributed' });
+    expect(result.byCategory[0].key).toBe('unattributed');
+    expect(result.byTeam[0].key).toBe('unattributed');
+  });
+
+  it('returns empty breakdowns when there is no usage', () => {
+    const result = aggregateUsage([]);
+
+    expect(result.totalCredits).toBe(0);
+    expect(result.byPeriod).toEqual([]);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - forecastBurn
+// ══════════════════════════════════════════════════════════════════
+
+describe('forecastBurn', () => {
+  const now = new Date('2026-03-01T00:00:00Z');
+  const periodEnd = new Date('2026-03-31T00:00:00Z');
+
+  it('projects the trailing rate to the period end', () => {
+    // 3,000 over 30 days = 100/day; 30 days left
+    const forecast = forecastBurn(10000, 3000, 30, now, periodEnd);
+
+    expect(forecast.dailyBurnRate).toBe(100);
+    expect(forecast.daysUntilPeriodEnd).toBe(30);
+    expect(forecast.projectedUsageToPeriodEnd).toBe(3000);
+    expect(forecast.projectedBalanceAtPeriodEnd).toBe(7000);
+    expect(forecast.exhaustionDate).toBe('2026-06-09T00:00:00.000Z');
+    expect(forecast.exhaustsBeforePeriodEnd).toBe(false);
+  });
+
+  it('flags exhaustion before the period end', () => {
+    const forecast = forecastBurn(1000, 3000, 30, now, periodEnd);
+
+    expect(forecast.exhaustionDate).toBe('2026-03-11T00:00:00.000Z');
+    expect(forecast.exhaustsBeforePeriodEnd).toBe(true);
+    expect(forecast.projectedBalanceAtPeriodEnd).toBe(-2000);
+  });
+
+  it('has no exhaustion date when nothing is being spent', () => {
+    const forecast = forecastBurn(1000, 0, 30, now, periodEnd);
+
+    expect(forecast.exhaustionDate).toBeNull();
+    expect(forecast.exhaustsBeforePeriodEnd).toBe(false);
+  });
+
+  it('treats an empty balance as already exhausted', () => {
+    const forecast = forecastBurn(0, 0, 30, now, periodEnd);
+
+    expect(forecast.exhaustionDate).toBe(now.toISOString());
+    expect(forecast.exhaustsBeforePeriodEnd).toBe(true);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - GET /api/credits/analytics
+// ══════════════════════════════════════════════════════════════════
+
+describe('GET /api/credits/analytics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns analytics for the company account', async () => {
+    const { default: handler } = await import('../analytics');
+    (getUsageAnalytics as Mock).mockResolvedValue({ accountId: 'account-1', totalCredits: 0 });
+
+    const req = createMockRequest({ query: { granularity: 'month' } });
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(getUsageAnalytics).toHaveBeenCalledWith(
+      { id: 'account-1' },
+      expect.objectContaining({ granularity: 'month' })
+    );
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it('rejects unknown granularities', async () => {
+    const { default: handler } = await import('../analytics');
+
+    const req = createMockRequest({ query: { granularity: 'hour' } });
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(getUsageAnalytics).not.toHaveBeenCalled();
+  });
+
+  it('rejects invalid dates', async () => {
+    const { default: handler } = await import('../analytics');
+
+    const req = createMockRequest({ query: { startDate: 'not-a-date' } });
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+});
@@ -51,6 +51,9 @@ vi.mock('../../_middleware/credits', () => ({
   getTransactions: vi.fn(),
   getActiveHolds: vi.fn(),
   getHoldById: vi.fn(),
+  getSpendingTeamForUser: vi.fn(() => Promise.resolve('team-1')),
+  getTeamBalance: vi.fn(() => Promise.resolve(null)),
+  processPeriodRollovers: vi.fn(() => Promise.resolve({ closed: [], failed: [] })),
   DEBIT_TRANSACTION_TYPES: ['spend', 'adjustment', 'expiry'] as const,
   CREDIT_TRANSACTION_TYPES: ['allocation', 'refund', 'rollover'] as const,
 }));
@@ -305,3 +308,49 @@ describe('Credit API - CSRF Protection', () => {
     });
   });
 });
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Cron Endpoint (no user auth, uses CRON_SECRET)
+// ══════════════════════════════════════════════════════════════════
+
+describe('Credit API - Rollover Cron', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('processes rollovers when no CRON_SECRET is set', async () => {
+    delete process.env.CRON_SECRET;
+
+    const { default: handler } = await import('../rollover');
+
+    const req = createMockRequest({
+      method: 'POST',
+      headers: {},
+    });
+    const res = createMockResponse();
+
+    await handler(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        success: true,
+        closedCount: 0,
+      })
+    );
+  });
+
+  it('returns 405 for GET requests', async () => {
+    const { default: handler } = await import('../rollover');
+
+    const req = createMockRequest({
+      method: 'GET',
+      headers: {},
+    });
+    const res = createMockResponse();
+
+    await handler(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(405);
+  });
+});
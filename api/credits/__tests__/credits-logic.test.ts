@@ -10,6 +10,7 @@ import {
   createTestLedgerEntry,
   createTestBalance,
 } from '../../../src/test/credit-utils';
+import { calculateRollover } from '../../_middleware/credits';
 
 // ══════════════════════════════════════════════════════════════════
 // TESTS - Balance Calculation Formula
@@ -357,3 +358,41 @@ describe('Days Remaining Calculation', () => {
     expect(days).toBeLessThanOrEqual(1);
   });
 });
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Period Rollover Policy
+// ══════════════════════════════════════════════════════════════════
+
+describe('Period Rollover Policy', () => {
+  it('expires all unused credits on tiers without rollover', () => {
+    const result = calculateRollover('starter', 25000, 4000);
+    expect(result).toEqual({ expiredCredits: 4000, rolledOverCredits: 0 });
+  });
+
+  it('carries forward up to the tier percentage', () => {
+    // business: 20% of 80,000 = 16,000, capped at 15,000
+    const result = calculateRollover('business', 80000, 30000);
+    expect(result).toEqual({ expiredCredits: 30000, rolledOverCredits: 15000 });
+  });
+
+  it('carries forward everything when unused is below the cap', () => {
+    const result = calculateRollover('professional', 52500, 1200);
+    expect(result).toEqual({ expiredCredits: 1200, rolledOverCredits: 1200 });
+  });
+
+  it('applies no absolute cap when the tier has none', () => {
+    // enterprise: 25% of 110,000 = 27,500
+    const result = calculateRollover('enterprise', 110000, 60000);
+    expect(result.rolledOverCredits).toBe(27500);
+  });
+
+  it('treats overdrawn balances as nothing to expire', () => {
+    const result = calculateRollover('enterprise', 110000, -500);
+    expect(result).toEqual({ expiredCredits: 0, rolledOverCredits: 0 });
+  });
+
+  it('falls back to no rollover for unknown tiers', () => {
+    const result = calculateRollover('legacy', 10000, 5000);
+    expect(result.rolledOverCredits).toBe(0);
+  });
+});
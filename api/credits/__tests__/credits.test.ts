@@ -19,6 +19,8 @@ vi.mock('../../_middleware/credits', () => ({
   getTransactions: vi.fn(),
   getActiveHolds: vi.fn(),
   getHoldById: vi.fn(),
+  getSpendingTeamForUser: vi.fn(() => Promise.resolve('team-1')),
+  getTeamBalance: vi.fn(() => Promise.resolve(null)),
   // Export the constants needed by spend endpoint
   DEBIT_TRANSACTION_TYPES: ['spend', 'adjustment', 'expiry'] as const,
   CREDIT_TRANSACTION_TYPES: ['allocation', 'refund', 'rollover'] as const,
@@ -236,7 +238,7 @@ describe('POST /api/credits/hold', () => {
 
     await handler(req, res);
 
-    expect(createHold).toHaveBeenCalledWith(account.id, holdInput.requestId, holdInput.amount);
+    expect(createHold).toHaveBeenCalledWith(account.id, holdInput.requestId, holdInput.amount, 'team-1');
     expect(res.status).toHaveBeenCalledWith(201);
     expect(res.json).toHaveBeenCalledWith(holdResult);
   });
@@ -319,6 +321,30 @@ describe('POST /api/credits/hold', () => {
     );
   });
 
+  it('returns 400 when the team budget is exceeded', async () => {
+    const account = createTestCreditAccount();
+    (getAccountForUser as Mock).mockResolvedValue(account);
+    (createHold as Mock).mockRejectedValue(
+      new Error('Insufficient team budget. Team: Procurement, Available: 200, Required: 500')
+    );
+
+    const { default: handler } = await import('../hold');
+
+    const req = createMockRequest({
+      method: 'POST',
+      body: createHoldInput({ amount: 500 }),
+      auth: createAuthenticatedContext(),
+    });
+    const res = createMockResponse();
+
+    await handler(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ error: 'Team budget exceeded' })
+    );
+  });
+
   it('returns 409 for duplicate request', async () => {
     const account = createTestCreditAccount();
     (getAccountForUser as Mock).mockResolvedValue(account);
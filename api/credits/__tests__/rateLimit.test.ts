@@ -0,0 +1,101 @@
+// Tests for the shared rate limit wrapper applied to credit and community writes
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthRequest } from '../../_middleware/auth';
+import { withRateLimit } from '../../_middleware/rateLimit';
+import { RATE_LIMITS } from '../../../src/services/security';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+function createMockResponse(): VercelResponse & { headers: Record<string, string> } {
+  const headers: Record<string, string> = {};
+  const res = {
+    headers,
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn((name: string, value: string) => {
+      headers[name] = value;
+      return res;
+    }),
+  };
+  return res as unknown as VercelResponse & { headers: Record<string, string> };
+}
+
+function createMockRequest(userId: string, overrides: Partial<AuthRequest> = {}): AuthRequest {
+  return {
+    method: 'POST',
+    query: {},
+    body: {},
+    headers: { 'x-forwarded-for': '203.0.113.7' },
+    auth: { isAuthenticated: true, user: { id: userId } },
+    ...overrides,
+  } as unknown as AuthRequest;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS
+// ══════════════════════════════════════════════════════════════════
+
+describe('withRateLimit', () => {
+  const inner = vi.fn(async (_req: AuthRequest, res: VercelResponse) => res.status(200).json({ ok: true }));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sets RateLimit headers on allowed requests', async () => {
+    const handler = withRateLimit('creditSpend', inner);
+    const res = createMockResponse();
+
+    await handler(createMockRequest(`user-headers-${Math.random()}`), res);
+
+    expect(inner).toHaveBeenCalled();
+    expect(res.headers['RateLimit-Limit']).toBe(String(RATE_LIMITS.creditSpend.maxRequests));
+    expect(res.headers['RateLimit-Remaining']).toBe(String(RATE_LIMITS.creditSpend.maxRequests - 1));
+    expect(res.headers['RateLimit-Policy']).toBe('20;w=60');
+  });
+
+  it('returns 429 once the user exceeds the limit', async () => {
+    const handler = withRateLimit('creditHold', inner);
+    const userId = `user-burst-${Math.random()}`;
+
+    for (let i = 0; i < RATE_LIMITS.creditHold.maxRequests; i++) {
+      await handler(createMockRequest(userId), createMockResponse());
+    }
+
+    const res = createMockResponse();
+    await handler(createMockRequest(userId), res);
+
+    expect(inner).toHaveBeenCalledTimes(RATE_LIMITS.creditHold.maxRequests);
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.headers['Retry-After']).toBeDefined();
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ retryAfter: expect.any(Number) }));
+  });
+
+  it('tracks users independently', async () => {
+    const handler = withRateLimit('creditHold', inner);
+    const userId = `user-a-${Math.random()}`;
+
+    for (let i = 0; i <= RATE_LIMITS.creditHold.maxRequests; i++) {
+      await handler(createMockRequest(userId), createMockResponse());
+    }
+
+    const res = createMockResponse();
+    await handler(createMockRequest(`user-b-${Math.random()}`), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it('does not count reads', async () => {
+    const handler = withRateLimit('creditSpend', inner);
+    const res = createMockResponse();
+
+    await handler(createMockRequest('user-reader', { method: 'GET' }), res);
+
+    expect(inner).toHaveBeenCalled();
+    expect(res.setHeader).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,271 @@
+// Tests for Ledger Reconciliation - integrity checks and admin endpoints
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { VercelResponse } from '@vercel/node';
+import type { OrgRequest } from '../../_middleware/organization';
+import {
+  detectIssues,
+  type AuditedHold,
+  type ConversionTotals,
+} from '../../_middleware/reconciliation';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+vi.mock('../../_middleware/organization', () => ({
+  withOrgRole: (_roles: unknown, handler: unknown) => handler,
+}));
+
+vi.mock('../../_middleware/reconciliation', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/reconciliation')>();
+  return {
+    ...original,
+    reconcileAccount: vi.fn(),
+    repairIssue: vi.fn(),
+  };
+});
+
+import { reconcileAccount, repairIssue } from '../../_middleware/reconciliation';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+function createHold(overrides: Partial<AuditedHold> = {}): AuditedHold {
+  return {
+    id: 'hold-1',
+    requestId: 'request-1',
+    amount: 500,
+    status: 'active',
+    requestStatus: 'pending',
+    ...overrides,
+  };
+}
+
+function conversionsFor(entries: Array<[string, ConversionTotals]>): Map<string | null, ConversionTotals> {
+  return new Map(entries);
+}
+
+function createMockResponse(): VercelResponse {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as VercelResponse;
+}
+
+function createMockRequest(overrides: Partial<OrgRequest> = {}): OrgRequest {
+  return {
+    method: 'GET',
+    query: {},
+    body: {},
+    headers: {},
+    auth: { user: { id: 'admin-1' } },
+    org: {
+      company: { id: 'company-1' },
+      userRole: 'admin',
+      creditAccount: { id: 'account-1' },
+    },
+    ...overrides,
+  } as unknown as OrgRequest;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - detectIssues
+// ══════════════════════════════════════════════════════════════════
+
+describe('detectIssues', () => {
+  it('reports nothing for a consistent account', () => {
+    const issues = detectIssues(
+      'account-1',
+      { availableCredits: 1000 },
+      1000,
+      [createHold(), createHold({ id: 'hold-2', requestId: 'request-2', status: 'converted', requestStatus: 'approved' })],
+      conversionsFor([['request-2', { count: 1, total: 500 }]])
+    );
+
+    expect(issues).toEqual([]);
+  });
+
+  it('flags a derived balance that disagrees with the ledger', () => {
+    const issues = detectIssues('account-1', { availableCredits: 1000 }, 900, [], new Map());
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ type: 'balance_mismatch', amount: 100, repair: null });
+  });
+
+  it('flags negative balances with a credit adjustment repair', () => {
+    const issues = detectIssues('account-1', { availableCredits: -250 }, -250, [], new Map());
+
+    expect(issues[0]).toMatchObject({
+      id: 'negative_balance:account-1',
+      type: 'negative_balance',
+      amount: 250,
+      repair: 'credit_adjustment',
+    });
+  });
+
+  it('releases active holds whose request was denied', () => {
+    const issues = detectIssues(
+      'account-1',
+      { availableCredits: 0 },
+      0,
+      [createHold({ requestStatus: 'denied' })],
+      new Map()
+    );
+
+    expect(issues[0]).toMatchObject({ type: 'orphaned_hold', repair: 'release_hold' });
+  });
+
+  it('converts active holds whose request was approved', () => {
+    const issues = detectIssues(
+      'account-1',
+      { availableCredits: 0 },
+      0,
+      [createHold({ requestStatus: 'approved' })],
+      new Map()
+    );
+
+    expect(issues[0]).toMatchObject({ type: 'orphaned_hold', repair: 'convert_hold' });
+  });
+
+  it('flags holds whose request row is missing', () => {
+    const issues = detectIssues(
+      'account-1',
+      { availableCredits: 0 },
+      0,
+      [createHold({ requestStatus: null })],
+      new Map()
+    );
+
+    expect(issues[0]).toMatchObject({
+      id: 'missing_request:hold-1',
+      type: 'missing_request',
+      repair: 'release_hold',
+    });
+  });
+
+  it('flags converted holds without a conversion entry', () => {
+    const issues = detectIssues(
+      'account-1',
+      { availableCredits: 0 },
+      0,
+      [createHold({ status: 'converted', requestStatus: 'approved' })],
+      new Map()
+    );
+
+    expect(issues[0]).toMatchObject({
+      type: 'missing_conversion',
+      amount: 500,
+      repair: 'debit_adjustment',
+    });
+  });
+
+  it('flags duplicate conversions and refunds the excess', () => {
+    const issues = detectIssues(
+      'account-1',
+      { availableCredits: 0 },
+      0,
+      [createHold({ status: 'converted', requestStatus: 'approved' })],
+      conversionsFor([['request-1', { count: 2, total: 1000 }]])
+    );
+
+    expect(issues[0]).toMatchObject({
+      type: 'duplicate_conversion',
+      amount: 500,
+      repair: 'credit_adjustment',
+    });
+  });
+
+  it('flags conversion entries for released holds', () => {
+    const issues = detectIssues(
+      'account-1',
+      { availableCredits: 0 },
+      0,
+      [createHold({ status: 'released', requestStatus: 'cancelled' })],
+      conversionsFor([['request-1', { count: 1, total: 500 }]])
+    );
+
+    expect(issues[0]).toMatchObject({
+      type: 'unexpected_conversion',
+      amount: 500,
+      repair: 'credit_adjustment',
+    });
+  });
+
+  it('skips hold issues a reconciliation adjustment already fixed', () => {
+    const holds = [
+      createHold({ status: 'converted', requestStatus: 'approved' }),
+      createHold({ id: 'hold-2', requestId: 'request-2', status: 'converted', requestStatus: 'approved' }),
+    ];
+
+    const issues = detectIssues(
+      'account-1',
+      { availableCredits: 0 },
+      0,
+      holds,
+      new Map(),
+      new Set(['missing_conversion:hold-1'])
+    );
+
+    expect(issues.map((issue) => issue.id)).toEqual(['missing_conversion:hold-2']);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Endpoints
+// ══════════════════════════════════════════════════════════════════
+
+describe('/api/credits/reconciliation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the report for the company account', async () => {
+    const { default: handler } = await import('../reconciliation/index');
+    (reconcileAccount as Mock).mockResolvedValue({ accountId: 'account-1', issues: [] });
+
+    const req = createMockRequest();
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(reconcileAccount).toHaveBeenCalledWith('account-1');
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it('applies a repair as the acting admin', async () => {
+    const { default: handler } = await import('../reconciliation/repair');
+    (repairIssue as Mock).mockResolvedValue({
+      issueId: 'negative_balance:account-1',
+      repair: 'credit_adjustment',
+      ledgerEntryId: 'entry-1',
+      holdId: null,
+    });
+
+    const req = createMockRequest({
+      method: 'POST',
+      body: { issueId: 'negative_balance:account-1' },
+    });
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(repairIssue).toHaveBeenCalledWith('account-1', 'negative_balance:account-1', 'admin-1');
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it('returns 404 when the issue has already been resolved', async () => {
+    const { default: handler } = await import('../reconciliation/repair');
+    (repairIssue as Mock).mockRejectedValue(new Error('Issue not found or already resolved'));
+
+    const req = createMockRequest({
+      method: 'POST',
+      body: { issueId: 'orphaned_hold:hold-1' },
+    });
+    const res = createMockResponse();
+    await handler(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
@@ -0,0 +1,57 @@
+// POST /api/credits/allocations/[id]/close - Close a team allocation early (admin only)
+import type { VercelResponse } from '@vercel/node';
+import { withOrgRole, type OrgRequest } from '../../../_middleware/organization.js';
+import { closeAllocation } from '../../../_middleware/credits.js';
+
+async function handler(req: OrgRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const allocationId = req.query.id as string;
+  if (!allocationId) {
+    return res.status(400).json({ error: 'Allocation ID is required' });
+  }
+
+  const account = req.org.creditAccount;
+  if (!account) {
+    return res.status(404).json({ error: 'No credit account found' });
+  }
+
+  try {
+    const allocation = await closeAllocation(account.id, allocationId);
+
+    return res.status(200).json({
+      allocation,
+      message: 'Allocation closed',
+    });
+  } catch (error) {
+    console.error('Error closing allocation:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return res.status(404).json({ error: 'Allocation not found' });
+      }
+      if (error.message.includes('Invalid allocation')) {
+        return res.status(400).json({ error: error.message });
+      }
+    }
+
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+export default withOrgRole(['admin', 'owner'], handler);
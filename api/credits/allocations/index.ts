@@ -0,0 +1,91 @@
+// GET /api/credits/allocations - List team allocations with usage (admin only)
+// POST /api/credits/allocations - Allocate credits to a team for a period (admin only)
+import type { VercelResponse } from '@vercel/node';
+import { withOrgRole, getCompanyTeams, type OrgRequest } from '../../_middleware/organization.js';
+import { getAllocations, createAllocation } from '../../_middleware/credits.js';
+
+interface CreateAllocationBody {
+  teamId: string;
+  allocatedCredits: number;
+  periodStart: string;
+  periodEnd: string;
+}
+
+async function handler(req: OrgRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const account = req.org.creditAccount;
+  if (!account) {
+    return res.status(404).json({
+      error: 'No credit account found',
+      message: 'Your company does not have a credit account configured',
+    });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const allocations = await getAllocations(account.id);
+      return res.status(200).json({ allocations, total: allocations.length });
+    }
+
+    if (req.method === 'POST') {
+      const body = req.body as CreateAllocationBody;
+
+      if (!body.teamId || typeof body.teamId !== 'string') {
+        return res.status(400).json({ error: 'teamId is required' });
+      }
+      if (typeof body.allocatedCredits !== 'number') {
+        return res.status(400).json({ error: 'allocatedCredits must be a number' });
+      }
+
+      const periodStart = new Date(body.periodStart);
+      const periodEnd = new Date(body.periodEnd);
+      if (Number.isNaN(periodStart.getTime()) || Number.isNaN(periodEnd.getTime())) {
+        return res.status(400).json({ error: 'periodStart and periodEnd must be valid ISO dates' });
+      }
+
+      const companyTeams = await getCompanyTeams(req.org.company.id);
+      if (!companyTeams.some((t) => t.id === body.teamId)) {
+        return res.status(400).json({ error: 'Team not found in this organization' });
+      }
+
+      const allocation = await createAllocation({
+        accountId: account.id,
+        teamId: body.teamId,
+        allocatedCredits: body.allocatedCredits,
+        periodStart,
+        periodEnd,
+      });
+
+      return res.status(201).json({ allocation });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('Error handling allocations:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('Invalid allocation')) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error.message.includes('overlaps') || error.message.includes('duplicate key')) {
+        return res.status(409).json({ error: 'Allocation overlaps an existing allocation for this team' });
+      }
+    }
+
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+export default withOrgRole(['admin', 'owner'], handler);
@@ -0,0 +1,71 @@
+// POST /api/credits/allocations/rebalance - Move credits between team allocations (admin only)
+import type { VercelResponse } from '@vercel/node';
+import { withOrgRole, type OrgRequest } from '../../_middleware/organization.js';
+import { rebalanceAllocations } from '../../_middleware/credits.js';
+
+interface RebalanceBody {
+  fromAllocationId: string;
+  toAllocationId: string;
+  amount: number;
+}
+
+async function handler(req: OrgRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const account = req.org.creditAccount;
+  if (!account) {
+    return res.status(404).json({ error: 'No credit account found' });
+  }
+
+  const body = req.body as RebalanceBody;
+  if (!body.fromAllocationId || !body.toAllocationId) {
+    return res.status(400).json({ error: 'fromAllocationId and toAllocationId are required' });
+  }
+  if (typeof body.amount !== 'number') {
+    return res.status(400).json({ error: 'amount must be a number' });
+  }
+
+  try {
+    const result = await rebalanceAllocations(
+      account.id,
+      body.fromAllocationId,
+      body.toAllocationId,
+      body.amount
+    );
+
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error('Error rebalancing allocations:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return res.status(404).json({ error: 'Allocation not found' });
+      }
+      if (error.message.includes('Invalid allocation')) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error.message.includes('Insufficient team budget')) {
+        return res.status(400).json({ error: 'Team budget exceeded', message: error.message });
+      }
+    }
+
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+export default withOrgRole(['admin', 'owner'], handler);
@@ -0,0 +1,75 @@
+// GET /api/credits/analytics - Credit usage breakdown and burn-rate forecast (admin only)
+import type { VercelResponse } from '@vercel/node';
+import { withOrgRole, type OrgRequest } from '../_middleware/organization.js';
+import {
+  getUsageAnalytics,
+  USAGE_GRANULARITIES,
+  type UsageGranularity,
+} from '../_middleware/analytics.js';
+
+async function handler(req: OrgRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Parse query parameters
+  const startDate = req.query.startDate as string | undefined;
+  const endDate = req.query.endDate as string | undefined;
+  const granularity = req.query.granularity as UsageGranularity | undefined;
+
+  if (granularity && !USAGE_GRANULARITIES.includes(granularity)) {
+    return res.status(400).json({
+      error: 'Invalid granularity',
+      valid: USAGE_GRANULARITIES,
+    });
+  }
+
+  // Validate dates if provided
+  if (startDate && isNaN(Date.parse(startDate))) {
+    return res.status(400).json({ error: 'Invalid startDate format' });
+  }
+  if (endDate && isNaN(Date.parse(endDate))) {
+    return res.status(400).json({ error: 'Invalid endDate format' });
+  }
+
+  const account = req.org.creditAccount;
+  if (!account) {
+    return res.status(404).json({
+      error: 'No credit account found',
+      message: 'Your company does not have a credit account configured',
+    });
+  }
+
+  try {
+    const analytics = await getUsageAnalytics(account, {
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined,
+      granularity,
+    });
+
+    return res.status(200).json(analytics);
+  } catch (error) {
+    console.error('Error fetching credit analytics:', error);
+
+    if (error instanceof Error && error.message.includes('Invalid range')) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+export default withOrgRole(['admin', 'owner'], handler);
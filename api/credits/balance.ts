@@ -1,4 +1,4 @@
-// GET /api/credits/balance - Get account balance for current user's company
+// GET /api/credits/balance - Get account balance for current user's company (and team budget)
 import type { VercelResponse } from '@vercel/node';
 import {
   withAuthenticated,
@@ -7,6 +7,8 @@ import {
 import {
   getAccountForUser,
   getAccountBalance,
+  getSpendingTeamForUser,
+  getTeamBalance,
 } from '../_middleware/credits.js';
 
 async function handler(req: AuthRequest, res: VercelResponse) {
@@ -47,7 +49,11 @@ async function handler(req: AuthRequest, res: VercelResponse) {
       });
     }
 
-    return res.status(200).json(balance);
+    // Team budget for the user's primary team (null = no allocation, company pool only)
+    const teamId = await getSpendingTeamForUser(userId);
+    const teamBalance = teamId ? await getTeamBalance(account.id, teamId) : null;
+
+    return res.status(200).json({ ...balance, teamBalance });
   } catch (error) {
     console.error('Error fetching balance:', error);
     return res.status(500).json({
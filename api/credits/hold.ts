@@ -4,8 +4,10 @@ import {
   withAuthenticated,
   type AuthRequest,
 } from '../_middleware/auth.js';
+import { withRateLimit } from '../_middleware/rateLimit.js';
 import {
   getAccountForUser,
+  getSpendingTeamForUser,
   createHold,
 } from '../_middleware/credits.js';
 
@@ -13,6 +15,7 @@ interface CreateHoldBody {
   requestId: string;
   amount: number;
   idempotencyKey: string;
+  teamId?: string; // Defaults to the user's primary team
 }
 
 async function handler(req: AuthRequest, res: VercelResponse) {
@@ -55,8 +58,13 @@ async function handler(req: AuthRequest, res: VercelResponse) {
       });
     }
 
+    const teamId = await getSpendingTeamForUser(userId, body.teamId);
+    if (body.teamId && !teamId) {
+      return res.status(403).json({ error: 'You are not a member of this team' });
+    }
+
     // Create the hold
-    const result = await createHold(account.id, body.requestId, body.amount);
+    const result = await createHold(account.id, body.requestId, body.amount, teamId);
 
     return res.status(201).json(result);
   } catch (error) {
@@ -70,6 +78,12 @@ async function handler(req: AuthRequest, res: VercelResponse) {
           message: error.message,
         });
       }
+      if (error.message.includes('Insufficient team budget')) {
+        return res.status(400).json({
+          error: 'Team budget exceeded',
+          message: error.message,
+        });
+      }
       if (error.message.includes('duplicate key')) {
         return res.status(409).json({
           error: 'Duplicate request',
@@ -85,4 +99,4 @@ async function handler(req: AuthRequest, res: VercelResponse) {
   }
 }
 
-export default withAuthenticated(handler);
+export default withAuthenticated(withRateLimit('creditHold', handler));
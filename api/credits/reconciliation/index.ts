@@ -0,0 +1,42 @@
+// GET /api/credits/reconciliation - Ledger integrity report for the company account (admin only)
+import type { VercelResponse } from '@vercel/node';
+import { withOrgRole, type OrgRequest } from '../../_middleware/organization.js';
+import { reconcileAccount } from '../../_middleware/reconciliation.js';
+
+async function handler(req: OrgRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const account = req.org.creditAccount;
+  if (!account) {
+    return res.status(404).json({
+      error: 'No credit account found',
+      message: 'Your company does not have a credit account configured',
+    });
+  }
+
+  try {
+    const report = await reconcileAccount(account.id);
+
+    return res.status(200).json(report);
+  } catch (error) {
+    console.error('Error reconciling ledger:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+export default withOrgRole(['admin', 'owner'], handler);
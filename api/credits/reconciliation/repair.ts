@@ -0,0 +1,61 @@
+// POST /api/credits/reconciliation/repair - Apply the suggested repair for a reconciliation issue (admin only)
+import type { VercelResponse } from '@vercel/node';
+import { withOrgRole, type OrgRequest } from '../../_middleware/organization.js';
+import { repairIssue } from '../../_middleware/reconciliation.js';
+
+interface RepairBody {
+  issueId: string;
+}
+
+async function handler(req: OrgRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const account = req.org.creditAccount;
+  if (!account) {
+    return res.status(404).json({ error: 'No credit account found' });
+  }
+
+  const body = req.body as RepairBody;
+  if (!body.issueId || typeof body.issueId !== 'string') {
+    return res.status(400).json({ error: 'issueId is required' });
+  }
+
+  try {
+    const result = await repairIssue(account.id, body.issueId, req.auth.user!.id);
+
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error('Error repairing reconciliation issue:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('already resolved')) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error.message.includes('no automatic repair')) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error.message.includes('Cannot release') || error.message.includes('Cannot convert')) {
+        return res.status(409).json({ error: error.message });
+      }
+    }
+
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+export default withOrgRole(['admin', 'owner'], handler);
@@ -4,8 +4,10 @@ import {
   withAuthenticated,
   type AuthRequest,
 } from '../_middleware/auth.js';
+import { withRateLimit } from '../_middleware/rateLimit.js';
 import {
   getAccountForUser,
+  getSpendingTeamForUser,
   directSpend,
   DEBIT_TRANSACTION_TYPES,
 } from '../_middleware/credits.js';
@@ -20,6 +22,7 @@ interface DirectSpendBody {
   referenceId: string;
   description: string;
   idempotencyKey: string;
+  teamId?: string; // Defaults to the user's primary team
 }
 
 // Only allow debit transaction types for the spend endpoint
@@ -88,6 +91,11 @@ async function handler(req: AuthRequest, res: VercelResponse) {
       });
     }
 
+    const teamId = await getSpendingTeamForUser(userId, body.teamId);
+    if (body.teamId && !teamId) {
+      return res.status(403).json({ error: 'You are not a member of this team' });
+    }
+
     // Create the direct spend
     // Type is already validated above to be a valid debit type
     const result = await directSpend({
@@ -99,6 +107,7 @@ async function handler(req: AuthRequest, res: VercelResponse) {
       description: body.description,
       idempotencyKey: body.idempotencyKey,
       userId,
+      teamId,
     });
 
     return res.status(201).json(result);
@@ -112,6 +121,12 @@ async function handler(req: AuthRequest, res: VercelResponse) {
           message: error.message,
         });
       }
+      if (error.message.includes('Insufficient team budget')) {
+        return res.status(400).json({
+          error: 'Team budget exceeded',
+          message: error.message,
+        });
+      }
       if (error.message.includes('duplicate key')) {
         return res.status(409).json({
           error: 'Duplicate request',
@@ -127,4 +142,4 @@ async function handler(req: AuthRequest, res: VercelResponse) {
   }
 }
 
-export default withAuthenticated(handler);
+export default withAuthenticated(withRateLimit('creditSpend', handler));
@@ -0,0 +1,58 @@
+// GET /api/exports/[id] - Download a generated export file
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../_middleware/auth.js';
+import { getExportFile } from '../_middleware/exports.js';
+import { UUID_PATTERN } from '../_middleware/watchlists.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+    return res.status(400).json({ error: 'A valid export ID is required' });
+  }
+
+  try {
+    const file = await getExportFile(req.auth.user!.id, id);
+    if (!file) {
+      return res.status(404).json({ error: 'Export not found' });
+    }
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Length', String(file.body.length));
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${file.filename}"; filename*=UTF-8''${encodeURIComponent(file.filename)}`
+    );
+    res.setHeader('Cache-Control', 'private, no-store');
+    return res.status(200).send(file.body);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Export has expired') {
+      return res.status(410).json({ error: message });
+    }
+    if (message === 'Export failed') {
+      return res.status(409).json({ error: 'This export failed and has no file - run it again' });
+    }
+    console.error('Export download error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
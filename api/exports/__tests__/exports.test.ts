@@ -0,0 +1,404 @@
+// Tests for supplier exports - validation, tier filtering, file writers and the export endpoints
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthRequest } from '../../_middleware/auth';
+import type { Supplier } from '../../../src/services/supplierService';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+vi.mock('@neondatabase/serverless', () => ({
+  neon: vi.fn(() => vi.fn()),
+}));
+
+vi.mock('drizzle-orm/neon-http', () => ({
+  drizzle: vi.fn(() => ({})),
+}));
+
+vi.mock('../../_middleware/auth', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/auth')>();
+  return {
+    ...original,
+    withAuthenticated: (handler: unknown) => handler,
+  };
+});
+
+vi.mock('../../../src/services/supplierService', () => ({
+  getPortfolioSuppliers: vi.fn(),
+  getSuppliersByIds: vi.fn(),
+}));
+
+vi.mock('../../_middleware/redaction', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/redaction')>();
+  return {
+    ...original,
+    getDataEntitlements: vi.fn(),
+  };
+});
+
+vi.mock('../../_middleware/exports', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/exports')>();
+  return {
+    ...original,
+    createExportJob: vi.fn(),
+    listExportJobs: vi.fn(),
+    getExportFile: vi.fn(),
+  };
+});
+
+import {
+  buildExportDocument,
+  createExportJob,
+  getExportFile,
+  renderExport,
+  splitFactors,
+  validateExportRequest,
+  type ExportDocument,
+} from '../../_middleware/exports';
+import { getPortfolioSuppliers, getSuppliersByIds } from '../../../src/services/supplierService';
+import { getDataEntitlements } from '../../_middleware/redaction';
+import { parseCsv, parseXlsx, writeCsv, writeXlsx } from '../../_middleware/spreadsheet';
+import { writePdf } from '../../_middleware/pdf';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+const SUPPLIER_A = '11111111-1111-4111-8111-111111111111';
+const SUPPLIER_B = '22222222-2222-4222-8222-222222222222';
+
+function createMockResponse(): VercelResponse {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    send: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as VercelResponse;
+}
+
+function createMockRequest(
+  method: string,
+  body: Record<string, unknown> = {},
+  query: Record<string, string> = {}
+): AuthRequest {
+  return {
+    method,
+    query,
+    body,
+    headers: {},
+    auth: {
+      isAuthenticated: true,
+      user: { id: 'user-1', email: 'a@example.com' },
+    },
+  } as unknown as AuthRequest;
+}
+
+function makeSupplier(id: string, name: string): Supplier {
+  return {
+    id,
+    name,
+    duns: '123456789',
+    category: 'Metals',
+    industry: 'Manufacturing',
+    location: { city: 'Lyon', country: 'France', region: 'Europe' },
+    spend: 2_500_000,
+    spendFormatted: '$2.5M',
+    criticality: 'high',
+    revenue: null,
+    isFollowed: true,
+    srs: {
+      score: 64,
+      previousScore: 58,
+      level: 'medium-high',
+      trend: 'worsening',
+      lastUpdated: '2026-09-01T00:00:00.000Z',
+      scoreHistory: [],
+      factors: [
+        { id: 'esg', name: 'ESG Score', tier: 'conditionally-displayable', weight: 0.2, score: 55 },
+        { id: 'financial', name: 'Financial Health', tier: 'restricted', weight: 0.3, score: 80 },
+        { id: 'delivery', name: 'Delivery Score', tier: 'conditionally-displayable', weight: 0.1, rating: 'Low' },
+      ],
+    },
+  };
+}
+
+const validBody = {
+  context: 'supplier',
+  format: 'csv',
+  filename: 'Acme Report',
+  entityIds: [SUPPLIER_A],
+  sections: ['factors', 'summary'],
+};
+
+// ══════════════════════════════════════════════════════════════════
+// VALIDATION
+// ══════════════════════════════════════════════════════════════════
+
+describe('validateExportRequest', () => {
+  it('fills defaults and orders sections', () => {
+    expect(validateExportRequest(validBody)).toEqual({
+      request: {
+        context: 'supplier',
+        format: 'csv',
+        filename: 'Acme Report',
+        entityIds: [SUPPLIER_A],
+        sections: ['summary', 'factors'],
+        dateRange: '90d',
+        includeRawData: false,
+      },
+    });
+  });
+
+  it('sanitizes filenames and drops a typed extension', () => {
+    const result = validateExportRequest({ ...validBody, filename: ' Q3/Acme: "final".pdf ' });
+    expect(result).toHaveProperty('request.filename', 'Q3_Acme_ _final_');
+  });
+
+  it.each([
+    [{ format: 'png' }],
+    [{ context: 'category' }],
+    [{ filename: '  ' }],
+    [{ entityIds: ['sup-1'] }],
+    [{ entityIds: [SUPPLIER_A, SUPPLIER_B] }],
+    [{ context: 'comparison', sections: ['summary'] }],
+    [{ sections: [] }],
+    [{ sections: ['distribution'] }],
+    [{ dateRange: '5y' }],
+  ])('rejects %j', (override) => {
+    expect(validateExportRequest({ ...validBody, ...override })).toHaveProperty('error');
+  });
+
+  it('allows a portfolio export without supplier IDs', () => {
+    const result = validateExportRequest({ ...validBody, context: 'portfolio', entityIds: [], sections: ['supplier_list'] });
+    expect(result).toHaveProperty('request.entityIds', []);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TIER RESTRICTIONS
+// ══════════════════════════════════════════════════════════════════
+
+describe('restricted factors', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getDataEntitlements as Mock).mockResolvedValue({ subscriptionTier: 'enterprise', activatedCategories: [] });
+  });
+
+  it('splits restricted factors out', () => {
+    const { visible, omitted } = splitFactors(makeSupplier(SUPPLIER_A, 'Acme').srs.factors);
+    expect(visible.map((f) => f.id)).toEqual(['esg', 'delivery']);
+    expect(omitted).toBe(1);
+  });
+
+  it.each(['csv', 'xlsx', 'pdf'] as const)('never writes a restricted factor into a %s supplier export', async (format) => {
+    (getSuppliersByIds as Mock).mockResolvedValue([makeSupplier(SUPPLIER_A, 'Acme')]);
+    const { request } = validateExportRequest({ ...validBody, format }) as { request: never };
+
+    const { document, omittedFactorCount } = await buildExportDocument('user-1', request);
+    const file = renderExport(document, format);
+
+    expect(omittedFactorCount).toBe(1);
+    const factors = document.tables.find((t) => t.title === 'Risk Factors')!;
+    expect(factors.rows.map((row) => row[0])).toEqual(['ESG Score', 'Delivery Score']);
+    expect(factors.note).toMatch(/Restricted/);
+    if (format === 'csv') {
+      expect(file.toString('utf8')).not.toContain('Financial Health');
+    }
+  });
+
+  it('leaves restricted factors out of comparisons', async () => {
+    (getSuppliersByIds as Mock).mockResolvedValue([makeSupplier(SUPPLIER_A, 'Acme'), makeSupplier(SUPPLIER_B, 'Beta')]);
+    const { request } = validateExportRequest({
+      ...validBody,
+      context: 'comparison',
+      entityIds: [SUPPLIER_A, SUPPLIER_B],
+      sections: ['factors'],
+    }) as { request: never };
+
+    const { document, omittedFactorCount } = await buildExportDocument('user-1', request);
+
+    expect(omittedFactorCount).toBe(2);
+    expect(document.tables[0].columns).toEqual(['Factor', 'Acme', 'Beta']);
+    expect(document.tables[0].rows).toEqual([
+      ['ESG Score', 55, 55],
+      ['Delivery Score', 'Low', 'Low'],
+    ]);
+  });
+
+  it('masks conditional scores the caller is not entitled to', async () => {
+    (getDataEntitlements as Mock).mockResolvedValue({ subscriptionTier: 'starter', activatedCategories: [] });
+    (getSuppliersByIds as Mock).mockResolvedValue([makeSupplier(SUPPLIER_A, 'Acme'), makeSupplier(SUPPLIER_B, 'Beta')]);
+    const { request } = validateExportRequest({
+      ...validBody,
+      context: 'comparison',
+      entityIds: [SUPPLIER_A, SUPPLIER_B],
+      sections: ['factors'],
+    }) as { request: never };
+
+    const { document } = await buildExportDocument('user-1', request);
+
+    expect(getDataEntitlements).toHaveBeenCalledWith('user-1');
+    expect(document.tables[0].rows).toEqual([
+      ['ESG Score', null, null],
+      ['Delivery Score', 'Low', 'Low'],
+    ]);
+  });
+
+  it('reports unknown suppliers and empty portfolios', async () => {
+    (getSuppliersByIds as Mock).mockResolvedValue([]);
+    const { request } = validateExportRequest(validBody) as { request: never };
+    await expect(buildExportDocument('user-1', request)).rejects.toThrow('Supplier not found');
+
+    (getPortfolioSuppliers as Mock).mockResolvedValue([]);
+    const portfolio = validateExportRequest({ ...validBody, context: 'portfolio', entityIds: [], sections: ['summary'] }) as { request: never };
+    await expect(buildExportDocument('user-1', portfolio.request)).rejects.toThrow('No suppliers to export');
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// WRITERS
+// ══════════════════════════════════════════════════════════════════
+
+describe('file writers', () => {
+  const document: ExportDocument = {
+    title: 'Portfolio Risk Report',
+    subtitle: 'Generated 2026-10-01',
+    tables: [
+      { title: 'Supplier List', columns: ['Supplier', 'Spend'], rows: [['Acme, "Metals"', 2500000], ['Beta', null]] },
+      { title: 'Supplier List', columns: ['Level'], rows: [['High']], note: 'A note' },
+    ],
+  };
+
+  it('writes CSV that reads back with quoting intact', () => {
+    const rows = parseCsv(writeCsv([['Acme, "Metals"', 12], ['line\nbreak', null]]).toString('utf8'));
+    expect(rows).toEqual([['Acme, "Metals"', '12'], ['line\nbreak', '']]);
+  });
+
+  it('neutralises CSV cells that would run as formulas', () => {
+    const rows = parseCsv(writeCsv([
+      ['=HYPERLINK("http://evil.example","Acme")', '+1', '-2+3', '@SUM(A1)', -42, 'Acme-Beta'],
+    ]).toString('utf8'));
+
+    expect(rows).toEqual([
+      ['\'=HYPERLINK("http://evil.example","Acme")', "'+1", "'-2+3", "'@SUM(A1)", '-42', 'Acme-Beta'],
+    ]);
+  });
+
+  it('writes an XLSX workbook the importer can read', () => {
+    const file = writeXlsx([{ name: 'Suppliers', rows: [['Name', 'Spend'], ['Acme & Co <EU>', 1500], ['Beta', null]] }]);
+    expect(parseXlsx(file)).toEqual([['Name', 'Spend'], ['Acme & Co <EU>', '1500'], ['Beta']]);
+  });
+
+  it('puts each table on its own sheet', () => {
+    const file = renderExport(document, 'xlsx');
+
+    expect(file.toString('latin1')).toContain('xl/worksheets/sheet2.xml');
+    expect(parseXlsx(file)).toEqual([['Supplier', 'Spend'], ['Acme, "Metals"', '2500000'], ['Beta']]);
+  });
+
+  it('stacks tables in CSV under their titles', () => {
+    const rows = parseCsv(renderExport(document, 'csv').toString('utf8'));
+    expect(rows[0]).toEqual(['Portfolio Risk Report']);
+    expect(rows).toContainEqual(['Acme, "Metals"', '2500000']);
+    expect(rows[rows.length - 1]).toEqual(['A note']);
+  });
+
+  it('writes a PDF with a valid cross-reference table and page breaks', () => {
+    const rows = Array.from({ length: 120 }, (_, i) => [`Supplier ${i} – “quoted”`, i]);
+    const file = writePdf({ title: 'Report (draft)', tables: [{ title: 'Suppliers', columns: ['Name', 'Score'], rows }] });
+    const text = file.toString('latin1');
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    const startxref = Number(text.match(/startxref\n(\d+)/)![1]);
+    expect(text.slice(startxref, startxref + 4)).toBe('xref');
+    expect(Number(text.match(/\/Count (\d+)/)![1])).toBeGreaterThan(1);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// ENDPOINTS
+// ══════════════════════════════════════════════════════════════════
+
+describe('POST /api/exports', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('creates an export job from a valid request', async () => {
+    (createExportJob as Mock).mockResolvedValue({ id: 'job-1', status: 'completed' });
+    const { default: handler } = await import('../index');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', validBody), res);
+
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(createExportJob).toHaveBeenCalledWith('user-1', expect.objectContaining({ sections: ['summary', 'factors'] }));
+  });
+
+  it('rejects invalid requests before rendering', async () => {
+    const { default: handler } = await import('../index');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', { ...validBody, format: 'png' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(createExportJob).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for unknown suppliers', async () => {
+    (createExportJob as Mock).mockRejectedValue(new Error('Supplier not found'));
+    const { default: handler } = await import('../index');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', validBody), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
+
+describe('GET /api/exports/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sends the stored file as an attachment', async () => {
+    const body = Buffer.from('a,b\r\n');
+    (getExportFile as Mock).mockResolvedValue({ filename: 'Acme Report.csv', contentType: 'text/csv; charset=utf-8', body });
+    const { default: handler } = await import('../[id]');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('GET', {}, { id: SUPPLIER_A }), res);
+
+    expect(getExportFile).toHaveBeenCalledWith('user-1', SUPPLIER_A);
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/csv; charset=utf-8');
+    expect(res.setHeader).toHaveBeenCalledWith(
+      'Content-Disposition',
+      `attachment; filename="Acme Report.csv"; filename*=UTF-8''Acme%20Report.csv`
+    );
+    expect(res.send).toHaveBeenCalledWith(body);
+  });
+
+  it('returns 404 for another user\'s or a missing job', async () => {
+    (getExportFile as Mock).mockResolvedValue(null);
+    const { default: handler } = await import('../[id]');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('GET', {}, { id: SUPPLIER_A }), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  it('returns 410 once the file has expired', async () => {
+    (getExportFile as Mock).mockRejectedValue(new Error('Export has expired'));
+    const { default: handler } = await import('../[id]');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('GET', {}, { id: SUPPLIER_A }), res);
+
+    expect(res.status).toHaveBeenCalledWith(410);
+  });
+});
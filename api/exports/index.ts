@@ -0,0 +1,57 @@
+// GET /api/exports - The current user's recent export jobs
+// POST /api/exports - Render a supplier, portfolio or comparison export (see ExportRequest)
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../_middleware/auth.js';
+import {
+  createExportJob,
+  listExportJobs,
+  validateExportRequest,
+} from '../_middleware/exports.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const userId = req.auth.user!.id;
+
+  try {
+    if (req.method === 'GET') {
+      const jobs = await listExportJobs(userId);
+      return res.status(200).json({ jobs });
+    }
+
+    const result = validateExportRequest(req.body || {});
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    const job = await createExportJob(userId, result.request);
+    return res.status(201).json({ job });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Supplier not found') {
+      return res.status(404).json({ error: message });
+    }
+    if (message === 'No suppliers to export') {
+      return res.status(400).json({ error: message });
+    }
+    console.error('Export error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
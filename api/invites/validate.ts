@@ -10,11 +10,11 @@ import {
   canUseInvite,
 } from '../../src/services/invites.js';
 import {
-  checkRateLimit,
   getRateLimitKey,
   RATE_LIMITS,
   addTimingNoise,
 } from '../../src/services/security.js';
+import { consumeRateLimit } from '../_middleware/rateLimit.js';
 
 const getDb = () => {
   const sql = neon(process.env.DATABASE_URL!);
@@ -38,7 +38,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   // Rate limiting to prevent enumeration
   const ip = (req.headers['x-forwarded-for'] as string)?.split(',')[0] || 'unknown';
-  const rateLimitResult = checkRateLimit(
+  const rateLimitResult = await consumeRateLimit(
+    res,
     getRateLimitKey(ip, '/api/invites/validate'),
     RATE_LIMITS.inviteValidate
   );
@@ -0,0 +1,267 @@
+// Tests for the LLM gateway - quotas, usage metering and proxying via the mock provider
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthRequest } from '../../_middleware/auth';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+vi.mock('@neondatabase/serverless', () => ({
+  neon: vi.fn(() => vi.fn()),
+}));
+
+vi.mock('drizzle-orm/neon-http', () => ({
+  drizzle: vi.fn(() => ({})),
+}));
+
+vi.mock('../../_middleware/auth', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/auth')>();
+  return {
+    ...original,
+    withAuthenticated: (handler: unknown) => handler,
+  };
+});
+
+vi.mock('../../_middleware/organization', () => ({
+  getOrgContext: vi.fn(async () => ({ company: { id: 'company-1' } })),
+}));
+
+vi.mock('../../_middleware/llm', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/llm')>();
+  return {
+    ...original,
+    getLlmUsageTotals: vi.fn(),
+    recordLlmUsage: vi.fn(),
+  };
+});
+
+import {
+  evaluateLlmQuota,
+  getLlmUsageTotals,
+  MockLlmProvider,
+  recordLlmUsage,
+  setLlmProvider,
+  SseUsageTracker,
+  type LlmProvider,
+} from '../../_middleware/llm';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+function createMockResponse() {
+  const written: string[] = [];
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+    write: vi.fn((chunk: Uint8Array) => {
+      written.push(new TextDecoder().decode(chunk));
+      return true;
+    }),
+    headersSent: false,
+  };
+  return { res: res as unknown as VercelResponse, written };
+}
+
+function createMockRequest(method: string, body: Record<string, unknown> = {}): AuthRequest {
+  return {
+    method,
+    query: {},
+    body,
+    headers: { 'x-forwarded-for': `203.0.113.${Math.floor(Math.random() * 250)}` },
+    auth: {
+      isAuthenticated: true,
+      user: { id: 'user-1', email: 'a@example.com' },
+    },
+  } as unknown as AuthRequest;
+}
+
+const LIMITS = { userDailyTokens: 1000, companyDailyTokens: 5000 };
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Quotas and metering
+// ══════════════════════════════════════════════════════════════════
+
+describe('evaluateLlmQuota', () => {
+  const now = new Date('2026-03-01T15:30:00Z');
+
+  it('allows calls while both user and company are under their limits', () => {
+    const result = evaluateLlmQuota({ user: 999, company: 4999 }, LIMITS, now);
+    expect(result.allowed).toBe(true);
+    expect(result.resetAt.toISOString()).toBe('2026-03-02T00:00:00.000Z');
+  });
+
+  it('refuses once the user has used their daily tokens', () => {
+    expect(evaluateLlmQuota({ user: 1000, company: 1000 }, LIMITS, now)).toMatchObject({
+      allowed: false,
+      scope: 'user',
+      limit: 1000,
+    });
+  });
+
+  it('refuses once the company has used its daily tokens', () => {
+    expect(evaluateLlmQuota({ user: 10, company: 5000 }, LIMITS, now)).toMatchObject({
+      allowed: false,
+      scope: 'company',
+    });
+  });
+
+  it('only applies the user limit when there is no organization', () => {
+    expect(evaluateLlmQuota({ user: 10, company: null }, LIMITS, now).allowed).toBe(true);
+  });
+});
+
+describe('SseUsageTracker', () => {
+  it('reads usage from events split across chunks', () => {
+    const tracker = new SseUsageTracker(new MockLlmProvider('deepseek'));
+    const event = `data: ${JSON.stringify({ usage: { prompt_tokens: 12, completion_tokens: 30, total_tokens: 42 } })}\n\n`;
+
+    tracker.push('data: {"choices":[{"delta":{"content":"Hi"}}]}\n\n' + event.slice(0, 20));
+    tracker.push(event.slice(20));
+    tracker.push('data: [DONE]\n\n');
+
+    expect(tracker.finish()).toEqual({ promptTokens: 12, completionTokens: 30, totalTokens: 42 });
+  });
+
+  it('keeps the latest cumulative Gemini usage', () => {
+    const tracker = new SseUsageTracker(new MockLlmProvider('gemini'));
+    tracker.push(`data: ${JSON.stringify({ usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 1, totalTokenCount: 6 } })}\n\n`);
+    tracker.push(`data: ${JSON.stringify({ usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 9, totalTokenCount: 14 } })}`);
+
+    expect(tracker.finish()?.totalTokens).toBe(14);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Endpoint
+// ══════════════════════════════════════════════════════════════════
+
+describe('/api/llm', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getLlmUsageTotals as Mock).mockResolvedValue({ user: 0, company: 0 });
+    (recordLlmUsage as Mock).mockResolvedValue(undefined);
+    setLlmProvider('gemini', new MockLlmProvider('gemini', () => 'Steel prices are rising'));
+    setLlmProvider('deepseek', new MockLlmProvider('deepseek', () => 'one two three'));
+  });
+
+  afterEach(() => {
+    setLlmProvider('gemini', null);
+    setLlmProvider('deepseek', null);
+  });
+
+  it('returns the provider-native body and logs token usage', async () => {
+    const { default: handler } = await import('../index');
+    const { res } = createMockResponse();
+
+    await handler(createMockRequest('POST', {
+      provider: 'gemini',
+      model: 'gemini-2.5-flash',
+      payload: { contents: [{ parts: [{ text: 'What about steel?' }] }] },
+    }), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    const body = (res.json as Mock).mock.calls[0][0];
+    expect(body.candidates[0].content.parts[0].text).toBe('Steel prices are rising');
+    expect(recordLlmUsage).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'user-1',
+      companyId: 'company-1',
+      provider: 'gemini',
+      status: 'success',
+      estimated: false,
+    }));
+  });
+
+  it('streams events through and meters the final usage chunk', async () => {
+    const { default: handler } = await import('../index');
+    const { res, written } = createMockResponse();
+
+    await handler(createMockRequest('POST', {
+      provider: 'deepseek',
+      model: 'deepseek-reasoner',
+      payload: { messages: [{ role: 'user', content: 'Count' }] },
+      stream: true,
+    }), res);
+
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/event-stream');
+    const streamed = written.join('');
+    expect(streamed).toContain('"content":"one "');
+    expect(streamed).toContain('data: [DONE]');
+    expect(res.end).toHaveBeenCalled();
+    expect(recordLlmUsage).toHaveBeenCalledWith(expect.objectContaining({
+      provider: 'deepseek',
+      stream: true,
+      estimated: false,
+    }));
+  });
+
+  it('refuses calls over quota before contacting the provider', async () => {
+    const { default: handler } = await import('../index');
+    const send = vi.fn();
+    setLlmProvider('gemini', { name: 'gemini', isConfigured: () => true, send, extractUsage: () => null } as LlmProvider);
+    (getLlmUsageTotals as Mock).mockResolvedValue({ user: 10, company: 10_000_000 });
+
+    const { res } = createMockResponse();
+    await handler(createMockRequest('POST', {
+      provider: 'gemini',
+      model: 'gemini-2.5-flash',
+      payload: { contents: [] },
+    }), res);
+
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ scope: 'company' }));
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('hides upstream auth failures behind a 502', async () => {
+    const { default: handler } = await import('../index');
+    setLlmProvider('gemini', {
+      name: 'gemini',
+      isConfigured: () => true,
+      send: async () => new Response('API key not valid', { status: 401 }),
+      extractUsage: () => null,
+    });
+
+    const { res } = createMockResponse();
+    await handler(createMockRequest('POST', {
+      provider: 'gemini',
+      model: 'gemini-2.5-flash',
+      payload: { contents: [] },
+    }), res);
+
+    expect(res.status).toHaveBeenCalledWith(502);
+    expect(recordLlmUsage).toHaveBeenCalledWith(expect.objectContaining({ status: 'error' }));
+  });
+
+  it('rejects unknown providers and unsafe model names', async () => {
+    const { default: handler } = await import('../index');
+
+    const badProvider = createMockResponse();
+    await handler(createMockRequest('POST', { provider: 'openai', model: 'gpt', payload: {} }), badProvider.res);
+    expect(badProvider.res.status).toHaveBeenCalledWith(400);
+
+    const badModel = createMockResponse();
+    await handler(createMockRequest('POST', {
+      provider: 'gemini',
+      model: '../../v1/files',
+      payload: {},
+    }), badModel.res);
+    expect(badModel.res.status).toHaveBeenCalledWith(400);
+  });
+
+  it('reports provider availability and quota usage', async () => {
+    const { default: handler } = await import('../index');
+    (getLlmUsageTotals as Mock).mockResolvedValue({ user: 1200, company: 8000 });
+
+    const { res } = createMockResponse();
+    await handler(createMockRequest('GET'), res);
+
+    const body = (res.json as Mock).mock.calls[0][0];
+    expect(body.providers).toMatchObject({ gemini: true, deepseek: true });
+    expect(body.quota.user.used).toBe(1200);
+    expect(body.quota.company.used).toBe(8000);
+  });
+});
@@ -0,0 +1,315 @@
+// GET /api/llm - Which providers the gateway can reach, plus today's token usage
+// POST /api/llm - Proxy a completion (or stream) to Gemini, Perplexity or DeepSeek
+//
+// Provider keys live only on the server. The body carries the provider-native
+// request payload and the response is the provider-native body, so client
+// parsing code is unchanged apart from where it sends the request.
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../_middleware/auth.js';
+import { withRateLimit } from '../_middleware/rateLimit.js';
+import { getOrgContext } from '../_middleware/organization.js';
+import {
+  LLM_PROVIDERS,
+  SseUsageTracker,
+  estimateTokenUsage,
+  evaluateLlmQuota,
+  getLlmProvider,
+  getLlmQuotaLimits,
+  getLlmUsageTotals,
+  isLlmProviderName,
+  recordLlmUsage,
+  type LlmProvider,
+  type LlmProviderName,
+  type LlmTokenUsage,
+} from '../_middleware/llm.js';
+
+interface LlmRequestBody {
+  provider: LlmProviderName;
+  model: string;
+  payload: Record<string, unknown>;
+  stream?: boolean;
+}
+
+// Model names go into the upstream URL for Gemini
+const MODEL_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9._-]{0,99}$/;
+
+const MAX_PAYLOAD_CHARS = 512 * 1024;
+
+const UPSTREAM_TIMEOUT_MS = 150_000;
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const userId = req.auth.user!.id;
+
+  try {
+    const org = await getOrgContext(userId);
+    const companyId = org?.company.id ?? null;
+
+    if (req.method === 'GET') {
+      return await handleStatus(res, userId, companyId);
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const body = (req.body || {}) as Partial<LlmRequestBody>;
+
+    if (!isLlmProviderName(body.provider)) {
+      return res.status(400).json({ error: `provider must be one of: ${LLM_PROVIDERS.join(', ')}` });
+    }
+    if (typeof body.model !== 'string' || !MODEL_PATTERN.test(body.model)) {
+      return res.status(400).json({ error: 'model is required' });
+    }
+    if (!body.payload || typeof body.payload !== 'object' || Array.isArray(body.payload)) {
+      return res.status(400).json({ error: 'payload must be an object' });
+    }
+
+    const payloadText = JSON.stringify(body.payload);
+    if (payloadText.length > MAX_PAYLOAD_CHARS) {
+      return res.status(413).json({ error: 'payload is too large' });
+    }
+
+    const provider = getLlmProvider(body.provider);
+    if (!provider.isConfigured()) {
+      return res.status(503).json({ error: `${body.provider} is not configured` });
+    }
+
+    const quota = evaluateLlmQuota(
+      await getLlmUsageTotals(userId, companyId),
+      getLlmQuotaLimits()
+    );
+    if (!quota.allowed) {
+      return res.status(429).json({
+        error: quota.scope === 'company'
+          ? 'Your organization has used its daily AI token quota'
+          : 'You have used your daily AI token quota',
+        scope: quota.scope,
+        used: quota.used,
+        limit: quota.limit,
+        resetAt: quota.resetAt.toISOString(),
+      });
+    }
+
+    const call = {
+      userId,
+      companyId,
+      provider,
+      model: body.model,
+      payload: body.payload,
+      payloadChars: payloadText.length,
+    };
+
+    if (body.stream) {
+      return await proxyStream(res, call);
+    }
+    return await proxyCompletion(res, call);
+  } catch (error) {
+    console.error('LLM gateway error:', error);
+    if (!res.headersSent) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+    res.end();
+  }
+}
+
+async function handleStatus(res: VercelResponse, userId: string, companyId: string | null) {
+  const limits = getLlmQuotaLimits();
+  const totals = await getLlmUsageTotals(userId, companyId);
+
+  const providers = Object.fromEntries(
+    LLM_PROVIDERS.map((name) => [name, getLlmProvider(name).isConfigured()])
+  ) as Record<LlmProviderName, boolean>;
+
+  return res.status(200).json({
+    providers,
+    quota: {
+      user: { used: totals.user, limit: limits.userDailyTokens },
+      company: totals.company === null ? null : { used: totals.company, limit: limits.companyDailyTokens },
+      resetAt: evaluateLlmQuota(totals, limits).resetAt.toISOString(),
+    },
+  });
+}
+
+// ══════════════════════════════════════════════════════════════════
+// Proxying
+// ══════════════════════════════════════════════════════════════════
+
+interface GatewayCall {
+  userId: string;
+  companyId: string | null;
+  provider: LlmProvider;
+  model: string;
+  payload: Record<string, unknown>;
+  payloadChars: number;
+}
+
+async function logUsage(
+  call: GatewayCall,
+  stream: boolean,
+  ok: boolean,
+  usage: LlmTokenUsage | null,
+  completionChars: number,
+  startedAt: number
+) {
+  // A failed upstream call costs nothing; an unmetered success is estimated
+  const estimated = ok && !usage;
+  try {
+    await recordLlmUsage({
+      userId: call.userId,
+      companyId: call.companyId,
+      provider: call.provider.name,
+      model: call.model,
+      stream,
+      status: ok ? 'success' : 'error',
+      usage: usage ?? (ok ? estimateTokenUsage(call.payloadChars, completionChars) : estimateTokenUsage(0, 0)),
+      estimated,
+      latencyMs: Date.now() - startedAt,
+    });
+  } catch (err) {
+    // Never fail a call the user already received over bookkeeping
+    console.error('Failed to record LLM usage:', err);
+  }
+}
+
+/**
+ * Upstream auth/validation failures are the gateway's problem, not the caller's.
+ * Provider rate limits are passed through so clients can back off.
+ */
+function upstreamErrorStatus(status: number): number {
+  return status === 429 ? 429 : 502;
+}
+
+async function proxyCompletion(res: VercelResponse, call: GatewayCall) {
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT_MS);
+
+  try {
+    const upstream = await call.provider.send({
+      model: call.model,
+      payload: call.payload,
+      stream: false,
+      signal: controller.signal,
+    });
+    const text = await upstream.text();
+
+    if (!upstream.ok) {
+      console.error(`[LLM:${call.provider.name}] Upstream error:`, upstream.status, text.slice(0, 500));
+      await logUsage(call, false, false, null, 0, startedAt);
+      return res.status(upstreamErrorStatus(upstream.status)).json({
+        error: `${call.provider.name} request failed`,
+        upstreamStatus: upstream.status,
+      });
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      await logUsage(call, false, false, null, 0, startedAt);
+      return res.status(502).json({ error: `${call.provider.name} returned an invalid response` });
+    }
+
+    await logUsage(call, false, true, call.provider.extractUsage(data), text.length, startedAt);
+    return res.status(200).json(data);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      await logUsage(call, false, false, null, 0, startedAt);
+      return res.status(504).json({ error: `${call.provider.name} request timed out` });
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function proxyStream(res: VercelResponse, call: GatewayCall) {
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT_MS);
+
+  // Stop paying for tokens nobody will read
+  const onClose = () => {
+    if (!res.writableEnded) controller.abort();
+  };
+  res.on?.('close', onClose);
+
+  const tracker = new SseUsageTracker(call.provider);
+
+  try {
+    const upstream = await call.provider.send({
+      model: call.model,
+      payload: call.payload,
+      stream: true,
+      signal: controller.signal,
+    });
+
+    if (!upstream.ok || !upstream.body) {
+      const text = await upstream.text().catch(() => '');
+      console.error(`[LLM:${call.provider.name}] Upstream stream error:`, upstream.status, text.slice(0, 500));
+      await logUsage(call, true, false, null, 0, startedAt);
+      return res.status(upstreamErrorStatus(upstream.status)).json({
+        error: `${call.provider.name} request failed`,
+        upstreamStatus: upstream.status,
+      });
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+
+    const reader = upstream.body.getReader();
+    const decoder = new TextDecoder();
+    let completed = false;
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          completed = true;
+          break;
+        }
+        tracker.push(decoder.decode(value, { stream: true }));
+        res.write(value);
+      }
+    } catch (error) {
+      // Client went away or the upstream timed out mid-stream - bill what was sent
+      if (!(error instanceof Error && error.name === 'AbortError')) {
+        console.error(`[LLM:${call.provider.name}] Stream interrupted:`, error);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    await logUsage(call, true, true, tracker.finish(), tracker.chars, startedAt);
+    if (!completed) {
+      console.warn(`[LLM:${call.provider.name}] Stream ended early for user ${call.userId}`);
+    }
+    res.end();
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      await logUsage(call, true, false, null, 0, startedAt);
+      return res.status(504).json({ error: `${call.provider.name} request timed out` });
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    res.off?.('close', onClose);
+  }
+}
+
+export default withAuthenticated(withRateLimit('llm', handler));
@@ -1,17 +1,26 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { VercelResponse } from '@vercel/node';
 import { neon } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-http';
 import { eq } from 'drizzle-orm';
 import { messages, conversations } from '../../src/db/schema.js';
+import { withAuth, type AuthRequest } from '../_middleware/auth.js';
+import { withRateLimit } from '../_middleware/rateLimit.js';
+import {
+  getConversationOwner,
+  findOwnedConversation,
+} from '../_middleware/conversations.js';
 
 const sql = neon(process.env.DATABASE_URL!);
 const db = drizzle(sql);
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
+const VALID_ROLES = ['user', 'assistant'];
+
+async function handler(req: AuthRequest, res: VercelResponse) {
   // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
@@ -28,11 +37,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         });
       }
 
-      // Validate conversation exists
-      const [conversation] = await db
-        .select({ id: conversations.id })
-        .from(conversations)
-        .where(eq(conversations.id, conversationId));
+      if (!VALID_ROLES.includes(role)) {
+        return res.status(400).json({ error: 'role must be user or assistant' });
+      }
+
+      const owner = getConversationOwner(req.auth);
+      if (!owner) {
+        return res.status(401).json({ error: 'Session required' });
+      }
+
+      // Only the owner may append; other conversations look missing
+      const conversation = await findOwnedConversation(conversationId, owner);
 
       if (!conversation) {
         return res.status(404).json({ error: 'Conversation not found' });
@@ -64,3 +79,5 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(500).json({ error: 'Internal server error' });
   }
 }
+
+export default withAuth(withRateLimit('messages', handler));
@@ -0,0 +1,61 @@
+// PATCH /api/notifications/[id] - Mark a notification read or unread ({ isRead })
+// DELETE /api/notifications/[id] - Dismiss a notification
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../_middleware/auth.js';
+import {
+  dismissNotification,
+  setNotificationRead,
+} from '../_middleware/notifications.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'PATCH, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'PATCH' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Notification ID is required' });
+  }
+
+  const userId = req.auth.user!.id;
+
+  try {
+    if (req.method === 'DELETE') {
+      const dismissed = await dismissNotification(userId, id);
+      if (!dismissed) {
+        return res.status(404).json({ error: 'Notification not found' });
+      }
+      return res.status(200).json({ success: true });
+    }
+
+    const { isRead = true } = (req.body || {}) as { isRead?: unknown };
+    if (typeof isRead !== 'boolean') {
+      return res.status(400).json({ error: 'isRead must be a boolean' });
+    }
+
+    const updated = await setNotificationRead(userId, id, isRead);
+    if (!updated) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+    return res.status(200).json({ success: true, isRead });
+  } catch (error) {
+    console.error('Update notification error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
@@ -0,0 +1,223 @@
+// Tests for the notification center endpoints - listing, unread counts, read state and dismissal
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthRequest } from '../../_middleware/auth';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+vi.mock('@neondatabase/serverless', () => ({
+  neon: vi.fn(() => vi.fn()),
+}));
+
+vi.mock('drizzle-orm/neon-http', () => ({
+  drizzle: vi.fn(() => ({})),
+}));
+
+vi.mock('../../_middleware/auth', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/auth')>();
+  return {
+    ...original,
+    withAuthenticated: (handler: unknown) => handler,
+  };
+});
+
+vi.mock('../../_middleware/notifications', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/notifications')>();
+  return {
+    ...original,
+    listNotifications: vi.fn(),
+    getUnreadStatus: vi.fn(),
+    setNotificationRead: vi.fn(),
+    markAllNotificationsRead: vi.fn(),
+    dismissNotification: vi.fn(),
+  };
+});
+
+import {
+  dismissNotification,
+  getUnreadStatus,
+  listNotifications,
+  markAllNotificationsRead,
+  setNotificationRead,
+  toAppNotification,
+} from '../../_middleware/notifications';
+import type { Notification } from '../../../src/db/schema';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+function createMockResponse(): VercelResponse {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as VercelResponse;
+}
+
+function createMockRequest(
+  method: string,
+  body: Record<string, unknown> = {},
+  query: Record<string, string> = {}
+): AuthRequest {
+  return {
+    method,
+    query,
+    body,
+    headers: {},
+    auth: {
+      isAuthenticated: true,
+      user: { id: 'user-1', email: 'a@example.com' },
+    },
+  } as unknown as AuthRequest;
+}
+
+const status = { unreadCount: 2, latestAt: '2026-03-08T09:00:00.000Z' };
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Mapping
+// ══════════════════════════════════════════════════════════════════
+
+describe('toAppNotification', () => {
+  const row = {
+    id: 'notif-1',
+    userId: 'user-1',
+    type: 'alert_triggered',
+    title: 'Risk alert',
+    description: 'Apple rose above 70',
+    metadata: { alertSeverity: 'critical' },
+    action: { label: 'View Supplier', onClick: 'view_supplier' },
+    readAt: null,
+    dismissedAt: null,
+    createdAt: new Date('2026-03-08T09:00:00Z'),
+  } as unknown as Notification;
+
+  it('maps read state and timestamps for the drawer', () => {
+    expect(toAppNotification(row)).toEqual({
+      id: 'notif-1',
+      type: 'alert_triggered',
+      title: 'Risk alert',
+      description: 'Apple rose above 70',
+      timestamp: '2026-03-08T09:00:00.000Z',
+      isRead: false,
+      metadata: { alertSeverity: 'critical' },
+      action: { label: 'View Supplier', onClick: 'view_supplier' },
+    });
+  });
+
+  it('omits empty metadata and missing actions', () => {
+    const mapped = toAppNotification({ ...row, metadata: {}, action: null, readAt: new Date() });
+    expect(mapped.isRead).toBe(true);
+    expect(mapped.metadata).toBeUndefined();
+    expect(mapped.action).toBeUndefined();
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Endpoints
+// ══════════════════════════════════════════════════════════════════
+
+describe('/api/notifications', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the page together with the unread status', async () => {
+    const { default: handler } = await import('../index');
+    (listNotifications as Mock).mockResolvedValue([{ id: 'notif-1' }]);
+    (getUnreadStatus as Mock).mockResolvedValue(status);
+
+    const res = createMockResponse();
+    await handler(createMockRequest('GET', {}, { limit: '10', unread: 'true' }), res);
+
+    expect(listNotifications).toHaveBeenCalledWith('user-1', { limit: 10, before: undefined, unreadOnly: true });
+    expect(res.json).toHaveBeenCalledWith({ notifications: [{ id: 'notif-1' }], ...status });
+  });
+
+  it('rejects an unparseable before cursor', async () => {
+    const { default: handler } = await import('../index');
+
+    const res = createMockResponse();
+    await handler(createMockRequest('GET', {}, { before: 'yesterday-ish' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(listNotifications).not.toHaveBeenCalled();
+  });
+});
+
+describe('/api/notifications/unread-count', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns an uncached unread status', async () => {
+    const { default: handler } = await import('../unread-count');
+    (getUnreadStatus as Mock).mockResolvedValue(status);
+
+    const res = createMockResponse();
+    await handler(createMockRequest('GET'), res);
+
+    expect(getUnreadStatus).toHaveBeenCalledWith('user-1');
+    expect(res.setHeader).toHaveBeenCalledWith('Cache-Control', 'no-store');
+    expect(res.json).toHaveBeenCalledWith(status);
+  });
+});
+
+describe('/api/notifications/read-all', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('marks every notification read', async () => {
+    const { default: handler } = await import('../read-all');
+    (markAllNotificationsRead as Mock).mockResolvedValue(3);
+
+    const res = createMockResponse();
+    await handler(createMockRequest('POST'), res);
+
+    expect(markAllNotificationsRead).toHaveBeenCalledWith('user-1');
+    expect(res.json).toHaveBeenCalledWith({ success: true, updated: 3 });
+  });
+});
+
+describe('/api/notifications/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('marks a notification read by default', async () => {
+    const { default: handler } = await import('../[id]');
+    (setNotificationRead as Mock).mockResolvedValue(true);
+
+    const res = createMockResponse();
+    await handler(createMockRequest('PATCH', {}, { id: 'notif-1' }), res);
+
+    expect(setNotificationRead).toHaveBeenCalledWith('user-1', 'notif-1', true);
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it("returns 404 for another user's notification", async () => {
+    const { default: handler } = await import('../[id]');
+    (setNotificationRead as Mock).mockResolvedValue(false);
+
+    const res = createMockResponse();
+    await handler(createMockRequest('PATCH', { isRead: false }, { id: 'notif-2' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  it('dismisses a notification', async () => {
+    const { default: handler } = await import('../[id]');
+    (dismissNotification as Mock).mockResolvedValue(true);
+
+    const res = createMockResponse();
+    await handler(createMockRequest('DELETE', {}, { id: 'notif-1' }), res);
+
+    expect(dismissNotification).toHaveBeenCalledWith('user-1', 'notif-1');
+    expect(res.json).toHaveBeenCalledWith({ success: true });
+  });
+});
@@ -0,0 +1,57 @@
+// GET /api/notifications - The current user's notifications, newest first
+// Query: ?limit=30&before=<ISO timestamp>&unread=true
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../_middleware/auth.js';
+import {
+  getUnreadStatus,
+  listNotifications,
+} from '../_middleware/notifications.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { limit, before, unread } = req.query;
+
+  let beforeDate: Date | undefined;
+  if (typeof before === 'string') {
+    beforeDate = new Date(before);
+    if (Number.isNaN(beforeDate.getTime())) {
+      return res.status(400).json({ error: 'before must be an ISO timestamp' });
+    }
+  }
+
+  const userId = req.auth.user!.id;
+
+  try {
+    const [notifications, status] = await Promise.all([
+      listNotifications(userId, {
+        limit: typeof limit === 'string' ? parseInt(limit, 10) || undefined : undefined,
+        before: beforeDate,
+        unreadOnly: unread === 'true',
+      }),
+      getUnreadStatus(userId),
+    ]);
+
+    return res.status(200).json({ notifications, ...status });
+  } catch (error) {
+    console.error('List notifications error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
@@ -0,0 +1,80 @@
+// PATCH /api/organization/approval-rules/[id] - Update an approval rule (admin only)
+// DELETE /api/organization/approval-rules/[id] - Delete an approval rule (admin only)
+import type { VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { eq, and } from 'drizzle-orm';
+import { withOrgRole, getCompanyTeams } from '../../_middleware/organization.js';
+import type { OrgRequest } from '../../_middleware/organization.js';
+import { validateApprovalRuleInput } from '../../_middleware/approvals.js';
+import { approvalRules } from '../../../src/db/schema.js';
+
+function getDb() {
+  const sql = neon(process.env.DATABASE_URL!);
+  return drizzle(sql);
+}
+
+async function handler(req: OrgRequest, res: VercelResponse) {
+  if (req.method !== 'PATCH' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id: ruleId } = req.query;
+
+  if (!ruleId || typeof ruleId !== 'string') {
+    return res.status(400).json({ error: 'Rule ID is required' });
+  }
+
+  const db = getDb();
+  const scope = and(
+    eq(approvalRules.id, ruleId),
+    eq(approvalRules.companyId, req.org.company.id)
+  );
+
+  const [existing] = await db.select().from(approvalRules).where(scope).limit(1);
+  if (!existing) {
+    return res.status(404).json({ error: 'Approval rule not found' });
+  }
+
+  if (req.method === 'DELETE') {
+    await db.delete(approvalRules).where(scope);
+    return res.status(200).json({ success: true });
+  }
+
+  // Validate the merged rule so partial updates can't leave it inconsistent
+  const validation = validateApprovalRuleInput({
+    minCredits: existing.minCredits,
+    maxCredits: existing.maxCredits,
+    requestType: existing.requestType,
+    teamId: existing.teamId,
+    category: existing.category,
+    approverRole: existing.approverRole,
+    escalationHours: existing.escalationHours,
+    steps: existing.steps,
+    priority: existing.priority,
+    isActive: existing.isActive,
+    ...(req.body ?? {}),
+  });
+  if (!validation.valid || !validation.rule) {
+    return res.status(400).json({ error: validation.error });
+  }
+
+  const rule = validation.rule;
+
+  if (rule.teamId && rule.teamId !== existing.teamId) {
+    const companyTeams = await getCompanyTeams(req.org.company.id);
+    if (!companyTeams.some((t) => t.id === rule.teamId)) {
+      return res.status(400).json({ error: 'Team not found in this organization' });
+    }
+  }
+
+  const [updated] = await db
+    .update(approvalRules)
+    .set({ ...rule, updatedAt: new Date() })
+    .where(scope)
+    .returning();
+
+  return res.status(200).json({ rule: updated });
+}
+
+export default withOrgRole(['admin', 'owner'], handler);
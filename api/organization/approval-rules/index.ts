@@ -0,0 +1,71 @@
+// GET /api/organization/approval-rules - List approval rules for company
+// POST /api/organization/approval-rules - Create an approval rule (admin only)
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { eq, asc } from 'drizzle-orm';
+import { withOrg, withOrgRole, getCompanyTeams } from '../../_middleware/organization.js';
+import type { OrgRequest } from '../../_middleware/organization.js';
+import { validateApprovalRuleInput } from '../../_middleware/approvals.js';
+import { approvalRules } from '../../../src/db/schema.js';
+
+function getDb() {
+  const sql = neon(process.env.DATABASE_URL!);
+  return drizzle(sql);
+}
+
+// GET - List rules
+async function handleGet(req: OrgRequest, res: VercelResponse) {
+  const db = getDb();
+  const rules = await db
+    .select()
+    .from(approvalRules)
+    .where(eq(approvalRules.companyId, req.org.company.id))
+    .orderBy(asc(approvalRules.priority), asc(approvalRules.minCredits));
+
+  return res.status(200).json({ rules, total: rules.length });
+}
+
+// POST - Create rule (admin only)
+async function handlePost(req: OrgRequest, res: VercelResponse) {
+  const validation = validateApprovalRuleInput(req.body ?? {});
+  if (!validation.valid || !validation.rule) {
+    return res.status(400).json({ error: validation.error });
+  }
+
+  const rule = validation.rule;
+
+  if (rule.teamId) {
+    const companyTeams = await getCompanyTeams(req.org.company.id);
+    if (!companyTeams.some((t) => t.id === rule.teamId)) {
+      return res.status(400).json({ error: 'Team not found in this organization' });
+    }
+  }
+
+  const db = getDb();
+  const [created] = await db
+    .insert(approvalRules)
+    .values({ ...rule, companyId: req.org.company.id })
+    .returning();
+
+  return res.status(201).json({ rule: created });
+}
+
+async function handler(req: OrgRequest, res: VercelResponse) {
+  switch (req.method) {
+    case 'GET':
+      return handleGet(req, res);
+    case 'POST':
+      return handlePost(req, res);
+    default:
+      return res.status(405).json({ error: 'Method not allowed' });
+  }
+}
+
+// GET is available to all org members, POST requires admin
+export default async function (req: VercelRequest, res: VercelResponse) {
+  if (req.method === 'POST') {
+    return withOrgRole(['admin', 'owner'], handler)(req, res);
+  }
+  return withOrg(handler)(req, res);
+}
@@ -1,10 +1,18 @@
 // GET /api/organization/teams/[id]/members - List team members
-import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { withOrg, getTeamMembers } from '../../../_middleware/organization.js';
-import type { OrgRequest } from '../../../_middleware/organization.js';
+// PATCH /api/organization/teams/[id]/members - Change a member's role (admin/owner)
+import type { VercelResponse } from '@vercel/node';
+import {
+  withOrg,
+  getTeamMembers,
+  requireRole,
+  updateTeamMemberRole,
+} from '../../../_middleware/organization.js';
+import type { OrgRequest, OrgRole } from '../../../_middleware/organization.js';
+
+const ORG_ROLES: OrgRole[] = ['member', 'approver', 'admin', 'owner'];
 
 async function handler(req: OrgRequest, res: VercelResponse) {
-  if (req.method !== 'GET') {
+  if (req.method !== 'GET' && req.method !== 'PATCH') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
@@ -20,6 +28,10 @@ async function handler(req: OrgRequest, res: VercelResponse) {
     return res.status(403).json({ error: 'Access denied to this team' });
   }
 
+  if (req.method === 'PATCH') {
+    return handleRoleChange(req, res, teamId);
+  }
+
   const members = await getTeamMembers(teamId);
 
   return res.status(200).json({
@@ -38,4 +50,50 @@ async function handler(req: OrgRequest, res: VercelResponse) {
   });
 }
 
+async function handleRoleChange(req: OrgRequest, res: VercelResponse, teamId: string) {
+  if (!requireRole(['admin', 'owner'], req.org.userRole)) {
+    return res.status(403).json({
+      error: 'Insufficient permissions',
+      required: ['admin', 'owner'],
+      current: req.org.userRole,
+    });
+  }
+
+  const { userId, role } = (req.body || {}) as { userId?: string; role?: OrgRole };
+
+  if (!userId || typeof userId !== 'string') {
+    return res.status(400).json({ error: 'userId is required' });
+  }
+  if (!role || !ORG_ROLES.includes(role)) {
+    return res.status(400).json({ error: `role must be one of: ${ORG_ROLES.join(', ')}` });
+  }
+  if (userId === req.auth.user!.id) {
+    return res.status(400).json({ error: 'You cannot change your own role' });
+  }
+
+  const members = await getTeamMembers(teamId);
+  const target = members.find((m) => m.userId === userId);
+  if (!target) {
+    return res.status(404).json({ error: 'Member not found on this team' });
+  }
+
+  // Only owners can grant or take away ownership
+  if ((role === 'owner' || target.role === 'owner') && req.org.userRole !== 'owner') {
+    return res.status(403).json({ error: 'Only owners can change ownership' });
+  }
+
+  const updated = await updateTeamMemberRole(teamId, userId, role);
+  if (!updated) {
+    return res.status(404).json({ error: 'Member not found on this team' });
+  }
+
+  return res.status(200).json({
+    member: {
+      userId: updated.userId,
+      teamId: updated.teamId,
+      role: updated.role,
+    },
+  });
+}
+
 export default withOrg(handler);
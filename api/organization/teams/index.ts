@@ -6,6 +6,7 @@ import { drizzle } from 'drizzle-orm/neon-http';
 import { eq } from 'drizzle-orm';
 import { withOrg, withOrgRole, getCompanyTeams } from '../../_middleware/organization.js';
 import type { OrgRequest } from '../../_middleware/organization.js';
+import { requestSessionRotation } from '../../_middleware/sessions.js';
 import { teams, teamMemberships } from '../../../src/db/schema.js';
 
 function getDb() {
@@ -67,6 +68,9 @@ async function handlePost(req: OrgRequest, res: VercelResponse) {
     role: 'owner',
   });
 
+  // New membership can raise the creator's org role
+  await requestSessionRotation(req.auth.user!.id);
+
   return res.status(201).json({
     team: {
       id: newTeam.id,
@@ -0,0 +1,79 @@
+// PATCH /api/portfolio/[supplierId] - Update notes or alertsEnabled on a followed supplier
+// DELETE /api/portfolio/[supplierId] - Unfollow a supplier
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../_middleware/auth.js';
+import {
+  MAX_NOTES_LENGTH,
+  applyBulkAction,
+  updatePortfolioEntry,
+} from '../_middleware/watchlists.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'PATCH, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'PATCH' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { supplierId } = req.query;
+
+  if (!supplierId || typeof supplierId !== 'string') {
+    return res.status(400).json({ error: 'Supplier ID is required' });
+  }
+
+  const userId = req.auth.user!.id;
+
+  try {
+    if (req.method === 'DELETE') {
+      const result = await applyBulkAction(userId, 'unfollow', { supplierIds: [supplierId] });
+      if (result.updated.length === 0) {
+        return res.status(404).json({ error: 'Supplier is not in your portfolio' });
+      }
+      return res.status(200).json({ success: true });
+    }
+
+    const { notes, alertsEnabled } = (req.body || {}) as { notes?: unknown; alertsEnabled?: unknown };
+    const changes: { notes?: string | null; alertsEnabled?: boolean } = {};
+
+    if (notes !== undefined) {
+      if (notes !== null && typeof notes !== 'string') {
+        return res.status(400).json({ error: 'notes must be a string or null' });
+      }
+      if (typeof notes === 'string' && notes.length > MAX_NOTES_LENGTH) {
+        return res.status(400).json({ error: `notes must be at most ${MAX_NOTES_LENGTH} characters` });
+      }
+      changes.notes = typeof notes === 'string' && notes.trim() ? notes.trim() : null;
+    }
+    if (alertsEnabled !== undefined) {
+      if (typeof alertsEnabled !== 'boolean') {
+        return res.status(400).json({ error: 'alertsEnabled must be a boolean' });
+      }
+      changes.alertsEnabled = alertsEnabled;
+    }
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({ error: 'Nothing to update' });
+    }
+
+    const updated = await updatePortfolioEntry(userId, supplierId, changes);
+    if (!updated) {
+      return res.status(404).json({ error: 'Supplier is not in your portfolio' });
+    }
+    return res.status(200).json({ success: true, ...changes });
+  } catch (error) {
+    console.error('Portfolio entry error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
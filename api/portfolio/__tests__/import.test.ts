@@ -0,0 +1,367 @@
+// Tests for supplier list import - file parsing, matching and endpoints
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthRequest } from '../../_middleware/auth';
+import type { SupplierImportRow } from '../../../src/types/supplierImport';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+vi.mock('@neondatabase/serverless', () => ({
+  neon: vi.fn(() => vi.fn()),
+}));
+
+vi.mock('drizzle-orm/neon-http', () => ({
+  drizzle: vi.fn(() => ({})),
+}));
+
+vi.mock('../../_middleware/auth', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/auth')>();
+  return {
+    ...original,
+    withAuthenticated: (handler: unknown) => handler,
+  };
+});
+
+vi.mock('../../_middleware/supplierImport', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/supplierImport')>();
+  return {
+    ...original,
+    createSupplierImport: vi.fn(),
+    updateImportDecisions: vi.fn(),
+    confirmSupplierImport: vi.fn(),
+  };
+});
+
+import { MAX_XLSX_UNZIPPED_BYTES, parseCsv, parseSpreadsheet, parseXlsx } from '../../_middleware/spreadsheet';
+import {
+  applyDecisionUpdates,
+  confirmSupplierImport,
+  createSupplierImport,
+  matchImportRows,
+  normaliseSupplierName,
+  parseSpend,
+  readImportRows,
+  summarizeImport,
+  updateImportDecisions,
+  type ImportCandidate,
+} from '../../_middleware/supplierImport';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+function createMockResponse(): VercelResponse {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as VercelResponse;
+}
+
+function createMockRequest(
+  method: string,
+  body: Record<string, unknown> = {},
+  query: Record<string, string> = {}
+): AuthRequest {
+  return {
+    method,
+    query,
+    body,
+    headers: {},
+    auth: {
+      isAuthenticated: true,
+      user: { id: 'user-1', email: 'a@example.com' },
+    },
+  } as unknown as AuthRequest;
+}
+
+/**
+ * Minimal zip writer - enough for the XLSX reader, which ignores CRCs
+ */
+function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+const CANDIDATES: ImportCandidate[] = [
+  { id: 's-apex', name: 'Apex Manufacturing Co', duns: '123456789', country: 'USA' },
+  { id: 's-globalchem', name: 'GlobalChem Solutions', duns: null, country: 'USA' },
+  { id: 's-techcore', name: 'TechCore Industries', duns: null, country: 'China' },
+];
+
+const IMPORT_ID = '6a1f7c1e-8b1d-4d7e-9a55-0f3c2b8e4d10';
+
+// ══════════════════════════════════════════════════════════════════
+// FILE PARSING
+// ══════════════════════════════════════════════════════════════════
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes, CRLF and a BOM', () => {
+    const rows = parseCsv('\uFEFFSupplier Name,Spend\r\n"Acme, Inc.","1,200"\r\n"The ""Best"" Co",50\r\n\r\n');
+    expect(rows).toEqual([
+      ['Supplier Name', 'Spend'],
+      ['Acme, Inc.', '1,200'],
+      ['The "Best" Co', '50'],
+    ]);
+  });
+
+  it('detects semicolon-delimited exports', () => {
+    expect(parseCsv('Supplier;Country\nAcme;Germany')).toEqual([['Supplier', 'Country'], ['Acme', 'Germany']]);
+  });
+});
+
+describe('parseXlsx', () => {
+  it('reads shared strings, inline strings and numbers from the first sheet', () => {
+    const workbook = buildZip({
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Suppliers" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/data.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>Supplier Name</t></si><si><t>Spend</t></si><si><r><t>Apex &amp; </t></r><r><t>Sons</t></r></si></sst>',
+      'xl/worksheets/data.xml': '<worksheet><sheetData>'
+        + '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>'
+        + '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="C2"><v>250000</v></c></row>'
+        + '<row r="3"><c r="A3" t="inlineStr"><is><t>GlobalChem</t></is></c></row>'
+        + '</sheetData></worksheet>',
+    });
+
+    expect(parseXlsx(workbook)).toEqual([
+      ['Supplier Name', '', 'Spend'],
+      ['Apex & Sons', '', '250000'],
+      ['GlobalChem'],
+    ]);
+  });
+
+  it('rejects files that are not workbooks', () => {
+    expect(() => parseSpreadsheet('list.xlsx', Buffer.from('not a zip file at all, just some text'))).toThrow('File is not a valid XLSX workbook');
+    expect(() => parseSpreadsheet('list.pdf', Buffer.from('x'))).toThrow('Unsupported file type');
+  });
+
+  it('stops reading once the workbook unzips past the size limit', () => {
+    const half = 'a'.repeat(MAX_XLSX_UNZIPPED_BYTES / 2 + 1);
+    const bomb = buildZip({
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Suppliers" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/data.xml"/></Relationships>',
+      'xl/sharedStrings.xml': half,
+      'xl/worksheets/data.xml': half,
+    });
+
+    expect(bomb.length).toBeLessThan(1024 * 1024);
+    expect(() => parseSpreadsheet('list.xlsx', bomb)).toThrow('Workbook is too large');
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// ROWS & MATCHING
+// ══════════════════════════════════════════════════════════════════
+
+describe('readImportRows', () => {
+  it('finds the header below a title row and maps column aliases', () => {
+    const rows = readImportRows([
+      ['FY25 supplier list'],
+      ['Vendor Name', 'D-U-N-S Number', 'Country', 'Annual Spend'],
+      ['Apex Manufacturing', '12-345-6789', 'United States', '$1.2M'],
+      ['Nameless', '', '', ''],
+      ['', '', '', ''],
+      ['Bad Row Ltd', '123', 'uk', 'lots'],
+    ]);
+
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toMatchObject({ rowNumber: 3, duns: '123456789', country: 'USA', spend: 1_200_000, issues: [] });
+    expect(rows[2]).toMatchObject({ rowNumber: 6, duns: null, country: 'UK', spend: null });
+    expect(rows[2].issues).toHaveLength(2);
+  });
+
+  it('requires a supplier name column', () => {
+    expect(() => readImportRows([['Country', 'Spend'], ['USA', '10']])).toThrow('Could not find a supplier name column');
+  });
+});
+
+describe('parseSpend', () => {
+  it('understands currency symbols, separators and suffixes', () => {
+    expect(parseSpend('$1,250,000')).toBe(1_250_000);
+    expect(parseSpend('850k')).toBe(850_000);
+    expect(parseSpend('')).toBeNull();
+    expect(parseSpend('n/a')).toBeUndefined();
+  });
+});
+
+describe('matchImportRows', () => {
+  const parse = (rows: string[][]) => readImportRows([['Supplier', 'DUNS', 'Country'], ...rows]);
+
+  it('matches by DUNS before name', () => {
+    const [row] = matchImportRows(parse([['Totally Different Name', '123456789', '']]), CANDIDATES);
+    expect(row.match).toMatchObject({ supplierId: 's-apex', matchType: 'duns', confidence: 1 });
+    expect(row.decision).toBe('match');
+  });
+
+  it('matches normalised names and weighs the country', () => {
+    expect(normaliseSupplierName('APEX Manufacturing Co.')).toBe('apex manufacturing');
+
+    const [sameCountry, otherCountry, unknown] = matchImportRows(parse([
+      ['Apex Manufacturing', '', 'US'],
+      ['GlobalChem Solutions', '', 'Germany'],
+      ['Brand New Supplier', '', ''],
+    ]), CANDIDATES);
+
+    expect(sameCountry.match).toMatchObject({ supplierId: 's-apex', matchType: 'name_country', confidence: 0.95 });
+    expect(sameCountry.issues).toEqual([]);
+    expect(otherCountry.match).toMatchObject({ supplierId: 's-globalchem', matchType: 'name' });
+    expect(otherCountry.issues).toContain('Low-confidence match - check before confirming');
+    expect(unknown.match).toBeNull();
+    expect(unknown.decision).toBe('create');
+  });
+
+  it('never matches a supplier with a different DUNS and skips repeats', () => {
+    const rows = matchImportRows(parse([
+      ['Apex Manufacturing', '987654321', 'USA'],
+      ['Apex Manufacturing', '987654321', 'USA'],
+    ]), CANDIDATES);
+
+    expect(rows[0].match).toBeNull();
+    expect(rows[0].decision).toBe('create');
+    expect(rows[1].decision).toBe('skip');
+    expect(rows[1].issues).toContain('Duplicate of row 2');
+    expect(summarizeImport(rows)).toEqual({ total: 2, matched: 0, toCreate: 1, skipped: 1, needsReview: 0 });
+  });
+
+  it('ignores spend that would push a supplier past the column limit', () => {
+    const rows = matchImportRows(readImportRows([
+      ['Supplier', 'DUNS', 'Country', 'Spend'],
+      ['Apex Manufacturing', '123456789', 'USA', '2000000000'],
+      ['Apex Manufacturing Co', '', 'USA', '500000000'],
+      ['Apex Mfg', '123456789', 'USA', '100000000'],
+    ]), CANDIDATES);
+
+    expect(rows.map((r) => r.spend)).toEqual([2_000_000_000, null, 100_000_000]);
+    expect(rows[1].issues).toContain('Combined spend for Apex Manufacturing Co is too large - ignored');
+    expect(rows[2].issues).toEqual(['Duplicate of row 2']);
+  });
+});
+
+describe('applyDecisionUpdates', () => {
+  const rows = matchImportRows(
+    readImportRows([['Supplier', 'DUNS'], ['Apex', '123456789'], ['Unknown Co', '']]),
+    CANDIDATES
+  );
+
+  it('applies decisions the row can take', () => {
+    const updated = applyDecisionUpdates(rows, [{ rowNumber: 2, decision: 'skip' }]);
+    expect(updated.map((r: SupplierImportRow) => r.decision)).toEqual(['skip', 'create']);
+  });
+
+  it('rejects impossible decisions', () => {
+    expect(() => applyDecisionUpdates(rows, [{ rowNumber: 3, decision: 'match' }])).toThrow('Row 3 has no suggested match');
+    expect(() => applyDecisionUpdates(rows, [{ rowNumber: 2, decision: 'create' }])).toThrow('matches an existing supplier by DUNS');
+    expect(() => applyDecisionUpdates(rows, [{ rowNumber: 9, decision: 'skip' }])).toThrow('Row 9 not found');
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// ENDPOINTS
+// ══════════════════════════════════════════════════════════════════
+
+describe('POST /api/portfolio/import', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('parses the upload and returns the preview', async () => {
+    const { default: handler } = await import('../import/index');
+    (createSupplierImport as Mock).mockResolvedValue({ id: IMPORT_ID });
+    const content = Buffer.from('Supplier Name,Country\nApex,USA\n').toString('base64');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', { fileName: 'suppliers.csv', content }), res);
+
+    expect(createSupplierImport).toHaveBeenCalledWith('user-1', 'suppliers.csv', [['Supplier Name', 'Country'], ['Apex', 'USA']]);
+    expect(res.status).toHaveBeenCalledWith(201);
+  });
+
+  it('returns 400 for files it cannot read', async () => {
+    const { default: handler } = await import('../import/index');
+    (createSupplierImport as Mock).mockRejectedValue(new Error('Could not find a supplier name column - add a header row'));
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', { fileName: 'list.csv', content: Buffer.from('a,b').toString('base64') }), res);
+    expect(res.status).toHaveBeenCalledWith(400);
+
+    await handler(createMockRequest('POST', { fileName: 'list.txt', content: Buffer.from('a').toString('base64') }), res);
+    expect(res.json).toHaveBeenLastCalledWith({ error: expect.stringContaining('Unsupported file type') });
+  });
+});
+
+describe('/api/portfolio/import/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('validates decisions before updating', async () => {
+    const { default: handler } = await import('../import/[id]');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('PATCH', { decisions: [{ rowNumber: 2, decision: 'merge' }] }, { id: IMPORT_ID }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(updateImportDecisions).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 once the import is no longer pending', async () => {
+    const { default: handler } = await import('../import/[id]');
+    (updateImportDecisions as Mock).mockRejectedValue(new Error('Import is no longer pending review'));
+    const res = createMockResponse();
+
+    await handler(createMockRequest('PATCH', { decisions: [{ rowNumber: 2, decision: 'skip' }] }, { id: IMPORT_ID }), res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+  });
+
+  it('confirms the import', async () => {
+    const { default: handler } = await import('../import/[id]/confirm');
+    (confirmSupplierImport as Mock).mockResolvedValue({ followed: 3, created: 1, skipped: 0 });
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', {}, { id: IMPORT_ID }), res);
+
+    expect(confirmSupplierImport).toHaveBeenCalledWith('user-1', IMPORT_ID);
+    expect(res.json).toHaveBeenCalledWith({ result: { followed: 3, created: 1, skipped: 0 } });
+  });
+});
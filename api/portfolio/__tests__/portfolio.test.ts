@@ -0,0 +1,221 @@
+// Tests for following suppliers and named watchlists - request validation and endpoints
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthRequest } from '../../_middleware/auth';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+vi.mock('@neondatabase/serverless', () => ({
+  neon: vi.fn(() => vi.fn()),
+}));
+
+vi.mock('drizzle-orm/neon-http', () => ({
+  drizzle: vi.fn(() => ({})),
+}));
+
+vi.mock('../../_middleware/auth', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/auth')>();
+  return {
+    ...original,
+    withAuthenticated: (handler: unknown) => handler,
+  };
+});
+
+vi.mock('../../_middleware/watchlists', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/watchlists')>();
+  return {
+    ...original,
+    listPortfolio: vi.fn(),
+    applyBulkAction: vi.fn(),
+    updatePortfolioEntry: vi.fn(),
+    createWatchlist: vi.fn(),
+    renameWatchlist: vi.fn(),
+  };
+});
+
+import {
+  MAX_BULK_SUPPLIERS,
+  applyBulkAction,
+  createWatchlist,
+  listPortfolio,
+  parseSupplierTarget,
+  renameWatchlist,
+  updatePortfolioEntry,
+  validateWatchlistName,
+} from '../../_middleware/watchlists';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+function createMockResponse(): VercelResponse {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as VercelResponse;
+}
+
+function createMockRequest(
+  method: string,
+  body: Record<string, unknown> = {},
+  query: Record<string, string> = {}
+): AuthRequest {
+  return {
+    method,
+    query,
+    body,
+    headers: {},
+    auth: {
+      isAuthenticated: true,
+      user: { id: 'user-1', email: 'a@example.com' },
+    },
+  } as unknown as AuthRequest;
+}
+
+const SUPPLIER_ID = '0b9d4b6e-4f7c-4a53-9d43-3c1c6f0d8a11';
+const WATCHLIST_ID = '5f1e8c2a-7d3b-4e69-8a0f-2b6c9d4e7f10';
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Validation
+// ══════════════════════════════════════════════════════════════════
+
+describe('parseSupplierTarget', () => {
+  it('dedupes ids and trims names', () => {
+    expect(parseSupplierTarget({
+      supplierIds: [SUPPLIER_ID, SUPPLIER_ID],
+      supplierNames: [' TSMC ', ''],
+    })).toEqual({ target: { supplierIds: [SUPPLIER_ID], supplierNames: ['TSMC'] } });
+  });
+
+  it('rejects empty, malformed and oversized targets', () => {
+    expect(parseSupplierTarget({})).toHaveProperty('error');
+    expect(parseSupplierTarget({ supplierIds: 'abc' })).toHaveProperty('error');
+    expect(parseSupplierTarget({
+      supplierIds: Array.from({ length: MAX_BULK_SUPPLIERS + 1 }, (_, i) => `id-${i}`),
+    })).toHaveProperty('error');
+  });
+});
+
+describe('validateWatchlistName', () => {
+  it('trims names and rejects blank or long ones', () => {
+    expect(validateWatchlistName('  Critical APAC  ')).toEqual({ name: 'Critical APAC' });
+    expect(validateWatchlistName('   ')).toHaveProperty('error');
+    expect(validateWatchlistName('x'.repeat(61))).toHaveProperty('error');
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Endpoints
+// ══════════════════════════════════════════════════════════════════
+
+describe('/api/portfolio', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists followed suppliers filtered by watchlist', async () => {
+    const { default: handler } = await import('../index');
+    (listPortfolio as Mock).mockResolvedValue([{ supplierId: SUPPLIER_ID }]);
+
+    const res = createMockResponse();
+    await handler(createMockRequest('GET', {}, { watchlistId: WATCHLIST_ID }), res);
+
+    expect(listPortfolio).toHaveBeenCalledWith('user-1', WATCHLIST_ID);
+    expect(res.json).toHaveBeenCalledWith({ entries: [{ supplierId: SUPPLIER_ID }], total: 1 });
+  });
+
+  it('follows suppliers by name', async () => {
+    const { default: handler } = await import('../index');
+    const result = { updated: [{ id: SUPPLIER_ID, name: 'TSMC' }], unchanged: [], notFound: [] };
+    (applyBulkAction as Mock).mockResolvedValue(result);
+
+    const res = createMockResponse();
+    await handler(createMockRequest('POST', { action: 'follow', supplierNames: ['TSMC'] }), res);
+
+    expect(applyBulkAction).toHaveBeenCalledWith('user-1', 'follow', { supplierIds: [], supplierNames: ['TSMC'] }, undefined);
+    expect(res.json).toHaveBeenCalledWith(result);
+  });
+
+  it('requires a watchlist for watchlist actions', async () => {
+    const { default: handler } = await import('../index');
+
+    const res = createMockResponse();
+    await handler(createMockRequest('POST', { action: 'add_to_watchlist', supplierIds: [SUPPLIER_ID] }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(applyBulkAction).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for another user's watchlist", async () => {
+    const { default: handler } = await import('../index');
+    (applyBulkAction as Mock).mockRejectedValue(new Error('Watchlist not found'));
+
+    const res = createMockResponse();
+    await handler(createMockRequest('POST', {
+      action: 'add_to_watchlist',
+      supplierIds: [SUPPLIER_ID],
+      watchlistId: WATCHLIST_ID,
+    }), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
+
+describe('/api/portfolio/[supplierId]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('saves notes and the alert toggle', async () => {
+    const { default: handler } = await import('../[supplierId]');
+    (updatePortfolioEntry as Mock).mockResolvedValue(true);
+
+    const res = createMockResponse();
+    await handler(createMockRequest('PATCH', { notes: ' Key chip supplier ', alertsEnabled: false }, { supplierId: SUPPLIER_ID }), res);
+
+    expect(updatePortfolioEntry).toHaveBeenCalledWith('user-1', SUPPLIER_ID, { notes: 'Key chip supplier', alertsEnabled: false });
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it('returns 404 when the supplier is not followed', async () => {
+    const { default: handler } = await import('../[supplierId]');
+    (applyBulkAction as Mock).mockResolvedValue({ updated: [], unchanged: [{ id: SUPPLIER_ID, name: 'TSMC' }], notFound: [] });
+
+    const res = createMockResponse();
+    await handler(createMockRequest('DELETE', {}, { supplierId: SUPPLIER_ID }), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
+
+describe('/api/watchlists', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns 409 for a duplicate name', async () => {
+    const { default: handler } = await import('../../watchlists/index');
+    (createWatchlist as Mock).mockRejectedValue(new Error('Watchlist name already exists'));
+
+    const res = createMockResponse();
+    await handler(createMockRequest('POST', { name: 'Critical APAC' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+  });
+
+  it('renames a watchlist', async () => {
+    const { default: handler } = await import('../../watchlists/[id]');
+    (renameWatchlist as Mock).mockResolvedValue(true);
+
+    const res = createMockResponse();
+    await handler(createMockRequest('PATCH', { name: ' Tier 1 ' }, { id: WATCHLIST_ID }), res);
+
+    expect(renameWatchlist).toHaveBeenCalledWith('user-1', WATCHLIST_ID, 'Tier 1');
+    expect(res.json).toHaveBeenCalledWith({ success: true, name: 'Tier 1' });
+  });
+});
@@ -0,0 +1,93 @@
+// GET /api/portfolio/import/[id] - Fetch an import with its suggested matches
+// PATCH /api/portfolio/import/[id] - Change row decisions during review
+// DELETE /api/portfolio/import/[id] - Cancel an import
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../../_middleware/auth.js';
+import {
+  cancelSupplierImport,
+  getSupplierImport,
+  updateImportDecisions,
+} from '../../_middleware/supplierImport.js';
+import {
+  SUPPLIER_IMPORT_DECISIONS,
+  type SupplierImportDecision,
+  type SupplierImportDecisionUpdate,
+} from '../../../src/types/supplierImport.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PATCH, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'PATCH' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Import ID is required' });
+  }
+
+  const userId = req.auth.user!.id;
+
+  try {
+    if (req.method === 'GET') {
+      const preview = await getSupplierImport(userId, id);
+      if (!preview) {
+        return res.status(404).json({ error: 'Import not found' });
+      }
+      return res.status(200).json({ import: preview });
+    }
+
+    if (req.method === 'DELETE') {
+      const cancelled = await cancelSupplierImport(userId, id);
+      if (!cancelled) {
+        return res.status(404).json({ error: 'Import not found' });
+      }
+      return res.status(200).json({ success: true });
+    }
+
+    const { decisions } = (req.body || {}) as { decisions?: unknown };
+    if (!Array.isArray(decisions) || decisions.length === 0) {
+      return res.status(400).json({ error: 'decisions must be a non-empty array' });
+    }
+
+    const updates: SupplierImportDecisionUpdate[] = [];
+    for (const item of decisions as Array<{ rowNumber?: unknown; decision?: unknown }>) {
+      if (!Number.isInteger(item?.rowNumber) || !SUPPLIER_IMPORT_DECISIONS.includes(item?.decision as SupplierImportDecision)) {
+        return res.status(400).json({
+          error: `Each decision needs a rowNumber and one of: ${SUPPLIER_IMPORT_DECISIONS.join(', ')}`,
+        });
+      }
+      updates.push({ rowNumber: item.rowNumber as number, decision: item.decision as SupplierImportDecision });
+    }
+
+    const preview = await updateImportDecisions(userId, id, updates);
+    if (!preview) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+    return res.status(200).json({ import: preview });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Import is no longer pending review') {
+      return res.status(409).json({ error: message });
+    }
+    if (message.startsWith('Row ')) {
+      return res.status(400).json({ error: message });
+    }
+    console.error('Supplier import error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
@@ -0,0 +1,46 @@
+// POST /api/portfolio/import/[id]/confirm - Follow matched suppliers and create the unmatched ones
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../../../_middleware/auth.js';
+import { confirmSupplierImport } from '../../../_middleware/supplierImport.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Import ID is required' });
+  }
+
+  try {
+    const result = await confirmSupplierImport(req.auth.user!.id, id);
+    if (!result) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+    return res.status(200).json({ result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Import is no longer pending review') {
+      return res.status(409).json({ error: message });
+    }
+    console.error('Supplier import confirm error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
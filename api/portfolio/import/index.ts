@@ -0,0 +1,71 @@
+// POST /api/portfolio/import - Upload a CSV or XLSX supplier list and get back matches for review
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../../_middleware/auth.js';
+import { parseSpreadsheet } from '../../_middleware/spreadsheet.js';
+import {
+  MAX_IMPORT_BYTES,
+  createSupplierImport,
+} from '../../_middleware/supplierImport.js';
+
+// Errors from reading the file that the uploader can fix
+const FILE_ERRORS = [
+  'Unsupported file type',
+  'File is not a valid XLSX workbook',
+  'Unsupported XLSX compression',
+  'Workbook is too large',
+  'Workbook has no worksheets',
+  'Could not find a supplier name column',
+  'No supplier rows found',
+  'At most',
+];
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { fileName, content } = (req.body || {}) as { fileName?: unknown; content?: unknown };
+
+  if (typeof fileName !== 'string' || !fileName.trim()) {
+    return res.status(400).json({ error: 'fileName is required' });
+  }
+  if (typeof content !== 'string' || !content) {
+    return res.status(400).json({ error: 'content must be the base64-encoded file' });
+  }
+
+  const file = Buffer.from(content, 'base64');
+  if (file.length === 0) {
+    return res.status(400).json({ error: 'File is empty' });
+  }
+  if (file.length > MAX_IMPORT_BYTES) {
+    return res.status(413).json({ error: `File must be at most ${MAX_IMPORT_BYTES / (1024 * 1024)}MB` });
+  }
+
+  try {
+    const table = parseSpreadsheet(fileName, file);
+    const preview = await createSupplierImport(req.auth.user!.id, fileName.trim(), table);
+    return res.status(201).json({ import: preview });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (FILE_ERRORS.some((prefix) => message.startsWith(prefix))) {
+      return res.status(400).json({ error: message });
+    }
+    console.error('Supplier import error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
@@ -0,0 +1,68 @@
+// GET /api/portfolio - The suppliers the current user follows (?watchlistId= to filter)
+// POST /api/portfolio - Apply an action to one or more suppliers
+// Body: { action, supplierIds?, supplierNames?, watchlistId? }
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../_middleware/auth.js';
+import {
+  applyBulkAction,
+  listPortfolio,
+  parseSupplierTarget,
+} from '../_middleware/watchlists.js';
+import { PORTFOLIO_BULK_ACTIONS, type PortfolioBulkAction } from '../../src/types/watchlists.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const userId = req.auth.user!.id;
+
+  try {
+    if (req.method === 'GET') {
+      const { watchlistId } = req.query;
+      const entries = await listPortfolio(userId, typeof watchlistId === 'string' ? watchlistId : undefined);
+      return res.status(200).json({ entries, total: entries.length });
+    }
+
+    if (req.method === 'POST') {
+      const body = (req.body || {}) as Record<string, unknown>;
+      const action = body.action as PortfolioBulkAction;
+
+      if (!PORTFOLIO_BULK_ACTIONS.includes(action)) {
+        return res.status(400).json({ error: `action must be one of: ${PORTFOLIO_BULK_ACTIONS.join(', ')}` });
+      }
+
+      const watchlistId = typeof body.watchlistId === 'string' ? body.watchlistId : undefined;
+      if ((action === 'add_to_watchlist' || action === 'remove_from_watchlist') && !watchlistId) {
+        return res.status(400).json({ error: 'watchlistId is required for watchlist actions' });
+      }
+
+      const parsed = parseSupplierTarget(body);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const result = await applyBulkAction(userId, action, parsed.target, watchlistId);
+      return res.status(200).json(result);
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Watchlist not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Portfolio error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
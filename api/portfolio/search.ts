@@ -0,0 +1,49 @@
+// GET /api/portfolio/search?q=<name, category or country>&limit=10
+// Supplier search for the watchlist artifact, with the caller's follow state
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../_middleware/auth.js';
+import { searchSuppliersForUser } from '../_middleware/watchlists.js';
+
+const MAX_RESULTS = 25;
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { q, limit } = req.query;
+  const query = typeof q === 'string' ? q.trim() : '';
+
+  if (query.length < 2) {
+    return res.status(400).json({ error: 'q must be at least 2 characters' });
+  }
+
+  const parsedLimit = typeof limit === 'string' ? parseInt(limit, 10) : NaN;
+
+  try {
+    const suppliers = await searchSuppliersForUser(
+      req.auth.user!.id,
+      query,
+      Number.isNaN(parsedLimit) ? 10 : Math.min(Math.max(parsedLimit, 1), MAX_RESULTS)
+    );
+    return res.status(200).json({ suppliers });
+  } catch (error) {
+    console.error('Supplier search error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
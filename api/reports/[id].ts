@@ -0,0 +1,44 @@
+// GET /api/reports/[id] - A saved research report with the list of its versions
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../_middleware/auth.js';
+import { getLibraryReport, listReportVersions, toLibraryReport } from '../_middleware/reports.js';
+import { UUID_PATTERN } from '../_middleware/watchlists.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+    return res.status(400).json({ error: 'A valid report ID is required' });
+  }
+
+  try {
+    const row = await getLibraryReport(req.auth.user!.id, id);
+    if (!row) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+    const versions = await listReportVersions(row.lineageId);
+    return res.status(200).json({ report: toLibraryReport(row), versions });
+  } catch (error) {
+    console.error('Report error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
@@ -0,0 +1,66 @@
+// GET /api/reports/[id]/diff - Section-level changes between this report version and
+// ?against= (another version of the same report; defaults to the previous version)
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../../_middleware/auth.js';
+import { getLibraryReport, listReportVersions } from '../../_middleware/reports.js';
+import { UUID_PATTERN } from '../../_middleware/watchlists.js';
+import { diffReports } from '../../../src/utils/reportDiff.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id, against } = req.query;
+
+  if (!id || typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+    return res.status(400).json({ error: 'A valid report ID is required' });
+  }
+  const againstId = typeof against === 'string' ? against : undefined;
+  if (against !== undefined && (!againstId || !UUID_PATTERN.test(againstId))) {
+    return res.status(400).json({ error: 'against must be a report ID' });
+  }
+
+  const userId = req.auth.user!.id;
+
+  try {
+    const current = await getLibraryReport(userId, id);
+    if (!current) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+
+    let previousId = againstId;
+    if (!previousId) {
+      const versions = await listReportVersions(current.lineageId);
+      previousId = versions.find((version) => version.version < current.version)?.id;
+      if (!previousId) {
+        return res.status(409).json({ error: 'This is the first version of the report' });
+      }
+    }
+
+    const previous = await getLibraryReport(userId, previousId);
+    if (!previous || previous.lineageId !== current.lineageId) {
+      return res.status(404).json({ error: 'Report version not found' });
+    }
+
+    return res.status(200).json({ diff: diffReports(previous, current) });
+  } catch (error) {
+    console.error('Report diff error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
@@ -0,0 +1,67 @@
+// POST /api/reports/[id]/refresh - Re-run a saved report's study. The new report is
+// saved as the next version, and earlier versions are kept for comparison.
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../../_middleware/auth.js';
+import { getActiveRefresh, getLibraryReport } from '../../_middleware/reports.js';
+import { createResearchJob, toDeepResearchResponse } from '../../_middleware/research.js';
+import { UUID_PATTERN } from '../../_middleware/watchlists.js';
+import type { StudyType } from '../../../src/types/deepResearch.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+    return res.status(400).json({ error: 'A valid report ID is required' });
+  }
+
+  const userId = req.auth.user!.id;
+
+  try {
+    const row = await getLibraryReport(userId, id);
+    if (!row) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+    if (await getActiveRefresh(row.lineageId)) {
+      return res.status(409).json({ error: 'This report is already being refreshed' });
+    }
+
+    // Same study with the same answers, so the versions are comparable
+    const job = await createResearchJob(userId, {
+      query: row.query,
+      studyType: row.studyType as StudyType,
+      intakeAnswers: row.report.intakeAnswers ?? {},
+      skipIntake: true,
+    }, { reportLineageId: row.lineageId });
+
+    return res.status(201).json({ research: toDeepResearchResponse(job) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('Insufficient credits')) {
+      return res.status(400).json({ error: 'Insufficient credits', message });
+    }
+    if (message.includes('Insufficient team budget')) {
+      return res.status(400).json({ error: 'Team budget exceeded', message });
+    }
+    console.error('Report refresh error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
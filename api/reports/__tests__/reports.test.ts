@@ -0,0 +1,416 @@
+// Tests for the report library - filters, saving versions, reading, comparing and refreshing reports
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthRequest } from '../../_middleware/auth';
+import type { ResearchJob, ResearchReport } from '../../../src/db/schema';
+import type { DeepResearchReport, ReportSection } from '../../../src/types/deepResearch';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+const mockDb = vi.hoisted(() => ({
+  select: vi.fn(),
+  insert: vi.fn(),
+  update: vi.fn(),
+}));
+
+vi.mock('@neondatabase/serverless', () => ({
+  neon: vi.fn(() => vi.fn()),
+}));
+
+vi.mock('drizzle-orm/neon-http', () => ({
+  drizzle: vi.fn(() => mockDb),
+}));
+
+vi.mock('../../_middleware/auth', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/auth')>();
+  return {
+    ...original,
+    withAuthenticated: (handler: unknown) => handler,
+  };
+});
+
+vi.mock('../../_middleware/organization', () => ({
+  getOrgContext: vi.fn(async () => ({ company: { id: 'company-1' } })),
+}));
+
+vi.mock('../../_middleware/notifications', () => ({
+  notifyUser: vi.fn(),
+}));
+
+vi.mock('../../../src/services/ai', () => ({
+  executeDeepResearch: vi.fn(),
+}));
+
+import { notifyScheduledRun, parseLibraryFilters, saveResearchReport } from '../../_middleware/reports';
+import { notifyUser } from '../../_middleware/notifications';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+const REPORT_ID = '44444444-4444-4444-8444-444444444444';
+const PREVIOUS_ID = '55555555-5555-4555-8555-555555555555';
+const LINEAGE_ID = '66666666-6666-4666-8666-666666666666';
+const JOB_ID = '33333333-3333-4333-8333-333333333333';
+
+function queryResult(rows: unknown[]) {
+  const chain: Record<string, Mock> & { then?: unknown } = {};
+  for (const method of ['from', 'where', 'orderBy', 'limit', 'values', 'onConflictDoNothing', 'set', 'returning']) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.then = (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+    Promise.resolve(rows).then(resolve, reject);
+  return chain;
+}
+
+const section = (id: string, content: string): ReportSection => ({ id, title: id, content, level: 1, citationIds: [] });
+
+function makeReport(overrides: Partial<DeepResearchReport> = {}): DeepResearchReport {
+  return {
+    id: 'report-1',
+    title: 'Aluminum Outlook',
+    keyFinding: 'Prices up 4%',
+    reportNumber: 'ABI-2026-0142',
+    studyType: 'market_analysis',
+    metadata: { title: 'Aluminum Outlook', date: '2026-10-19', templateId: 'market_analysis', version: '1.0' },
+    sections: [section('summary', 'Prices rose.')],
+    intakeAnswers: { region: ['Europe'] },
+    ...overrides,
+  } as DeepResearchReport;
+}
+
+function makeRow(overrides: Partial<ResearchReport> = {}): ResearchReport {
+  return {
+    id: REPORT_ID,
+    lineageId: LINEAGE_ID,
+    version: 2,
+    userId: 'user-1',
+    companyId: 'company-1',
+    jobId: JOB_ID,
+    title: 'Aluminum Outlook',
+    query: 'Aluminum market outlook',
+    studyType: 'market_analysis',
+    category: 'Metals',
+    reportNumber: 'ABI-2026-0142',
+    report: makeReport(),
+    createdAt: new Date('2026-10-19T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+function makeJob(overrides: Partial<ResearchJob> = {}): ResearchJob {
+  return {
+    id: JOB_ID,
+    userId: 'user-1',
+    companyId: 'company-1',
+    query: 'Aluminum market outlook',
+    studyType: 'market_analysis',
+    status: 'complete',
+    intake: null,
+    intakeAnswers: { category: 'Metals', region: ['Europe'] },
+    progress: null,
+    report: null,
+    error: null,
+    creditsRequired: 500,
+    reportLineageId: null,
+    reportId: null,
+    holdId: null,
+    approvalRequestId: null,
+    scheduleId: null,
+    sequence: 0,
+    attempts: 1,
+    lockedUntil: null,
+    startedAt: null,
+    completedAt: null,
+    createdAt: new Date('2026-10-19T09:59:00Z'),
+    updatedAt: new Date('2026-10-19T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+function createMockResponse() {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as VercelResponse;
+}
+
+function createMockRequest(method: string, query: Record<string, string> = {}): AuthRequest {
+  return {
+    method,
+    query,
+    body: {},
+    headers: {},
+    auth: {
+      isAuthenticated: true,
+      user: { id: 'user-1', email: 'a@example.com' },
+    },
+  } as unknown as AuthRequest;
+}
+
+// ══════════════════════════════════════════════════════════════════
+// FILTERS
+// ══════════════════════════════════════════════════════════════════
+
+describe('parseLibraryFilters', () => {
+  it('accepts known study types and dates', () => {
+    expect(parseLibraryFilters({ studyType: 'cost_model', category: ' Metals ', from: '2026-01-01', search: 'aluminum' }))
+      .toEqual({ filters: { studyType: 'cost_model', category: 'Metals', from: '2026-01-01', to: undefined, search: 'aluminum' } });
+  });
+
+  it('rejects unknown study types and bad dates', () => {
+    expect(parseLibraryFilters({ studyType: 'horoscope' })).toHaveProperty('error');
+    expect(parseLibraryFilters({ to: 'yesterday' })).toEqual({ error: 'to must be an ISO date' });
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// SAVING
+// ══════════════════════════════════════════════════════════════════
+
+describe('saveResearchReport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('starts a new lineage for a first run', async () => {
+    const insert = queryResult([makeRow({ version: 1 })]);
+    mockDb.insert.mockReturnValue(insert);
+
+    await saveResearchReport(makeJob(), makeReport());
+
+    expect(mockDb.select).not.toHaveBeenCalled();
+    const values = insert.values.mock.calls[0][0];
+    expect(values).toMatchObject({ version: 1, companyId: 'company-1', jobId: JOB_ID, category: 'Metals', reportNumber: 'ABI-2026-0142' });
+    expect(values.lineageId).toBeUndefined();
+    expect(values.report.metadata.version).toBe('1');
+  });
+
+  it('saves a refresh as the next version of its lineage', async () => {
+    mockDb.select.mockReturnValue(queryResult([{ version: 3 }]));
+    const insert = queryResult([makeRow({ version: 4 })]);
+    mockDb.insert.mockReturnValue(insert);
+
+    await saveResearchReport(makeJob({ reportLineageId: LINEAGE_ID }), makeReport());
+
+    expect(insert.values.mock.calls[0][0]).toMatchObject({ lineageId: LINEAGE_ID, version: 4 });
+  });
+
+  it('takes the next free version when another refresh saved first', async () => {
+    mockDb.select
+      .mockReturnValueOnce(queryResult([{ version: 3 }]))
+      .mockReturnValueOnce(queryResult([{ version: 4 }]));
+    const lost = queryResult([]);
+    const won = queryResult([makeRow({ version: 5 })]);
+    mockDb.insert.mockReturnValueOnce(lost).mockReturnValueOnce(won);
+
+    const saved = await saveResearchReport(makeJob({ reportLineageId: LINEAGE_ID }), makeReport());
+
+    expect(saved.version).toBe(5);
+    expect(lost.values.mock.calls[0][0]).toMatchObject({ version: 4 });
+    expect(won.values.mock.calls[0][0]).toMatchObject({ version: 5 });
+    expect(won.values.mock.calls[0][0].report.metadata.version).toBe('5');
+  });
+});
+
+describe('notifyScheduledRun', () => {
+  const SCHEDULE_ID = '77777777-7777-4777-8777-777777777777';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('summarizes what changed since the previous run', async () => {
+    mockDb.select.mockReturnValue(queryResult([makeRow({ id: PREVIOUS_ID, version: 1 })]));
+    const saved = makeRow({
+      report: makeReport({ keyFinding: 'Prices up 9%', sections: [section('summary', 'Prices rose again.')] }),
+    });
+
+    await notifyScheduledRun(makeJob({ scheduleId: SCHEDULE_ID }), saved);
+
+    expect(notifyUser).toHaveBeenCalledWith({
+      userId: 'user-1',
+      type: 'report_ready',
+      title: 'Scheduled report ready: Aluminum Outlook',
+      description: 'Key finding updated: Prices up 9%. 1 section changed (summary).',
+      metadata: { scheduleId: SCHEDULE_ID, reportId: REPORT_ID },
+      action: { label: 'View Report', onClick: 'view_report' },
+    });
+  });
+
+  it('reports a failed run and ignores jobs without a schedule', async () => {
+    await notifyScheduledRun(makeJob(), makeRow());
+    expect(notifyUser).not.toHaveBeenCalled();
+
+    await notifyScheduledRun(makeJob({ scheduleId: SCHEDULE_ID }), null);
+    expect(notifyUser).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Scheduled research failed',
+      metadata: { scheduleId: SCHEDULE_ID },
+    }));
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// ENDPOINTS
+// ══════════════════════════════════════════════════════════════════
+
+describe('GET /api/reports', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists the latest version of each report', async () => {
+    mockDb.select.mockReturnValue(queryResult([{ ...makeRow(), keyFinding: 'Prices up 4%' }]));
+    const { default: handler } = await import('../index');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('GET', { studyType: 'market_analysis' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    const { reports } = (res.json as Mock).mock.calls[0][0];
+    expect(reports).toEqual([expect.objectContaining({
+      id: REPORT_ID,
+      version: 2,
+      keyFinding: 'Prices up 4%',
+      createdAt: '2026-10-19T10:00:00.000Z',
+    })]);
+  });
+
+  it('rejects invalid filters', async () => {
+    const { default: handler } = await import('../index');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('GET', { from: 'soon' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(mockDb.select).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /api/reports/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the report with its versions', async () => {
+    mockDb.select
+      .mockReturnValueOnce(queryResult([makeRow()]))
+      .mockReturnValueOnce(queryResult([
+        { ...makeRow(), keyFinding: 'Prices up 4%' },
+        { ...makeRow({ id: PREVIOUS_ID, version: 1 }), keyFinding: null },
+      ]));
+    const { default: handler } = await import('../[id]');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('GET', { id: REPORT_ID }), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    const { report, versions } = (res.json as Mock).mock.calls[0][0];
+    expect(report).toMatchObject({ id: REPORT_ID, version: 2, report: { title: 'Aluminum Outlook' } });
+    expect(versions.map((v: { version: number }) => v.version)).toEqual([2, 1]);
+  });
+
+  it('returns 404 for a report outside the library', async () => {
+    mockDb.select.mockReturnValue(queryResult([]));
+    const { default: handler } = await import('../[id]');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('GET', { id: REPORT_ID }), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
+
+describe('GET /api/reports/[id]/diff', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('compares with the previous version by default', async () => {
+    const previous = makeRow({ id: PREVIOUS_ID, version: 1, report: makeReport({ sections: [section('summary', 'Prices fell.')] }) });
+    mockDb.select
+      .mockReturnValueOnce(queryResult([makeRow()]))
+      .mockReturnValueOnce(queryResult([{ ...makeRow(), keyFinding: null }, { ...previous, keyFinding: null }]))
+      .mockReturnValueOnce(queryResult([previous]));
+    const { default: handler } = await import('../[id]/diff');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('GET', { id: REPORT_ID }), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    const { diff } = (res.json as Mock).mock.calls[0][0];
+    expect(diff).toMatchObject({ fromVersion: 1, toVersion: 2 });
+    expect(diff.sections[0]).toMatchObject({ sectionId: 'summary', status: 'changed', changes: ['content'] });
+  });
+
+  it('returns 409 for a first version', async () => {
+    mockDb.select
+      .mockReturnValueOnce(queryResult([makeRow({ version: 1 })]))
+      .mockReturnValueOnce(queryResult([{ ...makeRow({ version: 1 }), keyFinding: null }]));
+    const { default: handler } = await import('../[id]/diff');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('GET', { id: REPORT_ID }), res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+  });
+
+  it('only compares versions of the same report', async () => {
+    mockDb.select
+      .mockReturnValueOnce(queryResult([makeRow()]))
+      .mockReturnValueOnce(queryResult([makeRow({ id: PREVIOUS_ID, lineageId: 'other-lineage' })]));
+    const { default: handler } = await import('../[id]/diff');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('GET', { id: REPORT_ID, against: PREVIOUS_ID }), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
+
+describe('POST /api/reports/[id]/refresh', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('queues the same study against the report lineage', async () => {
+    mockDb.select
+      .mockReturnValueOnce(queryResult([makeRow()]))
+      .mockReturnValueOnce(queryResult([]));
+    const insert = queryResult([makeJob({ status: 'queued', reportLineageId: LINEAGE_ID })]);
+    mockDb.insert.mockReturnValue(insert);
+    const { default: handler } = await import('../[id]/refresh');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', { id: REPORT_ID }), res);
+
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(insert.values.mock.calls[0][0]).toMatchObject({
+      query: 'Aluminum market outlook',
+      studyType: 'market_analysis',
+      status: 'queued',
+      intakeAnswers: { region: ['Europe'] },
+      reportLineageId: LINEAGE_ID,
+    });
+    const { research } = (res.json as Mock).mock.calls[0][0];
+    expect(research).toMatchObject({ jobId: JOB_ID, phase: 'processing' });
+  });
+
+  it('returns 409 while a refresh is already running', async () => {
+    mockDb.select
+      .mockReturnValueOnce(queryResult([makeRow()]))
+      .mockReturnValueOnce(queryResult([makeJob({ status: 'processing', reportLineageId: LINEAGE_ID })]));
+    const { default: handler } = await import('../[id]/refresh');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', { id: REPORT_ID }), res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
+});
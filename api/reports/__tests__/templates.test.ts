@@ -0,0 +1,325 @@
+// Tests for company report templates - validation, the template API and picking one for a custom study
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { VercelResponse } from '@vercel/node';
+import type { OrgRequest } from '../../_middleware/organization';
+import type { ReportTemplateRow } from '../../../src/db/schema';
+import type { ReportSectionTemplate } from '../../../src/services/reportTemplates';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+const mockDb = vi.hoisted(() => ({
+  select: vi.fn(),
+  insert: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
+}));
+
+vi.mock('@neondatabase/serverless', () => ({
+  neon: vi.fn(() => vi.fn()),
+}));
+
+vi.mock('drizzle-orm/neon-http', () => ({
+  drizzle: vi.fn(() => mockDb),
+}));
+
+vi.mock('../../_middleware/organization', () => ({
+  withOrg: (handler: unknown) => handler,
+  withOrgRole: (_roles: unknown, handler: unknown) => handler,
+}));
+
+import {
+  getTemplateIntakeQuestion,
+  resolveJobTemplate,
+  validateReportTemplateInput,
+} from '../../_middleware/reportTemplates';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+const TEMPLATE_ID = '88888888-8888-4888-8888-888888888888';
+
+const SECTIONS: ReportSectionTemplate[] = [
+  {
+    id: 'summary',
+    title: 'Summary',
+    required: true,
+    minCitations: 2,
+    description: 'Key findings for the category team',
+    promptHints: ['Lead with the price outlook'],
+  },
+  {
+    id: 'suppliers',
+    title: 'Supplier Landscape',
+    required: false,
+    minCitations: 3,
+    description: 'Main suppliers and their share',
+    promptHints: [],
+    visualizationSlots: [{
+      slotId: 'supplier_share',
+      type: 'pie_chart',
+      title: 'Supplier share',
+      description: 'Market share by supplier',
+      minDataPoints: 3,
+      placement: 'after_prose',
+    }],
+  },
+];
+
+const validBody = {
+  name: 'Packaging review',
+  description: 'Quarterly packaging category review',
+  sections: SECTIONS,
+  minTotalCitations: 5,
+  requiredSourceTypes: ['web', 'web'],
+};
+
+function queryResult(rows: unknown[]) {
+  const chain: Record<string, Mock> & { then?: unknown } = {};
+  for (const method of ['from', 'where', 'orderBy', 'limit', 'values', 'set', 'returning']) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.then = (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+    Promise.resolve(rows).then(resolve, reject);
+  return chain;
+}
+
+function makeRow(overrides: Partial<ReportTemplateRow> = {}): ReportTemplateRow {
+  return {
+    id: TEMPLATE_ID,
+    companyId: 'company-1',
+    createdBy: 'user-1',
+    name: 'Packaging review',
+    description: 'Quarterly packaging category review',
+    sections: SECTIONS,
+    minTotalCitations: 5,
+    requiredSourceTypes: ['web'],
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    updatedAt: new Date('2026-10-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function mockResponse() {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    setHeader: vi.fn(),
+    status: vi.fn((code: number) => {
+      res.statusCode = code;
+      return res;
+    }),
+    json: vi.fn((body: unknown) => {
+      res.body = body;
+      return res;
+    }),
+    end: vi.fn(() => res),
+  };
+  return res;
+}
+
+function orgRequest(overrides: Partial<OrgRequest> = {}): OrgRequest {
+  return {
+    method: 'GET',
+    headers: {},
+    query: {},
+    body: undefined,
+    auth: { user: { id: 'user-1' } },
+    org: { company: { id: 'company-1' }, userRole: 'admin' },
+    ...overrides,
+  } as unknown as OrgRequest;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS
+// ══════════════════════════════════════════════════════════════════
+
+describe('validateReportTemplateInput', () => {
+  it('accepts a valid template and drops repeated source types', () => {
+    const result = validateReportTemplateInput({ ...validBody, name: '  Packaging review ' });
+
+    expect(result).toEqual({
+      template: { ...validBody, name: 'Packaging review', requiredSourceTypes: ['web'] },
+    });
+  });
+
+  it('rejects a broken section tree with the first problem found', () => {
+    expect(validateReportTemplateInput({ ...validBody, sections: [] }))
+      .toEqual({ error: 'A template needs at least one section' });
+    expect(validateReportTemplateInput({ ...validBody, sections: [SECTIONS[0], { ...SECTIONS[1], id: 'summary' }] }))
+      .toEqual({ error: 'Section ID "summary" is used more than once' });
+    expect(validateReportTemplateInput({ ...validBody, sections: [{ ...SECTIONS[0], minCitations: -1 }] }))
+      .toEqual({ error: expect.stringContaining('minCitations must be a whole number') });
+    expect(validateReportTemplateInput({ ...validBody, name: '' }))
+      .toEqual({ error: expect.stringContaining('name is required') });
+  });
+});
+
+describe('POST /api/reports/templates', () => {
+  it('saves the template for the company', async () => {
+    const { default: handler } = await import('../templates/index');
+    mockDb.select
+      .mockReturnValueOnce(queryResult([]))  // Name is free
+      .mockReturnValueOnce(queryResult([{ total: 0 }])); // Under the template limit
+    const insert = queryResult([makeRow()]);
+    mockDb.insert.mockReturnValueOnce(insert);
+    const res = mockResponse();
+
+    await handler(orgRequest({ method: 'POST', body: validBody }), res as unknown as VercelResponse);
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body).toMatchObject({ template: { id: TEMPLATE_ID, name: 'Packaging review', createdAt: '2026-10-01T00:00:00.000Z' } });
+    expect(insert.values.mock.calls[0][0]).toMatchObject({ companyId: 'company-1', createdBy: 'user-1', sections: SECTIONS });
+  });
+
+  it('rejects a name the company already uses', async () => {
+    const { default: handler } = await import('../templates/index');
+    mockDb.select.mockReturnValueOnce(queryResult([{ id: TEMPLATE_ID }]));
+    const res = mockResponse();
+
+    await handler(orgRequest({ method: 'POST', body: validBody }), res as unknown as VercelResponse);
+
+    expect(res.statusCode).toBe(409);
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
+
+  it('reports a duplicate caught by the unique index as a conflict', async () => {
+    const { default: handler } = await import('../templates/index');
+    mockDb.select
+      .mockReturnValueOnce(queryResult([]))
+      .mockReturnValueOnce(queryResult([{ total: 0 }]));
+    const insert = queryResult([]);
+    insert.then = (_resolve: unknown, reject: (reason: unknown) => unknown) =>
+      Promise.reject(Object.assign(new Error('Failed query'), { cause: { code: '23505' } })).catch(reject);
+    mockDb.insert.mockReturnValueOnce(insert);
+    const res = mockResponse();
+
+    await handler(orgRequest({ method: 'POST', body: validBody }), res as unknown as VercelResponse);
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body).toEqual({ error: 'Template name already exists' });
+  });
+
+  it('stops at the template limit', async () => {
+    const { default: handler } = await import('../templates/index');
+    mockDb.select
+      .mockReturnValueOnce(queryResult([]))
+      .mockReturnValueOnce(queryResult([{ total: 50 }]));
+    const res = mockResponse();
+
+    await handler(orgRequest({ method: 'POST', body: validBody }), res as unknown as VercelResponse);
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toEqual({ error: 'Template limit reached' });
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [{ children: 'x' }, 'Section children must be a list of sections'],
+    [{ children: [null] }, 'Section children must be a list of sections'],
+    [{ visualizationSlots: {} }, 'Section "summary" visualizationSlots must be a list of slots'],
+    [{ visualizationSlots: [null] }, 'Section "summary" visualizationSlots must be a list of slots'],
+    [{ required: 'yes' }, 'Section "summary" required must be true or false'],
+    [{ children: [{ ...SECTIONS[1], required: 1 }] }, 'Section "suppliers" required must be true or false'],
+  ])('rejects a malformed section %j with a 400', async (fields, error) => {
+    const { default: handler } = await import('../templates/index');
+    const res = mockResponse();
+
+    await handler(
+      orgRequest({ method: 'POST', body: { ...validBody, sections: [{ ...SECTIONS[0], ...fields }] } }),
+      res as unknown as VercelResponse
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toEqual({ error });
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
+
+  it('rejects sections nested past the depth limit before walking them', async () => {
+    const { default: handler } = await import('../templates/index');
+    const res = mockResponse();
+    const innermost = { ...SECTIONS[1], id: 'innermost' };
+    const inner = { ...SECTIONS[1], id: 'inner', children: [innermost] };
+
+    await handler(
+      orgRequest({ method: 'POST', body: { ...validBody, sections: [{ ...SECTIONS[0], children: [inner] }] } }),
+      res as unknown as VercelResponse
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toEqual({ error: 'Sections can be nested at most 2 levels deep' });
+  });
+});
+
+describe('PATCH /api/reports/templates/[id]', () => {
+  it('keeps the fields the request leaves out', async () => {
+    const { default: handler } = await import('../templates/[id]');
+    mockDb.select
+      .mockReturnValueOnce(queryResult([makeRow()]))
+      .mockReturnValueOnce(queryResult([]));
+    const update = queryResult([makeRow({ minTotalCitations: 8 })]);
+    mockDb.update.mockReturnValueOnce(update);
+    const res = mockResponse();
+
+    await handler(
+      orgRequest({ method: 'PATCH', query: { id: TEMPLATE_ID }, body: { minTotalCitations: 8 } }),
+      res as unknown as VercelResponse
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(update.set.mock.calls[0][0]).toMatchObject({ name: 'Packaging review', sections: SECTIONS, minTotalCitations: 8 });
+  });
+});
+
+describe('custom studies', () => {
+  it('offers the company templates as an intake question', async () => {
+    mockDb.select.mockReturnValueOnce(queryResult([makeRow()]));
+
+    const question = await getTemplateIntakeQuestion('company-1');
+
+    expect(question).toMatchObject({
+      id: 'reportTemplateId',
+      type: 'select',
+      defaultValue: 'default',
+      options: [{ value: 'default' }, { label: 'Packaging review', value: TEMPLATE_ID }],
+    });
+  });
+
+  it('asks nothing when the company has no templates', async () => {
+    mockDb.select.mockReturnValueOnce(queryResult([]));
+
+    expect(await getTemplateIntakeQuestion('company-1')).toBeNull();
+  });
+
+  it('loads the template a custom job picked', async () => {
+    mockDb.select.mockReturnValueOnce(queryResult([makeRow()]));
+
+    const template = await resolveJobTemplate({
+      studyType: 'custom',
+      companyId: 'company-1',
+      intakeAnswers: { reportTemplateId: TEMPLATE_ID },
+    });
+
+    expect(template).toMatchObject({ id: TEMPLATE_ID, sections: SECTIONS });
+  });
+
+  it('uses the standard template for other studies and the default answer', async () => {
+    expect(await resolveJobTemplate({
+      studyType: 'market_analysis',
+      companyId: 'company-1',
+      intakeAnswers: { reportTemplateId: TEMPLATE_ID },
+    })).toBeNull();
+    expect(await resolveJobTemplate({
+      studyType: 'custom',
+      companyId: 'company-1',
+      intakeAnswers: { reportTemplateId: 'default' },
+    })).toBeNull();
+    expect(mockDb.select).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,39 @@
+// GET /api/reports - The report library: latest version of each saved research report,
+// filtered by ?studyType=, ?category=, ?from=, ?to= and ?search=
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../_middleware/auth.js';
+import { listLibraryReports, parseLibraryFilters } from '../_middleware/reports.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const result = parseLibraryFilters(req.query);
+  if ('error' in result) {
+    return res.status(400).json({ error: result.error });
+  }
+
+  try {
+    const reports = await listLibraryReports(req.auth.user!.id, result.filters);
+    return res.status(200).json({ reports });
+  } catch (error) {
+    console.error('Report library error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
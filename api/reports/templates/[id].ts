@@ -0,0 +1,93 @@
+// GET /api/reports/templates/[id] - One of the company's report templates
+// PATCH /api/reports/templates/[id] - Edit a template; fields left out keep their values
+// DELETE /api/reports/templates/[id] - Delete a template
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  deleteReportTemplate,
+  getReportTemplate,
+  updateReportTemplate,
+  validateReportTemplateInput,
+} from '../../_middleware/reportTemplates.js';
+import { withOrg, withOrgRole, type OrgRequest } from '../../_middleware/organization.js';
+import { UUID_PATTERN } from '../../_middleware/watchlists.js';
+
+async function handler(req: OrgRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PATCH, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+    return res.status(400).json({ error: 'A valid template ID is required' });
+  }
+
+  const companyId = req.org.company.id;
+
+  try {
+    if (req.method === 'GET') {
+      const template = await getReportTemplate(companyId, id);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      return res.status(200).json({ template });
+    }
+
+    if (req.method === 'PATCH') {
+      const existing = await getReportTemplate(companyId, id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+
+      const result = validateReportTemplateInput({
+        name: existing.name,
+        description: existing.description,
+        sections: existing.sections,
+        minTotalCitations: existing.minTotalCitations,
+        requiredSourceTypes: existing.requiredSourceTypes,
+        ...(req.body && typeof req.body === 'object' ? req.body : {}),
+      });
+      if ('error' in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      const template = await updateReportTemplate(companyId, id, result.template);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      return res.status(200).json({ template });
+    }
+
+    if (req.method === 'DELETE') {
+      const deleted = await deleteReportTemplate(companyId, id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('Report template error:', error);
+
+    if (error instanceof Error && error.message === 'Template name already exists') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Everyone in the company can read templates; only admins can change them
+export default async function (req: VercelRequest, res: VercelResponse) {
+  if (req.method === 'PATCH' || req.method === 'DELETE') {
+    return withOrgRole(['admin', 'owner'], handler)(req, res);
+  }
+  return withOrg(handler)(req, res);
+}
@@ -0,0 +1,63 @@
+// GET /api/reports/templates - The company's report templates
+// POST /api/reports/templates - Save a new report template (admins and owners)
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  createReportTemplate,
+  listReportTemplates,
+  validateReportTemplateInput,
+} from '../../_middleware/reportTemplates.js';
+import { withOrg, withOrgRole, type OrgRequest } from '../../_middleware/organization.js';
+
+async function handler(req: OrgRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const companyId = req.org.company.id;
+
+  try {
+    if (req.method === 'GET') {
+      const templates = await listReportTemplates(companyId);
+      return res.status(200).json({ templates, total: templates.length });
+    }
+
+    if (req.method === 'POST') {
+      const result = validateReportTemplateInput(req.body);
+      if ('error' in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      const template = await createReportTemplate(companyId, req.auth.user!.id, result.template);
+      return res.status(201).json({ template });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('Report templates error:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Template name already exists') {
+        return res.status(409).json({ error: error.message });
+      }
+      if (error.message === 'Template limit reached') {
+        return res.status(400).json({ error: error.message });
+      }
+    }
+
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Everyone in the company can pick a template; only admins can change them
+export default async function (req: VercelRequest, res: VercelResponse) {
+  if (req.method === 'POST') {
+    return withOrgRole(['admin', 'owner'], handler)(req, res);
+  }
+  return withOrg(handler)(req, res);
+}
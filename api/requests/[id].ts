@@ -1,4 +1,4 @@
-// GET /api/requests/[id] - Get single request with events
+// GET /api/requests/[id] - Get single request with events and approval chain
 import type { VercelResponse } from '@vercel/node';
 import { getRequestWithEvents } from '../_middleware/approvals.js';
 import { withAuth, type AuthRequest } from '../_middleware/auth.js';
@@ -35,11 +35,12 @@ async function handler(req: AuthRequest, res: VercelResponse) {
 
     // Note: Access check can be added here to restrict viewing
     // For demo mode, any authenticated user can view any request
-    const { request, events } = result;
+    const { request, events, steps } = result;
 
     return res.status(200).json({
       request,
       events,
+      steps,
     });
   } catch (error) {
     console.error('Error fetching request:', error);
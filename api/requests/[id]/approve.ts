@@ -4,7 +4,7 @@ import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { neon } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-http';
 import { eq } from 'drizzle-orm';
-import { approveRequest } from '../../_middleware/approvals.js';
+import { approveRequest, getApprovalSteps, isFinalStep } from '../../_middleware/approvals.js';
 import { withOrgRole, type OrgRequest } from '../../_middleware/organization.js';
 import { approvalRequests } from '../../../src/db/schema.js';
 
@@ -52,7 +52,9 @@ async function handler(req: OrgRequest, res: VercelResponse) {
   // Check if role has approval limits
   const approvalLimit = APPROVAL_LIMITS[userRole];
 
-  if (approvalLimit !== null) {
+  // Limits only apply to the sign-off that releases the credits;
+  // intermediate steps of an approval chain hand over to a higher role
+  if (approvalLimit !== null && isFinalStep(await getApprovalSteps(requestId))) {
     // Fetch request to check credit amount
     const db = getDb();
     const [request] = await db
@@ -95,6 +97,9 @@ async function handler(req: OrgRequest, res: VercelResponse) {
       if (error.message.includes('Cannot approve')) {
         return res.status(400).json({ error: error.message });
       }
+      if (error.message.startsWith('Not authorized')) {
+        return res.status(403).json({ error: error.message });
+      }
     }
 
     return res.status(500).json({
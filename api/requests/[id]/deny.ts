@@ -57,6 +57,9 @@ async function handler(req: AuthRequest, res: VercelResponse) {
       if (error.message.includes('Cannot deny')) {
         return res.status(400).json({ error: error.message });
       }
+      if (error.message.startsWith('Not authorized')) {
+        return res.status(403).json({ error: error.message });
+      }
     }
 
     return res.status(500).json({
@@ -1,13 +1,18 @@
 // POST /api/requests/[id]/fulfill - Mark an approved request as fulfilled
+// Requires approver or admin role in the request's company
 import type { VercelResponse } from '@vercel/node';
 import { fulfillRequest } from '../../_middleware/approvals.js';
-import { withAuth, type AuthRequest } from '../../_middleware/auth.js';
+import { validateAssessmentResult } from '../../_middleware/assessments.js';
+import { withOrgRole, type OrgRequest } from '../../_middleware/organization.js';
+import type { SupplierAssessmentResult } from '../../../src/types/assessments.js';
 
 interface FulfillRequestBody {
   actualCredits?: number;
+  // Required for supplier_assessment requests
+  assessment?: unknown;
 }
 
-async function handler(req: AuthRequest, res: VercelResponse) {
+async function handler(req: OrgRequest, res: VercelResponse) {
   // CORS headers
   res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
@@ -27,11 +32,7 @@ async function handler(req: AuthRequest, res: VercelResponse) {
     return res.status(400).json({ error: 'Request ID is required' });
   }
 
-  // Get user ID from session (demo mode will have logged in user)
-  const userId = req.auth.user?.id;
-  if (!userId) {
-    return res.status(401).json({ error: 'Authentication required' });
-  }
+  const userId = req.auth.user!.id;
 
   const body = req.body as FulfillRequestBody;
 
@@ -42,8 +43,20 @@ async function handler(req: AuthRequest, res: VercelResponse) {
     }
   }
 
+  let assessment: SupplierAssessmentResult | undefined;
+  if (body.assessment !== undefined) {
+    const validation = validateAssessmentResult(body.assessment);
+    if ('error' in validation) {
+      return res.status(400).json({ error: validation.error });
+    }
+    assessment = validation.result;
+  }
+
   try {
-    const result = await fulfillRequest(requestId, userId, body.actualCredits);
+    const result = await fulfillRequest(requestId, userId, body.actualCredits, assessment, {
+      companyId: req.org.company.id,
+      role: req.org.userRole,
+    });
 
     return res.status(200).json({
       request: result,
@@ -56,7 +69,10 @@ async function handler(req: AuthRequest, res: VercelResponse) {
       if (error.message.includes('not found')) {
         return res.status(404).json({ error: 'Request not found' });
       }
-      if (error.message.includes('Cannot fulfill')) {
+      if (error.message.startsWith('Not authorized')) {
+        return res.status(403).json({ error: error.message });
+      }
+      if (error.message.includes('Cannot fulfill') || error.message.includes('Assessment result is required')) {
         return res.status(400).json({ error: error.message });
       }
     }
@@ -68,4 +84,5 @@ async function handler(req: AuthRequest, res: VercelResponse) {
   }
 }
 
-export default withAuth(handler);
+// Members can't fulfill; supplier assessments further need admin (checked in fulfillRequest)
+export default withOrgRole(['approver', 'admin', 'owner'], handler);
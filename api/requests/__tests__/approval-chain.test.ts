@@ -0,0 +1,191 @@
+// Tests for Approval Chains - rule selection and step planning
+// These tests cover the pure routing helpers and do NOT touch the database.
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@neondatabase/serverless', () => ({
+  neon: vi.fn(() => vi.fn()),
+  Pool: vi.fn(),
+}));
+
+import {
+  selectApprovalRule,
+  buildApprovalChain,
+  isFinalStep,
+  validateApprovalRuleInput,
+  type RoutingRule,
+} from '../../_middleware/approvals';
+import type { ApprovalStep } from '../../../src/db/schema';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+function rule(overrides: Partial<RoutingRule> = {}): RoutingRule {
+  return {
+    id: 'rule-1',
+    minCredits: 0,
+    maxCredits: null,
+    requestType: null,
+    teamId: null,
+    category: null,
+    approverRole: 'approver',
+    escalationHours: 24,
+    steps: null,
+    priority: 0,
+    ...overrides,
+  };
+}
+
+function step(stepOrder: number, status: ApprovalStep['status']): ApprovalStep {
+  return {
+    id: `step-${stepOrder}`,
+    requestId: 'req-1',
+    ruleId: 'rule-1',
+    stepOrder,
+    approverRole: 'approver',
+    status,
+    approverId: null,
+    escalationHours: null,
+    decidedBy: null,
+    decisionReason: null,
+    createdAt: new Date(),
+    activatedAt: null,
+    decidedAt: null,
+  };
+}
+
+const routing = {
+  requestType: 'analyst_call' as const,
+  teamId: 'team-1',
+  category: 'Packaging',
+  estimatedCredits: 1000,
+};
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Rule Selection
+// ══════════════════════════════════════════════════════════════════
+
+describe('selectApprovalRule', () => {
+  it('matches credit bands inclusively', () => {
+    const rules = [rule({ id: 'low', maxCredits: 999 }), rule({ id: 'mid', minCredits: 1000, maxCredits: 1000 })];
+    expect(selectApprovalRule(rules, routing)?.id).toBe('mid');
+  });
+
+  it('treats null filters as wildcards and skips non-matching filters', () => {
+    const rules = [
+      rule({ id: 'other-team', teamId: 'team-2' }),
+      rule({ id: 'other-type', requestType: 'bespoke_project' }),
+      rule({ id: 'any', priority: 5 }),
+    ];
+    expect(selectApprovalRule(rules, routing)?.id).toBe('any');
+  });
+
+  it('matches category case-insensitively', () => {
+    const rules = [rule({ id: 'packaging', category: 'packaging' })];
+    expect(selectApprovalRule(rules, routing)?.id).toBe('packaging');
+    expect(selectApprovalRule(rules, { ...routing, category: undefined })).toBeNull();
+  });
+
+  it('prefers lower priority, then the more specific rule', () => {
+    const rules = [
+      rule({ id: 'generic' }),
+      rule({ id: 'team', teamId: 'team-1' }),
+      rule({ id: 'team-type', teamId: 'team-1', requestType: 'analyst_call' }),
+      rule({ id: 'late', teamId: 'team-1', requestType: 'analyst_call', category: 'packaging', priority: 1 }),
+    ];
+    expect(selectApprovalRule(rules, routing)?.id).toBe('team-type');
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(selectApprovalRule([rule({ minCredits: 5000 })], routing)).toBeNull();
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Chain Planning
+// ══════════════════════════════════════════════════════════════════
+
+describe('buildApprovalChain', () => {
+  it('auto-approves auto rules', () => {
+    const chain = buildApprovalChain(rule({ approverRole: 'auto' }), 100);
+    expect(chain).toEqual({ ruleId: 'rule-1', autoApproved: true, steps: [] });
+  });
+
+  it('builds a single step from approverRole when no steps are defined', () => {
+    const chain = buildApprovalChain(rule({ approverRole: 'admin', escalationHours: 48 }), 100);
+    expect(chain.steps).toEqual([{ approverRole: 'admin', escalationHours: 48 }]);
+    expect(chain.autoApproved).toBe(false);
+  });
+
+  it('drops steps below their credit threshold', () => {
+    const chain = buildApprovalChain(
+      rule({
+        steps: [
+          { approverRole: 'approver', escalationHours: 24 },
+          { approverRole: 'admin', escalationHours: 48, minCredits: 2000 },
+          { approverRole: 'owner', minCredits: 10000 },
+        ],
+      }),
+      5000
+    );
+    expect(chain.steps.map((s) => s.approverRole)).toEqual(['approver', 'admin']);
+    expect(chain.steps[1].escalationHours).toBe(48);
+  });
+
+  it('collapses consecutive steps for the same role', () => {
+    const chain = buildApprovalChain(
+      rule({
+        steps: [
+          { approverRole: 'admin' },
+          { approverRole: 'approver', minCredits: 99999 },
+          { approverRole: 'admin' },
+        ],
+      }),
+      100
+    );
+    expect(chain.steps).toEqual([{ approverRole: 'admin', escalationHours: null }]);
+  });
+
+  it('auto-approves when every step is gated out', () => {
+    const chain = buildApprovalChain(rule({ steps: [{ approverRole: 'owner', minCredits: 5000 }] }), 100);
+    expect(chain.autoApproved).toBe(true);
+  });
+});
+
+describe('isFinalStep', () => {
+  it('is true for single-step or legacy requests', () => {
+    expect(isFinalStep([])).toBe(true);
+    expect(isFinalStep([step(0, 'active')])).toBe(true);
+  });
+
+  it('is false while later steps are waiting', () => {
+    expect(isFinalStep([step(0, 'active'), step(1, 'waiting')])).toBe(false);
+    expect(isFinalStep([step(0, 'approved'), step(1, 'active')])).toBe(true);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Rule Validation
+// ══════════════════════════════════════════════════════════════════
+
+describe('validateApprovalRuleInput', () => {
+  it('applies defaults for optional fields', () => {
+    const result = validateApprovalRuleInput({ minCredits: 0, approverRole: 'approver' });
+    expect(result.valid).toBe(true);
+    expect(result.rule).toMatchObject({ maxCredits: null, steps: null, priority: 0, isActive: true });
+  });
+
+  it('rejects inverted credit bands', () => {
+    const result = validateApprovalRuleInput({ minCredits: 500, maxCredits: 100, approverRole: 'admin' });
+    expect(result.valid).toBe(false);
+  });
+
+  it('rejects auto steps and steps on auto rules', () => {
+    expect(
+      validateApprovalRuleInput({ minCredits: 0, approverRole: 'admin', steps: [{ approverRole: 'auto' }] }).error
+    ).toContain('steps[0].approverRole');
+    expect(
+      validateApprovalRuleInput({ minCredits: 0, approverRole: 'auto', steps: [{ approverRole: 'admin' }] }).valid
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,306 @@
+// Tests for the approval workflow middleware - who may approve and fulfill a request
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import type { ApprovalRequest, ApprovalStep } from '../../../src/db/schema';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+const mockDb = vi.hoisted(() => ({
+  select: vi.fn(),
+  insert: vi.fn(),
+  update: vi.fn(),
+  execute: vi.fn(),
+}));
+
+vi.mock('@neondatabase/serverless', () => ({
+  neon: vi.fn(() => vi.fn()),
+  Pool: vi.fn(),
+}));
+
+vi.mock('drizzle-orm/neon-http', () => ({
+  drizzle: vi.fn(() => mockDb),
+}));
+
+vi.mock('../../_middleware/credits', () => ({
+  withTransaction: vi.fn((fn: (tx: typeof mockDb) => unknown) => fn(mockDb)),
+  getPoolDb: vi.fn(() => mockDb),
+  createHold: vi.fn(),
+  releaseHold: vi.fn(),
+  convertHold: vi.fn(),
+  directSpend: vi.fn(),
+  getAccountForUser: vi.fn(),
+}));
+
+vi.mock('../../_middleware/notifications', () => ({
+  notifyUser: vi.fn(),
+}));
+
+vi.mock('../../_middleware/assessments', () => ({
+  recordSupplierAssessment: vi.fn(async () => ({ supplierId: 'supplier-1', score: 35 })),
+}));
+
+import { approveRequest, canUserApprove, fulfillRequest, getApprovalQueue, getRequests, submitRequest } from '../../_middleware/approvals';
+import { recordSupplierAssessment } from '../../_middleware/assessments';
+import { createHold } from '../../_middleware/credits';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+function queryResult(rows: unknown[]) {
+  const chain: Record<string, Mock> & { then?: unknown } = {};
+  for (const method of ['from', 'where', 'innerJoin', 'leftJoin', 'orderBy', 'limit', 'offset', 'for', 'values', 'set', 'returning']) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.then = (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+    Promise.resolve(rows).then(resolve, reject);
+  return chain;
+}
+
+function makeRequest(overrides: Partial<ApprovalRequest> = {}): ApprovalRequest {
+  return {
+    id: 'req-1',
+    companyId: 'company-1',
+    teamId: 'team-1',
+    requesterId: 'requester-1',
+    requestType: 'supplier_assessment',
+    title: 'Assess Acme Metals',
+    status: 'approved',
+    approvalLevel: 'approver',
+    currentApproverId: null,
+    estimatedCredits: 1000,
+    ...overrides,
+  } as ApprovalRequest;
+}
+
+function makeStep(stepOrder: number, overrides: Partial<ApprovalStep> = {}): ApprovalStep {
+  return {
+    id: `step-${stepOrder}`,
+    requestId: 'req-1',
+    ruleId: 'rule-1',
+    stepOrder,
+    approverRole: 'approver',
+    status: 'waiting',
+    approverId: null,
+    escalationHours: null,
+    decidedBy: null,
+    decisionReason: null,
+    createdAt: new Date(),
+    activatedAt: null,
+    decidedAt: null,
+    ...overrides,
+  };
+}
+
+// Render a where clause to its SQL text
+function whereSql(query: Record<string, Mock>): string {
+  return new PgDialect().sqlToQuery(query.where.mock.calls[0][0] as SQL).sql;
+}
+
+const assessment = { score: 35, changeReason: 'New financials filed' };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockDb.insert.mockReturnValue(queryResult([{ id: 'event-1' }]));
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Submission
+// ══════════════════════════════════════════════════════════════════
+
+describe('submitRequest', () => {
+  it('refuses a request no one but the requester could sign', async () => {
+    // No company rules, and no admin or owner besides the requester
+    mockDb.select.mockReturnValue(queryResult([]));
+
+    await expect(submitRequest({
+      companyId: 'company-1',
+      teamId: 'team-1',
+      requesterId: 'requester-1',
+      requestType: 'analyst_call',
+      title: 'Call with an analyst',
+      estimatedCredits: 5000,
+    })).rejects.toThrow('Cannot submit: no one else in the company can sign the admin step');
+
+    expect(mockDb.insert).not.toHaveBeenCalled();
+    expect(createHold).not.toHaveBeenCalled();
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Fulfillment
+// ══════════════════════════════════════════════════════════════════
+
+describe('fulfillRequest', () => {
+  it('lets a company admin record the assessment', async () => {
+    mockDb.select.mockReturnValueOnce(queryResult([makeRequest()]));
+    mockDb.update.mockReturnValueOnce(queryResult([makeRequest({ status: 'fulfilled' })]));
+
+    const result = await fulfillRequest('req-1', 'admin-1', undefined, assessment, { companyId: 'company-1', role: 'admin' });
+
+    expect(result.status).toBe('fulfilled');
+    expect(recordSupplierAssessment).toHaveBeenCalled();
+  });
+
+  it('hides requests from other companies', async () => {
+    mockDb.select.mockReturnValueOnce(queryResult([makeRequest()]));
+
+    await expect(
+      fulfillRequest('req-1', 'admin-2', undefined, assessment, { companyId: 'company-2', role: 'admin' })
+    ).rejects.toThrow('Request not found');
+    expect(recordSupplierAssessment).not.toHaveBeenCalled();
+  });
+
+  it('stops requesters fulfilling their own request', async () => {
+    mockDb.select.mockReturnValueOnce(queryResult([makeRequest()]));
+
+    await expect(
+      fulfillRequest('req-1', 'requester-1', undefined, assessment, { companyId: 'company-1', role: 'owner' })
+    ).rejects.toThrow('Not authorized to fulfill your own request');
+    expect(recordSupplierAssessment).not.toHaveBeenCalled();
+  });
+
+  it('leaves supplier assessment scores to admins', async () => {
+    mockDb.select.mockReturnValueOnce(queryResult([makeRequest()]));
+
+    await expect(
+      fulfillRequest('req-1', 'approver-1', undefined, assessment, { companyId: 'company-1', role: 'approver' })
+    ).rejects.toThrow('Not authorized to record supplier assessments');
+    expect(recordSupplierAssessment).not.toHaveBeenCalled();
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Approval chains
+// ══════════════════════════════════════════════════════════════════
+
+describe('approveRequest', () => {
+  const pending = (currentApproverId: string) =>
+    makeRequest({ requestType: 'analyst_call', status: 'pending', currentApproverId });
+
+  it('walks a two-step chain with a different signer for each step', async () => {
+    // Step 1: the assigned approver signs and the admin step is activated
+    mockDb.select
+      .mockReturnValueOnce(queryResult([pending('approver-1')]))
+      .mockReturnValueOnce(queryResult([]))  // No delegations to approver-1
+      .mockReturnValueOnce(queryResult([
+        makeStep(0, { status: 'active', approverId: 'approver-1' }),
+        makeStep(1, { approverRole: 'admin' }),
+      ]))
+      .mockReturnValueOnce(queryResult([{ userId: 'admin-1' }]))
+      .mockReturnValueOnce(queryResult([]));  // admin-1 isn't away
+    const requestUpdate = queryResult([{ ...pending('admin-1'), approvalLevel: 'admin' }]);
+    mockDb.update
+      .mockReturnValueOnce(queryResult([]))
+      .mockReturnValueOnce(queryResult([]))
+      .mockReturnValueOnce(requestUpdate);
+
+    const afterFirst = await approveRequest('req-1', 'approver-1');
+
+    expect(afterFirst).toMatchObject({ status: 'pending', currentApproverId: 'admin-1' });
+    expect(requestUpdate.set.mock.calls[0][0]).toMatchObject({ approvalLevel: 'admin', currentApproverId: 'admin-1' });
+
+    // Step 2: the admin's sign-off approves the request
+    mockDb.select
+      .mockReturnValueOnce(queryResult([pending('admin-1')]))
+      .mockReturnValueOnce(queryResult([]))
+      .mockReturnValueOnce(queryResult([
+        makeStep(0, { status: 'approved', decidedBy: 'approver-1' }),
+        makeStep(1, { approverRole: 'admin', status: 'active', approverId: 'admin-1' }),
+      ]));
+    mockDb.update
+      .mockReturnValueOnce(queryResult([]))
+      .mockReturnValueOnce(queryResult([{ ...pending('admin-1'), status: 'approved' }]));
+    mockDb.execute.mockResolvedValueOnce({ rows: [] });
+
+    const afterSecond = await approveRequest('req-1', 'admin-1');
+
+    expect(afterSecond.status).toBe('approved');
+  });
+
+  it('rejects anyone but the active step approver', async () => {
+    mockDb.select
+      .mockReturnValueOnce(queryResult([pending('admin-1')]))
+      .mockReturnValueOnce(queryResult([]));
+
+    await expect(approveRequest('req-1', 'approver-1')).rejects.toThrow('Not authorized to approve this request');
+    expect(mockDb.update).not.toHaveBeenCalled();
+  });
+
+  it('stops an earlier signer covering the next approver from signing again', async () => {
+    mockDb.select
+      .mockReturnValueOnce(queryResult([pending('admin-1')]))
+      .mockReturnValueOnce(queryResult([{ delegatorId: 'admin-1' }]))  // approver-1 covers admin-1
+      .mockReturnValueOnce(queryResult([{ delegatorId: 'admin-1' }]))
+      .mockReturnValueOnce(queryResult([{ email: 'admin@example.com', displayName: 'Admin' }]))
+      .mockReturnValueOnce(queryResult([
+        makeStep(0, { status: 'approved', decidedBy: 'approver-1' }),
+        makeStep(1, { approverRole: 'admin', status: 'active', approverId: 'admin-1' }),
+      ]));
+
+    await expect(approveRequest('req-1', 'approver-1'))
+      .rejects.toThrow('Not authorized to sign more than one step of this request');
+    expect(mockDb.update).not.toHaveBeenCalled();
+  });
+
+  it('keeps the step open when no one is left to sign the next one', async () => {
+    mockDb.select
+      .mockReturnValueOnce(queryResult([pending('approver-1')]))
+      .mockReturnValueOnce(queryResult([]))
+      .mockReturnValueOnce(queryResult([
+        makeStep(0, { status: 'active', approverId: 'approver-1' }),
+        makeStep(1, { approverRole: 'admin' }),
+      ]))
+      .mockReturnValueOnce(queryResult([]))  // No admin in the team
+      .mockReturnValueOnce(queryResult([])); // Nor in the company
+    mockDb.update.mockReturnValue(queryResult([]));
+
+    await expect(approveRequest('req-1', 'approver-1'))
+      .rejects.toThrow('Cannot approve: no one else in the company can sign the admin step');
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS - Delegated queues
+// ══════════════════════════════════════════════════════════════════
+
+describe('delegated approvals', () => {
+  it('leaves the delegate\'s own requests out of their queue', async () => {
+    const queue = queryResult([]);
+    mockDb.select
+      .mockReturnValueOnce(queryResult([{ delegatorId: 'admin-1' }]))
+      .mockReturnValueOnce(queue);
+
+    await getApprovalQueue('approver-1');
+
+    expect(whereSql(queue)).toContain('"requester_id" <> $');
+  });
+
+  it('does not let a delegate approve their own request', async () => {
+    const lookup = queryResult([]);
+    mockDb.select
+      .mockReturnValueOnce(queryResult([{ delegatorId: 'admin-1' }]))
+      .mockReturnValueOnce(lookup);
+
+    expect(await canUserApprove('requester-1', 'req-1')).toBe(false);
+    expect(whereSql(lookup)).toContain('"requester_id" <> $');
+  });
+
+  it('lists only pending delegated requests, never the delegate\'s own, as approvals', async () => {
+    const list = queryResult([]);
+    mockDb.select
+      .mockReturnValueOnce(queryResult([{ delegatorId: 'admin-1' }]))
+      .mockReturnValueOnce(list)
+      .mockReturnValueOnce(queryResult([{ count: 0 }]));
+
+    await getRequests({ userId: 'approver-1', role: 'approver' });
+
+    const where = whereSql(list);
+    expect(where).toContain('"requester_id" <> $');
+    expect(where).toMatch(/"current_approver_id" in \(\$\d+\) and "approval_requests"\."status" = \$/);
+  });
+});
@@ -0,0 +1,268 @@
+// Tests for supplier assessment requests - validation, submission and fulfillment
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthRequest } from '../../_middleware/auth';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+vi.mock('@neondatabase/serverless', () => ({
+  neon: vi.fn(() => vi.fn()),
+}));
+
+vi.mock('drizzle-orm/neon-http', () => ({
+  drizzle: vi.fn(() => ({})),
+}));
+
+vi.mock('../../_middleware/auth', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/auth')>();
+  return {
+    ...original,
+    withAuth: (handler: unknown) => handler,
+  };
+});
+
+vi.mock('../../_middleware/organization', () => ({
+  withOrgRole: (_roles: unknown, handler: unknown) => handler,
+}));
+
+vi.mock('../../_middleware/approvals', () => ({
+  submitRequest: vi.fn(),
+  getRequests: vi.fn(),
+  fulfillRequest: vi.fn(),
+}));
+
+vi.mock('../../_middleware/assessments', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/assessments')>();
+  return {
+    ...original,
+    prepareAssessmentRequest: vi.fn(),
+  };
+});
+
+import { submitRequest, fulfillRequest } from '../../_middleware/approvals';
+import { prepareAssessmentRequest, validateAssessmentResult } from '../../_middleware/assessments';
+import { getAssessmentEligibility, SUPPLIER_ASSESSMENT_CREDITS } from '../../../src/types/assessments';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+function createMockResponse(): VercelResponse {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as VercelResponse;
+}
+
+function createMockRequest(
+  method: string,
+  body: Record<string, unknown> = {},
+  query: Record<string, string> = {}
+): AuthRequest {
+  return {
+    method,
+    query,
+    body,
+    headers: {},
+    auth: {
+      isAuthenticated: true,
+      user: { id: 'user-1', email: 'a@example.com' },
+    },
+    org: { company: { id: 'company-1' }, userRole: 'admin' },
+  } as unknown as AuthRequest;
+}
+
+const preparedContext = {
+  supplierId: '11111111-1111-4111-8111-111111111111',
+  supplierName: 'Acme Metals',
+  previousScore: null,
+  previousLevel: 'unrated' as const,
+  lastAssessedAt: null,
+  eligibility: 'unrated' as const,
+};
+
+const assessmentBody = {
+  companyId: 'company-1',
+  teamId: 'team-1',
+  requestType: 'supplier_assessment',
+  context: { supplierName: 'Acme Metals' },
+};
+
+// ══════════════════════════════════════════════════════════════════
+// ELIGIBILITY & VALIDATION
+// ══════════════════════════════════════════════════════════════════
+
+describe('getAssessmentEligibility', () => {
+  const now = new Date('2026-06-01T00:00:00Z');
+
+  it('treats unrated suppliers and missing dates as unrated', () => {
+    expect(getAssessmentEligibility('unrated', '2026-05-30T00:00:00Z', now)).toBe('unrated');
+    expect(getAssessmentEligibility('high', null, now)).toBe('unrated');
+  });
+
+  it('flags scores older than the staleness window', () => {
+    expect(getAssessmentEligibility('medium', '2026-01-01T00:00:00Z', now)).toBe('stale');
+    expect(getAssessmentEligibility('medium', '2026-05-01T00:00:00Z', now)).toBe('current');
+  });
+});
+
+describe('validateAssessmentResult', () => {
+  it('accepts an integer score with a reason', () => {
+    expect(validateAssessmentResult({ score: 62, changeReason: '  Site audit completed ' })).toEqual({
+      result: { score: 62, changeReason: 'Site audit completed' },
+    });
+  });
+
+  it('rejects missing, fractional and out-of-range scores', () => {
+    expect(validateAssessmentResult(undefined)).toHaveProperty('error');
+    expect(validateAssessmentResult({ score: 62.5, changeReason: 'x' })).toHaveProperty('error');
+    expect(validateAssessmentResult({ score: 101, changeReason: 'x' })).toHaveProperty('error');
+  });
+
+  it('requires a change reason', () => {
+    expect(validateAssessmentResult({ score: 40, changeReason: '   ' })).toEqual({
+      error: 'assessment.changeReason is required',
+    });
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// POST /api/requests
+// ══════════════════════════════════════════════════════════════════
+
+describe('POST /api/requests - supplier_assessment', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('prices and titles the request from the resolved supplier', async () => {
+    (prepareAssessmentRequest as Mock).mockResolvedValue({
+      title: 'Risk assessment: Acme Metals',
+      context: preparedContext,
+    });
+    (submitRequest as Mock).mockResolvedValue({ requestId: 'req-1', status: 'pending' });
+    const { default: handler } = await import('../index');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', { ...assessmentBody, estimatedCredits: 1 }), res);
+
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(prepareAssessmentRequest).toHaveBeenCalledWith('company-1', { supplierName: 'Acme Metals' });
+    expect(submitRequest).toHaveBeenCalledWith(expect.objectContaining({
+      requestType: 'supplier_assessment',
+      title: 'Risk assessment: Acme Metals',
+      context: preparedContext,
+      estimatedCredits: SUPPLIER_ASSESSMENT_CREDITS,
+    }));
+  });
+
+  it('requires a supplier in the context', async () => {
+    const { default: handler } = await import('../index');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', { ...assessmentBody, context: {} }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(submitRequest).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for an unknown supplier', async () => {
+    (prepareAssessmentRequest as Mock).mockRejectedValue(new Error('Supplier not found'));
+    const { default: handler } = await import('../index');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', assessmentBody), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  it('returns 409 when an assessment is already open', async () => {
+    (prepareAssessmentRequest as Mock).mockRejectedValue(
+      new Error('An assessment for this supplier is already in progress')
+    );
+    const { default: handler } = await import('../index');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', assessmentBody), res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(submitRequest).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for a recently assessed supplier', async () => {
+    (prepareAssessmentRequest as Mock).mockRejectedValue(new Error('Supplier was assessed recently'));
+    const { default: handler } = await import('../index');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', assessmentBody), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// POST /api/requests/[id]/fulfill
+// ══════════════════════════════════════════════════════════════════
+
+describe('POST /api/requests/[id]/fulfill - supplier_assessment', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('passes the validated assessment through', async () => {
+    (fulfillRequest as Mock).mockResolvedValue({ id: 'req-1', status: 'fulfilled' });
+    const { default: handler } = await import('../[id]/fulfill');
+    const res = createMockResponse();
+
+    await handler(
+      createMockRequest('POST', { assessment: { score: 35, changeReason: 'New financials filed' } }, { id: 'req-1' }),
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(fulfillRequest).toHaveBeenCalledWith('req-1', 'user-1', undefined, {
+      score: 35,
+      changeReason: 'New financials filed',
+    }, { companyId: 'company-1', role: 'admin' });
+  });
+
+  it('rejects an invalid assessment before fulfilling', async () => {
+    const { default: handler } = await import('../[id]/fulfill');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', { assessment: { score: 'high' } }, { id: 'req-1' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(fulfillRequest).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 when an assessment request is fulfilled without a score', async () => {
+    (fulfillRequest as Mock).mockRejectedValue(
+      new Error('Assessment result is required to fulfill a supplier assessment')
+    );
+    const { default: handler } = await import('../[id]/fulfill');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', {}, { id: 'req-1' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+
+  it('returns 403 when the caller may not record the assessment', async () => {
+    (fulfillRequest as Mock).mockRejectedValue(new Error('Not authorized to fulfill your own request'));
+    const { default: handler } = await import('../[id]/fulfill');
+    const res = createMockResponse();
+
+    await handler(
+      createMockRequest('POST', { assessment: { score: 35, changeReason: 'New financials filed' } }, { id: 'req-1' }),
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
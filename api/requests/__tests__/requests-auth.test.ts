@@ -61,7 +61,13 @@ vi.mock('../../_middleware/approvals', () => ({
   getApprovalQueue: vi.fn(() => Promise.resolve({ pending: [], totalPending: 0, nearingEscalation: [] })),
   canUserApprove: vi.fn(() => Promise.resolve(false)),
   canUserCancel: vi.fn(() => Promise.resolve(false)),
-  getApplicableRule: vi.fn(),
+  getApprovalChain: vi.fn(),
+  getApprovalSteps: vi.fn(() => Promise.resolve([])),
+  isFinalStep: vi.fn(() => true),
+  getDelegations: vi.fn(() => Promise.resolve({ outgoing: [], incoming: [] })),
+  getDelegationCandidates: vi.fn(() => Promise.resolve([])),
+  createDelegation: vi.fn(),
+  revokeDelegation: vi.fn(),
   processEscalations: vi.fn(() => Promise.resolve({ escalatedCount: 0, escalatedIds: [] })),
   processExpirations: vi.fn(() => Promise.resolve({ expiredCount: 0, expiredIds: [] })),
 }));
@@ -255,6 +261,48 @@ describe('Approval API - Authentication', () => {
       expect(res.status).toHaveBeenCalledWith(401);
     });
   });
+
+  describe('POST /api/requests/delegations', () => {
+    it('returns 401 for unauthenticated request (with valid CSRF)', async () => {
+      const { default: handler } = await import('../delegations/index');
+
+      const csrfToken = 'valid-csrf-token';
+      const req = createMockRequest({
+        method: 'POST',
+        headers: {
+          cookie: `abi_csrf=${csrfToken}`,
+          'x-csrf-token': csrfToken,
+        },
+        body: { delegateId: 'user-2', endsAt: '2030-01-01T00:00:00Z' },
+      });
+      const res = createMockResponse();
+
+      await handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+    });
+  });
+
+  describe('DELETE /api/requests/delegations/[id]', () => {
+    it('returns 401 for unauthenticated request (with valid CSRF)', async () => {
+      const { default: handler } = await import('../delegations/[id]');
+
+      const csrfToken = 'valid-csrf-token';
+      const req = createMockRequest({
+        method: 'DELETE',
+        query: { id: 'del-123' },
+        headers: {
+          cookie: `abi_csrf=${csrfToken}`,
+          'x-csrf-token': csrfToken,
+        },
+      });
+      const res = createMockResponse();
+
+      await handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+    });
+  });
 });
 
 // ══════════════════════════════════════════════════════════════════
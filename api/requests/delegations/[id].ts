@@ -0,0 +1,52 @@
+// DELETE /api/requests/delegations/[id] - Revoke a delegation (delegator only)
+import type { VercelResponse } from '@vercel/node';
+import { revokeDelegation } from '../../_middleware/approvals.js';
+import { withAuth, type AuthRequest } from '../../_middleware/auth.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const delegationId = req.query.id as string;
+  if (!delegationId) {
+    return res.status(400).json({ error: 'Delegation ID is required' });
+  }
+
+  const userId = req.auth.user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  try {
+    const delegation = await revokeDelegation(delegationId, userId);
+
+    return res.status(200).json({
+      delegation,
+      message: 'Delegation revoked',
+    });
+  } catch (error) {
+    console.error('Error revoking delegation:', error);
+
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: 'Delegation not found' });
+    }
+
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+export default withAuth(handler);
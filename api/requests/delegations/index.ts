@@ -0,0 +1,98 @@
+// GET /api/requests/delegations - List delegations given and received by current user
+// POST /api/requests/delegations - Delegate current user's approval queue for a date range
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  getDelegations,
+  getDelegationCandidates,
+  createDelegation,
+} from '../../_middleware/approvals.js';
+import { withOrg, withOrgRole, type OrgRequest } from '../../_middleware/organization.js';
+
+interface CreateDelegationBody {
+  delegateId: string;
+  startsAt?: string;
+  endsAt: string;
+  reason?: string;
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+async function handler(req: OrgRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const userId = req.auth.user!.id;
+
+  try {
+    if (req.method === 'GET') {
+      const [delegations, candidates] = await Promise.all([
+        getDelegations(userId),
+        getDelegationCandidates(req.org.company.id, userId),
+      ]);
+
+      return res.status(200).json({ ...delegations, candidates });
+    }
+
+    if (req.method === 'POST') {
+      const body = req.body as CreateDelegationBody;
+
+      if (!body.delegateId || typeof body.delegateId !== 'string') {
+        return res.status(400).json({ error: 'delegateId is required' });
+      }
+
+      const startsAt = body.startsAt === undefined ? new Date() : parseDate(body.startsAt);
+      const endsAt = parseDate(body.endsAt);
+      if (!startsAt || !endsAt) {
+        return res.status(400).json({ error: 'startsAt and endsAt must be valid ISO dates' });
+      }
+
+      const delegation = await createDelegation({
+        companyId: req.org.company.id,
+        delegatorId: userId,
+        delegateId: body.delegateId,
+        startsAt,
+        endsAt,
+        reason: typeof body.reason === 'string' ? body.reason.trim() || undefined : undefined,
+      });
+
+      return res.status(201).json({ delegation });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('Error handling delegations:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('Invalid delegation')) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error.message.includes('overlaps')) {
+        return res.status(409).json({ error: error.message });
+      }
+    }
+
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+// Anyone in the org can see delegations they received; only approvers can delegate
+export default async function (req: VercelRequest, res: VercelResponse) {
+  if (req.method === 'POST') {
+    return withOrgRole(['approver', 'admin', 'owner'], handler)(req, res);
+  }
+  return withOrg(handler)(req, res);
+}
@@ -4,8 +4,10 @@ import {
   submitRequest,
   getRequests,
 } from '../_middleware/approvals.js';
+import { prepareAssessmentRequest } from '../_middleware/assessments.js';
 import { withAuth, type AuthRequest } from '../_middleware/auth.js';
 import type { ApprovalRequestType, ApprovalRequestStatus, ApprovalRequestContext } from '../../src/db/schema.js';
+import { SUPPLIER_ASSESSMENT_CREDITS } from '../../src/types/assessments.js';
 
 const VALID_REQUEST_TYPES: ApprovalRequestType[] = [
   'report_upgrade',
@@ -14,6 +16,7 @@ const VALID_REQUEST_TYPES: ApprovalRequestType[] = [
   'expert_consult',
   'expert_deepdive',
   'bespoke_project',
+  'supplier_assessment',
 ];
 
 const VALID_STATUSES: ApprovalRequestStatus[] = [
@@ -99,6 +102,7 @@ async function handler(req: AuthRequest, res: VercelResponse) {
   // POST - Submit new request
   if (req.method === 'POST') {
     const body = req.body as SubmitRequestBody;
+    const isAssessment = body.requestType === 'supplier_assessment';
 
     // Validate required fields
     if (!body.companyId || typeof body.companyId !== 'string') {
@@ -113,23 +117,38 @@ async function handler(req: AuthRequest, res: VercelResponse) {
         valid: VALID_REQUEST_TYPES,
       });
     }
-    if (!body.title || typeof body.title !== 'string' || body.title.trim().length === 0) {
+    // Assessments are titled and priced server-side from the supplier
+    if (!isAssessment && (!body.title || typeof body.title !== 'string' || body.title.trim().length === 0)) {
       return res.status(400).json({ error: 'title is required' });
     }
-    if (!body.estimatedCredits || typeof body.estimatedCredits !== 'number' || body.estimatedCredits <= 0) {
+    if (!isAssessment && (!body.estimatedCredits || typeof body.estimatedCredits !== 'number' || body.estimatedCredits <= 0)) {
       return res.status(400).json({ error: 'estimatedCredits must be a positive number' });
     }
+    if (isAssessment && !body.context?.supplierId && !body.context?.supplierName) {
+      return res.status(400).json({ error: 'context.supplierId or context.supplierName is required' });
+    }
 
     try {
+      let title = typeof body.title === 'string' ? body.title.trim() : '';
+      let context = body.context;
+      let estimatedCredits = body.estimatedCredits;
+
+      if (isAssessment) {
+        const prepared = await prepareAssessmentRequest(body.companyId, body.context ?? {});
+        title = title || prepared.title;
+        context = { ...prepared.context };
+        estimatedCredits = SUPPLIER_ASSESSMENT_CREDITS;
+      }
+
       const result = await submitRequest({
         companyId: body.companyId,
         teamId: body.teamId,
         requesterId: userId,
         requestType: body.requestType,
-        title: body.title.trim(),
+        title,
         description: body.description,
-        context: body.context,
-        estimatedCredits: body.estimatedCredits,
+        context,
+        estimatedCredits,
       });
 
       return res.status(201).json(result);
@@ -143,6 +162,24 @@ async function handler(req: AuthRequest, res: VercelResponse) {
             message: error.message,
           });
         }
+        if (error.message.includes('Insufficient team budget')) {
+          return res.status(400).json({
+            error: 'Team budget exceeded',
+            message: error.message,
+          });
+        }
+        if (error.message === 'Supplier not found') {
+          return res.status(404).json({ error: error.message });
+        }
+        if (error.message === 'Supplier was assessed recently') {
+          return res.status(400).json({ error: error.message });
+        }
+        if (error.message.startsWith('Cannot submit')) {
+          return res.status(400).json({ error: error.message });
+        }
+        if (error.message.includes('already in progress')) {
+          return res.status(409).json({ error: error.message });
+        }
       }
 
       return res.status(500).json({
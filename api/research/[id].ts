@@ -0,0 +1,43 @@
+// GET /api/research/[id] - Current snapshot of a deep research job
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../_middleware/auth.js';
+import { getResearchJob, toDeepResearchResponse } from '../_middleware/research.js';
+import { UUID_PATTERN } from '../_middleware/watchlists.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+    return res.status(400).json({ error: 'A valid research job ID is required' });
+  }
+
+  try {
+    const job = await getResearchJob(req.auth.user!.id, id);
+    if (!job) {
+      return res.status(404).json({ error: 'Research job not found' });
+    }
+    return res.status(200).json({ research: toDeepResearchResponse(job) });
+  } catch (error) {
+    console.error('Research job error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
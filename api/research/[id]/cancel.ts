@@ -0,0 +1,47 @@
+// POST /api/research/[id]/cancel - Stop a deep research job that hasn't finished
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../../_middleware/auth.js';
+import { cancelResearchJob, toDeepResearchResponse } from '../../_middleware/research.js';
+import { UUID_PATTERN } from '../../_middleware/watchlists.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+    return res.status(400).json({ error: 'A valid research job ID is required' });
+  }
+
+  try {
+    const job = await cancelResearchJob(req.auth.user!.id, id);
+    return res.status(200).json({ research: toDeepResearchResponse(job) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Research job not found') {
+      return res.status(404).json({ error: message });
+    }
+    if (message === 'Research job has already finished') {
+      return res.status(409).json({ error: message });
+    }
+    console.error('Research cancel error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
@@ -0,0 +1,115 @@
+// GET /api/research/[id]/events - Server-sent progress for a deep research job
+//
+// Sends the current snapshot first, then each change as a DeepResearchEvent whose
+// SSE id is the job's sequence. The stream ends when the job finishes, or after
+// STREAM_WINDOW_MS so the function stays within its time limit; EventSource then
+// reconnects with Last-Event-ID and only receives newer updates.
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../../_middleware/auth.js';
+import {
+  TERMINAL_STATUSES,
+  getResearchJob,
+  toResearchEvent,
+} from '../../_middleware/research.js';
+import { UUID_PATTERN } from '../../_middleware/watchlists.js';
+import type { DeepResearchEvent, DeepResearchPhase, ResearchJobStatus } from '../../../src/types/deepResearch.js';
+
+const POLL_INTERVAL_MS = 1000;
+const KEEPALIVE_MS = 15_000;
+const STREAM_WINDOW_MS = 50_000;
+const RECONNECT_MS = 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function formatEvent(id: number, event: DeepResearchEvent): string {
+  return `id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+function parseLastEventId(value: unknown): number {
+  const parsed = Number(Array.isArray(value) ? value[0] : value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : -1;
+}
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+    return res.status(400).json({ error: 'A valid research job ID is required' });
+  }
+
+  const userId = req.auth.user!.id;
+  // EventSource sends Last-Event-ID on reconnect; ?lastEventId= covers a fresh page
+  let lastSequence = parseLastEventId(req.headers['last-event-id'] ?? req.query.lastEventId);
+
+  try {
+    let job = await getResearchJob(userId, id);
+    if (!job) {
+      return res.status(404).json({ error: 'Research job not found' });
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.write(`retry: ${RECONNECT_MS}\n\n`);
+
+    let closed = false;
+    const onClose = () => {
+      closed = true;
+    };
+    req.on?.('close', onClose);
+
+    const deadline = Date.now() + STREAM_WINDOW_MS;
+    let lastPhase: DeepResearchPhase | null = null;
+    let lastWriteAt = Date.now();
+
+    while (job && !closed) {
+      const terminal = TERMINAL_STATUSES.includes(job.status as ResearchJobStatus);
+
+      // A finished job always gets its final event, so the client knows to stop reconnecting
+      if (job.sequence > lastSequence || terminal) {
+        const event = toResearchEvent(job, lastPhase);
+        res.write(formatEvent(job.sequence, event));
+        lastSequence = job.sequence;
+        lastPhase = event.data.phase ?? null;
+        lastWriteAt = Date.now();
+      } else if (Date.now() - lastWriteAt >= KEEPALIVE_MS) {
+        res.write(': keepalive\n\n');
+        lastWriteAt = Date.now();
+      }
+
+      if (terminal || Date.now() >= deadline) break;
+
+      await sleep(POLL_INTERVAL_MS);
+      job = await getResearchJob(userId, id);
+    }
+
+    req.off?.('close', onClose);
+    res.end();
+  } catch (error) {
+    console.error('Research events error:', error);
+    if (!res.headersSent) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+    res.end();
+  }
+}
+
+export default withAuthenticated(handler);
@@ -0,0 +1,689 @@
+// Tests for server-side deep research - validation, the job lifecycle, credits, the worker and the SSE stream
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthRequest } from '../../_middleware/auth';
+import type { ResearchJob } from '../../../src/db/schema';
+import type { DeepResearchEvent, DeepResearchResponse } from '../../../src/types/deepResearch';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+const mockDb = vi.hoisted(() => ({
+  select: vi.fn(),
+  insert: vi.fn(),
+  update: vi.fn(),
+}));
+
+vi.mock('@neondatabase/serverless', () => ({
+  neon: vi.fn(() => vi.fn()),
+}));
+
+vi.mock('drizzle-orm/neon-http', () => ({
+  drizzle: vi.fn(() => mockDb),
+}));
+
+vi.mock('../../_middleware/auth', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/auth')>();
+  return {
+    ...original,
+    withAuthenticated: (handler: unknown) => handler,
+  };
+});
+
+vi.mock('../../_middleware/organization', () => ({
+  getOrgContext: vi.fn(async () => ({ company: { id: 'company-1' } })),
+}));
+
+vi.mock('../../_middleware/llm', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/llm')>();
+  return {
+    ...original,
+    getLlmUsageTotals: vi.fn(async () => ({ user: 0, company: 0 })),
+    recordLlmUsage: vi.fn(async () => undefined),
+  };
+});
+
+vi.mock('../../_middleware/credits', () => ({
+  getAccountForUser: vi.fn(async () => null),
+  getSpendingTeamForUser: vi.fn(async () => 'team-1'),
+  createHold: vi.fn(async () => ({ holdId: 'hold-1', amount: 500, status: 'active', availableCredits: 1000, created: true })),
+  releaseHold: vi.fn(),
+  convertHold: vi.fn(),
+}));
+
+vi.mock('../../_middleware/approvals', () => ({
+  getApprovalChain: vi.fn(async () => ({ autoApproved: true, ruleId: null, steps: [] })),
+  submitRequest: vi.fn(async () => ({ request: { id: 'request-1' }, autoApproved: false })),
+  cancelRequest: vi.fn(),
+  fulfillRequest: vi.fn(),
+}));
+
+vi.mock('../../../src/services/ai', () => ({
+  executeDeepResearch: vi.fn(),
+}));
+
+vi.mock('../../../src/services/deepResearchIntake', () => ({
+  generateDynamicIntake: vi.fn(async () => ({
+    questions: [{ id: 'region', question: 'Which regions?', type: 'multiselect', required: true }],
+    prefilledAnswers: { timeframe: '12 months' },
+    estimatedCredits: 500,
+    estimatedTime: '5-10 minutes',
+  })),
+}));
+
+import {
+  MAX_ATTEMPTS,
+  claimResearchJob,
+  researchLlmTransport,
+  resolveResearchApprovals,
+  runResearchJob,
+  toResearchEvent,
+  validateStartRequest,
+  withResearchLlm,
+} from '../../_middleware/research';
+import { executeDeepResearch } from '../../../src/services/ai';
+import { generateDynamicIntake } from '../../../src/services/deepResearchIntake';
+import { llmFetch } from '../../../src/services/llmGateway';
+import { MockLlmProvider, getLlmUsageTotals, recordLlmUsage, setLlmProvider } from '../../_middleware/llm';
+import { convertHold, createHold, getAccountForUser, releaseHold } from '../../_middleware/credits';
+import { cancelRequest, fulfillRequest, getApprovalChain, submitRequest } from '../../_middleware/approvals';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+const JOB_ID = '33333333-3333-4333-8333-333333333333';
+
+/**
+ * Drizzle-style query chain: every builder method returns the chain, and
+ * awaiting it resolves to the given rows. Calls are recorded for assertions.
+ */
+function queryResult(rows: unknown[]) {
+  const chain: Record<string, Mock> & { then?: unknown } = {};
+  for (const method of ['from', 'innerJoin', 'where', 'orderBy', 'limit', 'values', 'onConflictDoNothing', 'set', 'returning']) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.then = (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+    Promise.resolve(rows).then(resolve, reject);
+  return chain;
+}
+
+function makeJob(overrides: Partial<ResearchJob> = {}): ResearchJob {
+  return {
+    id: JOB_ID,
+    userId: 'user-1',
+    companyId: 'company-1',
+    query: 'Aluminum market outlook',
+    studyType: 'market_analysis',
+    status: 'processing',
+    intake: null,
+    intakeAnswers: { region: ['Europe'] },
+    progress: null,
+    report: null,
+    error: null,
+    creditsRequired: 500,
+    reportLineageId: null,
+    reportId: null,
+    holdId: null,
+    approvalRequestId: null,
+    scheduleId: null,
+    sequence: 3,
+    attempts: 1,
+    lockedUntil: new Date('2026-10-19T10:01:00Z'),
+    startedAt: new Date('2026-10-19T10:00:00Z'),
+    completedAt: null,
+    createdAt: new Date('2026-10-19T09:59:00Z'),
+    updatedAt: new Date('2026-10-19T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+function createMockResponse() {
+  const res = {
+    headersSent: false,
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    write: vi.fn().mockReturnValue(true),
+    setHeader: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as VercelResponse & { write: Mock };
+}
+
+function createMockRequest(
+  method: string,
+  body: Record<string, unknown> = {},
+  query: Record<string, string> = {},
+  headers: Record<string, string> = {}
+): AuthRequest {
+  return {
+    method,
+    query,
+    body,
+    headers,
+    on: vi.fn(),
+    off: vi.fn(),
+    auth: {
+      isAuthenticated: true,
+      user: { id: 'user-1', email: 'a@example.com' },
+    },
+  } as unknown as AuthRequest;
+}
+
+function parseEvents(res: { write: Mock }): Array<{ id: number; event: DeepResearchEvent }> {
+  return res.write.mock.calls
+    .map(([chunk]) => String(chunk))
+    .filter((chunk) => chunk.startsWith('id:'))
+    .map((chunk) => {
+      const [idLine, , dataLine] = chunk.trim().split('\n');
+      return { id: Number(idLine.slice(4)), event: JSON.parse(dataLine.slice(6)) as DeepResearchEvent };
+    });
+}
+
+function completeResponse(): DeepResearchResponse {
+  return {
+    type: 'deep_research',
+    jobId: JOB_ID,
+    query: 'Aluminum market outlook',
+    studyType: 'market_analysis',
+    phase: 'complete',
+    creditsAvailable: 0,
+    creditsRequired: 500,
+    report: { id: 'report-1', title: 'Aluminum Outlook' } as DeepResearchResponse['report'],
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════
+// VALIDATION
+// ══════════════════════════════════════════════════════════════════
+
+describe('validateStartRequest', () => {
+  it('requires a query and a known study type', () => {
+    expect(validateStartRequest({})).toEqual({ error: 'query is required' });
+    expect(validateStartRequest({ query: '  ' })).toEqual({ error: 'query is required' });
+    expect(validateStartRequest({ query: 'Steel', studyType: 'essay' })).toHaveProperty('error');
+    expect(validateStartRequest({ query: 'Steel', intakeAnswers: { region: 4 } })).toHaveProperty('error');
+  });
+
+  it('defaults the study type and keeps only recent chat history', () => {
+    const history = Array.from({ length: 15 }, (_, i) => ({ role: 'user', content: `message ${i}` }));
+    const result = validateStartRequest({
+      query: ' Steel outlook ',
+      conversationHistory: [...history, { role: 'system', content: 'ignored' }, null],
+    });
+
+    expect('request' in result).toBe(true);
+    if (!('request' in result)) return;
+    expect(result.request.query).toBe('Steel outlook');
+    expect(result.request.studyType).toBe('market_analysis');
+    expect(result.request.conversationHistory).toHaveLength(10);
+    expect(result.request.conversationHistory![9]).toEqual({ role: 'user', content: 'message 14' });
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// START & CONFIRM
+// ══════════════════════════════════════════════════════════════════
+
+describe('POST /api/research', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('creates a job waiting on intake questions', async () => {
+    const insert = queryResult([makeJob({ status: 'intake', intake: { questions: [], estimatedCredits: 500, estimatedTime: '5-10 minutes' } })]);
+    mockDb.insert.mockReturnValue(insert);
+    const { default: handler } = await import('../index');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', { query: 'Aluminum market outlook', category: 'Metals' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(201);
+    const { research } = (res.json as Mock).mock.calls[0][0];
+    expect(research).toMatchObject({ jobId: JOB_ID, phase: 'intake', creditsRequired: 500 });
+    expect(generateDynamicIntake).toHaveBeenCalledWith('Aluminum market outlook', 'market_analysis', [], expect.any(Object));
+
+    const values = insert.values.mock.calls[0][0];
+    expect(values).toMatchObject({ userId: 'user-1', companyId: 'company-1', status: 'intake', intakeAnswers: null });
+    expect(values.intake.prefilledAnswers).toEqual({ timeframe: '12 months', category: 'Metals' });
+  });
+
+  it('asks a custom study which company template to use', async () => {
+    mockDb.select.mockReturnValueOnce(queryResult([{
+      id: 'template-1',
+      name: 'Packaging review',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }]));
+    const insert = queryResult([makeJob({ status: 'intake' })]);
+    mockDb.insert.mockReturnValue(insert);
+    const { default: handler } = await import('../index');
+
+    await handler(createMockRequest('POST', { query: 'Packaging review', studyType: 'custom' }), createMockResponse());
+
+    const { questions } = insert.values.mock.calls[0][0].intake;
+    expect(questions.map((q: { id: string }) => q.id)).toEqual(['region', 'reportTemplateId']);
+    expect(questions[1].options).toEqual([
+      { label: 'Standard market analysis', value: 'default' },
+      { label: 'Packaging review', value: 'template-1' },
+    ]);
+  });
+
+  it('queues the job straight away when answers come with the request', async () => {
+    const insert = queryResult([makeJob({ status: 'queued' })]);
+    mockDb.insert.mockReturnValue(insert);
+    const { default: handler } = await import('../index');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', { query: 'Aluminum', intakeAnswers: { region: ['Europe'] } }), res);
+
+    expect(generateDynamicIntake).not.toHaveBeenCalled();
+    expect(insert.values.mock.calls[0][0]).toMatchObject({ status: 'queued', intakeAnswers: { region: ['Europe'] } });
+    expect((res.json as Mock).mock.calls[0][0].research.phase).toBe('processing');
+  });
+});
+
+describe('POST /api/research/confirm', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('queues a job that is waiting on intake', async () => {
+    mockDb.select.mockReturnValue(queryResult([makeJob({ status: 'intake' })]));
+    const update = queryResult([makeJob({ status: 'queued', sequence: 1 })]);
+    mockDb.update.mockReturnValue(update);
+    const { default: handler } = await import('../confirm');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', { jobId: JOB_ID, answers: { region: ['Europe'] } }), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(update.set.mock.calls[0][0]).toMatchObject({ status: 'queued', intakeAnswers: { region: ['Europe'] }, holdId: null });
+    // No credit account - nothing to hold
+    expect(createHold).not.toHaveBeenCalled();
+  });
+
+  it('rejects jobs that were already confirmed, and unknown jobs', async () => {
+    const { default: handler } = await import('../confirm');
+
+    mockDb.select.mockReturnValueOnce(queryResult([makeJob()]));
+    const confirmed = createMockResponse();
+    await handler(createMockRequest('POST', { jobId: JOB_ID, answers: {} }), confirmed);
+    expect(confirmed.status).toHaveBeenCalledWith(409);
+
+    mockDb.select.mockReturnValueOnce(queryResult([]));
+    const missing = createMockResponse();
+    await handler(createMockRequest('POST', { jobId: JOB_ID, answers: {} }), missing);
+    expect(missing.status).toHaveBeenCalledWith(404);
+    expect(mockDb.update).not.toHaveBeenCalled();
+  });
+
+  it('validates the body', async () => {
+    const { default: handler } = await import('../confirm');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', { jobId: 'dr-123', answers: {} }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(mockDb.update).not.toHaveBeenCalled();
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// CREDITS
+// ══════════════════════════════════════════════════════════════════
+
+describe('research credits', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getAccountForUser as Mock).mockResolvedValue({ id: 'account-1', companyId: 'company-1' });
+  });
+
+  afterEach(() => {
+    (getAccountForUser as Mock).mockResolvedValue(null);
+  });
+
+  it('holds the credits when intake is confirmed under the auto threshold', async () => {
+    mockDb.select.mockReturnValue(queryResult([makeJob({ status: 'intake' })]));
+    const update = queryResult([makeJob({ status: 'queued', holdId: 'hold-1' })]);
+    mockDb.update.mockReturnValue(update);
+    const { default: handler } = await import('../confirm');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', { jobId: JOB_ID, answers: { category: 'Metals' } }), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(createHold).toHaveBeenCalledWith('account-1', JOB_ID, 500, 'team-1');
+    expect(getApprovalChain).toHaveBeenCalledWith('company-1', expect.objectContaining({
+      requestType: 'deep_research',
+      category: 'Metals',
+      estimatedCredits: 500,
+    }));
+    expect(submitRequest).not.toHaveBeenCalled();
+    expect(update.set.mock.calls[0][0]).toMatchObject({ status: 'queued', holdId: 'hold-1', approvalRequestId: null });
+  });
+
+  it('sends costs over the threshold for approval', async () => {
+    (getApprovalChain as Mock).mockResolvedValueOnce({ autoApproved: false, ruleId: null, steps: [{ approverRole: 'approver' }] });
+    mockDb.select.mockReturnValue(queryResult([makeJob({ status: 'intake' })]));
+    const update = queryResult([makeJob({ status: 'awaiting_approval', holdId: 'hold-1', approvalRequestId: 'request-1' })]);
+    mockDb.update.mockReturnValue(update);
+    const { default: handler } = await import('../confirm');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', { jobId: JOB_ID, answers: {} }), res);
+
+    expect(submitRequest).toHaveBeenCalledWith(expect.objectContaining({
+      requestType: 'deep_research',
+      estimatedCredits: 500,
+      holdId: 'hold-1',
+      context: expect.objectContaining({ researchJobId: JOB_ID }),
+    }));
+    expect(update.set.mock.calls[0][0]).toMatchObject({ status: 'awaiting_approval', approvalRequestId: 'request-1' });
+    const { research } = (res.json as Mock).mock.calls[0][0];
+    expect(research).toMatchObject({ phase: 'intake_confirmed', approvalRequestId: 'request-1' });
+  });
+
+  it('returns 400 when the credits cannot be held', async () => {
+    (createHold as Mock).mockRejectedValueOnce(new Error('Insufficient credits. Available: 100, Required: 500'));
+    mockDb.select.mockReturnValue(queryResult([makeJob({ status: 'intake' })]));
+    const { default: handler } = await import('../confirm');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', { jobId: JOB_ID, answers: {} }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect((res.json as Mock).mock.calls[0][0].error).toBe('Insufficient credits');
+    expect(mockDb.update).not.toHaveBeenCalled();
+  });
+
+  it('releases the hold when the job was confirmed concurrently', async () => {
+    mockDb.select.mockReturnValue(queryResult([makeJob({ status: 'intake' })]));
+    mockDb.update.mockReturnValue(queryResult([]));
+    const { default: handler } = await import('../confirm');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', { jobId: JOB_ID, answers: {} }), res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(releaseHold).toHaveBeenCalledWith('hold-1');
+  });
+
+  it('queues approved jobs and fails the rest', async () => {
+    const now = new Date('2026-10-19T10:05:00Z');
+    const approved = makeJob({ id: 'approved', status: 'awaiting_approval', holdId: 'hold-a', approvalRequestId: 'request-a' });
+    const denied = makeJob({ id: 'denied', status: 'awaiting_approval', holdId: 'hold-d', approvalRequestId: 'request-d' });
+    mockDb.select.mockReturnValue(queryResult([
+      { job: approved, approvalStatus: 'approved' },
+      { job: denied, approvalStatus: 'denied' },
+    ]));
+    const queueUpdate = queryResult([{ ...approved, status: 'queued' }]);
+    const failUpdate = queryResult([{ ...denied, status: 'error' }]);
+    mockDb.update.mockReturnValueOnce(queueUpdate).mockReturnValueOnce(failUpdate);
+
+    await resolveResearchApprovals(now);
+
+    expect(queueUpdate.set.mock.calls[0][0]).toMatchObject({ status: 'queued' });
+    expect(failUpdate.set.mock.calls[0][0]).toMatchObject({ status: 'error', error: { code: 'NOT_APPROVED' }, completedAt: now });
+    expect(releaseHold).toHaveBeenCalledTimes(1);
+    expect(releaseHold).toHaveBeenCalledWith('hold-d');
+  });
+
+  it('charges the credits the report used against the job', async () => {
+    mockDb.insert.mockReturnValue(queryResult([{ id: 'library-1' }]));
+    const finished = makeJob({ status: 'complete', holdId: 'hold-1', approvalRequestId: 'request-1' });
+    mockDb.update.mockReturnValue(queryResult([finished]));
+    const response = completeResponse();
+    response.report!.creditsUsed = 450;
+    (executeDeepResearch as Mock).mockResolvedValue(response);
+
+    await runResearchJob(makeJob({ holdId: 'hold-1', approvalRequestId: 'request-1' }));
+
+    expect(convertHold).toHaveBeenCalledWith('hold-1', 'user-1', expect.objectContaining({
+      amount: 450,
+      referenceType: 'research_job',
+      referenceId: JOB_ID,
+    }));
+    expect(fulfillRequest).toHaveBeenCalledWith('request-1', 'user-1', 450);
+    expect(releaseHold).not.toHaveBeenCalled();
+  });
+
+  it('releases the hold when the run fails', async () => {
+    mockDb.update.mockReturnValue(queryResult([makeJob({ status: 'error', holdId: 'hold-1' })]));
+    (executeDeepResearch as Mock).mockRejectedValue(new Error('boom'));
+
+    await runResearchJob(makeJob({ holdId: 'hold-1' }));
+
+    expect(releaseHold).toHaveBeenCalledWith('hold-1');
+    expect(convertHold).not.toHaveBeenCalled();
+  });
+
+  it('withdraws the approval request and releases the hold on cancel', async () => {
+    mockDb.update.mockReturnValue(queryResult([
+      makeJob({ status: 'cancelled', holdId: 'hold-1', approvalRequestId: 'request-1' }),
+    ]));
+    const { default: handler } = await import('../[id]/cancel');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', {}, { id: JOB_ID }), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(cancelRequest).toHaveBeenCalledWith('request-1', 'user-1', 'Research was cancelled');
+    expect(releaseHold).toHaveBeenCalledWith('hold-1');
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// WORKER
+// ══════════════════════════════════════════════════════════════════
+
+describe('claimResearchJob', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('fails jobs abandoned too often and claims the next one', async () => {
+    const now = new Date('2026-10-19T10:05:00Z');
+    const abandoned = makeJob({ id: 'abandoned', attempts: MAX_ATTEMPTS, holdId: 'hold-1' });
+    const queued = makeJob({ id: 'queued', status: 'queued', attempts: 0, startedAt: null });
+    mockDb.select
+      .mockReturnValueOnce(queryResult([]))
+      .mockReturnValueOnce(queryResult([abandoned, queued]));
+    const failUpdate = queryResult([{ ...abandoned, status: 'error' }]);
+    const claimUpdate = queryResult([{ ...queued, status: 'processing', attempts: 1 }]);
+    mockDb.update.mockReturnValueOnce(failUpdate).mockReturnValueOnce(claimUpdate);
+
+    const claimed = await claimResearchJob(now);
+
+    expect(claimed?.id).toBe('queued');
+    expect(failUpdate.set.mock.calls[0][0]).toMatchObject({ status: 'error', error: { code: 'INTERRUPTED' } });
+    expect(releaseHold).toHaveBeenCalledWith('hold-1');
+    expect(claimUpdate.set.mock.calls[0][0]).toMatchObject({
+      status: 'processing',
+      attempts: 1,
+      startedAt: now,
+      lockedUntil: new Date('2026-10-19T10:06:00Z'),
+    });
+  });
+
+  it('returns null when another worker won the claim', async () => {
+    mockDb.select
+      .mockReturnValueOnce(queryResult([]))
+      .mockReturnValueOnce(queryResult([makeJob({ status: 'queued', attempts: 0 })]));
+    mockDb.update.mockReturnValue(queryResult([]));
+
+    expect(await claimResearchJob()).toBeNull();
+  });
+});
+
+describe('runResearchJob', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('saves progress and stores the finished report', async () => {
+    const insert = queryResult([{ id: 'library-1' }]);
+    mockDb.insert.mockReturnValue(insert);
+    const updates: Array<ReturnType<typeof queryResult>> = [];
+    mockDb.update.mockImplementation(() => {
+      const update = queryResult([makeJob({ status: 'complete' })]);
+      updates.push(update);
+      return update;
+    });
+    (executeDeepResearch as Mock).mockImplementation(async (_id, _query, answers, _type, onProgress) => {
+      expect(answers).toEqual({ region: ['Europe'] });
+      onProgress({ ...completeResponse(), phase: 'processing', commandCenterProgress: { stage: 'research' } });
+      return completeResponse();
+    });
+
+    const finished = await runResearchJob(makeJob());
+
+    expect(finished?.status).toBe('complete');
+    const [progressWrite, finalWrite] = updates.map((u) => u.set.mock.calls[0][0]);
+    expect(progressWrite.progress).toEqual({ stage: 'research' });
+    expect(finalWrite).toMatchObject({ status: 'complete', report: { id: 'report-1' }, error: null, lockedUntil: null });
+    // Saved to the library as a new report
+    expect(insert.values.mock.calls[0][0]).toMatchObject({ jobId: JOB_ID, version: 1, companyId: 'company-1' });
+    expect(finalWrite.reportId).toBe('library-1');
+  });
+
+  it('records a failed run as an error', async () => {
+    const update = queryResult([makeJob({ status: 'error' })]);
+    mockDb.update.mockReturnValue(update);
+    (executeDeepResearch as Mock).mockRejectedValue(new Error('boom'));
+
+    await runResearchJob(makeJob());
+
+    expect(update.set.mock.calls[0][0]).toMatchObject({ status: 'error', error: { canRetry: true }, report: null });
+  });
+
+  it('fails without running when the user is out of quota', async () => {
+    (getLlmUsageTotals as Mock).mockResolvedValueOnce({ user: 10_000_000, company: 0 });
+    const update = queryResult([makeJob({ status: 'error' })]);
+    mockDb.update.mockReturnValue(update);
+
+    await runResearchJob(makeJob());
+
+    expect(executeDeepResearch).not.toHaveBeenCalled();
+    expect(update.set.mock.calls[0][0].error.code).toBe('QUOTA_EXCEEDED');
+  });
+
+  it('stops calling providers once the job was cancelled', async () => {
+    // The progress write finds no processing row - the user cancelled
+    mockDb.update.mockReturnValue(queryResult([]));
+    let laterCall: Promise<Response> | null = null;
+    (executeDeepResearch as Mock).mockImplementation(async (_id, _query, _answers, _type, onProgress) => {
+      onProgress({ ...completeResponse(), phase: 'processing', commandCenterProgress: { stage: 'plan' } });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      laterCall = llmFetch('gemini', { model: 'gemini-2.5-flash', payload: {} });
+      await laterCall.catch(() => undefined);
+      return completeResponse();
+    });
+
+    const finished = await runResearchJob(makeJob());
+
+    expect(finished).toBeNull();
+    await expect(laterCall).rejects.toThrow('Research job was cancelled');
+    expect(mockDb.update).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('researchLlmTransport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setLlmProvider('gemini', new MockLlmProvider('gemini'));
+  });
+
+  it('bills provider calls to the job owner', async () => {
+    await withResearchLlm({ userId: 'user-1', companyId: 'company-1' }, async () => {
+      const response = await llmFetch('gemini', {
+        model: 'gemini-2.5-flash',
+        payload: { contents: [{ parts: [{ text: 'Hello' }] }] },
+      });
+      expect(response.ok).toBe(true);
+    });
+
+    expect(researchLlmTransport.isAvailable('gemini')).toBe(true);
+    expect(recordLlmUsage).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'user-1',
+      companyId: 'company-1',
+      provider: 'gemini',
+      status: 'success',
+    }));
+    setLlmProvider('gemini', null);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// SSE STREAM
+// ══════════════════════════════════════════════════════════════════
+
+describe('toResearchEvent', () => {
+  it('reports phase changes, steps, reports and errors', () => {
+    expect(toResearchEvent(makeJob(), null).type).toBe('phase_change');
+    expect(toResearchEvent(makeJob(), 'processing').type).toBe('step_update');
+    expect(toResearchEvent(makeJob({ status: 'complete' }), 'processing').type).toBe('report_ready');
+
+    const cancelled = toResearchEvent(makeJob({ status: 'cancelled' }), 'processing');
+    expect(cancelled.type).toBe('error');
+    expect(cancelled.data.error?.code).toBe('CANCELLED');
+  });
+
+  it('shows queued jobs as processing without intake questions', () => {
+    const event = toResearchEvent(makeJob({ status: 'queued', intake: { questions: [], estimatedCredits: 0, estimatedTime: '' } }), null);
+    expect(event.data.phase).toBe('processing');
+    expect(event.data.intake).toBeUndefined();
+  });
+});
+
+describe('GET /api/research/[id]/events', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('streams the snapshot and each change until the report is ready', async () => {
+    mockDb.select
+      .mockReturnValueOnce(queryResult([makeJob({ sequence: 3 })]))
+      .mockReturnValueOnce(queryResult([makeJob({ sequence: 3 })]))
+      .mockReturnValueOnce(queryResult([makeJob({ sequence: 5, status: 'complete', report: completeResponse().report! })]));
+    vi.useFakeTimers();
+    const { default: handler } = await import('../[id]/events');
+    const res = createMockResponse();
+
+    const done = handler(createMockRequest('GET', {}, { id: JOB_ID }), res);
+    await vi.runAllTimersAsync();
+    await done;
+    vi.useRealTimers();
+
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/event-stream');
+    const events = parseEvents(res);
+    expect(events.map((e) => [e.id, e.event.type])).toEqual([[3, 'phase_change'], [5, 'report_ready']]);
+    expect(events[1].event.data.report).toMatchObject({ id: 'report-1' });
+    expect(res.end).toHaveBeenCalled();
+  });
+
+  it('resumes after Last-Event-ID and always repeats the final event', async () => {
+    mockDb.select.mockReturnValue(queryResult([makeJob({ sequence: 5, status: 'error', error: { message: 'Timed out', canRetry: true } })]));
+    const { default: handler } = await import('../[id]/events');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('GET', {}, { id: JOB_ID }, { 'last-event-id': '5' }), res);
+
+    const events = parseEvents(res);
+    expect(events).toHaveLength(1);
+    expect(events[0].event.type).toBe('error');
+  });
+
+  it('returns 404 for another user\'s job', async () => {
+    mockDb.select.mockReturnValue(queryResult([]));
+    const { default: handler } = await import('../[id]/events');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('GET', {}, { id: JOB_ID }), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(res.write).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,310 @@
+// Tests for recurring research studies - validation, the schedule API and starting due runs
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthRequest } from '../../_middleware/auth';
+import type { ResearchJob, ResearchSchedule } from '../../../src/db/schema';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+vi.hoisted(() => {
+  process.env.CRON_SECRET = 'cron-secret';
+});
+
+const mockDb = vi.hoisted(() => ({
+  select: vi.fn(),
+  insert: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
+}));
+
+vi.mock('@neondatabase/serverless', () => ({
+  neon: vi.fn(() => vi.fn()),
+}));
+
+vi.mock('drizzle-orm/neon-http', () => ({
+  drizzle: vi.fn(() => mockDb),
+}));
+
+vi.mock('../../_middleware/auth', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/auth')>();
+  return {
+    ...original,
+    withAuthenticated: (handler: unknown) => handler,
+  };
+});
+
+vi.mock('../../_middleware/organization', () => ({
+  getOrgContext: vi.fn(async () => ({ company: { id: 'company-1' } })),
+}));
+
+vi.mock('../../_middleware/notifications', () => ({
+  notifyUser: vi.fn(),
+}));
+
+vi.mock('../../_middleware/research', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/research')>();
+  return {
+    ...original,
+    createResearchJob: vi.fn(async () => ({ id: 'job-1' })),
+  };
+});
+
+vi.mock('../../../src/services/ai', () => ({
+  executeDeepResearch: vi.fn(),
+}));
+
+import { processDueSchedules, validateResearchScheduleInput } from '../../_middleware/researchSchedules';
+import { createResearchJob } from '../../_middleware/research';
+import { notifyUser } from '../../_middleware/notifications';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+const SCHEDULE_ID = '77777777-7777-4777-8777-777777777777';
+const LINEAGE_ID = '66666666-6666-4666-8666-666666666666';
+const NOW = new Date('2026-10-19T06:05:00Z');
+
+function queryResult(rows: unknown[]) {
+  const chain: Record<string, Mock> & { then?: unknown } = {};
+  for (const method of ['from', 'where', 'orderBy', 'limit', 'values', 'set', 'returning']) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.then = (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+    Promise.resolve(rows).then(resolve, reject);
+  return chain;
+}
+
+function makeSchedule(overrides: Partial<ResearchSchedule> = {}): ResearchSchedule {
+  return {
+    id: SCHEDULE_ID,
+    userId: 'user-1',
+    companyId: 'company-1',
+    name: 'Aluminum watch',
+    query: 'Aluminum market outlook',
+    studyType: 'market_analysis',
+    intakeAnswers: { category: 'Metals', region: ['Europe'] },
+    cadence: '0 6 * * 1',
+    isActive: true,
+    nextRunAt: new Date('2026-10-19T06:00:00Z'),
+    lastRunAt: null,
+    lastJobId: null,
+    reportLineageId: LINEAGE_ID,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    updatedAt: new Date('2026-10-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function mockResponse() {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    setHeader: vi.fn(),
+    status: vi.fn((code: number) => {
+      res.statusCode = code;
+      return res;
+    }),
+    json: vi.fn((body: unknown) => {
+      res.body = body;
+      return res;
+    }),
+    end: vi.fn(() => res),
+  };
+  return res;
+}
+
+function authRequest(overrides: Partial<AuthRequest> = {}): AuthRequest {
+  return {
+    method: 'GET',
+    headers: {},
+    query: {},
+    body: undefined,
+    auth: { user: { id: 'user-1' } },
+    ...overrides,
+  } as unknown as AuthRequest;
+}
+
+const validBody = {
+  query: 'Aluminum market outlook',
+  studyType: 'market_analysis',
+  intakeAnswers: { category: 'Metals' },
+  cadence: '0 6 * * 1',
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS
+// ══════════════════════════════════════════════════════════════════
+
+describe('validateResearchScheduleInput', () => {
+  it('normalizes a valid schedule and names it after the query', () => {
+    const result = validateResearchScheduleInput({ ...validBody, cadence: ' @monthly ' });
+
+    expect(result).toEqual({
+      schedule: {
+        name: 'Aluminum market outlook',
+        query: 'Aluminum market outlook',
+        studyType: 'market_analysis',
+        intakeAnswers: { category: 'Metals' },
+        cadence: '@monthly',
+        isActive: true,
+      },
+    });
+  });
+
+  it('rejects bad cadences and study types', () => {
+    expect(validateResearchScheduleInput({ ...validBody, cadence: '0 6 * *' }))
+      .toEqual({ error: expect.stringContaining('cadence is invalid') });
+    expect(validateResearchScheduleInput({ ...validBody, cadence: '0 */6 * * *' }))
+      .toEqual({ error: 'cadence can run at most once a day' });
+    expect(validateResearchScheduleInput({ ...validBody, cadence: '0 0 31 2 *' }))
+      .toEqual({ error: 'cadence never runs' });
+    expect(validateResearchScheduleInput({ ...validBody, studyType: 'poetry' }))
+      .toEqual({ error: expect.stringContaining('studyType must be one of') });
+  });
+});
+
+describe('POST /api/research/schedules', () => {
+  it('saves the schedule with its first run at the next cadence time', async () => {
+    const { default: handler } = await import('../schedules/index');
+    mockDb.select.mockReturnValueOnce(queryResult([{ total: 0 }]));
+    const insert = queryResult([makeSchedule()]);
+    mockDb.insert.mockReturnValueOnce(insert);
+    const res = mockResponse();
+
+    await handler(authRequest({ method: 'POST', body: validBody }), res as unknown as VercelResponse);
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body).toMatchObject({ schedule: { id: SCHEDULE_ID, creditsPerRun: 500, reportLineageId: LINEAGE_ID } });
+    const values = insert.values.mock.calls[0][0];
+    expect(values).toMatchObject({ userId: 'user-1', companyId: 'company-1', cadence: '0 6 * * 1' });
+    expect(values.nextRunAt.getUTCDay()).toBe(1);
+    expect(values.nextRunAt.getUTCHours()).toBe(6);
+  });
+
+  it('stops at the per-user limit', async () => {
+    const { default: handler } = await import('../schedules/index');
+    mockDb.select.mockReturnValueOnce(queryResult([{ total: 20 }]));
+    const res = mockResponse();
+
+    await handler(authRequest({ method: 'POST', body: validBody }), res as unknown as VercelResponse);
+
+    expect(res.statusCode).toBe(400);
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
+});
+
+describe('processDueSchedules', () => {
+  it('claims each due schedule and queues a run that refreshes its report', async () => {
+    const claim = queryResult([{ id: SCHEDULE_ID }]);
+    mockDb.select
+      .mockReturnValueOnce(queryResult([makeSchedule()]))
+      .mockReturnValueOnce(queryResult([]));  // No run still in progress
+    mockDb.update
+      .mockReturnValueOnce(claim)
+      .mockReturnValueOnce(queryResult([]));
+
+    const result = await processDueSchedules(NOW);
+
+    expect(result.started).toEqual([{ scheduleId: SCHEDULE_ID, jobId: 'job-1' }]);
+    expect(claim.set.mock.calls[0][0]).toMatchObject({
+      nextRunAt: new Date('2026-10-26T06:00:00Z'),
+      lastRunAt: NOW,
+    });
+    expect(createResearchJob).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ query: 'Aluminum market outlook', category: 'Metals', skipIntake: true }),
+      { reportLineageId: LINEAGE_ID, scheduleId: SCHEDULE_ID }
+    );
+  });
+
+  it('leaves a schedule another run already claimed', async () => {
+    mockDb.select.mockReturnValueOnce(queryResult([makeSchedule()]));
+    mockDb.update.mockReturnValueOnce(queryResult([]));
+
+    const result = await processDueSchedules(NOW);
+
+    expect(result.started).toEqual([]);
+    expect(createResearchJob).not.toHaveBeenCalled();
+  });
+
+  it('skips a run while the previous one is still going', async () => {
+    mockDb.select
+      .mockReturnValueOnce(queryResult([makeSchedule()]))
+      .mockReturnValueOnce(queryResult([{ id: 'job-0', status: 'processing' } as Partial<ResearchJob>]));
+    mockDb.update.mockReturnValueOnce(queryResult([{ id: SCHEDULE_ID }]));
+
+    const result = await processDueSchedules(NOW);
+
+    expect(result.skipped).toEqual([{ scheduleId: SCHEDULE_ID, reason: 'previous_run_active' }]);
+    expect(createResearchJob).not.toHaveBeenCalled();
+  });
+
+  it('tells the owner when a run is skipped for lack of credits', async () => {
+    mockDb.select
+      .mockReturnValueOnce(queryResult([makeSchedule()]))
+      .mockReturnValueOnce(queryResult([]));
+    mockDb.update.mockReturnValueOnce(queryResult([{ id: SCHEDULE_ID }]));
+    (createResearchJob as Mock).mockRejectedValueOnce(new Error('Insufficient credits. Available: 200, Required: 500'));
+
+    const result = await processDueSchedules(NOW);
+
+    expect(result.skipped).toEqual([{ scheduleId: SCHEDULE_ID, reason: 'insufficient_credits' }]);
+    expect(notifyUser).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'user-1',
+      type: 'report_ready',
+      title: 'Scheduled research skipped: Aluminum watch',
+      description: expect.stringContaining('not enough credits'),
+      metadata: { scheduleId: SCHEDULE_ID },
+    }));
+  });
+
+  it('tells the owner when a run would exceed the team budget', async () => {
+    mockDb.select
+      .mockReturnValueOnce(queryResult([makeSchedule()]))
+      .mockReturnValueOnce(queryResult([]));
+    mockDb.update.mockReturnValueOnce(queryResult([{ id: SCHEDULE_ID }]));
+    (createResearchJob as Mock).mockRejectedValueOnce(
+      new Error('Insufficient team budget. Team: Sourcing, Available: 100, Required: 500')
+    );
+
+    const result = await processDueSchedules(NOW);
+
+    expect(result.skipped).toEqual([{ scheduleId: SCHEDULE_ID, reason: 'insufficient_credits' }]);
+    expect(notifyUser).toHaveBeenCalledWith(expect.objectContaining({
+      description: expect.stringContaining("team's budget"),
+    }));
+  });
+});
+
+describe('/api/research/schedules/run', () => {
+  it('starts due runs when Vercel Cron calls with GET and the secret', async () => {
+    const { default: handler } = await import('../schedules/run');
+    mockDb.select.mockReturnValueOnce(queryResult([]));
+    const res = mockResponse();
+
+    await handler(
+      authRequest({ method: 'GET', headers: { authorization: 'Bearer cron-secret' } }),
+      res as unknown as VercelResponse
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({ success: true, startedCount: 0 });
+  });
+
+  it('rejects calls without the secret', async () => {
+    const { default: handler } = await import('../schedules/run');
+    const res = mockResponse();
+
+    await handler(authRequest({ method: 'GET' }), res as unknown as VercelResponse);
+
+    expect(res.statusCode).toBe(401);
+    expect(mockDb.select).not.toHaveBeenCalled();
+  });
+});
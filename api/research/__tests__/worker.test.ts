@@ -0,0 +1,85 @@
+// Tests for the deep research worker cron endpoint
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+vi.hoisted(() => {
+  process.env.CRON_SECRET = 'cron-secret';
+});
+
+vi.mock('../../_middleware/research', () => ({
+  claimResearchJob: vi.fn(),
+  runResearchJob: vi.fn(),
+}));
+
+import { claimResearchJob, runResearchJob } from '../../_middleware/research';
+import handler from '../worker';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+function createMockRequest(method: string, headers: Record<string, string> = {}): VercelRequest {
+  return { method, headers, query: {}, body: {} } as unknown as VercelRequest;
+}
+
+function createMockResponse(): VercelResponse {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as VercelResponse;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ══════════════════════════════════════════════════════════════════
+// TESTS
+// ══════════════════════════════════════════════════════════════════
+
+describe('/api/research/worker', () => {
+  it('runs queued jobs when Vercel Cron calls with GET and the secret', async () => {
+    (claimResearchJob as Mock)
+      .mockResolvedValueOnce({ id: 'job-1', attempts: 1 })
+      .mockResolvedValueOnce({ id: 'job-2', attempts: 1 })
+      .mockResolvedValueOnce(null);
+    (runResearchJob as Mock).mockResolvedValue({ status: 'complete' });
+    const res = createMockResponse();
+
+    await handler(createMockRequest('GET', { authorization: 'Bearer cron-secret' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(runResearchJob).toHaveBeenCalledTimes(2);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      processedCount: 2,
+      jobs: [
+        { jobId: 'job-1', attempt: 1, status: 'complete' },
+        { jobId: 'job-2', attempt: 1, status: 'complete' },
+      ],
+    }));
+  });
+
+  it('rejects calls without the secret', async () => {
+    const res = createMockResponse();
+
+    await handler(createMockRequest('GET'), res);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(claimResearchJob).not.toHaveBeenCalled();
+  });
+
+  it('rejects other methods', async () => {
+    const res = createMockResponse();
+
+    await handler(createMockRequest('DELETE', { authorization: 'Bearer cron-secret' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(405);
+  });
+});
@@ -0,0 +1,63 @@
+// POST /api/research/confirm - Submit intake answers and queue the job for the worker (see ConfirmIntakeRequest)
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../_middleware/auth.js';
+import {
+  confirmResearchIntake,
+  isIntakeAnswers,
+  toDeepResearchResponse,
+} from '../_middleware/research.js';
+import { UUID_PATTERN } from '../_middleware/watchlists.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { jobId, answers } = req.body || {};
+
+  if (typeof jobId !== 'string' || !UUID_PATTERN.test(jobId)) {
+    return res.status(400).json({ error: 'A valid jobId is required' });
+  }
+  if (!isIntakeAnswers(answers)) {
+    return res.status(400).json({ error: 'answers must map question IDs to strings or string arrays' });
+  }
+
+  try {
+    const job = await confirmResearchIntake(req.auth.user!.id, jobId, answers);
+    return res.status(200).json({ research: toDeepResearchResponse(job) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Research job not found') {
+      return res.status(404).json({ error: message });
+    }
+    if (message === 'Research job is not awaiting intake') {
+      return res.status(409).json({ error: message });
+    }
+    if (message.includes('Insufficient credits')) {
+      return res.status(400).json({ error: 'Insufficient credits', message });
+    }
+    if (message.includes('Insufficient team budget')) {
+      return res.status(400).json({ error: 'Team budget exceeded', message });
+    }
+    if (message.startsWith('Cannot submit')) {
+      return res.status(400).json({ error: message });
+    }
+    console.error('Research confirm error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
@@ -0,0 +1,61 @@
+// GET /api/research - The current user's recent deep research jobs
+// POST /api/research - Start a deep research job (see StartDeepResearchRequest)
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../_middleware/auth.js';
+import {
+  createResearchJob,
+  listResearchJobs,
+  toDeepResearchResponse,
+  validateStartRequest,
+} from '../_middleware/research.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const userId = req.auth.user!.id;
+
+  try {
+    if (req.method === 'GET') {
+      const jobs = await listResearchJobs(userId);
+      return res.status(200).json({ jobs });
+    }
+
+    const result = validateStartRequest(req.body || {});
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    const job = await createResearchJob(userId, result.request);
+    return res.status(201).json({ research: toDeepResearchResponse(job) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('Insufficient credits')) {
+      return res.status(400).json({ error: 'Insufficient credits', message });
+    }
+    if (message.includes('Insufficient team budget')) {
+      return res.status(400).json({ error: 'Team budget exceeded', message });
+    }
+    if (message.startsWith('Cannot submit')) {
+      return res.status(400).json({ error: message });
+    }
+    console.error('Research job error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
@@ -0,0 +1,74 @@
+// GET /api/research/schedules/[id] - Get one of the current user's research schedules
+// PATCH /api/research/schedules/[id] - Update a schedule (partial body merged over the saved one)
+// DELETE /api/research/schedules/[id] - Delete a schedule; its reports stay in the library
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../../_middleware/auth.js';
+import {
+  deleteResearchSchedule,
+  getResearchSchedule,
+  updateResearchSchedule,
+  validateResearchScheduleInput,
+} from '../../_middleware/researchSchedules.js';
+import { UUID_PATTERN } from '../../_middleware/watchlists.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PATCH, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'PATCH' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+
+  if (typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+    return res.status(400).json({ error: 'Schedule ID is required' });
+  }
+
+  const userId = req.auth.user!.id;
+
+  try {
+    if (req.method === 'DELETE') {
+      const deleted = await deleteResearchSchedule(userId, id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+      return res.status(200).json({ success: true });
+    }
+
+    const existing = await getResearchSchedule(userId, id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ schedule: existing });
+    }
+
+    const result = validateResearchScheduleInput({ ...existing, ...(req.body || {}) });
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    const schedule = await updateResearchSchedule(userId, id, result.schedule);
+    if (!schedule) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+    return res.status(200).json({ schedule });
+  } catch (error) {
+    console.error('Research schedule error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
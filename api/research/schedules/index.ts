@@ -0,0 +1,57 @@
+// GET /api/research/schedules - List the current user's recurring research studies
+// POST /api/research/schedules - Save a study to re-run on a cron cadence
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../../_middleware/auth.js';
+import {
+  MAX_SCHEDULES_PER_USER,
+  createResearchSchedule,
+  listResearchSchedules,
+  validateResearchScheduleInput,
+} from '../../_middleware/researchSchedules.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const userId = req.auth.user!.id;
+
+  try {
+    if (req.method === 'GET') {
+      const schedules = await listResearchSchedules(userId);
+      return res.status(200).json({ schedules, total: schedules.length });
+    }
+
+    if (req.method === 'POST') {
+      const result = validateResearchScheduleInput(req.body);
+      if ('error' in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      const schedule = await createResearchSchedule(userId, result.schedule);
+      return res.status(201).json({ schedule });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Schedule limit reached') {
+      return res.status(400).json({
+        error: error.message,
+        message: `You can keep up to ${MAX_SCHEDULES_PER_USER} research schedules`,
+      });
+    }
+    console.error('Research schedules error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
@@ -0,0 +1,51 @@
+// POST /api/research/schedules/run - Start jobs for due research schedules (cron job endpoint)
+// Vercel Cron calls it with GET and the CRON_SECRET bearer token.
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { processDueSchedules } from '../../_middleware/researchSchedules.js';
+
+// Secret for cron job authentication
+const CRON_SECRET = process.env.CRON_SECRET;
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Verify cron secret for authenticated cron jobs; GET is only for Vercel Cron
+  const authHeader = req.headers.authorization;
+  const authorized = CRON_SECRET ? authHeader === `Bearer ${CRON_SECRET}` : req.method === 'POST';
+  if (!authorized) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    // Started jobs are queued; the research worker runs them
+    const result = await processDueSchedules();
+
+    return res.status(200).json({
+      success: true,
+      startedCount: result.started.length,
+      started: result.started,
+      skipped: result.skipped,
+      failed: result.failed,
+      processedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error processing research schedules:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+export default handler;
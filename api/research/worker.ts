@@ -0,0 +1,62 @@
+// POST /api/research/worker - Run queued deep research jobs (cron job endpoint)
+// Vercel Cron calls it with GET and the CRON_SECRET bearer token.
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { claimResearchJob, runResearchJob } from '../_middleware/research.js';
+
+// Secret for cron job authentication
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// Start another job only this early in an invocation, so a full-length run
+// still finishes inside the function's 300s maxDuration
+const CLAIM_WINDOW_MS = 60_000;
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Verify cron secret for authenticated cron jobs; GET is only for Vercel Cron
+  const authHeader = req.headers.authorization;
+  const authorized = CRON_SECRET ? authHeader === `Bearer ${CRON_SECRET}` : req.method === 'POST';
+  if (!authorized) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    // A tick fires every minute; keep working through the queue while there is time
+    const startedAt = Date.now();
+    const jobs: Array<{ jobId: string; attempt: number; status: string }> = [];
+
+    while (Date.now() - startedAt < CLAIM_WINDOW_MS) {
+      const job = await claimResearchJob();
+      if (!job) break;
+
+      const finished = await runResearchJob(job);
+      jobs.push({ jobId: job.id, attempt: job.attempts, status: finished?.status ?? 'cancelled' });
+    }
+
+    return res.status(200).json({
+      success: true,
+      processedCount: jobs.length,
+      jobs,
+      processedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error running research job:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+export default handler;
@@ -0,0 +1,90 @@
+// GET /api/suppliers/[id]/history - Dated risk score series for charts
+// Query: range=30d|90d|1y|3y or from/to (ISO dates), points (max points, downsampled), factors=true
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../../_middleware/auth.js';
+import { getDataEntitlements } from '../../_middleware/redaction.js';
+import { getRiskScoreHistory } from '../../_middleware/riskHistory.js';
+import { UUID_PATTERN } from '../../_middleware/watchlists.js';
+import {
+  DEFAULT_HISTORY_POINTS,
+  MAX_HISTORY_POINTS,
+  RISK_HISTORY_RANGE_DAYS,
+  getRiskHistoryRangeStart,
+  type RiskHistoryRange,
+} from '../../../src/types/riskHistory.js';
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id, range, from, to, points, factors } = req.query;
+
+  if (!id || typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+    return res.status(400).json({ error: 'A valid supplier ID is required' });
+  }
+
+  if (range !== undefined && !(typeof range === 'string' && range in RISK_HISTORY_RANGE_DAYS)) {
+    return res.status(400).json({
+      error: 'Invalid range',
+      valid: Object.keys(RISK_HISTORY_RANGE_DAYS),
+    });
+  }
+
+  const end = to === undefined ? new Date() : parseDate(to);
+  if (!end) {
+    return res.status(400).json({ error: 'to must be an ISO date' });
+  }
+  const start = from === undefined
+    ? getRiskHistoryRangeStart((range as RiskHistoryRange | undefined) ?? '90d', end)
+    : parseDate(from);
+  if (!start) {
+    return res.status(400).json({ error: 'from must be an ISO date' });
+  }
+  if (start >= end) {
+    return res.status(400).json({ error: 'from must be before to' });
+  }
+
+  const maxPoints = points === undefined ? DEFAULT_HISTORY_POINTS : Number(points);
+  if (!Number.isInteger(maxPoints) || maxPoints < 2 || maxPoints > MAX_HISTORY_POINTS) {
+    return res.status(400).json({ error: `points must be an integer from 2 to ${MAX_HISTORY_POINTS}` });
+  }
+
+  try {
+    const history = await getRiskScoreHistory(id, {
+      from: start,
+      to: end,
+      maxPoints,
+      includeFactors: factors === 'true',
+      entitlements: await getDataEntitlements(req.auth.user?.id ?? null),
+    });
+    return res.status(200).json({ history });
+  } catch (error) {
+    console.error('Error fetching risk score history:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+export default withAuthenticated(handler);
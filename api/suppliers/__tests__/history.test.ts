@@ -0,0 +1,231 @@
+// Tests for supplier risk score history - downsampling and the history endpoint
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthRequest } from '../../_middleware/auth';
+import type { RiskFactorScore } from '../../../src/db/schema';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+vi.mock('@neondatabase/serverless', () => ({
+  neon: vi.fn(() => vi.fn()),
+}));
+
+vi.mock('drizzle-orm/neon-http', () => ({
+  drizzle: vi.fn(() => ({})),
+}));
+
+vi.mock('../../_middleware/auth', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/auth')>();
+  return {
+    ...original,
+    withAuthenticated: (handler: unknown) => handler,
+  };
+});
+
+vi.mock('../../_middleware/redaction', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/redaction')>();
+  return {
+    ...original,
+    getDataEntitlements: vi.fn(async () => original.ANONYMOUS_ENTITLEMENTS),
+  };
+});
+
+vi.mock('../../_middleware/riskHistory', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/riskHistory')>();
+  return {
+    ...original,
+    getRiskScoreHistory: vi.fn(),
+  };
+});
+
+import { ANONYMOUS_ENTITLEMENTS } from '../../_middleware/redaction';
+import { downsampleHistory, getRiskScoreHistory, type HistoryRow } from '../../_middleware/riskHistory';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+const SUPPLIER_ID = '11111111-1111-4111-8111-111111111111';
+
+function createMockResponse(): VercelResponse {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as VercelResponse;
+}
+
+function createMockRequest(method: string, query: Record<string, string> = {}): AuthRequest {
+  return {
+    method,
+    query,
+    body: {},
+    headers: {},
+    auth: {
+      isAuthenticated: true,
+      user: { id: 'user-1', email: 'a@example.com' },
+    },
+  } as unknown as AuthRequest;
+}
+
+const factor = (id: string, score: number, tier: RiskFactorScore['tier'] = 'freely-displayable'): RiskFactorScore => ({
+  id,
+  name: id,
+  tier,
+  weight: 0.1,
+  score,
+});
+
+const row = (day: number, score: number, factors: RiskFactorScore[] = []): HistoryRow => ({
+  score,
+  level: score >= 70 ? 'high' : 'medium',
+  factors,
+  recordedAt: new Date(Date.UTC(2026, 0, 1 + day)),
+});
+
+const from = new Date(Date.UTC(2026, 0, 1));
+const to = new Date(Date.UTC(2026, 0, 11));
+
+// ══════════════════════════════════════════════════════════════════
+// DOWNSAMPLING
+// ══════════════════════════════════════════════════════════════════
+
+describe('downsampleHistory', () => {
+  it('returns every row when under the point limit', () => {
+    const result = downsampleHistory([row(0, 40), row(1, 45)], { from, to, maxPoints: 10 });
+
+    expect(result.downsampled).toBe(false);
+    expect(result.points.map((p) => p.score)).toEqual([40, 45]);
+    expect(result.points[0]).toMatchObject({ min: 40, max: 40, samples: 1, level: 'medium' });
+    expect(result.points[0].factors).toBeUndefined();
+  });
+
+  it('averages rows into equal-width time buckets', () => {
+    const rows = [row(0, 40), row(1, 50), row(2, 60), row(8, 80), row(9, 90)];
+    const result = downsampleHistory(rows, { from, to, maxPoints: 2 });
+
+    expect(result.downsampled).toBe(true);
+    expect(result.points).toHaveLength(2);
+    expect(result.points[0]).toMatchObject({ score: 50, min: 40, max: 60, samples: 3 });
+    expect(result.points[1]).toMatchObject({ score: 85, min: 80, max: 90, samples: 2, level: 'high' });
+    expect(result.points[1].date).toBe(rows[4].recordedAt.toISOString());
+  });
+
+  it('skips empty buckets instead of interpolating', () => {
+    const rows = [row(0, 40), row(0, 42), row(9, 70)];
+    const result = downsampleHistory(rows, { from, to, maxPoints: 2 });
+
+    expect(result.points.map((p) => p.samples)).toEqual([2, 1]);
+
+    const sparse = downsampleHistory([...rows, row(9, 72)], { from, to, maxPoints: 3 });
+    expect(sparse.points).toHaveLength(2);
+  });
+
+  it('averages factor scores and hides restricted ones', () => {
+    const rows = [
+      row(0, 40, [factor('delivery', 30), factor('financial', 60, 'restricted')]),
+      row(1, 50, [factor('delivery', 50), factor('financial', 70, 'restricted')]),
+      row(9, 60, [factor('delivery', 70), factor('financial', 80, 'restricted')]),
+    ];
+    const result = downsampleHistory(rows, { from, to, maxPoints: 2, includeFactors: true });
+
+    expect(result.points[0].factors).toEqual([
+      { id: 'delivery', name: 'delivery', score: 40, restricted: false },
+      { id: 'financial', name: 'financial', score: null, restricted: true },
+    ]);
+    expect(result.points[1].factors?.[0].score).toBe(70);
+  });
+
+  it('shows conditional factor scores only to entitled callers', () => {
+    const rows = [
+      row(0, 40, [factor('esg', 30, 'conditionally-displayable')]),
+      row(1, 50, [factor('esg', 50, 'conditionally-displayable')]),
+    ];
+
+    const hidden = downsampleHistory(rows, { from, to, maxPoints: 10, includeFactors: true });
+    const shown = downsampleHistory(rows, { from, to, maxPoints: 10, includeFactors: true, showConditional: true });
+
+    expect(hidden.points.map((point) => point.factors?.[0].score)).toEqual([null, null]);
+    expect(hidden.points[0].factors?.[0].restricted).toBe(false);
+    expect(shown.points.map((point) => point.factors?.[0].score)).toEqual([30, 50]);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// GET /api/suppliers/[id]/history
+// ══════════════════════════════════════════════════════════════════
+
+describe('GET /api/suppliers/[id]/history', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns history for the default range', async () => {
+    const history = { supplierId: SUPPLIER_ID, from: '', to: '', downsampled: false, points: [] };
+    (getRiskScoreHistory as Mock).mockResolvedValue(history);
+    const { default: handler } = await import('../[id]/history');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('GET', { id: SUPPLIER_ID }), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith({ history });
+    const [, options] = (getRiskScoreHistory as Mock).mock.calls[0];
+    expect(options.maxPoints).toBe(60);
+    expect(options.includeFactors).toBe(false);
+    expect(options.to.getTime() - options.from.getTime()).toBe(90 * 24 * 60 * 60 * 1000);
+  });
+
+  it('passes explicit dates, points and factors through', async () => {
+    (getRiskScoreHistory as Mock).mockResolvedValue({ points: [] });
+    const { default: handler } = await import('../[id]/history');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('GET', {
+      id: SUPPLIER_ID,
+      from: '2025-01-01',
+      to: '2026-01-01',
+      points: '120',
+      factors: 'true',
+    }), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(getRiskScoreHistory).toHaveBeenCalledWith(SUPPLIER_ID, {
+      from: new Date('2025-01-01'),
+      to: new Date('2026-01-01'),
+      maxPoints: 120,
+      includeFactors: true,
+      entitlements: ANONYMOUS_ENTITLEMENTS,
+    });
+  });
+
+  it.each([
+    [{ id: 'sup-1' }],
+    [{ id: SUPPLIER_ID, range: '5y' }],
+    [{ id: SUPPLIER_ID, from: 'yesterday' }],
+    [{ id: SUPPLIER_ID, from: '2026-02-01', to: '2026-01-01' }],
+    [{ id: SUPPLIER_ID, points: '1' }],
+    [{ id: SUPPLIER_ID, points: '10000' }],
+  ])('rejects invalid query %j', async (query) => {
+    const { default: handler } = await import('../[id]/history');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('GET', query), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(getRiskScoreHistory).not.toHaveBeenCalled();
+  });
+
+  it('rejects other methods', async () => {
+    const { default: handler } = await import('../[id]/history');
+    const res = createMockResponse();
+
+    await handler(createMockRequest('POST', { id: SUPPLIER_ID }), res);
+
+    expect(res.status).toHaveBeenCalledWith(405);
+  });
+});
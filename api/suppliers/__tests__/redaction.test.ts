@@ -0,0 +1,279 @@
+// Tests for partner data tier redaction - entitlements, factor masking and the portfolio API
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthRequest } from '../../_middleware/auth';
+import type { Supplier } from '../../../src/services/supplierService';
+
+// ══════════════════════════════════════════════════════════════════
+// MOCKS
+// ══════════════════════════════════════════════════════════════════
+
+const mockDb = vi.hoisted(() => ({
+  select: vi.fn(),
+}));
+
+vi.mock('@neondatabase/serverless', () => ({
+  neon: vi.fn(() => vi.fn()),
+}));
+
+vi.mock('drizzle-orm/neon-http', () => ({
+  drizzle: vi.fn(() => mockDb),
+}));
+
+vi.mock('../../_middleware/auth', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../_middleware/auth')>();
+  return {
+    ...original,
+    withAuth: (handler: unknown) => handler,
+  };
+});
+
+vi.mock('../../_middleware/organization', () => ({
+  getOrgContext: vi.fn(),
+}));
+
+vi.mock('../../../src/services/supplierService', () => ({
+  getPortfolioSummary: vi.fn(),
+  getAllSuppliers: vi.fn(),
+  getSupplierByName: vi.fn(),
+  getHighRiskSuppliers: vi.fn(),
+  getRecentRiskChanges: vi.fn(),
+  searchSuppliers: vi.fn(),
+}));
+
+import {
+  ANONYMOUS_ENTITLEMENTS,
+  getDataEntitlements,
+  redactFactors,
+  redactSupplier,
+  type DataEntitlements,
+} from '../../_middleware/redaction';
+import { getOrgContext } from '../../_middleware/organization';
+import {
+  getAllSuppliers,
+  getHighRiskSuppliers,
+  getPortfolioSummary,
+  getRecentRiskChanges,
+  getSupplierByName,
+  searchSuppliers,
+} from '../../../src/services/supplierService';
+
+// ══════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════
+
+// Distinctive values so a leak shows up in serialized output
+const RESTRICTED_SCORE = 9137;
+const RESTRICTED_RATING = 'Partner-Critical';
+const CONDITIONAL_SCORE = 4271;
+
+const STARTER: DataEntitlements = { subscriptionTier: 'starter', activatedCategories: [] };
+const ENTERPRISE: DataEntitlements = { subscriptionTier: 'enterprise', activatedCategories: ['metals'] };
+
+function createMockResponse(): VercelResponse {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as VercelResponse;
+}
+
+function createMockRequest(query: Record<string, string>, userId: string | null = 'user-1'): AuthRequest {
+  return {
+    method: 'GET',
+    query,
+    body: {},
+    headers: {},
+    auth: {
+      isAuthenticated: userId !== null,
+      user: userId ? { id: userId, email: 'a@example.com' } : null,
+    },
+  } as unknown as AuthRequest;
+}
+
+function makeSupplier(category = 'Metals'): Supplier {
+  return {
+    id: 'supplier-1',
+    name: 'Acme Metals',
+    duns: '123456789',
+    category,
+    industry: 'Manufacturing',
+    location: { city: 'Lyon', country: 'France', region: 'Europe' },
+    spend: 2_500_000,
+    spendFormatted: '$2.5M',
+    criticality: 'high',
+    revenue: null,
+    isFollowed: true,
+    srs: {
+      score: 64,
+      level: 'medium-high',
+      trend: 'worsening',
+      lastUpdated: '2026-09-01T00:00:00.000Z',
+      scoreHistory: [],
+      factors: [
+        { id: 'overall_srs', name: 'Overall SRS', tier: 'freely-displayable', weight: 1, score: 64 },
+        { id: 'esg', name: 'ESG Score', tier: 'conditionally-displayable', weight: 0.2, score: CONDITIONAL_SCORE, rating: 'Medium' },
+        { id: 'financial', name: 'Financial Score', tier: 'restricted', weight: 0.3, score: RESTRICTED_SCORE, rating: RESTRICTED_RATING },
+        { id: 'sanctions', name: 'Sanctions', tier: 'restricted', weight: 0.1, score: RESTRICTED_SCORE },
+      ],
+    },
+  };
+}
+
+function expectNoRestrictedData(payload: unknown) {
+  const json = JSON.stringify(payload);
+  expect(json).not.toContain(String(RESTRICTED_SCORE));
+  expect(json).not.toContain(RESTRICTED_RATING);
+}
+
+function mockActivatedCategories(names: string[]) {
+  mockDb.select.mockReturnValue({
+    from: vi.fn().mockReturnValue({
+      innerJoin: vi.fn().mockReturnValue({
+        where: vi.fn().mockResolvedValue(names.map((name) => ({ name }))),
+      }),
+    }),
+  });
+}
+
+// ══════════════════════════════════════════════════════════════════
+// ENTITLEMENTS
+// ══════════════════════════════════════════════════════════════════
+
+describe('getDataEntitlements', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('gives anonymous callers and users without a company nothing extra', async () => {
+    expect(await getDataEntitlements(null)).toEqual(ANONYMOUS_ENTITLEMENTS);
+
+    (getOrgContext as Mock).mockResolvedValue(null);
+    expect(await getDataEntitlements('user-1')).toEqual(ANONYMOUS_ENTITLEMENTS);
+    expect(mockDb.select).not.toHaveBeenCalled();
+  });
+
+  it('reads the plan and activated categories of the caller\'s company', async () => {
+    (getOrgContext as Mock).mockResolvedValue({
+      company: { id: 'company-1' },
+      creditAccount: { subscriptionTier: 'Professional' },
+    });
+    mockActivatedCategories(['Metals', 'Packaging']);
+
+    expect(await getDataEntitlements('user-1')).toEqual({
+      subscriptionTier: 'professional',
+      activatedCategories: ['metals', 'packaging'],
+    });
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// REDACTION
+// ══════════════════════════════════════════════════════════════════
+
+describe('redactFactors', () => {
+  const factors = makeSupplier().srs.factors;
+
+  it('strips restricted scores and ratings at every entitlement level', () => {
+    for (const entitlements of [ANONYMOUS_ENTITLEMENTS, STARTER, ENTERPRISE]) {
+      const redacted = redactFactors(factors, 'Metals', entitlements);
+      const financial = redacted.find((f) => f.id === 'financial')!;
+
+      expect(financial).toEqual({ id: 'financial', name: 'Financial Score', tier: 'restricted', weight: 0.3 });
+      expect('score' in financial).toBe(false);
+      expectNoRestrictedData(redacted);
+    }
+  });
+
+  it('masks conditional scores to their rating without an entitlement', () => {
+    const esg = redactFactors(factors, 'Metals', STARTER).find((f) => f.id === 'esg')!;
+    expect(esg).toEqual({ id: 'esg', name: 'ESG Score', tier: 'conditionally-displayable', weight: 0.2, rating: 'Medium' });
+  });
+
+  it('shows conditional scores on business plans and above', () => {
+    const esg = redactFactors(factors, 'Metals', { subscriptionTier: 'business', activatedCategories: [] })
+      .find((f) => f.id === 'esg')!;
+    expect(esg.score).toBe(CONDITIONAL_SCORE);
+  });
+
+  it('shows conditional scores for activated categories on any plan', () => {
+    const entitlements = { subscriptionTier: 'starter' as const, activatedCategories: ['metals'] };
+    expect(redactFactors(factors, 'Metals', entitlements).find((f) => f.id === 'esg')!.score).toBe(CONDITIONAL_SCORE);
+    expect(redactFactors(factors, 'Chemicals', entitlements).find((f) => f.id === 'esg')!.score).toBeUndefined();
+  });
+
+  it('always shows freely displayable factors', () => {
+    const overall = redactFactors(factors, 'Metals', ANONYMOUS_ENTITLEMENTS).find((f) => f.id === 'overall_srs')!;
+    expect(overall.score).toBe(64);
+  });
+
+  it('does not modify the supplier it was given', () => {
+    const supplier = makeSupplier();
+    redactSupplier(supplier, ANONYMOUS_ENTITLEMENTS);
+    expect(supplier.srs.factors[2].score).toBe(RESTRICTED_SCORE);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// PORTFOLIO API
+// ══════════════════════════════════════════════════════════════════
+
+describe('GET /api/suppliers/portfolio', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getOrgContext as Mock).mockResolvedValue({
+      company: { id: 'company-1' },
+      creditAccount: { subscriptionTier: 'enterprise' },
+    });
+    mockActivatedCategories(['Metals']);
+    (getPortfolioSummary as Mock).mockResolvedValue({ totalSuppliers: 1 });
+    (getAllSuppliers as Mock).mockResolvedValue([makeSupplier()]);
+    (getHighRiskSuppliers as Mock).mockResolvedValue([makeSupplier()]);
+    (getRecentRiskChanges as Mock).mockResolvedValue([]);
+    (getSupplierByName as Mock).mockResolvedValue(makeSupplier());
+    (searchSuppliers as Mock).mockResolvedValue([makeSupplier()]);
+  });
+
+  it.each([
+    ['portfolio', {}],
+    ['search', { query: 'Acme' }],
+    ['filter', { filters: '{}' }],
+  ])('never returns restricted scores from the %s action', async (action, params) => {
+    const { default: handler } = await import('../portfolio');
+    const res = createMockResponse();
+
+    await handler(createMockRequest({ action, ...params }), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    const payload = (res.json as Mock).mock.calls[0][0];
+    expectNoRestrictedData(payload);
+    // Entitled to conditional data, so that still comes through
+    expect(JSON.stringify(payload)).toContain(String(CONDITIONAL_SCORE));
+  });
+
+  it('never returns restricted scores from fuzzy search results', async () => {
+    (getSupplierByName as Mock).mockResolvedValue(null);
+    const { default: handler } = await import('../portfolio');
+    const res = createMockResponse();
+
+    await handler(createMockRequest({ action: 'search', query: 'Acm' }), res);
+
+    expectNoRestrictedData((res.json as Mock).mock.calls[0][0]);
+  });
+
+  it('masks conditional scores for anonymous callers', async () => {
+    const { default: handler } = await import('../portfolio');
+    const res = createMockResponse();
+
+    await handler(createMockRequest({ action: 'portfolio' }, null), res);
+
+    const payload = (res.json as Mock).mock.calls[0][0];
+    expect(getOrgContext).not.toHaveBeenCalled();
+    expectNoRestrictedData(payload);
+    expect(JSON.stringify(payload)).not.toContain(String(CONDITIONAL_SCORE));
+    expect(payload.suppliers[0].srs.factors.map((f: { id: string }) => f.id))
+      .toEqual(['overall_srs', 'esg', 'financial', 'sanctions']);
+  });
+});
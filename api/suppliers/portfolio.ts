@@ -1,5 +1,6 @@
 // Supplier Portfolio API - Get supplier data for AI responses
-import type { VercelRequest, VercelResponse } from '@vercel/node';
+// Factors are redacted to the caller's entitlements; anonymous callers get the most restricted view
+import type { VercelResponse } from '@vercel/node';
 import { neon } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-http';
 import {
@@ -13,6 +14,8 @@ import {
   type RiskPortfolio,
   type RiskChange,
 } from '../../src/services/supplierService.js';
+import { withAuth, type AuthRequest } from '../_middleware/auth.js';
+import { getDataEntitlements, redactSupplier, redactSuppliers } from '../_middleware/redaction.js';
 
 function getDb() {
   const sql = neon(process.env.DATABASE_URL!);
@@ -26,11 +29,12 @@ export interface PortfolioDataResponse {
   riskChanges: RiskChange[];
 }
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
+async function handler(req: AuthRequest, res: VercelResponse) {
   // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
@@ -43,6 +47,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   const db = getDb();
 
   try {
+    const entitlements = await getDataEntitlements(req.auth.user?.id ?? null);
     const { action, query, filters } = req.method === 'POST'
       ? req.body
       : req.query;
@@ -59,8 +64,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         return res.status(200).json({
           portfolio,
-          suppliers,
-          highRiskSuppliers,
+          suppliers: redactSuppliers(suppliers, entitlements),
+          highRiskSuppliers: redactSuppliers(highRiskSuppliers, entitlements),
           riskChanges,
         } as PortfolioDataResponse);
       }
@@ -76,17 +81,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         if (!supplier) {
           // Try fuzzy search
           const results = await searchSuppliers(db, searchQuery, 5);
-          return res.status(200).json({ suppliers: results, found: results.length > 0 });
+          return res.status(200).json({ suppliers: redactSuppliers(results, entitlements), found: results.length > 0 });
         }
 
-        return res.status(200).json({ supplier, found: true });
+        return res.status(200).json({ supplier: redactSupplier(supplier, entitlements), found: true });
       }
 
       case 'filter': {
         // Get filtered suppliers
         const parsedFilters = typeof filters === 'string' ? JSON.parse(filters) : filters;
         const suppliers = await getAllSuppliers(db, parsedFilters);
-        return res.status(200).json({ suppliers, count: suppliers.length });
+        return res.status(200).json({ suppliers: redactSuppliers(suppliers, entitlements), count: suppliers.length });
       }
 
       case 'changes': {
@@ -106,3 +111,5 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(500).json({ error: 'Internal server error' });
   }
 }
+
+export default withAuth(handler);
@@ -0,0 +1,99 @@
+// POST /api/suppliers/scores - Ingest supplier risk score updates (data feed / job endpoint)
+// Body: { updates: [{ supplierId, score, level?, reason?, factors? }] }
+// Every score is appended to supplier_risk_score_history; each moved score is
+// also logged to risk_changes and checked against alert rules.
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { recordRiskScore } from '../_middleware/alerts.js';
+import type { RiskFactorScore } from '../../src/db/schema.js';
+
+// Same shared secret as the cron endpoints
+const CRON_SECRET = process.env.CRON_SECRET;
+
+const MAX_UPDATES = 500;
+
+interface ScoreUpdate {
+  supplierId: string;
+  score: number;
+  level?: string;
+  reason?: string;
+  factors?: RiskFactorScore[];
+}
+
+const FACTOR_TIERS = ['freely-displayable', 'conditionally-displayable', 'restricted'];
+
+function isFactorScore(value: unknown): value is RiskFactorScore {
+  if (!value || typeof value !== 'object') return false;
+  const factor = value as Record<string, unknown>;
+  return typeof factor.id === 'string'
+    && typeof factor.name === 'string'
+    && FACTOR_TIERS.includes(factor.tier as string)
+    && typeof factor.weight === 'number'
+    && (factor.score === undefined || typeof factor.score === 'number')
+    && (factor.rating === undefined || typeof factor.rating === 'string');
+}
+
+function isScoreUpdate(value: unknown): value is ScoreUpdate {
+  if (!value || typeof value !== 'object') return false;
+  const update = value as Record<string, unknown>;
+  return typeof update.supplierId === 'string'
+    && typeof update.score === 'number'
+    && Number.isInteger(update.score)
+    && update.score >= 0
+    && update.score <= 100
+    && (update.level === undefined || typeof update.level === 'string')
+    && (update.reason === undefined || typeof update.reason === 'string')
+    && (update.factors === undefined || (Array.isArray(update.factors) && update.factors.every(isFactorScore)));
+}
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const authHeader = req.headers.authorization;
+  if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { updates } = (req.body || {}) as { updates?: unknown };
+  if (!Array.isArray(updates) || updates.length === 0 || updates.length > MAX_UPDATES) {
+    return res.status(400).json({ error: `updates must be a list of 1-${MAX_UPDATES} score updates` });
+  }
+  if (!updates.every(isScoreUpdate)) {
+    return res.status(400).json({ error: 'Each update needs a supplierId and an integer score from 0 to 100' });
+  }
+
+  let changed = 0;
+  let alertsFired = 0;
+  const failed: string[] = [];
+
+  for (const update of updates) {
+    try {
+      const result = await recordRiskScore(update.supplierId, update);
+      if (result.change) changed++;
+      alertsFired += result.alertsFired;
+    } catch (error) {
+      console.error(`Failed to record risk score for ${update.supplierId}:`, error);
+      failed.push(update.supplierId);
+    }
+  }
+
+  return res.status(200).json({
+    success: failed.length === 0,
+    received: updates.length,
+    changed,
+    alertsFired,
+    failed,
+  });
+}
+
+export default handler;
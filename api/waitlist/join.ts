@@ -6,10 +6,10 @@ import { eq } from 'drizzle-orm';
 import { waitlist, users } from '../../src/db/schema.js';
 import { validateEmail } from '../../src/services/auth.js';
 import {
-  checkRateLimit,
   getRateLimitKey,
   RATE_LIMITS,
 } from '../../src/services/security.js';
+import { consumeRateLimit } from '../_middleware/rateLimit.js';
 
 const getDb = () => {
   const sql = neon(process.env.DATABASE_URL!);
@@ -33,7 +33,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   // Rate limiting
   const ip = (req.headers['x-forwarded-for'] as string)?.split(',')[0] || 'unknown';
-  const rateLimitResult = checkRateLimit(
+  const rateLimitResult = await consumeRateLimit(
+    res,
     getRateLimitKey(ip, '/api/waitlist/join'),
     RATE_LIMITS.waitlist
   );
@@ -0,0 +1,65 @@
+// PATCH /api/watchlists/[id] - Rename a watchlist ({ name })
+// DELETE /api/watchlists/[id] - Delete a watchlist (its suppliers stay followed)
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../_middleware/auth.js';
+import {
+  deleteWatchlist,
+  renameWatchlist,
+  validateWatchlistName,
+} from '../_middleware/watchlists.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'PATCH, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'PATCH' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Watchlist ID is required' });
+  }
+
+  const userId = req.auth.user!.id;
+
+  try {
+    if (req.method === 'DELETE') {
+      const deleted = await deleteWatchlist(userId, id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Watchlist not found' });
+      }
+      return res.status(200).json({ success: true });
+    }
+
+    const result = validateWatchlistName((req.body || {}).name);
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    const renamed = await renameWatchlist(userId, id, result.name);
+    if (!renamed) {
+      return res.status(404).json({ error: 'Watchlist not found' });
+    }
+    return res.status(200).json({ success: true, name: result.name });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Watchlist name already exists') {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Watchlist error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
@@ -0,0 +1,53 @@
+// GET /api/watchlists - The current user's named watchlists with supplier counts
+// POST /api/watchlists - Create a watchlist ({ name })
+import type { VercelResponse } from '@vercel/node';
+import {
+  withAuthenticated,
+  type AuthRequest,
+} from '../_middleware/auth.js';
+import {
+  createWatchlist,
+  listWatchlists,
+  validateWatchlistName,
+} from '../_middleware/watchlists.js';
+
+async function handler(req: AuthRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const userId = req.auth.user!.id;
+
+  try {
+    if (req.method === 'GET') {
+      const watchlists = await listWatchlists(userId);
+      return res.status(200).json({ watchlists });
+    }
+
+    if (req.method === 'POST') {
+      const result = validateWatchlistName((req.body || {}).name);
+      if ('error' in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      const watchlist = await createWatchlist(userId, result.name);
+      return res.status(201).json({ watchlist });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Watchlist name already exists') {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Watchlists error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAuthenticated(handler);
@@ -0,0 +1,28 @@
+CREATE TABLE "approval_steps" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"request_id" uuid NOT NULL,
+	"rule_id" uuid,
+	"step_order" integer NOT NULL,
+	"approver_role" text NOT NULL,
+	"status" text DEFAULT 'waiting' NOT NULL,
+	"approver_id" uuid,
+	"escalation_hours" integer,
+	"decided_by" uuid,
+	"decision_reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"activated_at" timestamp,
+	"decided_at" timestamp,
+	CONSTRAINT "approval_steps_request_order_unique" UNIQUE("request_id","step_order")
+);
+--> statement-breakpoint
+ALTER TABLE "approval_rules" ADD COLUMN "request_type" text;--> statement-breakpoint
+ALTER TABLE "approval_rules" ADD COLUMN "team_id" uuid;--> statement-breakpoint
+ALTER TABLE "approval_rules" ADD COLUMN "category" text;--> statement-breakpoint
+ALTER TABLE "approval_rules" ADD COLUMN "steps" jsonb;--> statement-breakpoint
+ALTER TABLE "approval_steps" ADD CONSTRAINT "approval_steps_request_id_approval_requests_id_fk" FOREIGN KEY ("request_id") REFERENCES "public"."approval_requests"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "approval_steps" ADD CONSTRAINT "approval_steps_rule_id_approval_rules_id_fk" FOREIGN KEY ("rule_id") REFERENCES "public"."approval_rules"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "approval_steps" ADD CONSTRAINT "approval_steps_approver_id_users_id_fk" FOREIGN KEY ("approver_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "approval_steps" ADD CONSTRAINT "approval_steps_decided_by_users_id_fk" FOREIGN KEY ("decided_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "approval_steps_request_idx" ON "approval_steps" USING btree ("request_id");--> statement-breakpoint
+CREATE INDEX "approval_steps_approver_status_idx" ON "approval_steps" USING btree ("approver_id","status");--> statement-breakpoint
+ALTER TABLE "approval_rules" ADD CONSTRAINT "approval_rules_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
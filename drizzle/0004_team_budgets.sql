@@ -0,0 +1,7 @@
+ALTER TABLE "credit_allocations" ADD COLUMN "closed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "credit_holds" ADD COLUMN "team_id" uuid;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD COLUMN "team_id" uuid;--> statement-breakpoint
+ALTER TABLE "credit_holds" ADD CONSTRAINT "credit_holds_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "credit_holds_team_status_idx" ON "credit_holds" USING btree ("team_id","status");--> statement-breakpoint
+CREATE INDEX "ledger_entries_team_created_idx" ON "ledger_entries" USING btree ("team_id","created_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "notifications" ADD COLUMN "action" jsonb;--> statement-breakpoint
+ALTER TABLE "notifications" ADD COLUMN "dismissed_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "watchlist_entries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"watchlist_id" uuid NOT NULL,
+	"portfolio_entry_id" uuid NOT NULL,
+	"added_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "watchlist_entries_unique" UNIQUE("watchlist_id","portfolio_entry_id")
+);
+--> statement-breakpoint
+CREATE TABLE "watchlists" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "watchlists_user_name_unique" UNIQUE("user_id","name")
+);
+--> statement-breakpoint
+ALTER TABLE "watchlist_entries" ADD CONSTRAINT "watchlist_entries_watchlist_id_watchlists_id_fk" FOREIGN KEY ("watchlist_id") REFERENCES "public"."watchlists"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "watchlist_entries" ADD CONSTRAINT "watchlist_entries_portfolio_entry_id_user_portfolios_id_fk" FOREIGN KEY ("portfolio_entry_id") REFERENCES "public"."user_portfolios"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "watchlists" ADD CONSTRAINT "watchlists_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "watchlist_entries_portfolio_entry_idx" ON "watchlist_entries" USING btree ("portfolio_entry_id");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "supplier_imports" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"file_name" text NOT NULL,
+	"status" text DEFAULT 'pending_review' NOT NULL,
+	"rows" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"result" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"confirmed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "user_portfolios" ADD COLUMN "spend" integer;--> statement-breakpoint
+ALTER TABLE "supplier_imports" ADD CONSTRAINT "supplier_imports_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "supplier_imports_user_id_idx" ON "supplier_imports" USING btree ("user_id");
\ No newline at end of file
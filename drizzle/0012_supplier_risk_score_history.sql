@@ -0,0 +1,14 @@
+CREATE TABLE "supplier_risk_score_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"supplier_id" uuid NOT NULL,
+	"score" integer NOT NULL,
+	"level" text NOT NULL,
+	"factors" jsonb DEFAULT '[]'::jsonb,
+	"recorded_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "supplier_risk_score_history" ADD CONSTRAINT "supplier_risk_score_history_supplier_id_suppliers_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."suppliers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "supplier_risk_score_history_supplier_recorded_idx" ON "supplier_risk_score_history" USING btree ("supplier_id","recorded_at");--> statement-breakpoint
+-- Seed each rated supplier's current score so existing suppliers start with one dated point
+INSERT INTO "supplier_risk_score_history" ("supplier_id", "score", "level", "factors", "recorded_at")
+SELECT "supplier_id", "score", "level", "factors", "last_updated" FROM "supplier_risk_scores" WHERE "level" <> 'unrated';
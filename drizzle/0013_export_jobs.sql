@@ -0,0 +1,19 @@
+CREATE TABLE "export_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"context" text NOT NULL,
+	"format" text NOT NULL,
+	"filename" text NOT NULL,
+	"request" jsonb NOT NULL,
+	"status" text NOT NULL,
+	"error" text,
+	"content" text,
+	"byte_size" integer,
+	"row_count" integer,
+	"omitted_factor_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "export_jobs" ADD CONSTRAINT "export_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "export_jobs_user_created_idx" ON "export_jobs" USING btree ("user_id","created_at");
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE "research_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"company_id" uuid,
+	"query" text NOT NULL,
+	"study_type" text NOT NULL,
+	"status" text DEFAULT 'intake' NOT NULL,
+	"intake" jsonb,
+	"intake_answers" jsonb,
+	"progress" jsonb,
+	"report" jsonb,
+	"error" jsonb,
+	"credits_required" integer NOT NULL,
+	"sequence" integer DEFAULT 0 NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"locked_until" timestamp,
+	"started_at" timestamp,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "research_jobs" ADD CONSTRAINT "research_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "research_jobs" ADD CONSTRAINT "research_jobs_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "research_jobs_user_created_idx" ON "research_jobs" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "research_jobs_status_idx" ON "research_jobs" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "research_reports" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"lineage_id" uuid DEFAULT gen_random_uuid() NOT NULL,
+	"version" integer DEFAULT 1 NOT NULL,
+	"user_id" uuid NOT NULL,
+	"company_id" uuid,
+	"job_id" uuid,
+	"title" text NOT NULL,
+	"query" text NOT NULL,
+	"study_type" text NOT NULL,
+	"category" text,
+	"report_number" text,
+	"report" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "research_reports_lineage_version_unique" UNIQUE("lineage_id","version")
+);
+--> statement-breakpoint
+ALTER TABLE "research_jobs" ADD COLUMN "report_lineage_id" uuid;--> statement-breakpoint
+ALTER TABLE "research_jobs" ADD COLUMN "report_id" uuid;--> statement-breakpoint
+ALTER TABLE "research_reports" ADD CONSTRAINT "research_reports_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "research_reports" ADD CONSTRAINT "research_reports_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "research_reports" ADD CONSTRAINT "research_reports_job_id_research_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."research_jobs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "research_reports_company_created_idx" ON "research_reports" USING btree ("company_id","created_at");--> statement-breakpoint
+CREATE INDEX "research_reports_user_created_idx" ON "research_reports" USING btree ("user_id","created_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "research_jobs" ADD COLUMN "hold_id" uuid;--> statement-breakpoint
+ALTER TABLE "research_jobs" ADD COLUMN "approval_request_id" uuid;
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "research_schedules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"company_id" uuid,
+	"name" text NOT NULL,
+	"query" text NOT NULL,
+	"study_type" text NOT NULL,
+	"intake_answers" jsonb NOT NULL,
+	"cadence" text NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"next_run_at" timestamp NOT NULL,
+	"last_run_at" timestamp,
+	"last_job_id" uuid,
+	"report_lineage_id" uuid DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "research_jobs" ADD COLUMN "schedule_id" uuid;--> statement-breakpoint
+ALTER TABLE "research_schedules" ADD CONSTRAINT "research_schedules_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "research_schedules" ADD CONSTRAINT "research_schedules_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "research_schedules_user_idx" ON "research_schedules" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "research_schedules_due_idx" ON "research_schedules" USING btree ("is_active","next_run_at");--> statement-breakpoint
+ALTER TABLE "research_jobs" ADD CONSTRAINT "research_jobs_schedule_id_research_schedules_id_fk" FOREIGN KEY ("schedule_id") REFERENCES "public"."research_schedules"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE UNIQUE INDEX "report_templates_company_name_unique" ON "report_templates" USING btree ("company_id",lower("name"));
\ No newline at end of file
@@ -10,6 +10,9 @@ const db = drizzle(sql);
 // Sample visitor ID for demo data
 const DEMO_VISITOR_ID = 'demo-user-001';
 
+// Conversations are scoped to their owner; seed them for the demo admin persona
+const DEMO_USER_ID = '550e8400-e29b-41d4-a716-446655440010';
+
 const SEED_CONVERSATIONS = [
   {
     title: 'High-risk suppliers in Asia Pacific',
@@ -90,6 +93,7 @@ async function seedConversations() {
     // Create conversation
     const [newConv] = await db.insert(conversations).values({
       visitorId: DEMO_VISITOR_ID,
+      userId: DEMO_USER_ID,
       title: conv.title,
       category: conv.category,
     }).returning();
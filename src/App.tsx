@@ -11,7 +11,7 @@ import { AskQuestionView } from './views/AskQuestionView';
 import { ManagedCategoriesView } from './views/ManagedCategoriesView';
 import { ExpertDashboardView } from './views/ExpertDashboardView';
 import { ExpertMarketplaceView } from './views/ExpertMarketplaceView';
-import { ApprovalWorkflowView } from './views/ApprovalWorkflowView';
+import { ApprovalWorkflowView, type ApprovalFilterTab } from './views/ApprovalWorkflowView';
 import { SettingsView } from './views/SettingsView';
 import { OnboardingView } from './views/OnboardingView';
 import { useSession } from './hooks/useSession';
@@ -22,11 +22,14 @@ import { AIResponse } from './components/chat/AIResponse';
 import { ThoughtProcess } from './components/chat/ThoughtProcess';
 import { ChatInput, type BuilderMetadata } from './components/chat/ChatInput';
 import type { AIResponse as AIResponseType, Milestone } from './services/ai';
-import { sendMessage, confirmDeepResearchIntake, executeDeepResearch } from './services/ai';
+import { sendMessage, confirmDeepResearchIntake } from './services/ai';
+import { cancelResearch, getResearch, isServerResearchJob } from './services/researchService';
+import { getLibraryReport } from './services/reportLibraryService';
 import { submitRequest } from './services/approvalService';
+import { apiFetch } from './services/api';
 import { DeepResearchMessage } from './components/chat/DeepResearchMessage';
 import { ResearchCommandCenter } from './components/chat/ResearchCommandCenter';
-import type { IntakeAnswers, DeepResearchResponse, CommandCenterProgress } from './types/deepResearch';
+import type { IntakeAnswers, DeepResearchResponse, DeepResearchEvent, CommandCenterProgress, LibraryReport } from './types/deepResearch';
 import { createInitialProgress } from './types/deepResearch';
 import { buildResponseSources, getSourceReportData } from './utils/sources';
 import { generateReportPdf } from './utils/generateReportPdf';
@@ -50,15 +53,18 @@ import { ToastContainer, useToasts } from './components/ui/Toast';
 import { MOCK_SUBSCRIPTION, MOCK_TRANSACTIONS } from './services/mockSubscription';
 import { fetchCreditData } from './services/creditService';
 import type { CreditTransaction } from './types/subscription';
+import type { TeamBalance } from './types/creditLedger';
 // Notifications
 import { NotificationDrawer } from './components/notifications/NotificationDrawer';
-import { getMockNotifications } from './services/notificationService';
+import { useNotifications } from './hooks/useNotifications';
+import { getMessageResearch, useResearchStreams } from './hooks/useResearchStreams';
+import { getAllSuppliers, clearCache as clearSupplierCache } from './services/supplierDataClient';
 import type { AppNotification } from './types/notifications';
 import { MOCK_SLOT_SUMMARY, getManagedCategoryNames } from './services/mockCategories';
 import type { CompanySubscription } from './types/subscription';
 import { CREDIT_COSTS } from './types/subscription';
-import type { RequestContext } from './types/requests';
-import type { Supplier, RiskChange, RiskPortfolio } from './types/supplier';
+import type { RequestContext, SubmitRequestResponse } from './types/requests';
+import type { Supplier, RiskChange, RiskPortfolio, RiskLevel } from './types/supplier';
 import type { Portfolio } from './types/data';
 import type { InsightDetailData } from './utils/insightBuilder';
 import type { ResponseInsight } from './types/aiResponse';
@@ -89,47 +95,31 @@ interface Message {
   isNew?: boolean; // Flag to trigger staggered animation
 }
 
-// Get visitor ID for persistence
-// DEMO MODE: Using shared visitor ID
-function getVisitorId(): string {
-  return 'demo-user-001';
-}
-
 // API helpers for chat persistence
+// The server scopes conversations to the session user or signed visitor cookie
 async function createConversation(title: string, category = 'general') {
-  const res = await fetch('/api/conversations', {
+  return apiFetch<{ id: string }>('/api/conversations', {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ visitorId: getVisitorId(), title, category }),
+    body: JSON.stringify({ title, category }),
   });
-  if (!res.ok) throw new Error('Failed to create conversation');
-  return res.json();
 }
 
 async function saveMessage(conversationId: string, role: 'user' | 'assistant', content: string, metadata?: unknown) {
-  const res = await fetch('/api/messages', {
+  return apiFetch<DatabaseMessage>('/api/messages', {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ conversationId, role, content, metadata }),
   });
-  if (!res.ok) throw new Error('Failed to save message');
-  return res.json();
 }
 
 async function fetchConversation(id: string) {
-  const res = await fetch(`/api/conversations/${id}`);
-  if (!res.ok) throw new Error('Failed to fetch conversation');
-  return res.json();
+  return apiFetch<{ id: string; title: string; messages: DatabaseMessage[] }>(`/api/conversations/${id}`);
 }
 
 async function updateConversationCategory(id: string, category: string) {
-  const res = await fetch(`/api/conversations/${id}`, {
+  return apiFetch(`/api/conversations/${id}`, {
     method: 'PATCH',
-    headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ category }),
   });
-  if (!res.ok) throw new Error('Failed to update conversation');
-  return res.json();
 }
 
 // Map AI intent to conversation category (uses actual IntentCategory values from types/intents.ts)
@@ -201,6 +191,8 @@ function getArtifactLayerInfo(
     'alert_config',
     'assessment_request',
     'community_embed',
+    'research_schedules',
+    'report_templates',
   ];
   if (utilityArtifacts.includes(type)) {
     return {}; // No layer badge for utility artifacts
@@ -271,6 +263,7 @@ function App() {
   const [isPanelOpen, setIsPanelOpen] = useState(false);
   const [isArtifactExpanded, setIsArtifactExpanded] = useState(false);
   const [viewState, setViewStateRaw] = useState<ViewState>('home');
+  const [approvalsTab, setApprovalsTab] = useState<ApprovalFilterTab | undefined>();
 
   // Community views are parked in demo mode - gate navigation
   const COMMUNITY_VIEWS: ViewState[] = ['community', 'community-detail', 'ask-question'];
@@ -312,6 +305,7 @@ function App() {
   // Phase 2: Subscription state - fetched from live API
   const [subscription, setSubscription] = useState<CompanySubscription>(MOCK_SUBSCRIPTION);
   const [transactions, setTransactions] = useState<CreditTransaction[]>(MOCK_TRANSACTIONS);
+  const [teamBalance, setTeamBalance] = useState<TeamBalance | null>(null);
   const [isCreditLoading, setIsCreditLoading] = useState(false);
   const [creditError, setCreditError] = useState<string | null>(null);
   const [isCreditDrawerOpen, setIsCreditDrawerOpen] = useState(false);
@@ -323,7 +317,13 @@ function App() {
 
   // Notifications state
   const [isNotificationDrawerOpen, setIsNotificationDrawerOpen] = useState(false);
-  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const {
+    notifications,
+    unreadCount: unreadNotificationCount,
+    markAsRead: handleMarkNotificationAsRead,
+    markAllAsRead: handleMarkAllNotificationsAsRead,
+    dismiss: handleDismissNotification,
+  } = useNotifications(isAuthenticated, isNotificationDrawerOpen);
 
   // Fetch credit balance from live API
   const refreshCredits = useCallback(async () => {
@@ -333,6 +333,7 @@ function App() {
       const data = await fetchCreditData();
       setSubscription(data.subscription);
       setTransactions(data.transactions);
+      setTeamBalance(data.teamBalance);
     } catch (err) {
       console.warn('[App] Failed to fetch credit data, using mock:', err);
       // Keep using mock data on failure
@@ -356,11 +357,6 @@ function App() {
     ));
   }, []);
 
-  // Load notifications on mount
-  useEffect(() => {
-    setNotifications(getMockNotifications());
-  }, []);
-
   // Deep Research toggle handler - manages web search state
   const handleToggleDeepResearch = useCallback((enabled: boolean) => {
     if (enabled) {
@@ -454,6 +450,7 @@ function App() {
       riskChanges: response.riskChanges,
       // Pass widget data for inflation artifacts
       widgetData: response.widget?.data as Record<string, unknown> | undefined,
+      filters: response.artifact?.filters,
     });
 
     if (!payload) {
@@ -468,8 +465,6 @@ function App() {
         'trend_analysis',
         'category_overview',
         'regional_analysis',
-        'watchlist_manage',
-        'assessment_request',
       ]);
 
       if (!fallbackArtifacts.has(artifactType)) {
@@ -502,6 +497,48 @@ function App() {
       case 'export_complete':
         console.log('Export complete:', data);
         break;
+      case 'watchlist_updated':
+        // Follow state is cached with the portfolio data
+        clearSupplierCache();
+        break;
+      case 'request_assessment': {
+        // From supplier detail (the mapped supplier) or alternatives (selected ids)
+        const payloadWithSuppliers = artifactPayload as ArtifactPayload & { sourceSuppliers?: Supplier[] };
+        const requestedId = Array.isArray(data) ? data[0] : (data as { id?: string } | undefined)?.id;
+        const sourceSupplier = payloadWithSuppliers?.sourceSuppliers?.find((supplier) => supplier.id === requestedId);
+        const assessmentPayload = sourceSupplier
+          ? buildArtifactPayload('assessment_request', { suppliers: [sourceSupplier] })
+          : null;
+
+        if (assessmentPayload) {
+          openArtifact('assessment_request', assessmentPayload);
+        } else if (data && typeof data === 'object' && 'name' in data) {
+          const detail = data as { id?: string; name: string; srs?: { score: number | null; level: RiskLevel; lastUpdated?: string } };
+          openArtifact('assessment_request', {
+            supplierId: detail.id,
+            supplierName: detail.name,
+            currentScore: detail.srs?.score,
+            riskLevel: detail.srs?.level,
+            lastUpdated: detail.srs?.lastUpdated,
+          });
+        }
+        break;
+      }
+      case 'assessment_requested': {
+        // Credits were held (or spent if auto-approved)
+        refreshCredits();
+        const result = data as SubmitRequestResponse | undefined;
+        if (result?.status === 'pending') {
+          showPending('Assessment requested', 'Credits reserved. Awaiting team approver sign-off.');
+        } else {
+          showSuccess('Assessment requested', 'An analyst will publish a fresh risk score.');
+        }
+        break;
+      }
+      case 'view_requests':
+        setApprovalsTab('mine');
+        setViewState('approval-workflow');
+        break;
       case 'export':
         if (data && typeof data === 'object') {
           openArtifact('export_builder', data as Partial<ArtifactPayload>);
@@ -509,6 +546,24 @@ function App() {
           openArtifact('export_builder');
         }
         break;
+      case 'open_library_report': {
+        // From the report library or the version picker in an open report
+        const libraryReport = data as LibraryReport;
+        openArtifact('deep_research_report', {
+          type: 'deep_research_report',
+          jobId: libraryReport.jobId ?? libraryReport.id,
+          report: libraryReport.report,
+          libraryReportId: libraryReport.id,
+        });
+        setIsArtifactExpanded(true);
+        break;
+      }
+      case 'open_research_schedules':
+        openArtifact('research_schedules');
+        break;
+      case 'open_report_templates':
+        openArtifact('report_templates');
+        break;
       case 'select_supplier':
         // Open supplier detail
         if (data && typeof data === 'object' && 'id' in data) {
@@ -790,21 +845,9 @@ function App() {
   };
 
   // Notification handlers
-  const unreadNotificationCount = notifications.filter(n => !n.isRead).length;
-
   const handleNotificationsClick = () => setIsNotificationDrawerOpen(true);
 
-  const handleMarkNotificationAsRead = (id: string) => {
-    setNotifications(prev => prev.map(n =>
-      n.id === id ? { ...n, isRead: true } : n
-    ));
-  };
-
-  const handleMarkAllNotificationsAsRead = () => {
-    setNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
-  };
-
-  const handleNotificationAction = (notification: AppNotification) => {
+  const handleNotificationAction = async (notification: AppNotification) => {
     // Route based on notification type and action
     console.log('[App] Notification clicked:', notification.id, notification.action?.onClick);
 
@@ -812,9 +855,38 @@ function App() {
       // Navigate to approval workflow view
       setViewState('approval-workflow');
       setIsNotificationDrawerOpen(false);
-    } else if (notification.type === 'alert_triggered') {
-      // Could open supplier detail or alert dashboard
-      console.log('[App] Alert notification - would open alert details');
+    } else if (notification.type === 'alert_triggered' && notification.metadata?.supplierId) {
+      // Open the supplier the alert fired for
+      // If the lookup fails, the drawer stays open as it does for a supplier that's gone
+      const supplierId = notification.metadata.supplierId;
+      try {
+        const supplier = (await getAllSuppliers()).find(s => s.id === supplierId);
+        const detailPayload = supplier ? buildArtifactPayload('supplier_detail', { suppliers: [supplier] }) : null;
+        if (detailPayload) {
+          openArtifact('supplier_detail', detailPayload);
+          setIsNotificationDrawerOpen(false);
+        }
+      } catch (err) {
+        console.error('[App] Failed to load supplier for alert:', err);
+      }
+    } else if (notification.type === 'report_ready' && notification.metadata?.reportId) {
+      // A scheduled study delivered a new version - open it in full view
+      try {
+        const { report } = await getLibraryReport(notification.metadata.reportId);
+        openArtifact('deep_research_report', {
+          type: 'deep_research_report',
+          jobId: report.jobId ?? report.id,
+          report: report.report,
+          libraryReportId: report.id,
+        });
+        setIsArtifactExpanded(true);
+        setIsNotificationDrawerOpen(false);
+      } catch (err) {
+        console.error('[App] Failed to load report for notification:', err);
+      }
+    } else if (notification.type === 'answer_received' && notification.metadata?.questionId) {
+      handleSelectQuestion(notification.metadata.questionId);
+      setIsNotificationDrawerOpen(false);
     } else if (notification.type === 'badge_awarded' || notification.type === 'reputation_change') {
       // Could navigate to profile/achievements
       console.log('[App] Achievement notification - would open profile');
@@ -832,63 +904,50 @@ function App() {
 
     const studyType = deepResearch.studyType || deepResearch.intake?.studyType || 'market_analysis';
 
-    try {
-      // 1. Transition to processing phase
-      const processingResponse = await confirmDeepResearchIntake(
-        deepResearch.jobId,
-        deepResearch.query,
-        answers,
-        studyType,
-        deepResearch.creditsAvailable
-      );
-
-      // 2. Update message with processing state
-      updateMessage(messageId, {
-        response: {
-          ...currentResponse,
-          deepResearch: processingResponse,
-        } as AIResponseType & { deepResearch: DeepResearchResponse },
-      });
+    // Queue the job on the server - progress then streams in through useResearchStreams
+    const processingResponse = await confirmDeepResearchIntake(
+      deepResearch.jobId,
+      deepResearch.query,
+      answers,
+      studyType,
+      deepResearch.creditsAvailable
+    );
 
-      // 3. Execute research — progress shows inline via ResearchCommandCenter (no artifact panel)
-      const finalResponse = await executeDeepResearch(
-        deepResearch.jobId,
-        deepResearch.query,
-        answers,
-        studyType,
-        (update) => {
-          // Real-time progress updates — rendered inline by ResearchCommandCenter
-          updateMessage(messageId, {
-            response: {
-              ...currentResponse,
-              deepResearch: update,
-            } as AIResponseType & { deepResearch: DeepResearchResponse },
-          });
-        }
-      );
+    updateMessage(messageId, {
+      response: {
+        ...currentResponse,
+        deepResearch: processingResponse,
+      } as AIResponseType & { deepResearch: DeepResearchResponse },
+    });
+  };
 
-      // 5. Final update with report
-      updateMessage(messageId, {
+  // Merge server progress into the message, and open the report in full view when it lands
+  const handleResearchEvent = (messageId: string, event: DeepResearchEvent) => {
+    setMessages(prev => prev.map(m => {
+      const current = m.id === messageId ? getMessageResearch(m) : undefined;
+      if (!current || !m.response) return m;
+      return {
+        ...m,
         response: {
-          ...currentResponse,
-          deepResearch: finalResponse,
+          ...m.response,
+          deepResearch: { ...current, ...event.data, creditsAvailable: current.creditsAvailable },
         } as AIResponseType & { deepResearch: DeepResearchResponse },
-      });
+      };
+    }));
 
-      // 4. Open report artifact in full view if complete
-      if (finalResponse.phase === 'complete' && finalResponse.report) {
-        openArtifact('deep_research_report', {
-          type: 'deep_research_report',
-          jobId: finalResponse.jobId,
-          report: finalResponse.report,
-        });
-        setIsArtifactExpanded(true); // Full view for deep research reports
-      }
-    } catch (error) {
-      console.error('[App] Deep research error:', error);
+    if (event.type === 'report_ready' && event.data.report) {
+      openArtifact('deep_research_report', {
+        type: 'deep_research_report',
+        jobId: event.jobId,
+        report: event.data.report,
+        libraryReportId: event.data.libraryReportId,
+      });
+      setIsArtifactExpanded(true);
     }
   };
 
+  useResearchStreams(messages, handleResearchEvent);
+
   const handleViewDeepResearchReport = (response: AIResponseType) => {
     const deepResearch = (response as AIResponseType & { deepResearch?: DeepResearchResponse }).deepResearch;
     if (deepResearch?.report) {
@@ -896,6 +955,7 @@ function App() {
         type: 'deep_research_report',
         jobId: deepResearch.jobId,
         report: deepResearch.report,
+        libraryReportId: deepResearch.libraryReportId,
       });
       setIsArtifactExpanded(true); // Full view for deep research reports
     }
@@ -915,6 +975,13 @@ function App() {
   };
 
   const handleCancelDeepResearch = (messageId: string) => {
+    const message = messages.find(m => m.id === messageId);
+    const research = message && getMessageResearch(message);
+    if (research && isServerResearchJob(research.jobId)) {
+      cancelResearch(research.jobId)
+        .catch(err => console.error('[App] Failed to cancel research job:', err));
+    }
+
     // Update the message to show cancelled state
     setMessages(prev => prev.map(m => {
       if (m.id === messageId && m.response) {
@@ -1067,6 +1134,8 @@ function App() {
           artifactContent: response.artifactContent,
           // Canonical response for consistent formatting
           canonical: response.canonical,
+          // Deep research job, reloaded from the server when the conversation is reopened
+          deepResearch: (response as AIResponseType & { deepResearch?: DeepResearchResponse }).deepResearch,
         }).catch(err => console.error('[App] Failed to save AI message:', err));
 
         // Auto-detect and update category from intent (only on first message)
@@ -1218,7 +1287,7 @@ function App() {
         role: m.role as 'user' | 'assistant',
         content: m.content,
         // Restore full response metadata for UI rehydration
-        response: m.metadata ? {
+        response: m.metadata ? ({
           id: m.id,
           content: m.content,
           // Core response data
@@ -1238,11 +1307,30 @@ function App() {
           artifactContent: m.metadata.artifactContent,
           // Canonical response for consistent formatting
           canonical: m.metadata.canonical,
-        } : undefined,
+          deepResearch: m.metadata.deepResearch,
+        } as AIResponseType & { deepResearch?: DeepResearchResponse }) : undefined,
         isNew: false,
       }));
 
-      setMessages(loadedMessages);
+      // Saved deep research is a snapshot from when it started - fetch where each job is now
+      const restoredMessages = await Promise.all(loadedMessages.map(async (message) => {
+        const saved = getMessageResearch(message);
+        if (!saved || !isServerResearchJob(saved.jobId)) return message;
+        try {
+          const research = await getResearch(saved.jobId);
+          return {
+            ...message,
+            response: {
+              ...message.response,
+              deepResearch: { ...research, creditsAvailable: subscription.remainingCredits },
+            } as AIResponseType & { deepResearch: DeepResearchResponse },
+          };
+        } catch {
+          return message;
+        }
+      }));
+
+      setMessages(restoredMessages);
       setViewState('chat');
     } catch (err) {
       console.error('[App] Failed to load conversation:', err);
@@ -1307,6 +1395,7 @@ function App() {
           onNavigateToSettings={() => setViewState('settings')}
           onNavigateToExpertPortal={() => setViewState('expert-dashboard')}
           onNavigateToExpertMarketplace={() => setViewState('expert-marketplace')}
+          onNavigateToReports={() => openArtifact('report_library')}
           showExpertPortal={true} // Demo mode: show expert portal access
           isArtifactExpanded={isArtifactExpanded}
           subscription={subscription}
@@ -1480,8 +1569,12 @@ function App() {
             className="h-full"
           >
             <ApprovalWorkflowView
-              onBack={() => setViewState('home')}
+              onBack={() => {
+                setApprovalsTab(undefined);
+                setViewState('home');
+              }}
               userRole={userRole}
+              initialTab={approvalsTab}
             />
           </motion.div>
         ) : viewState === 'settings' ? (
@@ -1835,6 +1928,7 @@ function App() {
         subscription={subscription}
         slotSummary={MOCK_SLOT_SUMMARY}
         transactions={transactions}
+        teamBalance={teamBalance}
         isLoading={isCreditLoading}
         error={creditError}
         onRetry={refreshCredits}
@@ -1858,6 +1952,7 @@ function App() {
         notifications={notifications}
         onMarkAsRead={handleMarkNotificationAsRead}
         onMarkAllAsRead={handleMarkAllNotificationsAsRead}
+        onDismiss={handleDismissNotification}
         onNotificationClick={handleNotificationAction}
       />
 
@@ -0,0 +1,179 @@
+// DelegationPanel - Out-of-office delegation of the approval queue
+import { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Loader2, CalendarOff, UserCheck, X } from 'lucide-react';
+import type { GetDelegationsResponse } from '../../types/requests';
+import {
+  getDelegations,
+  createDelegation,
+  revokeDelegation,
+} from '../../services/approvalService';
+
+interface DelegationPanelProps {
+  onChange?: () => void;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+export function DelegationPanel({ onChange }: DelegationPanelProps) {
+  const [data, setData] = useState<GetDelegationsResponse | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [delegateId, setDelegateId] = useState('');
+  const [endsOn, setEndsOn] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDelegations = useCallback(async () => {
+    try {
+      setData(await getDelegations());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load delegations');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDelegations();
+  }, [fetchDelegations]);
+
+  const nameFor = (userId: string) =>
+    data?.candidates.find((c) => c.userId === userId)?.displayName ?? 'a colleague';
+
+  const handleCreate = async () => {
+    if (!delegateId || !endsOn) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      // Cover the whole last day
+      const endsAt = new Date(`${endsOn}T23:59:59`);
+      await createDelegation({
+        delegateId,
+        endsAt: endsAt.toISOString(),
+        reason: reason.trim() || undefined,
+      });
+      setShowForm(false);
+      setDelegateId('');
+      setEndsOn('');
+      setReason('');
+      await fetchDelegations();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delegate queue');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (delegationId: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await revokeDelegation(delegationId);
+      await fetchDelegations();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke delegation');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!data) return null;
+
+  const outgoing = data.outgoing[0];
+
+  return (
+    <div className="px-6 py-3 border-b border-slate-100 shrink-0 space-y-2">
+      {/* Queues this user is covering */}
+      {data.incoming.map((delegation) => (
+        <div key={delegation.id} className="flex items-center gap-2 text-sm text-violet-700">
+          <UserCheck className="w-4 h-4" />
+          <span>
+            Covering for {nameFor(delegation.delegatorId)} until {formatDate(delegation.endsAt)}
+          </span>
+        </div>
+      ))}
+
+      {/* This user's own delegation */}
+      {outgoing ? (
+        <div className="flex items-center gap-2 text-sm text-amber-700">
+          <CalendarOff className="w-4 h-4" />
+          <span>
+            Your queue is delegated to {nameFor(outgoing.delegateId)}
+            {' '}from {formatDate(outgoing.startsAt)} to {formatDate(outgoing.endsAt)}
+          </span>
+          <button
+            onClick={() => handleRevoke(outgoing.id)}
+            disabled={isSaving}
+            className="ml-auto text-xs font-medium text-slate-500 hover:text-slate-700 disabled:opacity-50"
+          >
+            Revoke
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="flex items-center gap-2 text-sm text-secondary hover:text-primary transition-colors"
+        >
+          <CalendarOff className="w-4 h-4" />
+          Set out of office
+        </button>
+      )}
+
+      <AnimatePresence>
+        {showForm && !outgoing && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="flex flex-wrap items-center gap-2 pt-1">
+              <select
+                value={delegateId}
+                onChange={(e) => setDelegateId(e.target.value)}
+                className="px-3 py-1.5 rounded-lg border border-slate-200 text-sm bg-white"
+              >
+                <option value="">Delegate to…</option>
+                {data.candidates.map((c) => (
+                  <option key={c.userId} value={c.userId}>{c.displayName}</option>
+                ))}
+              </select>
+              <input
+                type="date"
+                value={endsOn}
+                onChange={(e) => setEndsOn(e.target.value)}
+                className="px-3 py-1.5 rounded-lg border border-slate-200 text-sm"
+              />
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason (optional)"
+                className="flex-1 min-w-[140px] px-3 py-1.5 rounded-lg border border-slate-200 text-sm"
+              />
+              <button
+                onClick={handleCreate}
+                disabled={isSaving || !delegateId || !endsOn}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-800 text-white text-sm font-medium disabled:opacity-50"
+              >
+                {isSaving && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                Delegate
+              </button>
+              <button
+                onClick={() => setShowForm(false)}
+                className="p-1.5 rounded-lg text-slate-400 hover:text-slate-600"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -16,10 +16,12 @@ import {
   Ban,
   ChevronDown,
   ChevronUp,
+  UserCheck,
+  ArrowRightLeft,
 } from 'lucide-react';
 import { RequestStatusBadge } from './RequestStatusBadge';
 import { ApprovalActions } from './ApprovalActions';
-import type { UpgradeRequest, ApprovalEvent, RequestWithEvents } from '../../types/requests';
+import type { UpgradeRequest, ApprovalEvent, ApprovalStep, RequestWithEvents } from '../../types/requests';
 import { getRequest, canCancel, cancelRequest } from '../../services/approvalService';
 import { getRequestTypeDisplay } from '../../types/requests';
 import { formatCredits } from '../../types/subscription';
@@ -36,9 +38,11 @@ const eventIcons: Record<string, typeof CheckCircle> = {
   created: FileText,
   submitted: Clock,
   auto_approved: CheckCircle,
+  assigned: UserCheck,
   approved: CheckCircle,
   denied: XCircle,
   escalated: AlertTriangle,
+  reassigned: ArrowRightLeft,
   cancelled: Ban,
   expired: AlertTriangle,
   fulfilled: CheckCircle,
@@ -48,14 +52,30 @@ const eventColors: Record<string, string> = {
   created: 'text-slate-500 bg-slate-100',
   submitted: 'text-amber-600 bg-amber-50',
   auto_approved: 'text-emerald-600 bg-emerald-50',
+  assigned: 'text-violet-600 bg-violet-50',
   approved: 'text-emerald-600 bg-emerald-50',
   denied: 'text-red-600 bg-red-50',
   escalated: 'text-orange-600 bg-orange-50',
+  reassigned: 'text-violet-600 bg-violet-50',
   cancelled: 'text-slate-500 bg-slate-100',
   expired: 'text-orange-600 bg-orange-50',
   fulfilled: 'text-emerald-600 bg-emerald-50',
 };
 
+const stepRoleLabels: Record<ApprovalStep['approverRole'], string> = {
+  approver: 'Team approver',
+  admin: 'Admin',
+  owner: 'Owner',
+};
+
+const stepStatusColors: Record<ApprovalStep['status'], string> = {
+  waiting: 'text-slate-400 bg-slate-100',
+  active: 'text-amber-600 bg-amber-50',
+  approved: 'text-emerald-600 bg-emerald-50',
+  denied: 'text-red-600 bg-red-50',
+  skipped: 'text-slate-400 bg-slate-100',
+};
+
 export function RequestDetail({
   requestId,
   userId,
@@ -116,7 +136,7 @@ export function RequestDetail({
     );
   }
 
-  const { request, events } = data;
+  const { request, events, steps = [] } = data;
   const typeInfo = getRequestTypeDisplay(request.type);
   const isRequester = request.requesterId === userId;
   const isApprover = request.approverId === userId;
@@ -258,6 +278,30 @@ export function RequestDetail({
         )}
       </motion.div>
 
+      {/* Approval chain (only shown for multi-step chains) */}
+      {steps.length > 1 && (
+        <div className="space-y-2">
+          <p className="text-[13px] font-medium text-slate-500">
+            Approval Chain ({steps.filter((s) => s.status === 'approved').length} of {steps.length} approved)
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            {steps.map((step) => {
+              const [textColor, bgColor] = stepStatusColors[step.status].split(' ');
+              return (
+                <div
+                  key={step.id}
+                  className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[12px] ${bgColor}`}
+                >
+                  <span className={`font-medium ${textColor}`}>{step.stepOrder + 1}.</span>
+                  <span className="text-slate-600">{stepRoleLabels[step.approverRole]}</span>
+                  <span className={`capitalize ${textColor}`}>{step.status}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Event timeline */}
       <div className="space-y-2">
         <button
@@ -293,6 +337,7 @@ function EventItem({ event, delay }: { event: ApprovalEvent; delay: number }) {
   const Icon = eventIcons[event.eventType] || Clock;
   const colorClass = eventColors[event.eventType] || 'text-slate-500 bg-slate-100';
   const [textColor, bgColor] = colorClass.split(' ');
+  const onBehalfOfName = event.metadata?.onBehalfOfName;
 
   return (
     <motion.div
@@ -317,6 +362,7 @@ function EventItem({ event, delay }: { event: ApprovalEvent; delay: number }) {
         <p className="text-[11px] text-slate-400 mt-1">
           {new Date(event.createdAt).toLocaleString()}
           {!event.performedBySystem && event.performedBy && ' • by user'}
+          {typeof onBehalfOfName === 'string' && ` on behalf of ${onBehalfOfName}`}
         </p>
       </div>
     </motion.div>
@@ -5,3 +5,4 @@ export { ApprovalActions } from './ApprovalActions';
 export { RequestList } from './RequestList';
 export { ApprovalQueue } from './ApprovalQueue';
 export { RequestDetail } from './RequestDetail';
+export { DelegationPanel } from './DelegationPanel';
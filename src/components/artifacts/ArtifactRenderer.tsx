@@ -15,6 +15,8 @@ import { PortfolioDashboardArtifact } from '../risk/artifacts/PortfolioDashboard
 
 // Import new action artifacts
 import { AlertConfigArtifact } from './views/AlertConfigArtifact';
+import { WatchlistManageArtifact } from './views/WatchlistManageArtifact';
+import { AssessmentRequestArtifact } from './views/AssessmentRequestArtifact';
 import { ExportBuilderArtifact } from './views/ExportBuilderArtifact';
 
 // Import new insight/discovery artifacts
@@ -47,6 +49,9 @@ import { ReportViewerArtifact } from '../panel/ReportViewerArtifact';
 // Import deep research artifacts
 import { DeepResearchProgressArtifact } from './views/DeepResearchProgressArtifact';
 import { DeepResearchReportArtifact } from './views/DeepResearchReportArtifact';
+import { ReportLibraryArtifact } from './views/ReportLibraryArtifact';
+import { ResearchSchedulesArtifact } from './views/ResearchSchedulesArtifact';
+import { ReportTemplateEditorArtifact } from './views/ReportTemplateEditorArtifact';
 import { ArtifactOverlayDrawer } from './ArtifactOverlayDrawer';
 
 // ============================================
@@ -188,6 +193,8 @@ const DeepResearchReportWithOverlay = ({
         <DeepResearchReportArtifact
           jobId={jobId}
           report={report}
+          libraryReportId={reportPayload.libraryReportId}
+          onOpenVersion={(libraryReport) => onAction?.('open_library_report', libraryReport)}
           onDownloadPdf={() => onAction?.('download_report_pdf', { jobId })}
           onShare={() => onAction?.('share_report', { jobId })}
           onUpgradeReport={() => setOverlay('upgrade_confirm')}
@@ -326,6 +333,7 @@ export const ArtifactRenderer = ({
                 onFindAlternatives={() => onAction?.('find_alternatives', detailPayload.supplier)}
                 onAddToShortlist={() => onAction?.('add_to_shortlist', detailPayload.supplier)}
                 onViewDashboard={() => onAction?.('view_dashboard')}
+                onRequestAssessment={() => onAction?.('request_assessment', detailPayload.supplier)}
               />
             </div>
           </div>
@@ -352,7 +360,7 @@ export const ArtifactRenderer = ({
                 categories={categories}
                 locations={locations}
                 onSupplierClick={(supplier) => onAction?.('select_supplier', supplier)}
-                onExport={() => onAction?.('export', { context: 'supplier', entityIds: supplierIds })}
+                onExport={() => onAction?.('export', { context: 'portfolio', entityIds: supplierIds })}
               />
             </div>
           </div>
@@ -414,7 +422,7 @@ export const ArtifactRenderer = ({
             supplierId={alertPayload.supplierId as string | undefined}
             supplierName={alertPayload.supplierName as string | undefined}
             currentScore={alertPayload.currentScore as number | undefined}
-            onSave={(config) => onAction?.('alert_created', config)}
+            onSave={(rule) => onAction?.('alert_created', rule)}
             onCancel={onClose}
           />
         );
@@ -428,15 +436,41 @@ export const ArtifactRenderer = ({
             context={exportPayload.context as 'supplier' | 'portfolio' | 'comparison' | undefined}
             entityName={exportPayload.entityName as string | undefined}
             entityIds={exportPayload.entityIds as string[] | undefined}
-            onExport={(config) => onAction?.('export_complete', config)}
+            onExport={(job) => onAction?.('export_complete', job)}
             onCancel={onClose}
           />
         );
       }
 
     case 'watchlist_manage':
+      {
+        const watchlistPayload = payload as unknown as Record<string, unknown>;
+        return (
+          <WatchlistManageArtifact
+            supplierName={watchlistPayload.supplierName as string | undefined}
+            initialTab={watchlistPayload.view === 'import' ? 'import' : undefined}
+            onChange={() => onAction?.('watchlist_updated')}
+            onClose={onClose}
+          />
+        );
+      }
+
     case 'assessment_request':
-      return <ArtifactPlaceholder type={type} />;
+      {
+        const assessmentPayload = payload as unknown as Record<string, unknown>;
+        return (
+          <AssessmentRequestArtifact
+            supplierId={assessmentPayload.supplierId as string | undefined}
+            supplierName={assessmentPayload.supplierName as string | undefined}
+            currentScore={assessmentPayload.currentScore as number | null | undefined}
+            riskLevel={assessmentPayload.riskLevel as import('../../types/supplier').RiskLevel | undefined}
+            lastUpdated={assessmentPayload.lastUpdated as string | undefined}
+            onSubmitted={(result) => onAction?.('assessment_requested', result)}
+            onViewRequests={() => onAction?.('view_requests')}
+            onCancel={onClose}
+          />
+        );
+      }
 
     // Discovery
     case 'portfolio_dashboard':
@@ -827,6 +861,8 @@ export const ArtifactRenderer = ({
           <DeepResearchReportArtifact
             jobId={reportPayload.jobId}
             report={reportPayload.report}
+            libraryReportId={reportPayload.libraryReportId}
+            onOpenVersion={(libraryReport) => onAction?.('open_library_report', libraryReport)}
             onDownloadPdf={() => onAction?.('download_report_pdf', { jobId: reportPayload.jobId })}
             onShare={() => onAction?.('share_report', { jobId: reportPayload.jobId })}
             onUpgradeReport={() => onAction?.('open_upgrade_confirm', { jobId: reportPayload.jobId, category: reportPayload.report?.studyType || 'Market Analysis' })}
@@ -836,6 +872,28 @@ export const ArtifactRenderer = ({
         );
       }
 
+    case 'report_library':
+      {
+        const libraryPayload = payload as unknown as import('./registry').ReportLibraryPayload;
+        return (
+          <ReportLibraryArtifact
+            initialFilters={libraryPayload.filters}
+            onOpenReport={(libraryReport) => onAction?.('open_library_report', libraryReport)}
+            onManageSchedules={() => onAction?.('open_research_schedules')}
+            onManageTemplates={() => onAction?.('open_report_templates')}
+          />
+        );
+      }
+
+    case 'research_schedules':
+      {
+        const schedulesPayload = payload as unknown as import('./registry').ResearchSchedulesPayload;
+        return <ResearchSchedulesArtifact draft={schedulesPayload.draft} />;
+      }
+
+    case 'report_templates':
+      return <ReportTemplateEditorArtifact />;
+
     default:
       {
         const fallbackPayload = payload as unknown as Record<string, unknown>;
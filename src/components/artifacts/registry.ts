@@ -2,6 +2,7 @@
 // Central registry mapping artifact types to components and metadata
 
 // ComponentType import available if needed for component registry pattern
+import type { RiskLevel } from '../../types/supplier';
 
 // ============================================
 // ARTIFACT TYPE DEFINITIONS
@@ -63,7 +64,10 @@ export type ArtifactType =
   | 'expert_booking'
   // Deep Research
   | 'deep_research_progress'
-  | 'deep_research_report';
+  | 'deep_research_report'
+  | 'report_library'
+  | 'research_schedules'
+  | 'report_templates';
 
 // ============================================
 // ARTIFACT METADATA
@@ -367,6 +371,30 @@ export const ARTIFACT_META: Record<ArtifactType, ArtifactMeta> = {
     defaultWidth: '50%',
     allowExpand: true,
   },
+  report_library: {
+    id: 'report_library',
+    title: 'Report Library',
+    category: 'discovery',
+    description: 'Saved research reports for your company',
+    defaultWidth: '45%',
+    allowExpand: true,
+  },
+  research_schedules: {
+    id: 'research_schedules',
+    title: 'Scheduled Research',
+    category: 'action',
+    description: 'Recurring research studies delivered to the report library',
+    defaultWidth: '45%',
+    allowExpand: false,
+  },
+  report_templates: {
+    id: 'report_templates',
+    title: 'Report Templates',
+    category: 'action',
+    description: 'Company report templates for custom research studies',
+    defaultWidth: '50%',
+    allowExpand: true,
+  },
 };
 
 // ============================================
@@ -463,6 +491,15 @@ export interface WatchlistPayload extends BaseArtifactPayload {
   supplierName?: string;
 }
 
+export interface AssessmentRequestPayload extends BaseArtifactPayload {
+  type: 'assessment_request';
+  supplierId?: string;
+  supplierName?: string;
+  currentScore?: number | null;
+  riskLevel?: RiskLevel;
+  lastUpdated?: string;
+}
+
 // Value Ladder Payloads
 export interface AnalystConnectPayload extends BaseArtifactPayload {
   type: 'analyst_connect';
@@ -628,6 +665,21 @@ export interface DeepResearchReportPayload extends BaseArtifactPayload {
   type: 'deep_research_report';
   jobId: string;
   report: import('../../types/deepResearch').DeepResearchReport;
+  libraryReportId?: string;  // Set once the report is saved; enables versions and refresh
+}
+
+export interface ReportLibraryPayload extends BaseArtifactPayload {
+  type: 'report_library';
+  filters?: import('../../types/deepResearch').ReportLibraryFilters;
+}
+
+export interface ResearchSchedulesPayload extends BaseArtifactPayload {
+  type: 'research_schedules';
+  draft?: Partial<import('../../types/deepResearch').ResearchScheduleInput>;
+}
+
+export interface ReportTemplatesPayload extends BaseArtifactPayload {
+  type: 'report_templates';
 }
 
 // Union of all payload types
@@ -640,6 +692,7 @@ export type ArtifactPayload =
   | AlertConfigPayload
   | ExportBuilderPayload
   | WatchlistPayload
+  | AssessmentRequestPayload
   | AnalystConnectPayload
   | ExpertRequestPayload
   | CommunityEmbedPayload
@@ -650,6 +703,9 @@ export type ArtifactPayload =
   | ReportViewerPayload
   | DeepResearchProgressPayload
   | DeepResearchReportPayload
+  | ReportLibraryPayload
+  | ResearchSchedulesPayload
+  | ReportTemplatesPayload
   | (BaseArtifactPayload & { [key: string]: unknown });
 
 // ============================================
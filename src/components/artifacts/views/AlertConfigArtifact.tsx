@@ -13,31 +13,20 @@ import {
   Toggle,
   RadioGroup,
 } from '../primitives';
+import { createAlertRule } from '../../../services/alertService';
+import type { AlertRuleInput, AlertRuleWithSupplier } from '../../../types/alerts';
 
 // ============================================
 // TYPES
 // ============================================
 
-interface AlertConfig {
-  name: string;
-  triggerType: 'threshold' | 'change' | 'any_change';
-  thresholdValue?: number;
-  thresholdDirection?: 'above' | 'below';
-  changePercent?: number;
-  frequency: 'immediate' | 'daily' | 'weekly';
-  channels: {
-    email: boolean;
-    push: boolean;
-    inApp: boolean;
-  };
-  recipients: string[];
-}
+type AlertConfig = Omit<AlertRuleInput, 'supplierId' | 'supplierName' | 'isActive'>;
 
 export interface AlertConfigArtifactProps {
   supplierId?: string;
   supplierName?: string;
   currentScore?: number;
-  onSave?: (config: AlertConfig) => void;
+  onSave?: (rule: AlertRuleWithSupplier) => void;
   onCancel?: () => void;
 }
 
@@ -46,6 +35,7 @@ export interface AlertConfigArtifactProps {
 // ============================================
 
 export const AlertConfigArtifact = ({
+  supplierId,
   supplierName,
   currentScore,
   onSave,
@@ -68,17 +58,28 @@ export const AlertConfigArtifact = ({
 
   const [isSaving, setIsSaving] = useState(false);
   const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const handleSave = async () => {
     setIsSaving(true);
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    setIsSaving(false);
-    setSaved(true);
-    onSave?.(config);
+    setError(null);
+    try {
+      // No supplier = alert on every supplier in the portfolio
+      const rule = await createAlertRule({
+        ...config,
+        supplierId: supplierId ?? null,
+        supplierName,
+      });
+      setSaved(true);
+      onSave?.(rule);
 
-    // Reset after showing success
-    setTimeout(() => setSaved(false), 2000);
+      // Reset after showing success
+      setTimeout(() => setSaved(false), 2000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create alert');
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const triggerOptions = [
@@ -286,6 +287,13 @@ export const AlertConfigArtifact = ({
             </div>
           </div>
         </ArtifactSection>
+
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-1.5">
+            <AlertTriangle size={14} />
+            {error}
+          </p>
+        )}
       </div>
 
       {/* Footer */}
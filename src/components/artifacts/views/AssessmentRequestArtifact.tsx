@@ -0,0 +1,229 @@
+// Assessment Request Artifact
+// Action panel for requesting an analyst risk assessment of an unrated or stale supplier
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, Check, ClipboardList, Coins, ShieldCheck } from 'lucide-react';
+import { ArtifactSection, ArtifactFooter, FormGroup } from '../primitives';
+import { submitRequest } from '../../../services/approvalService';
+import { DEMO_COMPANY_ID, DEMO_DEFAULT_TEAM_ID } from '../../../constants/demo';
+import {
+  MAX_CHANGE_REASON_LENGTH,
+  STALE_ASSESSMENT_DAYS,
+  SUPPLIER_ASSESSMENT_CREDITS,
+  getAssessmentEligibility,
+} from '../../../types/assessments';
+import { getApprovalLevel, getApprovalLevelDisplay, type SubmitRequestResponse } from '../../../types/requests';
+import type { RiskLevel } from '../../../types/supplier';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AssessmentRequestArtifactProps {
+  supplierId?: string;
+  supplierName?: string;
+  currentScore?: number | null;
+  riskLevel?: RiskLevel;
+  lastUpdated?: string;
+  onSubmitted?: (result: SubmitRequestResponse) => void;
+  onViewRequests?: () => void;
+  onCancel?: () => void;
+}
+
+const formatAge = (lastUpdated: string) => {
+  const days = Math.floor((Date.now() - new Date(lastUpdated).getTime()) / (24 * 60 * 60 * 1000));
+  return days >= 60 ? `${Math.floor(days / 30)} months ago` : `${days} days ago`;
+};
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export const AssessmentRequestArtifact = ({
+  supplierId,
+  supplierName,
+  currentScore,
+  riskLevel = 'unrated',
+  lastUpdated,
+  onSubmitted,
+  onViewRequests,
+  onCancel,
+}: AssessmentRequestArtifactProps) => {
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState<SubmitRequestResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const eligibility = getAssessmentEligibility(riskLevel, lastUpdated ?? null);
+  const approvalLevel = getApprovalLevel(SUPPLIER_ASSESSMENT_CREDITS);
+
+  const handleSubmit = async () => {
+    if (!supplierName) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      // The server prices and titles the request from the supplier's current score
+      const result = await submitRequest({
+        companyId: DEMO_COMPANY_ID,
+        teamId: DEMO_DEFAULT_TEAM_ID,
+        type: 'supplier_assessment',
+        title: `Risk assessment: ${supplierName}`,
+        description: reason.trim() || undefined,
+        context: { supplierId, supplierName, reason: reason.trim() || undefined },
+        estimatedCredits: SUPPLIER_ASSESSMENT_CREDITS,
+      });
+      setSubmitted(result);
+      onSubmitted?.(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request assessment');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!supplierName) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full p-8 text-center">
+        <ShieldCheck size={28} className="text-slate-300 mb-3" strokeWidth={1.5} />
+        <p className="text-sm text-slate-500">Open a supplier to request an analyst assessment.</p>
+      </div>
+    );
+  }
+
+  if (submitted) {
+    const isPending = submitted.status === 'pending';
+    return (
+      <div className="flex flex-col h-full">
+        <div className="flex-1 overflow-auto p-5 space-y-4">
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="flex items-start gap-3 p-4 bg-emerald-50 border border-emerald-100 rounded-xl"
+          >
+            <div className="w-10 h-10 rounded-full bg-emerald-100 flex items-center justify-center flex-shrink-0">
+              <Check size={20} className="text-emerald-600" strokeWidth={1.5} />
+            </div>
+            <div>
+              <p className="text-sm font-medium text-emerald-900">Assessment requested for {supplierName}</p>
+              <p className="text-xs text-emerald-700 mt-0.5">
+                {isPending
+                  ? `${SUPPLIER_ASSESSMENT_CREDITS.toLocaleString()} credits are on hold until a team approver signs off.`
+                  : 'Approved - an analyst will publish a fresh risk score when the assessment is complete.'}
+              </p>
+            </div>
+          </motion.div>
+          <p className="text-xs text-slate-500">
+            You can follow the request under My Requests in the approval workflow.
+          </p>
+        </div>
+
+        <ArtifactFooter
+          primaryAction={{
+            id: 'view_requests',
+            label: 'View my requests',
+            variant: 'primary',
+            onClick: () => onViewRequests?.(),
+            icon: <ClipboardList size={16} />,
+          }}
+          secondaryAction={{
+            id: 'close',
+            label: 'Close',
+            variant: 'secondary',
+            onClick: () => onCancel?.(),
+          }}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 overflow-auto p-5 space-y-6">
+        {/* Context Banner */}
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center gap-3 p-4 bg-violet-50 border border-violet-100 rounded-xl"
+        >
+          <div className="w-10 h-10 rounded-full bg-violet-100 flex items-center justify-center">
+            <ShieldCheck size={20} className="text-violet-600" strokeWidth={1.5} />
+          </div>
+          <div>
+            <p className="text-sm font-medium text-violet-900">Assess {supplierName}</p>
+            <p className="text-xs text-violet-600">
+              {eligibility === 'unrated' && 'Not yet rated - no risk score on file'}
+              {eligibility === 'stale' && lastUpdated && `Score ${currentScore ?? '-'} last assessed ${formatAge(lastUpdated)}`}
+              {eligibility === 'current' && `Current risk score: ${currentScore ?? '-'}`}
+            </p>
+          </div>
+        </motion.div>
+
+        {eligibility === 'current' && (
+          <p className="text-sm text-amber-600 flex items-start gap-1.5">
+            <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+            This supplier was assessed within the last {STALE_ASSESSMENT_DAYS} days. Assessments can be requested for unrated suppliers or scores older than that.
+          </p>
+        )}
+
+        <FormGroup label="What should the analyst look at?" hint="Optional - recent events, sites or concerns to focus on">
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={MAX_CHANGE_REASON_LENGTH}
+            rows={4}
+            placeholder="e.g. New supplier for our EU plants, need a baseline before onboarding"
+            className="w-full px-3 py-2.5 text-sm text-slate-900 bg-white border border-slate-200 rounded-xl outline-none placeholder:text-slate-400 hover:border-slate-300 focus:border-violet-500 focus:ring-2 focus:ring-violet-100 resize-none"
+          />
+        </FormGroup>
+
+        <ArtifactSection title="Cost & approval" collapsible={false}>
+          <div className="flex items-center justify-between p-3 bg-slate-50 rounded-xl">
+            <div className="flex items-center gap-3">
+              <div className="w-8 h-8 rounded-full bg-white border border-slate-200 flex items-center justify-center">
+                <Coins size={16} className="text-slate-600" strokeWidth={1.5} />
+              </div>
+              <div>
+                <p className="text-sm font-medium text-slate-700">
+                  {SUPPLIER_ASSESSMENT_CREDITS.toLocaleString()} credits
+                </p>
+                <p className="text-xs text-slate-400">{getApprovalLevelDisplay(approvalLevel)}</p>
+              </div>
+            </div>
+          </div>
+          <p className="mt-2 text-xs text-slate-400">
+            Credits are held on request and only spent once approved. The new score and the analyst's reasoning appear in the supplier's risk history.
+          </p>
+        </ArtifactSection>
+
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-1.5">
+            <AlertTriangle size={14} />
+            {error}
+          </p>
+        )}
+      </div>
+
+      {/* Footer */}
+      <ArtifactFooter
+        primaryAction={{
+          id: 'submit',
+          label: 'Request Assessment',
+          variant: 'primary',
+          onClick: handleSubmit,
+          loading: isSubmitting,
+          disabled: eligibility === 'current',
+          icon: <ShieldCheck size={16} />,
+        }}
+        secondaryAction={{
+          id: 'cancel',
+          label: 'Cancel',
+          variant: 'secondary',
+          onClick: () => onCancel?.(),
+        }}
+      />
+    </div>
+  );
+};
+
+export default AssessmentRequestArtifact;
@@ -6,6 +6,7 @@ import { useState, useRef, useCallback, useMemo, useEffect } from 'react';
 import { Download, Share2, ExternalLink, ChevronLeft } from 'lucide-react';
 import type {
   DeepResearchReport,
+  LibraryReport,
   ReportSection,
   ReportCitation,
   TocEntry,
@@ -14,6 +15,7 @@ import type { CitationMap, Citation } from '../../../types/hybridResponse';
 import type { WebSource, InternalSource } from '../../../types/aiResponse';
 import { CitedParagraph } from '../../chat/CitedContent';
 import { ReportVisualRenderer } from './ReportVisualRenderer';
+import { ReportVersionBar } from './ReportVersionBar';
 
 // ============================================
 // TYPES
@@ -27,6 +29,9 @@ interface DeepResearchReportArtifactProps {
   onClose?: () => void;
   onUpgradeReport?: () => void;
   onMessageAnalyst?: () => void;
+  /** Library entry for a saved report; shows versions, refresh and compare */
+  libraryReportId?: string;
+  onOpenVersion?: (report: LibraryReport) => void;
 }
 
 // ============================================
@@ -320,6 +325,8 @@ export const DeepResearchReportArtifact = ({
   onShare,
   onUpgradeReport,
   onMessageAnalyst,
+  libraryReportId,
+  onOpenVersion,
 }: DeepResearchReportArtifactProps) => {
   const [highlightedCitation, setHighlightedCitation] = useState<string | null>(null);
   const [showToc, setShowToc] = useState(true);
@@ -446,6 +453,11 @@ export const DeepResearchReportArtifact = ({
           </div>
         </div>
 
+        {/* ── Library versions ── */}
+        {libraryReportId && onOpenVersion && (
+          <ReportVersionBar key={libraryReportId} reportId={libraryReportId} onOpenVersion={onOpenVersion} />
+        )}
+
         {/* ── Scrollable document ── */}
         <div ref={scrollContainerRef} className="flex-1 overflow-auto">
           <div className="max-w-[680px] mx-auto px-8 py-10">
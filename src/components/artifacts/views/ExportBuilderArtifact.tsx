@@ -1,16 +1,17 @@
 // Export Builder Artifact
 // Action panel for configuring and exporting reports
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import {
+  AlertTriangle,
   FileText,
   FileSpreadsheet,
-  FileImage,
   Download,
   Calendar,
   Check,
   LayoutGrid,
+  Lock,
   Table,
   PieChart,
   TrendingUp,
@@ -23,16 +24,21 @@ import {
   SelectInput,
   Checkbox,
 } from '../primitives';
+import { createExport, downloadExport, listExports } from '../../../services/exportService';
+import type {
+  ExportContext,
+  ExportDateRange,
+  ExportFormat,
+  ExportJob,
+  ExportSectionId,
+} from '../../../types/exports';
 
 // ============================================
 // TYPES
 // ============================================
 
-type ExportFormat = 'pdf' | 'xlsx' | 'csv' | 'png';
-type ExportContext = 'supplier' | 'portfolio' | 'comparison';
-
 interface ExportSection {
-  id: string;
+  id: ExportSectionId;
   label: string;
   description: string;
   icon: React.ReactNode;
@@ -43,8 +49,7 @@ interface ExportConfig {
   filename: string;
   format: ExportFormat;
   sections: ExportSection[];
-  dateRange: 'all' | '30d' | '90d' | '1y';
-  includeCharts: boolean;
+  dateRange: ExportDateRange;
   includeRawData: boolean;
 }
 
@@ -52,10 +57,17 @@ export interface ExportBuilderArtifactProps {
   context?: ExportContext;
   entityName?: string;
   entityIds?: string[];
-  onExport?: (config: ExportConfig) => void;
+  onExport?: (job: ExportJob) => void;
   onCancel?: () => void;
 }
 
+const RECENT_EXPORTS_SHOWN = 5;
+
+const formatSize = (bytes: number | null) => {
+  if (bytes === null) return '';
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
 // ============================================
 // COMPONENT
 // ============================================
@@ -68,7 +80,7 @@ export const ExportBuilderArtifact = ({
   onCancel,
 }: ExportBuilderArtifactProps) => {
   const getDefaultSections = (): ExportSection[] => {
-    const baseSections = [
+    const baseSections: ExportSection[] = [
       {
         id: 'summary',
         label: 'Executive Summary',
@@ -132,6 +144,19 @@ export const ExportBuilderArtifact = ({
       ];
     }
 
+    if (context === 'comparison') {
+      return [
+        ...baseSections,
+        {
+          id: 'factors',
+          label: 'Risk Factors',
+          description: 'Factor scores side by side',
+          icon: <Table size={16} />,
+          included: true,
+        },
+      ];
+    }
+
     return baseSections;
   };
 
@@ -142,22 +167,51 @@ export const ExportBuilderArtifact = ({
     format: 'pdf',
     sections: getDefaultSections(),
     dateRange: '90d',
-    includeCharts: true,
     includeRawData: false,
   });
 
   const [isExporting, setIsExporting] = useState(false);
   const [exported, setExported] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [recentExports, setRecentExports] = useState<ExportJob[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listExports()
+      .then((jobs) => {
+        if (!cancelled) setRecentExports(jobs);
+      })
+      .catch(() => {
+        // History is a convenience; the builder works without it
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   const handleExport = async () => {
     setIsExporting(true);
-    // Simulate export
-    await new Promise((resolve) => setTimeout(resolve, 1500));
-    setIsExporting(false);
-    setExported(true);
-    onExport?.(config);
-
-    setTimeout(() => setExported(false), 2000);
+    setError(null);
+    try {
+      const job = await createExport({
+        context,
+        format: config.format,
+        filename: config.filename,
+        entityIds,
+        sections: config.sections.filter((s) => s.included).map((s) => s.id),
+        dateRange: config.dateRange,
+        includeRawData: config.includeRawData,
+      });
+      downloadExport(job);
+      setRecentExports((jobs) => [job, ...jobs]);
+      setExported(true);
+      onExport?.(job);
+      setTimeout(() => setExported(false), 2000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const toggleSection = (sectionId: string) => {
@@ -188,12 +242,6 @@ export const ExportBuilderArtifact = ({
       icon: <FileText size={20} className="text-slate-500" />,
       description: 'Raw data format',
     },
-    {
-      value: 'png',
-      label: 'Image (PNG)',
-      icon: <FileImage size={20} className="text-blue-500" />,
-      description: 'Visual snapshot',
-    },
   ];
 
   const dateRangeOptions = [
@@ -243,7 +291,7 @@ export const ExportBuilderArtifact = ({
 
         {/* Format Selection */}
         <ArtifactSection title="Export Format" collapsible={false}>
-          <div className="grid grid-cols-2 gap-2">
+          <div className="grid grid-cols-3 gap-2">
             {formatOptions.map((format) => (
               <button
                 key={format.value}
@@ -303,6 +351,12 @@ export const ExportBuilderArtifact = ({
               </button>
             ))}
           </div>
+          {config.sections.some((s) => s.id === 'factors' && s.included) && (
+            <p className="mt-2 text-[11px] text-slate-400 flex items-center gap-1.5">
+              <Lock size={12} />
+              Restricted risk factors are never included in exports.
+            </p>
+          )}
         </ArtifactSection>
 
         {/* Date Range */}
@@ -317,20 +371,51 @@ export const ExportBuilderArtifact = ({
         {/* Additional Options */}
         <ArtifactSection title="Options" defaultOpen={false}>
           <div className="space-y-3">
-            <Checkbox
-              checked={config.includeCharts}
-              onChange={(checked) => setConfig({ ...config, includeCharts: checked })}
-              label="Include charts & visualizations"
-              description="Embed visual representations of data"
-            />
             <Checkbox
               checked={config.includeRawData}
               onChange={(checked) => setConfig({ ...config, includeRawData: checked })}
-              label="Include raw data tables"
-              description="Append detailed data tables at the end"
+              label="Include full score history"
+              description="Every recorded score instead of a summarized trend"
             />
           </div>
         </ArtifactSection>
+
+        {/* Recent Exports */}
+        {recentExports.length > 0 && (
+          <ArtifactSection title="Recent Exports" badge={recentExports.length} defaultOpen={false}>
+            <div className="space-y-1.5">
+              {recentExports.slice(0, RECENT_EXPORTS_SHOWN).map((job) => (
+                <div key={job.id} className="flex items-center justify-between gap-3 p-2.5 rounded-xl bg-slate-50">
+                  <div className="min-w-0">
+                    <p className="text-sm text-slate-700 truncate">{job.filename}</p>
+                    <p className="text-[11px] text-slate-400">
+                      {new Date(job.createdAt).toLocaleDateString()}
+                      {job.status === 'failed' ? ' - failed' : ` - ${formatSize(job.byteSize)}`}
+                    </p>
+                  </div>
+                  {job.downloadUrl ? (
+                    <button
+                      onClick={() => downloadExport(job)}
+                      className="p-1.5 rounded-lg text-slate-500 hover:text-violet-600 hover:bg-white transition-colors"
+                      aria-label={`Download ${job.filename}`}
+                    >
+                      <Download size={14} />
+                    </button>
+                  ) : (
+                    <span className="text-[11px] text-slate-400">{job.status === 'failed' ? 'Failed' : 'Expired'}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ArtifactSection>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-1.5">
+            <AlertTriangle size={14} />
+            {error}
+          </p>
+        )}
       </div>
 
       {/* Footer */}
@@ -341,6 +426,7 @@ export const ExportBuilderArtifact = ({
           variant: 'primary',
           onClick: handleExport,
           loading: isExporting,
+          disabled: !config.filename.trim() || !config.sections.some((s) => s.included),
           icon: exported ? <Check size={16} /> : <Download size={16} />,
         }}
         secondaryAction={{
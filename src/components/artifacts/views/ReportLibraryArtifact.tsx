@@ -0,0 +1,214 @@
+// Report Library Artifact
+// Saved deep research reports for the company, searchable by study type, category and date
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { CalendarClock, FileText, LayoutTemplate, Search } from 'lucide-react';
+import { ArtifactEmpty, ArtifactSection, SelectInput, TextInput } from '../primitives';
+import { getLibraryReport, listLibraryReports } from '../../../services/reportLibraryService';
+import { getStudyTypeLabel } from '../../../services/deepResearchScoring';
+import {
+  STUDY_TYPES,
+  type LibraryReport,
+  type ReportLibraryFilters,
+  type ResearchReportSummary,
+  type StudyType,
+} from '../../../types/deepResearch';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ReportLibraryArtifactProps {
+  initialFilters?: ReportLibraryFilters;
+  onOpenReport?: (report: LibraryReport) => void;
+  onManageSchedules?: () => void;
+  onManageTemplates?: () => void;
+}
+
+type DateRange = 'all' | '30d' | '90d' | '1y';
+
+const ALL_STUDY_TYPES = 'all';
+const SEARCH_DEBOUNCE_MS = 300;
+const RANGE_DAYS: Record<Exclude<DateRange, 'all'>, number> = { '30d': 30, '90d': 90, '1y': 365 };
+
+const dateRangeOptions = [
+  { value: 'all', label: 'Any time' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: '90d', label: 'Last 90 days' },
+  { value: '1y', label: 'Last year' },
+];
+
+const studyTypeOptions = [
+  { value: ALL_STUDY_TYPES, label: 'All study types' },
+  ...STUDY_TYPES.map((type) => ({ value: type, label: getStudyTypeLabel(type) })),
+];
+
+const getRangeStart = (range: DateRange): string | undefined => {
+  if (range === 'all') return undefined;
+  const start = new Date();
+  start.setDate(start.getDate() - RANGE_DAYS[range]);
+  return start.toISOString().slice(0, 10);
+};
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export const ReportLibraryArtifact = ({ initialFilters, onOpenReport, onManageSchedules, onManageTemplates }: ReportLibraryArtifactProps) => {
+  const [studyType, setStudyType] = useState<string>(initialFilters?.studyType ?? ALL_STUDY_TYPES);
+  const [category, setCategory] = useState(initialFilters?.category ?? '');
+  const [search, setSearch] = useState(initialFilters?.search ?? '');
+  const [dateRange, setDateRange] = useState<DateRange>('all');
+  const [reports, setReports] = useState<ResearchReportSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Debounced so typing in the text filters doesn't query on every key
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const found = await listLibraryReports({
+          studyType: studyType === ALL_STUDY_TYPES ? undefined : studyType as StudyType,
+          category: category.trim() || undefined,
+          search: search.trim() || undefined,
+          from: getRangeStart(dateRange),
+        });
+        if (!cancelled) {
+          setReports(found);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load reports');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [studyType, category, search, dateRange]);
+
+  const openReport = async (summary: ResearchReportSummary) => {
+    setOpeningId(summary.id);
+    setError(null);
+    try {
+      const { report } = await getLibraryReport(summary.id);
+      onOpenReport?.(report);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open the report');
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 overflow-auto p-5 space-y-5">
+        <ArtifactSection title="Filters" collapsible={false}>
+          <div className="space-y-3">
+            <TextInput
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search titles and questions"
+              icon={<Search size={16} />}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <SelectInput
+                value={studyType}
+                onChange={(e) => setStudyType(e.target.value)}
+                options={studyTypeOptions}
+              />
+              <SelectInput
+                value={dateRange}
+                onChange={(e) => setDateRange(e.target.value as DateRange)}
+                options={dateRangeOptions}
+              />
+            </div>
+            <TextInput
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              placeholder="Category, e.g. Corrugated Packaging"
+            />
+          </div>
+        </ArtifactSection>
+
+        {onManageSchedules && (
+          <button
+            onClick={onManageSchedules}
+            className="w-full flex items-center gap-2 px-3 py-2 rounded-xl border border-slate-100 text-[13px] text-slate-600 hover:border-violet-200 hover:bg-violet-50/30 transition-colors"
+          >
+            <CalendarClock className="w-4 h-4 text-violet-500" />
+            Scheduled research
+            <span className="ml-auto text-xs text-slate-400">Re-run studies automatically</span>
+          </button>
+        )}
+
+        {onManageTemplates && (
+          <button
+            onClick={onManageTemplates}
+            className="w-full flex items-center gap-2 px-3 py-2 rounded-xl border border-slate-100 text-[13px] text-slate-600 hover:border-violet-200 hover:bg-violet-50/30 transition-colors"
+          >
+            <LayoutTemplate className="w-4 h-4 text-violet-500" />
+            Report templates
+            <span className="ml-auto text-xs text-slate-400">Sections for custom studies</span>
+          </button>
+        )}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        {isLoading && reports.length === 0 ? (
+          <p className="text-sm text-slate-400">Loading reports…</p>
+        ) : reports.length === 0 ? (
+          <ArtifactEmpty
+            icon={<FileText size={24} strokeWidth={1.5} />}
+            title="No reports found"
+            description="Completed deep research reports are saved here for your team."
+          />
+        ) : (
+          <div className="space-y-2">
+            {reports.map((report) => (
+              <motion.button
+                key={report.id}
+                initial={{ opacity: 0, y: 6 }}
+                animate={{ opacity: 1, y: 0 }}
+                onClick={() => openReport(report)}
+                disabled={openingId !== null}
+                className="w-full text-left p-3 rounded-xl border border-slate-100 bg-white hover:border-violet-200 hover:bg-violet-50/30 transition-colors disabled:opacity-60"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <p className="text-sm font-medium text-slate-700">{report.title}</p>
+                  {report.version > 1 && (
+                    <span className="flex-shrink-0 px-2 py-0.5 rounded-full bg-slate-100 text-[11px] font-medium text-slate-500">
+                      v{report.version}
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-slate-400 mt-0.5">
+                  {getStudyTypeLabel(report.studyType)}
+                  {report.category && ` · ${report.category}`}
+                  {` · ${formatDate(report.createdAt)}`}
+                  {report.reportNumber && ` · ${report.reportNumber}`}
+                </p>
+                {report.keyFinding && (
+                  <p className="text-xs text-slate-500 mt-2 line-clamp-2">{report.keyFinding}</p>
+                )}
+                {openingId === report.id && <p className="text-xs text-violet-500 mt-2">Opening…</p>}
+              </motion.button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReportLibraryArtifact;
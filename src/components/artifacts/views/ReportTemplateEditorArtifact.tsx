@@ -0,0 +1,550 @@
+// Report Template Editor Artifact
+// The company's own report templates: sections, citation minimums and chart slots for custom studies
+
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, LayoutTemplate, Plus, Trash2 } from 'lucide-react';
+import { ArtifactEmpty, ArtifactSection, Checkbox, FormGroup, SelectInput, TextInput, Toggle } from '../primitives';
+import {
+  createReportTemplate,
+  deleteReportTemplate,
+  listReportTemplates,
+  updateReportTemplate,
+} from '../../../services/reportTemplateService';
+import {
+  MAX_TEMPLATE_DEPTH,
+  REPORT_TEMPLATES,
+  TEMPLATE_SOURCE_TYPES,
+  VISUALIZATION_SLOT_TYPES,
+  validateReportTemplate,
+  type CompanyReportTemplate,
+  type ReportSectionTemplate,
+  type ReportTemplateInput,
+  type VisualizationSlot,
+} from '../../../services/reportTemplates';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Position of a section in the tree: indexes from the top level down */
+type SectionPath = number[];
+
+const BUILT_IN_OPTIONS = Object.entries(REPORT_TEMPLATES)
+  .filter(([studyType]) => studyType !== 'custom')
+  .map(([studyType, template]) => ({ value: studyType, label: template.name }));
+
+const SOURCE_TYPE_LABELS: Record<string, string> = {
+  beroe: 'Beroe data',
+  web: 'Web sources',
+  internal: 'Internal documents',
+};
+
+const slotTypeOptions = VISUALIZATION_SLOT_TYPES.map((type) => ({ value: type, label: type.replace('_', ' ') }));
+
+const placementOptions = [
+  { value: 'before_prose', label: 'Before text' },
+  { value: 'after_prose', label: 'After text' },
+];
+
+const textAreaClass =
+  'w-full px-3 py-2.5 text-sm text-slate-900 bg-white border border-slate-200 rounded-xl outline-none placeholder:text-slate-400 hover:border-slate-300 focus:border-violet-500 focus:ring-2 focus:ring-violet-100 resize-none';
+
+// Editable copy of a template, without the ID and timestamps
+const toInput = (template: ReportTemplateInput): ReportTemplateInput => structuredClone({
+  name: template.name,
+  description: template.description,
+  sections: template.sections,
+  minTotalCitations: template.minTotalCitations,
+  requiredSourceTypes: template.requiredSourceTypes,
+});
+
+// Starting point for a new template: a copy of a built-in one
+const copyBuiltIn = (studyType: string): ReportTemplateInput => {
+  const template = toInput(REPORT_TEMPLATES[studyType]);
+  return { ...template, name: `${template.name} (custom)` };
+};
+
+const newSection = (siblings: ReportSectionTemplate[]): ReportSectionTemplate => {
+  let n = siblings.length + 1;
+  while (siblings.some((section) => section.id === `section_${n}`)) n += 1;
+  return {
+    id: `section_${n}`,
+    title: 'New section',
+    required: false,
+    minCitations: 1,
+    description: '',
+    promptHints: [],
+  };
+};
+
+const newSlot = (section: ReportSectionTemplate): VisualizationSlot => ({
+  slotId: `${section.id}_chart_${(section.visualizationSlots?.length ?? 0) + 1}`,
+  type: 'bar_chart',
+  title: 'New chart',
+  description: '',
+  minDataPoints: 3,
+  placement: 'after_prose',
+});
+
+// Apply `change` to the sibling list that holds the section at `path`
+const editSiblings = (
+  sections: ReportSectionTemplate[],
+  path: SectionPath,
+  change: (siblings: ReportSectionTemplate[], index: number) => ReportSectionTemplate[]
+): ReportSectionTemplate[] => {
+  const [index, ...rest] = path;
+  if (rest.length === 0) {
+    return change(sections, index);
+  }
+  return sections.map((section, i) =>
+    i === index ? { ...section, children: editSiblings(section.children ?? [], rest, change) } : section
+  );
+};
+
+// ============================================
+// SECTION EDITOR
+// ============================================
+
+interface SectionEditorProps {
+  section: ReportSectionTemplate;
+  path: SectionPath;
+  isFirst: boolean;
+  isLast: boolean;
+  onChange: (path: SectionPath, changes: Partial<ReportSectionTemplate>) => void;
+  onMove: (path: SectionPath, offset: -1 | 1) => void;
+  onRemove: (path: SectionPath) => void;
+  onAddChild: (path: SectionPath) => void;
+}
+
+const SectionEditor = ({ section, path, isFirst, isLast, onChange, onMove, onRemove, onAddChild }: SectionEditorProps) => {
+  const slots = section.visualizationSlots ?? [];
+  const children = section.children ?? [];
+
+  const updateSlot = (index: number, changes: Partial<VisualizationSlot>) =>
+    onChange(path, { visualizationSlots: slots.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)) });
+
+  return (
+    <div className="p-3 rounded-xl border border-slate-100 bg-white space-y-3">
+      <div className="flex items-center gap-2">
+        <TextInput
+          value={section.title}
+          onChange={(e) => onChange(path, { title: e.target.value })}
+          aria-label="Section title"
+        />
+        <button
+          onClick={() => onMove(path, -1)}
+          disabled={isFirst}
+          aria-label={`Move ${section.title} up`}
+          className="p-1 rounded text-slate-400 hover:text-slate-600 disabled:opacity-30"
+        >
+          <ChevronUp className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => onMove(path, 1)}
+          disabled={isLast}
+          aria-label={`Move ${section.title} down`}
+          className="p-1 rounded text-slate-400 hover:text-slate-600 disabled:opacity-30"
+        >
+          <ChevronDown className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => onRemove(path)}
+          aria-label={`Remove ${section.title}`}
+          className="p-1 rounded text-slate-400 hover:text-red-500"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <FormGroup label="Section ID" hint="Lowercase letters, digits and underscores">
+          <TextInput value={section.id} onChange={(e) => onChange(path, { id: e.target.value })} />
+        </FormGroup>
+        <FormGroup label="Minimum citations">
+          <TextInput
+            type="number"
+            min={0}
+            value={section.minCitations}
+            onChange={(e) => onChange(path, { minCitations: Number(e.target.value) })}
+          />
+        </FormGroup>
+      </div>
+
+      <Toggle
+        checked={section.required}
+        onChange={(required) => onChange(path, { required })}
+        label="Required section"
+      />
+
+      <FormGroup label="What this section covers">
+        <textarea
+          value={section.description}
+          onChange={(e) => onChange(path, { description: e.target.value })}
+          rows={2}
+          className={textAreaClass}
+        />
+      </FormGroup>
+
+      <FormGroup label="Writing hints" hint="One per line">
+        <textarea
+          value={section.promptHints.join('\n')}
+          onChange={(e) => onChange(path, { promptHints: e.target.value.split('\n') })}
+          onBlur={() => onChange(path, { promptHints: section.promptHints.map((hint) => hint.trim()).filter(Boolean) })}
+          rows={3}
+          className={textAreaClass}
+        />
+      </FormGroup>
+
+      {slots.map((slot, index) => (
+        <div key={index} className="p-2.5 rounded-lg bg-slate-50 space-y-2">
+          <div className="flex items-center gap-2">
+            <TextInput
+              value={slot.title}
+              onChange={(e) => updateSlot(index, { title: e.target.value })}
+              aria-label="Chart title"
+            />
+            <button
+              onClick={() => onChange(path, { visualizationSlots: slots.filter((_, i) => i !== index) })}
+              aria-label={`Remove ${slot.title}`}
+              className="p-1 rounded text-slate-400 hover:text-red-500"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <SelectInput
+              value={slot.type}
+              onChange={(e) => updateSlot(index, { type: e.target.value as VisualizationSlot['type'] })}
+              options={slotTypeOptions}
+              aria-label="Chart type"
+            />
+            <SelectInput
+              value={slot.placement}
+              onChange={(e) => updateSlot(index, { placement: e.target.value as VisualizationSlot['placement'] })}
+              options={placementOptions}
+              aria-label="Placement"
+            />
+            <TextInput
+              type="number"
+              min={1}
+              value={slot.minDataPoints}
+              onChange={(e) => updateSlot(index, { minDataPoints: Number(e.target.value) })}
+              aria-label="Minimum data points"
+            />
+          </div>
+          <TextInput
+            value={slot.description}
+            onChange={(e) => updateSlot(index, { description: e.target.value })}
+            placeholder="Data to extract, e.g. annual market size in USD for the last 5 years"
+          />
+        </div>
+      ))}
+
+      <div className="flex gap-3 text-xs">
+        <button
+          onClick={() => onChange(path, { visualizationSlots: [...slots, newSlot(section)] })}
+          className="flex items-center gap-1 text-violet-600 hover:text-violet-700"
+        >
+          <Plus className="w-3 h-3" /> Chart
+        </button>
+        {path.length < MAX_TEMPLATE_DEPTH && (
+          <button
+            onClick={() => onAddChild(path)}
+            className="flex items-center gap-1 text-violet-600 hover:text-violet-700"
+          >
+            <Plus className="w-3 h-3" /> Subsection
+          </button>
+        )}
+      </div>
+
+      {children.length > 0 && (
+        <div className="pl-3 border-l-2 border-violet-100 space-y-2">
+          {children.map((child, index) => (
+            <SectionEditor
+              key={index}
+              section={child}
+              path={[...path, index]}
+              isFirst={index === 0}
+              isLast={index === children.length - 1}
+              onChange={onChange}
+              onMove={onMove}
+              onRemove={onRemove}
+              onAddChild={onAddChild}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export const ReportTemplateEditorArtifact = () => {
+  const [templates, setTemplates] = useState<CompanyReportTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // The template being edited; editingId is null for a new one
+  const [draft, setDraft] = useState<ReportTemplateInput | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [baseTemplate, setBaseTemplate] = useState(BUILT_IN_OPTIONS[0].value);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    listReportTemplates()
+      .then((found) => {
+        if (!cancelled) setTemplates(found);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load templates');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const problems = useMemo(
+    () => (draft ? validateReportTemplate({ id: editingId ?? 'new', ...draft }) : []),
+    [draft, editingId]
+  );
+
+  const updateDraft = (changes: Partial<ReportTemplateInput>) =>
+    setDraft((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const editSections = (path: SectionPath, change: Parameters<typeof editSiblings>[2]) =>
+    setDraft((prev) => (prev ? { ...prev, sections: editSiblings(prev.sections, path, change) } : prev));
+
+  const changeSection = (path: SectionPath, changes: Partial<ReportSectionTemplate>) =>
+    editSections(path, (siblings, index) =>
+      siblings.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+
+  const moveSection = (path: SectionPath, offset: -1 | 1) =>
+    editSections(path, (siblings, index) => {
+      const next = [...siblings];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+
+  const removeSection = (path: SectionPath) =>
+    editSections(path, (siblings, index) => siblings.filter((_, i) => i !== index));
+
+  const addChild = (path: SectionPath) =>
+    editSections(path, (siblings, index) =>
+      siblings.map((section, i) => {
+        if (i !== index) return section;
+        const children = section.children ?? [];
+        return { ...section, children: [...children, newSection(children)] };
+      }));
+
+  const toggleSourceType = (type: ReportTemplateInput['requiredSourceTypes'][number]) =>
+    updateDraft({
+      requiredSourceTypes: draft!.requiredSourceTypes.includes(type)
+        ? draft!.requiredSourceTypes.filter((t) => t !== type)
+        : [...draft!.requiredSourceTypes, type],
+    });
+
+  const startNew = () => {
+    setEditingId(null);
+    setDraft(copyBuiltIn(baseTemplate));
+    setError(null);
+  };
+
+  const startEdit = (template: CompanyReportTemplate) => {
+    setEditingId(template.id);
+    setDraft(toInput(template));
+    setError(null);
+  };
+
+  const saveTemplate = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (editingId) {
+        const updated = await updateReportTemplate(editingId, draft);
+        setTemplates((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
+      } else {
+        const created = await createReportTemplate(draft);
+        setTemplates((prev) => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      setDraft(null);
+      setEditingId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removeTemplate = async (template: CompanyReportTemplate) => {
+    setError(null);
+    try {
+      await deleteReportTemplate(template.id);
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      if (editingId === template.id) {
+        setDraft(null);
+        setEditingId(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete the template');
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 overflow-auto p-5 space-y-5">
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        {draft ? (
+          <>
+            <ArtifactSection title={editingId ? 'Edit Template' : 'New Template'} collapsible={false}>
+              <div className="space-y-3">
+                <FormGroup label="Name" required>
+                  <TextInput value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} />
+                </FormGroup>
+                <FormGroup label="Description">
+                  <textarea
+                    value={draft.description}
+                    onChange={(e) => updateDraft({ description: e.target.value })}
+                    rows={2}
+                    className={textAreaClass}
+                  />
+                </FormGroup>
+                <FormGroup label="Minimum citations across the report">
+                  <TextInput
+                    type="number"
+                    min={0}
+                    value={draft.minTotalCitations}
+                    onChange={(e) => updateDraft({ minTotalCitations: Number(e.target.value) })}
+                  />
+                </FormGroup>
+                <FormGroup label="Required source types">
+                  <div className="space-y-1">
+                    {TEMPLATE_SOURCE_TYPES.map((type) => (
+                      <Checkbox
+                        key={type}
+                        checked={draft.requiredSourceTypes.includes(type)}
+                        onChange={() => toggleSourceType(type)}
+                        label={SOURCE_TYPE_LABELS[type]}
+                      />
+                    ))}
+                  </div>
+                </FormGroup>
+              </div>
+            </ArtifactSection>
+
+            <ArtifactSection
+              title="Sections"
+              badge={draft.sections.length}
+              collapsible={false}
+              action={{ label: 'Add section', onClick: () => updateDraft({ sections: [...draft.sections, newSection(draft.sections)] }) }}
+            >
+              <div className="space-y-2">
+                {draft.sections.map((section, index) => (
+                  <SectionEditor
+                    key={index}
+                    section={section}
+                    path={[index]}
+                    isFirst={index === 0}
+                    isLast={index === draft.sections.length - 1}
+                    onChange={changeSection}
+                    onMove={moveSection}
+                    onRemove={removeSection}
+                    onAddChild={addChild}
+                  />
+                ))}
+              </div>
+            </ArtifactSection>
+
+            {problems.length > 0 && (
+              <ul className="p-3 rounded-xl bg-amber-50 text-xs text-amber-700 space-y-1">
+                {problems.map((problem) => <li key={problem}>{problem}</li>)}
+              </ul>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => {
+                  setDraft(null);
+                  setEditingId(null);
+                }}
+                className="flex-1 px-4 py-2.5 text-[13px] font-medium rounded-xl border border-slate-200 text-slate-600 hover:bg-slate-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveTemplate}
+                disabled={isSaving || problems.length > 0 || !draft.name.trim()}
+                className="flex-1 px-4 py-2.5 text-[13px] font-medium rounded-xl bg-violet-600 text-white hover:bg-violet-700 transition-colors disabled:opacity-50"
+              >
+                {isSaving ? 'Saving…' : 'Save Template'}
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <ArtifactSection title="New Template" collapsible={false}>
+              <div className="space-y-3">
+                <FormGroup label="Start from" hint="Custom studies can then be written with this template">
+                  <SelectInput
+                    value={baseTemplate}
+                    onChange={(e) => setBaseTemplate(e.target.value)}
+                    options={BUILT_IN_OPTIONS}
+                  />
+                </FormGroup>
+                <button
+                  onClick={startNew}
+                  className="w-full px-4 py-2.5 text-[13px] font-medium rounded-xl bg-violet-600 text-white hover:bg-violet-700 transition-colors"
+                >
+                  Create Template
+                </button>
+              </div>
+            </ArtifactSection>
+
+            {isLoading ? (
+              <p className="text-sm text-slate-400">Loading templates…</p>
+            ) : templates.length === 0 ? (
+              <ArtifactEmpty
+                icon={<LayoutTemplate size={24} strokeWidth={1.5} />}
+                title="No company templates"
+                description="Templates set the sections, charts and citation minimums of custom research reports."
+              />
+            ) : (
+              <div className="space-y-2">
+                {templates.map((template) => (
+                  <div
+                    key={template.id}
+                    className="p-3 rounded-xl border border-slate-100 bg-white flex items-start justify-between gap-3"
+                  >
+                    <button onClick={() => startEdit(template)} className="min-w-0 text-left">
+                      <p className="text-sm font-medium text-slate-700 truncate">{template.name}</p>
+                      <p className="text-xs text-slate-400 mt-0.5">
+                        {`${template.sections.length} sections · ${template.minTotalCitations} citations minimum`}
+                      </p>
+                    </button>
+                    <button
+                      onClick={() => removeTemplate(template)}
+                      aria-label={`Delete ${template.name}`}
+                      className="p-1 rounded text-slate-400 hover:text-red-500"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReportTemplateEditorArtifact;
@@ -0,0 +1,234 @@
+// Report Version Bar
+// Version picker, refresh and section-level comparison for a saved research report
+
+import { useEffect, useRef, useState } from 'react';
+import { GitCompare, RefreshCw, X } from 'lucide-react';
+import {
+  getLibraryReport,
+  getReportDiff,
+  refreshLibraryReport,
+} from '../../../services/reportLibraryService';
+import { subscribeToResearch } from '../../../services/researchService';
+import type {
+  LibraryReport,
+  ReportDiff,
+  ReportSectionDiff,
+  ResearchReportSummary,
+} from '../../../types/deepResearch';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ReportVersionBarProps {
+  reportId: string;
+  onOpenVersion: (report: LibraryReport) => void;
+}
+
+const statusStyles: Record<ReportSectionDiff['status'], string> = {
+  added: 'bg-emerald-50 text-emerald-600',
+  removed: 'bg-red-50 text-red-600',
+  changed: 'bg-amber-50 text-amber-600',
+  unchanged: 'bg-slate-100 text-slate-400',
+};
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// ============================================
+// DIFF PANEL
+// ============================================
+
+const DiffPanel = ({ diff, onClose }: { diff: ReportDiff; onClose: () => void }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const changed = diff.sections.filter((section) => section.status !== 'unchanged');
+
+  return (
+    <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/60 max-h-80 overflow-auto">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-[12px] font-medium text-slate-600">
+          Changes from v{diff.fromVersion} to v{diff.toVersion}
+        </p>
+        <button onClick={onClose} aria-label="Close comparison" className="p-1 rounded text-slate-400 hover:text-slate-600">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {diff.keyFinding && (
+        <div className="mb-3 text-[12px] leading-relaxed">
+          <p className="text-slate-400 line-through">{diff.keyFinding.previous ?? 'No key finding'}</p>
+          <p className="text-slate-700">{diff.keyFinding.current ?? 'No key finding'}</p>
+        </div>
+      )}
+
+      {changed.length === 0 ? (
+        <p className="text-[12px] text-slate-400">No section changes.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {changed.map((section) => (
+            <li key={`${section.status}-${section.sectionId}`}>
+              <button
+                onClick={() => setExpandedId(expandedId === section.sectionId ? null : section.sectionId)}
+                className="w-full flex items-center gap-2 text-left"
+              >
+                <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium uppercase ${statusStyles[section.status]}`}>
+                  {section.status}
+                </span>
+                <span className="text-[13px] text-slate-700 truncate">{section.title}</span>
+                {section.changes.length > 0 && (
+                  <span className="text-[11px] text-slate-400">{section.changes.join(', ')}</span>
+                )}
+              </button>
+              {expandedId === section.sectionId && (section.previousContent || section.content) && (
+                <div className="mt-2 grid grid-cols-2 gap-3 text-[12px] leading-relaxed">
+                  <p className="text-slate-400 whitespace-pre-line line-clamp-[12]">{section.previousContent ?? '—'}</p>
+                  <p className="text-slate-600 whitespace-pre-line line-clamp-[12]">{section.content ?? '—'}</p>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export const ReportVersionBar = ({ reportId, onOpenVersion }: ReportVersionBarProps) => {
+  const [versions, setVersions] = useState<ResearchReportSummary[]>([]);
+  const [diff, setDiff] = useState<ReportDiff | null>(null);
+  const [refreshStatus, setRefreshStatus] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getLibraryReport(reportId)
+      .then((result) => {
+        if (!cancelled) setVersions(result.versions);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load versions');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [reportId]);
+
+  // Stop following a refresh when the report is closed
+  useEffect(() => () => unsubscribeRef.current?.(), []);
+
+  const current = versions.find((version) => version.id === reportId);
+  const hasOlderVersion = versions.some((version) => current && version.version < current.version);
+
+  const openVersion = async (id: string) => {
+    if (id === reportId) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const { report } = await getLibraryReport(id);
+      onOpenVersion(report);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open that version');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const toggleDiff = async () => {
+    if (diff) {
+      setDiff(null);
+      return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      setDiff(await getReportDiff(reportId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare versions');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const refresh = async () => {
+    setError(null);
+    setRefreshStatus('Starting refresh…');
+    try {
+      const research = await refreshLibraryReport(reportId);
+      unsubscribeRef.current = subscribeToResearch(research.jobId, (event) => {
+        if (event.type === 'report_ready') {
+          setRefreshStatus(null);
+          if (event.data.libraryReportId) {
+            openVersion(event.data.libraryReportId);
+          }
+        } else if (event.type === 'error') {
+          setRefreshStatus(null);
+          setError(event.data.error?.message ?? 'The refresh failed');
+        } else {
+          const sources = event.data.commandCenterProgress?.totalSources ?? 0;
+          setRefreshStatus(sources > 0 ? `Refreshing… ${sources} sources found` : 'Refreshing…');
+        }
+      });
+    } catch (err) {
+      setRefreshStatus(null);
+      setError(err instanceof Error ? err.message : 'Failed to start the refresh');
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-3 px-6 py-2 border-b border-slate-100 flex-shrink-0">
+        <div className="flex items-center gap-2 min-w-0">
+          {versions.length > 0 && (
+            <select
+              value={reportId}
+              onChange={(e) => openVersion(e.target.value)}
+              disabled={isBusy}
+              aria-label="Report version"
+              className="text-[12px] text-slate-600 bg-transparent border border-slate-200 rounded-md px-2 py-1"
+            >
+              {versions.map((version) => (
+                <option key={version.id} value={version.id}>
+                  v{version.version} · {formatDate(version.createdAt)}
+                </option>
+              ))}
+            </select>
+          )}
+          {hasOlderVersion && (
+            <button
+              onClick={toggleDiff}
+              disabled={isBusy}
+              className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-[12px] transition-colors ${diff ? 'bg-violet-50 text-violet-600' : 'text-slate-500 hover:bg-slate-50'}`}
+            >
+              <GitCompare className="w-3.5 h-3.5" />
+              Compare with previous
+            </button>
+          )}
+          {(refreshStatus || error) && (
+            <span className={`text-[12px] truncate ${error ? 'text-red-500' : 'text-violet-500'}`}>
+              {error ?? refreshStatus}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={refresh}
+          disabled={refreshStatus !== null}
+          title="Re-run this study and save the result as a new version"
+          className="flex items-center gap-1.5 px-3 py-1 rounded-md text-[12px] text-slate-500 hover:text-slate-700 hover:bg-slate-50 border border-slate-200 transition-colors disabled:opacity-50"
+        >
+          <RefreshCw className={`w-3.5 h-3.5 ${refreshStatus ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {diff && <DiffPanel diff={diff} onClose={() => setDiff(null)} />}
+    </>
+  );
+};
+
+export default ReportVersionBar;
@@ -0,0 +1,250 @@
+// Research Schedules Artifact
+// Recurring deep research studies: each run is charged and saved as a new version in the report library
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { CalendarClock, Trash2 } from 'lucide-react';
+import { ArtifactEmpty, ArtifactSection, FormGroup, SelectInput, TextInput, Toggle } from '../primitives';
+import {
+  createResearchSchedule,
+  deleteResearchSchedule,
+  listResearchSchedules,
+  updateResearchSchedule,
+} from '../../../services/researchScheduleService';
+import { getStudyTypeLabel } from '../../../services/deepResearchScoring';
+import {
+  RESEARCH_CADENCE_PRESETS,
+  STUDY_TYPES,
+  getCreditsRequiredForStudy,
+  type ResearchSchedule,
+  type ResearchScheduleInput,
+  type StudyType,
+} from '../../../types/deepResearch';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ResearchSchedulesArtifactProps {
+  /** Prefills the new schedule form, e.g. from an open report */
+  draft?: Partial<ResearchScheduleInput>;
+}
+
+const CUSTOM_CADENCE = 'custom';
+
+const cadenceOptions = [
+  ...RESEARCH_CADENCE_PRESETS,
+  { value: CUSTOM_CADENCE, label: 'Custom (cron, UTC)' },
+];
+
+const studyTypeOptions = STUDY_TYPES.map((type) => ({ value: type, label: getStudyTypeLabel(type) }));
+
+const describeCadence = (cadence: string): string =>
+  RESEARCH_CADENCE_PRESETS.find((preset) => preset.value === cadence)?.label ?? `Cron: ${cadence}`;
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const getCategory = (draft?: Partial<ResearchScheduleInput>): string => {
+  const answer = draft?.intakeAnswers?.category;
+  return (Array.isArray(answer) ? answer[0] : answer) ?? '';
+};
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export const ResearchSchedulesArtifact = ({ draft }: ResearchSchedulesArtifactProps) => {
+  const [schedules, setSchedules] = useState<ResearchSchedule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [name, setName] = useState(draft?.name ?? '');
+  const [query, setQuery] = useState(draft?.query ?? '');
+  const [studyType, setStudyType] = useState<StudyType>(draft?.studyType ?? 'market_analysis');
+  const [category, setCategory] = useState(getCategory(draft));
+  const [cadencePreset, setCadencePreset] = useState(RESEARCH_CADENCE_PRESETS[0].value);
+  const [customCadence, setCustomCadence] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    listResearchSchedules()
+      .then((found) => {
+        if (!cancelled) setSchedules(found);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load schedules');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const cadence = cadencePreset === CUSTOM_CADENCE ? customCadence.trim() : cadencePreset;
+
+  const saveSchedule = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const schedule = await createResearchSchedule({
+        name: name.trim() || undefined,
+        query: query.trim(),
+        studyType,
+        intakeAnswers: { ...draft?.intakeAnswers, ...(category.trim() ? { category: category.trim() } : {}) },
+        cadence,
+      });
+      setSchedules((prev) => [schedule, ...prev]);
+      setName('');
+      setQuery('');
+      setCategory('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the schedule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleSchedule = async (schedule: ResearchSchedule) => {
+    setBusyId(schedule.id);
+    setError(null);
+    try {
+      const updated = await updateResearchSchedule(schedule.id, { isActive: !schedule.isActive });
+      setSchedules((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the schedule');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const removeSchedule = async (schedule: ResearchSchedule) => {
+    setBusyId(schedule.id);
+    setError(null);
+    try {
+      await deleteResearchSchedule(schedule.id);
+      setSchedules((prev) => prev.filter((s) => s.id !== schedule.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete the schedule');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 overflow-auto p-5 space-y-5">
+        <ArtifactSection title="New Schedule" collapsible={false}>
+          <div className="space-y-3">
+            <FormGroup label="Research question" required>
+              <TextInput
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="e.g. Corrugated packaging price outlook in North America"
+              />
+            </FormGroup>
+            <FormGroup label="Name" hint="Defaults to the research question">
+              <TextInput value={name} onChange={(e) => setName(e.target.value)} />
+            </FormGroup>
+            <div className="grid grid-cols-2 gap-2">
+              <FormGroup label="Study type">
+                <SelectInput
+                  value={studyType}
+                  onChange={(e) => setStudyType(e.target.value as StudyType)}
+                  options={studyTypeOptions}
+                />
+              </FormGroup>
+              <FormGroup label="Category">
+                <TextInput value={category} onChange={(e) => setCategory(e.target.value)} placeholder="Optional" />
+              </FormGroup>
+            </div>
+            <FormGroup
+              label="Runs"
+              hint={`${getCreditsRequiredForStudy(studyType)} credits per run, charged when each report is ready`}
+            >
+              <SelectInput
+                value={cadencePreset}
+                onChange={(e) => setCadencePreset(e.target.value)}
+                options={cadenceOptions}
+              />
+            </FormGroup>
+            {cadencePreset === CUSTOM_CADENCE && (
+              <TextInput
+                value={customCadence}
+                onChange={(e) => setCustomCadence(e.target.value)}
+                placeholder="minute hour day month weekday, e.g. 0 6 * * 1"
+              />
+            )}
+            <button
+              onClick={saveSchedule}
+              disabled={isSaving || !query.trim() || !cadence}
+              className="w-full px-4 py-2.5 text-[13px] font-medium rounded-xl bg-violet-600 text-white hover:bg-violet-700 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? 'Saving…' : 'Save Schedule'}
+            </button>
+          </div>
+        </ArtifactSection>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        {isLoading ? (
+          <p className="text-sm text-slate-400">Loading schedules…</p>
+        ) : schedules.length === 0 ? (
+          <ArtifactEmpty
+            icon={<CalendarClock size={24} strokeWidth={1.5} />}
+            title="No scheduled studies"
+            description="Scheduled studies re-run automatically and add a new version to the report library."
+          />
+        ) : (
+          <div className="space-y-2">
+            {schedules.map((schedule) => (
+              <motion.div
+                key={schedule.id}
+                initial={{ opacity: 0, y: 6 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="p-3 rounded-xl border border-slate-100 bg-white"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-700 truncate">{schedule.name}</p>
+                    <p className="text-xs text-slate-400 mt-0.5">
+                      {getStudyTypeLabel(schedule.studyType)}
+                      {` · ${describeCadence(schedule.cadence)}`}
+                      {` · ${schedule.creditsPerRun} credits per run`}
+                    </p>
+                    <p className="text-xs text-slate-500 mt-1">
+                      {schedule.isActive ? `Next run ${formatDate(schedule.nextRunAt)}` : 'Paused'}
+                      {schedule.lastRunAt && ` · Last run ${formatDate(schedule.lastRunAt)}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => removeSchedule(schedule)}
+                    disabled={busyId === schedule.id}
+                    aria-label={`Delete ${schedule.name}`}
+                    className="p-1 rounded text-slate-400 hover:text-red-500 disabled:opacity-50"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                <div className="mt-2">
+                  <Toggle
+                    checked={schedule.isActive}
+                    onChange={() => toggleSchedule(schedule)}
+                    disabled={busyId === schedule.id}
+                    label="Active"
+                  />
+                </div>
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResearchSchedulesArtifact;
@@ -0,0 +1,246 @@
+// Supplier Import Panel
+// Upload a CSV/XLSX supplier list, review the suggested matches and confirm the import
+
+import { useRef, useState } from 'react';
+import { AlertTriangle, FileSpreadsheet, Upload, X } from 'lucide-react';
+import { ArtifactSection } from '../primitives';
+import {
+  IMPORT_FILE_ACCEPT,
+  cancelSupplierImport,
+  confirmSupplierImport,
+  updateImportDecisions,
+  uploadSupplierList,
+} from '../../../services/supplierImportService';
+import {
+  IMPORT_REVIEW_CONFIDENCE,
+  type SupplierImportDecision,
+  type SupplierImportPreview,
+  type SupplierImportResult,
+  type SupplierImportRow,
+} from '../../../types/supplierImport';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SupplierImportPanelProps {
+  onImported?: (result: SupplierImportResult) => void;
+}
+
+const matchTypeLabels = {
+  duns: 'DUNS',
+  name_country: 'Name + country',
+  name: 'Name',
+};
+
+const formatSpend = (spend: number) =>
+  spend >= 1e6 ? `$${(spend / 1e6).toFixed(1)}M` : spend >= 1e3 ? `$${Math.round(spend / 1e3)}K` : `$${spend}`;
+
+const ConfidenceBadge = ({ confidence }: { confidence: number }) => (
+  <span
+    className={`px-1.5 py-0.5 rounded-md text-[11px] font-medium ${
+      confidence >= IMPORT_REVIEW_CONFIDENCE ? 'bg-emerald-50 text-emerald-600' : 'bg-amber-50 text-amber-600'
+    }`}
+  >
+    {Math.round(confidence * 100)}%
+  </span>
+);
+
+function decisionOptions(row: SupplierImportRow): Array<{ value: SupplierImportDecision; label: string }> {
+  const options: Array<{ value: SupplierImportDecision; label: string }> = [];
+  if (row.match) {
+    options.push({ value: 'match', label: 'Use match' });
+  }
+  if (row.match?.matchType !== 'duns') {
+    options.push({ value: 'create', label: 'Create new' });
+  }
+  options.push({ value: 'skip', label: 'Skip' });
+  return options;
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export const SupplierImportPanel = ({ onImported }: SupplierImportPanelProps) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [preview, setPreview] = useState<SupplierImportPreview | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsUploading(true);
+    setError(null);
+    try {
+      setPreview(await uploadSupplierList(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    } finally {
+      setIsUploading(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const changeDecision = async (row: SupplierImportRow, decision: SupplierImportDecision) => {
+    if (!preview) return;
+    setError(null);
+    try {
+      setPreview(await updateImportDecisions(preview.id, [{ rowNumber: row.rowNumber, decision }]));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the row');
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!preview) return;
+    setError(null);
+    try {
+      await cancelSupplierImport(preview.id);
+      setPreview(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel the import');
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!preview) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await confirmSupplierImport(preview.id);
+      setPreview(null);
+      onImported?.(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import suppliers');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const errorMessage = error && (
+    <p className="text-sm text-red-600 flex items-center gap-1.5">
+      <AlertTriangle size={14} />
+      {error}
+    </p>
+  );
+
+  if (!preview) {
+    return (
+      <div className="space-y-4">
+        <label className="flex flex-col items-center justify-center gap-2 p-8 rounded-xl border-2 border-dashed border-slate-200 hover:border-violet-300 cursor-pointer text-center">
+          <Upload size={24} className="text-slate-400" strokeWidth={1.5} />
+          <span className="text-sm font-medium text-slate-700">
+            {isUploading ? 'Matching suppliers…' : 'Choose a CSV or XLSX file'}
+          </span>
+          <span className="text-xs text-slate-400">
+            One supplier per row with a Supplier Name column. DUNS, Country, Category and Spend are optional.
+          </span>
+          <input
+            ref={fileInput}
+            type="file"
+            accept={IMPORT_FILE_ACCEPT}
+            disabled={isUploading}
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="hidden"
+          />
+        </label>
+        {errorMessage}
+      </div>
+    );
+  }
+
+  const { summary } = preview;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-sm text-slate-700">
+        <FileSpreadsheet size={16} className="text-slate-400" />
+        <span className="font-medium truncate">{preview.fileName}</span>
+        <span className="text-xs text-slate-400 ml-auto">{summary.total} rows</span>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 text-center">
+        {[
+          { label: 'Matched', value: summary.matched, className: 'text-emerald-600' },
+          { label: 'New', value: summary.toCreate, className: 'text-violet-600' },
+          { label: 'Review', value: summary.needsReview, className: 'text-amber-600' },
+          { label: 'Skipped', value: summary.skipped, className: 'text-slate-500' },
+        ].map((stat) => (
+          <div key={stat.label} className="p-2 rounded-xl bg-slate-50">
+            <p className={`text-lg font-semibold ${stat.className}`}>{stat.value}</p>
+            <p className="text-[11px] text-slate-400">{stat.label}</p>
+          </div>
+        ))}
+      </div>
+
+      <ArtifactSection title="Review matches" collapsible={false}>
+        <div className="space-y-2">
+          {preview.rows.map((row) => (
+            <div
+              key={row.rowNumber}
+              className={`p-3 rounded-xl border ${row.decision === 'skip' ? 'border-slate-100 bg-slate-50/60 opacity-70' : 'border-slate-100 bg-white'}`}
+            >
+              <div className="flex items-start gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-slate-700 truncate">{row.name}</p>
+                  <p className="text-xs text-slate-400 truncate">
+                    Row {row.rowNumber}
+                    {row.country && ` · ${row.country}`}
+                    {row.duns && ` · DUNS ${row.duns}`}
+                    {row.spend !== null && ` · ${formatSpend(row.spend)}`}
+                  </p>
+                  {row.match ? (
+                    <p className="mt-1 flex items-center gap-1.5 text-xs text-slate-600">
+                      <span className="truncate">→ {row.match.supplierName}, {row.match.country}</span>
+                      <ConfidenceBadge confidence={row.match.confidence} />
+                      <span className="text-slate-400">{matchTypeLabels[row.match.matchType]}</span>
+                    </p>
+                  ) : (
+                    <p className="mt-1 text-xs text-slate-400">No match - will be created as unrated</p>
+                  )}
+                  {row.issues.map((issue) => (
+                    <p key={issue} className="mt-1 text-xs text-amber-600">{issue}</p>
+                  ))}
+                </div>
+                <select
+                  value={row.decision}
+                  onChange={(e) => changeDecision(row, e.target.value as SupplierImportDecision)}
+                  disabled={isSaving}
+                  aria-label={`Decision for ${row.name}`}
+                  className="px-2 py-1.5 rounded-lg text-xs text-slate-600 bg-white border border-slate-200"
+                >
+                  {decisionOptions(row).map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          ))}
+        </div>
+      </ArtifactSection>
+
+      {errorMessage}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleCancel}
+          disabled={isSaving}
+          className="flex items-center gap-1 px-3 py-2 rounded-xl text-[13px] text-slate-600 hover:bg-slate-100"
+        >
+          <X size={14} /> Cancel import
+        </button>
+        <button
+          onClick={handleConfirm}
+          disabled={isSaving || summary.matched + summary.toCreate === 0}
+          className="ml-auto px-4 py-2 rounded-xl bg-slate-900 text-white text-[13px] font-medium disabled:opacity-40"
+        >
+          {isSaving ? 'Importing…' : `Import ${summary.matched + summary.toCreate} supplier${summary.matched + summary.toCreate === 1 ? '' : 's'}`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SupplierImportPanel;
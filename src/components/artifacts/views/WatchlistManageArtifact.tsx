@@ -0,0 +1,500 @@
+// Watchlist Management Artifact
+// Action panel for following suppliers, notes, alert toggles and named watchlists
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  AlertTriangle,
+  Bell,
+  BellOff,
+  Check,
+  FolderPlus,
+  Plus,
+  Search,
+  StickyNote,
+  Upload,
+  UserMinus,
+} from 'lucide-react';
+import {
+  ArtifactEmpty,
+  ArtifactFooter,
+  ArtifactSection,
+  ArtifactTabs,
+  SelectInput,
+  TextInput,
+} from '../primitives';
+import {
+  applyPortfolioAction,
+  createWatchlist,
+  listPortfolio,
+  listWatchlists,
+  searchSuppliers,
+  updatePortfolioEntry,
+} from '../../../services/watchlistService';
+import { describeImportResult } from '../../../services/supplierImportService';
+import { SupplierImportPanel } from './SupplierImportPanel';
+import type { RiskLevel } from '../../../types/supplier';
+import type {
+  PortfolioBulkAction,
+  PortfolioEntry,
+  SupplierSearchResult,
+  Watchlist,
+} from '../../../types/watchlists';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface WatchlistManageArtifactProps {
+  supplierName?: string;
+  initialTab?: Tab;
+  onChange?: () => void;
+  onClose?: () => void;
+}
+
+export type Tab = 'following' | 'search' | 'import';
+
+const ALL_SUPPLIERS = 'all';
+const SEARCH_DEBOUNCE_MS = 300;
+
+const levelStyles: Record<RiskLevel, string> = {
+  high: 'bg-red-50 text-red-600',
+  'medium-high': 'bg-orange-50 text-orange-600',
+  medium: 'bg-amber-50 text-amber-600',
+  low: 'bg-emerald-50 text-emerald-600',
+  unrated: 'bg-slate-100 text-slate-500',
+};
+
+const ScoreBadge = ({ score, level }: { score: number | null; level: RiskLevel }) => (
+  <span className={`px-2 py-0.5 rounded-full text-[11px] font-medium ${levelStyles[level]}`}>
+    {score ?? '—'}
+  </span>
+);
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export const WatchlistManageArtifact = ({
+  supplierName,
+  initialTab,
+  onChange,
+  onClose,
+}: WatchlistManageArtifactProps) => {
+  const [tab, setTab] = useState<Tab>(initialTab ?? (supplierName ? 'search' : 'following'));
+  const [entries, setEntries] = useState<PortfolioEntry[]>([]);
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [activeWatchlist, setActiveWatchlist] = useState<string>(ALL_SUPPLIERS);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [query, setQuery] = useState(supplierName ?? '');
+  const [results, setResults] = useState<SupplierSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [editingNotes, setEditingNotes] = useState<string | null>(null);
+  const [notesDraft, setNotesDraft] = useState('');
+  const [newWatchlistName, setNewWatchlistName] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      setError(null);
+      const [portfolio, lists] = await Promise.all([listPortfolio(), listWatchlists()]);
+      setEntries(portfolio);
+      setWatchlists(lists);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load your watchlist');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Debounced supplier search
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const found = await searchSuppliers(trimmed);
+        if (!cancelled) setResults(found);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Search failed');
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  // Selection is per tab
+  useEffect(() => {
+    setSelected(new Set());
+  }, [tab, activeWatchlist]);
+
+  const visibleEntries = useMemo(
+    () => activeWatchlist === ALL_SUPPLIERS
+      ? entries
+      : entries.filter((e) => e.watchlistIds.includes(activeWatchlist)),
+    [entries, activeWatchlist]
+  );
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const runAction = async (action: PortfolioBulkAction, supplierIds: string[], watchlistId?: string) => {
+    if (supplierIds.length === 0) return;
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const result = await applyPortfolioAction(action, { supplierIds }, watchlistId);
+      setNotice(`${result.updated.length} supplier${result.updated.length === 1 ? '' : 's'} updated`);
+      setSelected(new Set());
+      await refresh();
+      if (tab === 'search') {
+        const followedIds = new Set(supplierIds);
+        setResults((prev) => prev.map((r) => followedIds.has(r.id) ? { ...r, isFollowed: action !== 'unfollow' } : r));
+      }
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update your watchlist');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleAlerts = async (entry: PortfolioEntry) => {
+    const alertsEnabled = !entry.alertsEnabled;
+    setEntries((prev) => prev.map((e) => e.supplierId === entry.supplierId ? { ...e, alertsEnabled } : e));
+    try {
+      await updatePortfolioEntry(entry.supplierId, { alertsEnabled });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update alerts');
+      await refresh();
+    }
+  };
+
+  const saveNotes = async (entry: PortfolioEntry) => {
+    const notes = notesDraft.trim() || null;
+    setEditingNotes(null);
+    if (notes === entry.notes) return;
+
+    setEntries((prev) => prev.map((e) => e.supplierId === entry.supplierId ? { ...e, notes } : e));
+    try {
+      await updatePortfolioEntry(entry.supplierId, { notes });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save notes');
+      await refresh();
+    }
+  };
+
+  const handleCreateWatchlist = async () => {
+    const name = newWatchlistName.trim();
+    if (!name) return;
+    setError(null);
+    try {
+      const watchlist = await createWatchlist(name);
+      setWatchlists((prev) => [...prev, watchlist].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewWatchlistName('');
+      // Put any selected suppliers straight into the new list
+      if (selected.size > 0) {
+        await runAction('add_to_watchlist', Array.from(selected), watchlist.id);
+      }
+      setActiveWatchlist(watchlist.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create watchlist');
+    }
+  };
+
+  const selectedIds = Array.from(selected);
+  const watchlistOptions = [
+    { value: ALL_SUPPLIERS, label: `All followed (${entries.length})` },
+    ...watchlists.map((w) => ({ value: w.id, label: `${w.name} (${w.supplierCount})` })),
+  ];
+
+  return (
+    <div className="flex flex-col h-full">
+      <ArtifactTabs
+        tabs={[
+          { id: 'following', label: 'Following', badge: entries.length },
+          { id: 'search', label: 'Find Suppliers', icon: <Search size={14} /> },
+          { id: 'import', label: 'Import', icon: <Upload size={14} /> },
+        ]}
+        activeTab={tab}
+        onTabChange={(id) => setTab(id as Tab)}
+      />
+
+      <div className="flex-1 overflow-auto p-5 space-y-5">
+        {tab === 'following' && (
+          <>
+            <ArtifactSection title="Watchlists" collapsible={false}>
+              <div className="space-y-3">
+                <SelectInput
+                  value={activeWatchlist}
+                  onChange={(e) => setActiveWatchlist(e.target.value)}
+                  options={watchlistOptions}
+                />
+                <div className="flex gap-2">
+                  <div className="flex-1">
+                    <TextInput
+                      value={newWatchlistName}
+                      onChange={(e) => setNewWatchlistName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleCreateWatchlist()}
+                      placeholder={selected.size > 0 ? `New watchlist with ${selected.size} selected` : 'New watchlist name'}
+                      icon={<FolderPlus size={16} />}
+                    />
+                  </div>
+                  <button
+                    onClick={handleCreateWatchlist}
+                    disabled={!newWatchlistName.trim()}
+                    className="px-3 rounded-xl bg-slate-900 text-white text-[13px] font-medium disabled:opacity-40"
+                  >
+                    Create
+                  </button>
+                </div>
+              </div>
+            </ArtifactSection>
+
+            {isLoading ? (
+              <p className="text-sm text-slate-400">Loading your portfolio…</p>
+            ) : visibleEntries.length === 0 ? (
+              <ArtifactEmpty
+                icon={<Bell size={24} strokeWidth={1.5} />}
+                title={activeWatchlist === ALL_SUPPLIERS ? 'No suppliers followed yet' : 'This watchlist is empty'}
+                description="Search for suppliers to follow and get alerted when their risk changes."
+                action={{ label: 'Find suppliers', onClick: () => setTab('search') }}
+              />
+            ) : (
+              <div className="space-y-2">
+                {visibleEntries.map((entry) => (
+                  <motion.div
+                    key={entry.supplierId}
+                    initial={{ opacity: 0, y: 6 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className={`p-3 rounded-xl border ${selected.has(entry.supplierId) ? 'border-violet-200 bg-violet-50/40' : 'border-slate-100 bg-white'}`}
+                  >
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(entry.supplierId)}
+                        onChange={() => toggleSelected(entry.supplierId)}
+                        aria-label={`Select ${entry.supplierName}`}
+                        className="w-4 h-4 rounded border-slate-300 text-violet-600"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-slate-700 truncate">{entry.supplierName}</p>
+                        <p className="text-xs text-slate-400 truncate">{entry.category} · {entry.country}</p>
+                      </div>
+                      <ScoreBadge score={entry.score} level={entry.level} />
+                      <button
+                        onClick={() => {
+                          setEditingNotes(entry.supplierId);
+                          setNotesDraft(entry.notes ?? '');
+                        }}
+                        aria-label="Edit notes"
+                        className={`p-1.5 rounded-lg hover:bg-slate-100 ${entry.notes ? 'text-violet-500' : 'text-slate-400'}`}
+                      >
+                        <StickyNote size={15} />
+                      </button>
+                      <button
+                        onClick={() => toggleAlerts(entry)}
+                        aria-label={entry.alertsEnabled ? 'Mute alerts' : 'Enable alerts'}
+                        className={`p-1.5 rounded-lg hover:bg-slate-100 ${entry.alertsEnabled ? 'text-violet-500' : 'text-slate-400'}`}
+                      >
+                        {entry.alertsEnabled ? <Bell size={15} /> : <BellOff size={15} />}
+                      </button>
+                    </div>
+
+                    {editingNotes === entry.supplierId ? (
+                      <textarea
+                        autoFocus
+                        value={notesDraft}
+                        onChange={(e) => setNotesDraft(e.target.value)}
+                        onBlur={() => saveNotes(entry)}
+                        placeholder="Why you follow this supplier, contacts, next review…"
+                        rows={3}
+                        className="mt-3 w-full px-3 py-2 text-sm rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-violet-100"
+                      />
+                    ) : entry.notes ? (
+                      <p className="mt-2 ml-7 text-xs text-slate-500 whitespace-pre-line">{entry.notes}</p>
+                    ) : null}
+                  </motion.div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        {tab === 'search' && (
+          <>
+            <TextInput
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by supplier, category or country"
+              icon={<Search size={16} />}
+              autoFocus
+            />
+
+            {isSearching ? (
+              <p className="text-sm text-slate-400">Searching…</p>
+            ) : query.trim().length >= 2 && results.length === 0 ? (
+              <ArtifactEmpty title="No suppliers found" description="Try a shorter name or a category." />
+            ) : (
+              <div className="space-y-2">
+                {results.map((result) => (
+                  <div
+                    key={result.id}
+                    className={`flex items-center gap-3 p-3 rounded-xl border ${selected.has(result.id) ? 'border-violet-200 bg-violet-50/40' : 'border-slate-100 bg-white'}`}
+                  >
+                    {!result.isFollowed && (
+                      <input
+                        type="checkbox"
+                        checked={selected.has(result.id)}
+                        onChange={() => toggleSelected(result.id)}
+                        aria-label={`Select ${result.name}`}
+                        className="w-4 h-4 rounded border-slate-300 text-violet-600"
+                      />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-slate-700 truncate">{result.name}</p>
+                      <p className="text-xs text-slate-400 truncate">{result.category} · {result.country}</p>
+                    </div>
+                    <ScoreBadge score={result.score} level={result.level} />
+                    {result.isFollowed ? (
+                      <span className="flex items-center gap-1 text-xs text-emerald-600 font-medium">
+                        <Check size={14} /> Following
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => runAction('follow', [result.id])}
+                        disabled={isSaving}
+                        className="flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-medium text-violet-600 hover:bg-violet-50"
+                      >
+                        <Plus size={14} /> Follow
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        {tab === 'import' && (
+          <SupplierImportPanel
+            onImported={async (result) => {
+              setTab('following');
+              await refresh();
+              setNotice(describeImportResult(result));
+              onChange?.();
+            }}
+          />
+        )}
+
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-1.5">
+            <AlertTriangle size={14} />
+            {error}
+          </p>
+        )}
+        {notice && !error && (
+          <p className="text-sm text-emerald-600 flex items-center gap-1.5">
+            <Check size={14} />
+            {notice}
+          </p>
+        )}
+      </div>
+
+      {/* Bulk actions for the current selection */}
+      {selected.size > 0 && tab === 'following' && (
+        <div className="px-5 py-3 border-t border-slate-100 flex flex-wrap items-center gap-2">
+          <span className="text-xs text-slate-500 mr-auto">{selected.size} selected</span>
+          <button
+            onClick={() => runAction('enable_alerts', selectedIds)}
+            disabled={isSaving}
+            className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs text-slate-600 hover:bg-slate-100"
+          >
+            <Bell size={13} /> Alerts on
+          </button>
+          <button
+            onClick={() => runAction('disable_alerts', selectedIds)}
+            disabled={isSaving}
+            className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs text-slate-600 hover:bg-slate-100"
+          >
+            <BellOff size={13} /> Alerts off
+          </button>
+          {watchlists.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => e.target.value && runAction('add_to_watchlist', selectedIds, e.target.value)}
+              disabled={isSaving}
+              className="px-2 py-1.5 rounded-lg text-xs text-slate-600 bg-white border border-slate-200"
+              aria-label="Add to watchlist"
+            >
+              <option value="">Add to watchlist…</option>
+              {watchlists.map((w) => (
+                <option key={w.id} value={w.id}>{w.name}</option>
+              ))}
+            </select>
+          )}
+          {activeWatchlist !== ALL_SUPPLIERS && (
+            <button
+              onClick={() => runAction('remove_from_watchlist', selectedIds, activeWatchlist)}
+              disabled={isSaving}
+              className="px-2.5 py-1.5 rounded-lg text-xs text-slate-600 hover:bg-slate-100"
+            >
+              Remove from list
+            </button>
+          )}
+          <button
+            onClick={() => runAction('unfollow', selectedIds)}
+            disabled={isSaving}
+            className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs text-rose-600 hover:bg-rose-50"
+          >
+            <UserMinus size={13} /> Unfollow
+          </button>
+        </div>
+      )}
+
+      <ArtifactFooter
+        primaryAction={tab === 'search' && selected.size > 0 ? {
+          id: 'follow-selected',
+          label: `Follow ${selected.size} supplier${selected.size === 1 ? '' : 's'}`,
+          variant: 'primary',
+          onClick: () => runAction('follow', selectedIds),
+          loading: isSaving,
+          icon: <Plus size={16} />,
+        } : undefined}
+        secondaryAction={{
+          id: 'close',
+          label: 'Done',
+          variant: 'secondary',
+          onClick: () => onClose?.(),
+        }}
+      />
+    </div>
+  );
+};
+
+export default WatchlistManageArtifact;
@@ -6,3 +6,9 @@ export type { AlertConfigArtifactProps } from './AlertConfigArtifact';
 
 export { ExportBuilderArtifact } from './ExportBuilderArtifact';
 export type { ExportBuilderArtifactProps } from './ExportBuilderArtifact';
+
+export { WatchlistManageArtifact } from './WatchlistManageArtifact';
+export type { WatchlistManageArtifactProps } from './WatchlistManageArtifact';
+
+export { AssessmentRequestArtifact } from './AssessmentRequestArtifact';
+export type { AssessmentRequestArtifactProps } from './AssessmentRequestArtifact';
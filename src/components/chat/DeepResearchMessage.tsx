@@ -762,10 +762,12 @@ export const DeepResearchMessage = ({
                 </div>
                 <div className="flex-1 min-w-0">
                   <h3 className="text-[15px] font-normal text-[#1A1F36] leading-5">
-                    Preparing Research
+                    {response.approvalRequestId ? 'Awaiting Approval' : 'Preparing Research'}
                   </h3>
                   <p className="text-[13px] text-[#7C83A1] leading-[18px] mt-px">
-                    Starting deep analysis...
+                    {response.approvalRequestId
+                      ? `${response.creditsRequired} credits are on hold. Research starts once an approver signs off.`
+                      : 'Starting deep analysis...'}
                   </p>
                 </div>
               </div>
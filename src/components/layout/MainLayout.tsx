@@ -23,6 +23,7 @@ interface MainLayoutProps {
     onNavigateToSettings?: () => void;
     onNavigateToExpertPortal?: () => void;
     onNavigateToExpertMarketplace?: () => void;
+    onNavigateToReports?: () => void;
     showExpertPortal?: boolean; // Show expert portal nav (for experts/demo)
     // Subscription/credits (Phase 2)
     subscription?: CompanySubscription;
@@ -52,6 +53,7 @@ export const MainLayout = (props: MainLayoutProps) => {
         onNavigateToSettings,
         onNavigateToExpertPortal,
         onNavigateToExpertMarketplace,
+        onNavigateToReports,
         showExpertPortal = false,
         subscription,
         onCreditsClick,
@@ -79,6 +81,7 @@ export const MainLayout = (props: MainLayoutProps) => {
                 onNavigateToSettings={onNavigateToSettings}
                 onNavigateToExpertPortal={onNavigateToExpertPortal}
                 onNavigateToExpertMarketplace={onNavigateToExpertMarketplace}
+                onNavigateToReports={onNavigateToReports}
                 showExpertPortal={showExpertPortal}
             />
 
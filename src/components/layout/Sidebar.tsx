@@ -1,5 +1,5 @@
 import { useState, useRef } from 'react';
-import { MessageSquare, Settings, HelpCircle, PanelLeft, Search, Plus, ChevronDown, ChevronRight, Sparkles, Compass, Bot, Crown, Users } from 'lucide-react';
+import { MessageSquare, Settings, HelpCircle, PanelLeft, Search, Plus, ChevronDown, ChevronRight, Sparkles, Compass, Bot, Crown, Users, FileText } from 'lucide-react';
 
 interface SidebarProps {
     isExpanded: boolean;
@@ -13,6 +13,7 @@ interface SidebarProps {
     onNavigateToSettings?: () => void;
     onNavigateToExpertPortal?: () => void;
     onNavigateToExpertMarketplace?: () => void;
+    onNavigateToReports?: () => void;
     showExpertPortal?: boolean; // Show expert portal nav item (for experts/demo mode)
 }
 
@@ -29,6 +30,7 @@ export const Sidebar = (props: SidebarProps) => {
         onNavigateToSettings,
         onNavigateToExpertPortal,
         onNavigateToExpertMarketplace,
+        onNavigateToReports,
         showExpertPortal = false,
     } = props;
     const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
@@ -133,6 +135,7 @@ export const Sidebar = (props: SidebarProps) => {
                     <NewChatButton isExpanded={isExpanded} onClick={onNewChat} />
                     <NavItem icon={MessageSquare} label="Conversations" isExpanded={isExpanded} onClick={onNavigateToHistory} />
                     <NavItem icon={Compass} label="Discovery" isExpanded={isExpanded} />
+                    <NavItem icon={FileText} label="Reports" isExpanded={isExpanded} onClick={onNavigateToReports} />
                     {/* Community has been parked - hiding from nav */}
                     {/* <NavItem icon={MessagesSquare} label="Community" isExpanded={isExpanded} onClick={onNavigateToCommunity} /> */}
                     <NavItem icon={Bot} label="Agents" isExpanded={isExpanded} />
@@ -15,6 +15,8 @@ import {
   Info,
   CheckCheck,
   Settings,
+  MessageSquare,
+  FileText,
 } from 'lucide-react';
 import type { AppNotification, AlertSeverity, BadgeTier, ApprovalStatus } from '../../types/notifications';
 import { formatRelativeTime } from '../../types/notifications';
@@ -29,6 +31,7 @@ interface NotificationDrawerProps {
   notifications: AppNotification[];
   onMarkAsRead: (id: string) => void;
   onMarkAllAsRead: () => void;
+  onDismiss: (id: string) => void;
   onNotificationClick: (notification: AppNotification) => void;
 }
 
@@ -45,6 +48,8 @@ function getNotificationIcon(notification: AppNotification) {
         denied: { Icon: XCircle, color: 'text-red-500', bg: 'bg-red-50' },
         escalated: { Icon: Clock, color: 'text-amber-500', bg: 'bg-amber-50' },
         pending: { Icon: Clock, color: 'text-amber-500', bg: 'bg-amber-50' },
+        expired: { Icon: XCircle, color: 'text-slate-500', bg: 'bg-slate-50' },
+        fulfilled: { Icon: CheckCircle, color: 'text-violet-500', bg: 'bg-violet-50' },
       };
       return approvalStyles[status];
 
@@ -69,6 +74,12 @@ function getNotificationIcon(notification: AppNotification) {
     case 'reputation_change':
       return { Icon: TrendingUp, color: 'text-violet-500', bg: 'bg-violet-50' };
 
+    case 'answer_received':
+      return { Icon: MessageSquare, color: 'text-sky-500', bg: 'bg-sky-50' };
+
+    case 'report_ready':
+      return { Icon: FileText, color: 'text-violet-500', bg: 'bg-violet-50' };
+
     case 'system':
     default:
       return { Icon: Info, color: 'text-slate-500', bg: 'bg-slate-50' };
@@ -79,10 +90,11 @@ function getNotificationIcon(notification: AppNotification) {
 interface NotificationItemProps {
   notification: AppNotification;
   onMarkAsRead: (id: string) => void;
+  onDismiss: (id: string) => void;
   onClick: (notification: AppNotification) => void;
 }
 
-function NotificationItem({ notification, onMarkAsRead, onClick }: NotificationItemProps) {
+function NotificationItem({ notification, onMarkAsRead, onDismiss, onClick }: NotificationItemProps) {
   const { Icon, color, bg } = getNotificationIcon(notification);
 
   const handleClick = () => {
@@ -97,7 +109,7 @@ function NotificationItem({ notification, onMarkAsRead, onClick }: NotificationI
       initial={{ opacity: 0, y: 10 }}
       animate={{ opacity: 1, y: 0 }}
       className={`
-        flex items-start gap-3 p-4 rounded-2xl cursor-pointer transition-all duration-200
+        group flex items-start gap-3 p-4 rounded-2xl cursor-pointer transition-all duration-200
         bg-white border
         ${notification.isRead
           ? 'border-slate-100/60 hover:border-slate-200'
@@ -117,10 +129,22 @@ function NotificationItem({ notification, onMarkAsRead, onClick }: NotificationI
           <p className={`text-sm leading-snug ${notification.isRead ? 'text-slate-600' : 'font-medium text-slate-700'}`}>
             {notification.title}
           </p>
-          {/* Unread indicator */}
-          {!notification.isRead && (
-            <span className="w-2 h-2 rounded-full bg-violet-500 shrink-0 mt-1.5" />
-          )}
+          <div className="flex items-center gap-1.5 shrink-0">
+            {/* Unread indicator */}
+            {!notification.isRead && (
+              <span className="w-2 h-2 rounded-full bg-violet-500 mt-0.5" />
+            )}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onDismiss(notification.id);
+              }}
+              aria-label="Dismiss notification"
+              className="w-5 h-5 rounded-md flex items-center justify-center text-slate-300 hover:text-slate-500 hover:bg-slate-100 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-all"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
         </div>
         <p className="text-xs text-slate-500 mt-1 line-clamp-2 leading-relaxed">
           {notification.description}
@@ -148,6 +172,7 @@ export function NotificationDrawer({
   notifications,
   onMarkAsRead,
   onMarkAllAsRead,
+  onDismiss,
   onNotificationClick,
 }: NotificationDrawerProps) {
   const closeButtonRef = useRef<HTMLButtonElement>(null);
@@ -279,6 +304,7 @@ export function NotificationDrawer({
                             key={notification.id}
                             notification={notification}
                             onMarkAsRead={onMarkAsRead}
+                            onDismiss={onDismiss}
                             onClick={onNotificationClick}
                           />
                         ))}
@@ -296,6 +322,7 @@ export function NotificationDrawer({
                             key={notification.id}
                             notification={notification}
                             onMarkAsRead={onMarkAsRead}
+                            onDismiss={onDismiss}
                             onClick={onNotificationClick}
                           />
                         ))}
@@ -313,6 +340,7 @@ export function NotificationDrawer({
                             key={notification.id}
                             notification={notification}
                             onMarkAsRead={onMarkAsRead}
+                            onDismiss={onDismiss}
                             onClick={onNotificationClick}
                           />
                         ))}
@@ -12,6 +12,9 @@ import {
     Check
 } from 'lucide-react';
 import { RiskScoreCircle } from '../RiskScoreBadge';
+import { getAssessmentEligibility } from '../../../types/assessments';
+import { useRiskScoreHistory } from '../../../hooks/useRiskScoreHistory';
+import type { RiskHistoryRange, RiskScoreHistoryPoint } from '../../../types/riskHistory';
 
 interface RiskFactor {
     name: string;
@@ -64,6 +67,7 @@ interface SupplierDetailArtifactProps {
     onFindAlternatives?: () => void;
     onAddToShortlist?: () => void;
     onViewDashboard?: () => void;
+    onRequestAssessment?: () => void;
 }
 
 type TabId = 'overview' | 'factors' | 'events' | 'history';
@@ -81,6 +85,7 @@ export const SupplierDetailArtifact = ({
     onFindAlternatives,
     onAddToShortlist,
     onViewDashboard,
+    onRequestAssessment,
 }: SupplierDetailArtifactProps) => {
     const [activeTab, setActiveTab] = useState<TabId>('overview');
 
@@ -90,6 +95,7 @@ export const SupplierDetailArtifact = ({
     const events = supplier?.events || [];
     const history = supplier?.history || [];
     const location = supplier?.location || { city: 'Unknown', country: 'Unknown' };
+    const canRequestAssessment = getAssessmentEligibility(srs.level, srs.lastUpdated || null) !== 'current';
 
     return (
         <div className="flex flex-col h-full bg-white font-sans">
@@ -147,7 +153,7 @@ export const SupplierDetailArtifact = ({
                     <EventsTab events={events} />
                 )}
                 {activeTab === 'history' && (
-                    <HistoryTab history={history} />
+                    <HistoryTab supplierId={supplier?.id} history={history} />
                 )}
             </div>
 
@@ -165,6 +171,14 @@ export const SupplierDetailArtifact = ({
                 >
                     Add to Shortlist
                 </button>
+                {onRequestAssessment && canRequestAssessment && (
+                    <button
+                        onClick={onRequestAssessment}
+                        className="flex-1 py-2.5 text-[13px] font-medium text-violet-700 bg-violet-50 border border-violet-100 hover:bg-violet-100 rounded-lg transition-colors active:scale-[0.98]"
+                    >
+                        Request Assessment
+                    </button>
+                )}
             </div>
         </div>
     );
@@ -366,17 +380,79 @@ const EventsTab = ({ events }: { events: Event[] }) => (
 );
 
 // History Tab
-const HistoryTab = ({ history }: { history: HistoryPoint[] }) => (
+const HISTORY_RANGES: { id: RiskHistoryRange; label: string }[] = [
+    { id: '90d', label: '90D' },
+    { id: '1y', label: '1Y' },
+    { id: '3y', label: '3Y' },
+];
+
+const toHistoryPoints = (points: RiskScoreHistoryPoint[]): HistoryPoint[] =>
+    points.map((point, i) => ({
+        date: point.date,
+        score: point.score,
+        level: point.level,
+        change: i > 0 ? point.score - points[i - 1].score : undefined,
+    }));
+
+// Net change per non-restricted factor between the first and last point that scored it
+const getFactorChanges = (points: RiskScoreHistoryPoint[]) => {
+    const latest = points[points.length - 1]?.factors ?? [];
+    return latest
+        .filter(factor => !factor.restricted && factor.score !== null)
+        .map(factor => {
+            const first = points
+                .map(point => point.factors?.find(f => f.id === factor.id)?.score)
+                .find((score): score is number => typeof score === 'number');
+            return { name: factor.name, score: factor.score as number, change: (factor.score as number) - (first ?? 0) };
+        });
+};
+
+const HistoryTab = ({ supplierId, history }: { supplierId?: string; history: HistoryPoint[] }) => {
+    const [range, setRange] = useState<RiskHistoryRange>('1y');
+    const { history: stored, isLoading } = useRiskScoreHistory(supplierId, range, { factors: true });
+
+    // Dated history from the API when the supplier has it, otherwise the payload's recent scores
+    const points = stored ? toHistoryPoints(stored.points) : history;
+    const factorChanges = stored ? getFactorChanges(stored.points) : [];
+
+    return (
     <div className="space-y-4">
-        <p className="text-sm text-slate-600">
-            Score trend over time (overall SRS only)
-        </p>
+        <div className="flex items-center justify-between">
+            <p className="text-sm text-slate-600">
+                {stored ? 'Score trend over time' : 'Recent scores (overall SRS only)'}
+            </p>
+            {stored && (
+                <div className="flex gap-1">
+                    {HISTORY_RANGES.map(option => (
+                        <button
+                            key={option.id}
+                            onClick={() => setRange(option.id)}
+                            className={`px-2 py-0.5 rounded-md text-xs font-medium transition-colors ${
+                                option.id === range ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+                            }`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+
+        {stored?.downsampled && (
+            <p className="text-xs text-slate-400">Each point averages the scores recorded in its period.</p>
+        )}
+
+        {!isLoading && points.length === 0 && (
+            <p className="text-sm text-slate-400">No scores recorded in this period.</p>
+        )}
 
         {/* Simple Timeline */}
         <div className="space-y-3">
-            {history.map((point, i) => (
+            {points.map((point, i) => (
                 <div key={i} className="flex items-center gap-4">
-                    <div className="w-20 text-xs text-slate-500">{point.date}</div>
+                    <div className="w-20 text-xs text-slate-500">
+                        {new Date(point.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' })}
+                    </div>
                     <div className="flex items-center gap-2">
                         <span className={`font-medium ${
                             point.level === 'high' ? 'text-red-600' :
@@ -408,5 +484,27 @@ const HistoryTab = ({ history }: { history: HistoryPoint[] }) => (
                 </div>
             ))}
         </div>
+
+        {factorChanges.length > 0 && (
+            <div className="pt-4 border-t border-slate-100">
+                <p className="text-xs font-medium text-slate-500 uppercase tracking-wide mb-2">Factor changes over {range}</p>
+                <div className="space-y-1.5">
+                    {factorChanges.map(factor => (
+                        <div key={factor.name} className="flex items-center justify-between text-sm">
+                            <span className="text-slate-700">{factor.name}</span>
+                            <span className="text-slate-900 font-medium">
+                                {factor.score}
+                                {factor.change !== 0 && (
+                                    <span className={`ml-1.5 text-xs ${factor.change > 0 ? 'text-red-500' : 'text-green-500'}`}>
+                                        ({factor.change > 0 ? '+' : ''}{factor.change})
+                                    </span>
+                                )}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
     </div>
-);
+    );
+};
@@ -0,0 +1,163 @@
+// ActiveSessions - Devices signed in to the current account
+// Lets the user revoke a single session or sign out everywhere else
+
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, Monitor, Smartphone, LogOut } from 'lucide-react';
+import { apiFetch } from '../../services/api';
+
+export interface ActiveSession {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function isMobile(device: string): boolean {
+  return /iOS|Android/.test(device);
+}
+
+export function ActiveSessions() {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await apiFetch<{ sessions: ActiveSession[] }>('/api/auth/sessions');
+      setSessions(result.sessions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const revoke = async (session: ActiveSession) => {
+    setPendingId(session.id);
+    setError(null);
+    try {
+      const result = await apiFetch<{ signedOut: boolean }>(`/api/auth/sessions/${session.id}`, {
+        method: 'DELETE',
+      });
+      if (result.signedOut) {
+        window.location.assign('/');
+        return;
+      }
+      setSessions((prev) => prev.filter((s) => s.id !== session.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke session');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const revokeOthers = async () => {
+    setPendingId('others');
+    setError(null);
+    try {
+      await apiFetch('/api/auth/sessions', { method: 'DELETE' });
+      setSessions((prev) => prev.filter((s) => s.current));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out other sessions');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const hasOthers = sessions.some((s) => !s.current);
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="mb-6 flex items-end justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-normal text-slate-900">Active Sessions</h2>
+          <p className="text-sm text-slate-400 mt-1">Devices currently signed in to your account</p>
+        </div>
+        {hasOthers && (
+          <button
+            onClick={revokeOthers}
+            disabled={pendingId !== null}
+            className="px-3 py-1.5 rounded-lg bg-red-50 text-red-600 text-sm font-medium hover:bg-red-100 transition-colors disabled:opacity-50"
+          >
+            Sign out other sessions
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="mb-4 text-sm text-red-600">{error}</p>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12 text-muted">
+          <Loader2 className="w-5 h-5 animate-spin" />
+        </div>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-secondary">No active sessions.</p>
+      ) : (
+        <ul className="space-y-3">
+          {sessions.map((session) => {
+            const Icon = isMobile(session.device) ? Smartphone : Monitor;
+            return (
+              <li key={session.id} className="p-4 rounded-xl border border-slate-200">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Icon className="w-5 h-5 text-slate-500 shrink-0" />
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h3 className="text-sm font-medium text-primary truncate">{session.device}</h3>
+                        {session.current && (
+                          <span className="px-1.5 py-0.5 rounded bg-emerald-50 text-emerald-600 text-[10px] font-medium">
+                            This device
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-xs text-secondary">
+                        {session.ipAddress || 'Unknown IP'} · Signed in {formatDateTime(session.createdAt)}
+                      </p>
+                      <p className="text-xs text-muted">Last active {formatDateTime(session.lastSeenAt)}</p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => revoke(session)}
+                    disabled={pendingId !== null}
+                    aria-label={session.current ? 'Sign out' : `Revoke ${session.device}`}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-100 text-secondary text-sm font-medium hover:bg-slate-200 transition-colors disabled:opacity-50"
+                  >
+                    {pendingId === session.id ? (
+                      <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                    ) : (
+                      <LogOut className="w-3.5 h-3.5" />
+                    )}
+                    {session.current ? 'Sign out' : 'Revoke'}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+// CreditUsageDashboard - Where credits go, and when they will run out
+// Admin-only panel rendered inside the Billing & Credits settings section
+
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { Loader2, TrendingDown, AlertTriangle, CalendarClock } from 'lucide-react';
+import { fetchUsageAnalytics } from '../../services/creditService';
+import { formatCredits } from '../../types/subscription';
+import type { CreditUsageAnalytics, UsageBucket, UsageGranularity } from '../../types/creditLedger';
+
+type Dimension = 'byTeam' | 'byRequester' | 'byRequestType' | 'byCategory';
+
+const DIMENSIONS: { id: Dimension; label: string }[] = [
+  { id: 'byTeam', label: 'Team' },
+  { id: 'byRequester', label: 'Requester' },
+  { id: 'byRequestType', label: 'Request type' },
+  { id: 'byCategory', label: 'Category' },
+];
+
+const GRANULARITIES: { id: UsageGranularity; label: string }[] = [
+  { id: 'day', label: 'Daily' },
+  { id: 'week', label: 'Weekly' },
+  { id: 'month', label: 'Monthly' },
+];
+
+// Request types are stored snake_case
+function formatBucketLabel(dimension: Dimension, bucket: UsageBucket): string {
+  if (dimension === 'byRequestType' && bucket.key !== 'unattributed') {
+    return bucket.label.replace(/_/g, ' ').replace(/^\w/, (c) => c.toUpperCase());
+  }
+  return bucket.label;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export function CreditUsageDashboard() {
+  const [data, setData] = useState<CreditUsageAnalytics | null>(null);
+  const [granularity, setGranularity] = useState<UsageGranularity>('week');
+  const [dimension, setDimension] = useState<Dimension>('byTeam');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setData(await fetchUsageAnalytics(granularity));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load usage analytics');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [granularity]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (isLoading && !data) {
+    return (
+      <div className="flex items-center justify-center py-10 text-muted">
+        <Loader2 className="w-5 h-5 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="p-4 rounded-xl bg-red-50 border border-red-100 text-sm text-red-600">
+        {error || 'Usage analytics are unavailable'}
+        <button onClick={load} className="ml-3 font-medium underline">
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  const { forecast } = data;
+  const maxPeriod = Math.max(1, ...data.byPeriod.map((b) => b.credits));
+  const buckets = data[dimension];
+  const maxBucket = Math.max(1, ...buckets.map((b) => b.credits));
+
+  return (
+    <div className="space-y-4">
+      {/* Forecast */}
+      <div
+        className={`p-4 rounded-xl border ${
+          forecast.exhaustsBeforePeriodEnd ? 'bg-amber-50 border-amber-100' : 'bg-slate-50 border-slate-100'
+        }`}
+      >
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-muted flex items-center gap-1.5">
+              <TrendingDown className="w-3.5 h-3.5" /> Burn rate
+            </p>
+            <p className="font-medium text-primary mt-1 tabular-nums">
+              {formatCredits(Math.round(forecast.dailyBurnRate))} / day
+            </p>
+          </div>
+          <div>
+            <p className="text-muted">Projected at period end</p>
+            <p className={`font-medium mt-1 tabular-nums ${
+              forecast.projectedBalanceAtPeriodEnd < 0 ? 'text-red-600' : 'text-primary'
+            }`}>
+              {formatCredits(forecast.projectedBalanceAtPeriodEnd)}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted flex items-center gap-1.5">
+              <CalendarClock className="w-3.5 h-3.5" /> Runs out
+            </p>
+            <p className="font-medium text-primary mt-1">
+              {forecast.exhaustionDate ? formatDate(forecast.exhaustionDate) : 'Not at current rate'}
+            </p>
+          </div>
+        </div>
+        {forecast.exhaustsBeforePeriodEnd && (
+          <p className="flex items-center gap-1.5 text-xs text-amber-700 mt-3">
+            <AlertTriangle className="w-3.5 h-3.5" />
+            Credits will run out before the period ends on {formatDate(data.periodEnd)}
+          </p>
+        )}
+      </div>
+
+      {/* Usage over time */}
+      <div className="p-4 rounded-xl border border-slate-200">
+        <div className="flex items-center justify-between mb-3">
+          <p className="text-sm text-primary">
+            <span className="font-medium tabular-nums">{formatCredits(data.totalCredits)}</span>
+            <span className="text-muted"> credits used since {formatDate(data.startDate)}</span>
+          </p>
+          <div className="flex gap-1">
+            {GRANULARITIES.map((g) => (
+              <button
+                key={g.id}
+                onClick={() => setGranularity(g.id)}
+                className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+                  granularity === g.id ? 'bg-slate-800 text-white' : 'text-secondary hover:bg-slate-100'
+                }`}
+              >
+                {g.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {data.byPeriod.length === 0 ? (
+          <p className="text-sm text-muted py-6 text-center">No credit usage in this period</p>
+        ) : (
+          <div className="flex items-end gap-1 h-24">
+            {data.byPeriod.map((bucket) => (
+              <div key={bucket.key} className="flex-1 h-full flex items-end" title={`${bucket.label}: ${formatCredits(bucket.credits)}`}>
+                <motion.div
+                  initial={{ height: 0 }}
+                  animate={{ height: `${Math.max(2, (bucket.credits / maxPeriod) * 100)}%` }}
+                  transition={{ duration: 0.4 }}
+                  className="w-full rounded-t bg-violet-400"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Breakdown */}
+      <div className="p-4 rounded-xl border border-slate-200">
+        <div className="flex gap-1 mb-3">
+          {DIMENSIONS.map((d) => (
+            <button
+              key={d.id}
+              onClick={() => setDimension(d.id)}
+              className={`px-2.5 py-1 rounded-md text-xs font-medium transition-colors ${
+                dimension === d.id ? 'bg-violet-100 text-violet-700' : 'text-secondary hover:bg-slate-100'
+              }`}
+            >
+              {d.label}
+            </button>
+          ))}
+        </div>
+        {buckets.length === 0 ? (
+          <p className="text-sm text-muted py-4 text-center">Nothing to break down yet</p>
+        ) : (
+          <div className="space-y-2">
+            {buckets.slice(0, 8).map((bucket) => (
+              <div key={bucket.key}>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-primary truncate">{formatBucketLabel(dimension, bucket)}</span>
+                  <span className="text-secondary tabular-nums">{formatCredits(bucket.credits)}</span>
+                </div>
+                <div className="h-1.5 mt-1 bg-slate-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-violet-400 rounded-full"
+                    style={{ width: `${Math.max(0, (bucket.credits / maxBucket) * 100)}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
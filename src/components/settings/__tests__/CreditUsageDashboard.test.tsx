@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { CreditUsageDashboard } from '../CreditUsageDashboard';
+import type { CreditUsageAnalytics } from '../../../types/creditLedger';
+
+const mockFetchUsageAnalytics = vi.fn();
+
+vi.mock('../../../services/creditService', () => ({
+  fetchUsageAnalytics: (...args: unknown[]) => mockFetchUsageAnalytics(...args),
+}));
+
+const MOCK_ANALYTICS: CreditUsageAnalytics = {
+  accountId: 'account-1',
+  startDate: '2026-01-01T00:00:00.000Z',
+  endDate: '2026-02-01T00:00:00.000Z',
+  granularity: 'week',
+  periodEnd: '2026-12-31T00:00:00.000Z',
+  totalCredits: 3500,
+  byPeriod: [
+    { key: '2026-01-05', label: '2026-01-05', credits: 1500, transactions: 2 },
+    { key: '2026-01-12', label: '2026-01-12', credits: 2000, transactions: 1 },
+  ],
+  byTeam: [
+    { key: 'team-1', label: 'Procurement', credits: 2500, transactions: 2 },
+    { key: 'team-2', label: 'Legal', credits: 1000, transactions: 1 },
+  ],
+  byRequester: [{ key: 'user-1', label: 'Alex Chen', credits: 3500, transactions: 3 }],
+  byRequestType: [{ key: 'analyst_call', label: 'analyst_call', credits: 3500, transactions: 3 }],
+  byCategory: [{ key: 'Steel', label: 'Steel', credits: 3500, transactions: 3 }],
+  forecast: {
+    windowDays: 30,
+    dailyBurnRate: 120,
+    availableCredits: 2000,
+    daysUntilPeriodEnd: 300,
+    projectedUsageToPeriodEnd: 36000,
+    projectedBalanceAtPeriodEnd: -34000,
+    exhaustionDate: '2026-02-18T00:00:00.000Z',
+    exhaustsBeforePeriodEnd: true,
+  },
+};
+
+describe('CreditUsageDashboard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFetchUsageAnalytics.mockResolvedValue(MOCK_ANALYTICS);
+  });
+
+  it('shows the forecast and team breakdown', async () => {
+    render(<CreditUsageDashboard />);
+
+    await waitFor(() => expect(screen.getByText('Procurement')).toBeInTheDocument());
+    expect(screen.getByText('120 / day')).toBeInTheDocument();
+    expect(screen.getByText(/Credits will run out before the period ends/)).toBeInTheDocument();
+  });
+
+  it('switches the breakdown dimension', async () => {
+    render(<CreditUsageDashboard />);
+
+    await waitFor(() => expect(screen.getByText('Procurement')).toBeInTheDocument());
+    fireEvent.click(screen.getByText('Request type'));
+
+    expect(screen.getByText('Analyst call')).toBeInTheDocument();
+  });
+
+  it('refetches when the granularity changes', async () => {
+    render(<CreditUsageDashboard />);
+
+    await waitFor(() => expect(mockFetchUsageAnalytics).toHaveBeenCalledWith('week'));
+    fireEvent.click(screen.getByText('Monthly'));
+
+    await waitFor(() => expect(mockFetchUsageAnalytics).toHaveBeenCalledWith('month'));
+  });
+
+  it('shows an error with retry', async () => {
+    mockFetchUsageAnalytics.mockRejectedValueOnce(new Error('Insufficient permissions'));
+    render(<CreditUsageDashboard />);
+
+    await waitFor(() => expect(screen.getByText(/Insufficient permissions/)).toBeInTheDocument());
+    fireEvent.click(screen.getByText('Retry'));
+
+    await waitFor(() => expect(screen.getByText('Procurement')).toBeInTheDocument());
+  });
+});
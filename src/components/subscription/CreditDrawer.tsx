@@ -17,6 +17,7 @@ import {
   Briefcase,
   HelpCircle,
   Zap,
+  ShieldCheck,
 } from 'lucide-react';
 
 // Shared shadow for floating card aesthetic
@@ -29,6 +30,7 @@ import {
   CREDIT_COSTS,
 } from '../../types/subscription';
 import type { CategorySlotSummary } from '../../types/managedCategories';
+import type { TeamBalance } from '../../types/creditLedger';
 import { SlotAllowanceCard } from './SlotAllowanceCard';
 import { SkeletonLoader } from '../ui/SkeletonLoader';
 
@@ -43,6 +45,7 @@ const TRANSACTION_ICONS: Record<string, LucideIcon> = {
   expert_consult: Users,
   expert_deepdive: Briefcase,
   bespoke_project: Briefcase,
+  supplier_assessment: ShieldCheck,
   refund: TrendingUp,
   adjustment: Coins,
 };
@@ -53,6 +56,7 @@ interface CreditDrawerProps {
   subscription: CompanySubscription;
   slotSummary?: CategorySlotSummary;
   transactions?: CreditTransaction[];
+  teamBalance?: TeamBalance | null;
   isLoading?: boolean;
   error?: string | null;
   onViewAllTransactions?: () => void;
@@ -153,6 +157,7 @@ export function CreditDrawer({
   subscription,
   slotSummary,
   transactions = [],
+  teamBalance = null,
   isLoading = false,
   error = null,
   onViewAllTransactions,
@@ -193,6 +198,12 @@ export function CreditDrawer({
     critical: { bg: 'bg-red-500', text: 'text-red-600', light: 'bg-red-50' },
   };
   const colors = statusColors[creditStatus];
+  const teamStatus = teamBalance
+    ? getCreditStatus(teamBalance.availableCredits, teamBalance.allocatedCredits)
+    : null;
+  const teamPercentage = teamBalance && teamBalance.allocatedCredits > 0
+    ? Math.round((teamBalance.availableCredits / teamBalance.allocatedCredits) * 100)
+    : 0;
 
   return (
     <AnimatePresence>
@@ -302,6 +313,41 @@ export function CreditDrawer({
                 </div>
               </div>
 
+              {/* Team Budget - Shown when the user's team has an open allocation */}
+              {teamBalance && teamStatus && (
+                <div
+                  className="p-5 rounded-[20px] bg-white border border-slate-100/60"
+                  style={{ boxShadow: cardShadow }}
+                >
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="text-xs text-slate-400 uppercase tracking-wide mb-1.5">
+                        {teamBalance.teamName} Budget
+                      </p>
+                      <p className={`text-2xl font-light ${statusColors[teamStatus].text} tabular-nums`}>
+                        {formatCredits(teamBalance.availableCredits)}
+                      </p>
+                      <p className="text-sm text-slate-500 mt-1">
+                        of {formatCredits(teamBalance.allocatedCredits)} allocated
+                        {teamBalance.reservedCredits > 0 && ` · ${formatCredits(teamBalance.reservedCredits)} reserved`}
+                      </p>
+                    </div>
+                    <Users className="w-5 h-5 text-slate-300" />
+                  </div>
+                  <div className="mt-4 h-2 bg-slate-100 rounded-full overflow-hidden">
+                    <motion.div
+                      initial={{ width: 0 }}
+                      animate={{ width: `${teamPercentage}%` }}
+                      transition={{ duration: 0.5, delay: 0.3 }}
+                      className={`h-full ${statusColors[teamStatus].bg} rounded-full`}
+                    />
+                  </div>
+                  <p className="text-xs text-slate-400 mt-3">
+                    Resets {new Date(teamBalance.periodEnd).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                  </p>
+                </div>
+              )}
+
               {/* Slot Usage - Using SlotAllowanceCard component */}
               {slotSummary && (
                 <div
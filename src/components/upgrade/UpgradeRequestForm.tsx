@@ -17,6 +17,8 @@ import {
   AlertCircle,
   ChevronRight,
   Sparkles,
+  ShieldCheck,
+  Telescope,
 } from 'lucide-react';
 import {
   type RequestType,
@@ -37,6 +39,8 @@ const REQUEST_ICONS: Record<RequestType, LucideIcon> = {
   expert_consult: Users,
   expert_deepdive: Briefcase,
   bespoke_project: Sparkles,
+  supplier_assessment: ShieldCheck,
+  deep_research: Telescope,
 };
 
 interface UpgradeRequestFormProps {
@@ -1,5 +1,30 @@
+import { useState } from 'react';
 import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
 import type { TrendChartData } from '../../types/widgets';
+import type { RiskHistoryRange, RiskScoreHistoryPoint } from '../../types/riskHistory';
+import { useRiskScoreHistory } from '../../hooks/useRiskScoreHistory';
+
+const HISTORY_RANGES: RiskHistoryRange[] = ['30d', '90d', '1y', '3y'];
+
+const formatHistoryDate = (iso: string, range: RiskHistoryRange) =>
+  new Date(iso).toLocaleDateString('en-US', range === '30d' || range === '90d'
+    ? { month: 'short', day: 'numeric' }
+    : { month: 'short', year: '2-digit' });
+
+// Dated history replaces the widget's static points, positioned by time
+const fromHistory = (points: RiskScoreHistoryPoint[], range: RiskHistoryRange, unit?: string) => {
+  const first = points[0].score;
+  const last = points[points.length - 1].score;
+  const delta = last - first;
+  return {
+    dataPoints: points.map(p => ({ date: formatHistoryDate(p.date, range), value: p.score })),
+    times: points.map(p => new Date(p.date).getTime()),
+    changeDirection: (delta > 0 ? 'up' : delta < 0 ? 'down' : 'stable') as TrendChartData['changeDirection'],
+    changeSummary: delta === 0
+      ? `Unchanged at ${last}${unit ?? ''} over ${range}`
+      : `${delta > 0 ? '+' : ''}${delta}${unit ?? ''} over ${range} (${first} → ${last})`,
+  };
+};
 
 interface TrendChartWidgetProps {
   data: TrendChartData;
@@ -11,7 +36,12 @@ interface TrendChartWidgetProps {
 }
 
 export const TrendChartWidget = ({ data, size = 'M', trendSemantics = 'up-bad' }: TrendChartWidgetProps) => {
-  const { title, dataPoints, changeDirection, changeSummary, unit } = data;
+  const [historyRange, setHistoryRange] = useState<RiskHistoryRange>('90d');
+  const { history } = useRiskScoreHistory(data.supplierId, historyRange, { points: size === 'L' ? 60 : 30 });
+  const live = history && history.points.length > 1 ? fromHistory(history.points, historyRange, data.unit) : null;
+
+  const { title, unit } = data;
+  const { dataPoints, changeDirection, changeSummary } = live ?? data;
 
   // Calculate chart dimensions
   const chartHeight = size === 'L' ? 200 : 120;
@@ -23,8 +53,12 @@ export const TrendChartWidget = ({ data, size = 'M', trendSemantics = 'up-bad' }
   const maxValue = Math.max(...values);
   const range = maxValue - minValue || 1;
 
+  const firstTime = live?.times[0] ?? 0;
+  const timeSpan = live ? (live.times[live.times.length - 1] - firstTime) || 1 : 0;
   const points = dataPoints.map((d, i) => {
-    const x = (i / (dataPoints.length - 1)) * chartWidth;
+    const x = live
+      ? ((live.times[i] - firstTime) / timeSpan) * chartWidth
+      : (i / Math.max(1, dataPoints.length - 1)) * chartWidth;
     const y = chartHeight - ((d.value - minValue) / range) * (chartHeight - 20);
     return { x, y, ...d };
   });
@@ -57,6 +91,21 @@ export const TrendChartWidget = ({ data, size = 'M', trendSemantics = 'up-bad' }
         <div>
           <h3 className="text-[15px] font-normal text-slate-900">{title}</h3>
           <p className="text-[13px] text-slate-500 mt-0.5">{changeSummary}</p>
+          {history && (
+            <div className="flex gap-1 mt-2">
+              {HISTORY_RANGES.map(r => (
+                <button
+                  key={r}
+                  onClick={() => setHistoryRange(r)}
+                  className={`px-2 py-0.5 rounded-md text-[11px] font-medium transition-colors ${
+                    r === historyRange ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+                  }`}
+                >
+                  {r.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
         <div className={`w-9 h-9 rounded-2xl ${config.bgColor} flex items-center justify-center`}>
           <Icon size={18} strokeWidth={1.5} className={config.color} />
@@ -1,5 +1,18 @@
-import { pgTable, text, timestamp, boolean, jsonb, uuid, integer, unique, index, primaryKey } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, boolean, jsonb, uuid, integer, unique, uniqueIndex, index, primaryKey } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
 import type { BadgeCriteria } from '../types/community.js';
+import type { AlertChannels } from '../types/alerts.js';
+import type { NotificationAction, NotificationMetadata } from '../types/notifications.js';
+import type { SupplierImportResult, SupplierImportRow } from '../types/supplierImport.js';
+import type { ExportRequest } from '../types/exports.js';
+import type {
+  CommandCenterProgress,
+  DeepResearchReport,
+  DeepResearchResponse,
+  IntakeAnswers,
+  IntakeState,
+} from '../types/deepResearch.js';
+import type { ReportSectionTemplate, ReportTemplate } from '../services/reportTemplates.js';
 
 // ══════════════════════════════════════════════════════════════════
 // AUTH TABLES
@@ -54,9 +67,15 @@ export const sessions = pgTable('sessions', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   token: text('token').unique().notNull(),
-  expiresAt: timestamp('expires_at').notNull(),
+  expiresAt: timestamp('expires_at').notNull(), // Slides forward on use
+  userAgent: text('user_agent'),
+  ipAddress: text('ip_address'),
+  lastSeenAt: timestamp('last_seen_at').defaultNow().notNull(),
+  rotateRequestedAt: timestamp('rotate_requested_at'), // Set on privilege changes; token is reissued on next use
   createdAt: timestamp('created_at').defaultNow().notNull(),
-});
+}, (table) => [
+  index('sessions_user_id_idx').on(table.userId),
+]);
 
 // Invites table - invite codes for registration
 export const invites = pgTable('invites', {
@@ -111,6 +130,18 @@ export const verificationTokens = pgTable('verification_tokens', {
   index('verification_tokens_identifier_type_idx').on(table.identifier, table.type),
 ]);
 
+// Rate limit buckets - sliding window counters shared across serverless instances
+// One row per key per fixed window; the limiter weights the previous window
+export const rateLimitBuckets = pgTable('rate_limit_buckets', {
+  key: text('key').notNull(), // e.g. 'credit-spend:user:<id>'
+  windowStart: timestamp('window_start').notNull(),
+  count: integer('count').default(0).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.key, table.windowStart] }),
+  // For pruning stale windows
+  index('rate_limit_buckets_window_start_idx').on(table.windowStart),
+]);
+
 // Visitor claims - link anonymous visitors to users
 export const visitorClaims = pgTable('visitor_claims', {
   visitorId: text('visitor_id').primaryKey(),
@@ -167,6 +198,7 @@ export type Waitlist = typeof waitlist.$inferSelect;
 export type NewWaitlist = typeof waitlist.$inferInsert;
 export type VerificationToken = typeof verificationTokens.$inferSelect;
 export type NewVerificationToken = typeof verificationTokens.$inferInsert;
+export type RateLimitBucket = typeof rateLimitBuckets.$inferSelect;
 export type VisitorClaim = typeof visitorClaims.$inferSelect;
 export type NewVisitorClaim = typeof visitorClaims.$inferInsert;
 
@@ -345,7 +377,7 @@ export const supplierRiskScores = pgTable('supplier_risk_scores', {
   trend: text('trend').default('stable').notNull(), // 'improving', 'stable', 'worsening'
   previousScore: integer('previous_score'),
   factors: jsonb('factors').$type<RiskFactorScore[]>().default([]),
-  scoreHistory: jsonb('score_history').$type<number[]>().default([]), // Last 9 data points
+  scoreHistory: jsonb('score_history').$type<number[]>().default([]), // Last 9 scores, undated - sparklines only; see supplier_risk_score_history
   lastUpdated: timestamp('last_updated').defaultNow().notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => [
@@ -354,6 +386,18 @@ export const supplierRiskScores = pgTable('supplier_risk_scores', {
   unique('supplier_risk_scores_supplier_unique').on(table.supplierId),
 ]);
 
+// Supplier risk score history - one dated row per recorded score, with the factor breakdown at that time
+export const supplierRiskScoreHistory = pgTable('supplier_risk_score_history', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  supplierId: uuid('supplier_id').notNull().references(() => suppliers.id, { onDelete: 'cascade' }),
+  score: integer('score').notNull(), // 0-100
+  level: text('level').notNull(),
+  factors: jsonb('factors').$type<RiskFactorScore[]>().default([]),
+  recordedAt: timestamp('recorded_at').defaultNow().notNull(),
+}, (table) => [
+  index('supplier_risk_score_history_supplier_recorded_idx').on(table.supplierId, table.recordedAt),
+]);
+
 // User Portfolios - which suppliers a user follows
 export const userPortfolios = pgTable('user_portfolios', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -362,6 +406,7 @@ export const userPortfolios = pgTable('user_portfolios', {
   addedAt: timestamp('added_at').defaultNow().notNull(),
   notes: text('notes'),
   alertsEnabled: boolean('alerts_enabled').default(true).notNull(),
+  spend: integer('spend'), // the user's own spend with this supplier, from imports
 }, (table) => [
   unique('user_portfolio_unique').on(table.userId, table.supplierId),
   index('user_portfolios_user_id_idx').on(table.userId),
@@ -378,6 +423,7 @@ export const riskChanges = pgTable('risk_changes', {
   direction: text('direction').notNull(), // 'improved', 'worsened', 'stable'
   changeReason: text('change_reason'), // Optional explanation
   changeDate: timestamp('change_date').defaultNow().notNull(),
+  alertsEvaluatedAt: timestamp('alerts_evaluated_at'), // null until alert rules have been checked
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => [
   index('risk_changes_supplier_id_idx').on(table.supplierId),
@@ -385,15 +431,78 @@ export const riskChanges = pgTable('risk_changes', {
   index('risk_changes_direction_idx').on(table.direction),
 ]);
 
+// Watchlists - named groups a user organises followed suppliers into
+export const watchlists = pgTable('watchlists', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  unique('watchlists_user_name_unique').on(table.userId, table.name),
+]);
+
+// Watchlist Entries - membership keyed on the portfolio row, so unfollowing
+// a supplier also drops it from every watchlist
+export const watchlistEntries = pgTable('watchlist_entries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  watchlistId: uuid('watchlist_id').notNull().references(() => watchlists.id, { onDelete: 'cascade' }),
+  portfolioEntryId: uuid('portfolio_entry_id').notNull().references(() => userPortfolios.id, { onDelete: 'cascade' }),
+  addedAt: timestamp('added_at').defaultNow().notNull(),
+}, (table) => [
+  unique('watchlist_entries_unique').on(table.watchlistId, table.portfolioEntryId),
+  index('watchlist_entries_portfolio_entry_idx').on(table.portfolioEntryId),
+]);
+
+// Supplier Imports - an uploaded supplier list held for review until confirmed
+export const supplierImports = pgTable('supplier_imports', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  fileName: text('file_name').notNull(),
+  status: text('status').default('pending_review').notNull(), // 'pending_review' | 'confirmed' | 'cancelled'
+  rows: jsonb('rows').$type<SupplierImportRow[]>().default([]).notNull(),
+  result: jsonb('result').$type<SupplierImportResult>(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  confirmedAt: timestamp('confirmed_at'),
+}, (table) => [
+  index('supplier_imports_user_id_idx').on(table.userId),
+]);
+
+// Export Jobs - generated supplier, portfolio and comparison files, kept for re-download
+export const exportJobs = pgTable('export_jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  context: text('context').notNull(), // 'supplier' | 'portfolio' | 'comparison'
+  format: text('format').notNull(), // 'pdf' | 'xlsx' | 'csv'
+  filename: text('filename').notNull(),
+  request: jsonb('request').$type<ExportRequest>().notNull(),
+  status: text('status').notNull(), // 'completed' | 'failed'
+  error: text('error'),
+  content: text('content'), // base64 file body, served until expires_at
+  byteSize: integer('byte_size'),
+  rowCount: integer('row_count'),
+  omittedFactorCount: integer('omitted_factor_count').default(0).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+}, (table) => [
+  index('export_jobs_user_created_idx').on(table.userId, table.createdAt),
+]);
+
 // Supplier types
 export type DbSupplier = typeof suppliers.$inferSelect;
 export type NewDbSupplier = typeof suppliers.$inferInsert;
 export type DbSupplierRiskScore = typeof supplierRiskScores.$inferSelect;
 export type NewDbSupplierRiskScore = typeof supplierRiskScores.$inferInsert;
+export type DbSupplierRiskScoreHistory = typeof supplierRiskScoreHistory.$inferSelect;
 export type DbUserPortfolio = typeof userPortfolios.$inferSelect;
 export type NewDbUserPortfolio = typeof userPortfolios.$inferInsert;
 export type DbRiskChange = typeof riskChanges.$inferSelect;
 export type NewDbRiskChange = typeof riskChanges.$inferInsert;
+export type DbWatchlist = typeof watchlists.$inferSelect;
+export type NewDbWatchlist = typeof watchlists.$inferInsert;
+export type DbWatchlistEntry = typeof watchlistEntries.$inferSelect;
+export type DbSupplierImport = typeof supplierImports.$inferSelect;
+export type DbExportJob = typeof exportJobs.$inferSelect;
 
 // ══════════════════════════════════════════════════════════════════
 // ORGANIZATION TABLES (Companies & Teams)
@@ -452,7 +561,7 @@ export type NewTeamMembership = typeof teamMemberships.$inferInsert;
 export type LedgerEntryType = 'credit' | 'debit';
 
 export type LedgerTransactionType =
-  | 'allocation'       // Mid-cycle top-up ONLY (initial is in credit_accounts)
+  | 'allocation'       // Mid-cycle top-up or period renewal (initial is in credit_accounts)
   | 'spend'            // Direct spend (auto-approved)
   | 'hold_conversion'  // Approved hold converted to spend
   | 'refund'           // Credit returned to account
@@ -460,13 +569,13 @@ export type LedgerTransactionType =
   | 'expiry'           // Credits expired
   | 'rollover';        // Credits rolled over to new period
 
-export type LedgerReferenceType = 'request' | 'subscription' | 'admin' | 'system';
+export type LedgerReferenceType = 'request' | 'research_job' | 'subscription' | 'admin' | 'system';
 
 export type CreditHoldStatus = 'active' | 'converted' | 'released' | 'expired';
 
 // Credit accounts - one per company, holds subscription and credit info
 // IMPORTANT: total_credits + bonus_credits = initial subscription allocation
-// Ledger 'allocation' entries are ONLY for mid-cycle top-ups to avoid double-counting
+// Ledger 'allocation' entries are ONLY for top-ups and period renewals to avoid double-counting
 export const creditAccounts = pgTable('credit_accounts', {
   id: uuid('id').primaryKey().defaultRandom(),
   companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'restrict' }),
@@ -510,6 +619,9 @@ export const ledgerEntries = pgTable('ledger_entries', {
   description: text('description').notNull(),
   performedBy: uuid('performed_by').references(() => users.id),
 
+  // Team the credits were spent for (NULL = company-level)
+  teamId: uuid('team_id').references(() => teams.id, { onDelete: 'set null' }),
+
   // Idempotency: prevents duplicate entries from retries (scoped to account)
   idempotencyKey: text('idempotency_key'),
 
@@ -520,6 +632,7 @@ export const ledgerEntries = pgTable('ledger_entries', {
   index('ledger_entries_account_created_idx').on(table.accountId, table.createdAt),
   index('ledger_entries_account_type_idx').on(table.accountId, table.transactionType),
   index('ledger_entries_reference_idx').on(table.referenceType, table.referenceId),
+  index('ledger_entries_team_created_idx').on(table.teamId, table.createdAt),
 ]);
 
 // Credit holds - reservations for pending approval requests
@@ -532,6 +645,7 @@ export const creditHolds = pgTable('credit_holds', {
 
   // Hold details
   amount: integer('amount').notNull(),
+  teamId: uuid('team_id').references(() => teams.id, { onDelete: 'set null' }), // Team budget the hold counts against
 
   // Hold status
   status: text('status').notNull().default('active').$type<CreditHoldStatus>(),
@@ -544,6 +658,7 @@ export const creditHolds = pgTable('credit_holds', {
   unique('credit_holds_request_unique').on(table.requestId),
   index('credit_holds_account_active_idx').on(table.accountId),
   index('credit_holds_created_active_idx').on(table.createdAt),
+  index('credit_holds_team_status_idx').on(table.teamId, table.status),
 ]);
 
 // Credit allocations - team-level budget allocations from company pool
@@ -558,6 +673,7 @@ export const creditAllocations = pgTable('credit_allocations', {
   // Budget period
   periodStart: timestamp('period_start', { mode: 'date' }).notNull(),
   periodEnd: timestamp('period_end', { mode: 'date' }).notNull(),
+  closedAt: timestamp('closed_at'), // Closed early by an admin; NULL = open
 
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -587,7 +703,9 @@ export type ApprovalRequestType =
   | 'analyst_call'
   | 'expert_consult'
   | 'expert_deepdive'
-  | 'bespoke_project';
+  | 'bespoke_project'
+  | 'supplier_assessment'
+  | 'deep_research';
 
 // Approval request status (state machine)
 export type ApprovalRequestStatus =
@@ -600,13 +718,25 @@ export type ApprovalRequestStatus =
   | 'fulfilled';
 
 // Approval level (routing)
-export type ApprovalLevel = 'auto' | 'approver' | 'admin';
+export type ApprovalLevel = 'auto' | 'approver' | 'admin' | 'owner';
+
+// Role required to sign off a single step in an approval chain
+export type ApprovalStepRole = Exclude<ApprovalLevel, 'auto'>;
+
+// Approval step status
+export type ApprovalStepStatus =
+  | 'waiting'   // Earlier steps still open
+  | 'active'    // Currently awaiting this step's approver
+  | 'approved'
+  | 'denied'
+  | 'skipped';  // Request closed before this step was reached
 
 // Approval event types
 export type ApprovalEventType =
   | 'created'
   | 'submitted'
   | 'auto_approved'    // Request auto-approved (under threshold)
+  | 'assigned'         // Next step in the approval chain activated
   | 'approved'
   | 'denied'
   | 'escalated'
@@ -622,6 +752,7 @@ export interface ApprovalRequestContext {
   category?: string;
   queryText?: string;
   sourceConversationId?: string;
+  researchJobId?: string; // deep_research requests
   [key: string]: unknown;
 }
 
@@ -695,6 +826,13 @@ export const approvalEvents = pgTable('approval_events', {
   index('approval_events_created_idx').on(table.createdAt),
 ]);
 
+// A single step in a rule's approval chain
+export interface ApprovalStepDefinition {
+  approverRole: ApprovalStepRole;
+  escalationHours?: number | null; // NULL = no escalation
+  minCredits?: number; // Step only applies at or above this amount
+}
+
 // Approval rules - configurable thresholds per company
 export const approvalRules = pgTable('approval_rules', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -704,9 +842,15 @@ export const approvalRules = pgTable('approval_rules', {
   minCredits: integer('min_credits').notNull(),
   maxCredits: integer('max_credits'), // NULL = unlimited
 
+  // Match filters (NULL = any)
+  requestType: text('request_type').$type<ApprovalRequestType>(),
+  teamId: uuid('team_id').references(() => teams.id, { onDelete: 'cascade' }),
+  category: text('category'), // Matched against approval_requests.context.category
+
   // Routing configuration
   approverRole: text('approver_role').notNull().$type<ApprovalLevel>(),
   escalationHours: integer('escalation_hours'), // NULL = no escalation
+  steps: jsonb('steps').$type<ApprovalStepDefinition[]>(), // NULL = single step from approverRole
 
   // Priority for rule matching (lower = first)
   priority: integer('priority').notNull().default(0),
@@ -720,6 +864,53 @@ export const approvalRules = pgTable('approval_rules', {
   index('approval_rules_company_active_idx').on(table.companyId, table.isActive),
 ]);
 
+// Approval steps - ordered chain of sign-offs for a single request
+export const approvalSteps = pgTable('approval_steps', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  requestId: uuid('request_id').notNull().references(() => approvalRequests.id, { onDelete: 'cascade' }),
+  ruleId: uuid('rule_id').references(() => approvalRules.id, { onDelete: 'set null' }),
+
+  // Position in the chain (0-based)
+  stepOrder: integer('step_order').notNull(),
+  approverRole: text('approver_role').notNull().$type<ApprovalStepRole>(),
+  status: text('status').notNull().default('waiting').$type<ApprovalStepStatus>(),
+
+  // Routing
+  approverId: uuid('approver_id').references(() => users.id),
+  escalationHours: integer('escalation_hours'),
+
+  // Decision tracking
+  decidedBy: uuid('decided_by').references(() => users.id),
+  decisionReason: text('decision_reason'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  activatedAt: timestamp('activated_at'),
+  decidedAt: timestamp('decided_at'),
+}, (table) => [
+  unique('approval_steps_request_order_unique').on(table.requestId, table.stepOrder),
+  index('approval_steps_request_idx').on(table.requestId),
+  index('approval_steps_approver_status_idx').on(table.approverId, table.status),
+]);
+
+// Approval delegations - approver hands their queue to someone else for a date range
+export const approvalDelegations = pgTable('approval_delegations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  delegatorId: uuid('delegator_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  delegateId: uuid('delegate_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+
+  // Active window
+  startsAt: timestamp('starts_at').notNull(),
+  endsAt: timestamp('ends_at').notNull(),
+  reason: text('reason'), // e.g. "Out of office"
+
+  revokedAt: timestamp('revoked_at'), // NULL = not revoked
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('approval_delegations_delegator_idx').on(table.delegatorId, table.endsAt),
+  index('approval_delegations_delegate_idx').on(table.delegateId, table.endsAt),
+]);
+
 // Approval Workflow types
 export type ApprovalRequest = typeof approvalRequests.$inferSelect;
 export type NewApprovalRequest = typeof approvalRequests.$inferInsert;
@@ -727,6 +918,10 @@ export type ApprovalEvent = typeof approvalEvents.$inferSelect;
 export type NewApprovalEvent = typeof approvalEvents.$inferInsert;
 export type ApprovalRule = typeof approvalRules.$inferSelect;
 export type NewApprovalRule = typeof approvalRules.$inferInsert;
+export type ApprovalStep = typeof approvalSteps.$inferSelect;
+export type NewApprovalStep = typeof approvalSteps.$inferInsert;
+export type ApprovalDelegation = typeof approvalDelegations.$inferSelect;
+export type NewApprovalDelegation = typeof approvalDelegations.$inferInsert;
 
 // ══════════════════════════════════════════════════════════════════
 // EXPERT NETWORK TABLES
@@ -854,3 +1049,213 @@ export type ManagedCategory = typeof managedCategories.$inferSelect;
 export type NewManagedCategory = typeof managedCategories.$inferInsert;
 export type ActivatedCategory = typeof activatedCategories.$inferSelect;
 export type NewActivatedCategory = typeof activatedCategories.$inferInsert;
+
+// ══════════════════════════════════════════════════════════════════
+// LLM GATEWAY TABLES
+// ══════════════════════════════════════════════════════════════════
+
+// LLM usage log - one row per gateway call, summed for daily token quotas
+export const llmUsage = pgTable('llm_usage', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  companyId: uuid('company_id').references(() => companies.id, { onDelete: 'set null' }),
+  provider: text('provider').notNull(), // 'gemini' | 'perplexity' | 'deepseek'
+  model: text('model').notNull(),
+  stream: boolean('stream').default(false).notNull(),
+  status: text('status').notNull(), // 'success' | 'error'
+  promptTokens: integer('prompt_tokens').default(0).notNull(),
+  completionTokens: integer('completion_tokens').default(0).notNull(),
+  totalTokens: integer('total_tokens').default(0).notNull(),
+  estimated: boolean('estimated').default(false).notNull(), // Provider did not report usage
+  latencyMs: integer('latency_ms'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('llm_usage_user_created_idx').on(table.userId, table.createdAt),
+  index('llm_usage_company_created_idx').on(table.companyId, table.createdAt),
+]);
+
+// LLM gateway types
+export type LlmUsage = typeof llmUsage.$inferSelect;
+export type NewLlmUsage = typeof llmUsage.$inferInsert;
+
+// ══════════════════════════════════════════════════════════════════
+// DEEP RESEARCH TABLES
+// ══════════════════════════════════════════════════════════════════
+
+// Research jobs - deep research runs executed by the worker cron.
+// sequence is bumped on every write and doubles as the SSE event id;
+// locked_until is the worker's lease, so an abandoned run is picked up again.
+export const researchJobs = pgTable('research_jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  companyId: uuid('company_id').references(() => companies.id, { onDelete: 'set null' }),
+  query: text('query').notNull(),
+  studyType: text('study_type').notNull(), // StudyType
+  status: text('status').notNull().default('intake'), // ResearchJobStatus
+  intake: jsonb('intake').$type<IntakeState>(),
+  intakeAnswers: jsonb('intake_answers').$type<IntakeAnswers>(),
+  progress: jsonb('progress').$type<CommandCenterProgress>(),
+  report: jsonb('report').$type<DeepResearchReport>(),
+  error: jsonb('error').$type<NonNullable<DeepResearchResponse['error']>>(),
+  creditsRequired: integer('credits_required').notNull(),
+  reportLineageId: uuid('report_lineage_id'), // Set on a refresh; the report is saved as the lineage's next version
+  reportId: uuid('report_id'), // Library entry the finished report was saved as
+  holdId: uuid('hold_id'), // Credit hold taken when the job was queued; converted or released when it ends
+  approvalRequestId: uuid('approval_request_id'), // Set when the cost needed approval
+  scheduleId: uuid('schedule_id').references(() => researchSchedules.id, { onDelete: 'set null' }), // Set on a scheduled run
+  sequence: integer('sequence').default(0).notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  lockedUntil: timestamp('locked_until'),
+  startedAt: timestamp('started_at'),
+  completedAt: timestamp('completed_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('research_jobs_user_created_idx').on(table.userId, table.createdAt),
+  index('research_jobs_status_idx').on(table.status),
+]);
+
+// Research reports - the company report library. Every version of a report is kept;
+// versions share a lineage_id, and a refresh job saves the lineage's next version.
+// company_id is null for users without an organization (personal library).
+export const researchReports = pgTable('research_reports', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  lineageId: uuid('lineage_id').notNull().defaultRandom(),
+  version: integer('version').default(1).notNull(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  companyId: uuid('company_id').references(() => companies.id, { onDelete: 'cascade' }),
+  jobId: uuid('job_id').references(() => researchJobs.id, { onDelete: 'set null' }),
+  title: text('title').notNull(),
+  query: text('query').notNull(),
+  studyType: text('study_type').notNull(), // StudyType
+  category: text('category'),
+  reportNumber: text('report_number'),
+  report: jsonb('report').$type<DeepResearchReport>().notNull(), // Sections, citations and visuals
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('research_reports_lineage_version_unique').on(table.lineageId, table.version),
+  index('research_reports_company_created_idx').on(table.companyId, table.createdAt),
+  index('research_reports_user_created_idx').on(table.userId, table.createdAt),
+]);
+
+// Research schedules - saved studies re-run on a cron cadence. Each run is a job that
+// refreshes report_lineage_id, so the runs stack up as versions of one library report.
+export const researchSchedules = pgTable('research_schedules', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  companyId: uuid('company_id').references(() => companies.id, { onDelete: 'set null' }),
+  name: text('name').notNull(),
+  query: text('query').notNull(),
+  studyType: text('study_type').notNull(), // StudyType
+  intakeAnswers: jsonb('intake_answers').$type<IntakeAnswers>().notNull(),
+  cadence: text('cadence').notNull(), // Five-field cron expression, UTC
+  isActive: boolean('is_active').default(true).notNull(),
+  nextRunAt: timestamp('next_run_at').notNull(),
+  lastRunAt: timestamp('last_run_at'),
+  lastJobId: uuid('last_job_id'),
+  reportLineageId: uuid('report_lineage_id').notNull().defaultRandom(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('research_schedules_user_idx').on(table.userId),
+  index('research_schedules_due_idx').on(table.isActive, table.nextRunAt),
+]);
+
+// Report templates - a company's own report structures (section tree, visualization slots
+// and citation minimums). Custom studies pick one during intake; the built-in templates
+// live in services/reportTemplates.
+export const reportTemplates = pgTable('report_templates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  name: text('name').notNull(),
+  description: text('description').default('').notNull(),
+  sections: jsonb('sections').$type<ReportSectionTemplate[]>().notNull(),
+  minTotalCitations: integer('min_total_citations').default(0).notNull(),
+  requiredSourceTypes: jsonb('required_source_types').$type<ReportTemplate['requiredSourceTypes']>().default([]).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('report_templates_company_idx').on(table.companyId),
+  // Names are unique per company regardless of case
+  uniqueIndex('report_templates_company_name_unique').on(table.companyId, sql`lower(${table.name})`),
+]);
+
+// Deep research types
+export type ResearchJob = typeof researchJobs.$inferSelect;
+export type NewResearchJob = typeof researchJobs.$inferInsert;
+export type ResearchReport = typeof researchReports.$inferSelect;
+export type NewResearchReport = typeof researchReports.$inferInsert;
+export type ResearchSchedule = typeof researchSchedules.$inferSelect;
+export type NewResearchSchedule = typeof researchSchedules.$inferInsert;
+export type ReportTemplateRow = typeof reportTemplates.$inferSelect;
+export type NewReportTemplate = typeof reportTemplates.$inferInsert;
+
+// ══════════════════════════════════════════════════════════════════
+// ALERT TABLES
+// ══════════════════════════════════════════════════════════════════
+
+// Alert rules - user-defined triggers on supplier risk score changes
+export const alertRules = pgTable('alert_rules', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  supplierId: uuid('supplier_id').references(() => suppliers.id, { onDelete: 'cascade' }), // null = all followed suppliers
+  name: text('name').notNull(),
+  triggerType: text('trigger_type').notNull(), // 'threshold' | 'change' | 'any_change'
+  thresholdValue: integer('threshold_value'),
+  thresholdDirection: text('threshold_direction'), // 'above' | 'below'
+  changePercent: integer('change_percent'),
+  frequency: text('frequency').default('immediate').notNull(), // 'immediate' | 'daily' | 'weekly'
+  channels: jsonb('channels').$type<AlertChannels>().notNull(),
+  recipients: jsonb('recipients').$type<string[]>().default([]).notNull(), // Extra email recipients
+  isActive: boolean('is_active').default(true).notNull(),
+  lastTriggeredAt: timestamp('last_triggered_at'),
+  lastDigestAt: timestamp('last_digest_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('alert_rules_user_id_idx').on(table.userId),
+  index('alert_rules_supplier_id_idx').on(table.supplierId),
+]);
+
+// Alert events - one per rule per risk change that matched it
+// notifiedAt stays null while the event waits for a daily/weekly digest
+export const alertEvents = pgTable('alert_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  ruleId: uuid('rule_id').notNull().references(() => alertRules.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  supplierId: uuid('supplier_id').notNull().references(() => suppliers.id, { onDelete: 'cascade' }),
+  riskChangeId: uuid('risk_change_id').notNull().references(() => riskChanges.id, { onDelete: 'cascade' }),
+  previousScore: integer('previous_score').notNull(),
+  currentScore: integer('current_score').notNull(),
+  message: text('message').notNull(),
+  notifiedAt: timestamp('notified_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('alert_events_rule_change_unique').on(table.ruleId, table.riskChangeId),
+  index('alert_events_rule_notified_idx').on(table.ruleId, table.notifiedAt),
+]);
+
+// Notifications - in-app notification center entries (approvals, alerts, badges, answers)
+export const notifications = pgTable('notifications', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  type: text('type').notNull(), // NotificationType from types/notifications
+  title: text('title').notNull(),
+  description: text('description').notNull(),
+  metadata: jsonb('metadata').$type<NotificationMetadata>().default({}),
+  action: jsonb('action').$type<NotificationAction>(), // Optional call-to-action button
+  readAt: timestamp('read_at'),
+  dismissedAt: timestamp('dismissed_at'), // Hidden from the drawer, kept for audit
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('notifications_user_created_idx').on(table.userId, table.createdAt),
+]);
+
+// Alert types
+export type AlertRule = typeof alertRules.$inferSelect;
+export type NewAlertRule = typeof alertRules.$inferInsert;
+export type AlertEvent = typeof alertEvents.$inferSelect;
+export type NewAlertEvent = typeof alertEvents.$inferInsert;
+export type Notification = typeof notifications.$inferSelect;
+export type NewNotification = typeof notifications.$inferInsert;
@@ -1,9 +1,11 @@
 import { useState, useEffect, useCallback } from 'react';
+import { apiFetch } from '../services/api';
 
 // Types
 export interface Conversation {
   id: string;
   visitorId: string;
+  userId: string | null;
   title: string;
   category: string;
   createdAt: string;
@@ -25,15 +27,8 @@ export interface ConversationWithMessages extends Conversation {
   messages: Message[];
 }
 
-// Get or create visitor ID (SSR-safe)
-// DEMO MODE: Using shared visitor ID to show seeded conversations
-function getVisitorId(): string {
-  // Demo mode - everyone sees the same seeded conversations
-  return 'demo-user-001';
-}
-
-// API base URL - empty for same-origin
-const API_BASE = '';
+// Conversations are scoped server-side to the signed-in user, or to the
+// signed visitor cookie for anonymous sessions
 
 /**
  * Hook for listing and managing conversations
@@ -44,8 +39,6 @@ export function useConversations(includeArchived = false) {
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
 
-  const visitorId = getVisitorId();
-
   // Fetch conversations with optional search
   const fetchConversations = useCallback(async (search?: string) => {
     setIsLoading(true);
@@ -53,7 +46,6 @@ export function useConversations(includeArchived = false) {
 
     try {
       const params = new URLSearchParams({
-        visitorId,
         includeArchived: includeArchived.toString(),
       });
 
@@ -62,20 +54,14 @@ export function useConversations(includeArchived = false) {
         params.set('search', search.trim());
       }
 
-      const response = await fetch(`${API_BASE}/api/conversations?${params}`);
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch conversations');
-      }
-
-      const data = await response.json();
+      const data = await apiFetch<Conversation[]>(`/api/conversations?${params}`);
       setConversations(data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
     } finally {
       setIsLoading(false);
     }
-  }, [visitorId, includeArchived]);
+  }, [includeArchived]);
 
   // Initial fetch
   useEffect(() => {
@@ -91,24 +77,17 @@ export function useConversations(includeArchived = false) {
   // Create new conversation
   const createConversation = useCallback(async (title: string, category = 'general') => {
     try {
-      const response = await fetch(`${API_BASE}/api/conversations`, {
+      const newConversation = await apiFetch<Conversation>('/api/conversations', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ visitorId, title, category }),
+        body: JSON.stringify({ title, category }),
       });
-
-      if (!response.ok) {
-        throw new Error('Failed to create conversation');
-      }
-
-      const newConversation = await response.json();
       setConversations(prev => [newConversation, ...prev]);
       return newConversation;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
       return null;
     }
-  }, [visitorId]);
+  }, []);
 
   // Update conversation (star, archive, rename)
   const updateConversation = useCallback(async (
@@ -116,18 +95,11 @@ export function useConversations(includeArchived = false) {
     updates: Partial<Pick<Conversation, 'title' | 'isStarred' | 'isArchived' | 'category'>>
   ) => {
     try {
-      const response = await fetch(`${API_BASE}/api/conversations/${id}`, {
+      const updated = await apiFetch<Conversation>(`/api/conversations/${id}`, {
         method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(updates),
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to update conversation');
-      }
-
-      const updated = await response.json();
-
       setConversations(prev =>
         prev.map(c => (c.id === id ? updated : c))
       );
@@ -142,13 +114,7 @@ export function useConversations(includeArchived = false) {
   // Delete conversation
   const deleteConversation = useCallback(async (id: string) => {
     try {
-      const response = await fetch(`${API_BASE}/api/conversations/${id}`, {
-        method: 'DELETE',
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to delete conversation');
-      }
+      await apiFetch(`/api/conversations/${id}`, { method: 'DELETE' });
 
       setConversations(prev => prev.filter(c => c.id !== id));
       return true;
@@ -162,7 +128,6 @@ export function useConversations(includeArchived = false) {
     conversations,
     isLoading,
     error,
-    visitorId,
     searchQuery,
     refetch: fetchConversations,
     search,
@@ -191,13 +156,7 @@ export function useConversation(id: string | null) {
     setError(null);
 
     try {
-      const response = await fetch(`${API_BASE}/api/conversations/${id}`);
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch conversation');
-      }
-
-      const data = await response.json();
+      const data = await apiFetch<ConversationWithMessages>(`/api/conversations/${id}`);
       setConversation(data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
@@ -219,18 +178,11 @@ export function useConversation(id: string | null) {
     if (!id) return null;
 
     try {
-      const response = await fetch(`${API_BASE}/api/messages`, {
+      const newMessage = await apiFetch<Message>('/api/messages', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ conversationId: id, role, content, metadata }),
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to add message');
-      }
-
-      const newMessage = await response.json();
-
       setConversation(prev => {
         if (!prev) return prev;
         return {
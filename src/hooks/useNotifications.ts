@@ -0,0 +1,151 @@
+// useNotifications Hook
+// Notification center state for the header bell and NotificationDrawer.
+// Polls the unread count and only refetches the list when something new arrives.
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { AppNotification } from '../types/notifications';
+import {
+  fetchNotifications,
+  fetchUnreadStatus,
+  markNotificationRead,
+  markAllNotificationsRead,
+  dismissNotification,
+} from '../services/notificationService';
+
+export const NOTIFICATION_POLL_INTERVAL_MS = 30_000;
+
+interface UseNotificationsReturn {
+  notifications: AppNotification[];
+  unreadCount: number;
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  markAsRead: (id: string) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+  dismiss: (id: string) => Promise<void>;
+}
+
+/**
+ * @param enabled - Only poll once the session is authenticated
+ * @param isOpen - Refetch the full list whenever the drawer opens
+ */
+export function useNotifications(enabled: boolean, isOpen = false): UseNotificationsReturn {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestAtRef = useRef<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const page = await fetchNotifications();
+      setNotifications(page.notifications);
+      setUnreadCount(page.unreadCount);
+      latestAtRef.current = page.latestAt;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notifications');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Initial load, then poll the cheap unread status while the tab is visible
+  useEffect(() => {
+    if (!enabled) {
+      setNotifications([]);
+      setUnreadCount(0);
+      latestAtRef.current = null;
+      return;
+    }
+
+    let cancelled = false;
+
+    const poll = async () => {
+      if (document.visibilityState === 'hidden') return;
+      try {
+        const status = await fetchUnreadStatus();
+        if (cancelled) return;
+        setUnreadCount(status.unreadCount);
+        if (status.latestAt !== latestAtRef.current) {
+          await refresh();
+        }
+      } catch (err) {
+        console.warn('[useNotifications] Poll failed:', err);
+      }
+    };
+
+    refresh();
+    const interval = setInterval(poll, NOTIFICATION_POLL_INTERVAL_MS);
+    document.addEventListener('visibilitychange', poll);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', poll);
+    };
+  }, [enabled, refresh]);
+
+  useEffect(() => {
+    if (enabled && isOpen) {
+      refresh();
+    }
+  }, [enabled, isOpen, refresh]);
+
+  // Optimistic updates - resync from the server if a write fails
+  const markAsRead = useCallback(async (id: string) => {
+    const target = notifications.find(n => n.id === id);
+    if (!target || target.isRead) return;
+
+    setNotifications(prev => prev.map(n => (n.id === id ? { ...n, isRead: true } : n)));
+    setUnreadCount(prev => Math.max(prev - 1, 0));
+
+    try {
+      await markNotificationRead(id);
+    } catch (err) {
+      console.warn('[useNotifications] Failed to mark as read:', err);
+      await refresh();
+    }
+  }, [notifications, refresh]);
+
+  const markAllAsRead = useCallback(async () => {
+    setNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
+    setUnreadCount(0);
+
+    try {
+      await markAllNotificationsRead();
+    } catch (err) {
+      console.warn('[useNotifications] Failed to mark all as read:', err);
+      await refresh();
+    }
+  }, [refresh]);
+
+  const dismiss = useCallback(async (id: string) => {
+    const target = notifications.find(n => n.id === id);
+    if (!target) return;
+
+    setNotifications(prev => prev.filter(n => n.id !== id));
+    if (!target.isRead) {
+      setUnreadCount(prev => Math.max(prev - 1, 0));
+    }
+
+    try {
+      await dismissNotification(id);
+    } catch (err) {
+      console.warn('[useNotifications] Failed to dismiss:', err);
+      await refresh();
+    }
+  }, [notifications, refresh]);
+
+  return {
+    notifications,
+    unreadCount,
+    isLoading,
+    error,
+    refresh,
+    markAsRead,
+    markAllAsRead,
+    dismiss,
+  };
+}
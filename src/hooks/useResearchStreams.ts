@@ -0,0 +1,69 @@
+// useResearchStreams Hook
+// Keeps deep research messages in sync with their server jobs. Every message whose
+// job is still processing or waiting for approval gets an SSE subscription - including
+// messages restored after a refresh - and the subscription closes once the job finishes.
+
+import { useEffect, useRef } from 'react';
+import type { DeepResearchEvent, DeepResearchPhase, DeepResearchResponse } from '../types/deepResearch';
+import { isServerResearchJob, subscribeToResearch } from '../services/researchService';
+
+// Phases of a queued job; earlier and later phases have nothing to stream
+const STREAMED_PHASES: DeepResearchPhase[] = ['intake_confirmed', 'processing'];
+
+interface ResearchMessage {
+  id: string;
+  response?: unknown;
+}
+
+export function getMessageResearch(message: ResearchMessage): DeepResearchResponse | undefined {
+  return (message.response as { deepResearch?: DeepResearchResponse } | undefined)?.deepResearch;
+}
+
+/**
+ * @param onEvent - Called with the message ID for every event on a job's stream
+ */
+export function useResearchStreams(
+  messages: ResearchMessage[],
+  onEvent: (messageId: string, event: DeepResearchEvent) => void
+): void {
+  const subscriptionsRef = useRef(new Map<string, () => void>());
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    const subscriptions = subscriptionsRef.current;
+    const processing = new Set<string>();
+
+    for (const message of messages) {
+      const research = getMessageResearch(message);
+      if (!research || !STREAMED_PHASES.includes(research.phase) || !isServerResearchJob(research.jobId)) continue;
+
+      processing.add(message.id);
+      if (!subscriptions.has(message.id)) {
+        subscriptions.set(message.id, subscribeToResearch(research.jobId, (event) =>
+          onEventRef.current(message.id, event)
+        ));
+      }
+    }
+
+    for (const [messageId, unsubscribe] of subscriptions) {
+      if (!processing.has(messageId)) {
+        unsubscribe();
+        subscriptions.delete(messageId);
+      }
+    }
+  }, [messages]);
+
+  useEffect(() => {
+    const subscriptions = subscriptionsRef.current;
+    return () => {
+      for (const unsubscribe of subscriptions.values()) {
+        unsubscribe();
+      }
+      subscriptions.clear();
+    };
+  }, []);
+}
@@ -0,0 +1,56 @@
+// useRiskScoreHistory Hook
+// Loads a supplier's dated score series for a range. Suppliers without stored
+// history (mock or researched) resolve to null so callers keep their fallback.
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { RiskHistoryRange, RiskScoreHistory } from '../types/riskHistory';
+import { getRiskScoreHistory, hasStoredHistory } from '../services/riskHistoryService';
+
+interface UseRiskScoreHistoryReturn {
+  history: RiskScoreHistory | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function useRiskScoreHistory(
+  supplierId: string | undefined,
+  range: RiskHistoryRange,
+  options: { points?: number; factors?: boolean } = {}
+): UseRiskScoreHistoryReturn {
+  const [history, setHistory] = useState<RiskScoreHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { points, factors } = options;
+  // Only the latest request may update state, so quick range changes can't land out of order
+  const requestRef = useRef(0);
+
+  const fetchHistory = useCallback(async () => {
+    const requestId = ++requestRef.current;
+
+    if (!hasStoredHistory(supplierId)) {
+      setHistory(null);
+      setError(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await getRiskScoreHistory(supplierId, { range, points, factors });
+      if (requestId === requestRef.current) setHistory(result);
+    } catch (err) {
+      if (requestId !== requestRef.current) return;
+      setHistory(null);
+      setError(err instanceof Error ? err.message : 'Failed to load score history');
+    } finally {
+      if (requestId === requestRef.current) setIsLoading(false);
+    }
+  }, [supplierId, range, points, factors]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  return { history, isLoading, error };
+}
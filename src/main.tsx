@@ -4,6 +4,7 @@ import './index.css'
 import App from './App.tsx'
 import RiskComponentsShowcase from './views/RiskComponentsShowcase.tsx'
 import WidgetCatalog from './views/WidgetCatalog.tsx'
+import { AccountLinkView } from './views/AccountLinkView.tsx'
 
 // Simple routing for dev - supports both hash and path
 const getPage = () => {
@@ -16,6 +17,11 @@ const getPage = () => {
   if (hash === 'catalog' || path === '/catalog') {
     return <WidgetCatalog />
   }
+  // Links from verification and password reset emails
+  if (path === '/verify-email' || path === '/reset-password') {
+    const token = new URLSearchParams(window.location.search).get('token')
+    return <AccountLinkView mode={path.slice(1) as 'verify-email' | 'reset-password'} token={token} />
+  }
   return <App />
 }
 
@@ -0,0 +1,52 @@
+// Alert Service Tests - reading alert rules out of chat messages
+import { describe, it, expect } from 'vitest';
+import { describeAlertRule, isAlertRequest, parseAlertRequest } from '../alertService';
+import { MOCK_SUPPLIERS } from '../mockData';
+
+describe('parseAlertRequest', () => {
+  it('reads a supplier threshold with frequency and email', () => {
+    const { supplier, input } = parseAlertRequest(
+      "Email me a daily alert if Apple's risk score goes above 70",
+      MOCK_SUPPLIERS
+    );
+
+    expect(supplier?.name).toBe('Apple Inc.');
+    expect(input).toMatchObject({
+      supplierName: 'Apple Inc.',
+      triggerType: 'threshold',
+      thresholdValue: 70,
+      thresholdDirection: 'above',
+      frequency: 'daily',
+      channels: { email: true, inApp: true },
+    });
+  });
+
+  it('reads a falling threshold', () => {
+    const { input } = parseAlertRequest('Alert me when Flash Cleaning drops below 40', MOCK_SUPPLIERS);
+    expect(input).toMatchObject({ triggerType: 'threshold', thresholdValue: 40, thresholdDirection: 'below' });
+  });
+
+  it('covers the whole portfolio when no supplier is named', () => {
+    const { supplier, input } = parseAlertRequest(
+      'Notify me weekly when any supplier I follow changes by 15%',
+      MOCK_SUPPLIERS
+    );
+
+    expect(supplier).toBeNull();
+    expect(input).toMatchObject({ supplierId: null, triggerType: 'change', changePercent: 15, frequency: 'weekly' });
+    expect(describeAlertRule(input!)).toContain('any supplier you follow');
+  });
+
+  it('leaves the trigger for the form when the message does not give one', () => {
+    const { supplier, input } = parseAlertRequest('Set up an alert for Apple', MOCK_SUPPLIERS);
+    expect(supplier?.name).toBe('Apple Inc.');
+    expect(input).toBeNull();
+  });
+});
+
+describe('isAlertRequest', () => {
+  it('separates alert requests from other setup requests', () => {
+    expect(isAlertRequest('set up alerts for my portfolio')).toBe(true);
+    expect(isAlertRequest('import my supplier list')).toBe(false);
+  });
+});
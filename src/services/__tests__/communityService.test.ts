@@ -579,6 +579,34 @@ describe('communityService', () => {
         expect(mockDb.update).toHaveBeenCalled(); // For incrementing answer count
       });
 
+      it('still returns the answer when notifying the asker fails', async () => {
+        const questionMock = createChainableMock([{ id: 'q1', userId: 'asker', title: 'Lead times?' }]);
+        const profileMock = createChainableMock([]);
+
+        let selectCallCount = 0;
+        mockDb.select = vi.fn(() => {
+          selectCallCount++;
+          if (selectCallCount === 1) return questionMock as unknown as ReturnType<typeof createChainableMock>;
+          return profileMock as unknown as ReturnType<typeof createChainableMock>;
+        });
+
+        const answerInsert = createChainableMock([{ id: 'new-a', questionId: 'q1', userId: 'u1', body: 'Answer', score: 0, isAccepted: false, createdAt: new Date(), updatedAt: new Date() }]);
+        const notificationInsert = createChainableMock();
+        notificationInsert.values = vi.fn().mockRejectedValue(new Error('notifications unavailable'));
+        mockDb.insert = vi.fn()
+          .mockReturnValueOnce(answerInsert)
+          .mockReturnValueOnce(notificationInsert);
+
+        const result = await createAnswer(
+          mockDb as unknown as NeonHttpDatabase<Record<string, never>>,
+          'u1',
+          createAnswerInput({ questionId: 'q1' })
+        );
+
+        expect(result.id).toBe('new-a');
+        expect(notificationInsert.values).toHaveBeenCalledWith(expect.objectContaining({ userId: 'asker', type: 'answer_received' }));
+      });
+
       it('throws error when question not found', async () => {
         const emptyMock = createChainableMock([]);
         mockDb.select = vi.fn(() => emptyMock as unknown as ReturnType<typeof createChainableMock>);
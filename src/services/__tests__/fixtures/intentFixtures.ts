@@ -0,0 +1,124 @@
+// Labelled queries for the intent evaluation harness.
+// Keep several per category, and add a fixture for every misroute that gets reported.
+
+import type { IntentFixture } from '../../intentEvaluation';
+
+export const INTENT_FIXTURES: IntentFixture[] = [
+  // portfolio_overview
+  { query: "What's my risk exposure?", expected: 'portfolio_overview' },
+  { query: 'Give me a portfolio risk summary', expected: 'portfolio_overview' },
+  { query: 'How is my supplier portfolio doing?', expected: 'portfolio_overview' },
+  { query: 'Show me my risk overview by region', expected: 'portfolio_overview' },
+
+  // filtered_discovery
+  { query: 'Show high-risk suppliers in Europe', expected: 'filtered_discovery', entities: { riskLevel: 'high', region: 'Europe' } },
+  { query: 'Which of my suppliers need attention?', expected: 'filtered_discovery' },
+  { query: 'List suppliers in the packaging category', expected: 'filtered_discovery', entities: { category: 'Packaging' } },
+  { query: 'Low risk suppliers from Brazil', expected: 'filtered_discovery', entities: { region: 'Latin America' } },
+  { query: 'Suppliers with operations in Saudi Arabia', expected: 'filtered_discovery', entities: { region: 'Middle East' } },
+  { query: 'Show me medium risk suppliers in Nigeria', expected: 'filtered_discovery', entities: { region: 'Africa' } },
+
+  // supplier_deep_dive
+  { query: 'Tell me about Acme Metals', expected: 'supplier_deep_dive' },
+  { query: "What's the risk score for Northwind Logistics?", expected: 'supplier_deep_dive' },
+  { query: 'Show me details on Contoso Packaging', expected: 'supplier_deep_dive' },
+  { query: 'Profile of Globex Chemicals', expected: 'supplier_deep_dive' },
+
+  // trend_detection
+  { query: 'What changed in my portfolio this week?', expected: 'trend_detection' },
+  { query: 'Any recent risk changes?', expected: 'trend_detection' },
+  { query: 'Which suppliers are worsening?', expected: 'trend_detection' },
+  { query: 'Any alerts I should know about?', expected: 'trend_detection' },
+
+  // explanation_why
+  { query: 'Why is Acme Metals rated high risk?', expected: 'explanation_why' },
+  { query: 'How is the risk score calculated?', expected: 'explanation_why' },
+  { query: 'Why are some suppliers unrated?', expected: 'explanation_why' },
+  { query: "What's driving this supplier's score?", expected: 'explanation_why' },
+
+  // action_trigger
+  { query: 'Find alternatives for Acme Metals', expected: 'action_trigger', entities: { supplierName: 'acme metals' } },
+  { query: 'What should I do about my high risk suppliers?', expected: 'action_trigger' },
+  { query: 'Help me mitigate risk with Globex', expected: 'action_trigger' },
+  { query: 'Create a plan to reduce supplier concentration', expected: 'action_trigger' },
+
+  // comparison
+  { query: 'Compare Acme Metals and Globex Chemicals', expected: 'comparison' },
+  { query: 'Acme vs Contoso', expected: 'comparison' },
+  { query: 'Which supplier is safer, Acme or Northwind?', expected: 'comparison' },
+  { query: 'Put Acme and Globex side by side', expected: 'comparison' },
+
+  // setup_config
+  { query: 'Set up an alert when Acme goes high risk', expected: 'setup_config' },
+  { query: 'Follow Globex Chemicals', expected: 'setup_config' },
+  { query: 'Import my supplier list', expected: 'setup_config' },
+  { query: 'Notify me if any supplier drops below medium', expected: 'setup_config' },
+
+  // reporting_export
+  { query: 'Export my supplier list to Excel', expected: 'reporting_export' },
+  { query: 'Download the portfolio report', expected: 'reporting_export' },
+  { query: 'Generate a report on my high-risk suppliers', expected: 'reporting_export' },
+  { query: 'Summarize my supplier risk for the board meeting', expected: 'reporting_export' },
+
+  // market_context
+  { query: "What's happening in the semiconductor market?", expected: 'market_context' },
+  { query: 'Any news on Red Sea shipping disruptions?', expected: 'market_context' },
+  { query: 'What are the geopolitical risks in Southeast Asia?', expected: 'market_context' },
+  { query: 'Industry outlook for automotive suppliers', expected: 'market_context' },
+  { query: 'What market conditions should I watch in chemicals?', expected: 'market_context' },
+  { query: 'Supply chain disruption risks in electronics', expected: 'market_context' },
+
+  // restricted_query
+  { query: "Show me the breakdown of Acme's score", expected: 'restricted_query' },
+  { query: "What's the financial factor score for Globex?", expected: 'restricted_query' },
+  { query: 'Show individual factor ratings for Contoso', expected: 'restricted_query' },
+  { query: 'Give me the specific cybersecurity rating for Northwind', expected: 'restricted_query' },
+
+  // inflation_summary
+  { query: 'What changed in commodity prices this month?', expected: 'inflation_summary' },
+  { query: 'Show price changes for my categories', expected: 'inflation_summary' },
+  { query: 'Which categories have the highest inflation?', expected: 'inflation_summary' },
+  { query: 'Any price spikes above 10%?', expected: 'inflation_summary' },
+
+  // inflation_drivers
+  { query: 'Why did steel prices go up?', expected: 'inflation_drivers', entities: { commodity: 'Steel' } },
+  { query: "What's driving the increase in aluminum costs?", expected: 'inflation_drivers' },
+  { query: "What's the copper price trend?", expected: 'inflation_drivers', entities: { commodity: 'Copper' } },
+  { query: 'Explain the cost increase in corrugated boxes', expected: 'inflation_drivers' },
+
+  // inflation_impact
+  { query: 'How does inflation impact my spend?', expected: 'inflation_impact' },
+  { query: 'How will rising resin prices affect our budget?', expected: 'inflation_impact' },
+  { query: 'What is our exposure to steel inflation?', expected: 'inflation_impact' },
+  { query: 'How much will my costs increase this quarter?', expected: 'inflation_impact' },
+
+  // inflation_justification
+  { query: 'Is this 8% price increase from Acme justified?', expected: 'inflation_justification' },
+  { query: 'Validate the price increase Globex is asking for', expected: 'inflation_justification' },
+  { query: 'Should I accept the price increase on packaging?', expected: 'inflation_justification' },
+  { query: 'Help me negotiate the price increase with Contoso', expected: 'inflation_justification' },
+
+  // inflation_scenarios
+  { query: 'What if steel prices rise 15%?', expected: 'inflation_scenarios' },
+  { query: 'Aluminum price forecast for next year', expected: 'inflation_scenarios', entities: { commodity: 'Aluminum' } },
+  { query: 'Model a 10% cost increase on my packaging spend', expected: 'inflation_scenarios' },
+  { query: "What's the price outlook for lithium?", expected: 'inflation_scenarios' },
+
+  // inflation_communication
+  { query: 'Help me explain the price increases to leadership', expected: 'inflation_communication' },
+  { query: 'Prepare a presentation on inflation for the CFO', expected: 'inflation_communication' },
+  { query: 'Write talking points on cost inflation', expected: 'inflation_communication' },
+  { query: 'How do I tell executives about rising material costs?', expected: 'inflation_communication' },
+
+  // inflation_benchmark
+  { query: 'Is this price increase normal for the market?', expected: 'inflation_benchmark' },
+  { query: 'What are competitors paying for copper?', expected: 'inflation_benchmark' },
+  { query: 'What is the market average price increase for resins?', expected: 'inflation_benchmark' },
+  { query: 'Industry benchmark rate for freight', expected: 'inflation_benchmark' },
+
+  // general
+  { query: 'Hello', expected: 'general' },
+  { query: 'Thanks, that was helpful', expected: 'general' },
+  { query: 'What can you do?', expected: 'general' },
+  { query: 'Who built this tool?', expected: 'general' },
+];
@@ -0,0 +1,161 @@
+// Tests for the LLM intent classifier and the evaluation harness.
+// The evaluation runs the rules classifier over the labelled fixtures and prints
+// per-intent precision and recall; point it at classifyIntentWithLLM with a live
+// gateway to measure the model the same way.
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+
+vi.mock('../llmGateway', () => ({
+  llmFetch: vi.fn(),
+  isLlmProviderAvailable: vi.fn(() => true),
+}));
+
+import { classifyIntentWithLLM, parseClassifierOutput } from '../intentClassifier';
+import { evaluateIntentClassifier, formatIntentReport } from '../intentEvaluation';
+import { llmFetch, isLlmProviderAvailable } from '../llmGateway';
+import { classifyIntent } from '../../types/intents';
+import { INTENT_FIXTURES } from './fixtures/intentFixtures';
+
+function modelResponse(output: unknown, ok = true): Response {
+  return {
+    ok,
+    status: ok ? 200 : 500,
+    json: async () => ({
+      candidates: [{ content: { parts: [{ text: JSON.stringify(output) }] } }],
+    }),
+  } as unknown as Response;
+}
+
+describe('parseClassifierOutput', () => {
+  it('builds routing flags from the model category', () => {
+    const intent = parseClassifierOutput(
+      JSON.stringify({ category: 'restricted_query', confidence: 0.92 }),
+      "What's Acme's cybersecurity score?"
+    )!;
+
+    expect(intent.category).toBe('restricted_query');
+    expect(intent.confidence).toBe(0.92);
+    expect(intent.requiresHandoff).toBe(true);
+    expect(intent.responseType).toBe('handoff');
+    expect(intent.classifiedBy).toBe('llm');
+  });
+
+  it('prefers model entities and keeps regex ones the model left out', () => {
+    const intent = parseClassifierOutput(
+      JSON.stringify({
+        category: 'filtered_discovery',
+        confidence: 0.8,
+        entities: { region: 'Middle East', commodity: 'Titanium Sponge', supplierName: '  ' },
+      }),
+      'Find titanium sponge suppliers in Oman'
+    )!;
+
+    expect(intent.extractedEntities.region).toBe('Middle East');
+    expect(intent.extractedEntities.commodity).toBe('Titanium Sponge');
+    expect(intent.extractedEntities.action).toBe('find');
+    expect(intent.extractedEntities.supplierName).toBeUndefined();
+  });
+
+  it('ignores regions outside the supplier region list', () => {
+    const intent = parseClassifierOutput(
+      JSON.stringify({ category: 'filtered_discovery', confidence: 0.8, entities: { region: 'Antarctica' } }),
+      'Suppliers in Antarctica'
+    )!;
+    expect(intent.extractedEntities.region).toBeUndefined();
+  });
+
+  it('rejects unknown categories and malformed JSON', () => {
+    expect(parseClassifierOutput(JSON.stringify({ category: 'weather', confidence: 0.9 }), 'Rain?')).toBeNull();
+    expect(parseClassifierOutput('{"category":', 'Rain?')).toBeNull();
+  });
+});
+
+describe('classifyIntentWithLLM', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (isLlmProviderAvailable as Mock).mockReturnValue(true);
+  });
+
+  it('uses the model category when it is confident', async () => {
+    (llmFetch as Mock).mockResolvedValue(modelResponse({ category: 'inflation_drivers', confidence: 0.9 }));
+
+    const intent = await classifyIntentWithLLM('Why is the copper market so volatile?');
+
+    expect(intent.category).toBe('inflation_drivers');
+    expect(intent.classifiedBy).toBe('llm');
+    const [provider, options] = (llmFetch as Mock).mock.calls[0];
+    expect(provider).toBe('gemini');
+    expect(options.payload.generationConfig.responseMimeType).toBe('application/json');
+  });
+
+  it('falls back to the rules when the gateway is unavailable', async () => {
+    (isLlmProviderAvailable as Mock).mockReturnValue(false);
+
+    const intent = await classifyIntentWithLLM('Compare Acme and Globex');
+
+    expect(llmFetch).not.toHaveBeenCalled();
+    expect(intent).toEqual(classifyIntent('Compare Acme and Globex'));
+  });
+
+  it('falls back to the rules on gateway errors and failed requests', async () => {
+    (llmFetch as Mock).mockResolvedValueOnce(modelResponse({}, false));
+    expect((await classifyIntentWithLLM('Compare Acme and Globex')).classifiedBy).toBe('rules');
+
+    (llmFetch as Mock).mockRejectedValueOnce(new Error('offline'));
+    expect((await classifyIntentWithLLM('Compare Acme and Globex')).classifiedBy).toBe('rules');
+  });
+
+  it('gives up on a slow model after the timeout', async () => {
+    (llmFetch as Mock).mockImplementation((_provider, options: { signal: AbortSignal }) =>
+      new Promise((_resolve, reject) => {
+        options.signal.addEventListener('abort', () => reject(new Error('aborted')));
+      })
+    );
+
+    const intent = await classifyIntentWithLLM('Compare Acme and Globex', { timeoutMs: 10 });
+
+    expect(intent.category).toBe('comparison');
+    expect(intent.classifiedBy).toBe('rules');
+  });
+
+  it('keeps a rules match over an unsure model, but not a rules fallback', async () => {
+    (llmFetch as Mock).mockResolvedValue(modelResponse({ category: 'market_context', confidence: 0.3 }));
+    expect((await classifyIntentWithLLM('Compare Acme and Globex')).category).toBe('comparison');
+    expect((await classifyIntentWithLLM('Hmm, interesting')).category).toBe('market_context');
+  });
+});
+
+describe('intent evaluation', () => {
+  it('scores precision and recall per intent', async () => {
+    const report = await evaluateIntentClassifier(
+      [
+        { query: 'a', expected: 'comparison' },
+        { query: 'b', expected: 'comparison' },
+        { query: 'c', expected: 'general' },
+      ],
+      () => classifyIntent('Compare Acme and Globex')
+    );
+
+    const comparison = report.perIntent.find((m) => m.category === 'comparison')!;
+    const general = report.perIntent.find((m) => m.category === 'general')!;
+    expect(report.accuracy).toBeCloseTo(2 / 3);
+    expect(comparison).toMatchObject({ support: 2, predicted: 3, truePositives: 2, recall: 1 });
+    expect(comparison.precision).toBeCloseTo(2 / 3);
+    expect(general).toMatchObject({ support: 1, predicted: 0, recall: 0, f1: 0 });
+    expect(report.misroutes).toEqual([{ query: 'c', expected: 'general', actual: 'comparison' }]);
+  });
+
+  it('covers every intent in the fixture set', () => {
+    const labelled = new Set(INTENT_FIXTURES.map((f) => f.expected));
+    expect(labelled.size).toBe(19);
+  });
+
+  it('keeps the rules classifier above its baseline on the fixtures', async () => {
+    const report = await evaluateIntentClassifier(INTENT_FIXTURES, classifyIntent);
+    console.log(`Rules classifier\n${formatIntentReport(report)}`);
+
+    // Raise these as routing improves; a drop means a pattern change misroutes known queries
+    expect(report.accuracy).toBeGreaterThanOrEqual(0.9);
+    expect(report.macroF1).toBeGreaterThanOrEqual(0.9);
+    expect(report.entityMisses).toEqual([]);
+  });
+});
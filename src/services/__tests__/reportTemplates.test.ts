@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  REPORT_TEMPLATES,
+  getCitationShortfalls,
+  getReportTemplate,
+  validateReportTemplate,
+  type ReportTemplate,
+} from '../reportTemplates';
+
+const template: ReportTemplate = {
+  id: 'packaging_review',
+  name: 'Packaging review',
+  description: 'Quarterly packaging category review',
+  minTotalCitations: 3,
+  requiredSourceTypes: ['web'],
+  sections: [
+    {
+      id: 'summary',
+      title: 'Summary',
+      required: true,
+      minCitations: 2,
+      description: 'Key findings',
+      promptHints: [],
+      children: [
+        { id: 'outlook', title: 'Outlook', required: false, minCitations: 1, description: 'Price outlook', promptHints: [] },
+      ],
+    },
+    { id: 'risks', title: 'Risks', required: false, minCitations: 1, description: 'Supply risks', promptHints: [] },
+  ],
+};
+
+describe('reportTemplates', () => {
+  describe('validateReportTemplate', () => {
+    it('accepts every built-in template', () => {
+      for (const builtIn of Object.values(REPORT_TEMPLATES)) {
+        expect(validateReportTemplate(builtIn)).toEqual([]);
+      }
+    });
+
+    it('accepts a nested company template', () => {
+      expect(validateReportTemplate(template)).toEqual([]);
+    });
+
+    it('finds repeated section IDs anywhere in the tree', () => {
+      const errors = validateReportTemplate({
+        ...template,
+        sections: [template.sections[0], { ...template.sections[1], id: 'outlook' }],
+      });
+
+      expect(errors).toEqual(['Section ID "outlook" is used more than once']);
+    });
+
+    it('limits nesting depth and requires a required section', () => {
+      const deep = {
+        ...template.sections[0],
+        required: false,
+        children: [{ ...template.sections[1], id: 'inner', children: [{ ...template.sections[1], id: 'innermost' }] }],
+      };
+
+      expect(validateReportTemplate({ ...template, sections: [deep] })).toEqual([
+        'Sections can be nested at most 2 levels deep',
+        'At least one section must be required',
+      ]);
+    });
+
+    it('checks section IDs, citation minimums and chart slots', () => {
+      const errors = validateReportTemplate({
+        ...template,
+        sections: [
+          { ...template.sections[0], children: undefined, id: 'Summary Section' },
+          {
+            ...template.sections[1],
+            minCitations: 1.5,
+            visualizationSlots: [
+              { slotId: 'risk_chart', type: 'radar' as never, title: 'Risks', description: 'Risk scores', minDataPoints: 0, placement: 'after_prose' },
+            ],
+          },
+        ],
+      });
+
+      expect(errors).toEqual([
+        'Section "Summary" needs an ID of lowercase letters, digits and underscores',
+        'Section "risks" minCitations must be a whole number from 0 to 20',
+        'Section "risks" slot "risk_chart" type must be one of: line_chart, bar_chart, pie_chart, table, metric',
+        'Section "risks" slot "risk_chart" minDataPoints must be a whole number from 1 to 100',
+      ]);
+    });
+  });
+
+  describe('getReportTemplate', () => {
+    it('uses the company template only for custom studies', () => {
+      expect(getReportTemplate('custom', template)).toBe(template);
+      expect(getReportTemplate('custom', null)).toBe(REPORT_TEMPLATES.custom);
+      expect(getReportTemplate('risk_assessment', template)).toBe(REPORT_TEMPLATES.risk_assessment);
+    });
+  });
+
+  describe('getCitationShortfalls', () => {
+    it('reports written sections below their minimum, including subsections', () => {
+      const shortfalls = getCitationShortfalls([
+        {
+          id: 'summary',
+          content: 'Prices rose [1] while demand held [2].',
+          children: [{ id: 'outlook', content: 'Prices should ease next year.' }],
+        },
+        { id: 'risks', content: 'Mill closures [3].' },
+      ], template);
+
+      expect(shortfalls).toEqual([{ sectionId: 'outlook', title: 'Outlook', found: 0, required: 1 }]);
+    });
+
+    it('skips sections the report left out', () => {
+      expect(getCitationShortfalls([{ id: 'summary', content: 'One source [1] and another [2].' }], template)).toEqual([]);
+    });
+  });
+});
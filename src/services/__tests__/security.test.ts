@@ -1,5 +1,5 @@
 // Security Service Tests
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach } from 'vitest';
 import {
   generateCsrfToken,
   validateCsrfToken,
@@ -8,6 +8,9 @@ import {
   verifySignedVisitorId,
   generateVisitorId,
   checkRateLimit,
+  evaluateSlidingWindow,
+  getRateLimitHeaders,
+  MemoryRateLimitStore,
   getRateLimitKey,
   addTimingNoise,
   serializeCookie,
@@ -199,48 +202,112 @@ describe('Security Service', () => {
 
   describe('Rate Limiting', () => {
     describe('checkRateLimit', () => {
-      it('allows first request in window', () => {
+      let store: MemoryRateLimitStore;
+
+      beforeEach(() => {
+        store = new MemoryRateLimitStore();
+      });
+
+      it('allows first request in window', async () => {
         const key = `test-${Date.now()}`;
-        const result = checkRateLimit(key, { maxRequests: 5, windowMs: 60000 });
+        const result = await checkRateLimit(key, { maxRequests: 5, windowMs: 60000 }, store);
 
         expect(result.allowed).toBe(true);
         expect(result.remaining).toBe(4);
       });
 
-      it('decrements remaining on each request', () => {
+      it('decrements remaining on each request', async () => {
         const key = `test-decrement-${Date.now()}-${Math.random()}`;
         const config = { maxRequests: 3, windowMs: 60000 };
 
-        const r1 = checkRateLimit(key, config);
+        const r1 = await checkRateLimit(key, config, store);
         expect(r1.remaining).toBe(2);
 
-        const r2 = checkRateLimit(key, config);
+        const r2 = await checkRateLimit(key, config, store);
         expect(r2.remaining).toBe(1);
 
-        const r3 = checkRateLimit(key, config);
+        const r3 = await checkRateLimit(key, config, store);
         expect(r3.remaining).toBe(0);
       });
 
-      it('blocks after max requests reached', () => {
+      it('blocks after max requests reached', async () => {
         const key = `test-block-${Date.now()}`;
         const config = { maxRequests: 2, windowMs: 60000 };
 
-        checkRateLimit(key, config);
-        checkRateLimit(key, config);
+        await checkRateLimit(key, config, store);
+        await checkRateLimit(key, config, store);
 
-        const blocked = checkRateLimit(key, config);
+        const blocked = await checkRateLimit(key, config, store);
         expect(blocked.allowed).toBe(false);
         expect(blocked.remaining).toBe(0);
       });
 
-      it('returns reset time', () => {
+      it('returns reset time', async () => {
         const key = `test-reset-${Date.now()}`;
         const config = { maxRequests: 5, windowMs: 60000 };
 
-        const result = checkRateLimit(key, config);
+        const result = await checkRateLimit(key, config, store);
         expect(result.resetAt).toBeGreaterThan(Date.now());
         expect(result.resetAt).toBeLessThanOrEqual(Date.now() + 60000);
       });
+    
+      it('keeps separate counts per store', async () => {
+        const config = { maxRequests: 1, windowMs: 60000 };
+
+        expect((await checkRateLimit('shared', config, store)).allowed).toBe(true);
+        expect((await checkRateLimit('shared', config, store)).allowed).toBe(false);
+        expect((await checkRateLimit('shared', config, new MemoryRateLimitStore())).allowed).toBe(true);
+      });
+    });
+
+    describe('evaluateSlidingWindow', () => {
+      const config = { maxRequests: 10, windowMs: 60000 };
+
+      it('weights the previous window by its remaining overlap', () => {
+        // 25% into the window: 75% of the previous 8 hits still count
+        const result = evaluateSlidingWindow({ current: 3, previous: 8 }, config, 0, 15000);
+
+        expect(result.allowed).toBe(true);
+        expect(result.remaining).toBe(1);
+        expect(result.resetAt).toBe(60000);
+      });
+
+      it('blocks a burst straddling the window boundary', () => {
+        const result = evaluateSlidingWindow({ current: 5, previous: 10 }, config, 0, 6000);
+
+        expect(result.allowed).toBe(false);
+        expect(result.remaining).toBe(0);
+      });
+
+      it('ignores the previous window at the end of the current one', () => {
+        const result = evaluateSlidingWindow({ current: 10, previous: 10 }, config, 0, 60000);
+
+        expect(result.allowed).toBe(true);
+      });
+    });
+
+    describe('getRateLimitHeaders', () => {
+      it('reports limit, remaining, reset and policy', () => {
+        const headers = getRateLimitHeaders(
+          { allowed: true, limit: 5, remaining: 3, resetAt: Date.now() + 30000 },
+          { maxRequests: 5, windowMs: 60000 }
+        );
+
+        expect(headers['RateLimit-Limit']).toBe('5');
+        expect(headers['RateLimit-Remaining']).toBe('3');
+        expect(Number(headers['RateLimit-Reset'])).toBeLessThanOrEqual(30);
+        expect(headers['RateLimit-Policy']).toBe('5;w=60');
+        expect(headers['Retry-After']).toBeUndefined();
+      });
+
+      it('adds Retry-After when blocked', () => {
+        const headers = getRateLimitHeaders(
+          { allowed: false, limit: 5, remaining: 0, resetAt: Date.now() + 10000 },
+          { maxRequests: 5, windowMs: 60000 }
+        );
+
+        expect(Number(headers['Retry-After'])).toBeGreaterThan(0);
+      });
     });
 
     describe('getRateLimitKey', () => {
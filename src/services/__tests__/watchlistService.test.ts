@@ -0,0 +1,42 @@
+// Watchlist Service Tests - reading follow requests out of chat messages
+import { describe, it, expect } from 'vitest';
+import { describeFollowResult, parseFollowRequest } from '../watchlistService';
+
+describe('parseFollowRequest', () => {
+  it('reads a single supplier to follow', () => {
+    expect(parseFollowRequest('follow TSMC')).toEqual({ action: 'follow', supplierNames: ['TSMC'] });
+  });
+
+  it('reads several suppliers to unfollow', () => {
+    expect(parseFollowRequest('Stop following Apex Manufacturing Co, TechCore and PetroMax Energy.')).toEqual({
+      action: 'unfollow',
+      supplierNames: ['Apex Manufacturing Co', 'TechCore', 'PetroMax Energy'],
+    });
+  });
+
+  it('drops filler around the names', () => {
+    expect(parseFollowRequest('please follow the supplier GlobalChem Solutions for me')).toEqual({
+      action: 'follow',
+      supplierNames: ['GlobalChem Solutions'],
+    });
+  });
+
+  it('ignores questions about followed suppliers', () => {
+    expect(parseFollowRequest('which suppliers do I follow in Asia?')).toBeNull();
+    expect(parseFollowRequest('follow')).toBeNull();
+  });
+});
+
+describe('describeFollowResult', () => {
+  it('reports changed, unchanged and unmatched suppliers', () => {
+    const message = describeFollowResult('follow', {
+      updated: [{ id: 's1', name: 'TechCore Industries' }],
+      unchanged: [{ id: 's2', name: 'PetroMax Energy' }],
+      notFound: ['Acme'],
+    });
+
+    expect(message).toBe(
+      "Now following TechCore Industries. You already follow PetroMax Energy. I couldn't find a single supplier matching Acme."
+    );
+  });
+});
@@ -1,21 +1,21 @@
 // AI Orchestration Layer - Routes between Gemini and Perplexity
 import type { GeminiResponse } from './gemini';
 import { callGeminiV2, isGeminiConfigured, decomposeResearchQuery, fetchBeroeIntelligence } from './gemini';
-import { generateDynamicIntake } from './deepResearchIntake';
 import type { PerplexityResponse } from './perplexity';
 import { callPerplexity, isPerplexityConfigured } from './perplexity';
 import { synthesizeResearchReport, isDeepSeekConfigured, synthesizeTemplatedReport } from './deepseek';
 import type { StructuredDataContext } from './deepseek';
-import { getReportTemplate } from './reportTemplates';
+import { getCitationShortfalls, getReportTemplate, type ReportTemplate } from './reportTemplates';
 import { ENRICHED_COMMODITIES } from './enrichedCommodityData';
 import type { EnrichedCommodity } from '../types/enrichedData';
 import type { ChatMessage, Suggestion, Source } from '../types/chat';
 import { generateId } from '../types/chat';
 // Deep Research types
 import type { DeepResearchResponse, StudyType, CommandCenterProgress, ResearchInsight, ResearchAgent, CommandCenterStage, PhaseStatus } from '../types/deepResearch';
-import { createDeepResearchResponse, getDefaultProcessingSteps, createInitialProgress, normalizeStage, initPhases } from '../types/deepResearch';
+import { createDeepResearchResponse, createInitialProgress, normalizeStage, initPhases, getCreditsRequiredForStudy } from '../types/deepResearch';
 import type { DetectedIntent, IntentCategory } from '../types/intents';
 import { classifyIntent } from '../types/intents';
+import { classifyIntentWithLLM } from './intentClassifier';
 import type { Supplier, RiskChange } from '../types/supplier';
 import {
   getPortfolioSummary,
@@ -43,6 +43,11 @@ import {
 } from './widgetTransformers';
 import { generateSuggestions, suggestionEngine } from './suggestionEngine';
 import { getWidgetRouteFromRegistry } from './widgetRouter';
+import { createAlertRule, describeAlertRule, isAlertRequest, parseAlertRequest } from './alertService';
+import { applyPortfolioAction, describeFollowResult, parseFollowRequest, type ChatFollowRequest } from './watchlistService';
+import { isImportRequest } from './supplierImportService';
+import { ApiError } from './api';
+import { confirmResearch, startResearch } from './researchService';
 // Canonical response transform
 import { transformToCanonical } from '../utils/responseTransform';
 import { validateAndRepair } from '../utils/responseValidator';
@@ -342,8 +347,8 @@ export const sendMessage = async (
     };
     emitMilestone('intent_classified', `Intent: ${formatIntentName(intent.category)}`, intent.category);
   } else {
-    // Classify intent from message text
-    intent = classifyIntent(message);
+    // Classify intent from message text (LLM, with the regex classifier as fallback)
+    intent = await classifyIntentWithLLM(message);
     emitMilestone('intent_classified', `Intent: ${formatIntentName(intent.category)}`, intent.category);
   }
 
@@ -399,10 +404,30 @@ export const sendMessage = async (
 
     // Warn if user enabled web search but Perplexity isn't configured
     if ((webSearchEnabled || hybridMode) && !isPerplexityConfigured()) {
-      console.warn('[AI] Web search enabled but VITE_PERPLEXITY_API_KEY not configured - falling back to Gemini only');
+      console.warn('[AI] Web search enabled but Perplexity not available via the gateway - falling back to Gemini only');
     }
 
-    if (shouldUseHybrid && isPerplexityConfigured() && isGeminiConfigured()) {
+    const followRequest = intent.category === 'setup_config'
+      && (intent.extractedEntities.action === 'follow' || intent.extractedEntities.action === 'unfollow')
+      ? parseFollowRequest(message)
+      : null;
+
+    if (intent.category === 'setup_config' && isAlertRequest(message)) {
+      // Alert rules are saved directly - no model call needed
+      emitMilestone('provider_selected', 'Alert setup', 'local');
+      response = await generateAlertSetupResponse(message, intent);
+      provider = 'local';
+    } else if (isImportRequest(message)) {
+      // Imports are uploaded and reviewed in the watchlist panel
+      emitMilestone('provider_selected', 'Supplier import', 'local');
+      response = generateImportResponse(intent);
+      provider = 'local';
+    } else if (followRequest) {
+      // Follow/unfollow updates the portfolio directly
+      emitMilestone('provider_selected', 'Portfolio update', 'local');
+      response = await generateFollowResponse(followRequest, intent);
+      provider = 'local';
+    } else if (shouldUseHybrid && isPerplexityConfigured() && isGeminiConfigured()) {
       console.log('[AI] Using HYBRID mode (Gemini + Perplexity)...');
       emitMilestone('provider_selected', 'Hybrid (Beroe + Web)', 'hybrid');
 
@@ -1812,6 +1837,123 @@ const generateLocalResponse = (
   };
 };
 
+// Alert requests from chat: save the rule when the message names a trigger,
+// otherwise hand over to the alert form with the supplier filled in
+const generateAlertSetupResponse = async (
+  message: string,
+  intent: DetectedIntent
+): Promise<Omit<AIResponse, 'id' | 'provider' | 'thinkingDuration' | 'thinkingSteps'>> => {
+  suggestionEngine.recordQuestion('setup_config');
+  const { supplier, input } = parseAlertRequest(message, MOCK_SUPPLIERS);
+  const suppliers = supplier ? [supplier] : undefined;
+  const artifact = {
+    type: 'alert_config',
+    title: supplier ? `${supplier.name} Risk Alert` : 'Risk Alert',
+    supplierId: supplier?.id,
+  };
+
+  if (input) {
+    try {
+      await createAlertRule(input);
+      return {
+        content: `Alert saved. I'll let you know ${describeAlertRule(input)}.`,
+        responseType: 'summary',
+        suggestions: generateSuggestions(intent, { suppliers }),
+        suppliers,
+        acknowledgement: 'Alert created.',
+        escalation: determineEscalation(0, 'setup_config'),
+        intent,
+      };
+    } catch (error) {
+      console.error('[AI] Failed to create alert from chat:', error);
+      const reason = error instanceof ApiError && error.status === 401
+        ? 'Sign in to save alerts.'
+        : "I couldn't save that alert just now.";
+      return {
+        content: `${reason} You can review and create it from the alert form.`,
+        responseType: 'summary',
+        suggestions: generateSuggestions(intent, { suppliers }),
+        suppliers,
+        artifact,
+        escalation: determineEscalation(0, 'setup_config'),
+        intent,
+      };
+    }
+  }
+
+  return {
+    content: supplier
+      ? `Let's set up a risk alert for ${supplier.name} (current score ${supplier.srs.score}). Choose whether to trigger on a score threshold, a percentage change or any change, and how often you want to hear about it.`
+      : `Let's set up a risk alert. Without a specific supplier it will cover every supplier you follow. Choose whether to trigger on a score threshold, a percentage change or any change, and how often you want to hear about it.`,
+    responseType: 'summary',
+    suggestions: generateSuggestions(intent, { suppliers }),
+    suppliers,
+    artifact,
+    escalation: determineEscalation(0, 'setup_config'),
+    intent,
+  };
+};
+
+// "follow TSMC" / "unfollow Apex": update the portfolio, falling back to the
+// watchlist artifact when the change can't be saved
+const generateFollowResponse = async (
+  request: ChatFollowRequest,
+  intent: DetectedIntent
+): Promise<Omit<AIResponse, 'id' | 'provider' | 'thinkingDuration' | 'thinkingSteps'>> => {
+  suggestionEngine.recordQuestion('setup_config');
+  const artifact = {
+    type: 'watchlist_manage',
+    title: 'Manage Watchlist',
+  };
+
+  try {
+    const result = await applyPortfolioAction(request.action, { supplierNames: request.supplierNames });
+    return {
+      content: describeFollowResult(request.action, result),
+      responseType: 'summary',
+      suggestions: generateSuggestions(intent, {}),
+      acknowledgement: result.updated.length > 0
+        ? (request.action === 'follow' ? 'Portfolio updated.' : 'Supplier removed.')
+        : undefined,
+      artifact: result.notFound.length > 0 ? artifact : undefined,
+      escalation: determineEscalation(0, 'setup_config'),
+      intent,
+    };
+  } catch (error) {
+    console.error('[AI] Failed to update portfolio from chat:', error);
+    const reason = error instanceof ApiError && error.status === 401
+      ? 'Sign in to manage the suppliers you follow.'
+      : "I couldn't update your portfolio just now.";
+    return {
+      content: `${reason} You can search for suppliers and manage your watchlists from the watchlist panel.`,
+      responseType: 'summary',
+      suggestions: generateSuggestions(intent, {}),
+      artifact,
+      escalation: determineEscalation(0, 'setup_config'),
+      intent,
+    };
+  }
+};
+
+// "import my supplier list": open the import tab of the watchlist panel
+const generateImportResponse = (
+  intent: DetectedIntent
+): Omit<AIResponse, 'id' | 'provider' | 'thinkingDuration' | 'thinkingSteps'> => {
+  suggestionEngine.recordQuestion('setup_config');
+  return {
+    content: 'Upload a CSV or XLSX file with one supplier per row. I\'ll match each row against existing suppliers by DUNS, then by name and country, and show you the matches to review before anything is added. Suppliers I can\'t match are created as new, unrated suppliers, and any spend figures are saved with your portfolio.',
+    responseType: 'summary',
+    suggestions: generateSuggestions(intent, {}),
+    artifact: {
+      type: 'watchlist_manage',
+      title: 'Import Suppliers',
+      filters: { view: 'import' },
+    },
+    escalation: determineEscalation(0, 'setup_config'),
+    intent,
+  };
+};
+
 // ============================================
 // DEEP RESEARCH FLOW
 // ============================================
@@ -1858,19 +2000,16 @@ export const startDeepResearchFlow = async (
     }
   }
 
-  // Generate a unique job ID for this research session
-  const jobId = `dr-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-
   // Determine credits required based on study type
   const creditsRequired = getCreditsRequiredForStudy(studyType);
 
-  console.log('[DeepResearch] Starting flow:', { jobId, query: resolvedQuery, studyType, creditsAvailable, creditsRequired });
+  console.log('[DeepResearch] Starting flow:', { query: resolvedQuery, studyType, creditsAvailable, creditsRequired });
 
   // Check if user has enough credits
   if (creditsAvailable < creditsRequired) {
     return {
       type: 'deep_research',
-      jobId,
+      jobId: `dr-${Date.now()}`,
       query: resolvedQuery,
       studyType,
       phase: 'error',
@@ -1884,52 +2023,45 @@ export const startDeepResearchFlow = async (
     };
   }
 
-  // Generate dynamic intake questions from context
-  // Uses two-layer engine: deterministic slots + optional LLM enhancement
-  const intake = await generateDynamicIntake(
-    resolvedQuery,
-    studyType,
-    conversationHistory,
-    { useLLM: isGeminiConfigured() }
-  );
-
-  console.log('[DeepResearch] Dynamic intake generated:', {
-    questions: intake.questions.length,
-    prefilled: Object.keys(intake.prefilledAnswers || {}).length,
-    canSkip: intake.canSkip,
-    skipReason: intake.skipReason,
-  });
+  // The server creates the job and its intake questions (deterministic slots +
+  // optional LLM enhancement); the worker runs the pipeline after confirmation
+  try {
+    const research = await startResearch({
+      query: resolvedQuery,
+      studyType,
+      conversationHistory: conversationHistory.map(({ role, content }) => ({ role, content })),
+    });
 
-  return {
-    type: 'deep_research',
-    jobId,
-    query: resolvedQuery,
-    studyType,
-    phase: 'intake',
-    creditsAvailable,
-    creditsRequired,
-    intake,
-  };
-};
+    console.log('[DeepResearch] Job created:', {
+      jobId: research.jobId,
+      questions: research.intake?.questions.length ?? 0,
+      canSkip: research.intake?.canSkip,
+    });
 
-/**
- * Get credits required for a study type
- */
-const getCreditsRequiredForStudy = (studyType: StudyType): number => {
-  const creditMap: Record<StudyType, number> = {
-    sourcing_study: 750,
-    cost_model: 600,
-    market_analysis: 500,
-    supplier_assessment: 400,
-    risk_assessment: 450,
-    custom: 500,
-  };
-  return creditMap[studyType] || 500;
+    return { ...research, creditsAvailable };
+  } catch (error) {
+    console.error('[DeepResearch] Failed to start job:', error);
+    return {
+      type: 'deep_research',
+      jobId: `dr-${Date.now()}`,
+      query: resolvedQuery,
+      studyType,
+      phase: 'error',
+      creditsAvailable,
+      creditsRequired,
+      error: {
+        message: 'Deep research could not be started. Please try again.',
+        code: 'START_FAILED',
+        canRetry: true,
+      },
+    };
+  }
 };
 
 /**
- * Confirm intake and start processing
- * Called after user answers clarifying questions
+ * Confirm intake and queue the job on the server
+ * Called after user answers clarifying questions; progress then arrives over
+ * the job's SSE stream (see subscribeToResearch)
  */
 export const confirmDeepResearchIntake = async (
   jobId: string,
@@ -1940,22 +2072,35 @@ export const confirmDeepResearchIntake = async (
 ): Promise<DeepResearchResponse> => {
   console.log('[DeepResearch] Confirming intake:', { jobId, answers });
 
-  // Transition to processing phase
-  return {
-    type: 'deep_research',
-    jobId,
-    query,
-    studyType,
-    phase: 'processing',
-    creditsAvailable,
-    creditsRequired: getCreditsRequiredForStudy(studyType),
-    processing: {
-      steps: getDefaultProcessingSteps(),
-      currentStepIndex: 0,
-      elapsedTime: 0,
-      sourcesCollected: 0,
-    },
-  };
+  try {
+    const research = await confirmResearch({ jobId, answers });
+    return { ...research, creditsAvailable };
+  } catch (error) {
+    console.error('[DeepResearch] Failed to confirm intake:', error);
+    // The server holds the credits when the job is queued, so balance and team budget are checked there
+    const creditsRejected = error instanceof ApiError && error.status === 400 &&
+      (error.message === 'Insufficient credits' || error.message === 'Team budget exceeded');
+    return {
+      type: 'deep_research',
+      jobId,
+      query,
+      studyType,
+      phase: 'error',
+      creditsAvailable,
+      creditsRequired: getCreditsRequiredForStudy(studyType),
+      error: creditsRejected
+        ? {
+            message: `${error.message}. This research requires ${getCreditsRequiredForStudy(studyType)} credits.`,
+            code: 'INSUFFICIENT_CREDITS',
+            canRetry: false,
+          }
+        : {
+            message: 'Deep research could not be started. Please try again.',
+            code: 'CONFIRM_FAILED',
+            canRetry: true,
+          },
+    };
+  }
 };
 
 // ============================================
@@ -2036,6 +2181,7 @@ const extractRelevantCommodities = (
  * Execute deep research processing
  * Uses Perplexity for web research and DeepSeek R1 for synthesis
  * Returns updates via callback with structured CommandCenterProgress
+ * Runs in the research worker (api/research/worker.ts), not the browser
  */
 // Global timeout for entire research process (4 minutes)
 // With DeepSeek V3 (faster), typical completion is 1-2 min. 4 min is safety buffer.
@@ -2046,7 +2192,8 @@ export const executeDeepResearch = async (
   query: string,
   answers: Record<string, string | string[]>,
   studyType: StudyType = 'market_analysis',
-  onProgress?: (update: DeepResearchResponse) => void
+  onProgress?: (update: DeepResearchResponse) => void,
+  companyTemplate?: ReportTemplate | null
 ): Promise<DeepResearchResponse> => {
   console.log('[DeepResearch] Executing research:', { jobId, query, studyType });
   console.log('[DeepResearch] API Status - Perplexity:', isPerplexityConfigured(), 'DeepSeek:', isDeepSeekConfigured());
@@ -2085,7 +2232,7 @@ export const executeDeepResearch = async (
   });
 
   // Race the actual execution against the timeout
-  const result = await Promise.race([timeoutPromise, executeDeepResearchCore(jobId, query, answers, studyType, safeOnProgress, startTime)]);
+  const result = await Promise.race([timeoutPromise, executeDeepResearchCore(jobId, query, answers, studyType, safeOnProgress, startTime, companyTemplate)]);
 
   // Clear timeout if research completed before timeout
   if (timeoutId && !isTimedOut) {
@@ -2102,7 +2249,8 @@ const executeDeepResearchCore = async (
   answers: Record<string, string | string[]>,
   studyType: StudyType,
   onProgress: ((update: DeepResearchResponse) => void) | undefined,
-  startTime: number
+  startTime: number,
+  companyTemplate?: ReportTemplate | null
 ): Promise<DeepResearchResponse> => {
   const allSources: Source[] = [];
   const INSIGHT_STREAM_MAX = 50;
@@ -2415,8 +2563,8 @@ const executeDeepResearchCore = async (
 
     let report: import('../types/deepResearch').DeepResearchReport;
 
-    // Get the report template for this study type
-    const reportTemplate = getReportTemplate(studyType);
+    // Get the report template for this study type (or the company template a custom study picked)
+    const reportTemplate = getReportTemplate(studyType, companyTemplate);
     console.log('[DeepResearch] Using template:', reportTemplate.name);
     updatePhase('synthesis.template', 'complete', reportTemplate.name);
     updatePhase('synthesis.writing', 'active');
@@ -2550,6 +2698,15 @@ const executeDeepResearchCore = async (
           citations: Object.keys(report.citations || {}).length,
           qualityScore: report.qualityMetrics?.completenessScore,
         });
+
+        const shortfalls = getCitationShortfalls(report.sections, reportTemplate);
+        if (shortfalls.length > 0) {
+          addInsight(
+            `${shortfalls.length} section(s) below the template's citation minimum: ${shortfalls.map((s) => s.title).join(', ')}`,
+            'synthesis',
+            'Report Quality'
+          );
+        }
       } catch (error) {
         clearInterval(heartbeatInterval);
         console.error('[DeepResearch] DeepSeek template synthesis error:', error);
@@ -0,0 +1,149 @@
+// Alert Service
+// API client for risk alert rules, plus parsing alert requests typed in chat
+
+import type {
+  AlertFrequency,
+  AlertRuleInput,
+  AlertRuleWithSupplier,
+} from '../types/alerts';
+import type { Supplier } from '../types/supplier';
+import { apiFetch } from './api';
+
+const API_BASE = '/api/alerts';
+
+// ============================================================================
+// API CLIENT
+// ============================================================================
+
+export async function listAlertRules(supplierId?: string): Promise<AlertRuleWithSupplier[]> {
+  const query = supplierId ? `?supplierId=${encodeURIComponent(supplierId)}` : '';
+  const { rules } = await apiFetch<{ rules: AlertRuleWithSupplier[] }>(`${API_BASE}${query}`);
+  return rules;
+}
+
+export async function createAlertRule(input: AlertRuleInput): Promise<AlertRuleWithSupplier> {
+  const { rule } = await apiFetch<{ rule: AlertRuleWithSupplier }>(API_BASE, {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+  return rule;
+}
+
+export async function updateAlertRule(id: string, changes: Partial<AlertRuleInput>): Promise<AlertRuleWithSupplier> {
+  const { rule } = await apiFetch<{ rule: AlertRuleWithSupplier }>(`${API_BASE}/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes),
+  });
+  return rule;
+}
+
+export async function deleteAlertRule(id: string): Promise<void> {
+  await apiFetch<{ success: boolean }>(`${API_BASE}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+// ============================================================================
+// CHAT PARSING
+// ============================================================================
+
+export interface ChatAlertRequest {
+  supplier: Supplier | null;
+  // Set once the message names a trigger; without one the alert form opens instead
+  input: AlertRuleInput | null;
+}
+
+const ALERT_REQUEST_PATTERN = /\b(alerts?|notify|notifications?|warn)\b/i;
+
+const THRESHOLD_PATTERN = /\b(above|over|exceeds?|higher than|greater than|below|under|less than|lower than|drops? below|falls? below)\s+(?:a\s+)?(?:risk\s+)?(?:score\s+)?(?:of\s+)?(\d{1,3})\b/i;
+const PERCENT_PATTERN = /\b(\d{1,3})\s*(?:%|percent)/i;
+const ANY_CHANGE_PATTERN = /\b(any|every)\s+(?:risk\s+)?(?:score\s+)?changes?\b|\bwhenever\b.*\bchanges?\b/i;
+
+export function isAlertRequest(message: string): boolean {
+  return ALERT_REQUEST_PATTERN.test(message);
+}
+
+/**
+ * Read an alert rule out of a chat message, e.g.
+ * "alert me daily if Apple's risk score goes above 70" or
+ * "notify me when any supplier changes by 15%".
+ * Suppliers are matched by full name; no supplier means the whole portfolio.
+ */
+export function parseAlertRequest(message: string, suppliers: Supplier[]): ChatAlertRequest {
+  const lower = message.toLowerCase();
+  const supplier = [...suppliers]
+    .sort((a, b) => b.name.length - a.name.length)
+    .find((s) => {
+      const name = s.name.toLowerCase();
+      // "Apple Inc." is usually typed as "Apple"
+      const shortName = name.replace(/[,.]?\s+(inc|corp|corporation|ltd|llc|co|plc|gmbh|ag|sa)\.?$/, '');
+      return lower.includes(name) || (shortName.length >= 3 && new RegExp(`\\b${escapeRegExp(shortName)}\\b`).test(lower));
+    }) ?? null;
+
+  const frequency: AlertFrequency = /\bweekly\b/.test(lower) ? 'weekly' : /\bdaily\b/.test(lower) ? 'daily' : 'immediate';
+  const channels = { email: /\be-?mail\b/.test(lower), push: false, inApp: true };
+  const target = supplier?.name ?? 'Portfolio';
+
+  const base = {
+    supplierId: supplier?.id ?? null,
+    supplierName: supplier?.name,
+    frequency,
+    channels,
+  };
+
+  const threshold = message.match(THRESHOLD_PATTERN);
+  if (threshold) {
+    const value = Number(threshold[2]);
+    if (value <= 100) {
+      const direction = /below|under|less|lower|drop|fall/i.test(threshold[1]) ? 'below' : 'above';
+      return {
+        supplier,
+        input: {
+          ...base,
+          name: `${target} risk ${direction} ${value}`,
+          triggerType: 'threshold',
+          thresholdValue: value,
+          thresholdDirection: direction,
+        },
+      };
+    }
+  }
+
+  const percent = message.match(PERCENT_PATTERN);
+  if (percent) {
+    const value = Number(percent[1]);
+    if (value >= 1 && value <= 100) {
+      return {
+        supplier,
+        input: { ...base, name: `${target} risk change ${value}%`, triggerType: 'change', changePercent: value },
+      };
+    }
+  }
+
+  if (ANY_CHANGE_PATTERN.test(message)) {
+    return {
+      supplier,
+      input: { ...base, name: `${target} risk change`, triggerType: 'any_change' },
+    };
+  }
+
+  return { supplier, input: null };
+}
+
+/**
+ * Plain-language description of a rule for chat confirmations
+ */
+export function describeAlertRule(input: AlertRuleInput): string {
+  const target = input.supplierName ? `${input.supplierName}'s risk score` : 'the risk score of any supplier you follow';
+  const condition = input.triggerType === 'threshold'
+    ? `${target} ${input.thresholdDirection === 'below' ? 'falls below' : 'rises above'} ${input.thresholdValue}`
+    : input.triggerType === 'change'
+      ? `${target} changes by ${input.changePercent}% or more`
+      : `${target} changes`;
+  const delivery = input.frequency === 'immediate'
+    ? 'right away'
+    : input.frequency === 'daily' ? 'in a daily digest' : 'in a weekly digest';
+  return `when ${condition}, ${delivery}${input.channels.email ? ' by email and' : ''} in your notifications`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
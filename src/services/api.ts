@@ -5,7 +5,7 @@ const API_BASE = '';
 /**
  * Get CSRF token from cookie
  */
-function getCsrfToken(): string | null {
+export function getCsrfToken(): string | null {
   if (typeof document === 'undefined') return null;
 
   const match = document.cookie.match(/(?:^|;\s*)abi_csrf=([^;]*)/);
@@ -16,6 +16,10 @@ import type {
   GetRequestsResponse,
   ApprovalQueueResponse,
   RequestWithEvents,
+  ApprovalDelegation,
+  GetDelegationsResponse,
+  CreateDelegationPayload,
+  FulfillRequestPayload,
 } from '../types/requests';
 import { getApprovalLevel, APPROVAL_THRESHOLDS } from '../types/requests';
 import { apiFetch } from './api';
@@ -308,6 +312,19 @@ export async function cancelRequest(requestId: string): Promise<CancelRequestRes
   };
 }
 
+/**
+ * Mark an approved request as fulfilled (by an approver or analyst)
+ */
+export async function fulfillRequest(
+  requestId: string,
+  payload: FulfillRequestPayload = {}
+): Promise<void> {
+  await apiFetch(`${API_BASE}/${requestId}/fulfill`, {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+}
+
 /**
  * Get request by ID with events
  */
@@ -418,6 +435,42 @@ export async function getPendingApprovalCount(): Promise<number> {
   return queue.totalPending;
 }
 
+// ============================================================================
+// DELEGATION (Out of office)
+// ============================================================================
+
+/**
+ * Get delegations given and received by the current user, plus who can cover
+ */
+export async function getDelegations(): Promise<GetDelegationsResponse> {
+  if (USE_REAL_API) {
+    return apiFetch<GetDelegationsResponse>(`${API_BASE}/delegations`);
+  }
+
+  // Mock: nothing delegated
+  return { outgoing: [], incoming: [], candidates: [] };
+}
+
+/**
+ * Delegate the current user's approval queue for a date range
+ */
+export async function createDelegation(
+  payload: CreateDelegationPayload
+): Promise<ApprovalDelegation> {
+  const data = await apiFetch<{ delegation: ApprovalDelegation }>(`${API_BASE}/delegations`, {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+  return data.delegation;
+}
+
+/**
+ * Revoke a delegation before it ends
+ */
+export async function revokeDelegation(delegationId: string): Promise<void> {
+  await apiFetch(`${API_BASE}/delegations/${delegationId}`, { method: 'DELETE' });
+}
+
 // ============================================================================
 // ESCALATION & EXPIRATION (would be handled by background jobs)
 // ============================================================================
@@ -19,6 +19,8 @@ interface ArtifactContext {
   riskChanges?: RiskChange[];
   // Inflation widget data - passed from widget.data
   widgetData?: Record<string, unknown>;
+  // Filters from the AI response's artifact, e.g. { view: 'import' }
+  filters?: Record<string, unknown>;
 }
 
 const artifactTypeMap: Record<string, ArtifactType> = {
@@ -326,6 +328,41 @@ export function buildArtifactPayload(
       } as ArtifactPayload;
     }
 
+    case 'alert_config': {
+      // Without a supplier the alert covers the whole portfolio
+      const supplier = suppliers[0];
+      return {
+        type: 'alert_config',
+        supplierId: supplier?.id,
+        supplierName: supplier?.name,
+        currentScore: supplier?.srs?.score,
+      } as ArtifactPayload;
+    }
+
+    case 'watchlist_manage': {
+      // A named supplier opens on the search tab, ready to follow
+      const supplier = suppliers[0];
+      return {
+        type: 'watchlist_manage',
+        supplierId: supplier?.id,
+        supplierName: supplier?.name,
+        view: context.filters?.view === 'import' ? 'import' : undefined,
+      } as ArtifactPayload;
+    }
+
+    case 'assessment_request': {
+      if (suppliers.length === 0) return null;
+      const supplier = suppliers[0];
+      return {
+        type: 'assessment_request',
+        supplierId: supplier.id,
+        supplierName: supplier.name,
+        currentScore: supplier.srs?.level === 'unrated' ? null : supplier.srs?.score,
+        riskLevel: supplier.srs?.level,
+        lastUpdated: supplier.srs?.lastUpdated,
+      } as ArtifactPayload;
+    }
+
     // ============================================
     // INFLATION ARTIFACTS
     // ============================================
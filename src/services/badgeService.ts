@@ -8,6 +8,7 @@ import {
   answers,
   profiles,
   votes,
+  notifications,
 } from '../db/schema.js';
 import type {
   Badge,
@@ -339,7 +340,7 @@ export async function awardBadge(
 ): Promise<boolean> {
   // Get badge
   const badge = await db
-    .select({ id: badges.id })
+    .select({ id: badges.id, name: badges.name, tier: badges.tier })
     .from(badges)
     .where(eq(badges.slug, badgeSlug))
     .limit(1);
@@ -363,6 +364,19 @@ export async function awardBadge(
     badgeId: badge[0].id,
   });
 
+  // Best-effort: the badge is awarded either way
+  try {
+    await db.insert(notifications).values({
+      userId,
+      type: 'badge_awarded',
+      title: 'New Badge Earned!',
+      description: `You earned the ${badge[0].name} badge.`,
+      metadata: { badgeTier: badge[0].tier as BadgeTier, badgeSlug },
+    });
+  } catch (err) {
+    console.error(`Failed to create badge_awarded notification for ${userId}:`, err);
+  }
+
   return true;
 }
 
@@ -9,6 +9,7 @@ import {
   questionTags,
   profiles,
   reputationLog,
+  notifications,
 } from '../db/schema.js';
 import type {
   DbQuestion,
@@ -532,7 +533,7 @@ export async function createAnswer(
 
   // Verify question exists
   const question = await db
-    .select({ id: questions.id })
+    .select({ id: questions.id, userId: questions.userId, title: questions.title })
     .from(questions)
     .where(eq(questions.id, questionId))
     .limit(1);
@@ -560,6 +561,23 @@ export async function createAnswer(
     })
     .where(eq(questions.id, questionId));
 
+  // Let the asker know, unless they answered their own question. Best-effort:
+  // the answer is already saved, so a failed notification must not fail the request
+  if (question[0].userId && question[0].userId !== userId) {
+    try {
+      await db.insert(notifications).values({
+        userId: question[0].userId,
+        type: 'answer_received',
+        title: 'New Answer',
+        description: `Your question "${question[0].title}" has a new answer.`,
+        metadata: { questionId, answerId: newAnswer.id },
+        action: { label: 'View Answer', onClick: 'view_question' },
+      });
+    } catch (err) {
+      console.error(`Failed to create answer_received notification for ${question[0].userId}:`, err);
+    }
+  }
+
   // Get profile for response
   const profileResult = await db
     .select()
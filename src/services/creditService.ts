@@ -1,6 +1,7 @@
 // Credit Service - Fetch live credit balance and transactions from API
 import type { CompanySubscription, CreditTransaction, SubscriptionTier } from '../types/subscription';
 import { SUBSCRIPTION_TIERS } from '../types/subscription';
+import type { TeamBalance, CreditUsageAnalytics, UsageGranularity } from '../types/creditLedger';
 
 // API response type (matches api/_middleware/credits.ts AccountBalance)
 interface AccountBalance {
@@ -16,6 +17,7 @@ interface AccountBalance {
   subscriptionTier: string;
   subscriptionEnd: string;
   daysRemaining: number;
+  teamBalance?: TeamBalance | null;
 }
 
 // API transaction type
@@ -76,6 +78,24 @@ export async function fetchTransactions(limit = 10): Promise<TransactionsRespons
   return response.json();
 }
 
+export async function fetchUsageAnalytics(
+  granularity: UsageGranularity = 'week'
+): Promise<CreditUsageAnalytics> {
+  const response = await fetch(`${API_BASE}/api/credits/analytics?granularity=${granularity}`, {
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || error.error || 'Failed to fetch usage analytics');
+  }
+
+  return response.json();
+}
+
 // ══════════════════════════════════════════════════════════════════
 // Data Transformers
 // ══════════════════════════════════════════════════════════════════
@@ -146,6 +166,7 @@ export function mapApiTransaction(tx: ApiTransaction): CreditTransaction {
 export async function fetchCreditData(): Promise<{
   subscription: CompanySubscription;
   transactions: CreditTransaction[];
+  teamBalance: TeamBalance | null;
 }> {
   const [balance, txResponse] = await Promise.all([
     fetchBalance(),
@@ -155,5 +176,6 @@ export async function fetchCreditData(): Promise<{
   return {
     subscription: mapBalanceToSubscription(balance),
     transactions: txResponse.transactions.map(mapApiTransaction),
+    teamBalance: balance.teamBalance ?? null,
   };
 }
@@ -11,6 +11,7 @@ import type {
 } from '../types/deepResearch';
 import { MOCK_MANAGED_CATEGORIES } from './mockCategories';
 import { MOCK_SUPPLIERS } from './mockData';
+import { llmFetch, isLlmProviderAvailable } from './llmGateway';
 
 // ============================================
 // TYPES
@@ -900,10 +901,9 @@ export function generateClarifyingQuestions(context: IntakeContext): DynamicInta
 // LAYER 2: LLM-ENHANCED QUESTIONS (OPTIONAL)
 // ============================================
 
-// Gemini API constants (imported indirectly to avoid circular deps)
-const GEMINI_API_KEY = import.meta.env.VITE_GOOGLE_AI_API_KEY || '';
-const GEMINI_MODEL = import.meta.env.VITE_GEMINI_MODEL || 'gemini-2.5-flash';
-const GEMINI_API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent`;
+// Gemini model (defined here rather than imported to avoid circular deps).
+// import.meta.env only exists under Vite; the research worker loads this module in Node.
+const GEMINI_MODEL = (import.meta as { env?: Record<string, string | undefined> }).env?.VITE_GEMINI_MODEL || 'gemini-2.5-flash';
 
 const tryParseJsonLoose = (text: string): unknown | null => {
   // Strip markdown fences/backticks
@@ -961,7 +961,7 @@ export async function enhanceQuestionsWithLLM(
   context: IntakeContext,
   baseQuestions: DynamicQuestion[]
 ): Promise<DynamicQuestion[]> {
-  if (!GEMINI_API_KEY || baseQuestions.length === 0) {
+  if (!isLlmProviderAvailable('gemini') || baseQuestions.length === 0) {
     return baseQuestions;
   }
 
@@ -996,11 +996,10 @@ Rules:
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), 10000);
 
-    const response = await fetch(GEMINI_API_URL + `?key=${GEMINI_API_KEY}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+    const response = await llmFetch('gemini', {
+      model: GEMINI_MODEL,
       signal: controller.signal,
-      body: JSON.stringify({
+      payload: {
         contents: [{ parts: [{ text: prompt }] }],
         generationConfig: {
           temperature: 0.3,
@@ -1020,7 +1019,7 @@ Rules:
             },
           },
         },
-      }),
+      },
     });
 
     clearTimeout(timeout);
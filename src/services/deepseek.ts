@@ -1,14 +1,12 @@
 // DeepSeek R1 API Service for deep reasoning and synthesis
 // Used for synthesizing research findings into comprehensive reports
 // Gemini Flash used for structured JSON extraction (visual data, titles)
+// Both providers are reached through the /api/llm gateway
 
-const DEEPSEEK_API_KEY = import.meta.env.VITE_DEEPSEEK_API_KEY || '';
-const DEEPSEEK_API_URL = 'https://api.deepseek.com/chat/completions';
+import { llmFetch, isLlmProviderAvailable } from './llmGateway';
 
-const GEMINI_API_KEY = import.meta.env.VITE_GOOGLE_AI_API_KEY || '';
 // Must match the working model in gemini.ts — preview model gemini-2.5-flash-preview-05-20 is deprecated (404)
 const GEMINI_FLASH_MODEL = 'gemini-3-flash-preview';
-const GEMINI_FLASH_URL = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_FLASH_MODEL}:generateContent`;
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type GeminiSchema = Record<string, any>;
@@ -25,8 +23,8 @@ const callGeminiJSON = async <T>(
 ): Promise<T | null> => {
   const { maxTokens = 2000, temperature = 0.2, timeoutMs = 30000 } = options || {};
 
-  if (!GEMINI_API_KEY) {
-    console.warn('[GeminiJSON] ⚠️ VITE_GOOGLE_AI_API_KEY not configured — visual extraction & title rewrite will fall back to DeepSeek V3 (less reliable JSON output)');
+  if (!isLlmProviderAvailable('gemini')) {
+    console.warn('[GeminiJSON] ⚠️ Gemini not available via the gateway — visual extraction & title rewrite will fall back to DeepSeek V3 (less reliable JSON output)');
     return null;
   }
 
@@ -34,11 +32,10 @@ const callGeminiJSON = async <T>(
   const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
   try {
-    const response = await fetch(GEMINI_FLASH_URL + `?key=${GEMINI_API_KEY}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+    const response = await llmFetch('gemini', {
+      model: GEMINI_FLASH_MODEL,
       signal: controller.signal,
-      body: JSON.stringify({
+      payload: {
         contents: [{ parts: [{ text: prompt }] }],
         generationConfig: {
           temperature,
@@ -46,7 +43,7 @@ const callGeminiJSON = async <T>(
           responseMimeType: 'application/json',
           responseSchema: schema,
         },
-      }),
+      },
     });
 
     clearTimeout(timeout);
@@ -163,8 +160,8 @@ export const callDeepSeek = async (
 ): Promise<DeepSeekResponse> => {
   const { maxTokens = 4000, temperature = 0.3, stream = false, onStream, model = 'deepseek-reasoner', timeoutMs = 120000 } = options || {};
 
-  if (!DEEPSEEK_API_KEY) {
-    console.warn('[DeepSeek] API key not configured');
+  if (!isLlmProviderAvailable('deepseek')) {
+    console.warn('[DeepSeek] Not available via the gateway');
     throw new Error('DeepSeek API key not configured');
   }
 
@@ -172,21 +169,16 @@ export const callDeepSeek = async (
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
   try {
-    const response = await fetch(DEEPSEEK_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${DEEPSEEK_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model,
+    const response = await llmFetch('deepseek', {
+      model,
+      payload: {
         messages,
         max_tokens: maxTokens,
         temperature,
-        stream,
         // Note: V3 supports response_format but it enforces JSON *object* (not arrays).
         // We rely on prompt instructions instead since visual extraction needs arrays.
-      }),
+      },
+      stream,
       signal: controller.signal,
     });
 
@@ -378,7 +370,7 @@ Please synthesize these findings into a comprehensive ${studyType.replace('_', '
  * Check if DeepSeek API is configured
  */
 export const isDeepSeekConfigured = (): boolean => {
-  return Boolean(DEEPSEEK_API_KEY);
+  return isLlmProviderAvailable('deepseek');
 };
 
 /**
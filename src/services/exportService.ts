@@ -0,0 +1,34 @@
+// Export Service
+// API client for generating supplier, portfolio and comparison exports and re-downloading them
+
+import type { ExportJob, ExportRequest } from '../types/exports';
+import { apiFetch } from './api';
+
+const EXPORTS_BASE = '/api/exports';
+
+export async function createExport(request: ExportRequest): Promise<ExportJob> {
+  const { job } = await apiFetch<{ job: ExportJob }>(EXPORTS_BASE, {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+  return job;
+}
+
+export async function listExports(): Promise<ExportJob[]> {
+  const { jobs } = await apiFetch<{ jobs: ExportJob[] }>(EXPORTS_BASE);
+  return jobs;
+}
+
+/**
+ * Start a browser download of a generated file. The endpoint sends it as an
+ * attachment, so following the link doesn't navigate away.
+ */
+export function downloadExport(job: ExportJob): void {
+  if (!job.downloadUrl) return;
+  const link = document.createElement('a');
+  link.href = job.downloadUrl;
+  link.download = job.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+}
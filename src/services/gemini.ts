@@ -42,10 +42,10 @@ import { transformSupplierToRiskCardData, transformRiskChangesToAlertData } from
 import { getWidgetRouteFromRegistry, type AIContentSlots } from './widgetRouter';
 import { createSeededRandom, SEEDS } from '../utils/seededRandom';
 import { getSourceReportData } from '../utils/sources';
+import { llmFetch, isLlmProviderAvailable } from './llmGateway';
 
-const GEMINI_API_KEY = import.meta.env.VITE_GOOGLE_AI_API_KEY || '';
+// Requests go through the /api/llm gateway; the API key stays on the server
 const GEMINI_MODEL = 'gemini-3-flash-preview'; // Gemini 3 Flash Preview (latest fast model)
-const GEMINI_API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent`;
 
 // ============================================
 // JSON PARSING UTILITIES (robust parsing)
@@ -521,17 +521,12 @@ export const callGemini = async (
   const timeoutId = setTimeout(() => controller.abort(), 20000); // 20 second timeout
 
   try {
-    console.log('[Gemini] Making API call to:', GEMINI_API_URL);
-    console.log('[Gemini] API Key configured:', Boolean(GEMINI_API_KEY));
+    console.log('[Gemini] Making API call via gateway');
     console.log('[Gemini] Model:', GEMINI_MODEL);
 
-    const response = await fetch(GEMINI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-goog-api-key': GEMINI_API_KEY,
-      },
-      body: JSON.stringify(requestBody),
+    const response = await llmFetch('gemini', {
+      model: GEMINI_MODEL,
+      payload: requestBody,
       signal: controller.signal,
     });
 
@@ -1050,13 +1045,9 @@ async function generateAIContent(
   const timeoutId = setTimeout(() => controller.abort(), 20000); // 20 second timeout
 
   try {
-    const response = await fetch(GEMINI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-goog-api-key': GEMINI_API_KEY,
-      },
-      body: JSON.stringify(requestBody),
+    const response = await llmFetch('gemini', {
+      model: GEMINI_MODEL,
+      payload: requestBody,
       signal: controller.signal,
     });
 
@@ -1240,6 +1231,31 @@ function buildWidgetData(
         },
       };
 
+    case 'trend_chart': {
+      if (!data.targetSupplier) return undefined;
+      // The widget loads dated history by supplierId; these recent scores are the fallback
+      const scores = data.targetSupplier.srs?.scoreHistory?.length
+        ? data.targetSupplier.srs.scoreHistory
+        : [data.targetSupplier.srs?.score ?? 0];
+      const delta = scores[scores.length - 1] - scores[0];
+      return {
+        type: 'trend_chart',
+        title: `${data.targetSupplier.name} Risk Score History`,
+        data: {
+          title: `${data.targetSupplier.name} Risk Score History`,
+          supplierId: data.targetSupplier.id,
+          dataPoints: scores.map((value, i) => ({
+            date: i === scores.length - 1 ? 'Now' : `-${scores.length - 1 - i}`,
+            value,
+          })),
+          changeDirection: delta > 0 ? 'up' : delta < 0 ? 'down' : 'stable',
+          changeSummary: delta === 0
+            ? `Unchanged at ${scores[scores.length - 1]}`
+            : `${delta > 0 ? '+' : ''}${delta} across the last ${scores.length} scores`,
+        },
+      };
+    }
+
     // Inflation widgets
     case 'inflation_summary_card':
       if (!data.inflationSummary) return undefined;
@@ -2769,7 +2785,7 @@ export const decomposeResearchQuery = async (
     return fallback;
   };
 
-  if (!GEMINI_API_KEY) {
+  if (!isLlmProviderAvailable('gemini')) {
     return useFallback('Gemini not configured');
   }
 
@@ -2798,11 +2814,10 @@ Rules:
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), 15000);
 
-    const response = await fetch(GEMINI_API_URL + `?key=${GEMINI_API_KEY}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+    const response = await llmFetch('gemini', {
+      model: GEMINI_MODEL,
       signal: controller.signal,
-      body: JSON.stringify({
+      payload: {
         contents: [{ parts: [{ text: prompt }] }],
         generationConfig: {
           temperature: 0.3,
@@ -2831,7 +2846,7 @@ Rules:
             required: ['agents'],
           },
         },
-      }),
+      },
     });
 
     clearTimeout(timeout);
@@ -2947,7 +2962,7 @@ export const fetchBeroeIntelligence = async (
 
   const toReportUrl = (name: string) => `?report=${encodeURIComponent(toReportId(name))}`;
 
-  if (!GEMINI_API_KEY) {
+  if (!isLlmProviderAvailable('gemini')) {
     console.warn('[BeroeIntel] Gemini not configured');
     return empty;
   }
@@ -2979,17 +2994,16 @@ Be specific and factual. This will be used alongside web research in a comprehen
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), 30000);
 
-    const response = await fetch(GEMINI_API_URL + `?key=${GEMINI_API_KEY}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+    const response = await llmFetch('gemini', {
+      model: GEMINI_MODEL,
       signal: controller.signal,
-      body: JSON.stringify({
+      payload: {
         contents: [{ parts: [{ text: prompt }] }],
         generationConfig: {
           temperature: 0.4,
           maxOutputTokens: 3000,
         },
-      }),
+      },
     });
 
     clearTimeout(timeout);
@@ -3085,5 +3099,5 @@ Be specific and factual. This will be used alongside web research in a comprehen
 
 // Utility to check if API key is configured
 export const isGeminiConfigured = (): boolean => {
-  return Boolean(GEMINI_API_KEY);
+  return isLlmProviderAvailable('gemini');
 };
@@ -10,16 +10,15 @@ import type {
 } from '../types/hybridResponse';
 import type { DetectedIntent } from '../types/intents';
 import { buildHybridSources } from './hybridDataFetcher';
+import { llmFetch, isLlmProviderAvailable } from './llmGateway';
 
 // ============================================
 // GEMINI API CONFIGURATION
 // ============================================
 
-const GEMINI_API_KEY = import.meta.env.VITE_GOOGLE_AI_API_KEY || '';
 // gemini-2.5-flash: Stable production model with full JSON mode support
 // gemini-3-flash-preview: Latest but in preview (use when stable)
 const GEMINI_MODEL = 'gemini-2.5-flash';
-const GEMINI_API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent`;
 
 // ============================================
 // SYNTHESIS PROMPT TEMPLATE
@@ -236,7 +235,7 @@ async function callSynthesisLLM(
   prompt: string,
   evidencePool: Citation[]
 ): Promise<{ content: string; agreementLevel?: string; keyInsight?: string }> {
-  if (!GEMINI_API_KEY) {
+  if (!isLlmProviderAvailable('gemini')) {
     throw new Error('Gemini API key not configured');
   }
 
@@ -271,13 +270,9 @@ async function callSynthesisLLM(
   const timeoutId = setTimeout(() => controller.abort(), 20000); // 20 second timeout
 
   try {
-    const response = await fetch(GEMINI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-goog-api-key': GEMINI_API_KEY,
-      },
-      body: JSON.stringify(requestBody),
+    const response = await llmFetch('gemini', {
+      model: GEMINI_MODEL,
+      payload: requestBody,
       signal: controller.signal,
     });
 
@@ -323,7 +318,7 @@ async function callSynthesisLLM(
 async function repairJsonResponse(
   malformedText: string
 ): Promise<{ content: string; agreementLevel?: string; keyInsight?: string }> {
-  if (!GEMINI_API_KEY) {
+  if (!isLlmProviderAvailable('gemini')) {
     throw new Error('Gemini API key not configured');
   }
 
@@ -342,13 +337,9 @@ async function repairJsonResponse(
   const timeoutId = setTimeout(() => controller.abort(), 10000);
 
   try {
-    const response = await fetch(GEMINI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-goog-api-key': GEMINI_API_KEY,
-      },
-      body: JSON.stringify(requestBody),
+    const response = await llmFetch('gemini', {
+      model: GEMINI_MODEL,
+      payload: requestBody,
       signal: controller.signal,
     });
 
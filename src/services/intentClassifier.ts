@@ -0,0 +1,201 @@
+// Intent Classifier - Structured-output LLM classification through the gateway,
+// falling back to the regex classifier when the model is offline or unsure
+
+import {
+  buildDetectedIntent,
+  classifyIntent,
+  extractEntities,
+  ENTITY_REGIONS,
+  INTENT_CATEGORIES,
+  type DetectedIntent,
+  type EntityRegion,
+  type IntentCategory,
+} from '../types/intents';
+import { llmFetch, isLlmProviderAvailable } from './llmGateway';
+
+const CLASSIFIER_MODEL = 'gemini-2.5-flash';
+const CLASSIFIER_TIMEOUT_MS = 4000;
+
+// Below this the regex result is used instead, unless it only found `general`
+export const MIN_LLM_CONFIDENCE = 0.5;
+
+// One line per category for the prompt; the inflation/market split is where routing goes wrong most
+const INTENT_DESCRIPTIONS: Record<IntentCategory, string> = {
+  portfolio_overview: 'Overall risk posture of the user\'s supplier portfolio ("What\'s my risk exposure?")',
+  filtered_discovery: 'List or filter the user\'s suppliers by risk level, region, category or attribute',
+  supplier_deep_dive: 'One named supplier: profile, score, history or news',
+  trend_detection: 'Recent changes in supplier risk scores or alerts - not commodity prices',
+  explanation_why: 'Why a supplier has its risk score, or how scores are calculated',
+  action_trigger: 'What to do about supplier risk: alternatives, mitigation plans, next steps',
+  comparison: 'Compare or rank two or more suppliers',
+  setup_config: 'Set up alerts, follow/unfollow suppliers, import or add suppliers',
+  reporting_export: 'Export, download or generate a report of supplier data',
+  market_context: 'General market, industry or geopolitical conditions and news, with no specific price movement, cost impact or price validation asked for',
+  restricted_query: 'Individual factor scores or a factor-level breakdown of a supplier\'s risk score',
+  inflation_summary: 'Which commodity prices changed and by how much over a period',
+  inflation_drivers: 'Why a specific commodity price moved, or its price trend',
+  inflation_impact: 'How price changes affect the user\'s own spend, budget or suppliers',
+  inflation_justification: 'Whether a supplier\'s price increase is justified, or how to negotiate it',
+  inflation_scenarios: 'What-if price scenarios and price forecasts',
+  inflation_communication: 'Explaining price changes to leadership, stakeholders or suppliers',
+  inflation_benchmark: 'Whether a price or increase is normal compared to the market',
+  general: 'Anything else, including greetings and questions unrelated to suppliers or prices',
+};
+
+interface ClassifierOutput {
+  category: string;
+  confidence: number;
+  entities?: {
+    supplierName?: string;
+    supplierNames?: string[];
+    riskLevel?: string;
+    region?: string;
+    category?: string;
+    commodity?: string;
+    timeframe?: string;
+  };
+}
+
+const CLASSIFIER_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    category: { type: 'STRING', enum: INTENT_CATEGORIES },
+    confidence: { type: 'NUMBER' },
+    entities: {
+      type: 'OBJECT',
+      properties: {
+        supplierName: { type: 'STRING' },
+        supplierNames: { type: 'ARRAY', items: { type: 'STRING' } },
+        riskLevel: { type: 'STRING', enum: ['high', 'medium-high', 'medium', 'low'] },
+        region: { type: 'STRING', enum: [...ENTITY_REGIONS] },
+        category: { type: 'STRING' },
+        commodity: { type: 'STRING' },
+        timeframe: { type: 'STRING' },
+      },
+    },
+  },
+  required: ['category', 'confidence'],
+};
+
+const buildClassifierPrompt = (query: string): string => `Classify a procurement risk assistant user's message into exactly one intent category.
+
+CATEGORIES:
+${INTENT_CATEGORIES.map((category) => `- ${category}: ${INTENT_DESCRIPTIONS[category]}`).join('\n')}
+
+Also extract any entities the message mentions: supplier name(s), risk level, region (one of ${ENTITY_REGIONS.join(', ')}), supplier category, commodity, and timeframe. Leave out anything not mentioned.
+
+Set confidence from 0 to 1 - how sure you are the category is right.
+
+MESSAGE: ${JSON.stringify(query)}`;
+
+// ============================================
+// PARSING
+// ============================================
+
+const isIntentCategory = (value: unknown): value is IntentCategory =>
+  typeof value === 'string' && (INTENT_CATEGORIES as string[]).includes(value);
+
+const isEntityRegion = (value: unknown): value is EntityRegion =>
+  typeof value === 'string' && (ENTITY_REGIONS as readonly string[]).includes(value);
+
+const nonEmpty = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/**
+ * Turn the model's JSON into a DetectedIntent. Model entities win over the
+ * regex ones, which still fill in anything the model left out (e.g. action).
+ * Returns null for output that doesn't name a known category.
+ */
+export function parseClassifierOutput(text: string, query: string): DetectedIntent | null {
+  let output: ClassifierOutput;
+  try {
+    output = JSON.parse(text) as ClassifierOutput;
+  } catch {
+    return null;
+  }
+
+  if (!output || !isIntentCategory(output.category) || typeof output.confidence !== 'number') {
+    return null;
+  }
+
+  const modelEntities = output.entities ?? {};
+  const entities: DetectedIntent['extractedEntities'] = { ...extractEntities(query.toLowerCase().trim()) };
+  const supplierName = nonEmpty(modelEntities.supplierName);
+  const supplierNames = Array.isArray(modelEntities.supplierNames)
+    ? modelEntities.supplierNames.map(nonEmpty).filter((name): name is string => Boolean(name))
+    : [];
+
+  if (supplierName) entities.supplierName = supplierName;
+  if (supplierNames.length > 0) entities.supplierNames = supplierNames;
+  if (nonEmpty(modelEntities.riskLevel)) entities.riskLevel = nonEmpty(modelEntities.riskLevel)!.toLowerCase();
+  if (isEntityRegion(modelEntities.region)) entities.region = modelEntities.region;
+  if (nonEmpty(modelEntities.category)) entities.category = nonEmpty(modelEntities.category);
+  if (nonEmpty(modelEntities.commodity)) entities.commodity = nonEmpty(modelEntities.commodity);
+  if (nonEmpty(modelEntities.timeframe)) entities.timeframe = nonEmpty(modelEntities.timeframe);
+
+  const confidence = Math.min(1, Math.max(0, output.confidence));
+  return { ...buildDetectedIntent(query, output.category, confidence, entities), classifiedBy: 'llm' };
+}
+
+// ============================================
+// CLASSIFICATION
+// ============================================
+
+const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * Classify a message with the LLM, falling back to `classifyIntent` when the
+ * gateway is unavailable, the call fails or times out, or the model is unsure.
+ */
+export async function classifyIntentWithLLM(
+  query: string,
+  options: { timeoutMs?: number } = {}
+): Promise<DetectedIntent> {
+  const fallback = classifyIntent(query);
+
+  if (!query.trim() || isOffline() || !isLlmProviderAvailable('gemini')) {
+    return fallback;
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), options.timeoutMs ?? CLASSIFIER_TIMEOUT_MS);
+
+  try {
+    const response = await llmFetch('gemini', {
+      model: CLASSIFIER_MODEL,
+      signal: controller.signal,
+      payload: {
+        contents: [{ parts: [{ text: buildClassifierPrompt(query) }] }],
+        generationConfig: {
+          temperature: 0,
+          maxOutputTokens: 512,
+          responseMimeType: 'application/json',
+          responseSchema: CLASSIFIER_SCHEMA,
+        },
+      },
+    });
+
+    if (!response.ok) {
+      console.warn('[IntentClassifier] Gateway error:', response.status);
+      return fallback;
+    }
+
+    const data = await response.json();
+    const text = data?.candidates?.[0]?.content?.parts?.[0]?.text;
+    const intent = typeof text === 'string' ? parseClassifierOutput(text, query) : null;
+
+    if (!intent) {
+      console.warn('[IntentClassifier] Unusable model output, using rules');
+      return fallback;
+    }
+    if (intent.confidence < MIN_LLM_CONFIDENCE && fallback.category !== 'general') {
+      return fallback;
+    }
+    return intent;
+  } catch (error) {
+    console.warn('[IntentClassifier] Classification failed, using rules:', error);
+    return fallback;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,129 @@
+// Intent Evaluation - Per-intent precision and recall of a classifier over labelled queries,
+// so routing changes can be measured before they ship
+
+import { INTENT_CATEGORIES, type DetectedIntent, type IntentCategory } from '../types/intents';
+
+export interface IntentFixture {
+  query: string;
+  expected: IntentCategory;
+  entities?: Partial<DetectedIntent['extractedEntities']>; // Entities that must be extracted
+}
+
+export interface IntentMetrics {
+  category: IntentCategory;
+  support: number; // Fixtures labelled with this category
+  predicted: number; // Fixtures the classifier put in this category
+  truePositives: number;
+  precision: number; // 1 when nothing was predicted, so unused categories don't drag the average
+  recall: number; // 1 when there is no support
+  f1: number;
+}
+
+export interface IntentMisroute {
+  query: string;
+  expected: IntentCategory;
+  actual: IntentCategory;
+}
+
+export interface IntentEvaluationReport {
+  total: number;
+  accuracy: number;
+  macroF1: number; // Over categories with support
+  perIntent: IntentMetrics[];
+  misroutes: IntentMisroute[];
+  entityMisses: Array<{ query: string; field: string; expected: unknown; actual: unknown }>;
+}
+
+type Classifier = (query: string) => DetectedIntent | Promise<DetectedIntent>;
+
+const ratio = (numerator: number, denominator: number): number =>
+  denominator === 0 ? 1 : numerator / denominator;
+
+/**
+ * Run every fixture through the classifier in order and score the results.
+ */
+export async function evaluateIntentClassifier(
+  fixtures: IntentFixture[],
+  classify: Classifier
+): Promise<IntentEvaluationReport> {
+  const misroutes: IntentMisroute[] = [];
+  const entityMisses: IntentEvaluationReport['entityMisses'] = [];
+  const predictedCounts = new Map<IntentCategory, number>();
+  const supportCounts = new Map<IntentCategory, number>();
+  const hitCounts = new Map<IntentCategory, number>();
+  const increment = (counts: Map<IntentCategory, number>, category: IntentCategory) =>
+    counts.set(category, (counts.get(category) ?? 0) + 1);
+
+  for (const fixture of fixtures) {
+    const intent = await classify(fixture.query);
+    increment(supportCounts, fixture.expected);
+    increment(predictedCounts, intent.category);
+
+    if (intent.category === fixture.expected) {
+      increment(hitCounts, fixture.expected);
+    } else {
+      misroutes.push({ query: fixture.query, expected: fixture.expected, actual: intent.category });
+    }
+
+    for (const [field, expected] of Object.entries(fixture.entities ?? {})) {
+      const actual = intent.extractedEntities[field as keyof DetectedIntent['extractedEntities']];
+      if (JSON.stringify(actual)?.toLowerCase() !== JSON.stringify(expected).toLowerCase()) {
+        entityMisses.push({ query: fixture.query, field, expected, actual });
+      }
+    }
+  }
+
+  const perIntent = INTENT_CATEGORIES
+    .filter((category) => supportCounts.has(category) || predictedCounts.has(category))
+    .map((category): IntentMetrics => {
+      const support = supportCounts.get(category) ?? 0;
+      const predicted = predictedCounts.get(category) ?? 0;
+      const truePositives = hitCounts.get(category) ?? 0;
+      const precision = ratio(truePositives, predicted);
+      const recall = ratio(truePositives, support);
+      const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+      return { category, support, predicted, truePositives, precision, recall, f1 };
+    });
+
+  const supported = perIntent.filter((metrics) => metrics.support > 0);
+
+  return {
+    total: fixtures.length,
+    accuracy: ratio(fixtures.length - misroutes.length, fixtures.length),
+    macroF1: supported.reduce((sum, metrics) => sum + metrics.f1, 0) / Math.max(1, supported.length),
+    perIntent,
+    misroutes,
+    entityMisses,
+  };
+}
+
+const percent = (value: number): string => `${(value * 100).toFixed(0)}%`.padStart(5);
+
+/**
+ * Plain-text table of the report for test output and PR descriptions
+ */
+export function formatIntentReport(report: IntentEvaluationReport): string {
+  const width = Math.max(...report.perIntent.map((metrics) => metrics.category.length), 'intent'.length);
+  const lines = [
+    `${'intent'.padEnd(width)}  prec  recall    f1  support`,
+    ...report.perIntent.map((metrics) => [
+      metrics.category.padEnd(width),
+      percent(metrics.precision),
+      ` ${percent(metrics.recall)}`,
+      percent(metrics.f1),
+      String(metrics.support).padStart(8),
+    ].join(' ')),
+    '',
+    `accuracy ${percent(report.accuracy).trim()} | macro F1 ${percent(report.macroF1).trim()} | ${report.total} queries`,
+  ];
+
+  if (report.misroutes.length > 0) {
+    lines.push('', 'misroutes:', ...report.misroutes.map((m) => `  ${m.expected} -> ${m.actual}: ${m.query}`));
+  }
+  if (report.entityMisses.length > 0) {
+    lines.push('', 'entity misses:', ...report.entityMisses.map((m) =>
+      `  ${m.field}: expected ${JSON.stringify(m.expected)}, got ${JSON.stringify(m.actual)} - ${m.query}`
+    ));
+  }
+  return lines.join('\n');
+}
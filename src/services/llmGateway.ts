@@ -0,0 +1,132 @@
+// LLM Gateway Client - Sends provider requests through /api/llm
+// Provider keys stay on the server; callers pass the provider-native payload
+// and get the provider-native Response back (JSON or an SSE stream).
+
+import { getCsrfToken } from './api';
+
+export type LlmProviderName = 'gemini' | 'perplexity' | 'deepseek';
+
+export interface LlmQuotaUsage {
+  used: number;
+  limit: number;
+}
+
+export interface LlmGatewayStatus {
+  providers: Record<LlmProviderName, boolean>;
+  quota: {
+    user: LlmQuotaUsage;
+    company: LlmQuotaUsage | null;
+    resetAt: string;
+  };
+}
+
+export interface LlmRequestOptions {
+  model: string;
+  payload: Record<string, unknown>;
+  stream?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * Where gateway calls go. The browser uses /api/llm; the research worker
+ * installs one that calls the providers directly.
+ */
+export interface LlmTransport {
+  send(provider: LlmProviderName, options: LlmRequestOptions): Promise<Response>;
+  isAvailable(provider: LlmProviderName): boolean;
+}
+
+const LLM_ENDPOINT = '/api/llm';
+
+// Re-check availability occasionally (sign-in, keys added)
+const STATUS_TTL = 5 * 60 * 1000;
+
+let cachedStatus: LlmGatewayStatus | null = null;
+let statusTimestamp = 0;
+let statusRequest: Promise<LlmGatewayStatus | null> | null = null;
+let statusUnavailable = false;
+let transport: LlmTransport | null = null;
+
+/**
+ * Route llmFetch and availability checks through another transport; pass null to restore /api/llm
+ */
+export function setLlmTransport(next: LlmTransport | null): void {
+  transport = next;
+}
+
+/**
+ * Call a provider through the gateway. Resolves with the raw Response so
+ * callers keep their existing ok/json/stream handling.
+ */
+export async function llmFetch(provider: LlmProviderName, options: LlmRequestOptions): Promise<Response> {
+  if (transport) {
+    return transport.send(provider, options);
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const csrfToken = getCsrfToken();
+  if (csrfToken) {
+    headers['X-CSRF-Token'] = csrfToken;
+  }
+
+  return fetch(LLM_ENDPOINT, {
+    method: 'POST',
+    headers,
+    credentials: 'include',
+    signal: options.signal,
+    body: JSON.stringify({
+      provider,
+      model: options.model,
+      payload: options.payload,
+      stream: options.stream ?? false,
+    }),
+  });
+}
+
+/**
+ * Fetch which providers the gateway can reach for the current user.
+ * Returns null when the gateway is unreachable or the user is signed out.
+ */
+export async function refreshLlmStatus(): Promise<LlmGatewayStatus | null> {
+  if (!statusRequest) {
+    statusRequest = fetch(LLM_ENDPOINT, { credentials: 'include' })
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`LLM gateway status: ${response.status}`);
+        }
+        cachedStatus = (await response.json()) as LlmGatewayStatus;
+        statusUnavailable = false;
+        return cachedStatus;
+      })
+      .catch(() => {
+        cachedStatus = null;
+        statusUnavailable = true;
+        return null;
+      })
+      .finally(() => {
+        statusTimestamp = Date.now();
+        statusRequest = null;
+      });
+  }
+  return statusRequest;
+}
+
+/**
+ * Synchronous availability check for routing decisions.
+ * Optimistic until the first status check returns - every caller already
+ * falls back to local data when a gateway call fails.
+ */
+export function isLlmProviderAvailable(provider: LlmProviderName): boolean {
+  if (transport) {
+    return transport.isAvailable(provider);
+  }
+
+  if (Date.now() - statusTimestamp > STATUS_TTL) {
+    void refreshLlmStatus();
+  }
+
+  if (cachedStatus) {
+    return cachedStatus.providers[provider] ?? false;
+  }
+  return !statusUnavailable;
+}
@@ -6,9 +6,9 @@ import { classifyIntent } from '../types/intents';
 import { getPortfolioSummary, MOCK_SUPPLIERS } from './mockData';
 import { extractJSONFromResponse } from './prompts';
 import { normalizeUrl } from '../utils/sources';
+import { llmFetch, isLlmProviderAvailable } from './llmGateway';
 
-const PERPLEXITY_API_KEY = import.meta.env.VITE_PERPLEXITY_API_KEY || '';
-const PERPLEXITY_API_URL = 'https://api.perplexity.ai/chat/completions';
+const PERPLEXITY_MODEL = 'sonar'; // Perplexity lightweight search model
 
 export interface PerplexityResponse {
   content: string;
@@ -215,21 +215,16 @@ export const callPerplexity = async (
 
   try {
     const requestBody = {
-      model: 'sonar', // Perplexity lightweight search model
       messages,
       temperature: 0.2,
       max_tokens: 2000,
     };
 
-    console.log('[Perplexity] Sending request with model:', requestBody.model);
+    console.log('[Perplexity] Sending request with model:', PERPLEXITY_MODEL);
 
-    const response = await fetch(PERPLEXITY_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${PERPLEXITY_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
+    const response = await llmFetch('perplexity', {
+      model: PERPLEXITY_MODEL,
+      payload: requestBody,
       signal: controller.signal,
     });
 
@@ -329,7 +324,7 @@ const generateFallbackResearchResponse = (
 
 // Utility to check if API key is configured
 export const isPerplexityConfigured = (): boolean => {
-  return Boolean(PERPLEXITY_API_KEY);
+  return isLlmProviderAvailable('perplexity');
 };
 
 // Research specific topics with Perplexity
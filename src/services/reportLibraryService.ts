@@ -0,0 +1,57 @@
+// Report Library Service
+// API client for saved deep research reports, their versions and refreshes
+
+import type {
+  DeepResearchResponse,
+  LibraryReport,
+  ReportDiff,
+  ReportLibraryFilters,
+  ResearchReportSummary,
+} from '../types/deepResearch';
+import { apiFetch } from './api';
+
+const REPORTS_BASE = '/api/reports';
+
+export async function listLibraryReports(filters: ReportLibraryFilters = {}): Promise<ResearchReportSummary[]> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  const query = params.toString();
+  const { reports } = await apiFetch<{ reports: ResearchReportSummary[] }>(
+    query ? `${REPORTS_BASE}?${query}` : REPORTS_BASE
+  );
+  return reports;
+}
+
+export async function getLibraryReport(
+  reportId: string
+): Promise<{ report: LibraryReport; versions: ResearchReportSummary[] }> {
+  return apiFetch<{ report: LibraryReport; versions: ResearchReportSummary[] }>(
+    `${REPORTS_BASE}/${encodeURIComponent(reportId)}`
+  );
+}
+
+/**
+ * Compare a version with another version of the same report,
+ * or with the one before it when against is omitted
+ */
+export async function getReportDiff(reportId: string, against?: string): Promise<ReportDiff> {
+  const query = against ? `?against=${encodeURIComponent(against)}` : '';
+  const { diff } = await apiFetch<{ diff: ReportDiff }>(
+    `${REPORTS_BASE}/${encodeURIComponent(reportId)}/diff${query}`
+  );
+  return diff;
+}
+
+/**
+ * Re-run the report's study. Follow the returned job with subscribeToResearch;
+ * its report_ready event carries the new version's libraryReportId.
+ */
+export async function refreshLibraryReport(reportId: string): Promise<DeepResearchResponse> {
+  const { research } = await apiFetch<{ research: DeepResearchResponse }>(
+    `${REPORTS_BASE}/${encodeURIComponent(reportId)}/refresh`,
+    { method: 'POST' }
+  );
+  return research;
+}
@@ -0,0 +1,35 @@
+// Report Template Service
+// API client for the company's editable report templates
+
+import type { CompanyReportTemplate, ReportTemplateInput } from './reportTemplates';
+import { apiFetch } from './api';
+
+const TEMPLATES_BASE = '/api/reports/templates';
+
+export async function listReportTemplates(): Promise<CompanyReportTemplate[]> {
+  const { templates } = await apiFetch<{ templates: CompanyReportTemplate[] }>(TEMPLATES_BASE);
+  return templates;
+}
+
+export async function createReportTemplate(input: ReportTemplateInput): Promise<CompanyReportTemplate> {
+  const { template } = await apiFetch<{ template: CompanyReportTemplate }>(TEMPLATES_BASE, {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+  return template;
+}
+
+export async function updateReportTemplate(
+  id: string,
+  changes: Partial<ReportTemplateInput>
+): Promise<CompanyReportTemplate> {
+  const { template } = await apiFetch<{ template: CompanyReportTemplate }>(`${TEMPLATES_BASE}/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes),
+  });
+  return template;
+}
+
+export async function deleteReportTemplate(id: string): Promise<void> {
+  await apiFetch<{ success: boolean }>(`${TEMPLATES_BASE}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
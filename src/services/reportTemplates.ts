@@ -675,8 +675,12 @@ export const REPORT_TEMPLATES: Record<string, ReportTemplate> = {
   custom: MARKET_ANALYSIS_TEMPLATE, // Default to market analysis for custom
 };
 
-// Helper to get template by study type
-export const getReportTemplate = (studyType: string): ReportTemplate => {
+// Helper to get template by study type. A custom study uses the company template
+// picked during intake, when there is one.
+export const getReportTemplate = (studyType: string, companyTemplate?: ReportTemplate | null): ReportTemplate => {
+  if (studyType === 'custom' && companyTemplate) {
+    return companyTemplate;
+  }
   return REPORT_TEMPLATES[studyType] || MARKET_ANALYSIS_TEMPLATE;
 };
 
@@ -736,3 +740,157 @@ export const validateSectionCitations = (
     required: section.minCitations
   };
 };
+
+// ============================================
+// COMPANY TEMPLATES
+// ============================================
+
+/** A company's own template, stored in report_templates; id is the row ID */
+export interface CompanyReportTemplate extends ReportTemplate {
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ReportTemplateInput = Omit<ReportTemplate, 'id'>;
+
+export const VISUALIZATION_SLOT_TYPES: VisualizationSlotType[] = ['line_chart', 'bar_chart', 'pie_chart', 'table', 'metric'];
+export const TEMPLATE_SOURCE_TYPES: ReportTemplate['requiredSourceTypes'] = ['beroe', 'web', 'internal'];
+
+// Each section is a synthesis call, so the tree is kept close to the built-in templates' size
+export const MAX_TEMPLATE_SECTIONS = 16;
+export const MAX_TEMPLATE_DEPTH = 2;
+export const MAX_SECTION_CITATIONS = 20;
+
+/** Intake question a custom study answers to pick a company template */
+export const TEMPLATE_QUESTION_ID = 'reportTemplateId';
+export const DEFAULT_TEMPLATE_OPTION = 'default';
+
+const SECTION_ID_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+const isCount = (value: unknown, min: number, max: number): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+const getTreeDepth = (sections: ReportSectionTemplate[]): number =>
+  sections.reduce((depth, section) => Math.max(depth, 1 + getTreeDepth(section.children ?? [])), 0);
+
+// Validate one visualization slot; slot IDs must be unique across the template
+const validateSlot = (slot: VisualizationSlot, sectionId: string, slotIds: Set<string>): string[] => {
+  const label = `Section "${sectionId}" slot "${slot.slotId}"`;
+  const errors: string[] = [];
+
+  if (typeof slot.slotId !== 'string' || !SECTION_ID_PATTERN.test(slot.slotId)) {
+    errors.push(`Section "${sectionId}" has a slot without a valid ID (lowercase letters, digits and underscores)`);
+  } else if (slotIds.has(slot.slotId)) {
+    errors.push(`${label} is used more than once`);
+  }
+  slotIds.add(slot.slotId);
+
+  if (!VISUALIZATION_SLOT_TYPES.includes(slot.type)) {
+    errors.push(`${label} type must be one of: ${VISUALIZATION_SLOT_TYPES.join(', ')}`);
+  }
+  if (typeof slot.title !== 'string' || !slot.title.trim()) {
+    errors.push(`${label} needs a title`);
+  }
+  if (typeof slot.description !== 'string' || !slot.description.trim()) {
+    errors.push(`${label} needs a description of the data to extract`);
+  }
+  if (!isCount(slot.minDataPoints, 1, 100)) {
+    errors.push(`${label} minDataPoints must be a whole number from 1 to 100`);
+  }
+  if (slot.placement !== 'before_prose' && slot.placement !== 'after_prose') {
+    errors.push(`${label} placement must be before_prose or after_prose`);
+  }
+  return errors;
+};
+
+/**
+ * Check a template's section tree before it is saved or used: section and slot
+ * IDs, citation minimums and visualization slots. Returns every problem found;
+ * an empty list means the template is usable.
+ */
+export const validateReportTemplate = (template: ReportTemplate): string[] => {
+  const errors: string[] = [];
+
+  if (!Array.isArray(template.sections) || template.sections.length === 0) {
+    return ['A template needs at least one section'];
+  }
+
+  const sections = flattenSections(template);
+  if (sections.length > MAX_TEMPLATE_SECTIONS) {
+    errors.push(`A template can have at most ${MAX_TEMPLATE_SECTIONS} sections`);
+  }
+  if (getTreeDepth(template.sections) > MAX_TEMPLATE_DEPTH) {
+    errors.push(`Sections can be nested at most ${MAX_TEMPLATE_DEPTH} levels deep`);
+  }
+  if (!sections.some((section) => section.required)) {
+    errors.push('At least one section must be required');
+  }
+
+  const sectionIds = new Set<string>();
+  const slotIds = new Set<string>();
+  for (const section of sections) {
+    if (typeof section.id !== 'string' || !SECTION_ID_PATTERN.test(section.id)) {
+      errors.push(`Section "${section.title}" needs an ID of lowercase letters, digits and underscores`);
+      continue;
+    }
+    // Citation checks look sections up by ID, so a repeated ID would be held to another section's minimum
+    if (sectionIds.has(section.id)) {
+      errors.push(`Section ID "${section.id}" is used more than once`);
+    }
+    sectionIds.add(section.id);
+
+    if (typeof section.title !== 'string' || !section.title.trim()) {
+      errors.push(`Section "${section.id}" needs a title`);
+    }
+    if (!isCount(section.minCitations, 0, MAX_SECTION_CITATIONS)) {
+      errors.push(`Section "${section.id}" minCitations must be a whole number from 0 to ${MAX_SECTION_CITATIONS}`);
+    }
+    if (typeof section.description !== 'string' || !section.description.trim()) {
+      errors.push(`Section "${section.id}" needs a description`);
+    }
+    if (!Array.isArray(section.promptHints) || section.promptHints.some((hint) => typeof hint !== 'string')) {
+      errors.push(`Section "${section.id}" promptHints must be a list of strings`);
+    }
+    for (const slot of section.visualizationSlots ?? []) {
+      errors.push(...validateSlot(slot, section.id, slotIds));
+    }
+  }
+
+  if (!isCount(template.minTotalCitations, 0, MAX_SECTION_CITATIONS * MAX_TEMPLATE_SECTIONS)) {
+    errors.push('minTotalCitations must be a whole number of 0 or more');
+  }
+  if (!Array.isArray(template.requiredSourceTypes) ||
+    template.requiredSourceTypes.some((type) => !TEMPLATE_SOURCE_TYPES.includes(type))) {
+    errors.push(`requiredSourceTypes may only include: ${TEMPLATE_SOURCE_TYPES.join(', ')}`);
+  }
+
+  return errors;
+};
+
+interface WrittenSection {
+  id: string;
+  content: string;
+  children?: WrittenSection[];
+}
+
+/**
+ * Sections of a written report that fell short of the template's citation minimums.
+ * Sections the report left out are skipped - missing sections are a separate problem.
+ */
+export const getCitationShortfalls = (
+  sections: WrittenSection[],
+  template: ReportTemplate
+): { sectionId: string; title: string; found: number; required: number }[] => {
+  const written = new Map<string, string>();
+  const collect = (list: WrittenSection[]) => list.forEach((section) => {
+    written.set(section.id, section.content);
+    collect(section.children ?? []);
+  });
+  collect(sections);
+
+  return flattenSections(template)
+    .filter((section) => written.has(section.id))
+    .map((section) => ({ section, check: validateSectionCitations(section.id, written.get(section.id)!, template) }))
+    .filter(({ check }) => !check.valid)
+    .map(({ section, check }) => ({ sectionId: section.id, title: section.title, found: check.found, required: check.required }));
+};
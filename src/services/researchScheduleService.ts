@@ -0,0 +1,35 @@
+// Research Schedule Service
+// API client for recurring deep research studies
+
+import type { ResearchSchedule, ResearchScheduleInput } from '../types/deepResearch';
+import { apiFetch } from './api';
+
+const SCHEDULES_BASE = '/api/research/schedules';
+
+export async function listResearchSchedules(): Promise<ResearchSchedule[]> {
+  const { schedules } = await apiFetch<{ schedules: ResearchSchedule[] }>(SCHEDULES_BASE);
+  return schedules;
+}
+
+export async function createResearchSchedule(input: ResearchScheduleInput): Promise<ResearchSchedule> {
+  const { schedule } = await apiFetch<{ schedule: ResearchSchedule }>(SCHEDULES_BASE, {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+  return schedule;
+}
+
+export async function updateResearchSchedule(
+  id: string,
+  changes: Partial<ResearchScheduleInput>
+): Promise<ResearchSchedule> {
+  const { schedule } = await apiFetch<{ schedule: ResearchSchedule }>(`${SCHEDULES_BASE}/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes),
+  });
+  return schedule;
+}
+
+export async function deleteResearchSchedule(id: string): Promise<void> {
+  await apiFetch<{ success: boolean }>(`${SCHEDULES_BASE}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
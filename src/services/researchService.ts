@@ -0,0 +1,109 @@
+// Research Service
+// API client for server-side deep research jobs and their SSE progress stream
+
+import type {
+  ConfirmIntakeRequest,
+  DeepResearchEvent,
+  DeepResearchEventType,
+  DeepResearchResponse,
+  ResearchJobSummary,
+  StartDeepResearchRequest,
+} from '../types/deepResearch';
+import { apiFetch } from './api';
+
+const RESEARCH_BASE = '/api/research';
+
+const EVENT_TYPES: DeepResearchEventType[] = [
+  'phase_change',
+  'step_update',
+  'source_found',
+  'finding_emerged',
+  'report_ready',
+  'error',
+];
+
+// Jobs created before research moved to the server have client-side IDs ("dr-...")
+const SERVER_JOB_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isServerResearchJob(jobId: string): boolean {
+  return SERVER_JOB_ID.test(jobId);
+}
+
+export async function startResearch(request: StartDeepResearchRequest): Promise<DeepResearchResponse> {
+  const { research } = await apiFetch<{ research: DeepResearchResponse }>(RESEARCH_BASE, {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+  return research;
+}
+
+export async function confirmResearch(request: ConfirmIntakeRequest): Promise<DeepResearchResponse> {
+  const { research } = await apiFetch<{ research: DeepResearchResponse }>(`${RESEARCH_BASE}/confirm`, {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+  return research;
+}
+
+export async function getResearch(jobId: string): Promise<DeepResearchResponse> {
+  const { research } = await apiFetch<{ research: DeepResearchResponse }>(
+    `${RESEARCH_BASE}/${encodeURIComponent(jobId)}`
+  );
+  return research;
+}
+
+export async function cancelResearch(jobId: string): Promise<DeepResearchResponse> {
+  const { research } = await apiFetch<{ research: DeepResearchResponse }>(
+    `${RESEARCH_BASE}/${encodeURIComponent(jobId)}/cancel`,
+    { method: 'POST' }
+  );
+  return research;
+}
+
+export async function listResearch(): Promise<ResearchJobSummary[]> {
+  const { jobs } = await apiFetch<{ jobs: ResearchJobSummary[] }>(RESEARCH_BASE);
+  return jobs;
+}
+
+/**
+ * Follow a job's progress. The first event is the current snapshot, so this
+ * also resumes a job after a refresh. EventSource reconnects on its own when
+ * the server closes the stream; it is closed here once the job finishes.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToResearch(
+  jobId: string,
+  onEvent: (event: DeepResearchEvent) => void
+): () => void {
+  const source = new EventSource(`${RESEARCH_BASE}/${encodeURIComponent(jobId)}/events`, {
+    withCredentials: true,
+  });
+
+  const handleMessage = (message: Event) => {
+    // Connection errors arrive as plain 'error' events without data
+    if (!(message instanceof MessageEvent) || typeof message.data !== 'string') return;
+
+    let event: DeepResearchEvent;
+    try {
+      event = JSON.parse(message.data) as DeepResearchEvent;
+    } catch {
+      return;
+    }
+
+    if (event.type === 'report_ready' || event.type === 'error') {
+      source.close();
+    }
+    onEvent(event);
+  };
+
+  for (const type of EVENT_TYPES) {
+    source.addEventListener(type, handleMessage);
+  }
+
+  return () => {
+    for (const type of EVENT_TYPES) {
+      source.removeEventListener(type, handleMessage);
+    }
+    source.close();
+  };
+}
@@ -0,0 +1,30 @@
+// Risk History Service
+// API client for dated supplier risk score history
+
+import type { RiskHistoryRange, RiskScoreHistory } from '../types/riskHistory';
+import { apiFetch } from './api';
+
+// Mock and researched suppliers have non-UUID ids and no stored history
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function hasStoredHistory(supplierId: string | undefined): supplierId is string {
+  return !!supplierId && UUID_PATTERN.test(supplierId);
+}
+
+export async function getRiskScoreHistory(
+  supplierId: string,
+  options: { range?: RiskHistoryRange; from?: string; to?: string; points?: number; factors?: boolean } = {}
+): Promise<RiskScoreHistory> {
+  const params = new URLSearchParams();
+  if (options.range) params.set('range', options.range);
+  if (options.from) params.set('from', options.from);
+  if (options.to) params.set('to', options.to);
+  if (options.points) params.set('points', String(options.points));
+  if (options.factors) params.set('factors', 'true');
+
+  const query = params.toString();
+  const { history } = await apiFetch<{ history: RiskScoreHistory }>(
+    `/api/suppliers/${encodeURIComponent(supplierId)}/history${query ? `?${query}` : ''}`
+  );
+  return history;
+}
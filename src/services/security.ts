@@ -105,75 +105,117 @@ export function generateVisitorId(): string {
 }
 
 // ══════════════════════════════════════════════════════════════════
-// Rate Limiting (In-Memory for Serverless)
+// Rate Limiting (Sliding Window, Pluggable Store)
 // ══════════════════════════════════════════════════════════════════
 
-interface RateLimitEntry {
-  count: number;
-  resetAt: number;
-}
-
-// In-memory store (resets on cold start - acceptable for serverless)
-// For production, use Redis or Upstash
-const rateLimitStore = new Map<string, RateLimitEntry>();
-
-interface RateLimitConfig {
+export interface RateLimitConfig {
   maxRequests: number;
   windowMs: number;
 }
 
-interface RateLimitResult {
+export interface RateLimitResult {
   allowed: boolean;
+  limit: number;
   remaining: number;
   resetAt: number;
 }
 
+/** Hit counts for the current fixed window and the one before it */
+export interface RateLimitWindowCounts {
+  current: number;
+  previous: number;
+}
+
 /**
- * Check rate limit for a given key (e.g., IP + endpoint)
+ * Backing store for rate limit counters.
+ * `increment` must atomically add one hit to the current window and
+ * return the counts for the current and previous windows.
  */
-export function checkRateLimit(key: string, config: RateLimitConfig): RateLimitResult {
-  const now = Date.now();
-  const entry = rateLimitStore.get(key);
+export interface RateLimitStore {
+  increment(key: string, windowStart: number, windowMs: number): Promise<RateLimitWindowCounts>;
+}
 
-  // Clean up expired entry
-  if (entry && now >= entry.resetAt) {
-    rateLimitStore.delete(key);
-  }
+/**
+ * Process-local store. Counters reset on cold start and are not shared
+ * between instances - use only for local development and tests.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, Map<number, number>>();
 
-  const currentEntry = rateLimitStore.get(key);
-
-  if (!currentEntry) {
-    // First request in window
-    const newEntry: RateLimitEntry = {
-      count: 1,
-      resetAt: now + config.windowMs,
-    };
-    rateLimitStore.set(key, newEntry);
-
-    return {
-      allowed: true,
-      remaining: config.maxRequests - 1,
-      resetAt: newEntry.resetAt,
-    };
-  }
+  async increment(key: string, windowStart: number, windowMs: number): Promise<RateLimitWindowCounts> {
+    const buckets = this.windows.get(key) ?? new Map<number, number>();
+    const previousStart = windowStart - windowMs;
 
-  // Check if limit exceeded
-  if (currentEntry.count >= config.maxRequests) {
-    return {
-      allowed: false,
-      remaining: 0,
-      resetAt: currentEntry.resetAt,
-    };
+    // Drop windows that can no longer affect the estimate
+    for (const start of buckets.keys()) {
+      if (start < previousStart) buckets.delete(start);
+    }
+
+    const current = (buckets.get(windowStart) ?? 0) + 1;
+    buckets.set(windowStart, current);
+    this.windows.set(key, buckets);
+
+    return { current, previous: buckets.get(previousStart) ?? 0 };
   }
+}
 
-  // Increment count
-  currentEntry.count++;
+/**
+ * Sliding window estimate: the previous window's hits, weighted by how much
+ * of it still overlaps the trailing window, plus the current window's hits.
+ * Every attempt is counted, including rejected ones.
+ */
+export function evaluateSlidingWindow(
+  counts: RateLimitWindowCounts,
+  config: RateLimitConfig,
+  windowStart: number,
+  now: number
+): RateLimitResult {
+  const elapsed = (now - windowStart) / config.windowMs;
+  const estimated = Math.floor(counts.previous * (1 - elapsed)) + counts.current;
 
   return {
-    allowed: true,
-    remaining: config.maxRequests - currentEntry.count,
-    resetAt: currentEntry.resetAt,
+    allowed: estimated <= config.maxRequests,
+    limit: config.maxRequests,
+    remaining: Math.max(0, config.maxRequests - estimated),
+    resetAt: windowStart + config.windowMs,
+  };
+}
+
+/**
+ * Check rate limit for a given key (e.g., IP + endpoint) against the given store
+ */
+export async function checkRateLimit(
+  key: string,
+  config: RateLimitConfig,
+  store: RateLimitStore
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const windowStart = now - (now % config.windowMs);
+  const counts = await store.increment(key, windowStart, config.windowMs);
+
+  return evaluateSlidingWindow(counts, config, windowStart, now);
+}
+
+/**
+ * Standard RateLimit-* response headers (IETF draft), plus Retry-After when blocked
+ */
+export function getRateLimitHeaders(
+  result: RateLimitResult,
+  config: RateLimitConfig
+): Record<string, string> {
+  const resetSeconds = Math.max(0, Math.ceil((result.resetAt - Date.now()) / 1000));
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(resetSeconds),
+    'RateLimit-Policy': `${config.maxRequests};w=${Math.ceil(config.windowMs / 1000)}`,
   };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(resetSeconds);
+  }
+
+  return headers;
 }
 
 /**
@@ -190,6 +232,17 @@ export const RATE_LIMITS = {
   waitlist: { maxRequests: 3, windowMs: 60 * 1000 },
   // Email verification: 3 attempts per minute
   verifyEmail: { maxRequests: 3, windowMs: 60 * 1000 },
+  // Password reset requests and redemptions: 5 per 15 minutes
+  passwordReset: { maxRequests: 5, windowMs: 15 * 60 * 1000 },
+  // Credit spend/hold: 20 per minute per user
+  creditSpend: { maxRequests: 20, windowMs: 60 * 1000 },
+  creditHold: { maxRequests: 20, windowMs: 60 * 1000 },
+  // Community writes (questions, answers, votes): 30 per minute per user
+  communityWrite: { maxRequests: 30, windowMs: 60 * 1000 },
+  // Chat messages: 60 per minute per caller
+  messages: { maxRequests: 60, windowMs: 60 * 1000 },
+  // LLM gateway calls: 30 per minute per user (token quotas apply separately)
+  llm: { maxRequests: 30, windowMs: 60 * 1000 },
 } as const;
 
 /**
@@ -0,0 +1,103 @@
+// Supplier Import Service
+// API client for uploading a supplier list, reviewing the matches and confirming the import
+
+import type {
+  SupplierImportDecisionUpdate,
+  SupplierImportPreview,
+  SupplierImportResult,
+} from '../types/supplierImport';
+import { apiFetch } from './api';
+
+const IMPORT_BASE = '/api/portfolio/import';
+
+export const IMPORT_FILE_ACCEPT = '.csv,.xlsx';
+export const MAX_IMPORT_FILE_BYTES = 2 * 1024 * 1024;
+
+// ============================================================================
+// API CLIENT
+// ============================================================================
+
+/**
+ * File contents as base64, without the data URL prefix
+ */
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = String(reader.result ?? '');
+      resolve(result.slice(result.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read file'));
+    reader.readAsDataURL(file);
+  });
+}
+
+export async function uploadSupplierList(file: File): Promise<SupplierImportPreview> {
+  if (file.size > MAX_IMPORT_FILE_BYTES) {
+    throw new Error(`File must be at most ${MAX_IMPORT_FILE_BYTES / (1024 * 1024)}MB`);
+  }
+  const content = await readFileAsBase64(file);
+  const { import: preview } = await apiFetch<{ import: SupplierImportPreview }>(IMPORT_BASE, {
+    method: 'POST',
+    body: JSON.stringify({ fileName: file.name, content }),
+  });
+  return preview;
+}
+
+export async function getSupplierImport(id: string): Promise<SupplierImportPreview> {
+  const { import: preview } = await apiFetch<{ import: SupplierImportPreview }>(
+    `${IMPORT_BASE}/${encodeURIComponent(id)}`
+  );
+  return preview;
+}
+
+export async function updateImportDecisions(
+  id: string,
+  decisions: SupplierImportDecisionUpdate[]
+): Promise<SupplierImportPreview> {
+  const { import: preview } = await apiFetch<{ import: SupplierImportPreview }>(
+    `${IMPORT_BASE}/${encodeURIComponent(id)}`,
+    { method: 'PATCH', body: JSON.stringify({ decisions }) }
+  );
+  return preview;
+}
+
+export async function cancelSupplierImport(id: string): Promise<void> {
+  await apiFetch<{ success: boolean }>(`${IMPORT_BASE}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+export async function confirmSupplierImport(id: string): Promise<SupplierImportResult> {
+  const { result } = await apiFetch<{ result: SupplierImportResult }>(
+    `${IMPORT_BASE}/${encodeURIComponent(id)}/confirm`,
+    { method: 'POST' }
+  );
+  return result;
+}
+
+// ============================================================================
+// CHAT PARSING
+// ============================================================================
+
+// The verb must act on a list or file - "import tariffs on my suppliers" is a trade question
+const IMPORT_PATTERN = /\b(?:import|upload|bulk[- ]?(?:import|add|upload))\s+(?:my\s+|our\s+|a\s+|an\s+|the\s+)?(?:suppliers?|vendors?|supplier list|vendor list|csv|xlsx|excel|spreadsheet|file|list)\b/i;
+
+/**
+ * "import my supplier list", "upload a CSV of vendors"
+ */
+export function isImportRequest(message: string): boolean {
+  return IMPORT_PATTERN.test(message);
+}
+
+/**
+ * Plain-language summary of a confirmed import
+ */
+export function describeImportResult(result: SupplierImportResult): string {
+  const parts = [`Imported ${result.followed} supplier${result.followed === 1 ? '' : 's'} into your portfolio`];
+  if (result.created > 0) {
+    parts.push(`${result.created} new (unrated until researched)`);
+  }
+  if (result.skipped > 0) {
+    parts.push(`${result.skipped} skipped`);
+  }
+  return `${parts.join(', ')}.`;
+}
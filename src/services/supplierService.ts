@@ -221,6 +221,28 @@ export async function getSupplierById(
   return transformSupplier(results[0].supplier, results[0].riskScore, true);
 }
 
+/**
+ * Get suppliers by ID, in the order given. Unknown IDs are skipped.
+ */
+export async function getSuppliersByIds(
+  db: NeonHttpDatabase<Record<string, never>>,
+  supplierIds: string[]
+): Promise<Supplier[]> {
+  if (supplierIds.length === 0) return [];
+
+  const results = await db
+    .select({
+      supplier: suppliers,
+      riskScore: supplierRiskScores,
+    })
+    .from(suppliers)
+    .leftJoin(supplierRiskScores, eq(suppliers.id, supplierRiskScores.supplierId))
+    .where(inArray(suppliers.id, supplierIds));
+
+  const byId = new Map(results.map(r => [r.supplier.id, transformSupplier(r.supplier, r.riskScore, true)]));
+  return supplierIds.flatMap(id => byId.get(id) ?? []);
+}
+
 /**
  * Get a supplier by name (fuzzy match)
  */
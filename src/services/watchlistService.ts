@@ -0,0 +1,145 @@
+// Watchlist Service
+// API client for followed suppliers and named watchlists, plus parsing follow requests typed in chat
+
+import type {
+  PortfolioBulkAction,
+  PortfolioBulkResult,
+  PortfolioEntry,
+  SupplierSearchResult,
+  SupplierTarget,
+  Watchlist,
+} from '../types/watchlists';
+import { apiFetch } from './api';
+
+const PORTFOLIO_BASE = '/api/portfolio';
+const WATCHLISTS_BASE = '/api/watchlists';
+
+// ============================================================================
+// API CLIENT
+// ============================================================================
+
+export async function listPortfolio(watchlistId?: string): Promise<PortfolioEntry[]> {
+  const query = watchlistId ? `?watchlistId=${encodeURIComponent(watchlistId)}` : '';
+  const { entries } = await apiFetch<{ entries: PortfolioEntry[] }>(`${PORTFOLIO_BASE}${query}`);
+  return entries;
+}
+
+export async function applyPortfolioAction(
+  action: PortfolioBulkAction,
+  target: SupplierTarget,
+  watchlistId?: string
+): Promise<PortfolioBulkResult> {
+  return apiFetch<PortfolioBulkResult>(PORTFOLIO_BASE, {
+    method: 'POST',
+    body: JSON.stringify({ action, ...target, watchlistId }),
+  });
+}
+
+export async function updatePortfolioEntry(
+  supplierId: string,
+  changes: { notes?: string | null; alertsEnabled?: boolean }
+): Promise<void> {
+  await apiFetch<{ success: boolean }>(`${PORTFOLIO_BASE}/${encodeURIComponent(supplierId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes),
+  });
+}
+
+export async function searchSuppliers(query: string, limit = 10): Promise<SupplierSearchResult[]> {
+  const params = new URLSearchParams({ q: query, limit: String(limit) });
+  const { suppliers } = await apiFetch<{ suppliers: SupplierSearchResult[] }>(`${PORTFOLIO_BASE}/search?${params}`);
+  return suppliers;
+}
+
+export async function listWatchlists(): Promise<Watchlist[]> {
+  const { watchlists } = await apiFetch<{ watchlists: Watchlist[] }>(WATCHLISTS_BASE);
+  return watchlists;
+}
+
+export async function createWatchlist(name: string): Promise<Watchlist> {
+  const { watchlist } = await apiFetch<{ watchlist: Watchlist }>(WATCHLISTS_BASE, {
+    method: 'POST',
+    body: JSON.stringify({ name }),
+  });
+  return watchlist;
+}
+
+export async function renameWatchlist(id: string, name: string): Promise<void> {
+  await apiFetch<{ success: boolean }>(`${WATCHLISTS_BASE}/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ name }),
+  });
+}
+
+export async function deleteWatchlist(id: string): Promise<void> {
+  await apiFetch<{ success: boolean }>(`${WATCHLISTS_BASE}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+// ============================================================================
+// CHAT PARSING
+// ============================================================================
+
+export interface ChatFollowRequest {
+  action: 'follow' | 'unfollow';
+  supplierNames: string[];
+}
+
+// Only imperative requests - "which suppliers do I follow?" is a question, not a request
+const FOLLOW_PATTERN = /^(?:(?:please|can you|could you|i want to|i'd like to)\s+)?(unfollow|stop following|start following|follow)\s+(.+)/i;
+
+// Words around the supplier names that are not part of them
+const LEADING_FILLER = /^(?:the\s+)?(?:suppliers?\s+)?/i;
+const TRAILING_FILLER = /\s+(?:for me|please|in my portfolio|on my watchlist|from my portfolio|from my watchlist)$/i;
+
+/**
+ * Read a follow/unfollow request out of a chat message, e.g. "follow TSMC" or
+ * "stop following Apex Manufacturing and TechCore". Names are resolved server-side.
+ */
+export function parseFollowRequest(message: string): ChatFollowRequest | null {
+  const match = message.trim().match(FOLLOW_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const verb = match[1].toLowerCase();
+  const action = verb === 'unfollow' || verb === 'stop following' ? 'unfollow' : 'follow';
+
+  let names = match[2].replace(/[.!?]+$/, '').trim();
+  names = names.replace(LEADING_FILLER, '').replace(TRAILING_FILLER, '').trim();
+
+  const supplierNames = names
+    .split(/\s*,\s*(?:and\s+)?|\s+and\s+|\s+&\s+/i)
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+
+  if (supplierNames.length === 0) {
+    return null;
+  }
+
+  return { action, supplierNames };
+}
+
+/**
+ * Plain-language summary of a follow/unfollow result for chat
+ */
+export function describeFollowResult(action: 'follow' | 'unfollow', result: PortfolioBulkResult): string {
+  const list = (items: Array<{ name: string } | string>) =>
+    items.map((item) => (typeof item === 'string' ? item : item.name)).join(', ');
+  const parts: string[] = [];
+
+  if (result.updated.length > 0) {
+    parts.push(action === 'follow'
+      ? `Now following ${list(result.updated)}.`
+      : `Unfollowed ${list(result.updated)}.`);
+  }
+  if (result.unchanged.length > 0) {
+    parts.push(action === 'follow'
+      ? `You already follow ${list(result.unchanged)}.`
+      : `${list(result.unchanged)} ${result.unchanged.length === 1 ? "wasn't" : "weren't"} in your portfolio.`);
+  }
+  if (result.notFound.length > 0) {
+    parts.push(`I couldn't find a single supplier matching ${list(result.notFound)}.`);
+  }
+
+  return parts.join(' ');
+}
@@ -138,6 +138,11 @@ const SUBINTENT_OVERRIDES: Partial<Record<SubIntent, Partial<WidgetRoute>>> = {
     requiresPortfolio: true,
     requiresSuppliers: true,
   },
+  historical: {
+    widgetType: 'trend_chart',
+    artifactType: 'supplier_detail',
+    requiresSuppliers: true,
+  },
 };
 
 // ============================================
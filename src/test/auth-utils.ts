@@ -95,6 +95,10 @@ export function createTestSession(userId: string, overrides: Partial<Session> =
     token: overrides.token ?? `token_${Math.random().toString(36).slice(2)}`,
     expiresAt: overrides.expiresAt ?? new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days
     createdAt: new Date(),
+    userAgent: overrides.userAgent ?? null,
+    ipAddress: overrides.ipAddress ?? null,
+    lastSeenAt: overrides.lastSeenAt ?? new Date(),
+    rotateRequestedAt: overrides.rotateRequestedAt ?? null,
   };
 }
 
@@ -173,6 +173,7 @@ export function createTestLedgerEntry(overrides: Partial<LedgerEntry> = {}): Led
   return {
     id: `entry-${idCounter}`,
     accountId: `account-${idCounter}`,
+    teamId: null,
     entryType: 'debit',
     amount: 100,
     transactionType: 'spend',
@@ -195,6 +196,7 @@ export function createTestCreditHold(overrides: Partial<CreditHold> = {}): Credi
     id: `hold-${idCounter}`,
     accountId: `account-${idCounter}`,
     requestId: `request-${idCounter}`,
+    teamId: null,
     amount: 500,
     status: 'active',
     createdAt: new Date(),
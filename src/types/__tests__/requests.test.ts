@@ -199,6 +199,7 @@ describe('Request Type Display', () => {
     'expert_consult',
     'expert_deepdive',
     'bespoke_project',
+    'supplier_assessment',
   ] as const;
 
   requestTypes.forEach((type) => {
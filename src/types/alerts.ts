@@ -0,0 +1,45 @@
+// Risk alert rule types - shared by the alerts API, the alert artifact and chat
+
+import type { AlertRule } from '../db/schema.js';
+
+export type AlertTriggerType = 'threshold' | 'change' | 'any_change';
+export type AlertThresholdDirection = 'above' | 'below';
+export type AlertFrequency = 'immediate' | 'daily' | 'weekly';
+
+export const ALERT_TRIGGER_TYPES: AlertTriggerType[] = ['threshold', 'change', 'any_change'];
+export const ALERT_FREQUENCIES: AlertFrequency[] = ['immediate', 'daily', 'weekly'];
+
+export interface AlertChannels {
+  email: boolean;
+  push: boolean;
+  inApp: boolean;
+}
+
+// Create/update payload for /api/alerts
+// supplierId null = every supplier in the user's portfolio; supplierName is
+// matched when the caller only knows the name (chat, demo data)
+export interface AlertRuleInput {
+  supplierId?: string | null;
+  supplierName?: string;
+  name: string;
+  triggerType: AlertTriggerType;
+  thresholdValue?: number | null;
+  thresholdDirection?: AlertThresholdDirection | null;
+  changePercent?: number | null;
+  frequency: AlertFrequency;
+  channels: AlertChannels;
+  recipients?: string[];
+  isActive?: boolean;
+}
+
+// Rule as returned by the API
+export interface AlertRuleWithSupplier extends AlertRule {
+  supplierName: string | null;
+}
+
+// The part of a risk change a rule is evaluated against
+export interface RiskScoreChange {
+  supplierId: string;
+  previousScore: number;
+  currentScore: number;
+}
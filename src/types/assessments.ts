@@ -0,0 +1,56 @@
+// Supplier assessment types - shared by the requests API, the assessment artifact and the approval queue
+
+import type { RiskLevel } from './supplier';
+
+// Flat price of an analyst assessment; above the auto-approve threshold so a team approver signs off
+export const SUPPLIER_ASSESSMENT_CREDITS = 800;
+
+// Scores older than this can be re-assessed
+export const STALE_ASSESSMENT_DAYS = 90;
+
+export const MAX_CHANGE_REASON_LENGTH = 1000;
+
+// Why a supplier can (or can't) be assessed
+export type AssessmentEligibility = 'unrated' | 'stale' | 'current';
+
+// Request context stored on a supplier_assessment approval request
+export interface SupplierAssessmentContext {
+  supplierId: string;
+  supplierName: string;
+  previousScore: number | null;
+  previousLevel: RiskLevel;
+  lastAssessedAt: string | null;
+  eligibility: Exclude<AssessmentEligibility, 'current'>;
+  reason?: string;
+  // Filled in on fulfillment
+  assessment?: SupplierAssessmentOutcome;
+}
+
+// What the analyst records when fulfilling
+export interface SupplierAssessmentResult {
+  score: number; // 0-100
+  changeReason: string;
+}
+
+export interface SupplierAssessmentOutcome {
+  score: number;
+  level: RiskLevel;
+  previousScore: number | null;
+  changeReason: string;
+  assessedAt: string;
+}
+
+/**
+ * Unrated suppliers and scores older than STALE_ASSESSMENT_DAYS can be assessed
+ */
+export function getAssessmentEligibility(
+  level: RiskLevel,
+  lastUpdated: string | Date | null,
+  now: Date = new Date()
+): AssessmentEligibility {
+  if (level === 'unrated' || !lastUpdated) {
+    return 'unrated';
+  }
+  const ageMs = now.getTime() - new Date(lastUpdated).getTime();
+  return ageMs > STALE_ASSESSMENT_DAYS * 24 * 60 * 60 * 1000 ? 'stale' : 'current';
+}
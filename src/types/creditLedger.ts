@@ -108,6 +108,7 @@ export interface CreditAllocation {
   allocatedCredits: number;
   periodStart: string;  // ISO date
   periodEnd: string;    // ISO date
+  closedAt: string | null;  // Set when closed early
 
   createdAt: string;
   updatedAt: string;
@@ -300,6 +301,52 @@ export interface CreditStatement {
   entries: LedgerEntry[];
 }
 
+/**
+ * Usage aggregated along one dimension (period, team, requester, ...)
+ */
+export interface UsageBucket {
+  key: string;
+  label: string;
+  credits: number;       // Net of refunds
+  transactions: number;
+}
+
+/**
+ * Burn rate projected to the end of the subscription period
+ */
+export interface BurnForecast {
+  windowDays: number;
+  dailyBurnRate: number;
+  availableCredits: number;
+  daysUntilPeriodEnd: number;
+  projectedUsageToPeriodEnd: number;
+  projectedBalanceAtPeriodEnd: number;
+  exhaustionDate: string | null;
+  exhaustsBeforePeriodEnd: boolean;
+}
+
+export type UsageGranularity = 'day' | 'week' | 'month';
+
+/**
+ * Credit usage analytics (admin dashboard)
+ */
+export interface CreditUsageAnalytics {
+  accountId: string;
+  startDate: string;
+  endDate: string;
+  granularity: UsageGranularity;
+  periodEnd: string;
+
+  totalCredits: number;
+  byPeriod: UsageBucket[];
+  byTeam: UsageBucket[];
+  byRequester: UsageBucket[];
+  byRequestType: UsageBucket[];
+  byCategory: UsageBucket[];
+
+  forecast: BurnForecast;
+}
+
 // ============================================================================
 // VALIDATION HELPERS
 // ============================================================================
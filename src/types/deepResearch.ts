@@ -1,7 +1,7 @@
 // Deep Research Types
 // Supports multi-stage research with clarifying questions, real-time progress, and report generation
 
-import type { Source } from './chat';
+import type { ChatMessage, Source } from './chat';
 
 // ============================================
 // PHASE & STATE TYPES
@@ -457,6 +457,12 @@ export interface DeepResearchResponse {
     code?: string;
     canRetry: boolean;
   };
+
+  /** Library entry the finished report was saved as */
+  libraryReportId?: string;
+
+  /** Approval request the job is waiting on before it can start */
+  approvalRequestId?: string;
 }
 
 // ============================================
@@ -470,6 +476,8 @@ export interface StartDeepResearchRequest {
   category?: string;
   intakeAnswers?: IntakeAnswers;
   skipIntake?: boolean;
+  /** Recent messages, used to prefill intake answers */
+  conversationHistory?: Pick<ChatMessage, 'role' | 'content'>[];
 }
 
 /** Request to confirm intake and start processing */
@@ -495,6 +503,139 @@ export interface DeepResearchEvent {
   data: Partial<DeepResearchResponse>;
 }
 
+// ============================================
+// RESEARCH JOB TYPES
+// ============================================
+
+/** Server-side job status; maps onto DeepResearchPhase for the chat UI */
+export type ResearchJobStatus =
+  | 'intake'
+  | 'awaiting_approval' // Cost is over the auto-approval threshold; credits are held
+  | 'queued'
+  | 'processing'
+  | 'complete'
+  | 'error'
+  | 'cancelled';
+
+/** Row in the user's research job list */
+export interface ResearchJobSummary {
+  jobId: string;
+  query: string;
+  studyType: StudyType;
+  status: ResearchJobStatus;
+  creditsRequired: number;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+/** Credits charged per study type */
+export const STUDY_CREDIT_COSTS: Record<StudyType, number> = {
+  sourcing_study: 750,
+  cost_model: 600,
+  market_analysis: 500,
+  supplier_assessment: 400,
+  risk_assessment: 450,
+  custom: 500,
+};
+
+export const STUDY_TYPES = Object.keys(STUDY_CREDIT_COSTS) as StudyType[];
+
+/** Get credits required for a study type */
+export const getCreditsRequiredForStudy = (studyType: StudyType): number =>
+  STUDY_CREDIT_COSTS[studyType] || 500;
+
+// ============================================
+// REPORT LIBRARY TYPES
+// ============================================
+
+/** Row in the company report library; the latest version of each report */
+export interface ResearchReportSummary {
+  id: string;
+  lineageId: string;       // Shared by every version of a report
+  version: number;
+  title: string;
+  query: string;
+  studyType: StudyType;
+  category: string | null;
+  reportNumber: string | null;
+  keyFinding: string | null;
+  jobId: string | null;
+  createdAt: string;
+}
+
+/** A stored report with its full content */
+export interface LibraryReport extends ResearchReportSummary {
+  report: DeepResearchReport;
+}
+
+/** Filters for the report library */
+export interface ReportLibraryFilters {
+  studyType?: StudyType;
+  category?: string;
+  from?: string;           // ISO date, inclusive
+  to?: string;             // ISO date, inclusive
+  search?: string;         // Matches title or query
+}
+
+export type ReportSectionChange = 'content' | 'citations' | 'visuals';
+
+/** How one section differs between two versions of a report */
+export interface ReportSectionDiff {
+  sectionId: string;
+  title: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  changes: ReportSectionChange[];
+  previousContent?: string;
+  content?: string;
+}
+
+/** Section-level comparison of two versions of a report */
+export interface ReportDiff {
+  fromVersion: number;
+  toVersion: number;
+  keyFinding: { previous: string | null; current: string | null } | null;  // Set when it changed
+  sections: ReportSectionDiff[];
+}
+
+// ============================================
+// RESEARCH SCHEDULE TYPES
+// ============================================
+
+/** A saved study that re-runs on a cadence; every run adds a version to one library report */
+export interface ResearchSchedule {
+  id: string;
+  name: string;
+  query: string;
+  studyType: StudyType;
+  intakeAnswers: IntakeAnswers;
+  cadence: string;                  // Five-field cron expression, UTC
+  isActive: boolean;
+  creditsPerRun: number;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  lastJobId: string | null;
+  reportLineageId: string;          // Library report the runs are saved to
+  createdAt: string;
+}
+
+/** Create or update body for a schedule */
+export interface ResearchScheduleInput {
+  name?: string;                    // Defaults to the query
+  query: string;
+  studyType: StudyType;
+  intakeAnswers?: IntakeAnswers;
+  cadence: string;
+  isActive?: boolean;
+}
+
+/** Cadences offered in the schedule form; any daily-or-less cron expression is accepted */
+export const RESEARCH_CADENCE_PRESETS: { value: string; label: string }[] = [
+  { value: '0 6 * * 1', label: 'Weekly on Monday' },
+  { value: '0 6 1,15 * *', label: 'Twice a month' },
+  { value: '0 6 1 * *', label: 'Monthly on the 1st' },
+  { value: '0 6 1 1,4,7,10 *', label: 'Quarterly' },
+];
+
 // ============================================
 // ARTIFACT TYPES
 // ============================================
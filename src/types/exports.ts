@@ -0,0 +1,67 @@
+// Export types - shared by the export API and the export builder
+
+export type ExportFormat = 'pdf' | 'xlsx' | 'csv';
+export type ExportContext = 'supplier' | 'portfolio' | 'comparison';
+export type ExportDateRange = 'all' | '30d' | '90d' | '1y';
+export type ExportJobStatus = 'completed' | 'failed';
+
+export type ExportSectionId =
+  | 'summary'
+  | 'risk_scores'
+  | 'trends'
+  | 'factors'
+  | 'events'
+  | 'distribution'
+  | 'supplier_list';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['pdf', 'xlsx', 'csv'];
+export const EXPORT_CONTEXTS: ExportContext[] = ['supplier', 'portfolio', 'comparison'];
+export const EXPORT_DATE_RANGES: ExportDateRange[] = ['all', '30d', '90d', '1y'];
+
+// Sections each context can include, in document order
+export const EXPORT_SECTIONS: Record<ExportContext, ExportSectionId[]> = {
+  supplier: ['summary', 'risk_scores', 'trends', 'factors', 'events'],
+  portfolio: ['summary', 'risk_scores', 'trends', 'distribution', 'supplier_list'],
+  comparison: ['summary', 'risk_scores', 'trends', 'factors'],
+};
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  pdf: 'application/pdf',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv; charset=utf-8',
+};
+
+export const MAX_EXPORT_SUPPLIERS = 500;
+export const MAX_COMPARISON_SUPPLIERS = 4;
+export const MAX_EXPORT_FILENAME_LENGTH = 100;
+// Generated files are kept this long for re-download
+export const EXPORT_RETENTION_DAYS = 30;
+
+export interface ExportRequest {
+  context: ExportContext;
+  format: ExportFormat;
+  filename: string;
+  entityIds: string[]; // Supplier IDs; empty for the whole portfolio
+  sections: ExportSectionId[];
+  dateRange: ExportDateRange;
+  includeRawData: boolean; // Full-resolution score history instead of a trend summary
+}
+
+// A recorded export, without the file itself
+export interface ExportJob {
+  id: string;
+  context: ExportContext;
+  format: ExportFormat;
+  filename: string; // With extension
+  entityIds: string[];
+  sections: ExportSectionId[];
+  dateRange: ExportDateRange;
+  status: ExportJobStatus;
+  error: string | null;
+  byteSize: number | null;
+  rowCount: number | null;
+  omittedFactorCount: number; // Restricted factors left out of the file
+  createdAt: string;
+  expiresAt: string;
+  downloadUrl: string | null; // null once expired or when the export failed
+}
@@ -133,6 +133,7 @@ export interface DetectedIntent {
   requiresDiscovery: boolean; // Should bridge to Supplier Discovery
   // Response escalation
   suggestedResultCount?: number; // Hint for widget vs artifact decision
+  classifiedBy?: 'llm' | 'rules'; // Which classifier produced the category
 }
 
 // Suggestion types for different contexts
@@ -238,6 +239,8 @@ export const INTENT_PATTERNS: Record<IntentCategory, RegExp[]> = {
   ],
   setup_config: [
     /set.?up.*alert/i,
+    /\b(alert|notify|warn) me\b/i,
+    /(create|add|new)\b.*\balert/i,
     /add.*supplier/i,
     /configure/i,
     /import/i,
@@ -380,6 +383,9 @@ const INTENT_PRIORITY: IntentCategory[] = [
   'general',
 ];
 
+// Every intent category, for classifier schemas and evaluation
+export const INTENT_CATEGORIES: IntentCategory[] = [...INTENT_PRIORITY];
+
 // Guard to avoid routing market/price queries into portfolio_overview
 const PORTFOLIO_MARKET_GUARD = /(price|inflation|commodity|market|benchmark|index|forecast|outlook|cpi|ppi)/i;
 const PORTFOLIO_RISK_SIGNAL = /(risk|exposure|distribution|high[- ]?risk|unrated|portfolio risk|risk posture|risk overview)/i;
@@ -515,13 +521,72 @@ const detectSubIntent = (query: string, category: IntentCategory): SubIntent =>
   }
 };
 
+/**
+ * Build the routing result for a category chosen by any classifier, so the
+ * research, discovery and handoff rules stay the same whichever one ran.
+ */
+export const buildDetectedIntent = (
+  query: string,
+  category: IntentCategory,
+  confidence: number,
+  extractedEntities: DetectedIntent['extractedEntities'] = extractEntities(query.toLowerCase().trim())
+): DetectedIntent => {
+  const normalizedQuery = query.toLowerCase().trim();
+  const researchCheck = shouldTriggerResearch(normalizedQuery);
+
+  if (category === 'general') {
+    return {
+      category: 'general',
+      subIntent: 'none',
+      confidence,
+      responseType: 'summary',
+      artifactType: 'none',
+      extractedEntities,
+      requiresHandoff: false,
+      requiresResearch: researchCheck.trigger,
+      researchContext: researchCheck.context,
+      requiresDiscovery: false,
+    };
+  }
+
+  const subIntent = detectSubIntent(normalizedQuery, category);
+
+  // Determine if this sub-intent needs research (web via Perplexity).
+  // NOTE: market_context does NOT auto-trigger research — Gemini already has
+  // Beroe market intelligence. Only specific sub-intents that truly need
+  // external web data (news, events, benchmarks) trigger Perplexity.
+  const needsResearch = researchCheck.trigger ||
+    subIntent === 'benchmark' ||
+    subIntent === 'news_events' ||
+    subIntent === 'industry_context' ||
+    subIntent === 'projections' ||
+    subIntent === 'strategic_advice';
+
+  // Determine if needs discovery module
+  const needsDiscovery = subIntent === 'find_alternatives' ||
+    /find.*(supplier|alternative|option)/i.test(normalizedQuery);
+
+  return {
+    category,
+    subIntent,
+    confidence,
+    responseType: getResponseTypeForIntent(category),
+    artifactType: getArtifactTypeForIntent(category),
+    extractedEntities,
+    requiresHandoff: category === 'restricted_query',
+    handoffReason: category === 'restricted_query'
+      ? 'Detailed factor scores require dashboard access due to partner data restrictions.'
+      : undefined,
+    requiresResearch: needsResearch,
+    researchContext: needsResearch ? researchCheck.context || normalizedQuery : undefined,
+    requiresDiscovery: needsDiscovery,
+  };
+};
+
 // Function to classify intent
 export const classifyIntent = (query: string): DetectedIntent => {
   const normalizedQuery = query.toLowerCase().trim();
 
-  // Check for research triggers first
-  const researchCheck = shouldTriggerResearch(normalizedQuery);
-
   // Check each intent category in priority order
   for (const category of INTENT_PRIORITY) {
     if (
@@ -533,60 +598,26 @@ export const classifyIntent = (query: string): DetectedIntent => {
     }
 
     const patterns = INTENT_PATTERNS[category] || [];
-    for (const pattern of patterns) {
-      if (pattern.test(normalizedQuery)) {
-        const intentCategory = category;
-        const subIntent = detectSubIntent(normalizedQuery, intentCategory);
-
-        // Determine if this sub-intent needs research (web via Perplexity).
-        // NOTE: market_context does NOT auto-trigger research — Gemini already has
-        // Beroe market intelligence. Only specific sub-intents that truly need
-        // external web data (news, events, benchmarks) trigger Perplexity.
-        const needsResearch = researchCheck.trigger ||
-          subIntent === 'benchmark' ||
-          subIntent === 'news_events' ||
-          subIntent === 'industry_context' ||
-          subIntent === 'projections' ||
-          subIntent === 'strategic_advice';
-
-        // Determine if needs discovery module
-        const needsDiscovery = subIntent === 'find_alternatives' ||
-          /find.*(supplier|alternative|option)/i.test(normalizedQuery);
-
-        return {
-          category: intentCategory,
-          subIntent,
-          confidence: 0.85,
-          responseType: getResponseTypeForIntent(intentCategory),
-          artifactType: getArtifactTypeForIntent(intentCategory),
-          extractedEntities: extractEntities(normalizedQuery),
-          requiresHandoff: intentCategory === 'restricted_query',
-          handoffReason: intentCategory === 'restricted_query'
-            ? 'Detailed factor scores require dashboard access due to partner data restrictions.'
-            : undefined,
-          requiresResearch: needsResearch,
-          researchContext: needsResearch ? researchCheck.context || normalizedQuery : undefined,
-          requiresDiscovery: needsDiscovery,
-        };
-      }
+    if (patterns.some((pattern) => pattern.test(normalizedQuery))) {
+      return { ...buildDetectedIntent(normalizedQuery, category, 0.85), classifiedBy: 'rules' };
     }
   }
 
   // Fallback to general
-  return {
-    category: 'general',
-    subIntent: 'none',
-    confidence: 0.5,
-    responseType: 'summary',
-    artifactType: 'none',
-    extractedEntities: extractEntities(normalizedQuery),
-    requiresHandoff: false,
-    requiresResearch: researchCheck.trigger,
-    researchContext: researchCheck.context,
-    requiresDiscovery: false,
-  };
+  return { ...buildDetectedIntent(normalizedQuery, 'general', 0.5), classifiedBy: 'rules' };
 };
 
+// Supplier regions, matching Supplier['location']['region']
+export const ENTITY_REGIONS = [
+  'North America',
+  'Europe',
+  'Asia Pacific',
+  'Latin America',
+  'Middle East',
+  'Africa',
+] as const;
+export type EntityRegion = typeof ENTITY_REGIONS[number];
+
 const getResponseTypeForIntent = (intent: IntentCategory): ResponseType => {
   switch (intent) {
     case 'portfolio_overview': return 'widget';
@@ -637,11 +668,11 @@ const getArtifactTypeForIntent = (intent: IntentCategory): ArtifactType => {
   }
 };
 
-const extractEntities = (query: string): DetectedIntent['extractedEntities'] => {
+export const extractEntities = (query: string): DetectedIntent['extractedEntities'] => {
   const entities: DetectedIntent['extractedEntities'] = {};
 
   // Extract risk level
-  const riskMatch = query.match(/(high|medium-high|medium|low)\s*risk/i);
+  const riskMatch = query.match(/(high|medium-high|medium|low)[\s-]*risk/i);
   if (riskMatch) entities.riskLevel = riskMatch[1].toLowerCase();
 
   // Extract region - use word boundaries to avoid false positives (e.g., "us" in "status")
@@ -649,8 +680,10 @@ const extractEntities = (query: string): DetectedIntent['extractedEntities'] =>
     'North America': /\b(north\s+america|usa|united\s+states|canada|mexico)\b/i,
     'Europe': /\b(europe|european|eu|uk|united\s+kingdom|germany|france|belgium|netherlands)\b/i,
     'Asia Pacific': /\b(asia|asia\s+pacific|apac|china|japan|india|singapore|thailand|vietnam|korea)\b/i,
-    'Latin America': /\b(latin\s+america|south\s+america|brazil|chile|argentina|colombia)\b/i,
-  };
+    'Latin America': /\b(latin\s+america|south\s+america|brazil|chile|argentina|colombia|peru)\b/i,
+    'Middle East': /\b(middle\s+east|mena|gcc|uae|united\s+arab\s+emirates|saudi(\s+arabia)?|qatar|israel|turkey|türkiye)\b/i,
+    'Africa': /\b(africa|african|nigeria|kenya|egypt|morocco|ghana|ethiopia)\b/i,
+  } satisfies Record<EntityRegion, RegExp>;
   for (const [region, pattern] of Object.entries(regionPatterns)) {
     if (pattern.test(query)) {
       entities.region = region;
@@ -4,19 +4,28 @@ export type NotificationType =
   | 'approval_update'    // Request approved/denied/escalated
   | 'alert_triggered'    // Risk alert fired
   | 'badge_awarded'      // New badge earned
+  | 'answer_received'    // Someone answered the user's question
   | 'reputation_change'  // Reputation milestone reached
+  | 'report_ready'       // Scheduled research run finished (or was skipped)
   | 'system';            // System announcements
 
 export type AlertSeverity = 'info' | 'warning' | 'critical';
 export type BadgeTier = 'bronze' | 'silver' | 'gold';
-export type ApprovalStatus = 'approved' | 'denied' | 'escalated' | 'pending';
+export type ApprovalStatus = 'approved' | 'denied' | 'escalated' | 'pending' | 'expired' | 'fulfilled';
 
 export interface NotificationMetadata {
   requestId?: string;              // For approval_update
   approvalStatus?: ApprovalStatus; // For approval_update icon/color
   alertSeverity?: AlertSeverity;   // For alert_triggered
+  ruleId?: string;                 // For alert_triggered
+  supplierId?: string;             // For alert_triggered
   badgeTier?: BadgeTier;           // For badge_awarded
+  badgeSlug?: string;              // For badge_awarded
+  questionId?: string;             // For answer_received
+  answerId?: string;               // For answer_received
   reputationTier?: string;         // For reputation_change
+  reportId?: string;               // For report_ready
+  scheduleId?: string;             // For report_ready
 }
 
 export interface NotificationAction {
@@ -24,6 +33,12 @@ export interface NotificationAction {
   onClick: string;  // Action identifier
 }
 
+// Unread badge polling response from /api/notifications/unread-count
+export interface NotificationUnreadStatus {
+  unreadCount: number;
+  latestAt: string | null;  // Newest notification, to tell when the list is stale
+}
+
 export interface AppNotification {
   id: string;
   type: NotificationType;
@@ -1,6 +1,8 @@
 // Upgrade request and approval workflow types
 // Matches schema in server/migrations/002_approval_workflow.sql
 
+import type { SupplierAssessmentContext, SupplierAssessmentResult } from './assessments';
+
 // ============================================================================
 // ENUMS
 // ============================================================================
@@ -32,10 +34,12 @@ export type RequestType =
   | 'report_upgrade'
   | 'expert_consult'
   | 'expert_deepdive'
-  | 'bespoke_project';
+  | 'bespoke_project'
+  | 'supplier_assessment'
+  | 'deep_research';
 
 // Request context - what prompted this request
-export interface RequestContext {
+export interface RequestContext extends Partial<SupplierAssessmentContext> {
   reportId?: string;
   reportTitle?: string;
   categoryId?: string;
@@ -70,9 +74,10 @@ export interface UpgradeRequest {
 
   // Approval workflow
   requiresApproval: boolean;
-  approvalLevel: 'auto' | 'approver' | 'admin';
+  approvalLevel: ApprovalLevel;
   approverId?: string;
   approverName?: string;
+  onBehalfOf?: string | null;  // Set when the request sits in a queue delegated to the viewer
   approvalNote?: string;
   approvedAt?: string;
   deniedAt?: string;
@@ -101,7 +106,7 @@ export const APPROVAL_THRESHOLDS = {
 } as const;
 
 // Determine what approval level is needed
-export type ApprovalLevel = 'auto' | 'approver' | 'admin';
+export type ApprovalLevel = 'auto' | 'approver' | 'admin' | 'owner';
 
 export function getApprovalLevel(credits: number): ApprovalLevel {
   if (credits < APPROVAL_THRESHOLDS.autoApprove) return 'auto';
@@ -118,6 +123,8 @@ export function getApprovalLevelDisplay(level: ApprovalLevel): string {
       return 'Requires team approver';
     case 'admin':
       return 'Requires admin approval';
+    case 'owner':
+      return 'Requires owner approval';
   }
 }
 
@@ -162,6 +169,16 @@ export function getRequestTypeDisplay(type: RequestType): { label: string; descr
         label: 'Bespoke Project',
         description: 'Custom research project with deliverables',
       };
+    case 'supplier_assessment':
+      return {
+        label: 'Supplier Assessment',
+        description: 'Analyst risk assessment of an unrated or stale supplier',
+      };
+    case 'deep_research':
+      return {
+        label: 'Deep Research',
+        description: 'AI research study, charged when the report is ready',
+      };
   }
 }
 
@@ -214,14 +231,65 @@ export interface ApprovalRule {
   minCredits: number;
   maxCredits: number | null;
 
+  // Match filters (null = any)
+  requestType: RequestType | null;
+  teamId: string | null;
+  category: string | null;
+
   approverRole: ApprovalLevel;
   escalationHours: number | null;
   escalateTo: 'approver' | 'admin' | null;
+  steps: ApprovalStepDefinition[] | null;
 
   priority: number;
   isActive: boolean;
 }
 
+// One step in a rule's approval chain
+export interface ApprovalStepDefinition {
+  approverRole: Exclude<ApprovalLevel, 'auto'>;
+  escalationHours?: number | null;
+  minCredits?: number;  // Step only applies at or above this amount
+}
+
+export type ApprovalStepStatus = 'waiting' | 'active' | 'approved' | 'denied' | 'skipped';
+
+// A step in a request's approval chain
+export interface ApprovalStep {
+  id: string;
+  requestId: string;
+  stepOrder: number;
+  approverRole: Exclude<ApprovalLevel, 'auto'>;
+  status: ApprovalStepStatus;
+  approverId?: string | null;
+  decidedBy?: string | null;
+  decisionReason?: string | null;
+  activatedAt?: string | null;
+  decidedAt?: string | null;
+}
+
+// ============================================================================
+// DELEGATION (Out of office)
+// ============================================================================
+
+export interface ApprovalDelegation {
+  id: string;
+  companyId: string;
+  delegatorId: string;
+  delegateId: string;
+  startsAt: string;
+  endsAt: string;
+  reason?: string | null;
+  revokedAt?: string | null;
+  createdAt: string;
+}
+
+export interface DelegationCandidate {
+  userId: string;
+  displayName: string;
+  email: string;
+}
+
 // ============================================================================
 // API REQUESTS
 // ============================================================================
@@ -251,6 +319,14 @@ export interface DenyRequestPayload {
   reason: string;  // Required for denials
 }
 
+/**
+ * Fulfill an approved request
+ */
+export interface FulfillRequestPayload {
+  actualCredits?: number;
+  assessment?: SupplierAssessmentResult;  // Required for supplier_assessment
+}
+
 /**
  * Query params for listing requests
  */
@@ -313,6 +389,7 @@ export interface CancelRequestResponse {
 export interface RequestWithEvents {
   request: UpgradeRequest;
   events: ApprovalEvent[];
+  steps?: ApprovalStep[];
   hold?: {
     id: string;
     amount: number;
@@ -329,6 +406,25 @@ export interface ApprovalQueueResponse {
   nearingEscalation: UpgradeRequest[];  // < 4 hours to SLA
 }
 
+/**
+ * Delegations given and received by the current user
+ */
+export interface GetDelegationsResponse {
+  outgoing: ApprovalDelegation[];
+  incoming: ApprovalDelegation[];
+  candidates: DelegationCandidate[];
+}
+
+/**
+ * Create a delegation
+ */
+export interface CreateDelegationPayload {
+  delegateId: string;
+  startsAt?: string;
+  endsAt: string;
+  reason?: string;
+}
+
 /**
  * Paginated request list
  */
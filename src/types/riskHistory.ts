@@ -0,0 +1,49 @@
+// Risk score history types - dated supplier score series from supplier_risk_score_history
+
+import type { RiskLevel } from './supplier';
+
+export type RiskHistoryRange = '30d' | '90d' | '1y' | '3y';
+
+export const RISK_HISTORY_RANGE_DAYS: Record<RiskHistoryRange, number> = {
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+  '3y': 3 * 365,
+};
+
+export const DEFAULT_HISTORY_POINTS = 60;
+export const MAX_HISTORY_POINTS = 500;
+
+// A factor's score at one point; restricted factors are listed without a score
+export interface RiskFactorHistoryValue {
+  id: string;
+  name: string;
+  score: number | null;
+  restricted: boolean;
+}
+
+// One point in the series - a single recorded score, or the mean of a bucket when downsampled
+export interface RiskScoreHistoryPoint {
+  date: string; // ISO - the latest recording in the bucket
+  score: number;
+  min: number;
+  max: number;
+  level: RiskLevel;
+  samples: number;
+  factors?: RiskFactorHistoryValue[];
+}
+
+export interface RiskScoreHistory {
+  supplierId: string;
+  from: string;
+  to: string;
+  downsampled: boolean;
+  points: RiskScoreHistoryPoint[];
+}
+
+/**
+ * Start of a named range, counted back from `now`
+ */
+export function getRiskHistoryRangeStart(range: RiskHistoryRange, now: Date = new Date()): Date {
+  return new Date(now.getTime() - RISK_HISTORY_RANGE_DAYS[range] * 24 * 60 * 60 * 1000);
+}
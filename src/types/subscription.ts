@@ -99,6 +99,20 @@ export const SUBSCRIPTION_TIERS: Record<SubscriptionTier, SubscriptionTierConfig
   },
 };
 
+// Credit rollover policy applied when a subscription period closes
+export interface CreditRolloverPolicy {
+  maxRolloverPercent: number;         // Share of the period grant that may carry forward
+  maxRolloverCredits: number | null;  // Absolute cap (null = no cap)
+}
+
+export const CREDIT_ROLLOVER_POLICIES: Record<SubscriptionTier, CreditRolloverPolicy> = {
+  starter: { maxRolloverPercent: 0, maxRolloverCredits: 0 },
+  professional: { maxRolloverPercent: 10, maxRolloverCredits: 5000 },
+  business: { maxRolloverPercent: 20, maxRolloverCredits: 15000 },
+  enterprise: { maxRolloverPercent: 25, maxRolloverCredits: null },
+  custom: { maxRolloverPercent: 0, maxRolloverCredits: 0 },  // Negotiated per contract
+};
+
 // Credit transaction types
 export type CreditTransactionType =
   | 'allocation'       // Initial or top-up allocation
@@ -108,6 +122,7 @@ export type CreditTransactionType =
   | 'expert_consult'   // Expert consultation - 1,000 credits
   | 'expert_deepdive'  // Expert deep-dive - 3,000 credits
   | 'bespoke_project'  // Bespoke project - 5,000-15,000 credits
+  | 'supplier_assessment'  // Supplier risk assessment - 800 credits
   | 'refund'           // Credit refund
   | 'adjustment';      // Manual adjustment
 
@@ -160,6 +175,12 @@ export const CREDIT_COSTS: Record<string, { min: number; max: number; typical: n
     typical: 8000,
     label: 'Bespoke Research Project',
   },
+  supplier_assessment: {
+    min: 800,
+    max: 800,
+    typical: 800,
+    label: 'Supplier Risk Assessment',
+  },
 };
 
 // Subscription state for a company
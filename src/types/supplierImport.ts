@@ -0,0 +1,65 @@
+// Supplier list import types - shared by the import API and the review screen
+
+// How a row was matched to an existing supplier
+export type SupplierImportMatchType = 'duns' | 'name_country' | 'name' | 'none';
+
+// What confirming the import does with a row
+export type SupplierImportDecision = 'match' | 'create' | 'skip';
+
+export type SupplierImportStatus = 'pending_review' | 'confirmed' | 'cancelled';
+
+export const SUPPLIER_IMPORT_DECISIONS: SupplierImportDecision[] = ['match', 'create', 'skip'];
+
+// Matches below this are suggested but flagged for review
+export const IMPORT_REVIEW_CONFIDENCE = 0.85;
+// Below this no match is suggested and the row becomes a new supplier
+export const IMPORT_MATCH_CONFIDENCE = 0.6;
+
+export interface SupplierImportMatch {
+  supplierId: string;
+  supplierName: string;
+  country: string;
+  matchType: Exclude<SupplierImportMatchType, 'none'>;
+  confidence: number; // 0-1
+}
+
+export interface SupplierImportRow {
+  rowNumber: number; // 1-based among the file's non-blank rows, header included
+  name: string;
+  duns: string | null;
+  country: string | null;
+  category: string | null;
+  spend: number | null;
+  match: SupplierImportMatch | null;
+  decision: SupplierImportDecision;
+  issues: string[];
+}
+
+export interface SupplierImportSummary {
+  total: number;
+  matched: number;
+  toCreate: number;
+  skipped: number;
+  needsReview: number;
+}
+
+export interface SupplierImportPreview {
+  id: string;
+  fileName: string;
+  status: SupplierImportStatus;
+  rows: SupplierImportRow[];
+  summary: SupplierImportSummary;
+  createdAt: string;
+}
+
+// Review edits sent back before confirming
+export interface SupplierImportDecisionUpdate {
+  rowNumber: number;
+  decision: SupplierImportDecision;
+}
+
+export interface SupplierImportResult {
+  followed: number;
+  created: number;
+  skipped: number;
+}
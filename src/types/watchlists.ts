@@ -0,0 +1,68 @@
+// Portfolio & watchlist types - shared by the portfolio API, the watchlist artifact and chat
+
+import type { RiskLevel } from './supplier.js';
+
+// A followed supplier as returned by /api/portfolio
+export interface PortfolioEntry {
+  supplierId: string;
+  supplierName: string;
+  category: string;
+  country: string;
+  score: number | null;
+  level: RiskLevel;
+  notes: string | null;
+  alertsEnabled: boolean;
+  spend: number | null; // from a supplier list import
+  addedAt: string;
+  watchlistIds: string[];
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  supplierCount: number;
+  createdAt: string;
+}
+
+// Search result with the caller's follow state
+export interface SupplierSearchResult {
+  id: string;
+  name: string;
+  category: string;
+  country: string;
+  score: number | null;
+  level: RiskLevel;
+  isFollowed: boolean;
+}
+
+// Suppliers can be targeted by id or, from chat, by name
+export interface SupplierTarget {
+  supplierIds?: string[];
+  supplierNames?: string[];
+}
+
+export type PortfolioBulkAction =
+  | 'follow'
+  | 'unfollow'
+  | 'enable_alerts'
+  | 'disable_alerts'
+  | 'add_to_watchlist'
+  | 'remove_from_watchlist';
+
+export const PORTFOLIO_BULK_ACTIONS: PortfolioBulkAction[] = [
+  'follow',
+  'unfollow',
+  'enable_alerts',
+  'disable_alerts',
+  'add_to_watchlist',
+  'remove_from_watchlist',
+];
+
+export interface PortfolioBulkResult {
+  // Suppliers the action changed
+  updated: Array<{ id: string; name: string }>;
+  // Matched suppliers already in the requested state
+  unchanged: Array<{ id: string; name: string }>;
+  // Names from the request that matched no single supplier
+  notFound: string[];
+}
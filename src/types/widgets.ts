@@ -321,6 +321,7 @@ export interface TrendChartData {
   changeSummary: string;
   unit?: string;
   suppliers?: string[];  // If tracking specific suppliers
+  supplierId?: string;   // Loads the dated score history for this supplier; dataPoints are the fallback
 }
 
 export interface AlertCardData {
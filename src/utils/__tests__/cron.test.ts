@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { getNextCronRun, parseCron, type CronSchedule } from '../cron';
+
+const schedule = (expression: string): CronSchedule => {
+  const parsed = parseCron(expression);
+  if ('error' in parsed) throw new Error(parsed.error);
+  return parsed.schedule;
+};
+
+const nextRun = (expression: string, after: string): string | undefined =>
+  getNextCronRun(schedule(expression), new Date(after))?.toISOString();
+
+describe('parseCron', () => {
+  it('expands wildcards, ranges, steps and lists', () => {
+    expect(schedule('*/15 9-17/4 1,15 * 1-5')).toMatchObject({
+      minutes: [0, 15, 30, 45],
+      hours: [9, 13, 17],
+      daysOfMonth: [1, 15],
+      months: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+      daysOfWeek: [1, 2, 3, 4, 5],
+      dayOfMonthRestricted: true,
+      dayOfWeekRestricted: true,
+    });
+  });
+
+  it('accepts aliases and treats 7 as Sunday', () => {
+    expect(schedule('@weekly')).toMatchObject({ minutes: [0], hours: [0], daysOfWeek: [0] });
+    expect(schedule('30 6 * * 5,7').daysOfWeek).toEqual([0, 5]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(parseCron('0 6 * *')).toEqual({ error: expect.stringContaining('five fields') });
+    expect(parseCron('60 * * * *')).toEqual({ error: 'Invalid minute field: "60"' });
+    expect(parseCron('0 9-5 * * *')).toEqual({ error: 'Invalid hour field: "9-5"' });
+    expect(parseCron('0 0 0 * *')).toEqual({ error: 'Invalid day-of-month field: "0"' });
+    expect(parseCron('0 0 * jan *')).toEqual({ error: 'Invalid month field: "jan"' });
+    expect(parseCron('*/0 * * * *')).toEqual({ error: 'Invalid minute field: "*/0"' });
+  });
+});
+
+describe('getNextCronRun', () => {
+  it('finds the next matching minute strictly after the given time', () => {
+    expect(nextRun('0 6 * * *', '2026-03-10T05:59:30Z')).toBe('2026-03-10T06:00:00.000Z');
+    expect(nextRun('0 6 * * *', '2026-03-10T06:00:00Z')).toBe('2026-03-11T06:00:00.000Z');
+  });
+
+  it('rolls over months and years', () => {
+    expect(nextRun('0 8 1 * *', '2026-12-15T00:00:00Z')).toBe('2027-01-01T08:00:00.000Z');
+    expect(nextRun('0 0 29 2 *', '2026-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 2026-03-15 is a Sunday, the day before the next Monday
+    expect(nextRun('0 0 15 * 1', '2026-03-10T00:00:00Z')).toBe('2026-03-15T00:00:00.000Z');
+    expect(nextRun('0 0 * * 1', '2026-03-10T00:00:00Z')).toBe('2026-03-16T00:00:00.000Z');
+  });
+
+  it('returns null for a date that never occurs', () => {
+    expect(nextRun('0 0 31 2 *', '2026-01-01T00:00:00Z')).toBeUndefined();
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { diffReports, hasReportChanges, summarizeReportDiff } from '../reportDiff';
+import type { DeepResearchReport, ReportSection, ReportVisual } from '../../types/deepResearch';
+
+const section = (id: string, title: string, content: string, overrides: Partial<ReportSection> = {}): ReportSection => ({
+  id,
+  title,
+  content,
+  level: 1,
+  citationIds: [],
+  ...overrides,
+});
+
+const report = (sections: ReportSection[], keyFinding?: string): DeepResearchReport =>
+  ({ id: 'report', title: 'Aluminum Outlook', keyFinding, sections }) as DeepResearchReport;
+
+describe('diffReports', () => {
+  it('classifies sections as added, removed, changed or unchanged', () => {
+    const previous = report([
+      section('summary', 'Summary', 'Prices rose 4%.'),
+      section('drivers', 'Drivers', 'Energy costs.'),
+      section('outlook', 'Outlook', 'Stable.'),
+    ]);
+    const current = report([
+      section('summary', 'Summary', 'Prices rose 4%.'),
+      section('drivers', 'Drivers', 'Energy costs and tariffs.'),
+      section('risks', 'Risks', 'Smelter outages.'),
+    ]);
+
+    const diff = diffReports({ version: 1, report: previous }, { version: 2, report: current });
+
+    expect(diff.fromVersion).toBe(1);
+    expect(diff.toVersion).toBe(2);
+    expect(diff.sections.map((s) => [s.sectionId, s.status])).toEqual([
+      ['summary', 'unchanged'],
+      ['drivers', 'changed'],
+      ['risks', 'added'],
+      ['outlook', 'removed'],
+    ]);
+    expect(diff.sections[1]).toMatchObject({
+      changes: ['content'],
+      previousContent: 'Energy costs.',
+      content: 'Energy costs and tariffs.',
+    });
+    expect(hasReportChanges(diff)).toBe(true);
+  });
+
+  it('matches renumbered sections by title and includes subsections', () => {
+    const previous = report([
+      section('s1', 'Market Overview', 'Demand is flat.', {
+        children: [section('s1a', 'Pricing', 'Up 2%.', { level: 2, citationIds: ['1'] })],
+      }),
+    ]);
+    const current = report([
+      section('section-1', 'Market  overview', 'Demand is flat.', {
+        children: [section('section-1a', 'Pricing', 'Up 2%.', { level: 2, citationIds: ['1', '2'] })],
+      }),
+    ]);
+
+    const diff = diffReports({ version: 1, report: previous }, { version: 2, report: current });
+
+    expect(diff.sections).toHaveLength(2);
+    expect(diff.sections[0].status).toBe('unchanged');
+    expect(diff.sections[1]).toMatchObject({ title: 'Pricing', status: 'changed', changes: ['citations'] });
+    expect(diff.sections[1].previousContent).toBeUndefined();
+  });
+
+  it('reports visual and key finding changes', () => {
+    const metric = (value: string): ReportVisual => ({
+      id: 'v1',
+      type: 'metric',
+      title: 'LME price',
+      sourceIds: ['1'],
+      confidence: 'high',
+      data: { metrics: [{ label: 'Cash', value }] },
+    });
+    const previous = report([section('prices', 'Prices', 'Text', { visuals: [metric('$2,300')] })], 'Prices up 4%');
+    const current = report([section('prices', 'Prices', 'Text', { visuals: [metric('$2,450')] })], 'Prices up 9%');
+
+    const diff = diffReports({ version: 2, report: previous }, { version: 3, report: current });
+
+    expect(diff.sections[0].changes).toEqual(['visuals']);
+    expect(diff.keyFinding).toEqual({ previous: 'Prices up 4%', current: 'Prices up 9%' });
+  });
+
+  it('finds no changes between identical versions', () => {
+    const sections = [section('summary', 'Summary', 'Same.', { citationIds: ['2', '1'] })];
+    const diff = diffReports(
+      { version: 1, report: report(sections, 'Flat') },
+      { version: 2, report: report([{ ...sections[0], citationIds: ['1', '2'] }], 'Flat') }
+    );
+
+    expect(diff.keyFinding).toBeNull();
+    expect(hasReportChanges(diff)).toBe(false);
+  });
+});
+
+describe('summarizeReportDiff', () => {
+  it('summarizes the key finding and section changes', () => {
+    const previous = report([
+      section('drivers', 'Drivers', 'Energy costs.'),
+      section('outlook', 'Outlook', 'Stable.'),
+      section('summary', 'Summary', 'Flat.'),
+    ], 'Prices up 4%');
+    const current = report([
+      section('drivers', 'Drivers', 'Energy costs and tariffs.'),
+      section('outlook', 'Outlook', 'Tightening.'),
+      section('summary', 'Summary', 'Flat.'),
+      section('risks', 'Risks', 'Smelter outages.'),
+    ], 'Prices up 9%');
+
+    const diff = diffReports({ version: 1, report: previous }, { version: 2, report: current });
+
+    expect(summarizeReportDiff(diff)).toBe(
+      'Key finding updated: Prices up 9%. 2 sections changed (Drivers, Outlook); 1 added (Risks).'
+    );
+  });
+
+  it('says so when nothing changed', () => {
+    const sections = [section('summary', 'Summary', 'Same.')];
+    const diff = diffReports({ version: 3, report: report(sections) }, { version: 4, report: report(sections) });
+
+    expect(summarizeReportDiff(diff)).toBe('No changes since v3.');
+  });
+});
@@ -0,0 +1,169 @@
+// Cron
+// Five-field cron expressions (minute hour day-of-month month day-of-week), evaluated in UTC
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];       // 1-12
+  daysOfWeek: number[];   // 0-6, Sunday is 0
+  /** True when day-of-month is restricted (not "*") - see matchesDay */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day-of-week', min: 0, max: 7 },
+];
+
+export const CRON_ALIASES: Record<string, string> = {
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+};
+
+// Searching further than this means the expression can't match (e.g. "0 0 31 2 *")
+const MAX_SEARCH_YEARS = 5;
+
+// ============================================
+// PARSER
+// ============================================
+
+const parseNumber = (value: string, field: FieldSpec): number | null => {
+  if (!/^\d+$/.test(value)) return null;
+  const parsed = Number(value);
+  return parsed >= field.min && parsed <= field.max ? parsed : null;
+};
+
+/** Expand one field - a value, range or wildcard, optionally stepped, or a list of these - into sorted values */
+const parseField = (value: string, field: FieldSpec): number[] | null => {
+  const values = new Set<number>();
+
+  for (const part of value.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined) return null;
+
+    const step = stepText === undefined ? 1 : parseNumber(stepText, { ...field, min: 1 });
+    if (step === null) return null;
+
+    let start: number | null;
+    let end: number | null;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to, rest] = range.split('-');
+      start = rest === undefined ? parseNumber(from, field) : null;
+      end = parseNumber(to, field);
+    } else {
+      start = parseNumber(range, field);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : field.max;
+    }
+    if (start === null || end === null || start > end) return null;
+
+    for (let n = start; n <= end; n += step) {
+      values.add(n);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+};
+
+/**
+ * Parse a five-field cron expression or one of the @daily/@weekly/@monthly/@yearly aliases.
+ * Month and weekday names are not supported.
+ */
+export const parseCron = (expression: string): { schedule: CronSchedule } | { error: string } => {
+  const normalized = expression.trim().toLowerCase();
+  const fields = (CRON_ALIASES[normalized] ?? normalized).split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    return { error: 'A cron expression needs five fields: minute hour day-of-month month day-of-week' };
+  }
+
+  const parsed: number[][] = [];
+  for (let i = 0; i < FIELDS.length; i++) {
+    const values = parseField(fields[i], FIELDS[i]);
+    if (!values) {
+      return { error: `Invalid ${FIELDS[i].name} field: "${fields[i]}"` };
+    }
+    parsed.push(values);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsed;
+  return {
+    schedule: {
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      // 7 is another way to write Sunday
+      daysOfWeek: [...new Set(daysOfWeek.map((day) => day % 7))].sort((a, b) => a - b),
+      dayOfMonthRestricted: fields[2] !== '*',
+      dayOfWeekRestricted: fields[4] !== '*',
+    },
+  };
+};
+
+// ============================================
+// NEXT RUN
+// ============================================
+
+/**
+ * Standard cron semantics: when both day fields are restricted, a day matches
+ * if either does ("0 0 1 * 1" runs on the 1st and on every Monday)
+ */
+const matchesDay = (schedule: CronSchedule, date: Date): boolean => {
+  const dayOfMonth = schedule.daysOfMonth.includes(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.includes(date.getUTCDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+};
+
+/**
+ * First time strictly after `after` that the schedule fires, or null if it
+ * never does within the next few years
+ */
+export const getNextCronRun = (schedule: CronSchedule, after: Date): Date | null => {
+  const next = new Date(after.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  const limit = new Date(after.getTime());
+  limit.setUTCFullYear(limit.getUTCFullYear() + MAX_SEARCH_YEARS);
+
+  while (next <= limit) {
+    if (!schedule.months.includes(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0);
+    } else if (!schedule.hours.includes(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.includes(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1);
+    } else {
+      return next;
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,144 @@
+// Report Diff
+// Section-level comparison of two versions of a deep research report
+
+import type {
+  DeepResearchReport,
+  ReportDiff,
+  ReportSection,
+  ReportSectionChange,
+  ReportSectionDiff,
+} from '../types/deepResearch';
+
+interface ReportVersion {
+  version: number;
+  report: DeepResearchReport;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/** Sections in reading order, with nested subsections after their parent */
+const flattenReportSections = (sections: ReportSection[]): ReportSection[] =>
+  sections.flatMap((section) => [section, ...flattenReportSections(section.children ?? [])]);
+
+const normalizeTitle = (title: string): string => title.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const sameList = (a: string[], b: string[]): boolean => {
+  const sortedB = [...b].sort();
+  return a.length === b.length && [...a].sort().every((item, i) => item === sortedB[i]);
+};
+
+const getSectionChanges = (previous: ReportSection, current: ReportSection): ReportSectionChange[] => {
+  const changes: ReportSectionChange[] = [];
+  if (previous.content.trim() !== current.content.trim()) {
+    changes.push('content');
+  }
+  if (!sameList(previous.citationIds ?? [], current.citationIds ?? [])) {
+    changes.push('citations');
+  }
+  if (JSON.stringify(previous.visuals ?? []) !== JSON.stringify(current.visuals ?? [])) {
+    changes.push('visuals');
+  }
+  return changes;
+};
+
+// ============================================
+// DIFF
+// ============================================
+
+/**
+ * Compare two versions of a report section by section.
+ * Sections are matched by ID, then by title, since a re-run can renumber sections.
+ * Results follow the current version's order, with removed sections last.
+ */
+export const diffReports = (previous: ReportVersion, current: ReportVersion): ReportDiff => {
+  const previousSections = flattenReportSections(previous.report.sections);
+  const unmatched = new Map(previousSections.map((section) => [section.id, section]));
+
+  const takeMatch = (section: ReportSection): ReportSection | undefined => {
+    let match = unmatched.get(section.id);
+    if (!match) {
+      const title = normalizeTitle(section.title);
+      match = [...unmatched.values()].find((candidate) => normalizeTitle(candidate.title) === title);
+    }
+    if (match) unmatched.delete(match.id);
+    return match;
+  };
+
+  const sections: ReportSectionDiff[] = flattenReportSections(current.report.sections).map((section) => {
+    const match = takeMatch(section);
+    if (!match) {
+      return { sectionId: section.id, title: section.title, status: 'added', changes: [], content: section.content };
+    }
+
+    const changes = getSectionChanges(match, section);
+    return {
+      sectionId: section.id,
+      title: section.title,
+      status: changes.length > 0 ? 'changed' : 'unchanged',
+      changes,
+      ...(changes.includes('content') ? { previousContent: match.content, content: section.content } : {}),
+    };
+  });
+
+  for (const section of unmatched.values()) {
+    sections.push({ sectionId: section.id, title: section.title, status: 'removed', changes: [], previousContent: section.content });
+  }
+
+  const previousKeyFinding = previous.report.keyFinding?.trim() || null;
+  const currentKeyFinding = current.report.keyFinding?.trim() || null;
+
+  return {
+    fromVersion: previous.version,
+    toVersion: current.version,
+    keyFinding: previousKeyFinding === currentKeyFinding
+      ? null
+      : { previous: previousKeyFinding, current: currentKeyFinding },
+    sections,
+  };
+};
+
+/** True when a diff has any section or key finding change */
+export const hasReportChanges = (diff: ReportDiff): boolean =>
+  diff.keyFinding !== null || diff.sections.some((section) => section.status !== 'unchanged');
+
+// ============================================
+// SUMMARY
+// ============================================
+
+const MAX_SUMMARY_TITLES = 3;
+
+const listTitles = (sections: ReportSectionDiff[]): string => {
+  const titles = sections.slice(0, MAX_SUMMARY_TITLES).map((section) => section.title);
+  const more = sections.length - titles.length;
+  return more > 0 ? `${titles.join(', ')} and ${more} more` : titles.join(', ');
+};
+
+/**
+ * One-paragraph summary of a diff for notifications, e.g.
+ * "Key finding updated: Prices up 9%. 2 sections changed (Drivers, Outlook); 1 added (Risks)."
+ */
+export const summarizeReportDiff = (diff: ReportDiff): string => {
+  if (!hasReportChanges(diff)) {
+    return `No changes since v${diff.fromVersion}.`;
+  }
+
+  const parts: string[] = [];
+  if (diff.keyFinding) {
+    parts.push(diff.keyFinding.current ? `Key finding updated: ${diff.keyFinding.current}` : 'Key finding removed');
+  }
+
+  const groups = (['changed', 'added', 'removed'] as const)
+    .map((status) => ({ status, sections: diff.sections.filter((section) => section.status === status) }))
+    .filter((group) => group.sections.length > 0)
+    .map((group, i) => {
+      const noun = i === 0 ? (group.sections.length === 1 ? ' section' : ' sections') : '';
+      return `${group.sections.length}${noun} ${group.status} (${listTitles(group.sections)})`;
+    });
+  if (groups.length > 0) {
+    parts.push(groups.join('; '));
+  }
+
+  return parts.map((part) => (/[.!?]$/.test(part) ? part : `${part}.`)).join(' ');
+};
@@ -0,0 +1,190 @@
+// AccountLinkView - Landing page for links sent by email
+// Handles /verify-email?token= and /reset-password?token= outside the main app shell
+
+import { useState, useEffect, useRef } from 'react';
+import { CheckCircle2, AlertCircle, Loader2 } from 'lucide-react';
+import { apiFetch } from '../services/api';
+
+export type AccountLinkMode = 'verify-email' | 'reset-password';
+
+interface AccountLinkViewProps {
+  mode: AccountLinkMode;
+  token: string | null;
+}
+
+type Status = 'idle' | 'working' | 'done' | 'error';
+
+function Card({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-50 px-4">
+      <div className="w-full max-w-sm p-6 rounded-2xl bg-white border border-slate-200 shadow-sm">
+        <h1 className="text-lg font-medium text-primary mb-4">{title}</h1>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+function Message({ status, text }: { status: Status; text: string }) {
+  const Icon = status === 'done' ? CheckCircle2 : status === 'error' ? AlertCircle : Loader2;
+  const color = status === 'done' ? 'text-emerald-600' : status === 'error' ? 'text-red-600' : 'text-muted';
+  return (
+    <p className={`flex items-start gap-2 text-sm ${color}`}>
+      <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${status === 'working' ? 'animate-spin' : ''}`} />
+      {text}
+    </p>
+  );
+}
+
+function VerifyEmail({ token }: { token: string | null }) {
+  const [status, setStatus] = useState<Status>(token ? 'working' : 'error');
+  const [text, setText] = useState(token ? 'Verifying your email…' : 'This verification link is incomplete.');
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    // Tokens are single-use, so never submit twice (StrictMode double effects)
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    apiFetch('/api/auth/verify-email', { method: 'POST', body: JSON.stringify({ token }) })
+      .then(() => {
+        setStatus('done');
+        setText('Your email is verified. You can close this tab.');
+      })
+      .catch((err) => {
+        setStatus('error');
+        setText(err instanceof Error ? err.message : 'Verification failed');
+      });
+  }, [token]);
+
+  return (
+    <Card title="Verify email">
+      <Message status={status} text={text} />
+      {status !== 'working' && (
+        <a href="/" className="inline-block mt-4 text-sm font-medium text-violet-600 hover:underline">
+          Continue to the app
+        </a>
+      )}
+    </Card>
+  );
+}
+
+function RequestReset() {
+  const [email, setEmail] = useState('');
+  const [status, setStatus] = useState<Status>('idle');
+  const [text, setText] = useState('');
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStatus('working');
+    try {
+      const result = await apiFetch<{ message: string }>('/api/auth/request-password-reset', {
+        method: 'POST',
+        body: JSON.stringify({ email }),
+      });
+      setStatus('done');
+      setText(result.message);
+    } catch (err) {
+      setStatus('error');
+      setText(err instanceof Error ? err.message : 'Request failed');
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-3">
+      <p className="text-sm text-secondary">Enter your email and we'll send you a link to choose a new password.</p>
+      <input
+        type="email"
+        required
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="you@company.com"
+        className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm"
+      />
+      <button
+        type="submit"
+        disabled={status === 'working'}
+        className="w-full py-2 rounded-lg bg-slate-800 text-white text-sm font-medium disabled:opacity-50"
+      >
+        Send reset link
+      </button>
+      {status !== 'idle' && status !== 'working' && <Message status={status} text={text} />}
+    </form>
+  );
+}
+
+function ResetPassword({ token }: { token: string }) {
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [status, setStatus] = useState<Status>('idle');
+  const [text, setText] = useState('');
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirm) {
+      setStatus('error');
+      setText('Passwords do not match');
+      return;
+    }
+
+    setStatus('working');
+    try {
+      await apiFetch('/api/auth/reset-password', {
+        method: 'POST',
+        body: JSON.stringify({ token, password }),
+      });
+      setStatus('done');
+      setText('Your password has been changed and you have been signed out everywhere. Sign in with your new password.');
+    } catch (err) {
+      setStatus('error');
+      setText(err instanceof Error ? err.message : 'Reset failed');
+    }
+  };
+
+  if (status === 'done') {
+    return <Message status={status} text={text} />;
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-3">
+      <input
+        type="password"
+        required
+        autoComplete="new-password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="New password"
+        className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm"
+      />
+      <input
+        type="password"
+        required
+        autoComplete="new-password"
+        value={confirm}
+        onChange={(e) => setConfirm(e.target.value)}
+        placeholder="Confirm new password"
+        className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm"
+      />
+      <button
+        type="submit"
+        disabled={status === 'working'}
+        className="w-full py-2 rounded-lg bg-slate-800 text-white text-sm font-medium disabled:opacity-50"
+      >
+        Change password
+      </button>
+      {status === 'error' && <Message status={status} text={text} />}
+    </form>
+  );
+}
+
+export function AccountLinkView({ mode, token }: AccountLinkViewProps) {
+  if (mode === 'verify-email') {
+    return <VerifyEmail token={token} />;
+  }
+
+  return (
+    <Card title="Reset password">
+      {token ? <ResetPassword token={token} /> : <RequestReset />}
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
 // ApprovalWorkflowView - Queue for pending approval requests
-// Shown to users with approver/admin roles
+// Approver/admin roles review the queue; everyone can follow their own requests
 
 import { useState, useMemo, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -20,8 +20,12 @@ import {
   AlertCircle,
   Loader2,
   RefreshCw,
+  ShieldCheck,
+  Telescope,
 } from 'lucide-react';
 import type { UpgradeRequest, RequestStatus } from '../types/requests';
+import type { SupplierAssessmentResult } from '../types/assessments';
+import { MAX_CHANGE_REASON_LENGTH } from '../types/assessments';
 import {
   getRequestStatusDisplay,
   getRequestTypeDisplay,
@@ -32,7 +36,9 @@ import {
   getRequests,
   approveRequest,
   denyRequest,
+  fulfillRequest,
 } from '../services/approvalService';
+import { DelegationPanel } from '../components/approval/DelegationPanel';
 
 const REQUEST_TYPE_ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
   analyst_qa: MessageSquare,
@@ -41,19 +47,25 @@ const REQUEST_TYPE_ICONS: Record<string, React.ComponentType<{ className?: strin
   expert_consult: Users,
   expert_deepdive: Briefcase,
   bespoke_project: Briefcase,
+  supplier_assessment: ShieldCheck,
+  deep_research: Telescope,
 };
 
+export type ApprovalFilterTab = 'pending' | 'all' | 'mine';
+
 interface ApprovalWorkflowViewProps {
   onBack: () => void;
   userRole?: 'admin' | 'approver' | 'user';
+  initialTab?: ApprovalFilterTab;
 }
 
-type FilterTab = 'pending' | 'all';
-
-export function ApprovalWorkflowView({ onBack, userRole = 'approver' }: ApprovalWorkflowViewProps) {
-  const [activeTab, setActiveTab] = useState<FilterTab>('pending');
+export function ApprovalWorkflowView({ onBack, userRole = 'approver', initialTab }: ApprovalWorkflowViewProps) {
+  const [activeTab, setActiveTab] = useState<ApprovalFilterTab>(
+    initialTab ?? (userRole === 'user' ? 'mine' : 'pending')
+  );
   const [selectedRequest, setSelectedRequest] = useState<UpgradeRequest | null>(null);
   const [requests, setRequests] = useState<UpgradeRequest[]>([]);
+  const [myRequests, setMyRequests] = useState<UpgradeRequest[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -68,8 +80,12 @@ export function ApprovalWorkflowView({ onBack, userRole = 'approver' }: Approval
 
       // Fetch requests - role determines which queue (admin/approver both see approver queue)
       // The canApprove() function handles permission checking based on userRole
-      const response = await getRequests({ role: 'approver', limit: 100 });
-      setRequests(response.requests);
+      const [queue, mine] = await Promise.all([
+        getRequests({ role: 'approver', limit: 100 }),
+        getRequests({ role: 'requester', limit: 100 }),
+      ]);
+      setRequests(queue.requests);
+      setMyRequests(mine.requests);
     } catch (err) {
       console.error('Error fetching requests:', err);
       setError(err instanceof Error ? err.message : 'Failed to load requests');
@@ -94,8 +110,11 @@ export function ApprovalWorkflowView({ onBack, userRole = 'approver' }: Approval
     if (activeTab === 'pending') {
       return pendingRequests;
     }
+    if (activeTab === 'mine') {
+      return myRequests;
+    }
     return requests;
-  }, [activeTab, requests, pendingRequests]);
+  }, [activeTab, requests, myRequests, pendingRequests]);
 
   // Group pending requests by approval level
   const pendingByLevel = useMemo(() => {
@@ -137,6 +156,21 @@ export function ApprovalWorkflowView({ onBack, userRole = 'approver' }: Approval
     }
   };
 
+  // Record the analyst's score against an approved supplier assessment
+  const handleFulfillAssessment = async (requestId: string, assessment: SupplierAssessmentResult) => {
+    try {
+      setActionLoading(requestId);
+      await fulfillRequest(requestId, { assessment });
+      setSelectedRequest(null);
+      await fetchRequests(true);
+    } catch (err) {
+      console.error('Error fulfilling request:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record assessment');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const canApprove = (request: UpgradeRequest): boolean => {
     if (userRole === 'admin') return true;
     if (userRole === 'approver' && request.approvalLevel === 'approver') return true;
@@ -209,9 +243,22 @@ export function ApprovalWorkflowView({ onBack, userRole = 'approver' }: Approval
           >
             All Requests
           </button>
+          <button
+            onClick={() => setActiveTab('mine')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              activeTab === 'mine'
+                ? 'bg-slate-800 text-white'
+                : 'bg-slate-100 text-secondary hover:bg-slate-200'
+            }`}
+          >
+            My Requests ({myRequests.length})
+          </button>
         </div>
       </div>
 
+      {/* Out-of-office delegation */}
+      <DelegationPanel onChange={() => fetchRequests(true)} />
+
       {/* Error Banner */}
       {error && (
         <div className="px-6 py-3 bg-red-50 border-b border-red-100">
@@ -240,8 +287,12 @@ export function ApprovalWorkflowView({ onBack, userRole = 'approver' }: Approval
           ) : filteredRequests.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-full text-center px-6">
               <CheckCircle className="w-12 h-12 text-emerald-400 mb-4" />
-              <h3 className="text-lg font-medium text-primary mb-2">All caught up!</h3>
-              <p className="text-sm text-secondary">No pending requests to review.</p>
+              <h3 className="text-lg font-medium text-primary mb-2">
+                {activeTab === 'mine' ? 'No requests yet' : 'All caught up!'}
+              </h3>
+              <p className="text-sm text-secondary">
+                {activeTab === 'mine' ? 'Requests you submit will appear here.' : 'No pending requests to review.'}
+              </p>
             </div>
           ) : (
             <div className="p-4 space-y-3">
@@ -296,6 +347,18 @@ export function ApprovalWorkflowView({ onBack, userRole = 'approver' }: Approval
                   onClick={() => setSelectedRequest(request)}
                 />
               ))}
+
+              {/* My requests tab */}
+              {activeTab === 'mine' && filteredRequests.map(request => (
+                <RequestCard
+                  key={request.id}
+                  request={request}
+                  isSelected={selectedRequest?.id === request.id}
+                  canApprove={false}
+                  isOwnRequest
+                  onClick={() => setSelectedRequest(request)}
+                />
+              ))}
             </div>
           )}
         </div>
@@ -313,11 +376,14 @@ export function ApprovalWorkflowView({ onBack, userRole = 'approver' }: Approval
             >
               <RequestDetailPanel
                 request={selectedRequest}
-                canApprove={canApprove(selectedRequest)}
+                canApprove={activeTab !== 'mine' && canApprove(selectedRequest)}
+                canFulfill={userRole === 'admin' && activeTab !== 'mine'}
+                isOwnRequest={activeTab === 'mine'}
                 isActionLoading={actionLoading === selectedRequest.id}
                 onClose={() => setSelectedRequest(null)}
                 onApprove={() => handleApprove(selectedRequest.id)}
                 onDeny={(reason) => handleDeny(selectedRequest.id, reason)}
+                onFulfillAssessment={(assessment) => handleFulfillAssessment(selectedRequest.id, assessment)}
               />
             </motion.div>
           )}
@@ -332,10 +398,11 @@ interface RequestCardProps {
   request: UpgradeRequest;
   isSelected: boolean;
   canApprove: boolean;
+  isOwnRequest?: boolean;
   onClick: () => void;
 }
 
-function RequestCard({ request, isSelected, canApprove, onClick }: RequestCardProps) {
+function RequestCard({ request, isSelected, canApprove, isOwnRequest, onClick }: RequestCardProps) {
   const statusDisplay = getRequestStatusDisplay(request.status);
   const typeDisplay = getRequestTypeDisplay(request.type);
   const TypeIcon = REQUEST_TYPE_ICONS[request.type] || FileText;
@@ -400,7 +467,12 @@ function RequestCard({ request, isSelected, canApprove, onClick }: RequestCardPr
                   Can approve
                 </span>
               )}
-              {isPending && !canApprove && (
+              {isPending && request.onBehalfOf && (
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-violet-50 text-violet-600">
+                  Delegated
+                </span>
+              )}
+              {isPending && !canApprove && !isOwnRequest && (
                 <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-500">
                   Admin only
                 </span>
@@ -423,21 +495,39 @@ function RequestCard({ request, isSelected, canApprove, onClick }: RequestCardPr
 interface RequestDetailPanelProps {
   request: UpgradeRequest;
   canApprove: boolean;
+  canFulfill?: boolean;
+  isOwnRequest?: boolean;
   isActionLoading?: boolean;
   onClose: () => void;
   onApprove: () => void;
   onDeny: (reason: string) => void;
+  onFulfillAssessment?: (assessment: SupplierAssessmentResult) => void;
 }
 
-function RequestDetailPanel({ request, canApprove, isActionLoading, onClose, onApprove, onDeny }: RequestDetailPanelProps) {
+function RequestDetailPanel({
+  request,
+  canApprove,
+  canFulfill,
+  isOwnRequest,
+  isActionLoading,
+  onClose,
+  onApprove,
+  onDeny,
+  onFulfillAssessment,
+}: RequestDetailPanelProps) {
   const [denyReason, setDenyReason] = useState('');
   const [showDenyForm, setShowDenyForm] = useState(false);
+  const [assessmentScore, setAssessmentScore] = useState('');
+  const [changeReason, setChangeReason] = useState('');
 
   const statusDisplay = getRequestStatusDisplay(request.status);
   const typeDisplay = getRequestTypeDisplay(request.type);
   const TypeIcon = REQUEST_TYPE_ICONS[request.type] || FileText;
 
   const isPending = request.status === 'pending';
+  const assessment = request.context?.assessment;
+  const parsedScore = Number(assessmentScore);
+  const isScoreValid = assessmentScore.trim() !== '' && Number.isInteger(parsedScore) && parsedScore >= 0 && parsedScore <= 100;
 
   return (
     <div className="p-6">
@@ -511,6 +601,27 @@ function RequestDetailPanel({ request, canApprove, isActionLoading, onClose, onA
               <p className="text-sm text-secondary italic mt-1">"{request.context.queryText}"</p>
             </div>
           )}
+          {request.context.supplierName && (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-secondary">Supplier:</span>
+              <span className="font-medium text-primary">{request.context.supplierName}</span>
+            </div>
+          )}
+          {request.context.eligibility && (
+            <div className="flex items-center gap-2 text-sm mt-1">
+              <span className="text-secondary">Current score:</span>
+              <span className="font-medium text-primary">
+                {request.context.eligibility === 'unrated'
+                  ? 'Unrated'
+                  : `${request.context.previousScore ?? '-'}${request.context.lastAssessedAt
+                    ? `, assessed ${new Date(request.context.lastAssessedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
+                    : ''}`}
+              </span>
+            </div>
+          )}
+          {request.context.reason && (
+            <p className="text-sm text-secondary italic mt-2">"{request.context.reason}"</p>
+          )}
         </div>
       )}
 
@@ -628,8 +739,67 @@ function RequestDetailPanel({ request, canApprove, isActionLoading, onClose, onA
       {isPending && !canApprove && (
         <div className="p-4 rounded-xl bg-slate-50 border border-slate-100">
           <p className="text-sm text-secondary text-center">
-            This request requires admin approval.
+            {isOwnRequest
+              ? `Awaiting approval - ${formatCredits(request.estimatedCredits)} credits on hold.`
+              : 'This request requires admin approval.'}
+          </p>
+        </div>
+      )}
+
+      {/* Approved assessment - waiting on the analyst's score */}
+      {request.type === 'supplier_assessment' && request.status === 'approved' && (
+        canFulfill && onFulfillAssessment ? (
+          <div className="p-4 rounded-xl bg-white border border-slate-100 space-y-3">
+            <h3 className="text-xs font-medium text-muted uppercase tracking-wide">
+              Record Assessment
+            </h3>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={1}
+              value={assessmentScore}
+              onChange={(e) => setAssessmentScore(e.target.value)}
+              placeholder="Risk score (0-100)"
+              className="w-full p-3 rounded-lg bg-white border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-violet-500/20"
+            />
+            <textarea
+              value={changeReason}
+              onChange={(e) => setChangeReason(e.target.value)}
+              maxLength={MAX_CHANGE_REASON_LENGTH}
+              placeholder="Why this score - shown in the supplier's risk history"
+              className="w-full h-20 p-3 rounded-lg bg-white border border-slate-200 text-sm resize-none focus:outline-none focus:ring-2 focus:ring-violet-500/20"
+            />
+            <button
+              onClick={() => onFulfillAssessment({ score: parsedScore, changeReason: changeReason.trim() })}
+              disabled={!isScoreValid || !changeReason.trim() || isActionLoading}
+              className="w-full py-3 px-4 rounded-xl bg-violet-600 hover:bg-violet-700 disabled:bg-violet-300 text-white text-sm font-medium flex items-center justify-center gap-2 transition-colors"
+            >
+              {isActionLoading ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <ShieldCheck className="w-4 h-4" />
+              )}
+              {isActionLoading ? 'Publishing...' : 'Publish Score'}
+            </button>
+          </div>
+        ) : (
+          <div className="p-4 rounded-xl bg-slate-50 border border-slate-100">
+            <p className="text-sm text-secondary text-center">
+              Approved - an analyst is assessing this supplier.
+            </p>
+          </div>
+        )
+      )}
+
+      {/* Completed assessment */}
+      {request.status === 'fulfilled' && assessment && (
+        <div className="p-4 rounded-xl bg-emerald-50 border border-emerald-100">
+          <h3 className="text-sm font-medium text-emerald-700 mb-2">Assessment</h3>
+          <p className="text-sm text-emerald-700">
+            Risk score {assessment.previousScore ?? 'unrated'} → <span className="font-medium">{assessment.score}</span>
           </p>
+          <p className="text-sm text-emerald-600 mt-1">{assessment.changeReason}</p>
         </div>
       )}
 
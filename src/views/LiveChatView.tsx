@@ -9,7 +9,9 @@ import { DeepResearchMessage } from '../components/chat/DeepResearchMessage';
 import { ResearchCommandCenter } from '../components/chat/ResearchCommandCenter';
 import { DeepResearchInterstitial } from '../components/chat/DeepResearchInterstitial';
 import type { AIResponse as AIResponseType, ThinkingMode } from '../services/ai';
-import { sendMessage, confirmDeepResearchIntake, executeDeepResearch } from '../services/ai';
+import { sendMessage, confirmDeepResearchIntake } from '../services/ai';
+import { cancelResearch, isServerResearchJob } from '../services/researchService';
+import { getMessageResearch, useResearchStreams } from '../hooks/useResearchStreams';
 import type { ChatMessage } from '../types/chat';
 import { generateId } from '../types/chat';
 import type { Supplier } from '../types/supplier';
@@ -19,7 +21,7 @@ import type { Milestone } from '../services/ai';
 import { buildResponseSources } from '../utils/sources';
 import { getManagedCategoryNames } from '../services/mockCategories';
 import { ResponseBody } from '../components/response';
-import type { IntakeAnswers, DeepResearchResponse } from '../types/deepResearch';
+import type { IntakeAnswers, DeepResearchEvent, DeepResearchResponse } from '../types/deepResearch';
 import { createInitialProgress } from '../types/deepResearch';
 import {
   scoreDeepResearchIntent,
@@ -305,36 +307,38 @@ export const LiveChatView = ({
         deepResearch: processingResponse,
       } as AIResponseType & { deepResearch: DeepResearchResponse },
     });
+  };
 
-    const finalResponse = await executeDeepResearch(
-      deepResearch.jobId,
-      deepResearch.query,
-      answers,
-      studyType,
-      (update) => {
-        updateMessage(messageId, {
-          response: {
-            ...currentResponse,
-            deepResearch: update,
-          } as AIResponseType & { deepResearch: DeepResearchResponse },
-        });
-      }
-    );
-
-    updateMessage(messageId, {
-      response: {
-        ...currentResponse,
-        deepResearch: finalResponse,
-      } as AIResponseType & { deepResearch: DeepResearchResponse },
-    });
+  // Progress for confirmed jobs streams in from the server
+  const handleResearchEvent = (messageId: string, event: DeepResearchEvent) => {
+    setMessages(prev => prev.map(m => {
+      const current = m.id === messageId ? getMessageResearch(m) : undefined;
+      if (!current || !m.response) return m;
+      return {
+        ...m,
+        response: {
+          ...m.response,
+          deepResearch: { ...current, ...event.data, creditsAvailable: current.creditsAvailable },
+        } as AIResponseType & { deepResearch: DeepResearchResponse },
+      };
+    }));
   };
 
+  useResearchStreams(messages, handleResearchEvent);
+
   const handleRetryDeepResearch = (messageId: string, query: string) => {
     setMessages(prev => prev.filter(m => m.id !== messageId));
     handleSendMessage(query, true);
   };
 
   const handleCancelDeepResearch = (messageId: string) => {
+    const message = messages.find(m => m.id === messageId);
+    const research = message && getMessageResearch(message);
+    if (research && isServerResearchJob(research.jobId)) {
+      cancelResearch(research.jobId)
+        .catch(err => console.error('[LiveChat] Failed to cancel research job:', err));
+    }
+
     setMessages(prev => prev.map(m => {
       if (m.id === messageId && m.response) {
         const deepResearch = (m.response as AIResponseType & { deepResearch?: DeepResearchResponse }).deepResearch;
@@ -18,10 +18,13 @@ import {
   Clock,
   Lock,
   Globe,
+  Monitor,
 } from 'lucide-react';
 import { MOCK_CURRENT_USER, MOCK_COMPANY, MOCK_TEAMS, getMockTeamMembers } from '../services/mockOrganization';
 import type { OrgRole } from '../types/organization';
 import { InterestsSection } from '../components/settings/InterestsSection';
+import { CreditUsageDashboard } from '../components/settings/CreditUsageDashboard';
+import { ActiveSessions } from '../components/settings/ActiveSessions';
 
 interface SettingsViewProps {
   onBack: () => void;
@@ -30,7 +33,7 @@ interface SettingsViewProps {
   onNavigateToApprovals?: () => void;
 }
 
-type SettingsSection = 'profile' | 'interests' | 'notifications' | 'team' | 'organization' | 'billing' | 'security';
+type SettingsSection = 'profile' | 'interests' | 'notifications' | 'team' | 'organization' | 'billing' | 'security' | 'sessions';
 
 export function SettingsView({
   onBack,
@@ -49,6 +52,7 @@ export function SettingsView({
     { id: 'interests', label: 'My Interests', icon: Sparkles },
     { id: 'notifications', label: 'Notifications', icon: Bell },
     { id: 'team', label: 'Team', icon: Users },
+    { id: 'sessions', label: 'Sessions', icon: Monitor },
     { id: 'organization', label: 'Organization', icon: Building2, adminOnly: true },
     { id: 'billing', label: 'Billing & Credits', icon: CreditCard, adminOnly: true },
     { id: 'security', label: 'Security', icon: Shield, adminOnly: true },
@@ -139,7 +143,10 @@ export function SettingsView({
             {activeSection === 'team' && <TeamSection />}
             {activeSection === 'organization' && isAdmin && <OrganizationSection />}
             {activeSection === 'billing' && isAdmin && <BillingSection />}
-            {activeSection === 'security' && isAdmin && <SecuritySection />}
+            {activeSection === 'security' && isAdmin && (
+              <SecuritySection onViewSessions={() => setActiveSection('sessions')} />
+            )}
+            {activeSection === 'sessions' && <ActiveSessions />}
           </motion.div>
         </div>
       </div>
@@ -390,6 +397,14 @@ function BillingSection() {
         </div>
       </div>
 
+      {/* Credit Usage */}
+      <h3 className="text-sm font-medium text-muted uppercase tracking-wide mb-3">
+        Credit Usage
+      </h3>
+      <div className="mb-6">
+        <CreditUsageDashboard />
+      </div>
+
       {/* Upgrade Option */}
       <div className="p-6 rounded-xl border border-slate-200 mb-6">
         <h3 className="font-medium text-primary mb-2">Need more capacity?</h3>
@@ -430,7 +445,7 @@ function BillingSection() {
 }
 
 // Security Section (Admin only)
-function SecuritySection() {
+function SecuritySection({ onViewSessions }: { onViewSessions: () => void }) {
   return (
     <div className="max-w-2xl mx-auto">
       <div className="mb-6">
@@ -478,7 +493,10 @@ function SecuritySection() {
                 <p className="text-xs text-secondary">Manage devices logged into your account</p>
               </div>
             </div>
-            <button className="px-3 py-1.5 rounded-lg bg-slate-100 text-secondary text-sm font-medium hover:bg-slate-200 transition-colors">
+            <button
+              onClick={onViewSessions}
+              className="px-3 py-1.5 rounded-lg bg-slate-100 text-secondary text-sm font-medium hover:bg-slate-200 transition-colors"
+            >
               View
             </button>
           </div>